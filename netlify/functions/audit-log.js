@@ -0,0 +1,80 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { auditFromRow, recordAudit } = require('../shared/securityAudit');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+const { auditCsv, isAuditAction } = require('../../src/utils/auditLog');
+
+const MAX_PAGE = 200;
+const MAX_EXPORT = 5000;
+
+// Actions the app reports from client services; everything else is written
+// only by the function that performed it
+const CLIENT_ACTIONS = {
+  'user.freeze': 'admin',
+  'user.unfreeze': 'admin',
+  'user.delete': 'self_or_admin',
+  'ownership.approve': 'admin',
+  'ownership.reject': 'admin',
+  'payout.approve': 'admin',
+  'payout.reject': 'admin',
+  'payout.complete': 'admin',
+};
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+function filteredQuery(admin, filters, options) {
+  let query = admin.from('security_audit_log').select('*', options);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.targetType) query = query.eq('target_type', filters.targetType);
+  if (filters.from) query = query.gte('occurred_at', filters.from);
+  if (filters.to) query = query.lte('occurred_at', filters.to);
+  // Commas and brackets would change the meaning of the or() filter
+  const search = String(filters.search || '').replace(/[,()]/g, ' ').trim();
+  if (search) query = query.or(`actor_email.ilike.%${search}%,actor_id.eq.${search},target_id.eq.${search}`);
+  return query.order('occurred_at', { ascending: false });
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'list';
+
+    if (action === 'record') {
+      const entry = body.entry || {};
+      const rule = CLIENT_ACTIONS[entry.action];
+      if (!isAuditAction(entry.action) || !rule) return json(422, { error: 'Unknown audit action' });
+      if (!entry.targetType || !entry.targetId) return json(422, { error: 'targetType and targetId are required' });
+      const allowed = isAdmin(profile) || (rule === 'self_or_admin' && entry.targetId === authUser.id);
+      if (!allowed) return json(403, { error: 'Admin access required' });
+      await recordAudit(admin, event, {
+        actor: authUser, actorRole: profile?.user_type, action: entry.action, targetType: entry.targetType, targetId: entry.targetId,
+        before: entry.before, after: entry.after, fields: entry.fields, reason: entry.reason, source: 'client',
+      });
+      return json(201, { recorded: true });
+    }
+
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+    const filters = body.filters || {};
+
+    if (action === 'list') {
+      const limit = Math.min(Number(filters.limit) || 50, MAX_PAGE);
+      const offset = Math.max(Number(filters.offset) || 0, 0);
+      const { data, error, count } = await filteredQuery(admin, filters, { count: 'exact' }).range(offset, offset + limit - 1);
+      if (error) throw error;
+      return json(200, { entries: (data || []).map(auditFromRow), total: count || 0 });
+    }
+
+    if (action === 'export') {
+      const { data, error } = await filteredQuery(admin, filters).limit(MAX_EXPORT);
+      if (error) throw error;
+      return json(200, { csv: auditCsv((data || []).map(auditFromRow)), truncated: (data || []).length === MAX_EXPORT });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('audit-log error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Audit log operation failed' });
+  }
+};
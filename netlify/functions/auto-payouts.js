@@ -0,0 +1,14 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { runDueAutoPayouts } = require('../shared/autoPayouts');
+
+// Scheduled (see netlify.toml): settle organisers who opted into automatic
+// payouts and whose daily, weekly or after-event run is due.
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    return json(200, { results: await runDueAutoPayouts(admin) });
+  } catch (error) {
+    console.error('auto-payouts error', error);
+    return json(500, { error: error.message || 'Automatic payouts failed' });
+  }
+};
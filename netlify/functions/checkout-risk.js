@@ -0,0 +1,78 @@
+const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
+const { TABLE, assessmentFromRow, sendStepUpCode, verifyStepUpCode } = require('../shared/checkoutRisk');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+const { AUDIT_FIELDS, recordAudit } = require('../shared/securityAudit');
+
+const MAX_PAGE = 100;
+const REVIEW_DECISIONS = { clear: 'cleared', fraud: 'fraud' };
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+// Buyers confirming a held checkout; they may not be signed in
+async function handleStepUp(body) {
+  const admin = getAdminClient();
+  if (!body.assessmentId) return json(422, { error: 'assessmentId is required' });
+
+  if (body.action === 'send_code') {
+    const email = await sendStepUpCode(admin, body.assessmentId);
+    return json(200, { sent: true, email });
+  }
+
+  await verifyStepUpCode(admin, body.assessmentId, body.code);
+  return json(200, { verified: true });
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'queue';
+    if (action === 'send_code' || action === 'verify') return await handleStepUp(body);
+
+    const { admin, authUser, profile } = await requireUser(event);
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+
+    if (action === 'queue') {
+      const filters = body.filters || {};
+      const limit = Math.min(Number(filters.limit) || 50, MAX_PAGE);
+      const offset = Math.max(Number(filters.offset) || 0, 0);
+      let query = admin.from(TABLE).select('*', { count: 'exact' }).neq('action', 'allow');
+      query = filters.status ? query.eq('review_status', filters.status) : query;
+      query = filters.action ? query.eq('action', filters.action) : query;
+      // Commas and brackets would change the meaning of the or() filter
+      const search = String(filters.search || '').replace(/[,()]/g, ' ').trim();
+      if (search) query = query.or(`email.ilike.%${search}%,phone.eq.${search},device_id.eq.${search}`);
+      const { data, error, count } = await query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
+      if (error) throw error;
+      return json(200, { assessments: (data || []).map(assessmentFromRow), total: count || 0 });
+    }
+
+    if (action === 'review') {
+      const reviewStatus = REVIEW_DECISIONS[body.decision];
+      if (!reviewStatus) return json(422, { error: 'Decision must be clear or fraud' });
+      const note = String(body.note || '').trim().slice(0, 500);
+      if (body.decision === 'fraud' && !note) return json(422, { error: 'Add a note saying why this is fraud' });
+
+      const { data: before, error: loadError } = await admin.from(TABLE).select('*').eq('id', body.assessmentId).maybeSingle();
+      if (loadError) throw loadError;
+      if (!before || before.action === 'allow') return json(404, { error: 'Flagged purchase not found' });
+
+      const { data: after, error } = await admin.from(TABLE).update({
+        review_status: reviewStatus, reviewed_by: authUser.id, reviewed_at: new Date().toISOString(), review_note: note || null,
+      }).eq('id', before.id).select('*').single();
+      if (error) throw error;
+
+      await recordAudit(admin, event, {
+        actor: authUser, actorRole: profile?.user_type, action: `risk.${body.decision}`, targetType: 'purchase', targetId: before.id,
+        before, after, fields: AUDIT_FIELDS.purchase, reason: note || null,
+      });
+      return json(200, { assessment: assessmentFromRow(after) });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('checkout-risk error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Checkout risk operation failed' });
+  }
+};
@@ -1,3 +1,6 @@
+const { getAdminClient } = require("../shared/supabaseAdmin")
+const { checkoutInput, checkoutRiskGate, attachPayment } = require("../shared/checkoutRisk")
+
 const PAWAPAY_BASE_URL = process.env.PAWAPAY_API_URL || "https://api.pawapay.io/v2"
 
 const getApiKey = () => {
@@ -5,6 +8,8 @@ const getApiKey = () => {
   return process.env.PAWAPAY_API_KEY
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
 const generateUUID = () => {
   return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
     const r = (Math.random() * 16) | 0
@@ -29,7 +34,7 @@ exports.handler = async (event, context) => {
 
   try {
     const body = JSON.parse(event.body || "{}")
-    const { amount, currency, phoneNumber, provider, buyerEmail, buyerName } = body
+    const { amount, currency, phoneNumber, provider, buyerEmail, buyerName, risk, riskAssessmentId } = body
 
     console.log("📥 Request body:")
     console.log("   - Amount:", amount, currency)
@@ -37,7 +42,22 @@ exports.handler = async (event, context) => {
     console.log("   - Provider:", provider)
     console.log("   - Buyer:", buyerName, buyerEmail)
 
-    const depositId = generateUUID()
+    const admin = getAdminClient()
+    const gate = await checkoutRiskGate(
+      admin,
+      checkoutInput(event, risk, { email: buyerEmail, phone: phoneNumber, payerName: buyerName, amount, paymentMethod: "mobile_money" }),
+      riskAssessmentId,
+    )
+    if (!gate.proceed) {
+      console.log("🛑 Checkout held by risk engine:", gate.payload.risk.action)
+      return {
+        statusCode: gate.statusCode,
+        body: JSON.stringify({ success: false, ...gate.payload }),
+      }
+    }
+
+    // Checkout picks the id so its order is recorded before the deposit exists
+    const depositId = UUID_PATTERN.test(body.depositId || "") ? body.depositId : generateUUID()
     const apiKey = getApiKey()
 
     // Format phone number: remove leading 0 and add country code
@@ -84,6 +104,8 @@ exports.handler = async (event, context) => {
       }
     }
 
+    await attachPayment(admin, gate.assessmentId, data.depositId)
+
     console.log("✅ Deposit initiated successfully")
     console.log("   - Deposit ID:", data.depositId)
     console.log("========================================")
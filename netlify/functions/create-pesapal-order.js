@@ -1,4 +1,16 @@
 const { getPesapalToken, invalidatePesapalToken } = require('../shared/pesapalAuth');
+const { getAdminClient } = require('../shared/supabaseAdmin');
+const { checkoutInput, checkoutRiskGate, attachPayment } = require('../shared/checkoutRisk');
+
+// Checkout records its order before the payment starts; the worker needs the
+// tracking id to ask PesaPal about it
+async function linkFulfillment(admin, merchantReference, trackingId) {
+  if (!trackingId) return;
+  const { error } = await admin.from('pending_ticket_fulfillments')
+    .update({ pesapal_tracking_id: trackingId, updated_at: new Date().toISOString() })
+    .eq('payment_id', merchantReference).is('pesapal_tracking_id', null);
+  if (error) console.error('[PesaPalOrder] Could not link tracking id to the order', merchantReference, error);
+}
 
 exports.handler = async (event) => {
   const headers = {
@@ -17,7 +29,7 @@ exports.handler = async (event) => {
   }
 
   try {
-    const { amount, description, buyerEmail, buyerPhone, callbackUrl, buyerName, buyerFirstName, buyerLastName } = JSON.parse(event.body);
+    const { amount, description, buyerEmail, buyerPhone, callbackUrl, buyerName, buyerFirstName, buyerLastName, orderId: requestedOrderId, risk, riskAssessmentId } = JSON.parse(event.body);
     const apiUrl = process.env.PESAPAL_API_URL || 'https://pay.pesapal.com/v3/api';
     const baseUrl = process.env.PESAPAL_BASE_URL || 'https://pay.pesapal.com';
 
@@ -30,9 +42,21 @@ exports.handler = async (event) => {
       throw new Error('Missing required fields: description, buyerEmail, callbackUrl');
     }
 
-    // Generate unique order ID (max 50 chars)
+    const admin = getAdminClient();
+    const payerName = buyerName || [buyerFirstName, buyerLastName].filter(Boolean).join(' ');
+    const gate = await checkoutRiskGate(
+      admin,
+      checkoutInput(event, risk, { email: buyerEmail, phone: buyerPhone, payerName, amount: parsedAmount, paymentMethod: 'card' }),
+      riskAssessmentId,
+    );
+    if (!gate.proceed) {
+      console.log('[PesaPalOrder] 🛑 Checkout held by risk engine:', gate.payload.risk.action);
+      return { statusCode: gate.statusCode, headers, body: JSON.stringify({ success: false, ...gate.payload }) };
+    }
+
+    // Checkout picks the order ID so its order is recorded first; otherwise generate one (max 50 chars)
     const random = Math.random().toString(36).substring(2, 11);
-    const orderId = `YV-${Date.now()}-${random}`.substring(0, 50);
+    const orderId = /^YV-[A-Za-z0-9-]{1,47}$/.test(requestedOrderId || '') ? requestedOrderId : `YV-${Date.now()}-${random}`.substring(0, 50);
 
     const notificationId = process.env.PESAPAL_NOTIFICATION_ID;
     if (!notificationId) {
@@ -97,6 +121,8 @@ exports.handler = async (event) => {
       const data = JSON.parse(responseText);
 
       if (data.redirect_url) {
+        await attachPayment(admin, gate.assessmentId, data.merchant_reference || orderId);
+        await linkFulfillment(admin, data.merchant_reference || orderId, data.order_tracking_id);
         return {
           statusCode: 200,
           headers,
@@ -0,0 +1,50 @@
+const crypto = require('crypto');
+const { json } = require('../shared/supabaseAdmin');
+const { signPayload, authorizeDoorAccess } = require('../shared/doorAccess');
+
+// Manifests are meant to be pulled shortly before doors open and are only
+// trusted offline for one night.
+const MANIFEST_TTL_MS = 18 * 60 * 60 * 1000;
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'GET') return json(405, { error: 'Method not allowed' });
+  try {
+    const { eventSlug, token } = event.queryStringParameters || {};
+    const { admin, event: eventRow } = await authorizeDoorAccess(event, eventSlug, token);
+
+    const { data: rows, error } = await admin.from('tickets')
+      .select('id, qr_code, status, ticket_ref, entry_fee_type, seat_number, table_number, buyer_name, buyer_photo_url, expires_at, qr_secret, reentry_pass')
+      .eq('event_slug', eventRow.slug)
+      .in('status', ['active', 'used', 'pending', 'cancelled', 'refunded']);
+    if (error) throw error;
+
+    const now = Date.now();
+    const manifest = {
+      eventSlug: eventRow.slug,
+      eventName: eventRow.name,
+      generatedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + MANIFEST_TTL_MS).toISOString(),
+      tickets: (rows || []).filter((r) => r.qr_code).map((r) => ({
+        id: r.id,
+        // Door devices only need to recognise a code, not reproduce it
+        qrHash: crypto.createHash('sha256').update(r.qr_code).digest('hex'),
+        status: r.status,
+        ticketRef: r.ticket_ref || undefined,
+        entryFeeType: r.entry_fee_type || undefined,
+        seatNumber: r.seat_number ?? undefined,
+        tableNumber: r.table_number ?? undefined,
+        buyerName: r.buyer_name || undefined,
+        buyerPhotoUrl: r.buyer_photo_url || undefined,
+        expiresAt: r.expires_at || undefined,
+        liveQr: !!r.qr_secret,
+        reentryPass: r.reentry_pass || null,
+      })),
+    };
+
+    console.log(`[Manifest] ${eventRow.slug}: ${manifest.tickets.length} tickets`);
+    return json(200, { ...manifest, signature: signPayload(JSON.stringify(manifest)) });
+  } catch (error) {
+    console.error('event-ticket-manifest error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Failed to build manifest' });
+  }
+};
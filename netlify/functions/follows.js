@@ -0,0 +1,26 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { follow, followFromRow, listFollows, unfollow } = require('../shared/follows');
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const { admin, authUser } = await requireUser(event);
+
+    if (body.action === 'list') {
+      return json(200, { follows: (await listFollows(admin, authUser.id)).map(followFromRow) });
+    }
+    if (body.action === 'follow') {
+      return json(200, { follow: followFromRow(await follow(admin, authUser.id, body)) });
+    }
+    if (body.action === 'unfollow') {
+      await unfollow(admin, authUser.id, body);
+      return json(200, { ok: true });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('follows error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Follow failed' });
+  }
+};
@@ -0,0 +1,25 @@
+const { getAdminClient } = require('../shared/supabaseAdmin');
+const { findByPaymentId, processFulfillment } = require('../shared/fulfillment');
+
+// Background function (up to 15 minutes): creates and emails the tickets for
+// one confirmed payment. Started by the payment confirmations, the sweep and
+// admin requeues; safe to call more than once for the same payment.
+exports.handler = async (event) => {
+  try {
+    const { paymentId, trigger } = JSON.parse(event.body || '{}');
+    if (!paymentId) {
+      console.error('fulfill-order-background: paymentId is required');
+      return;
+    }
+    const admin = getAdminClient();
+    const row = await findByPaymentId(admin, paymentId);
+    if (!row) {
+      console.warn('fulfill-order-background: no pending fulfillment for', paymentId);
+      return;
+    }
+    const outcome = await processFulfillment(admin, row, trigger || 'background');
+    console.log('fulfill-order-background', paymentId, outcome || `skipped (${row.status})`);
+  } catch (error) {
+    console.error('fulfill-order-background error', error);
+  }
+};
@@ -0,0 +1,60 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { confirmPayment, failPayment, startFulfillment } = require('../shared/fulfillment');
+const { fulfillmentPaymentStatus } = require('../shared/paymentStatus');
+const { isFulfillmentDue, PAYMENT_CONFIRMATION_WINDOW_MS } = require('../../src/utils/fulfillmentRetry');
+
+// Rows handed to the background worker per run
+const BATCH_SIZE = Number(process.env.FULFILLMENT_SWEEP_BATCH || 25);
+// Give the buyer's own verification a head start before asking the processor
+const CONFIRMATION_GRACE_MS = 2 * 60 * 1000;
+
+// Payments whose confirmation never reached us (tab closed, IPN lost)
+async function confirmMissedPayments(admin, now) {
+  const { data, error } = await admin.from('pending_ticket_fulfillments').select('*')
+    .eq('status', 'awaiting_payment')
+    .lt('created_at', new Date(now.getTime() - CONFIRMATION_GRACE_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+
+  let confirmed = 0;
+  let expired = 0;
+  for (const row of data || []) {
+    try {
+      const payment = await fulfillmentPaymentStatus(row);
+      if (payment.status === 'completed') {
+        await confirmPayment(admin, row.payment_id, { trigger: 'sweep', ...payment });
+        confirmed++;
+      } else if (payment.status === 'failed') {
+        await failPayment(admin, row.payment_id, payment.failureMessage || 'Payment failed');
+      } else if (now.getTime() - new Date(row.created_at).getTime() > PAYMENT_CONFIRMATION_WINDOW_MS) {
+        await failPayment(admin, row.payment_id, 'Payment was never confirmed');
+        expired++;
+      }
+    } catch (e) { console.error('fulfillment-sweep payment lookup error', row.payment_id, e); }
+  }
+  return { confirmed, expired };
+}
+
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    const now = new Date();
+    const { data, error } = await admin.from('pending_ticket_fulfillments').select('*')
+      .in('status', ['payment_confirmed', 'failed', 'fulfilling'])
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE * 4);
+    if (error) throw error;
+
+    const due = (data || []).filter((row) =>
+      isFulfillmentDue({ status: row.status, nextAttemptAt: row.next_attempt_at, updatedAt: row.updated_at }, now),
+    ).slice(0, BATCH_SIZE);
+    for (const row of due) await startFulfillment(row.payment_id, 'sweep');
+
+    const { confirmed, expired } = await confirmMissedPayments(admin, now);
+    return json(200, { started: due.length, confirmed, expired });
+  } catch (error) {
+    console.error('fulfillment-sweep error', error);
+    return json(500, { error: error.message || 'Fulfillment sweep failed' });
+  }
+};
@@ -0,0 +1,150 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { requestInstallmentRefund } = require('../shared/refunds');
+const {
+  DEFAULT_GRACE_DAYS, graceEndsAt, nextPendingInstallment, planLapse, reminderDue,
+} = require('../../src/utils/installmentReminders');
+
+// Days after a missed due date before the plan expires
+const GRACE_DAYS = Number(process.env.INSTALLMENT_GRACE_DAYS || DEFAULT_GRACE_DAYS);
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+
+const REMINDER_COPY = {
+  due_in_3_days: (p, amount, due) => [`Installment due ${due}`, `UGX ${amount} for ${p.event_name} is due ${due}.`],
+  due_tomorrow: (p, amount) => ['Installment due tomorrow', `UGX ${amount} for ${p.event_name} is due tomorrow. Pay now to keep your tickets.`],
+  due_today: (p, amount) => ['Installment due today', `UGX ${amount} for ${p.event_name} is due today. Pay now to keep your tickets.`],
+  overdue: (p, amount, due, graceEnds) => ['⚠️ Installment overdue', `Your UGX ${amount} installment for ${p.event_name} is overdue. Pay by ${graceEnds} or your reservation will be cancelled.`],
+};
+
+function payNowUrl(plan) {
+  return `${SITE_URL}/profile/my-tickets?payPlan=${encodeURIComponent(plan.id)}`;
+}
+
+function fmtDate(date) {
+  return new Date(date).toLocaleString('en-UG', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Africa/Kampala' });
+}
+
+async function pushNotice(admin, plan, type, title, body) {
+  if (!plan.buyer_id) return;
+  try {
+    await admin.from('notifications').insert({
+      user_id: plan.buyer_id, title, body, type,
+      data: { planId: plan.id, eventId: plan.event_id }, deep_link: payNowUrl(plan),
+      is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('installment push error', plan.id, e); }
+}
+
+async function emailNotice(plan, kind, title, body) {
+  try {
+    const response = await fetch(`${SITE_URL}/.netlify/functions/send-ticket-email`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        kind, buyerEmail: plan.payer_email || plan.buyer_email, buyerName: plan.buyer_name,
+        eventName: plan.event_name, subject: title, message: body,
+        actionUrl: kind === 'installment_reminder' ? payNowUrl(plan) : null,
+      }),
+    });
+    if (!response.ok) console.error('installment email failed', plan.id, response.status, await response.text());
+  } catch (e) { console.error('installment email error', plan.id, e); }
+}
+
+// No SMS provider yet: messages are queued for whoever sends them
+async function smsNotice(admin, plan, body) {
+  if (!plan.payment_number) return;
+  try {
+    await admin.from('sms_outbox').insert({
+      to_number: plan.payment_number, body: `${body} ${payNowUrl(plan)}`,
+      kind: 'installment_reminder', reference: plan.id, status: 'queued', created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('installment sms error', plan.id, e); }
+}
+
+async function sendReminder(admin, plan, installment, stage, now) {
+  const graceEnds = graceEndsAt(installment.dueDate, GRACE_DAYS);
+  const [title, body] = REMINDER_COPY[stage.key](plan, Number(installment.totalDue).toLocaleString(), fmtDate(installment.dueDate), fmtDate(graceEnds));
+  if (stage.channels.includes('push')) await pushNotice(admin, plan, 'installment_reminder', title, body);
+  if (stage.channels.includes('email')) await emailNotice(plan, 'installment_reminder', title, body);
+  if (stage.channels.includes('sms')) await smsNotice(admin, plan, body);
+
+  await recordReminder(admin, plan, installment, stage, graceEnds, now);
+}
+
+// The buyer may pay while reminders go out, so the write is guarded on the
+// row not having changed since it was read; on a clash the fresh row is
+// re-read and the reminder appended to that instead.
+async function recordReminder(admin, plan, installment, stage, graceEnds, now) {
+  let row = plan;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = (row.installments || []).find((i) => i.index === installment.index);
+    if (row.status !== 'active' || !current || current.status === 'paid') return;
+    const installments = row.installments.map((i) => (i.index === installment.index
+      ? { ...i, remindersSent: [...(i.remindersSent || []), stage.key] }
+      : i));
+    const { data: updated, error } = await admin.from('ticket_installment_plans').update({
+      installments,
+      ...(stage.key === 'overdue' ? { grace_ends_at: graceEnds.toISOString() } : {}),
+      updated_at: now.toISOString(),
+    }).eq('id', plan.id).eq('status', 'active').eq('updated_at', row.updated_at).select('id');
+    if (error) throw error;
+    if (updated?.length) return;
+    const { data: fresh, error: readError } = await admin.from('ticket_installment_plans').select('*').eq('id', plan.id).maybeSingle();
+    if (readError) throw readError;
+    if (!fresh) return;
+    row = fresh;
+  }
+  console.error('installment-reminders: could not record reminder after retries', plan.id, stage.key);
+}
+
+async function expirePlan(admin, plan, lapse, now) {
+  // Guard on status so a payment that lands mid-run is not overwritten
+  const { data: updated, error } = await admin.from('ticket_installment_plans')
+    .update({ status: 'expired', expired_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', plan.id).eq('status', 'active').select('id');
+  if (error) throw error;
+  if (!updated?.length) return false;
+
+  const reason = lapse === 'event_passed' ? 'the event has passed' : `the ${GRACE_DAYS}-day grace period ended`;
+  const body = `Your installment plan for ${plan.event_name} was cancelled because ${reason} without the next payment. Any refund due will be reviewed by our team.`;
+  await pushNotice(admin, plan, 'installment_expired', 'Installment plan cancelled', body);
+  await emailNotice(plan, 'installment_expired', 'Installment plan cancelled', body);
+  await requestInstallmentRefund(admin, plan, `Installment plan expired: ${reason}`);
+  return true;
+}
+
+// Scheduled (see netlify.toml): escalating reminders before each installment
+// falls due, then expiry (and an automatic refund request) once grace runs out.
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    const { data: plans, error } = await admin.from('ticket_installment_plans').select('*').eq('status', 'active');
+    if (error) throw error;
+
+    const now = new Date();
+    let reminded = 0;
+    let expired = 0;
+    for (const row of plans || []) {
+      try {
+        const plan = {
+          ...row,
+          installments: (row.installments || []).map((i) => ({ ...i, dueDate: new Date(i.dueDate) })),
+        };
+        const lapse = planLapse({ status: plan.status, eventDate: plan.event_date ? new Date(plan.event_date) : null, installments: plan.installments }, now, GRACE_DAYS);
+        if (lapse) {
+          if (await expirePlan(admin, plan, lapse, now)) expired++;
+          continue;
+        }
+        const next = nextPendingInstallment(plan.installments);
+        const stage = next && reminderDue(next, now);
+        if (stage) {
+          await sendReminder(admin, plan, next, stage, now);
+          reminded++;
+        }
+      } catch (e) { console.error('installment-reminders plan error', row.id, e); }
+    }
+    return json(200, { checked: (plans || []).length, reminded, expired });
+  } catch (error) {
+    console.error('installment-reminders error', error);
+    return json(500, { error: error.message || 'Installment reminders failed' });
+  }
+};
@@ -0,0 +1,18 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { syncLedger } = require('../shared/ledger');
+
+// Scheduled (see netlify.toml): post sales, installment payments, refunds and
+// payouts the inline hooks missed, including those recorded by the app itself.
+const LOOKBACK_HOURS = Number(process.env.LEDGER_SYNC_LOOKBACK_HOURS || 48);
+
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    const since = new Date(Date.now() - LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+    const posted = await syncLedger(admin, since);
+    return json(200, { since, posted });
+  } catch (error) {
+    console.error('ledger-sync error', error);
+    return json(500, { error: error.message || 'Ledger sync failed' });
+  }
+};
@@ -0,0 +1,90 @@
+const crypto = require('crypto');
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { postEntries, postPayout, loadEntries, refreshWallet, syncLedger, invariantInputs } = require('../shared/ledger');
+const { adjustmentEntry, buildStatement, checkLedgerInvariants, walletBalance } = require('../../src/utils/ledger');
+const { recordAudit } = require('../shared/securityAudit');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'wallet';
+
+    // Organisers see their own books; admins anyone's
+    const organizerId = body.organizerId || authUser.id;
+    if (organizerId !== authUser.id && !isAdmin(profile)) return json(403, { error: 'Admin access required' });
+
+    if (action === 'wallet') {
+      return json(200, { wallet: walletBalance(await loadEntries(admin, organizerId), organizerId) });
+    }
+
+    if (action === 'statement') {
+      const statement = buildStatement(await loadEntries(admin, organizerId), organizerId, { from: body.from, to: body.to });
+      return json(200, { statement });
+    }
+
+    if (action === 'record_payout') {
+      if (!body.payoutId) return json(400, { error: 'payoutId is required' });
+      const { data: payout, error } = await admin.from('payouts').select('*').eq('id', body.payoutId).single();
+      if (error || !payout) return json(404, { error: 'Payout not found' });
+      if (payout.organizer_id !== authUser.id && !isAdmin(profile)) return json(403, { error: 'Not your payout' });
+      if (payout.status !== 'completed') return json(409, { error: 'Only completed payouts are posted to the ledger' });
+      await postPayout(admin, payout);
+      return json(200, { wallet: await refreshWallet(admin, payout.organizer_id) });
+    }
+
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+
+    if (action === 'organizers') {
+      const { data: wallets, error } = await admin.from('organizer_wallets').select('*').order('last_updated', { ascending: false });
+      if (error) throw error;
+      const ids = (wallets || []).map((w) => w.organizer_id);
+      const { data: users } = ids.length ? await admin.from('users').select('id,email,name').in('id', ids) : { data: [] };
+      const byId = new Map((users || []).map((u) => [u.id, u]));
+      return json(200, {
+        organizers: (wallets || []).map((w) => ({
+          organizerId: w.organizer_id, name: byId.get(w.organizer_id)?.name || null, email: byId.get(w.organizer_id)?.email || null,
+          availableBalance: Number(w.available_balance || 0), pendingBalance: Number(w.pending_balance || 0), lastUpdated: w.last_updated,
+        })),
+      });
+    }
+
+    if (action === 'check') {
+      if (!body.organizerId) return json(400, { error: 'organizerId is required' });
+      return json(200, { issues: checkLedgerInvariants(await invariantInputs(admin, organizerId)) });
+    }
+
+    if (action === 'sync') {
+      const since = body.since ? new Date(body.since) : new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      if (Number.isNaN(since.getTime())) return json(422, { error: 'since must be a date' });
+      return json(200, { posted: await syncLedger(admin, since.toISOString()) });
+    }
+
+    if (action === 'adjust') {
+      const amount = Math.round(Number(body.amount) * 100) / 100;
+      if (!body.organizerId || !Number.isFinite(amount) || amount === 0) return json(422, { error: 'organizerId and a non-zero amount are required' });
+      if (!String(body.memo || '').trim()) return json(422, { error: 'Explain the adjustment in the memo' });
+      const before = walletBalance(await loadEntries(admin, organizerId), organizerId);
+      await postEntries(admin, [adjustmentEntry({
+        key: crypto.randomUUID(), organizerId, amount, memo: String(body.memo).trim(),
+        occurredAt: new Date().toISOString(), createdBy: authUser.id,
+      })]);
+      const wallet = await refreshWallet(admin, organizerId);
+      await recordAudit(admin, event, {
+        actor: authUser, actorRole: profile?.user_type, action: 'ledger.adjust', targetType: 'organizer', targetId: organizerId,
+        before, after: wallet, fields: ['availableBalance', 'totalAdjustments'], reason: String(body.memo).trim(),
+      });
+      return json(201, { wallet });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('organizer-ledger error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Ledger operation failed' });
+  }
+};
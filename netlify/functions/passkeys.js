@@ -0,0 +1,95 @@
+const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
+const {
+  passkeyFromRow, listCredentials, createChallenge, takeChallenge, registrationOptions, assertionOptions,
+  verifyRegistration, verifyAssertion, issueGrant, requirePasskeyChange,
+} = require('../shared/passkeys');
+const { recordAudit } = require('../shared/securityAudit');
+const { PASSKEY_PURPOSES } = require('../../src/utils/webauthn');
+
+// Passwordless sign-in, before there is a session to authenticate with
+async function handleLogin(event, body) {
+  const admin = getAdminClient();
+
+  if (body.action === 'login_options') {
+    const { challengeId, challenge } = await createChallenge(admin, null, 'login');
+    return json(200, { challengeId, options: assertionOptions(challenge) });
+  }
+
+  const challengeRow = await takeChallenge(admin, body.challengeId, 'login');
+  const credential = await verifyAssertion(admin, challengeRow, body.credential);
+  const { data: profile, error } = await admin.from('users').select('id,email').eq('id', credential.user_id).maybeSingle();
+  if (error) throw error;
+  if (!profile?.email) return json(404, { error: 'No account is linked to this passkey' });
+
+  // A single-use magic link token the client exchanges for a normal Supabase session
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({ type: 'magiclink', email: profile.email });
+  if (linkError) throw linkError;
+  // Privileged accounts with two-factor on still enter their authenticator code on the new session
+  return json(200, { tokenHash: link.properties.hashed_token, email: profile.email });
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'list';
+    if (action === 'login_options' || action === 'login_verify') return await handleLogin(event, body);
+
+    const { admin, authUser, profile } = await requireUser(event);
+    const audit = (auditAction, targetId, before, after) => recordAudit(admin, event, {
+      actor: authUser, actorRole: profile?.user_type, action: auditAction, targetType: 'user', targetId, before, after,
+    });
+
+    if (action === 'list') {
+      return json(200, { passkeys: (await listCredentials(admin, authUser.id)).map(passkeyFromRow) });
+    }
+
+    // register_verify needs the challenge handed out here, so it is guarded by this check too
+    if (action === 'register_options') {
+      await requirePasskeyChange(admin, event, authUser, body.stepUpToken);
+      const existing = await listCredentials(admin, authUser.id);
+      const { challengeId, challenge } = await createChallenge(admin, authUser.id, 'register');
+      const { data: user } = await admin.from('users').select('name').eq('id', authUser.id).maybeSingle();
+      const options = registrationOptions({ id: authUser.id, email: profile?.email || authUser.email, name: user?.name }, existing, challenge);
+      return json(200, { challengeId, options });
+    }
+
+    if (action === 'register_verify') {
+      const challengeRow = await takeChallenge(admin, body.challengeId, 'register', authUser.id);
+      const row = await verifyRegistration(admin, authUser.id, challengeRow, body.credential, body.name);
+      await audit('passkey.register', authUser.id, null, { passkey: row.name, credential_id: row.id });
+      return json(200, { passkey: passkeyFromRow(row) });
+    }
+
+    if (action === 'remove') {
+      await requirePasskeyChange(admin, event, authUser, body.stepUpToken);
+      const { data: removed, error } = await admin.from('webauthn_credentials').delete()
+        .eq('id', body.passkeyId).eq('user_id', authUser.id).select('*');
+      if (error) throw error;
+      if (!removed?.length) return json(404, { error: 'Passkey not found' });
+      await audit('passkey.remove', authUser.id, { passkey: removed[0].name, credential_id: removed[0].id }, null);
+      return json(200, { removed: true });
+    }
+
+    // Step-up: confirm one sensitive action with a fresh assertion
+    if (action === 'stepup_options') {
+      if (!PASSKEY_PURPOSES.includes(body.purpose)) return json(400, { error: 'Unknown purpose' });
+      const credentials = await listCredentials(admin, authUser.id);
+      if (!credentials.length) return json(200, { required: false });
+      const { challengeId, challenge } = await createChallenge(admin, authUser.id, `stepup:${body.purpose}`);
+      return json(200, { required: true, challengeId, options: assertionOptions(challenge, credentials) });
+    }
+
+    if (action === 'stepup_verify') {
+      if (!PASSKEY_PURPOSES.includes(body.purpose)) return json(400, { error: 'Unknown purpose' });
+      const challengeRow = await takeChallenge(admin, body.challengeId, `stepup:${body.purpose}`, authUser.id);
+      await verifyAssertion(admin, challengeRow, body.credential, authUser.id);
+      return json(200, { stepUpToken: await issueGrant(admin, authUser.id, body.purpose) });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('passkeys error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Passkey operation failed' });
+  }
+};
@@ -1,4 +1,6 @@
 const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { releaseRefundedSpot } = require('../shared/waitlist');
+const { postRefund } = require('../shared/ledger');
 
 function normalizeStatus(value) {
   const status = String(value || '').toUpperCase();
@@ -23,7 +25,12 @@ exports.handler = async (event) => {
     if (result.error) throw result.error;
     await admin.from('refund_status_history').insert({ refund_request_id: refund.id, from_status: refund.status, to_status: status, actor_type: 'pawapay_callback', note: 'PawaPay refund callback received', processor_payload: payload });
     if (status === 'completed' && refund.ticket_id) {
-      await admin.from('tickets').update({ status: 'refunded', refund_status: 'completed', refunded_amount: refund.approved_amount }).eq('id', refund.ticket_id);
+      const { data: ticket } = await admin.from('tickets').update({ status: 'refunded', refund_status: 'completed', refunded_amount: refund.approved_amount })
+        .eq('id', refund.ticket_id).select('event_slug, event_id, entry_fee_type').maybeSingle();
+      await releaseRefundedSpot(admin, ticket);
+    }
+    if (status === 'completed') {
+      try { await postRefund(admin, result.data); } catch (e) { console.error('ledger refund post error', refund.id, e); }
     }
     return json(200, { received: true, status });
   } catch (error) {
@@ -0,0 +1,326 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { reference, addHistory } = require('../shared/refunds');
+const { startFulfillment } = require('../shared/fulfillment');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+const {
+  pawapayDepositStatus, pawapayPayoutStatus, pawapayRefundStatus, pesapalOrderStatus,
+} = require('../shared/paymentStatus');
+const {
+  normalizeSettlementStatus, parseStatementCsv, reconcile, summarizeReconciliation,
+} = require('../../src/utils/reconciliation');
+
+// Gateway lookups per pull, kept within the function timeout; anything beyond
+// is reported as unchecked and wants a CSV import instead
+const MAX_LOOKUPS = Number(process.env.RECONCILIATION_MAX_LOOKUPS || 120);
+const LOOKUP_CONCURRENCY = 10;
+const MAX_RANGE_DAYS = 93;
+
+function amountNumber(value) { const n = Number(value); return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0; }
+
+function parseRange(body) {
+  const from = new Date(body.from);
+  const to = new Date(body.to);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+    throw Object.assign(new Error('A valid from/to date range is required'), { statusCode: 422 });
+  }
+  if (to - from > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw Object.assign(new Error(`Reconcile at most ${MAX_RANGE_DAYS} days at a time`), { statusCode: 422 });
+  }
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+// ─── Our side of the ledger ─────────────────────────────────────────────────
+
+async function ticketPurchases(admin, range) {
+  const { data, error } = await admin.from('tickets').select('*')
+    .gte('purchase_date', range.from).lte('purchase_date', range.to);
+  if (error) throw error;
+
+  // One record per purchase: every ticket of an order shares its payment id
+  const purchases = new Map();
+  for (const t of data || []) {
+    // Installment tickets are paid for by the installments themselves
+    if (String(t.payment_reference || '').startsWith('installment_plan_')) continue;
+    const key = t.payment_id || t.id;
+    const purchase = purchases.get(key) || { tickets: [] };
+    purchase.tickets.push(t);
+    purchases.set(key, purchase);
+  }
+
+  return [...purchases.entries()].map(([paymentId, { tickets }]) => {
+    const first = tickets[0];
+    const isPawaPay = first.payment_method === 'mobile_money' || !!first.pawapay_deposit_id;
+    const amount = first.table_group_id && first.table_total_amount
+      ? amountNumber(first.table_total_amount)
+      : amountNumber(tickets.reduce((sum, t) => sum + Number(t.total_amount || 0), 0));
+    return {
+      source: 'ticket', id: paymentId, kind: 'deposit', provider: isPawaPay ? 'pawapay' : 'pesapal',
+      references: [first.pawapay_deposit_id, paymentId, first.pesapal_transaction_id, first.pesapal_confirmation_code, first.payment_reference].filter(Boolean),
+      amount, status: normalizeSettlementStatus(first.payment_status),
+      occurredAt: first.purchase_date, label: `${tickets.length} ticket(s) · ${first.event_name || ''} · ${first.buyer_email || ''}`,
+      ticketIds: tickets.map((t) => t.id),
+    };
+  });
+}
+
+async function installmentPayments(admin, range) {
+  const { data, error } = await admin.from('ticket_installment_plans').select('*')
+    .gte('updated_at', range.from);
+  if (error) throw error;
+  const records = [];
+  for (const plan of data || []) {
+    for (const inst of plan.installments || []) {
+      if (inst.status !== 'paid' || !inst.depositId || !inst.paidAt) continue;
+      if (inst.paidAt < range.from || inst.paidAt > range.to) continue;
+      records.push({
+        source: 'installment', id: `${plan.id}:${inst.index}`, kind: 'deposit',
+        provider: inst.paymentMethod === 'mobile_money' ? 'pawapay' : 'pesapal',
+        references: [inst.depositId], amount: amountNumber(inst.totalDue ?? inst.amount), status: 'completed',
+        occurredAt: inst.paidAt, label: `Installment ${inst.index + 1} · ${plan.event_name || ''} · ${plan.buyer_email || ''}`,
+      });
+    }
+  }
+  return records;
+}
+
+const REFUND_STATUS = { completed: 'completed', failed: 'failed', needs_attention: 'failed', submitted: 'pending', processing: 'pending' };
+
+async function executedRefunds(admin, range) {
+  const { data, error } = await admin.from('refund_requests').select('*')
+    .not('external_refund_id', 'is', null).gte('submitted_at', range.from).lte('submitted_at', range.to);
+  if (error) throw error;
+  return (data || []).map((r) => ({
+    source: 'refund', id: r.id, kind: 'refund', provider: r.payment_provider === 'pawapay' ? 'pawapay' : 'pesapal',
+    references: [r.external_refund_id], amount: amountNumber(r.refunded_amount || r.approved_amount),
+    status: REFUND_STATUS[r.status] || 'pending', occurredAt: r.submitted_at,
+    label: `${r.request_reference} · ${r.buyer_email || ''}`, ticketIds: r.ticket_ids || [],
+  }));
+}
+
+async function payouts(admin, range) {
+  const { data, error } = await admin.from('payouts').select('*')
+    .not('transaction_reference', 'is', null).gte('request_date', range.from).lte('request_date', range.to);
+  if (error) throw error;
+  return (data || []).map((p) => ({
+    source: 'payout', id: p.id, kind: 'payout',
+    // Bank transfers are paid out by hand, outside either gateway
+    provider: p.payout_method === 'mobile_money' ? 'pawapay' : undefined,
+    references: [p.transaction_reference], amount: amountNumber(p.approved_amount || p.amount),
+    status: normalizeSettlementStatus(p.status), occurredAt: p.request_date,
+    label: `Payout · ${p.recipient_name || p.organizer_id}`,
+  }));
+}
+
+// Orders recorded at checkout that the fulfillment worker can still turn into tickets
+async function openFulfillments(admin, range) {
+  const { data, error } = await admin.from('pending_ticket_fulfillments').select('*')
+    .neq('status', 'fulfilled').gte('created_at', range.from).lte('created_at', range.to);
+  if (error) throw error;
+  return (data || []).filter((f) => f.order);
+}
+
+// ─── Gateway side ───────────────────────────────────────────────────────────
+
+async function lookup(kind, provider, id) {
+  if (provider === 'pawapay') {
+    if (kind === 'deposit') return pawapayDepositStatus(id);
+    if (kind === 'payout') return pawapayPayoutStatus(id);
+    return pawapayRefundStatus(id);
+  }
+  return pesapalOrderStatus(id);
+}
+
+/**
+ * Ask the gateways about everything we know of in the range, one reference at
+ * a time. Neither gateway offers a statement listing, so money we have no
+ * record of at all only shows up through a CSV import.
+ */
+async function pullTransactions(records, fulfillments) {
+  const trackingIds = new Map(fulfillments.filter((f) => f.pesapal_tracking_id).map((f) => [f.payment_id, f.pesapal_tracking_id]));
+  const jobs = [];
+  const covered = [];
+  let unchecked = 0;
+
+  for (const record of records) {
+    const id = record.provider === 'pawapay'
+      ? record.references[0]
+      : record.kind === 'deposit' ? record.references.map((r) => trackingIds.get(r)).find(Boolean) : null;
+    if (!record.provider || !id || jobs.length >= MAX_LOOKUPS) { unchecked++; continue; }
+    covered.push(record);
+    jobs.push({ kind: record.kind, provider: record.provider, id, record });
+  }
+  // Paid-for orders that never became tickets
+  for (const f of fulfillments) {
+    if (jobs.length >= MAX_LOOKUPS) break;
+    const id = f.pawapay_deposit_id || f.pesapal_tracking_id;
+    if (!id || jobs.some((j) => j.id === id)) continue;
+    jobs.push({ kind: 'deposit', provider: f.pawapay_deposit_id ? 'pawapay' : 'pesapal', id });
+  }
+
+  const transactions = [];
+  for (let i = 0; i < jobs.length; i += LOOKUP_CONCURRENCY) {
+    await Promise.all(jobs.slice(i, i + LOOKUP_CONCURRENCY).map(async (job) => {
+      try {
+        const result = await lookup(job.kind, job.provider, job.id);
+        if (result.found === false) return;
+        transactions.push({
+          provider: job.provider, kind: job.kind, reference: job.id,
+          aliases: [result.merchantReference, result.confirmationCode].filter(Boolean),
+          amount: amountNumber(result.amount), currency: result.currency, status: result.status, occurredAt: result.occurredAt,
+        });
+      } catch (e) {
+        console.error('reconciliation lookup error', job.provider, job.id, e.message);
+        unchecked++;
+        // Without an answer the record would read as missing at the gateway
+        if (job.record) covered.splice(covered.indexOf(job.record), 1);
+      }
+    }));
+  }
+  return { transactions, covered, unchecked };
+}
+
+async function runReconciliation(admin, authUser, body) {
+  const range = parseRange(body);
+  const [tickets, installments, refunds, payoutRecords, fulfillments] = await Promise.all([
+    ticketPurchases(admin, range), installmentPayments(admin, range), executedRefunds(admin, range),
+    payouts(admin, range), openFulfillments(admin, range),
+  ]);
+  const records = [...tickets, ...installments, ...refunds, ...payoutRecords];
+
+  let transactions;
+  let compared;
+  let unchecked = 0;
+  let importErrors = [];
+  if (body.csv) {
+    if (!['pawapay', 'pesapal'].includes(body.provider)) {
+      throw Object.assign(new Error('Choose which gateway the statement is from'), { statusCode: 422 });
+    }
+    const parsed = parseStatementCsv(String(body.csv), body.provider);
+    importErrors = parsed.errors;
+    transactions = parsed.transactions.filter((t) => !t.occurredAt || (t.occurredAt >= range.from && t.occurredAt <= range.to));
+    compared = records.filter((r) => r.provider === body.provider);
+  } else {
+    const providerRecords = body.provider ? records.filter((r) => r.provider === body.provider) : records;
+    const providerFulfillments = body.provider
+      ? fulfillments.filter((f) => (body.provider === 'pawapay') === !!f.pawapay_deposit_id)
+      : fulfillments;
+    ({ transactions, covered: compared, unchecked } = await pullTransactions(providerRecords, providerFulfillments));
+  }
+
+  const rows = reconcile(transactions, compared, {
+    fulfillableReferences: fulfillments.flatMap((f) => [f.payment_id, f.pawapay_deposit_id, f.pesapal_tracking_id].filter(Boolean)),
+  });
+  const { data: report, error } = await admin.from('reconciliation_reports').insert({
+    range_from: range.from, range_to: range.to, source: body.csv ? 'csv' : 'pull', provider: body.provider || null,
+    summary: summarizeReconciliation(rows, unchecked), rows, created_by: authUser.id, created_at: new Date().toISOString(),
+  }).select('*').single();
+  if (error) throw error;
+  return { report, importErrors };
+}
+
+// ─── One-click fixes ────────────────────────────────────────────────────────
+
+async function findFulfillment(admin, refs) {
+  for (const column of ['payment_id', 'pawapay_deposit_id', 'pesapal_tracking_id']) {
+    const { data, error } = await admin.from('pending_ticket_fulfillments').select('*').in(column, refs).limit(1);
+    if (error) throw error;
+    if (data?.length) return data[0];
+  }
+  return null;
+}
+
+async function createFulfillment(admin, row) {
+  const refs = row.transactions.flatMap((t) => [t.reference, ...(t.aliases || [])]);
+  const fulfillment = await findFulfillment(admin, refs);
+  if (!fulfillment) throw Object.assign(new Error('No order was recorded for this payment'), { statusCode: 404 });
+  if (fulfillment.status === 'fulfilled' || fulfillment.status === 'fulfilling') {
+    throw Object.assign(new Error(`The order is already ${fulfillment.status}`), { statusCode: 409 });
+  }
+  const now = new Date().toISOString();
+  const { error } = await admin.from('pending_ticket_fulfillments').update({
+    status: 'payment_confirmed', attempt_count: 0, next_attempt_at: null, confirmed_at: fulfillment.confirmed_at || now,
+    payment_confirmation: fulfillment.payment_confirmation || { trigger: 'reconciliation', transactionId: row.transactions[0]?.reference },
+    updated_at: now,
+  }).eq('id', fulfillment.id);
+  if (error) throw error;
+  await startFulfillment(fulfillment.payment_id, 'reconciliation');
+  return { fulfillmentId: fulfillment.id, reference: fulfillment.payment_id };
+}
+
+async function openRefund(admin, authUser, row) {
+  const existing = row.records.find((r) => r.source === 'refund');
+  if (existing) return { refundId: existing.id, reference: existing.label.split(' · ')[0] };
+
+  const transaction = row.transactions.find((t) => t.status === 'completed') || row.transactions[0];
+  if (!transaction) throw Object.assign(new Error('There is no gateway payment to refund'), { statusCode: 422 });
+  const refs = [transaction.reference, ...(transaction.aliases || [])];
+  const fulfillment = await findFulfillment(admin, refs);
+  const ticketIds = row.records.flatMap((r) => r.ticketIds || []);
+  const idempotencyKey = `reconciliation:${row.id}`;
+  const { data: duplicate } = await admin.from('refund_requests').select('*').eq('idempotency_key', idempotencyKey).maybeSingle();
+  if (duplicate) return { refundId: duplicate.id, reference: duplicate.request_reference };
+
+  const { data: refund, error } = await admin.from('refund_requests').insert({
+    request_reference: reference(), buyer_id: fulfillment?.buyer_id || null, buyer_email: fulfillment?.buyer_email || null,
+    event_id: fulfillment?.event_id || null, ticket_id: ticketIds[0] || null, ticket_ids: ticketIds,
+    payment_provider: transaction.provider, payment_reference: fulfillment?.payment_id || null,
+    processor_reference: transaction.provider === 'pawapay' ? transaction.reference : fulfillment?.payment_id || transaction.reference,
+    processor_confirmation_code: transaction.provider === 'pesapal' ? transaction.aliases?.find((a) => a !== fulfillment?.payment_id) || null : null,
+    reason_code: 'unmatched_payment', requested_amount: transaction.amount, currency: transaction.currency || 'UGX',
+    idempotency_key: idempotencyKey, admin_note: `Opened from payment reconciliation (${row.status.replace(/_/g, ' ')})`,
+  }).select('*').single();
+  if (error) throw error;
+  await addHistory(admin, refund.id, null, 'pending_admin_review', authUser.id, 'admin', 'Opened from payment reconciliation');
+  return { refundId: refund.id, reference: refund.request_reference };
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    if (profile?.user_type !== 'admin') return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'run';
+
+    if (action === 'run') {
+      const result = await runReconciliation(admin, authUser, body);
+      return json(201, result);
+    }
+
+    if (action === 'list') {
+      const { data, error } = await admin.from('reconciliation_reports')
+        .select('id,range_from,range_to,source,provider,summary,created_by,created_at')
+        .order('created_at', { ascending: false }).limit(body.limit || 20);
+      if (error) throw error;
+      return json(200, { reports: data || [] });
+    }
+
+    if (!body.reportId) return json(400, { error: 'reportId is required' });
+    const { data: report, error: reportError } = await admin.from('reconciliation_reports').select('*').eq('id', body.reportId).single();
+    if (reportError) throw reportError;
+
+    if (action === 'get') return json(200, { report });
+
+    if (action === 'resolve') {
+      const row = (report.rows || []).find((r) => r.id === body.rowId);
+      if (!row) return json(404, { error: 'Row not found' });
+      if (row.resolution) return json(409, { error: 'This row has already been handled', resolution: row.resolution });
+      if (!['create_fulfillment', 'open_refund'].includes(body.resolution)) return json(422, { error: 'Unknown action' });
+
+      const result = body.resolution === 'create_fulfillment'
+        ? await createFulfillment(admin, row)
+        : await openRefund(admin, authUser, row);
+      const resolution = { action: body.resolution, by: authUser.email || authUser.id, at: new Date().toISOString(), reference: result.reference };
+      const rows = report.rows.map((r) => (r.id === row.id ? { ...r, resolution } : r));
+      const { error } = await admin.from('reconciliation_reports').update({ rows }).eq('id', report.id);
+      if (error) throw error;
+      return json(200, { ...result, resolution });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('payment-reconciliation error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Reconciliation failed' });
+  }
+};
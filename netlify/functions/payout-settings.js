@@ -0,0 +1,125 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const {
+  loadSettings, saveSettings, loadRules, saveRules, completeMobileMoneyPayout, setTicketsPayoutStatus,
+} = require('../shared/autoPayouts');
+const { autoPayoutSettingsError } = require('../../src/utils/autoPayouts');
+const { AUDIT_FIELDS, recordAudit } = require('../shared/securityAudit');
+const { requireAdminTwoFactor, requireTwoFactorIfEnrolled } = require('../shared/twoFactor');
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+function parseMetadata(payout) {
+  return typeof payout.metadata === 'string' ? JSON.parse(payout.metadata || '{}') : (payout.metadata || {});
+}
+
+function sameDetails(a, b) {
+  return JSON.stringify(a || null) === JSON.stringify(b || null);
+}
+
+async function heldAutoPayout(admin, payoutId) {
+  if (!payoutId) throw Object.assign(new Error('payoutId is required'), { statusCode: 400 });
+  const { data: payout, error } = await admin.from('payouts').select('*').eq('id', payoutId).single();
+  if (error || !payout) throw Object.assign(new Error('Payout not found'), { statusCode: 404 });
+  const metadata = parseMetadata(payout);
+  if (!(metadata.auto || metadata.team_request) || payout.status !== 'pending_admin_review') {
+    throw Object.assign(new Error('Only automatic or team payouts held for review can be released or returned'), { statusCode: 409 });
+  }
+  return payout;
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'get';
+
+    if (action === 'get') {
+      const [settings, rules, { data: user }] = await Promise.all([
+        loadSettings(admin, authUser.id),
+        loadRules(admin),
+        admin.from('users').select('payment_details').eq('id', authUser.id).maybeSingle(),
+      ]);
+      return json(200, { settings, paymentDetails: user?.payment_details || null, minimumAmount: rules.minimumAmount });
+    }
+
+    if (action === 'save') {
+      await requireTwoFactorIfEnrolled(admin, event, authUser);
+      const { data: user, error: userError } = await admin.from('users').select('payment_details').eq('id', authUser.id).single();
+      if (userError) throw userError;
+      const paymentDetails = body.paymentDetails === undefined ? user.payment_details : body.paymentDetails;
+      const settings = { ...(body.settings || {}), organizerId: authUser.id };
+      const problem = autoPayoutSettingsError(settings, paymentDetails, await loadRules(admin));
+      if (problem) return json(422, { error: problem });
+
+      // Where the money goes changed: the approval rules hold the next payouts
+      if (!sameDetails(paymentDetails, user.payment_details)) {
+        const { error } = await admin.from('users').update({
+          payment_details: paymentDetails, payment_details_updated_at: new Date().toISOString(),
+        }).eq('id', authUser.id);
+        if (error) throw error;
+      }
+      return json(200, { settings: await saveSettings(admin, settings), paymentDetails });
+    }
+
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+
+    if (action === 'get_rules') {
+      return json(200, { rules: await loadRules(admin) });
+    }
+
+    if (action === 'save_rules') {
+      const rules = body.rules || {};
+      const numbers = ['autoApproveBelow', 'newOrganizerHoldDays', 'detailsChangeHoldHours', 'minimumAmount'];
+      if (numbers.some((key) => !(Number(rules[key]) >= 0))) return json(422, { error: 'Rule values must be zero or more' });
+      const saved = await saveRules(admin, {
+        ...Object.fromEntries(numbers.map((key) => [key, Number(rules[key])])), paused: !!rules.paused,
+      }, authUser.id);
+      return json(200, { rules: saved });
+    }
+
+    if (action === 'release') {
+      const payout = await heldAutoPayout(admin, body.payoutId);
+      if (payout.payout_method !== 'mobile_money') return json(409, { error: 'Bank transfers are completed manually' });
+      const { data: organizer } = await admin.from('users').select('id,email,payment_details').eq('id', payout.organizer_id).single();
+      // Claim the payout first so a double click cannot send it twice
+      const { data: claimed } = await admin.from('payouts').update({ status: 'processing', admin_id: authUser.id })
+        .eq('id', payout.id).eq('status', 'pending_admin_review').select('id');
+      if (!claimed?.length) return json(409, { error: 'The payout is already being released' });
+      try {
+        const released = await completeMobileMoneyPayout(admin, payout, organizer || { id: payout.organizer_id });
+        await recordAudit(admin, event, {
+          actor: authUser, actorRole: profile?.user_type, action: 'payout.release', targetType: 'payout', targetId: payout.id,
+          before: payout, after: released, fields: AUDIT_FIELDS.payout,
+        });
+        return json(200, { payout: released });
+      } catch (e) {
+        // Money that may have left stays recorded as sent or unknown, never back in review
+        if (!e.payoutOutcome) await admin.from('payouts').update({ status: 'pending_admin_review' }).eq('id', payout.id);
+        throw e;
+      }
+    }
+
+    if (action === 'return') {
+      // Reject the held payout and give its tickets back to the organiser's balance
+      const payout = await heldAutoPayout(admin, body.payoutId);
+      if (!String(body.reason || '').trim()) return json(422, { error: 'Give a reason' });
+      const { data: rejected, error } = await admin.from('payouts').update({
+        status: 'rejected', admin_id: authUser.id, admin_note: String(body.reason).trim(), updated_at: new Date().toISOString(),
+      }).eq('id', payout.id).select('*').single();
+      if (error) throw error;
+      await setTicketsPayoutStatus(admin, payout.ticket_ids || [], { payout_status: 'pending', payout_eligible: true });
+      await recordAudit(admin, event, {
+        actor: authUser, actorRole: profile?.user_type, action: 'payout.return', targetType: 'payout', targetId: payout.id,
+        before: payout, after: rejected, fields: AUDIT_FIELDS.payout, reason: rejected.admin_note,
+      });
+      return json(200, { payout: rejected });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('payout-settings error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Payout settings operation failed' });
+  }
+};
@@ -1,3 +1,7 @@
+const { getAdminClient } = require('../shared/supabaseAdmin');
+const { confirmPayment, failPayment } = require('../shared/fulfillment');
+const { pesapalOrderStatus } = require('../shared/paymentStatus');
+
 exports.handler = async (event) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
@@ -26,15 +30,25 @@ exports.handler = async (event) => {
     console.log('   - MerchantReference:', orderMerchantReference);
     console.log('   - NotificationType:', orderNotificationType);
 
-    // TODO: Implement IPN handling:
-    // 1. Verify payment status using getTransactionStatus (optional: could do async)
-    // 2. Update Firebase ticket status if payment completed
-    // 3. Send notification to buyer/organizer
-
-    // For now, just acknowledge receipt
-    // Pesapal expects a 200 OK response quickly. Do heavy processing async.
+    // Confirm the order with PesaPal before trusting the notification, then
+    // hand it to the fulfillment worker so tickets are issued even if the
+    // buyer has closed the checkout tab.
     if (orderTrackingId) {
-      // You could trigger a background job here to verify and update ticket
+      try {
+        const payment = await pesapalOrderStatus(orderTrackingId);
+        const paymentId = payment.merchantReference || orderMerchantReference;
+        console.log('   - Payment status:', payment.status);
+        if (paymentId && payment.status === 'completed') {
+          await confirmPayment(getAdminClient(), paymentId, {
+            trigger: 'pesapal-ipn', transactionId: payment.transactionId, confirmationCode: payment.confirmationCode,
+          });
+        } else if (paymentId && payment.status === 'failed') {
+          await failPayment(getAdminClient(), paymentId, 'PesaPal reported the payment failed');
+        }
+      } catch (fulfillmentError) {
+        // The fulfillment sweep polls PesaPal for anything missed here
+        console.error('❌ IPN fulfillment hand-off failed:', fulfillmentError);
+      }
       console.log('✅ IPN acknowledged. OrderTrackingId:', orderTrackingId);
     }
 
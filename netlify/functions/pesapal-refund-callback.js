@@ -1,6 +1,8 @@
 // PesaPal refund callback webhook
 // PesaPal may send async status updates after a refund request is submitted.
 const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { releaseRefundedSpot } = require('../shared/waitlist');
+const { postRefund } = require('../shared/ledger');
 
 function normalizePesaPalStatus(value) {
   const status = String(value || '').toUpperCase();
@@ -58,9 +60,14 @@ exports.handler = async (event) => {
     });
 
     if (status === 'completed' && refund.ticket_id) {
-      await admin.from('tickets').update({
+      const { data: ticket } = await admin.from('tickets').update({
         status: 'refunded', refund_status: 'completed', refunded_amount: refund.approved_amount,
-      }).eq('id', refund.ticket_id);
+      }).eq('id', refund.ticket_id).select('event_slug, event_id, entry_fee_type').maybeSingle();
+      await releaseRefundedSpot(admin, ticket);
+    }
+
+    if (status === 'completed') {
+      try { await postRefund(admin, result.data); } catch (e) { console.error('ledger refund post error', refund.id, e); }
     }
 
     return json(200, { received: true, status });
@@ -0,0 +1,74 @@
+const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
+const { loadEvent } = require('../shared/doorAccess');
+const { eventAccess } = require('../shared/teams');
+const { hasPermission } = require('../../src/utils/teamRoles');
+const { findPromoCode, normalizePromoCode, resolveOrderPromo } = require('../../src/utils/promoCodes');
+const { loadPromoCodes, promoUsage, promoReport, savePromoCodes } = require('../shared/promoCodes');
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action;
+
+    // Guests buy tickets too; they only ever see the discount on their own order
+    if (action === 'check') {
+      const admin = getAdminClient();
+      const eventRow = await loadEvent(admin, body.eventId);
+      const codes = await loadPromoCodes(admin, eventRow);
+      const check = resolveOrderPromo(codes, {
+        ticketType: String(body.ticketType || ''),
+        quantity: Math.max(Number(body.quantity) || 0, 0),
+        subtotal: Math.max(Number(body.subtotal) || 0, 0),
+        code: body.code ? String(body.code) : undefined,
+      }, codes.length ? await promoUsage(admin, eventRow) : {});
+      return json(200, { check });
+    }
+
+    // Installment tickets are issued in the buyer's browser; the redemption is
+    // only counted against tickets that really exist for that payment
+    if (action === 'redeem') {
+      const admin = getAdminClient();
+      const eventRow = await loadEvent(admin, body.eventId);
+      const slug = eventRow.slug || eventRow.id;
+      const promo = findPromoCode(await loadPromoCodes(admin, eventRow), String(body.code || ''));
+      if (!promo || !body.paymentReference) return json(404, { error: 'Promo code not found' });
+      const { data: tickets, error } = await admin.from('tickets').select('id,total_amount')
+        .eq('payment_reference', body.paymentReference).eq('event_slug', slug);
+      if (error) throw error;
+      if (!tickets?.length) return json(404, { error: 'No tickets were issued for that payment' });
+      const { data: existing } = await admin.from('promo_redemptions').select('id')
+        .eq('payment_reference', body.paymentReference).limit(1);
+      if (existing?.length) return json(200, { recorded: false });
+      const orderTotal = tickets.reduce((sum, t) => sum + Number(t.total_amount || 0), 0);
+      const { error: insertError } = await admin.from('promo_redemptions').insert({
+        event_id: slug, code: normalizePromoCode(promo.code), ticket_type: body.ticketType || null,
+        quantity: tickets.length, discount_amount: Math.min(Math.max(Number(body.discountAmount) || 0, 0), orderTotal),
+        order_total: orderTotal, buyer_email: body.buyerEmail || null, payment_reference: body.paymentReference,
+        created_at: new Date().toISOString(),
+      });
+      if (insertError) throw insertError;
+      return json(201, { recorded: true });
+    }
+
+    const { admin, authUser, profile } = await requireUser(event);
+    const eventRow = await loadEvent(admin, body.eventId);
+    const access = await eventAccess(admin, eventRow, authUser.id, profile);
+    if (!hasPermission(access, 'promotions')) return json(403, { error: 'You cannot manage promo codes for this event' });
+
+    if (action === 'list') {
+      const promoCodes = await loadPromoCodes(admin, eventRow);
+      return json(200, { promoCodes, report: await promoReport(admin, eventRow, promoCodes) });
+    }
+
+    if (action === 'save') {
+      const promoCodes = await savePromoCodes(admin, eventRow, body.promoCodes, authUser.id);
+      return json(200, { promoCodes, report: await promoReport(admin, eventRow, promoCodes) });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('promo-codes error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Promo code operation failed' });
+  }
+};
@@ -0,0 +1,16 @@
+const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
+const { recommendationFeed } = require('../shared/recommendations');
+
+// Anonymous visitors are welcome; a token personalises the feed
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const signedIn = !!(event.headers?.authorization || event.headers?.Authorization);
+    const { admin, authUser } = signedIn ? await requireUser(event) : { admin: getAdminClient(), authUser: null };
+    return json(200, await recommendationFeed(admin, authUser ? authUser.id : null, body.position));
+  } catch (error) {
+    console.error('recommendations error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Could not load recommendations' });
+  }
+};
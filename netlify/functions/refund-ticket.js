@@ -1,21 +1,21 @@
 const crypto = require('crypto');
 const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
 const { getPesapalToken, invalidatePesapalToken } = require('../shared/pesapalAuth');
+const { installmentRefundAmount, ticketRefundAmount } = require('../../src/utils/pricing');
+const { reference, addHistory, sendRefundNotification } = require('../shared/refunds');
+const { postRefund } = require('../shared/ledger');
+const { loadEvent } = require('../shared/doorAccess');
+const { requireEventPermission, recordTeamAction } = require('../shared/teams');
+const { AUDIT_FIELDS, recordAudit } = require('../shared/securityAudit');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+const { requireStepUp } = require('../shared/passkeys');
 
 const PAWAPAY_BASE_URL = process.env.PAWAPAY_API_URL || 'https://api.pawapay.io/v2';
 
 function uuid() { return crypto.randomUUID(); }
-function reference() { return `RF-${Date.now()}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`; }
 function amountNumber(value) { const n = Number(value); return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0; }
 function isAdmin(profile) { return profile?.user_type === 'admin'; }
 
-async function addHistory(admin, id, fromStatus, toStatus, actorId, actorType, note, payload) {
-  await admin.from('refund_status_history').insert({
-    refund_request_id: id, from_status: fromStatus || null, to_status: toStatus,
-    actor_id: actorId || null, actor_type: actorType, note: note || null, processor_payload: payload || null,
-  });
-}
-
 async function transition(admin, refund, status, actorId, actorType, note, extra = {}) {
   const { data, error } = await admin.from('refund_requests')
     .update({ status, updated_at: new Date().toISOString(), ...extra })
@@ -25,32 +25,6 @@ async function transition(admin, refund, status, actorId, actorType, note, extra
   return data;
 }
 
-async function sendRefundNotification(admin, type, refund) {
-  try {
-    const titleMap = {
-      requested: '🔄 Refund Requested', approved: '✅ Refund Approved',
-      rejected: '❌ Refund Rejected', executed: '💰 Refund Submitted',
-      completed: '✅ Refund Completed', chargeback: '⚠️ Chargeback Filed',
-    };
-    const bodyMap = {
-      requested: `Refund request ${refund.request_reference} submitted for review`,
-      approved: `Your refund ${refund.request_reference} has been approved`,
-      rejected: `Your refund ${refund.request_reference} has been rejected`,
-      executed: `Refund ${refund.request_reference} submitted to payment provider`,
-      completed: `Refund ${refund.request_reference} completed — UGX ${Number(refund.refunded_amount || refund.approved_amount).toLocaleString()}`,
-      chargeback: `Chargeback filed for refund ${refund.request_reference}`,
-    };
-    if (refund.buyer_id) {
-      await admin.from('notifications').insert({
-        user_id: refund.buyer_id, title: titleMap[type] || 'Refund Update',
-        body: bodyMap[type] || `Refund ${refund.request_reference} updated to ${type}`,
-        type: 'refund_update', data: { refundId: refund.id, request_reference: refund.request_reference, status: refund.status },
-        is_read: false, created_at: new Date().toISOString(),
-      });
-    }
-  } catch (e) { console.error('sendRefundNotification error', e); }
-}
-
 async function calculateEligibility(admin, ticketId, reasonCode, requestedAmount, installmentPlanId) {
   const { data: ticket, error: ticketError } = await admin.from('tickets').select('*').eq('id', ticketId).maybeSingle();
   if (ticketError) throw ticketError;
@@ -97,11 +71,11 @@ async function calculateEligibility(admin, ticketId, reasonCode, requestedAmount
       throw Object.assign(new Error('Installment refunds are available only after the event ends'), { statusCode: 422 });
     }
     const paid = (installmentPlan.installments || []).filter((i) => i.status === 'paid');
-    const paidBeforeFees = paid.reduce((sum, i) => sum + Number(i.amount || 0), 0);
-    const paidServiceFees = paid.reduce((sum, i) => sum + Number(i.serviceFee ?? Math.round(Number(i.amount || 0) * 0.08)), 0);
-    amount = Math.floor(((paidBeforeFees + paidServiceFees) - paidServiceFees) * 2 / 5);
+    amount = installmentRefundAmount(paid);
   } else if (!amount) {
-    amount = Math.max(0, amountNumber(ticket.total_amount || ticket.base_price || 0) - amountNumber(ticket.gateway_fee || 0));
+    amount = amountNumber(ticketRefundAmount({
+      totalAmount: amountNumber(ticket.total_amount), basePrice: amountNumber(ticket.base_price), gatewayFee: amountNumber(ticket.gateway_fee),
+    }));
   }
 
   if (amount <= 0) throw Object.assign(new Error('Refund amount is zero'), { statusCode: 422 });
@@ -167,6 +141,11 @@ async function submitPawaPay(refund) {
   return { externalRefundId, status: payload.status === 'COMPLETED' ? 'completed' : 'submitted', payload };
 }
 
+// Best effort: ledger-sync posts any completed refund this misses
+async function postCompletedRefund(admin, refund) {
+  try { await postRefund(admin, refund); } catch (e) { console.error('ledger refund post error', refund.id, e); }
+}
+
 async function executeProviderRefund(admin, refund, authUser) {
   await transition(admin, refund, 'processing', authUser.id, 'admin', 'Manual processor submission started');
   try {
@@ -178,6 +157,7 @@ async function executeProviderRefund(admin, refund, authUser) {
       'Refund submitted manually to payment provider',
       { external_refund_id: result.externalRefundId, processor_payload: result.payload, submitted_at: new Date().toISOString(), completed_at: status === 'completed' ? new Date().toISOString() : null });
     await sendRefundNotification(admin, status === 'completed' ? 'completed' : 'executed', finalRefund);
+    if (status === 'completed') await postCompletedRefund(admin, finalRefund);
     return finalRefund;
   } catch (error) {
     const failed = await transition(admin, { ...refund, status: 'processing' }, 'needs_attention', authUser.id, 'admin', error.message);
@@ -220,10 +200,22 @@ exports.handler = async (event) => {
       return json(201, { refund });
     }
 
-    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    // Organiser teams review refunds on their own events; sending money back stays with admins
+    let teamAccess = null;
+    let teamEvent = null;
+    if (!isAdmin(profile)) {
+      if (!body.eventId || !['list', 'approve', 'reject'].includes(action)) return json(403, { error: 'Admin access required' });
+      teamEvent = await loadEvent(admin, body.eventId);
+      teamAccess = await requireEventPermission(admin, teamEvent, authUser, profile, 'refunds');
+    } else {
+      await requireAdminTwoFactor(admin, event, authUser);
+    }
+    const actorType = teamAccess ? 'organiser' : 'admin';
 
     if (action === 'list') {
       let query = admin.from('refund_requests').select('*', { count: 'exact' });
+      const eventFilter = teamEvent ? teamEvent.slug || teamEvent.id : body.eventId;
+      if (eventFilter) query = query.eq('event_id', eventFilter);
       if (body.status) query = query.eq('status', body.status);
       if (body.search) query = query.or(`request_reference.ilike.%${body.search}%,buyer_email.ilike.%${body.search}%`);
       query = query.order('created_at', { ascending: false });
@@ -237,12 +229,19 @@ exports.handler = async (event) => {
     if (!body.refundId) return json(400, { error: 'refundId is required' });
     const { data: refund, error: refundError } = await admin.from('refund_requests').select('*').eq('id', body.refundId).single();
     if (refundError) throw refundError;
+    if (teamEvent && refund.event_id !== (teamEvent.slug || teamEvent.id)) return json(404, { error: 'Refund not found for this event' });
+    const audit = (auditAction, after, reason) => recordAudit(admin, event, {
+      actor: authUser, actorRole: teamAccess ? teamAccess.role : profile?.user_type, action: auditAction, targetType: 'refund', targetId: refund.id,
+      before: refund, after, fields: AUDIT_FIELDS.refund, reason,
+    });
 
     if (action === 'reject') {
       if (!['pending_admin_review', 'approved'].includes(refund.status)) return json(409, { error: 'Refund cannot be rejected in its current state' });
-      const updated = await transition(admin, refund, 'rejected', authUser.id, 'admin', body.note || 'Rejected by admin',
+      const updated = await transition(admin, refund, 'rejected', authUser.id, actorType, body.note || `Rejected by ${actorType}`,
         { reviewed_by: authUser.id, reviewed_at: new Date().toISOString(), admin_note: body.note || null });
       await sendRefundNotification(admin, 'rejected', updated);
+      await audit('refund.reject', updated, body.note);
+      if (teamAccess) await recordTeamAction(admin, { eventRow: teamEvent, actor: authUser, access: teamAccess, action: 'refund_rejected', details: { refundId: refund.id, reference: refund.request_reference, note: body.note || null } });
       return json(200, { refund: updated });
     }
 
@@ -250,16 +249,20 @@ exports.handler = async (event) => {
       if (refund.status !== 'pending_admin_review') return json(409, { error: 'Refund is not awaiting review' });
       const approvedAmount = amountNumber(body.approvedAmount || refund.requested_amount);
       if (approvedAmount <= 0 || approvedAmount > Number(refund.requested_amount)) return json(422, { error: 'Approved amount is invalid' });
-      const updated = await transition(admin, refund, 'approved', authUser.id, 'admin', body.note || 'Approved by admin',
+      const updated = await transition(admin, refund, 'approved', authUser.id, actorType, body.note || `Approved by ${actorType}`,
         { approved_amount: approvedAmount, reviewed_by: authUser.id, reviewed_at: new Date().toISOString(), admin_note: body.note || null });
       await sendRefundNotification(admin, 'approved', updated);
+      await audit('refund.approve', updated, body.note);
+      if (teamAccess) await recordTeamAction(admin, { eventRow: teamEvent, actor: authUser, access: teamAccess, action: 'refund_approved', details: { refundId: refund.id, reference: refund.request_reference, amount: approvedAmount } });
       return json(200, { refund: updated });
     }
 
     if (action === 'execute') {
       if (refund.status !== 'approved') return json(409, { error: 'Refund must be approved before execution' });
+      await requireStepUp(admin, authUser, body.stepUpToken, 'refund');
       try {
         const finalRefund = await executeProviderRefund(admin, refund, authUser);
+        await audit('refund.execute', finalRefund);
         if (finalRefund.status === 'needs_attention') return json(502, { error: 'Provider rejected the refund', refund: finalRefund });
         return json(200, { refund: finalRefund });
       } catch (error) {
@@ -269,6 +272,7 @@ exports.handler = async (event) => {
 
     if (action === 'retry') {
       if (!['needs_attention', 'failed', 'submitted'].includes(refund.status)) return json(409, { error: 'Only failed or attention-requiring refunds can be retried' });
+      await requireStepUp(admin, authUser, body.stepUpToken, 'refund');
       const retryCount = (refund.retry_count || 0) + 1;
       try {
         const result = refund.payment_provider === 'pawapay'
@@ -278,9 +282,12 @@ exports.handler = async (event) => {
         const finalRefund = await transition(admin, refund, status, authUser.id, 'admin', `Retry #${retryCount} submitted`,
           { external_refund_id: result.externalRefundId, processor_payload: result.payload, submitted_at: new Date().toISOString(), completed_at: status === 'completed' ? new Date().toISOString() : null, retry_count: retryCount });
         await sendRefundNotification(admin, status === 'completed' ? 'completed' : 'executed', finalRefund);
+        if (status === 'completed') await postCompletedRefund(admin, finalRefund);
+        await audit('refund.retry', finalRefund);
         return json(200, { refund: finalRefund });
       } catch (error) {
         const failed = await transition(admin, refund, 'needs_attention', authUser.id, 'admin', `Retry #${retryCount} failed: ${error.message}`, { retry_count: retryCount });
+        await audit('refund.retry', failed, error.message);
         return json(502, { error: error.message, refund: failed });
       }
     }
@@ -290,6 +297,7 @@ exports.handler = async (event) => {
       const updated = await transition(admin, refund, 'needs_attention', authUser.id, 'admin', body.note || 'Chargeback disputed',
         { reason_code: 'chargeback', chargeback_dispute_id: uuid(), chargeback_reason: body.note || 'Chargeback filed', chargeback_filed_at: new Date().toISOString() });
       await sendRefundNotification(admin, 'chargeback', updated);
+      await audit('refund.chargeback', updated, body.note);
       return json(200, { refund: updated });
     }
 
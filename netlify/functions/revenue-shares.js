@@ -0,0 +1,124 @@
+const crypto = require('crypto');
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { loadEvent } = require('../shared/doorAccess');
+const { eventAccess, recordTeamAction } = require('../shared/teams');
+const { hasPermission } = require('../../src/utils/teamRoles');
+const { shareSummary, createSplitPayouts, sendPayoutOtp, verifyPayoutOtp, confirmSplitPayout } = require('../shared/revenueShares');
+const { revenueShareSetupError } = require('../../src/utils/revenueShares');
+const { consumeGrant } = require('../shared/passkeys');
+const { requireTwoFactorIfEnrolled } = require('../shared/twoFactor');
+
+const ROLES = ['co_organizer', 'venue', 'artist_management', 'other'];
+
+function isBeneficiary(event, userId) {
+  return (event.revenue_shares || []).some((r) => r.beneficiaryId === userId);
+}
+
+// Rules arrive with an email for new parties; store them against account ids
+async function resolveRules(admin, input) {
+  const emails = [...new Set(input.filter((r) => !r.beneficiaryId && r.beneficiaryEmail).map((r) => String(r.beneficiaryEmail).trim().toLowerCase()))];
+  const { data: users, error } = emails.length ? await admin.from('users').select('id,email,name').in('email', emails) : { data: [], error: null };
+  if (error) throw error;
+  const byEmail = new Map((users || []).map((u) => [String(u.email).toLowerCase(), u]));
+  return input.map((r) => {
+    const user = r.beneficiaryId ? null : byEmail.get(String(r.beneficiaryEmail || '').trim().toLowerCase());
+    if (!r.beneficiaryId && !user) throw Object.assign(new Error(`No YoVibe account uses ${r.beneficiaryEmail || 'that email'}`), { statusCode: 422 });
+    return {
+      id: r.id || crypto.randomUUID(),
+      beneficiaryId: r.beneficiaryId || user.id,
+      beneficiaryName: r.beneficiaryName || user?.name || user?.email || null,
+      role: ROLES.includes(r.role) ? r.role : 'other',
+      type: r.type === 'fixed' ? 'fixed' : 'percentage',
+      value: Number(r.value),
+      entryFees: Array.isArray(r.entryFees) ? r.entryFees : [],
+    };
+  });
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'summary';
+
+    if (action === 'my_shares') {
+      const [{ data: events, error: eventsError }, { data: payouts, error: payoutsError }] = await Promise.all([
+        admin.from('events').select('*').contains('revenue_shares', [{ beneficiaryId: authUser.id }]).order('date', { ascending: false }),
+        admin.from('payouts').select('*').eq('organizer_id', authUser.id).not('metadata->>split_group', 'is', null)
+          .order('request_date', { ascending: false }).limit(100),
+      ]);
+      if (eventsError) throw eventsError;
+      if (payoutsError) throw payoutsError;
+      const shares = [];
+      for (const row of events || []) {
+        const mine = (await shareSummary(admin, row)).find((p) => p.beneficiaryId === authUser.id);
+        shares.push({ eventId: row.slug || row.id, eventName: row.name, date: row.date, role: mine?.role || null, earned: mine?.earned || 0, eligible: mine?.eligible || 0 });
+      }
+      return json(200, { shares, payouts: payouts || [] });
+    }
+
+    if (action === 'send_otp') {
+      const { data: user } = await admin.from('users').select('id,email').eq('id', authUser.id).single();
+      await sendPayoutOtp(admin, user || { id: authUser.id, email: authUser.email });
+      return json(200, { sent: true });
+    }
+
+    if (action === 'confirm') {
+      if (!body.payoutId) return json(400, { error: 'payoutId is required' });
+      const { data: payout, error } = await admin.from('payouts').select('*').eq('id', body.payoutId).single();
+      if (error || !payout) return json(404, { error: 'Payout not found' });
+      if (payout.organizer_id !== authUser.id) return json(403, { error: 'Not your payout' });
+      if (payout.status !== 'awaiting_confirmation') return json(409, { error: 'This payout has already been confirmed' });
+      await requireTwoFactorIfEnrolled(admin, event, authUser);
+      // A passkey confirmation stands in for the emailed code
+      if (body.stepUpToken) await consumeGrant(admin, authUser.id, 'payout', body.stepUpToken);
+      else await verifyPayoutOtp(admin, authUser.id, body.otp);
+      const { data: user } = await admin.from('users').select('id,email,name,payment_details').eq('id', authUser.id).single();
+      return json(200, { payout: await confirmSplitPayout(admin, payout, user || { id: authUser.id, email: authUser.email }) });
+    }
+
+    if (!body.eventId) return json(400, { error: 'eventId is required' });
+    const eventRow = await loadEvent(admin, body.eventId);
+    const access = await eventAccess(admin, eventRow, authUser.id, profile);
+    // Finance staff can see the split and withdraw; only the owner changes the rules
+    const canManage = hasPermission(access, 'payouts');
+
+    if (action === 'summary') {
+      if (!canManage && !isBeneficiary(eventRow, authUser.id)) return json(403, { error: 'Not your event' });
+      const parties = await shareSummary(admin, eventRow);
+      // Beneficiaries only see their own cut
+      return json(200, canManage
+        ? { rules: eventRow.revenue_shares || [], parties }
+        : { parties: parties.filter((p) => p.beneficiaryId === authUser.id) });
+    }
+
+    if (!canManage) return json(403, { error: 'Only the event creator can manage revenue sharing' });
+    await requireTwoFactorIfEnrolled(admin, event, authUser);
+
+    if (action === 'save_rules') {
+      if (!hasPermission(access, 'manage_team')) return json(403, { error: 'Only the event creator can change revenue sharing' });
+      const rules = await resolveRules(admin, Array.isArray(body.rules) ? body.rules : []);
+      const problem = revenueShareSetupError(rules, eventRow.entry_fees || [], eventRow.created_by);
+      if (problem) return json(422, { error: problem });
+      const { error } = await admin.from('events').update({ revenue_shares: rules }).eq('id', eventRow.id);
+      if (error) throw error;
+      return json(200, { rules });
+    }
+
+    if (action === 'request') {
+      if (!eventRow.revenue_shares?.length) return json(409, { error: 'This event has no revenue sharing set up' });
+      const ticketIds = Array.isArray(body.ticketIds) ? body.ticketIds : [];
+      if (!ticketIds.length) return json(400, { error: 'ticketIds is required' });
+      const payouts = await createSplitPayouts(admin, eventRow, ticketIds, authUser.id);
+      await recordTeamAction(admin, { eventRow, actor: { id: authUser.id, email: authUser.email }, access, action: 'payout_requested',
+        details: { payoutIds: payouts.map((p) => p.id), amount: payouts.reduce((sum, p) => sum + Number(p.amount || 0), 0), ticketCount: ticketIds.length } });
+      return json(201, { payouts });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('revenue-shares error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Revenue share operation failed' });
+  }
+};
@@ -696,6 +696,115 @@ async function sendViaResendFallback({ to, subject, html, text, pdfBytes, inline
   return { ok: true, id: data?.id };
 }
 
+// Waitlist offers reuse the ticket mail providers but carry no QR or PDF —
+// the recipient only gets a link to buy within their hold window.
+async function sendWaitlistOffer({ buyerEmail, buyerName, eventName, ticketType, claimUrl, expiresAt }) {
+  if (!isValidEmail(buyerEmail) || !eventName || !claimUrl) {
+    return { statusCode: 400, body: JSON.stringify({ error: "Missing or invalid fields" }) };
+  }
+
+  const expires = expiresAt ? new Date(expiresAt) : null;
+  const expiresText = expires && !isNaN(expires.getTime())
+    ? expires.toLocaleString("en-UG", { dateStyle: "medium", timeStyle: "short", timeZone: "Africa/Kampala" })
+    : "shortly";
+  const subject = `A ${ticketType || "ticket"} for ${eventName} is held for you`;
+  const html = `
+    <div style="font-family:Arial,sans-serif;background:#121212;color:#ffffff;padding:24px;border-radius:12px;max-width:520px;margin:0 auto">
+      <h2 style="margin:0 0 12px">Good news, ${escapeHtml(buyerName || "there")}!</h2>
+      <p style="color:#d1d5db;line-height:1.5">A <strong>${escapeHtml(ticketType)}</strong> ticket for <strong>${escapeHtml(eventName)}</strong> just became available and is held for you until <strong>${escapeHtml(expiresText)}</strong>.</p>
+      <p style="margin:24px 0"><a href="${escapeHtml(claimUrl)}" style="background:#2196F3;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;font-weight:bold">Buy your ticket</a></p>
+      <p style="color:#9ca3af;font-size:12px">If you don't complete your purchase in time, the ticket goes to the next person on the waitlist.</p>
+    </div>`;
+  const text = [
+    `A ${ticketType} ticket for ${eventName} is held for you until ${expiresText}.`,
+    "",
+    `Buy it here: ${claimUrl}`,
+    "",
+    "If you don't complete your purchase in time, the ticket goes to the next person on the waitlist.",
+  ].join("\n");
+
+  return deliverPlainEmail("waitlist offer", { to: buyerEmail, subject, html, text });
+}
+
+// Installment reminders and expiry notices from the installment-reminders job
+async function sendInstallmentNotice({ kind, buyerEmail, buyerName, eventName, subject, message, actionUrl }) {
+  if (!isValidEmail(buyerEmail) || !eventName || !subject || !message) {
+    return { statusCode: 400, body: JSON.stringify({ error: "Missing or invalid fields" }) };
+  }
+
+  const html = `
+    <div style="font-family:Arial,sans-serif;background:#121212;color:#ffffff;padding:24px;border-radius:12px;max-width:520px;margin:0 auto">
+      <h2 style="margin:0 0 12px">Hi ${escapeHtml(buyerName || "there")},</h2>
+      <p style="color:#d1d5db;line-height:1.5">${escapeHtml(message)}</p>
+      ${actionUrl ? `<p style="margin:24px 0"><a href="${escapeHtml(actionUrl)}" style="background:#F59E0B;color:#121212;padding:12px 20px;border-radius:8px;text-decoration:none;font-weight:bold">Pay now</a></p>` : ""}
+      <p style="color:#9ca3af;font-size:12px">${escapeHtml(eventName)} · YoVibe installment plans</p>
+    </div>`;
+  const text = [message, "", ...(actionUrl ? [`Pay now: ${actionUrl}`] : [])].join("\n");
+
+  return deliverPlainEmail(kind, { to: buyerEmail, subject, html, text });
+}
+
+// Account recovery codes from the two-factor function, and purchase
+// confirmation codes when the checkout risk engine asks for a step-up
+const SECURITY_CODE_COPY = {
+  recovery: {
+    subject: "Your YoVibe account recovery code",
+    heading: "Account recovery",
+    intro: "Use this code to remove two-factor authentication from your YoVibe account.",
+    textIntro: "Your YoVibe account recovery code is",
+    warning: "If you did not ask for this, someone has your password. Change it now and contact support.",
+  },
+  checkout: {
+    subject: "Confirm your YoVibe ticket purchase",
+    heading: "Confirm your purchase",
+    intro: "Enter this code at checkout to confirm your ticket purchase.",
+    textIntro: "Your YoVibe purchase confirmation code is",
+    warning: "If you are not buying tickets right now, ignore this email. Nobody can complete the purchase without this code.",
+  },
+};
+
+async function sendSecurityCode({ buyerEmail, code, expiresAt, purpose }) {
+  if (!isValidEmail(buyerEmail) || !/^\d{6}$/.test(String(code || ""))) {
+    return { statusCode: 400, body: JSON.stringify({ error: "Missing or invalid fields" }) };
+  }
+
+  const copy = SECURITY_CODE_COPY[purpose] || SECURITY_CODE_COPY.recovery;
+  const expires = expiresAt ? new Date(expiresAt) : null;
+  const expiresText = expires && !isNaN(expires.getTime())
+    ? expires.toLocaleTimeString("en-UG", { hour: "2-digit", minute: "2-digit", timeZone: "Africa/Kampala" })
+    : "15 minutes";
+  const subject = copy.subject;
+  const html = `
+    <div style="font-family:Arial,sans-serif;background:#121212;color:#ffffff;padding:24px;border-radius:12px;max-width:520px;margin:0 auto">
+      <h2 style="margin:0 0 12px">${copy.heading}</h2>
+      <p style="color:#d1d5db;line-height:1.5">${copy.intro} It expires at <strong>${escapeHtml(expiresText)}</strong>.</p>
+      <p style="font-size:32px;font-weight:bold;letter-spacing:8px;margin:24px 0">${escapeHtml(code)}</p>
+      <p style="color:#9ca3af;font-size:12px">${copy.warning}</p>
+    </div>`;
+  const text = [
+    `${copy.textIntro} ${code}. It expires at ${expiresText}.`,
+    "",
+    copy.warning,
+  ].join("\n");
+
+  return deliverPlainEmail("security code", { to: buyerEmail, subject, html, text });
+}
+
+async function deliverPlainEmail(label, { to, subject, html, text }) {
+  const zeptoResult = await sendViaZeptoMail({ to, subject, html, text });
+  if (zeptoResult.ok) {
+    return { statusCode: 200, body: JSON.stringify({ success: true, provider: "zeptomail" }) };
+  }
+  console.warn(`send-ticket-email: ${label} via ZeptoMail failed, falling back to Resend:`, zeptoResult.error);
+
+  const resendResult = await sendViaResendFallback({ to, subject, html, text });
+  if (!resendResult.ok) {
+    console.error(`send-ticket-email: ${label} Resend fallback also failed`, resendResult.error);
+    return { statusCode: 502, body: JSON.stringify({ error: "Failed to send email via both providers" }) };
+  }
+  return { statusCode: 200, body: JSON.stringify({ success: true, provider: "resend", id: resendResult.id }) };
+}
+
 exports.handler = async function (event) {
   if (event.httpMethod !== "POST") {
     return { statusCode: 405, body: JSON.stringify({ error: "Method not allowed" }) };
@@ -713,6 +822,16 @@ exports.handler = async function (event) {
     return { statusCode: 400, body: JSON.stringify({ error: "Invalid JSON body" }) };
   }
 
+  if (payload.kind === "waitlist_offer") {
+    return sendWaitlistOffer(payload);
+  }
+  if (payload.kind === "installment_reminder" || payload.kind === "installment_expired") {
+    return sendInstallmentNotice(payload);
+  }
+  if (payload.kind === "security_code") {
+    return sendSecurityCode(payload);
+  }
+
   const {
     buyerEmail,
     buyerName,
@@ -0,0 +1,154 @@
+const { json } = require('../shared/supabaseAdmin');
+const { authorizeDoorAccess } = require('../shared/doorAccess');
+
+/**
+ * Deterministic ordering for two scans of the same ticket: the earliest scan
+ * wins; identical timestamps fall back to device id, then local scan id, so
+ * every device and every replay reaches the same answer.
+ */
+function compareScans(a, b) {
+  const ta = new Date(a.scannedAt).getTime();
+  const tb = new Date(b.scannedAt).getTime();
+  if (ta !== tb) return ta - tb;
+  if (a.deviceId !== b.deviceId) return a.deviceId < b.deviceId ? -1 : 1;
+  return a.localId < b.localId ? -1 : a.localId > b.localId ? 1 : 0;
+}
+
+async function logValidation(admin, ticket, scan, status, reason) {
+  const { error } = await admin.from('ticket_validations').insert({
+    ticketId: ticket.id,
+    eventId: ticket.event_id || ticket.event_slug,
+    event_slug: ticket.event_slug,
+    validatedAt: scan.scannedAt,
+    validatedBy: scan.validatorId || null,
+    location: scan.location || null,
+    gate: scan.gate || null,
+    status,
+    reason: reason || null,
+    source: 'offline',
+    device_id: scan.deviceId,
+    local_scan_id: scan.localId,
+  });
+  if (error) console.error('[OfflineSync] validation insert failed', error);
+}
+
+async function recordConflict(admin, ticket, winner, loser, resolution, detail) {
+  const { error } = await admin.from('offline_scan_conflicts').insert({
+    event_slug: ticket.event_slug,
+    ticket_id: ticket.id,
+    ticket_ref: ticket.ticket_ref || null,
+    winning_device_id: winner?.deviceId || null,
+    winning_scanned_at: winner?.scannedAt || null,
+    losing_device_id: loser?.deviceId || null,
+    losing_scanned_at: loser?.scannedAt || null,
+    resolution,
+    detail: detail || null,
+  });
+  if (error) console.error('[OfflineSync] conflict insert failed', error);
+}
+
+// The scan currently holding the ticket, reconstructed from the validations table
+async function currentHolder(admin, ticket) {
+  const { data } = await admin.from('ticket_validations')
+    .select('device_id, local_scan_id, validatedAt')
+    .eq('ticketId', ticket.id).eq('status', 'granted')
+    .order('validatedAt', { ascending: true }).limit(1);
+  const row = data?.[0];
+  return {
+    deviceId: row?.device_id || 'online',
+    localId: row?.local_scan_id || '',
+    scannedAt: ticket.scanned_at || row?.validatedAt || new Date(0).toISOString(),
+  };
+}
+
+async function loadTicket(admin, eventRow, ticketId) {
+  // Scoped to the event the door is authorised for, so a scan cannot reach another event's tickets
+  const { data, error } = await admin.from('tickets').select('*').eq('id', ticketId).eq('event_slug', eventRow.slug).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function applyScan(admin, eventRow, scan, staffToken) {
+  const { data: existing } = await admin.from('ticket_validations')
+    .select('id').eq('local_scan_id', scan.localId).eq('device_id', scan.deviceId).limit(1);
+  if (existing?.length) return 'duplicate';
+
+  let ticket = await loadTicket(admin, eventRow, scan.ticketId);
+  if (!ticket) return 'rejected';
+
+  const allowed = staffToken?.allowed_entry_fees;
+  if (allowed?.length && !allowed.includes(ticket.entry_fee_type)) {
+    await logValidation(admin, ticket, scan, 'denied', `${ticket.entry_fee_type || 'This ticket'} is not admitted at ${staffToken.gate_name}`);
+    return 'rejected';
+  }
+
+  if (scan.kind === 'reentry') {
+    const pass = ticket.reentry_pass;
+    if (ticket.status !== 'used' || !pass || pass.used) {
+      await logValidation(admin, ticket, scan, 'denied', 'Re-entry pass was not available at sync');
+      await recordConflict(admin, ticket, null, scan, 'ticket_not_valid', 'Re-entry pass already consumed');
+      return 'conflict_lost';
+    }
+    await admin.from('tickets').update({ reentry_pass: { ...pass, used: true } }).eq('id', ticket.id);
+    await logValidation(admin, ticket, scan, 'granted', `Re-entry authorised by ${pass.grantedByName} (offline)`);
+    return 'applied';
+  }
+
+  if (['cancelled', 'refunded', 'expired'].includes(ticket.status)) {
+    await logValidation(admin, ticket, scan, 'denied', `Ticket was ${ticket.status} at sync`);
+    await recordConflict(admin, ticket, null, scan, 'ticket_not_valid', `Admitted offline but ticket is ${ticket.status}`);
+    return 'rejected';
+  }
+
+  if (ticket.status !== 'used') {
+    const { data: claimed, error: updateError } = await admin.from('tickets').update({
+      status: 'used', is_scanned: true, scanned_at: scan.scannedAt, payout_eligible: true, payout_status: 'pending',
+    }).eq('id', ticket.id).neq('status', 'used').select('id');
+    if (updateError) throw updateError;
+    if (claimed?.length) {
+      await logValidation(admin, ticket, scan, 'granted', 'Offline scan synced');
+      return 'applied';
+    }
+    // Another scan used the ticket after we read it; settle it like any other double scan
+    ticket = await loadTicket(admin, eventRow, scan.ticketId);
+    if (ticket?.status !== 'used') return 'rejected';
+  }
+
+  const holder = await currentHolder(admin, ticket);
+  if (compareScans(scan, holder) < 0) {
+    await admin.from('tickets').update({ scanned_at: scan.scannedAt }).eq('id', ticket.id);
+    await logValidation(admin, ticket, scan, 'granted', 'Offline scan synced (earliest scan)');
+    await recordConflict(admin, ticket, scan, holder, 'earliest_scan_wins');
+    return 'conflict_won';
+  }
+  await logValidation(admin, ticket, scan, 'denied', 'Duplicate scan (offline conflict)');
+  await recordConflict(admin, ticket, holder, scan, 'earliest_scan_wins');
+  return 'conflict_lost';
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const { admin, event: eventRow, staffToken } = await authorizeDoorAccess(event, body.eventSlug, body.token);
+    const scans = (Array.isArray(body.scans) ? body.scans : [])
+      .map((s) => (staffToken?.gate_name ? { ...s, gate: staffToken.gate_name } : s))
+      .filter((s) => s && s.localId && s.ticketId && s.deviceId && s.scannedAt && s.localStatus === 'granted')
+      .sort(compareScans);
+
+    const results = {};
+    for (const scan of scans) {
+      try {
+        results[scan.localId] = await applyScan(admin, eventRow, scan, staffToken);
+      } catch (error) {
+        console.error(`[OfflineSync] ${eventRow.slug} scan ${scan.localId} failed`, error);
+      }
+    }
+
+    console.log(`[OfflineSync] ${eventRow.slug}: ${Object.keys(results).length}/${scans.length} scans reconciled`);
+    return json(200, { results });
+  } catch (error) {
+    console.error('sync-offline-scans error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Failed to sync scans' });
+  }
+};
@@ -0,0 +1,305 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { loadEvent } = require('../shared/doorAccess');
+const { createSplitPayouts } = require('../shared/revenueShares');
+const { setTicketsPayoutStatus } = require('../shared/autoPayouts');
+const {
+  organizationFromRow, memberFromRow, auditFromRow, organizationFor, ensureOrganization,
+  eventAccess, requireEventPermission, recordTeamAction,
+} = require('../shared/teams');
+const { teamInviteError, normalizeTeamEmail, INVITABLE_ROLES } = require('../../src/utils/teamRoles');
+const { calculatePayoutBreakdown } = require('../../src/utils/pricing');
+const { AUDIT_FIELDS, recordAudit } = require('../shared/securityAudit');
+const { requireTwoFactorIfEnrolled } = require('../shared/twoFactor');
+
+const MAX_ACTIVE_STAFF_TOKENS = 15;
+const STAFF_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+async function notify(admin, userId, title, body, data) {
+  if (!userId) return;
+  try {
+    await admin.from('notifications').insert({
+      user_id: userId, title, body, type: 'team_update', data, is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('team notification error', userId, e); }
+}
+
+async function ownedMember(admin, organization, memberId) {
+  if (!memberId) throw Object.assign(new Error('memberId is required'), { statusCode: 400 });
+  const { data, error } = await admin.from('team_members').select('*').eq('id', memberId).eq('organization_id', organization.id).maybeSingle();
+  if (error) throw error;
+  if (!data || data.status === 'removed') throw Object.assign(new Error('Team member not found'), { statusCode: 404 });
+  return data;
+}
+
+/**
+ * A team member's withdrawal: the money always goes to the event owner's
+ * saved payment details and waits for admin review, so staff can settle the
+ * owner's balance but never redirect it.
+ */
+async function requestTeamPayout(admin, eventRow, ticketIds, actor) {
+  if (eventRow.revenue_shares?.length) return createSplitPayouts(admin, eventRow, ticketIds, actor.id);
+
+  const { data: owner, error: ownerError } = await admin.from('users').select('id,email,name,payment_details').eq('id', eventRow.created_by).single();
+  if (ownerError) throw ownerError;
+  const details = owner.payment_details || {};
+  if (!details.mobileMoney?.phoneNumber && !details.bankAccount?.accountNumber) {
+    throw Object.assign(new Error('The event owner has not saved payment details yet'), { statusCode: 422 });
+  }
+  const { data: tickets, error } = await admin.from('tickets').update({ payout_status: 'processing' })
+    .in('id', ticketIds).eq('event_slug', eventRow.slug || eventRow.id).eq('payout_status', 'pending').eq('payout_eligible', true)
+    .select('id,total_amount,app_commission,venue_revenue,gateway_fee');
+  if (error) throw error;
+  if (!tickets?.length) throw Object.assign(new Error('None of those tickets can be paid out'), { statusCode: 409 });
+
+  const ids = tickets.map((t) => t.id);
+  const amount = Math.round(tickets.reduce((sum, t) => sum + Number(t.venue_revenue || 0), 0) * 100) / 100;
+  const method = details.mobileMoney?.phoneNumber ? 'mobile_money' : 'bank_transfer';
+  const { data: payout, error: payoutError } = await admin.from('payouts').insert({
+    organizer_id: owner.id,
+    ticket_ids: ids,
+    amount,
+    status: 'pending_admin_review',
+    request_date: new Date().toISOString(),
+    payout_method: method,
+    recipient_name: (method === 'mobile_money' ? details.mobileMoney.accountName : details.bankAccount.accountName) || owner.name || owner.email || '',
+    recipient_phone_number: method === 'mobile_money' ? details.mobileMoney.phoneNumber : '',
+    metadata: {
+      team_request: true,
+      requested_by: actor.id,
+      hold_reason: `Requested by team member ${actor.email || actor.id}`,
+      breakdown: calculatePayoutBreakdown(tickets.map((t) => ({
+        totalAmount: t.total_amount, appCommission: t.app_commission, venueRevenue: t.venue_revenue, gatewayFee: t.gateway_fee,
+      }))),
+      ...(method === 'bank_transfer' ? { bank_name: details.bankAccount.bankName, account_number: details.bankAccount.accountNumber } : {}),
+    },
+  }).select('*').single();
+  if (payoutError) {
+    await setTicketsPayoutStatus(admin, ids, { payout_status: 'pending' });
+    throw payoutError;
+  }
+  await setTicketsPayoutStatus(admin, ids, { payout_status: 'pending_review', payout_eligible: false });
+  await notify(admin, owner.id, '🔄 Team Payout Requested',
+    `${actor.email || 'A team member'} requested UGX ${amount.toLocaleString()} from ${eventRow.name}. It will be sent to your saved details after review.`,
+    { payoutId: payout.id, amount, status: 'pending_admin_review' });
+  return [payout];
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'mine';
+    const actor = { id: authUser.id, email: authUser.email };
+
+    if (action === 'mine') {
+      // My own team, the teams I belong to and invites waiting for me
+      const organization = await organizationFor(admin, authUser.id);
+      const [{ data: members }, { data: memberships }] = await Promise.all([
+        organization ? admin.from('team_members').select('*').eq('organization_id', organization.id).neq('status', 'removed').order('invited_at', { ascending: true }) : { data: [] },
+        admin.from('team_members').select('*, organizations(id,name,owner_id)').eq('email', normalizeTeamEmail(authUser.email || '')).in('status', ['invited', 'active']),
+      ]);
+      return json(200, {
+        organization: organizationFromRow(organization),
+        members: (members || []).map(memberFromRow),
+        memberships: (memberships || []).map((row) => ({ ...memberFromRow(row), organization: organizationFromRow(row.organizations) })),
+      });
+    }
+
+    if (action === 'audit') {
+      const organization = await organizationFor(admin, authUser.id);
+      if (!organization) return json(200, { entries: [] });
+      let query = admin.from('team_audit_log').select('*').eq('organization_id', organization.id);
+      if (body.eventId) query = query.eq('event_id', body.eventId);
+      const { data, error } = await query.order('created_at', { ascending: false }).limit(Math.min(Number(body.limit) || 100, 500));
+      if (error) throw error;
+      return json(200, { entries: (data || []).map(auditFromRow) });
+    }
+
+    if (action === 'rename') {
+      const name = String(body.name || '').trim();
+      if (!name) return json(422, { error: 'Give your team a name' });
+      const organization = await ensureOrganization(admin, { id: authUser.id, email: authUser.email });
+      const { data, error } = await admin.from('organizations').update({ name }).eq('id', organization.id).select('*').single();
+      if (error) throw error;
+      return json(200, { organization: organizationFromRow(data) });
+    }
+
+    if (action === 'invite') {
+      const { data: owner } = await admin.from('users').select('id,email,name').eq('id', authUser.id).single();
+      const organization = await ensureOrganization(admin, owner || { id: authUser.id, email: authUser.email });
+      const { data: existing, error: existingError } = await admin.from('team_members').select('*').eq('organization_id', organization.id);
+      if (existingError) throw existingError;
+      const problem = teamInviteError(String(body.email || ''), body.role, (existing || []).map(memberFromRow), authUser.email);
+      if (problem) return json(422, { error: problem });
+
+      const email = normalizeTeamEmail(body.email);
+      const { data: invitee } = await admin.from('users').select('id,name').eq('email', email).maybeSingle();
+      const row = {
+        organization_id: organization.id, email, name: invitee?.name || null, role: body.role, status: 'invited',
+        user_id: null, invited_by: authUser.id, invited_at: new Date().toISOString(), joined_at: null,
+      };
+      // Re-inviting someone who was removed reuses their row
+      const previous = (existing || []).find((m) => normalizeTeamEmail(m.email) === email);
+      const { data: member, error } = previous
+        ? await admin.from('team_members').update(row).eq('id', previous.id).select('*').single()
+        : await admin.from('team_members').insert(row).select('*').single();
+      if (error) throw error;
+      await notify(admin, invitee?.id, '👥 Team Invite', `${organization.name} invited you to join as ${body.role.replace(/_/g, ' ')}. Accept it under Profile → My Team.`,
+        { memberId: member.id, organizationId: organization.id });
+      await recordTeamAction(admin, { ownerId: authUser.id, actor, access: { role: 'owner', organizationId: organization.id }, action: 'member_invited', details: { email, role: body.role } });
+      return json(201, { member: memberFromRow(member) });
+    }
+
+    if (action === 'update_role' || action === 'remove') {
+      const organization = await organizationFor(admin, authUser.id);
+      if (!organization) return json(404, { error: 'You do not have a team yet' });
+      const member = await ownedMember(admin, organization, body.memberId);
+      const access = { role: 'owner', organizationId: organization.id };
+      if (action === 'update_role') {
+        if (!INVITABLE_ROLES.includes(body.role)) return json(422, { error: 'Choose a valid role' });
+        const { data, error } = await admin.from('team_members').update({ role: body.role }).eq('id', member.id).select('*').single();
+        if (error) throw error;
+        await recordTeamAction(admin, { ownerId: authUser.id, actor, access, action: 'member_role_changed', details: { email: member.email, from: member.role, to: body.role } });
+        return json(200, { member: memberFromRow(data) });
+      }
+      const { error } = await admin.from('team_members').update({ status: 'removed' }).eq('id', member.id);
+      if (error) throw error;
+      await recordTeamAction(admin, { ownerId: authUser.id, actor, access, action: 'member_removed', details: { email: member.email, role: member.role } });
+      return json(200, { removed: true });
+    }
+
+    if (action === 'accept' || action === 'decline') {
+      const { data: member, error } = await admin.from('team_members').select('*').eq('id', body.memberId || '').maybeSingle();
+      if (error) throw error;
+      if (!member || normalizeTeamEmail(member.email) !== normalizeTeamEmail(authUser.email || '') || member.status !== 'invited') {
+        return json(404, { error: 'Invite not found' });
+      }
+      const update = action === 'accept'
+        ? { status: 'active', user_id: authUser.id, joined_at: new Date().toISOString() }
+        : { status: 'removed' };
+      const { data, error: updateError } = await admin.from('team_members').update(update).eq('id', member.id).select('*').single();
+      if (updateError) throw updateError;
+      return json(200, { member: memberFromRow(data) });
+    }
+
+    if (action === 'team_events') {
+      // Events of every owner whose team I am an active member of
+      const { data: rows, error } = await admin.from('team_members').select('role, organizations(owner_id,name)').eq('user_id', authUser.id).eq('status', 'active');
+      if (error) throw error;
+      const owners = (rows || []).filter((r) => r.organizations).map((r) => ({ ownerId: r.organizations.owner_id, team: r.organizations.name, role: r.role }));
+      if (!owners.length) return json(200, { events: [] });
+      const { data: events, error: eventsError } = await admin.from('events').select('id,slug,name,date,created_by')
+        .in('created_by', owners.map((o) => o.ownerId)).order('date', { ascending: false }).limit(100);
+      if (eventsError) throw eventsError;
+      return json(200, {
+        events: (events || []).map((e) => {
+          const owner = owners.find((o) => o.ownerId === e.created_by);
+          return { eventId: e.slug || e.id, name: e.name, date: e.date, team: owner.team, role: owner.role };
+        }),
+      });
+    }
+
+    if (!body.eventId) return json(400, { error: 'eventId is required' });
+    const eventRow = await loadEvent(admin, body.eventId);
+
+    if (action === 'event_access') {
+      const access = await eventAccess(admin, eventRow, authUser.id, profile);
+      if (!access) return json(403, { error: 'You are not on this event\'s team' });
+      return json(200, { access });
+    }
+
+    if (action === 'set_event_status') {
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'event_status');
+      if (!['cancelled', 'postponed'].includes(body.status)) return json(422, { error: 'Status must be cancelled or postponed' });
+      const postponedTo = body.status === 'postponed' ? new Date(body.postponedTo) : null;
+      if (postponedTo && Number.isNaN(postponedTo.getTime())) return json(422, { error: 'Enter a valid new date' });
+      const { data: updated, error } = await admin.from('events').update({
+        event_status: body.status, ...(postponedTo ? { postponed_to: postponedTo.toISOString() } : {}), updated_at: new Date().toISOString(),
+      }).eq('id', eventRow.id).select('*').single();
+      if (error) throw error;
+      await recordAudit(admin, event, {
+        actor, actorRole: access.role, action: 'event.status_change', targetType: 'event', targetId: eventRow.slug || eventRow.id,
+        before: eventRow, after: updated, fields: AUDIT_FIELDS.event, reason: body.reason,
+      });
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'event_status_changed',
+        details: { from: eventRow.event_status || 'scheduled', to: body.status, postponedTo: postponedTo?.toISOString() || null } });
+      return json(200, { eventStatus: body.status, postponedTo: postponedTo?.toISOString() || null });
+    }
+
+    if (action === 'grant_reentry') {
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'reentry');
+      const { data: ticket, error } = await admin.from('tickets').select('id,status,buyer_name,ticket_ref,event_slug,reentry_pass').eq('id', body.ticketId || '').maybeSingle();
+      if (error) throw error;
+      if (!ticket || ticket.event_slug !== (eventRow.slug || eventRow.id)) return json(404, { error: 'Ticket not found' });
+      if (ticket.status !== 'used') return json(409, { error: 'Ticket has not been scanned yet' });
+      const reentryPass = { grantedAt: new Date().toISOString(), grantedBy: authUser.id, grantedByName: body.grantedByName || authUser.email, used: false };
+      const { error: updateError } = await admin.from('tickets').update({ reentry_pass: reentryPass }).eq('id', ticket.id);
+      if (updateError) throw updateError;
+      await recordAudit(admin, event, {
+        actor, actorRole: access.role, action: 'ticket.reentry_grant', targetType: 'ticket', targetId: ticket.id,
+        before: { reentry_pass: ticket.reentry_pass }, after: { reentry_pass: reentryPass },
+      });
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'reentry_granted', details: { ticketId: ticket.id, ticketRef: ticket.ticket_ref, buyerName: ticket.buyer_name } });
+      return json(200, { reentryPass });
+    }
+
+    if (action === 'create_staff_token') {
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'staff_tokens');
+      const eventSlug = eventRow.slug || eventRow.id;
+      const { count, error: countError } = await admin.from('event_staff_tokens').select('*', { count: 'exact', head: true })
+        .eq('event_id', eventSlug).gt('expires_at', new Date().toISOString());
+      if (countError) throw countError;
+      if ((count || 0) >= MAX_ACTIVE_STAFF_TOKENS) return json(409, { error: `Maximum of ${MAX_ACTIVE_STAFF_TOKENS} active staff links per event` });
+      const gateName = String(body.gateName || '').trim();
+      const { data: token, error } = await admin.from('event_staff_tokens').insert({
+        event_id: eventSlug,
+        label: body.label || null,
+        gate_name: gateName || null,
+        allowed_entry_fees: gateName && Array.isArray(body.allowedEntryFees) && body.allowedEntryFees.length ? body.allowedEntryFees : null,
+        expires_at: new Date(Date.now() + STAFF_TOKEN_TTL_MS).toISOString(),
+        created_by: authUser.id,
+      }).select('*').single();
+      if (error) throw error;
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'staff_token_created', details: { tokenId: token.id, label: token.label, gate: token.gate_name } });
+      return json(201, { token });
+    }
+
+    if (action === 'revoke_staff_token') {
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'staff_tokens');
+      const { data: removed, error } = await admin.from('event_staff_tokens').delete()
+        .eq('id', body.tokenId || '').eq('event_id', eventRow.slug || eventRow.id).select('id,label');
+      if (error) throw error;
+      if (!removed?.length) return json(404, { error: 'Staff link not found' });
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'staff_token_revoked', details: { tokenId: removed[0].id, label: removed[0].label } });
+      return json(200, { revoked: true });
+    }
+
+    if (action === 'request_payout') {
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'payouts');
+      await requireTwoFactorIfEnrolled(admin, event, authUser);
+      const ticketIds = Array.isArray(body.ticketIds) ? body.ticketIds : [];
+      if (!ticketIds.length) return json(400, { error: 'ticketIds is required' });
+      const payouts = await requestTeamPayout(admin, eventRow, ticketIds, actor);
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'payout_requested',
+        details: { payoutIds: payouts.map((p) => p.id), amount: payouts.reduce((sum, p) => sum + Number(p.amount || 0), 0), ticketCount: ticketIds.length } });
+      return json(201, { payouts });
+    }
+
+    if (action === 'record_payout') {
+      // The owner's own withdrawals run in the dashboard; log them once saved
+      const access = await requireEventPermission(admin, eventRow, authUser, profile, 'payouts');
+      const { data: payout, error } = await admin.from('payouts').select('id,amount,organizer_id,payout_method,ticket_ids').eq('id', body.payoutId || '').maybeSingle();
+      if (error) throw error;
+      if (!payout || payout.organizer_id !== authUser.id) return json(404, { error: 'Payout not found' });
+      await recordTeamAction(admin, { eventRow, actor, access, action: 'payout_requested',
+        details: { payoutIds: [payout.id], amount: Number(payout.amount), method: payout.payout_method, ticketCount: (payout.ticket_ids || []).length } });
+      return json(200, { recorded: true });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('team error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Team operation failed' });
+  }
+};
@@ -0,0 +1,394 @@
+const crypto = require('crypto');
+const QRCode = require('qrcode');
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { signPayload } = require('../shared/doorAccess');
+const { requireStepUp } = require('../shared/passkeys');
+const { getPesapalToken, invalidatePesapalToken } = require('../shared/pesapalAuth');
+const { pawapayDepositStatus, pesapalOrderStatus } = require('../shared/paymentStatus');
+const { postResaleSale } = require('../shared/ledger');
+
+const PAWAPAY_BASE_URL = process.env.PAWAPAY_API_URL || 'https://api.pawapay.io/v2';
+const PESAPAL_API_URL = process.env.PESAPAL_API_URL || 'https://pay.pesapal.com/v3/api';
+// Payments started here for a listing; a purchase can only use one of these
+const PAYMENTS_TABLE = 'ticket_resale_payments';
+
+// Resale listings may not exceed face value plus this markup
+const RESALE_MAX_MARKUP_PERCENT = Number(process.env.RESALE_MAX_MARKUP_PERCENT ?? 10);
+
+function amountNumber(value) { const n = Number(value); return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0; }
+function normalizeEmail(value) { return String(value || '').trim().toLowerCase(); }
+function faceValue(ticket) { return amountNumber(ticket.base_price || ticket.total_amount || 0); }
+function maxResalePrice(ticket) { return Math.floor(faceValue(ticket) * (1 + RESALE_MAX_MARKUP_PERCENT / 100)); }
+
+async function loadTicket(admin, ticketId) {
+  const { data, error } = await admin.from('tickets').select('*').eq('id', ticketId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw Object.assign(new Error('Ticket not found'), { statusCode: 404 });
+  return data;
+}
+
+function assertOwner(ticket, authUser) {
+  const owns = ticket.buyer_id === authUser.id || normalizeEmail(ticket.buyer_email) === normalizeEmail(authUser.email);
+  if (!owns) throw Object.assign(new Error('You can only transfer tickets you hold'), { statusCode: 403 });
+}
+
+function assertTransferable(ticket) {
+  if (ticket.status !== 'active') {
+    throw Object.assign(new Error('Only active tickets can be transferred'), { statusCode: 409 });
+  }
+  if (ticket.installment_plan_id && ticket.payment_status !== 'completed') {
+    throw Object.assign(new Error('Finish paying your installments before transferring this ticket'), { statusCode: 409 });
+  }
+}
+
+// Same URL format TicketQRService.generateQRPayload builds on the client
+async function reissueQR(ticket) {
+  const qrCode = crypto.randomUUID();
+  const issuedAt = Date.now();
+  const signature = signPayload(`${qrCode}:${issuedAt}`);
+  const url = `https://yovibe.net/t/${qrCode}?s=${signature}&ts=${issuedAt}`;
+  const dataUrl = await QRCode.toDataURL(url, { width: 300, margin: 4, color: { dark: '#000000', light: '#FFFFFF' }, errorCorrectionLevel: 'H' });
+  return {
+    qr_code: qrCode,
+    qr_signature: signature,
+    qr_code_data_url: dataUrl,
+    ...(ticket.qr_secret ? { qr_secret: crypto.randomBytes(32).toString('hex') } : {}),
+  };
+}
+
+async function findUserByEmail(admin, email) {
+  const { data } = await admin.from('users').select('id, email, name').ilike('email', email).maybeSingle();
+  return data || null;
+}
+
+async function notify(admin, userId, title, body, data) {
+  if (!userId) return;
+  try {
+    await admin.from('notifications').insert({
+      user_id: userId, title, body, type: 'ticket_transfer', data,
+      is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('ticket-transfer notify error', e); }
+}
+
+/**
+ * Hand the ticket to a new holder: re-issue the QR so the old one stops
+ * scanning, drop the previous holder's security photo and append to the
+ * ticket's transfer history.
+ */
+async function transferTicket(admin, ticket, { toEmail, toName, actorId, type, price, note }) {
+  const recipient = await findUserByEmail(admin, toEmail);
+  const now = new Date().toISOString();
+  const history = Array.isArray(ticket.transfer_history) ? ticket.transfer_history : [];
+  const entries = [
+    { type, at: now, actorId, fromEmail: ticket.buyer_email, toEmail, ...(price != null ? { price } : {}), ...(note ? { note } : {}) },
+    { type: 'qr_reissued', at: now, actorId, previousQrCode: ticket.qr_code },
+  ];
+
+  const { data, error } = await admin.from('tickets')
+    .update({
+      ...(await reissueQR(ticket)),
+      buyer_id: recipient?.id || null,
+      buyer_email: toEmail,
+      buyer_name: toName || recipient?.name || toEmail,
+      delivery_email: toEmail,
+      buyer_photo_url: null,
+      reentry_pass: null,
+      transfer_history: [...history, ...entries],
+    })
+    .eq('id', ticket.id).eq('qr_code', ticket.qr_code)
+    .select('*').maybeSingle();
+  if (error) throw error;
+  if (!data) throw Object.assign(new Error('Ticket changed while transferring, please retry'), { statusCode: 409 });
+
+  await notify(admin, recipient?.id, '🎟️ Ticket received', `${ticket.event_name || 'A ticket'} was transferred to you`, { ticketId: ticket.id });
+  return data;
+}
+
+async function cancelActiveListings(admin, ticketId) {
+  await admin.from('ticket_resale_listings')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('ticket_id', ticketId).eq('status', 'active');
+}
+
+async function loadOpenListing(admin, listingId, authUser) {
+  const { data: listing, error } = await admin.from('ticket_resale_listings').select('*').eq('id', listingId).maybeSingle();
+  if (error) throw error;
+  if (!listing) throw Object.assign(new Error('Listing not found'), { statusCode: 404 });
+  if (listing.status !== 'active') throw Object.assign(new Error('This ticket has already been sold or withdrawn'), { statusCode: 409 });
+  if (listing.seller_id === authUser.id) throw Object.assign(new Error('You cannot buy your own listing'), { statusCode: 422 });
+  return listing;
+}
+
+async function startPawaPayDeposit(depositId, amount, phone, provider) {
+  if (!process.env.PAWAPAY_API_KEY) throw new Error('PAWAPAY_API_KEY is not configured');
+  const digits = String(phone || '').replace(/\D/g, '');
+  const response = await fetch(`${PAWAPAY_BASE_URL}/deposits`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.PAWAPAY_API_KEY}` },
+    body: JSON.stringify({
+      depositId, amount: String(amount), currency: 'UGX',
+      payer: { type: 'MMO', accountDetails: { phoneNumber: digits.startsWith('0') ? `256${digits.slice(1)}` : digits, provider } },
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.status === 'REJECTED') {
+    throw Object.assign(new Error(data.failureReason?.failureMessage || 'Could not start the mobile money payment'), { statusCode: 502 });
+  }
+}
+
+async function startPesaPalOrder(merchantReference, amount, { email, name, description, callbackUrl }) {
+  const notificationId = process.env.PESAPAL_NOTIFICATION_ID;
+  if (!notificationId) throw new Error('PESAPAL_NOTIFICATION_ID is not configured');
+  const [firstName, ...rest] = String(name || '').split(' ');
+  for (let attempt = 0; attempt <= 1; attempt++) {
+    const response = await fetch(`${PESAPAL_API_URL}/Transactions/SubmitOrderRequest`, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', Authorization: `Bearer ${await getPesapalToken()}` },
+      body: JSON.stringify({
+        id: merchantReference, currency: 'UGX', amount, description: description.slice(0, 100),
+        callback_url: callbackUrl, cancellation_url: callbackUrl, notification_id: notificationId, redirect_mode: 'PARENT_WINDOW',
+        billing_address: { email_address: email, first_name: firstName || '', last_name: rest.join(' '), country_code: 'UG' },
+      }),
+    });
+    if (response.status === 401 && attempt === 0) {
+      invalidatePesapalToken();
+      continue;
+    }
+    const data = await response.json().catch(() => ({}));
+    if (response.ok && data.redirect_url) return { redirectUrl: data.redirect_url, trackingId: data.order_tracking_id };
+    throw Object.assign(new Error(data.error?.message || data.message || 'Could not start the card payment'), { statusCode: 502 });
+  }
+  throw Object.assign(new Error('Could not start the card payment'), { statusCode: 502 });
+}
+
+/** A reference that already paid for something else cannot pay for a resale ticket too */
+async function assertReferenceUnused(admin, payment) {
+  const refs = [payment.reference, payment.tracking_id].filter(Boolean).join(',');
+  const [{ data: tickets, error: ticketError }, { data: orders, error: orderError }] = await Promise.all([
+    admin.from('tickets').select('id').or(`payment_reference.in.(${refs}),pawapay_deposit_id.in.(${refs}),pesapal_transaction_id.in.(${refs})`).limit(1),
+    admin.from('pending_ticket_fulfillments').select('id').or(`payment_id.in.(${refs}),pawapay_deposit_id.in.(${refs}),pesapal_tracking_id.in.(${refs})`).limit(1),
+  ]);
+  if (ticketError) throw ticketError;
+  if (orderError) throw orderError;
+  if ((tickets || []).length || (orders || []).length) {
+    throw Object.assign(new Error('This payment has already been used'), { statusCode: 409 });
+  }
+}
+
+/** The processor's view of a payment this function started, tied to its own reference */
+async function resalePaymentStatus(payment) {
+  if (payment.provider === 'pawapay') return pawapayDepositStatus(payment.reference);
+  if (!payment.tracking_id) return { status: 'pending' };
+  const status = await pesapalOrderStatus(payment.tracking_id);
+  return status.merchantReference === payment.reference ? status : { status: 'failed' };
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action;
+
+    if (action === 'transfer') {
+      const toEmail = normalizeEmail(body.toEmail);
+      if (!toEmail || !toEmail.includes('@')) return json(422, { error: 'A valid recipient email is required' });
+      const ticket = await loadTicket(admin, body.ticketId);
+      assertOwner(ticket, authUser);
+      assertTransferable(ticket);
+      if (normalizeEmail(ticket.buyer_email) === toEmail) return json(422, { error: 'This ticket already belongs to that email' });
+      await requireStepUp(admin, authUser, body.stepUpToken, 'ticket_transfer');
+      await cancelActiveListings(admin, ticket.id);
+      const updated = await transferTicket(admin, ticket, {
+        toEmail, toName: body.toName, actorId: authUser.id, type: 'transfer', note: body.note,
+      });
+      return json(200, { ticket: updated });
+    }
+
+    if (action === 'list') {
+      const ticket = await loadTicket(admin, body.ticketId);
+      assertOwner(ticket, authUser);
+      assertTransferable(ticket);
+      const price = amountNumber(body.price);
+      const maxPrice = maxResalePrice(ticket);
+      if (price <= 0) return json(422, { error: 'Price must be greater than zero' });
+      if (price > maxPrice) {
+        return json(422, { error: `Resale price cannot exceed UGX ${maxPrice.toLocaleString()} (face value + ${RESALE_MAX_MARKUP_PERCENT}%)`, maxPrice });
+      }
+      if (!body.payoutPhone) return json(422, { error: 'A mobile money number is required for your payout' });
+      await requireStepUp(admin, authUser, body.stepUpToken, 'ticket_transfer');
+
+      const { data: existing } = await admin.from('ticket_resale_listings')
+        .select('id').eq('ticket_id', ticket.id).eq('status', 'active').maybeSingle();
+      if (existing) return json(409, { error: 'This ticket is already listed for resale' });
+
+      const { data: listing, error } = await admin.from('ticket_resale_listings').insert({
+        ticket_id: ticket.id, event_id: ticket.event_slug || ticket.event_id, entry_fee_type: ticket.entry_fee_type || null,
+        seller_id: authUser.id, seller_email: ticket.buyer_email,
+        price, face_value: faceValue(ticket), max_price: maxPrice, currency: 'UGX', status: 'active',
+        payout_method: body.payoutMethod || 'mobile_money', payout_phone: body.payoutPhone, payout_name: body.payoutName || ticket.buyer_name || null,
+      }).select('*').single();
+      if (error) throw error;
+
+      const history = Array.isArray(ticket.transfer_history) ? ticket.transfer_history : [];
+      await admin.from('tickets').update({
+        transfer_history: [...history, { type: 'resale_listed', at: new Date().toISOString(), actorId: authUser.id, fromEmail: ticket.buyer_email, price }],
+      }).eq('id', ticket.id);
+      return json(201, { listing });
+    }
+
+    if (action === 'cancel_listing') {
+      const { data: listing, error } = await admin.from('ticket_resale_listings').select('*').eq('id', body.listingId).maybeSingle();
+      if (error) throw error;
+      if (!listing) return json(404, { error: 'Listing not found' });
+      if (listing.seller_id !== authUser.id) return json(403, { error: 'Only the seller can cancel this listing' });
+      if (listing.status !== 'active') return json(409, { error: 'Listing is no longer active' });
+      const { data: updated, error: updateError } = await admin.from('ticket_resale_listings')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', listing.id).eq('status', 'active').select('*').maybeSingle();
+      if (updateError) throw updateError;
+      if (!updated) return json(409, { error: 'Listing is no longer active' });
+
+      const ticket = await loadTicket(admin, listing.ticket_id);
+      const history = Array.isArray(ticket.transfer_history) ? ticket.transfer_history : [];
+      await admin.from('tickets').update({
+        transfer_history: [...history, { type: 'resale_cancelled', at: new Date().toISOString(), actorId: authUser.id, fromEmail: ticket.buyer_email }],
+      }).eq('id', ticket.id);
+      return json(200, { listing: updated });
+    }
+
+    if (action === 'browse') {
+      let query = admin.from('ticket_resale_listings')
+        .select('id, ticket_id, event_id, entry_fee_type, price, face_value, currency, status, created_at')
+        .eq('status', 'active').order('price', { ascending: true });
+      // Events are referenced by slug or id depending on when the ticket was issued
+      const eventIds = (body.eventIds || []).filter(Boolean);
+      if (eventIds.length) query = query.in('event_id', eventIds);
+      const { data, error } = await query;
+      if (error) throw error;
+      return json(200, { listings: data || [] });
+    }
+
+    if (action === 'my_listings') {
+      const { data, error } = await admin.from('ticket_resale_listings').select('*')
+        .eq('seller_id', authUser.id).order('created_at', { ascending: false });
+      if (error) throw error;
+      return json(200, { listings: data || [] });
+    }
+
+    if (action === 'start_purchase') {
+      const provider = body.provider;
+      if (!['pawapay', 'pesapal'].includes(provider)) return json(400, { error: 'provider is required' });
+      if (provider === 'pawapay' && (!body.phone || !body.mobileProvider)) return json(422, { error: 'phone and mobileProvider are required' });
+      if (provider === 'pesapal' && !body.callbackUrl) return json(422, { error: 'callbackUrl is required' });
+      const listing = await loadOpenListing(admin, body.listingId, authUser);
+
+      // The reference is chosen here and recorded against this listing and buyer before any money moves
+      const reference = provider === 'pawapay' ? crypto.randomUUID() : `YVR-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+      const { data: payment, error } = await admin.from(PAYMENTS_TABLE).insert({
+        listing_id: listing.id, buyer_id: authUser.id, buyer_email: normalizeEmail(authUser.email),
+        provider, reference, amount: Number(listing.price), currency: 'UGX', status: 'pending', created_at: new Date().toISOString(),
+      }).select('id').single();
+      if (error) throw error;
+
+      if (provider === 'pawapay') {
+        await startPawaPayDeposit(reference, Number(listing.price), body.phone, body.mobileProvider);
+        return json(201, { paymentId: payment.id, depositId: reference });
+      }
+      const order = await startPesaPalOrder(reference, Number(listing.price), {
+        email: authUser.email, name: body.buyerName, description: String(body.description || `Resale ticket ${listing.id}`), callbackUrl: body.callbackUrl,
+      });
+      const { error: trackError } = await admin.from(PAYMENTS_TABLE).update({ tracking_id: order.trackingId }).eq('id', payment.id);
+      if (trackError) throw trackError;
+      return json(201, { paymentId: payment.id, redirectUrl: order.redirectUrl });
+    }
+
+    if (action === 'purchase') {
+      if (!body.paymentId) return json(400, { error: 'paymentId is required' });
+      const listing = await loadOpenListing(admin, body.listingId, authUser);
+      const { data: payment, error } = await admin.from(PAYMENTS_TABLE).select('*')
+        .eq('id', body.paymentId).eq('listing_id', listing.id).eq('buyer_id', authUser.id).maybeSingle();
+      if (error) throw error;
+      if (!payment) return json(404, { error: 'Payment not found for this listing' });
+      if (payment.status !== 'pending') return json(409, { error: 'This payment has already been used' });
+      await assertReferenceUnused(admin, payment);
+
+      const status = await resalePaymentStatus(payment);
+      if (status.status !== 'completed') return json(402, { error: 'Payment has not been confirmed yet' });
+      if (amountNumber(status.amount) < Number(listing.price)) return json(402, { error: 'Payment amount is lower than the listing price' });
+
+      const now = () => new Date().toISOString();
+      const { data: usedPayment, error: useError } = await admin.from(PAYMENTS_TABLE)
+        .update({ status: 'used', confirmed_at: now() }).eq('id', payment.id).eq('status', 'pending').select('id').maybeSingle();
+      if (useError) throw useError;
+      if (!usedPayment) return json(409, { error: 'This payment has already been used' });
+      const releasePayment = (nextStatus) => admin.from(PAYMENTS_TABLE).update({ status: nextStatus }).eq('id', payment.id);
+
+      // Claim the listing first so two buyers paying at once cannot both win
+      const { data: claimed, error: claimError } = await admin.from('ticket_resale_listings')
+        .update({
+          status: 'sold', buyer_id: authUser.id, buyer_email: authUser.email,
+          payment_provider: payment.provider, payment_reference: payment.reference, payment_id: payment.id,
+          sold_at: now(), updated_at: now(),
+        })
+        .eq('id', listing.id).eq('status', 'active').select('*').maybeSingle();
+      if (claimError || !claimed) {
+        await releasePayment(claimError ? 'pending' : 'refund_due');
+        if (claimError) throw claimError;
+        console.error('ticket-transfer: paid for a listing that was sold concurrently', listing.id, payment.reference);
+        return json(409, { error: 'This ticket was sold to someone else. Contact support for a refund of your payment.' });
+      }
+      const reopenListing = () => admin.from('ticket_resale_listings').update({
+        status: 'active', buyer_id: null, buyer_email: null, payment_provider: null, payment_reference: null, payment_id: null,
+        sold_at: null, updated_at: now(),
+      }).eq('id', listing.id).eq('status', 'sold');
+
+      const { data: payout, error: payoutError } = await admin.from('payouts').insert({
+        organizer_id: listing.seller_id,
+        ticket_ids: [listing.ticket_id],
+        amount: Number(listing.price),
+        status: 'pending_admin_review',
+        request_date: now(),
+        processed_date: null,
+        payout_method: listing.payout_method || 'mobile_money',
+        recipient_name: listing.payout_name,
+        recipient_phone_number: listing.payout_phone,
+        metadata: { kind: 'resale', listing_id: listing.id, payment_provider: payment.provider, payment_reference: payment.reference },
+      }).select('id').single();
+      if (payoutError) {
+        await reopenListing();
+        await releasePayment('pending');
+        throw payoutError;
+      }
+
+      let updated;
+      try {
+        const ticket = await loadTicket(admin, listing.ticket_id);
+        updated = await transferTicket(admin, ticket, {
+          toEmail: normalizeEmail(authUser.email), toName: body.buyerName, actorId: authUser.id,
+          type: 'resale_sold', price: Number(listing.price),
+        });
+      } catch (transferError) {
+        // Undo in reverse order so the seller is not paid for a ticket the buyer never received
+        await admin.from('payouts').delete().eq('id', payout.id).eq('status', 'pending_admin_review');
+        await reopenListing();
+        await releasePayment('pending');
+        throw transferError;
+      }
+
+      await admin.from('ticket_resale_listings').update({ payout_id: payout.id }).eq('id', listing.id);
+      try {
+        await postResaleSale(admin, { ...payment, status: 'used', confirmed_at: now() });
+      } catch (e) { console.error('ledger resale post error', payment.id, e); }
+      await notify(admin, listing.seller_id, '💰 Resale ticket sold',
+        `Your ticket sold for UGX ${Number(listing.price).toLocaleString()}. Your payout is awaiting review.`, { listingId: listing.id, payoutId: payout.id });
+      return json(200, { listing: { ...claimed, payout_id: payout.id }, ticket: updated });
+    }
+
+    return json(400, { error: 'Unsupported transfer action' });
+  } catch (error) {
+    console.error('ticket-transfer error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Ticket transfer failed' });
+  }
+};
@@ -0,0 +1,96 @@
+const { getAdminClient, requireUser, json } = require('../shared/supabaseAdmin');
+const { loadEvent } = require('../shared/doorAccess');
+const { releaseInventory, settleOffers, heldOffers } = require('../shared/waitlist');
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action;
+
+    // Guests see sold-out tiers too, so held spots are public
+    if (action === 'availability') {
+      const admin = getAdminClient();
+      const eventRow = await loadEvent(admin, body.eventId);
+      const slug = eventRow.slug || eventRow.id;
+      let claim = null;
+      if (body.claimToken) {
+        const { data } = await admin.from('ticket_waitlist').select('id, fee_type, email, offer_expires_at')
+          .eq('event_id', slug).eq('claim_token', body.claimToken).eq('status', 'offered')
+          .gt('offer_expires_at', new Date().toISOString()).maybeSingle();
+        claim = data || null;
+      }
+      return json(200, { held: await heldOffers(admin, slug), claim });
+    }
+
+    const { admin, authUser, profile } = await requireUser(event);
+    const eventRow = await loadEvent(admin, body.eventId);
+    const slug = eventRow.slug || eventRow.id;
+
+    if (action === 'join') {
+      const fee = (eventRow.entry_fees || []).find((f) => f.name === body.feeType);
+      if (!fee) return json(404, { error: 'Ticket type not found' });
+      const { data: existing } = await admin.from('ticket_waitlist').select('*')
+        .eq('event_id', slug).eq('fee_type', fee.name).eq('user_id', authUser.id)
+        .in('status', ['waiting', 'offered']).maybeSingle();
+      if (existing) return json(200, { entry: existing });
+      const { data: entry, error } = await admin.from('ticket_waitlist').insert({
+        event_id: slug, fee_type: fee.name, user_id: authUser.id,
+        email: authUser.email, name: body.name || profile?.email || authUser.email, status: 'waiting',
+      }).select('*').single();
+      if (error) throw error;
+      // A spot may already be free (e.g. a refund landed before anyone joined)
+      await releaseInventory(admin, slug, fee.name);
+      const { data: current } = await admin.from('ticket_waitlist').select('*').eq('id', entry.id).single();
+      return json(201, { entry: current || entry });
+    }
+
+    if (action === 'leave') {
+      const { data, error } = await admin.from('ticket_waitlist').update({ status: 'left' })
+        .eq('id', body.entryId).eq('user_id', authUser.id).in('status', ['waiting', 'offered'])
+        .select('*').maybeSingle();
+      if (error) throw error;
+      if (!data) return json(404, { error: 'Waitlist entry not found' });
+      // Giving up an offer passes it straight to the next person
+      if (data.fee_type) await releaseInventory(admin, slug, data.fee_type);
+      return json(200, { entry: data });
+    }
+
+    if (action === 'mine') {
+      for (const fee of eventRow.entry_fees || []) await settleOffers(admin, slug, fee.name);
+      const { data, error } = await admin.from('ticket_waitlist').select('*')
+        .eq('event_id', slug).eq('user_id', authUser.id).in('status', ['waiting', 'offered'])
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      const entries = await Promise.all((data || []).map(async (entry) => {
+        if (entry.status !== 'waiting') return entry;
+        const { count } = await admin.from('ticket_waitlist').select('id', { count: 'exact', head: true })
+          .eq('event_id', slug).eq('fee_type', entry.fee_type).eq('status', 'waiting').lt('created_at', entry.created_at);
+        return { ...entry, position: (count || 0) + 1 };
+      }));
+      return json(200, { entries });
+    }
+
+    if (action === 'counts') {
+      const { data, error } = await admin.from('ticket_waitlist').select('fee_type')
+        .eq('event_id', slug).eq('status', 'waiting');
+      if (error) throw error;
+      const counts = (data || []).reduce((acc, row) => ({ ...acc, [row.fee_type]: (acc[row.fee_type] || 0) + 1 }), {});
+      return json(200, { counts });
+    }
+
+    // Called after a refund, a cancelled fulfillment or a capacity increase.
+    // Only genuinely free inventory is offered, so any signed-in caller is safe.
+    if (action === 'release') {
+      const feeTypes = body.feeType ? [body.feeType] : (eventRow.entry_fees || []).map((f) => f.name);
+      const offers = [];
+      for (const feeType of feeTypes) offers.push(...await releaseInventory(admin, slug, feeType));
+      return json(200, { offered: offers.length });
+    }
+
+    return json(400, { error: 'Unsupported waitlist action' });
+  } catch (error) {
+    console.error('ticket-waitlist error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Waitlist operation failed' });
+  }
+};
@@ -0,0 +1,118 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const {
+  loadPolicy, savePolicy, status, startEnrollment, confirmEnrollment, checkCode, markSessionVerified,
+  regenerateBackupCodes, disableFactor, sendRecoveryCode, verifyRecoveryCode, requireAdminTwoFactor,
+} = require('../shared/twoFactor');
+const { recordAudit } = require('../shared/securityAudit');
+const { isPrivilegedUserType } = require('../../src/utils/twoFactor');
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+async function notifySecurityChange(admin, userId, body) {
+  try {
+    await admin.from('notifications').insert({
+      user_id: userId, title: '🔐 Two-factor authentication changed', body, type: 'security', data: {}, is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('two-factor notification error', userId, e); }
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { admin, authUser, profile } = await requireUser(event);
+    const body = JSON.parse(event.body || '{}');
+    const action = body.action || 'status';
+    const audit = (auditAction, targetType, targetId, before, after, reason) => recordAudit(admin, event, {
+      actor: authUser, actorRole: profile?.user_type, action: auditAction, targetType, targetId, before, after, reason,
+    });
+
+    if (action === 'status') {
+      return json(200, { status: await status(admin, event, authUser.id) });
+    }
+
+    if (action === 'verify') {
+      const method = await checkCode(admin, authUser.id, body.code);
+      await markSessionVerified(admin, event, authUser.id, method);
+      return json(200, { status: await status(admin, event, authUser.id), method });
+    }
+
+    if (action === 'enroll_start') {
+      if (!isPrivilegedUserType(profile?.user_type)) return json(403, { error: 'Two-factor authentication is for organiser and admin accounts' });
+      const current = await status(admin, event, authUser.id);
+      // Moving to a new phone must be done from a session that already passed the old factor
+      if (current.enabled && !current.sessionVerified) return json(403, { error: 'Verify with your current authenticator first' });
+      return json(200, { enrollment: await startEnrollment(admin, { id: authUser.id, email: profile?.email || authUser.email }) });
+    }
+
+    if (action === 'enroll_confirm') {
+      const backupCodes = await confirmEnrollment(admin, event, authUser.id, body.code);
+      await audit('two_factor.enable', 'user', authUser.id, { two_factor_enabled: false }, { two_factor_enabled: true });
+      return json(200, { backupCodes, status: await status(admin, event, authUser.id) });
+    }
+
+    if (action === 'regenerate_backup_codes') {
+      await checkCode(admin, authUser.id, body.code);
+      return json(200, { backupCodes: await regenerateBackupCodes(admin, authUser.id), status: await status(admin, event, authUser.id) });
+    }
+
+    if (action === 'disable') {
+      if (isAdmin(profile) && (await loadPolicy(admin)).requireForAdmin) {
+        return json(409, { error: 'Two-factor is required for admins. Set up a new authenticator instead of turning it off.' });
+      }
+      await checkCode(admin, authUser.id, body.code);
+      await disableFactor(admin, authUser.id);
+      await audit('two_factor.disable', 'user', authUser.id, { two_factor_enabled: true }, { two_factor_enabled: false });
+      await notifySecurityChange(admin, authUser.id, 'Two-factor authentication was turned off for your account.');
+      return json(200, { status: await status(admin, event, authUser.id) });
+    }
+
+    // Lost phone and backup codes: a code sent to the account email turns the
+    // factor off, and the user enrols again from Settings
+    if (action === 'recovery_send') {
+      await sendRecoveryCode(admin, { id: authUser.id, email: profile?.email || authUser.email });
+      return json(200, { sent: true });
+    }
+
+    if (action === 'recovery_confirm') {
+      await verifyRecoveryCode(admin, authUser.id, body.code);
+      await disableFactor(admin, authUser.id);
+      await audit('two_factor.recover', 'user', authUser.id, { two_factor_enabled: true }, { two_factor_enabled: false }, 'Recovered with an email code');
+      await notifySecurityChange(admin, authUser.id, 'Two-factor authentication was removed using an email recovery code. Set it up again in Settings. If this was not you, contact support now.');
+      return json(200, { status: await status(admin, event, authUser.id) });
+    }
+
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+
+    if (action === 'get_policy') {
+      return json(200, { policy: await loadPolicy(admin) });
+    }
+
+    if (action === 'set_policy') {
+      const before = await loadPolicy(admin);
+      const requireForAdmin = !!body.policy?.requireForAdmin;
+      // Turning the requirement on from an unverified session would lock the caller out of the admin pages
+      if (requireForAdmin && !(await status(admin, event, authUser.id)).sessionVerified) {
+        return json(409, { error: 'Set up two-factor on your own account and verify this sign-in first' });
+      }
+      if (before.requireForAdmin) await requireAdminTwoFactor(admin, event, authUser);
+      const policy = await savePolicy(admin, { requireForAdmin }, authUser.id);
+      await audit('two_factor.policy', 'setting', 'two_factor', { require_for_admin: before.requireForAdmin }, { require_for_admin: policy.requireForAdmin });
+      return json(200, { policy });
+    }
+
+    if (action === 'admin_reset') {
+      await requireAdminTwoFactor(admin, event, authUser);
+      if (!body.userId) return json(422, { error: 'userId is required' });
+      if (body.userId === authUser.id) return json(422, { error: 'Use account recovery to reset your own two-factor' });
+      await disableFactor(admin, body.userId);
+      await audit('two_factor.reset', 'user', body.userId, { two_factor_enabled: true }, { two_factor_enabled: false }, body.reason);
+      await notifySecurityChange(admin, body.userId, 'An admin reset two-factor authentication on your account. Set it up again in Settings.');
+      return json(200, { reset: true });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('two-factor error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Two-factor operation failed' });
+  }
+};
@@ -1,3 +1,6 @@
+const { getAdminClient } = require("../shared/supabaseAdmin")
+const { confirmPayment, failPayment } = require("../shared/fulfillment")
+
 const PAWAPAY_BASE_URL = "https://api.pawapay.io/v2"
 
 const getApiKey = () => {
@@ -71,6 +74,17 @@ exports.handler = async (event, context) => {
       : "pending"
 
     console.log("✅ Verification complete - Status:", status)
+
+    // Hand the purchase to the fulfillment worker; a hand-off failure must not change the response
+    try {
+      if (status === "completed") {
+        await confirmPayment(getAdminClient(), depositId, { trigger: "verify-pawapay-payment", transactionId: depositData?.providerTransactionId })
+      } else if (status === "failed") {
+        await failPayment(getAdminClient(), depositId, depositData?.failureReason?.failureMessage)
+      }
+    } catch (fulfillmentError) {
+      console.error("❌ Fulfillment hand-off failed:", fulfillmentError)
+    }
     console.log("========================================")
 
     return {
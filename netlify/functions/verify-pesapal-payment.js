@@ -1,4 +1,6 @@
 const { getPesapalToken } = require('../shared/pesapalAuth');
+const { getAdminClient } = require('../shared/supabaseAdmin');
+const { confirmPayment, failPayment } = require('../shared/fulfillment');
 
 const STATUS_CODES = { 0: 'invalid', 1: 'completed', 2: 'failed', 3: 'reversed' };
 
@@ -77,6 +79,23 @@ exports.handler = async (event) => {
 
     console.log('[VerifyPayment]    Mapped status:', finalStatus);
 
+    // Hand the purchase to the fulfillment worker, keyed on the merchant reference
+    if (data.merchant_reference && finalStatus !== 'pending') {
+      try {
+        if (finalStatus === 'completed') {
+          await confirmPayment(getAdminClient(), data.merchant_reference, {
+            trigger: 'verify-pesapal-payment',
+            transactionId: data.confirmation_code || data.merchant_reference || orderTrackingId,
+            confirmationCode: data.confirmation_code || undefined,
+          });
+        } else {
+          await failPayment(getAdminClient(), data.merchant_reference, data.payment_status_description);
+        }
+      } catch (fulfillmentError) {
+        console.error('[VerifyPayment] ❌ Fulfillment hand-off failed:', fulfillmentError.message);
+      }
+    }
+
     return {
       statusCode: 200,
       headers,
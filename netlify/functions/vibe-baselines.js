@@ -0,0 +1,14 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { refreshVibeBaselines } = require('../shared/vibeIndex');
+
+// Recomputes each venue's usual vibe per night of the week and hour, which
+// the live vibe index falls back on when there are few photos.
+exports.handler = async () => {
+  try {
+    const result = await refreshVibeBaselines(getAdminClient());
+    return json(200, result);
+  } catch (error) {
+    console.error('vibe-baselines error', error);
+    return json(500, { error: error.message || 'Vibe baseline refresh failed' });
+  }
+};
@@ -0,0 +1,27 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { checkInEligibility, checkInFromRow, submitCheckIn } = require('../shared/vibeCheckIns');
+const { vibeImageFromRow } = require('../shared/vibeScoring');
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const { admin, authUser } = await requireUser(event);
+
+    if (body.action === 'eligibility') {
+      const venueId = String(body.venueId || '').trim();
+      if (!venueId) return json(422, { error: 'venueId is required' });
+      return json(200, await checkInEligibility(admin, authUser.id, venueId));
+    }
+
+    if (body.action === 'submit') {
+      const { checkIn, image } = await submitCheckIn(admin, authUser, body);
+      return json(200, { checkIn: checkInFromRow(checkIn), image: image ? vibeImageFromRow(image) : null });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('vibe-checkins error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Check-in failed', retryAt: error.retryAt });
+  }
+};
@@ -0,0 +1,71 @@
+const { requireUser, json } = require('../shared/supabaseAdmin');
+const { TABLE, submitVibeImage, vibeImageFromRow } = require('../shared/vibeScoring');
+const { requireAdminTwoFactor } = require('../shared/twoFactor');
+const { AUDIT_FIELDS, recordAudit } = require('../shared/securityAudit');
+
+const MAX_PAGE = 100;
+const MODERATION_DECISIONS = { approve: 'scored', remove: 'removed' };
+
+function isAdmin(profile) { return profile?.user_type === 'admin'; }
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const { admin, authUser, profile } = await requireUser(event);
+
+    if (body.action === 'submit') {
+      const venueId = String(body.venueId || '').trim();
+      if (!venueId) return json(422, { error: 'venueId is required' });
+      const data = await submitVibeImage(admin, { venueId, imageUrl: body.imageUrl, uploadedBy: authUser.id });
+      return json(200, { image: vibeImageFromRow(data) });
+    }
+
+    if (body.action === 'status') {
+      const { data, error } = await admin.from(TABLE).select('*').eq('id', body.imageId).eq('uploaded_by', authUser.id).maybeSingle();
+      if (error) throw error;
+      if (!data) return json(404, { error: 'Vibe photo not found' });
+      return json(200, { image: vibeImageFromRow(data) });
+    }
+
+    if (!isAdmin(profile)) return json(403, { error: 'Admin access required' });
+    await requireAdminTwoFactor(admin, event, authUser);
+
+    if (body.action === 'moderation_queue') {
+      const filters = body.filters || {};
+      const limit = Math.min(Number(filters.limit) || 50, MAX_PAGE);
+      const offset = Math.max(Number(filters.offset) || 0, 0);
+      let query = admin.from(TABLE).select('*', { count: 'exact' }).eq('scoring_status', filters.status || 'flagged');
+      query = filters.venueId ? query.eq('venue_slug', filters.venueId) : query;
+      const { data, error, count } = await query.order('uploaded_at', { ascending: false }).range(offset, offset + limit - 1);
+      if (error) throw error;
+      return json(200, { images: (data || []).map(vibeImageFromRow), total: count || 0 });
+    }
+
+    if (body.action === 'moderate') {
+      const status = MODERATION_DECISIONS[body.decision];
+      if (!status) return json(422, { error: 'Decision must be approve or remove' });
+      const note = String(body.note || '').trim().slice(0, 500);
+
+      const { data: before, error: loadError } = await admin.from(TABLE).select('*').eq('id', body.imageId).maybeSingle();
+      if (loadError) throw loadError;
+      if (!before || !['flagged', 'scored'].includes(before.scoring_status)) return json(404, { error: 'Vibe photo not found' });
+
+      const { data: after, error } = await admin.from(TABLE).update({
+        scoring_status: status, moderated_by: authUser.id, moderated_at: new Date().toISOString(), moderation_note: note || null,
+      }).eq('id', before.id).select('*').single();
+      if (error) throw error;
+
+      await recordAudit(admin, event, {
+        actor: authUser, actorRole: profile?.user_type, action: `vibe.${body.decision}`, targetType: 'vibe_image', targetId: before.id,
+        before, after, fields: AUDIT_FIELDS.vibe_image, reason: note || null,
+      });
+      return json(200, { image: vibeImageFromRow(after) });
+    }
+
+    return json(400, { error: 'Unknown action' });
+  } catch (error) {
+    console.error('vibe-images error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Vibe photo operation failed' });
+  }
+};
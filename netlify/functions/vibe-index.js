@@ -0,0 +1,20 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { venueVibeIndexes } = require('../shared/vibeIndex');
+
+// Public: anyone browsing venues sees the live vibe
+const MAX_VENUES = 100;
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') return json(405, { error: 'Method not allowed' });
+  try {
+    const { venueIds } = JSON.parse(event.body || '{}');
+    const ids = [...new Set((Array.isArray(venueIds) ? venueIds : []).map(String).filter(Boolean))];
+    if (!ids.length) return json(422, { error: 'venueIds is required' });
+    if (ids.length > MAX_VENUES) return json(422, { error: `At most ${MAX_VENUES} venues per request` });
+    const indexes = await venueVibeIndexes(getAdminClient(), ids);
+    return json(200, { indexes });
+  } catch (error) {
+    console.error('vibe-index error', error);
+    return json(error.statusCode || 500, { error: error.message || 'Could not load the live vibe' });
+  }
+};
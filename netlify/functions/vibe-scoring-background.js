@@ -0,0 +1,25 @@
+const { getAdminClient } = require('../shared/supabaseAdmin');
+const { TABLE, scoreVibeImage } = require('../shared/vibeScoring');
+
+// Background function (up to 15 minutes): scores the given vibe photos with
+// the server's copy of the vibe model. Started by vibe-images on upload and
+// by the sweep; re-scoring a photo only overwrites its own result.
+exports.handler = async (event) => {
+  try {
+    const { imageIds } = JSON.parse(event.body || '{}');
+    if (!Array.isArray(imageIds) || !imageIds.length) {
+      console.error('vibe-scoring-background: imageIds is required');
+      return;
+    }
+    const admin = getAdminClient();
+    const { data, error } = await admin.from(TABLE).select('*').in('id', imageIds.slice(0, 100));
+    if (error) throw error;
+    // One at a time: the model is the memory hog, not the database
+    for (const row of data || []) {
+      const outcome = await scoreVibeImage(admin, row);
+      console.log('vibe-scoring-background', row.id, outcome.status, (outcome.reasons || []).join(',') || outcome.error || '');
+    }
+  } catch (error) {
+    console.error('vibe-scoring-background error', error);
+  }
+};
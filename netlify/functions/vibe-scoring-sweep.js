@@ -0,0 +1,40 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { scoringModelVersion } = require('../shared/vibeModels');
+const { MAX_ATTEMPTS, TABLE, startScoring } = require('../shared/vibeScoring');
+
+// Photos handed to the background worker per run
+const BATCH_SIZE = Number(process.env.VIBE_SCORING_SWEEP_BATCH || 25);
+// Give the worker started on upload a head start
+const PENDING_GRACE_MS = 2 * 60 * 1000;
+// Only photos this recent are re-scored when a new version is promoted
+const RESCORE_WINDOW_DAYS = 7;
+
+async function pick(query) {
+  const { data, error } = await query.order('uploaded_at', { ascending: true }).limit(BATCH_SIZE);
+  if (error) throw error;
+  return (data || []).map((r) => r.id);
+}
+
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    const now = Date.now();
+    const version = scoringModelVersion();
+
+    // Uploads whose worker never ran, failures worth another try, and rows rated in the browser before the worker existed
+    const stuck = await pick(admin.from(TABLE).select('id')
+      .or(`and(scoring_status.eq.pending,uploaded_at.lt.${new Date(now - PENDING_GRACE_MS).toISOString()}),and(scoring_status.eq.failed,scoring_attempts.lt.${MAX_ATTEMPTS}),scoring_status.is.null`));
+    // Ratings from an older model; moderator decisions stand
+    const outdated = stuck.length >= BATCH_SIZE ? [] : await pick(admin.from(TABLE).select('id')
+      .in('scoring_status', ['scored', 'rejected', 'flagged']).is('moderated_at', null)
+      .neq('model_version', version)
+      .gte('uploaded_at', new Date(now - RESCORE_WINDOW_DAYS * 86400000).toISOString()));
+
+    const ids = [...stuck, ...outdated].slice(0, BATCH_SIZE);
+    await startScoring(ids);
+    return json(200, { started: ids.length, modelVersion: version });
+  } catch (error) {
+    console.error('vibe-scoring-sweep error', error);
+    return json(500, { error: error.message || 'Vibe scoring sweep failed' });
+  }
+};
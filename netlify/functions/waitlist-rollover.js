@@ -0,0 +1,26 @@
+const { getAdminClient, json } = require('../shared/supabaseAdmin');
+const { releaseInventory } = require('../shared/waitlist');
+
+// Scheduled (see netlify.toml): rolls unclaimed waitlist offers over to the
+// next person in line once their hold expires.
+exports.handler = async () => {
+  try {
+    const admin = getAdminClient();
+    const { data, error } = await admin.from('ticket_waitlist').select('event_id, fee_type')
+      .eq('status', 'offered').lte('offer_expires_at', new Date().toISOString());
+    if (error) throw error;
+
+    const pairs = [...new Set((data || []).map((row) => `${row.event_id}\u0000${row.fee_type}`))];
+    let offered = 0;
+    for (const pair of pairs) {
+      const [eventId, feeType] = pair.split('\u0000');
+      try {
+        offered += (await releaseInventory(admin, eventId, feeType)).length;
+      } catch (e) { console.error('waitlist-rollover release error', eventId, feeType, e); }
+    }
+    return json(200, { expiredGroups: pairs.length, offered });
+  } catch (error) {
+    console.error('waitlist-rollover error', error);
+    return json(500, { error: error.message || 'Waitlist rollover failed' });
+  }
+};
@@ -0,0 +1,361 @@
+const { postPayout } = require('./ledger');
+const { resolveEventEndTime } = require('../../src/utils/eventTime');
+const { calculatePayoutBreakdown } = require('../../src/utils/pricing');
+const {
+  DEFAULT_AUTO_PAYOUT_SETTINGS, DEFAULT_PAYOUT_APPROVAL_RULES, approvalDecision, isAutoPayoutDue, isReadyAfterEvent, nextScheduledRun,
+} = require('../../src/utils/autoPayouts');
+
+// Automatic settlement of payout-eligible tickets. Tickets are claimed by
+// moving payout_status pending -> processing before any money moves, so a
+// manual withdrawal and an automatic run can never pay the same ticket twice.
+
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+// Event times are entered in East Africa Time
+const EVENT_UTC_OFFSET_MINUTES = Number(process.env.EVENT_UTC_OFFSET_MINUTES || 180);
+const SETTINGS_TABLE = 'auto_payout_settings';
+const RULES_TABLE = 'payout_approval_rules';
+
+function settingsFromRow(row, organizerId) {
+  if (!row) return { organizerId, ...DEFAULT_AUTO_PAYOUT_SETTINGS };
+  return {
+    organizerId: row.organizer_id,
+    enabled: !!row.enabled,
+    cadence: row.cadence,
+    hour: Number(row.hour ?? DEFAULT_AUTO_PAYOUT_SETTINGS.hour),
+    weekday: Number(row.weekday ?? DEFAULT_AUTO_PAYOUT_SETTINGS.weekday),
+    hoursAfterEvent: Number(row.hours_after_event ?? DEFAULT_AUTO_PAYOUT_SETTINGS.hoursAfterEvent),
+    minimumAmount: Number(row.minimum_amount ?? DEFAULT_AUTO_PAYOUT_SETTINGS.minimumAmount),
+    method: row.method || 'mobile_money',
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    lastResult: row.last_result,
+  };
+}
+
+function settingsToRow(settings, now = new Date()) {
+  const next = settings.enabled ? nextScheduledRun(settings, now, EVENT_UTC_OFFSET_MINUTES) : null;
+  return {
+    organizer_id: settings.organizerId,
+    enabled: !!settings.enabled,
+    cadence: settings.cadence,
+    hour: settings.hour,
+    weekday: settings.weekday,
+    hours_after_event: settings.hoursAfterEvent,
+    minimum_amount: settings.minimumAmount,
+    method: settings.method,
+    next_run_at: next ? next.toISOString() : null,
+    updated_at: now.toISOString(),
+  };
+}
+
+async function loadSettings(admin, organizerId) {
+  const { data, error } = await admin.from(SETTINGS_TABLE).select('*').eq('organizer_id', organizerId).maybeSingle();
+  if (error) throw error;
+  return settingsFromRow(data, organizerId);
+}
+
+async function saveSettings(admin, settings) {
+  const { data, error } = await admin.from(SETTINGS_TABLE).upsert(settingsToRow(settings), { onConflict: 'organizer_id' }).select('*').single();
+  if (error) throw error;
+  return settingsFromRow(data);
+}
+
+async function loadRules(admin) {
+  const { data, error } = await admin.from(RULES_TABLE).select('*').eq('id', 'default').maybeSingle();
+  if (error) throw error;
+  if (!data) return { ...DEFAULT_PAYOUT_APPROVAL_RULES };
+  return {
+    autoApproveBelow: Number(data.auto_approve_below ?? DEFAULT_PAYOUT_APPROVAL_RULES.autoApproveBelow),
+    newOrganizerHoldDays: Number(data.new_organizer_hold_days ?? DEFAULT_PAYOUT_APPROVAL_RULES.newOrganizerHoldDays),
+    detailsChangeHoldHours: Number(data.details_change_hold_hours ?? DEFAULT_PAYOUT_APPROVAL_RULES.detailsChangeHoldHours),
+    minimumAmount: Number(data.minimum_amount ?? DEFAULT_PAYOUT_APPROVAL_RULES.minimumAmount),
+    paused: !!data.paused,
+    updatedAt: data.updated_at,
+    updatedBy: data.updated_by,
+  };
+}
+
+async function saveRules(admin, rules, adminId) {
+  const { error } = await admin.from(RULES_TABLE).upsert({
+    id: 'default',
+    auto_approve_below: rules.autoApproveBelow,
+    new_organizer_hold_days: rules.newOrganizerHoldDays,
+    details_change_hold_hours: rules.detailsChangeHoldHours,
+    minimum_amount: rules.minimumAmount,
+    paused: !!rules.paused,
+    updated_at: new Date().toISOString(),
+    updated_by: adminId,
+  }, { onConflict: 'id' });
+  if (error) throw error;
+  return loadRules(admin);
+}
+
+// Same matching as the withdraw modal: mobile money pays out mobile money
+// sales, bank transfers pay out card sales
+function ticketMethodFor(method) {
+  return method === 'bank_transfer' ? 'credit_card' : 'mobile_money';
+}
+
+function pawapayProvider(mobileMoney) {
+  return mobileMoney?.provider === 'airtel' || mobileMoney?.provider === 'airtel_tigo' ? 'AIRTEL_OAPI_UGA' : 'MTN_MOMO_UGA';
+}
+
+function internationalPhone(localNumber) {
+  const cleaned = String(localNumber || '').replace(/\D/g, '');
+  if (cleaned.startsWith('256')) return '+' + cleaned;
+  if (cleaned.startsWith('0')) return '+256' + cleaned.slice(1);
+  return cleaned.length >= 9 ? '+256' + cleaned : cleaned;
+}
+
+/** Pending, payout-eligible tickets the settings would settle right now */
+async function eligibleTickets(admin, settings, now) {
+  const { data: events, error: eventsError } = await admin.from('events').select('id,slug,date,time,revenue_shares').eq('created_by', settings.organizerId);
+  if (eventsError) throw eventsError;
+  // Shared events are split between their beneficiaries, who each confirm their own payout
+  const ready = (events || []).filter((e) => !e.revenue_shares?.length).filter((e) => settings.cadence !== 'after_event'
+    || isReadyAfterEvent(resolveEventEndTime(e, EVENT_UTC_OFFSET_MINUTES), settings.hoursAfterEvent, now));
+  const slugs = ready.map((e) => e.slug || e.id);
+  const method = ticketMethodFor(settings.method);
+
+  const tickets = [];
+  for (let i = 0; i < slugs.length; i += 50) {
+    const { data, error } = await admin.from('tickets')
+      .select('id,event_slug,payment_method,total_amount,app_commission,venue_revenue,gateway_fee')
+      .in('event_slug', slugs.slice(i, i + 50)).eq('payout_eligible', true).eq('payout_status', 'pending');
+    if (error) throw error;
+    tickets.push(...(data || []).filter((t) => (t.payment_method || 'mobile_money') === method));
+  }
+  return tickets;
+}
+
+/** Move tickets to processing; returns the ones this run won */
+async function claimTickets(admin, ids) {
+  const claimed = [];
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data, error } = await admin.from('tickets').update({ payout_status: 'processing' })
+      .in('id', ids.slice(i, i + 200)).eq('payout_status', 'pending').eq('payout_eligible', true)
+      .select('id,total_amount,app_commission,venue_revenue,gateway_fee');
+    if (error) throw error;
+    claimed.push(...(data || []));
+  }
+  return claimed;
+}
+
+async function setTicketsPayoutStatus(admin, ids, update) {
+  for (let i = 0; i < ids.length; i += 200) {
+    const { error } = await admin.from('tickets').update(update).in('id', ids.slice(i, i + 200));
+    if (error) console.error('auto payout: ticket update failed', error);
+  }
+}
+
+function breakdownFor(tickets) {
+  return calculatePayoutBreakdown(tickets.map((t) => ({
+    totalAmount: t.total_amount, appCommission: t.app_commission, venueRevenue: t.venue_revenue, gatewayFee: t.gateway_fee,
+  })));
+}
+
+async function notify(admin, organizerId, title, body, data) {
+  try {
+    await admin.from('notifications').insert({
+      user_id: organizerId, title, body, type: 'payout_update', data, is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('auto payout notification error', organizerId, e); }
+}
+
+async function sendReceipt(payoutId, email) {
+  if (!email) return;
+  try {
+    const response = await fetch(`${SITE_URL}/.netlify/functions/send-payout-receipt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ payoutId, email }),
+    });
+    if (!response.ok) console.error('payout receipt failed', payoutId, response.status, await response.text());
+  } catch (e) { console.error('payout receipt error', payoutId, e); }
+}
+
+// Errors carry payoutOutcome ('sent' or 'unknown') when the money may have left
+async function initiateMobileMoney(amount, mobileMoney) {
+  let response;
+  try {
+    response = await fetch(`${SITE_URL}/.netlify/functions/create-pawapay-payout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        amount, currency: 'UGX', phoneNumber: internationalPhone(mobileMoney.phoneNumber), provider: pawapayProvider(mobileMoney),
+      }),
+    });
+  } catch (e) {
+    throw Object.assign(new Error(`Payout outcome unknown: ${e.message}`), { payoutOutcome: 'unknown' });
+  }
+  const payload = await response.json().catch(() => null);
+  // A clean rejection means nothing was sent; a crash may have come after PawaPay accepted it
+  if (!payload || response.status >= 500) {
+    throw Object.assign(new Error(`Payout outcome unknown (${response.status}): ${payload?.error || 'no response'}`), { payoutOutcome: 'unknown' });
+  }
+  if (!response.ok || !payload.success) throw new Error(payload.error || `Payout failed (${response.status})`);
+  return payload;
+}
+
+/**
+ * Park a payout whose money may have left as 'sent' or 'unknown' for an admin
+ * to check with PawaPay, and keep its tickets out of every payable balance.
+ */
+async function holdUncertainPayout(admin, payout, error) {
+  const { error: updateError } = await admin.from('payouts').update({
+    status: error.payoutOutcome,
+    transaction_reference: error.transactionReference || payout.transaction_reference || null,
+    admin_note: `Check with PawaPay before paying again: ${error.message}`,
+    updated_at: new Date().toISOString(),
+  }).eq('id', payout.id);
+  if (updateError) console.error('payout sent but could not be marked', payout.id, error.payoutOutcome, updateError);
+  // Revenue-share tickets are already settled when their split is made
+  const ids = payout.ticket_ids || [];
+  for (let i = 0; i < ids.length; i += 200) {
+    const { error: ticketError } = await admin.from('tickets').update({ payout_status: 'processing', payout_eligible: false })
+      .in('id', ids.slice(i, i + 200)).neq('payout_status', 'paid');
+    if (ticketError) console.error('auto payout: ticket update failed', ticketError);
+  }
+}
+
+/**
+ * Send a mobile money payout for tickets already claimed (or held for review)
+ * and record it: payout row completed, tickets paid, ledger posted, receipt
+ * emailed. Returns the completed payout row. Once the money may have left, a
+ * failure is recorded on the payout and rethrown with `payoutOutcome` set;
+ * callers must not put such a payout or its tickets back up for payment.
+ */
+async function completeMobileMoneyPayout(admin, payout, organizer) {
+  const mobileMoney = organizer.payment_details?.mobileMoney;
+  if (!mobileMoney?.phoneNumber) throw Object.assign(new Error('The organiser has no mobile money number'), { statusCode: 422 });
+  let result;
+  try {
+    result = await initiateMobileMoney(Number(payout.amount), mobileMoney);
+  } catch (e) {
+    if (e.payoutOutcome) await holdUncertainPayout(admin, payout, e);
+    throw e;
+  }
+  const processedAt = new Date().toISOString();
+  const { data: completed, error } = await admin.from('payouts').update({
+    status: 'completed', processed_date: processedAt, transaction_reference: result.payoutId,
+    recipient_phone_number: internationalPhone(mobileMoney.phoneNumber), updated_at: processedAt,
+  }).eq('id', payout.id).select('*').single();
+  if (error) {
+    const sent = Object.assign(new Error(`Payout ${result.payoutId} was sent but not recorded: ${error.message}`), {
+      payoutOutcome: 'sent', transactionReference: result.payoutId,
+    });
+    await holdUncertainPayout(admin, payout, sent);
+    throw sent;
+  }
+  await setTicketsPayoutStatus(admin, payout.ticket_ids || [], { payout_status: 'paid', payout_date: processedAt, payout_eligible: false });
+  try { await postPayout(admin, completed); } catch (e) { console.error('ledger payout post error', payout.id, e); }
+  await sendReceipt(completed.id, organizer.email);
+  return completed;
+}
+
+/**
+ * One organiser's automatic run: settle whatever is eligible if it clears the
+ * minimum, straight away when the approval rules allow it and as a payout
+ * held for admin review otherwise. Returns a short summary for last_result.
+ */
+async function runAutoPayout(admin, settings, rules, now = new Date()) {
+  const { data: organizer, error: organizerError } = await admin.from('users')
+    .select('id,email,name,created_at,payment_details,payment_details_updated_at').eq('id', settings.organizerId).maybeSingle();
+  if (organizerError) throw organizerError;
+  if (!organizer) return 'skipped: organiser not found';
+
+  const minimum = Math.max(settings.minimumAmount, rules.minimumAmount);
+  const candidates = await eligibleTickets(admin, settings, now);
+  const pendingTotal = candidates.reduce((sum, t) => sum + Number(t.venue_revenue || 0), 0);
+  if (!candidates.length || pendingTotal < minimum) {
+    return `skipped: UGX ${Math.round(pendingTotal).toLocaleString()} is below the UGX ${minimum.toLocaleString()} minimum`;
+  }
+
+  const tickets = await claimTickets(admin, candidates.map((t) => t.id));
+  const ticketIds = tickets.map((t) => t.id);
+  const amount = Math.round(tickets.reduce((sum, t) => sum + Number(t.venue_revenue || 0), 0) * 100) / 100;
+  if (amount < minimum) {
+    await setTicketsPayoutStatus(admin, ticketIds, { payout_status: 'pending' });
+    return 'skipped: tickets were paid out elsewhere';
+  }
+
+  const decision = approvalDecision({
+    amount, method: settings.method, organizerSince: organizer.created_at, detailsUpdatedAt: organizer.payment_details_updated_at,
+  }, rules, now);
+  const bank = organizer.payment_details?.bankAccount;
+  const { data: payout, error } = await admin.from('payouts').insert({
+    organizer_id: organizer.id,
+    ticket_ids: ticketIds,
+    amount,
+    status: 'pending_admin_review',
+    request_date: now.toISOString(),
+    payout_method: settings.method,
+    recipient_name: (settings.method === 'bank_transfer' ? bank?.accountName : organizer.payment_details?.mobileMoney?.accountName) || organizer.name || organizer.email || '',
+    recipient_phone_number: settings.method === 'mobile_money' ? internationalPhone(organizer.payment_details?.mobileMoney?.phoneNumber) : '',
+    metadata: {
+      auto: true,
+      cadence: settings.cadence,
+      hold_reason: decision.reason,
+      breakdown: breakdownFor(tickets),
+      ...(settings.method === 'bank_transfer' ? { bank_name: bank?.bankName, account_number: bank?.accountNumber } : {}),
+    },
+  }).select('*').single();
+  if (error) {
+    await setTicketsPayoutStatus(admin, ticketIds, { payout_status: 'pending' });
+    throw error;
+  }
+
+  if (!decision.approved) {
+    await setTicketsPayoutStatus(admin, ticketIds, { payout_status: 'pending_review', payout_eligible: false });
+    await notify(admin, organizer.id, '🔄 Automatic Payout Pending Review',
+      `UGX ${amount.toLocaleString()} for ${ticketIds.length} ticket(s) is waiting for admin approval. ${decision.reason}.`,
+      { payoutId: payout.id, amount, status: 'pending_admin_review' });
+    return `held: ${decision.reason}`;
+  }
+
+  try {
+    await completeMobileMoneyPayout(admin, payout, organizer);
+  } catch (e) {
+    console.error('auto payout send failed', payout.id, e);
+    if (e.payoutOutcome) return `held: payout ${e.payoutOutcome}, check with PawaPay (${e.message})`;
+    await admin.from('payouts').update({ status: 'rejected', admin_note: `Automatic payout failed: ${e.message}`, updated_at: new Date().toISOString() }).eq('id', payout.id);
+    await setTicketsPayoutStatus(admin, ticketIds, { payout_status: 'pending' });
+    return `failed: ${e.message}`;
+  }
+  await notify(admin, organizer.id, '✅ Automatic Payout Sent',
+    `UGX ${amount.toLocaleString()} for ${ticketIds.length} ticket(s) was sent to your mobile money.`,
+    { payoutId: payout.id, amount, status: 'completed' });
+  return `paid: UGX ${amount.toLocaleString()}`;
+}
+
+/** Run every organiser whose automatic payout is due; returns per-outcome counts */
+async function runDueAutoPayouts(admin, now = new Date()) {
+  const counts = { due: 0, paid: 0, held: 0, skipped: 0, failed: 0 };
+  const rules = await loadRules(admin);
+  if (rules.paused) return { ...counts, paused: true };
+
+  const { data: rows, error } = await admin.from(SETTINGS_TABLE).select('*').eq('enabled', true);
+  if (error) throw error;
+  for (const row of rows || []) {
+    const settings = settingsFromRow(row);
+    if (!isAutoPayoutDue(settings, now)) continue;
+    counts.due++;
+    let result;
+    try {
+      result = await runAutoPayout(admin, settings, rules, now);
+    } catch (e) {
+      console.error('auto payout error', settings.organizerId, e);
+      result = `failed: ${e.message}`;
+    }
+    counts[result.split(':')[0]]++;
+    const next = nextScheduledRun(settings, now, EVENT_UTC_OFFSET_MINUTES);
+    await admin.from(SETTINGS_TABLE).update({
+      last_run_at: now.toISOString(), last_result: result, next_run_at: next ? next.toISOString() : null,
+    }).eq('organizer_id', settings.organizerId);
+  }
+  return counts;
+}
+
+module.exports = {
+  loadSettings, saveSettings, loadRules, saveRules, runAutoPayout, runDueAutoPayouts, completeMobileMoneyPayout, setTicketsPayoutStatus,
+};
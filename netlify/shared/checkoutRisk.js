@@ -0,0 +1,242 @@
+const crypto = require('crypto');
+const {
+  RISK_ASSESSMENT_TTL_MINUTES, SEAT_HOLD_WINDOW_HOURS, VELOCITY_WINDOW_MINUTES,
+  normalizeRiskEmail, normalizeRiskPhone, scoreCheckoutRisk,
+} = require('../../src/utils/riskScoring');
+const { requestContext } = require('./securityAudit');
+
+// Checkout risk engine: every payment function scores the checkout before
+// money moves. Step-up and block outcomes are queued for admin review. The
+// client's risk context can only add to a score: anything that could lower
+// it, or pick how the buyer proves themselves, comes from the server.
+
+const TABLE = 'purchase_risk_assessments';
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+const OTP_TTL_MINUTES = 10;
+const MAX_OTP_ATTEMPTS = 5;
+
+const hashCode = (code) => crypto.createHash('sha256').update(String(code || '').trim()).digest('hex');
+
+function riskError(message, statusCode = 422) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function assessmentFromRow(row) {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    eventId: row.event_id || null,
+    eventName: row.event_name || null,
+    email: row.email || null,
+    phone: row.phone || null,
+    deviceId: row.device_id || null,
+    payerName: row.payer_name || null,
+    amount: Number(row.amount || 0),
+    quantity: Number(row.quantity || 0),
+    paymentMethod: row.payment_method || null,
+    score: Number(row.score || 0),
+    action: row.action,
+    stepUp: row.step_up || null,
+    stepUpPassedAt: row.step_up_passed_at || null,
+    factors: row.factors || [],
+    paymentId: row.payment_id || null,
+    reviewStatus: row.review_status || null,
+    reviewedBy: row.reviewed_by || null,
+    reviewedAt: row.reviewed_at || null,
+    reviewNote: row.review_note || null,
+  };
+}
+
+/** The network the request came from, hashed, so velocity doesn't depend on an id the client sends */
+function networkKey(event) {
+  const { ip } = requestContext(event);
+  return ip ? crypto.createHash('sha256').update(ip).digest('hex').slice(0, 32) : null;
+}
+
+/** Merge the client's risk context with what the payment function itself was sent */
+function checkoutInput(event, risk, { email, phone, payerName, amount, paymentMethod }) {
+  const context = risk && typeof risk === 'object' ? risk : {};
+  return {
+    eventId: context.eventId || null,
+    eventName: context.eventName || null,
+    email: normalizeRiskEmail(context.email || email),
+    phone: normalizeRiskPhone(phone || context.phone),
+    deviceId: networkKey(event),
+    payerName: String(context.payerName || payerName || '').trim().slice(0, 120),
+    buyerNames: Array.isArray(context.buyerNames) ? context.buyerNames.map(String).slice(0, 50) : [],
+    // Only ever raises the score: a photo other buyers used
+    photoHash: /^[a-f0-9]{64}$/.test(context.photoHash || '') ? context.photoHash : null,
+    quantity: Number(context.quantity || 1),
+    amount: Number(amount || context.amount || 0),
+    paymentMethod,
+  };
+}
+
+async function countSince(admin, column, value, since) {
+  if (!value) return 0;
+  const { count, error } = await admin.from(TABLE).select('id', { count: 'exact', head: true }).eq(column, value).gte('created_at', since);
+  if (error) throw error;
+  return count || 0;
+}
+
+async function countFraud(admin, input) {
+  let total = 0;
+  // Not the network: one fraudster would block everyone behind the same carrier NAT
+  for (const [column, value] of [['email', input.email], ['phone', input.phone]]) {
+    if (!value) continue;
+    const { count } = await admin.from(TABLE).select('id', { count: 'exact', head: true }).eq(column, value).eq('review_status', 'fraud');
+    total += count || 0;
+  }
+  return total;
+}
+
+async function collectSignals(admin, input) {
+  const now = Date.now();
+  const velocitySince = new Date(now - VELOCITY_WINDOW_MINUTES * 60000).toISOString();
+  const seatSince = new Date(now - SEAT_HOLD_WINDOW_HOURS * 3600000).toISOString();
+
+  const [phoneAttempts, emailAttempts, deviceAttempts, confirmedFraud] = await Promise.all([
+    countSince(admin, 'phone', input.phone, velocitySince),
+    countSince(admin, 'email', input.email, velocitySince),
+    countSince(admin, 'device_id', input.deviceId, velocitySince),
+    countFraud(admin, input),
+  ]);
+
+  const { count: chargebacks } = input.email
+    ? await admin.from('refund_requests').select('id', { count: 'exact', head: true }).eq('buyer_email', input.email).eq('reason_code', 'chargeback')
+    : { count: 0 };
+
+  let photoSharedWith = 0;
+  if (input.photoHash) {
+    const { data } = await admin.from(TABLE).select('email').eq('photo_hash', input.photoHash);
+    photoSharedWith = new Set((data || []).map((r) => r.email).filter((e) => e && e !== input.email)).size;
+  }
+
+  let abandonedSeatOrders = 0;
+  if (input.email) {
+    const { data } = await admin.from('pending_ticket_fulfillments').select('order')
+      .eq('buyer_email', input.email).eq('status', 'cancelled').gte('created_at', seatSince);
+    abandonedSeatOrders = (data || []).filter((r) => r.order?.isTableEntry || (r.order?.seatNumbers || []).some((s) => s != null)).length;
+  }
+
+  return {
+    phoneAttempts, emailAttempts, deviceAttempts,
+    payerName: input.payerName, buyerNames: input.buyerNames,
+    photoSharedWith, chargebacks: chargebacks || 0, confirmedFraud,
+    abandonedSeatOrders,
+  };
+}
+
+async function assessCheckout(admin, input) {
+  const result = scoreCheckoutRisk(await collectSignals(admin, input));
+  const { data, error } = await admin.from(TABLE).insert({
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + RISK_ASSESSMENT_TTL_MINUTES * 60000).toISOString(),
+    event_id: input.eventId, event_name: input.eventName,
+    email: input.email || null, phone: input.phone || null, device_id: input.deviceId,
+    payer_name: input.payerName || null, photo_hash: input.photoHash,
+    amount: input.amount, quantity: input.quantity, payment_method: input.paymentMethod,
+    score: result.score, action: result.action, factors: result.factors,
+    // A photo the browser hashed proves nothing to the server, so step-ups are always an emailed code
+    step_up: result.action === 'step_up' ? 'otp' : null,
+    review_status: result.action === 'allow' ? null : 'pending',
+  }).select('*').single();
+  if (error) throw error;
+  return data;
+}
+
+function decision(row) {
+  if (row.action === 'block') {
+    return {
+      statusCode: 403,
+      payload: { error: "We couldn't accept this payment. Our team will review it; contact support if you think this is a mistake.", risk: { action: 'block', assessmentId: row.id } },
+    };
+  }
+  return {
+    statusCode: 428,
+    payload: {
+      error: 'Enter the code we email you to confirm this purchase',
+      risk: { action: 'step_up', assessmentId: row.id, stepUp: 'otp' },
+    },
+  };
+}
+
+/**
+ * Score a checkout, or pick up the assessment the buyer has since stepped up
+ * on. Resolves to { proceed: true, assessmentId } or to the response the
+ * payment function should return instead. The engine never blocks a sale
+ * because it is down: errors are logged and the payment goes ahead.
+ */
+async function checkoutRiskGate(admin, input, assessmentId) {
+  try {
+    let row;
+    if (assessmentId) {
+      const { data } = await admin.from(TABLE).select('*').eq('id', assessmentId).maybeSingle();
+      // A passed step-up only covers the contact details it was scored on
+      if (!data || data.payment_id || new Date(data.expires_at) < new Date()
+        || (data.email || '') !== (input.email || '') || (data.phone || '') !== (input.phone || '')) {
+        row = await assessCheckout(admin, input);
+      } else {
+        row = data;
+      }
+    } else {
+      row = await assessCheckout(admin, input);
+    }
+    if (row.action === 'allow' || (row.action === 'step_up' && row.step_up_passed_at)) return { proceed: true, assessmentId: row.id };
+    return { proceed: false, ...decision(row) };
+  } catch (error) {
+    console.error('checkout risk gate error; allowing payment', error);
+    return { proceed: true, assessmentId: null };
+  }
+}
+
+async function attachPayment(admin, assessmentId, paymentId) {
+  if (!assessmentId || !paymentId) return;
+  const { error } = await admin.from(TABLE).update({ payment_id: paymentId }).eq('id', assessmentId);
+  if (error) console.error('checkout risk payment link error', assessmentId, error);
+}
+
+async function loadOpenStepUp(admin, assessmentId) {
+  const { data, error } = await admin.from(TABLE).select('*').eq('id', assessmentId).maybeSingle();
+  if (error) throw error;
+  if (!data || data.action !== 'step_up' || data.payment_id || new Date(data.expires_at) < new Date()) {
+    throw riskError('This checkout has expired. Please start again.', 410);
+  }
+  return data;
+}
+
+async function sendStepUpCode(admin, assessmentId) {
+  const row = await loadOpenStepUp(admin, assessmentId);
+  if (!row.email) throw riskError('Add an email address to confirm this purchase');
+  const code = String(crypto.randomInt(100000, 1000000));
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60000).toISOString();
+  const { error } = await admin.from(TABLE).update({ otp_hash: hashCode(code), otp_expires_at: expiresAt, otp_attempts: 0 }).eq('id', row.id);
+  if (error) throw error;
+
+  const response = await fetch(`${SITE_URL}/.netlify/functions/send-ticket-email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ kind: 'security_code', purpose: 'checkout', buyerEmail: row.email, code, expiresAt }),
+  });
+  if (!response.ok) {
+    console.error('checkout risk code email failed', response.status, await response.text());
+    throw riskError('Could not send the confirmation email. Please try again.', 502);
+  }
+  return row.email;
+}
+
+async function verifyStepUpCode(admin, assessmentId, code) {
+  const row = await loadOpenStepUp(admin, assessmentId);
+  if ((row.otp_attempts || 0) >= MAX_OTP_ATTEMPTS) throw riskError('Too many attempts. Start the checkout again.', 429);
+  if (!row.otp_hash || new Date(row.otp_expires_at) < new Date() || hashCode(code) !== row.otp_hash) {
+    await admin.from(TABLE).update({ otp_attempts: (row.otp_attempts || 0) + 1 }).eq('id', row.id);
+    throw riskError('Code is incorrect or has expired. Please request a new one.');
+  }
+  const { error } = await admin.from(TABLE).update({ otp_hash: null, step_up_passed_at: new Date().toISOString() }).eq('id', row.id);
+  if (error) throw error;
+}
+
+module.exports = {
+  TABLE, assessmentFromRow, checkoutInput, assessCheckout, checkoutRiskGate, attachPayment,
+  sendStepUpCode, verifyStepUpCode,
+};
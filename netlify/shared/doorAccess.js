@@ -0,0 +1,54 @@
+const crypto = require('crypto');
+const { getAdminClient, requireUser } = require('./supabaseAdmin');
+const { eventAccess } = require('./teams');
+const { hasPermission } = require('../../src/utils/teamRoles');
+
+const QR_SECRET = process.env.QR_HMAC_SECRET || process.env.EXPO_PUBLIC_QR_HMAC_SECRET || 'dev-secret-change-in-production';
+
+// Same base64url HMAC-SHA256 the client computes in TicketQRService.signPayload
+function signPayload(payload) {
+  return crypto.createHmac('sha256', QR_SECRET).update(payload).digest('base64')
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function loadEvent(admin, eventSlug) {
+  let { data, error } = await admin.from('events').select('*').eq('slug', eventSlug).maybeSingle();
+  if (!data && !error) {
+    const fallback = await admin.from('events').select('*').eq('id', eventSlug).maybeSingle();
+    data = fallback.data; error = fallback.error;
+  }
+  if (error) throw error;
+  if (!data) throw Object.assign(new Error('Event not found'), { statusCode: 404 });
+  return data;
+}
+
+/**
+ * Door staff authenticate with an event_staff_tokens token; organisers, their
+ * door team and admins with their Supabase session. Either way the caller must be bound to
+ * the event being scanned.
+ */
+async function authorizeDoorAccess(event, eventSlug, staffToken) {
+  if (!eventSlug) throw Object.assign(new Error('eventSlug is required'), { statusCode: 400 });
+
+  if (staffToken) {
+    const admin = getAdminClient();
+    const { data: tokenRow, error } = await admin.from('event_staff_tokens')
+      .select('*').eq('token', staffToken).gt('expires_at', new Date().toISOString()).maybeSingle();
+    if (error) throw error;
+    if (!tokenRow) throw Object.assign(new Error('Scanner link has expired or is invalid'), { statusCode: 401 });
+    const eventRow = await loadEvent(admin, eventSlug);
+    if (tokenRow.event_id !== eventRow.slug && tokenRow.event_id !== eventRow.id) {
+      throw Object.assign(new Error('Scanner link is for a different event'), { statusCode: 403 });
+    }
+    return { admin, event: eventRow, actorId: `staff:${tokenRow.id}`, staffToken: tokenRow };
+  }
+
+  const { admin, authUser, profile } = await requireUser(event);
+  const eventRow = await loadEvent(admin, eventSlug);
+  if (!hasPermission(await eventAccess(admin, eventRow, authUser.id, profile), 'door')) {
+    throw Object.assign(new Error('Only the event organiser or their door team can scan this event'), { statusCode: 403 });
+  }
+  return { admin, event: eventRow, actorId: authUser.id, staffToken: null };
+}
+
+module.exports = { signPayload, loadEvent, authorizeDoorAccess };
@@ -0,0 +1,70 @@
+const { artistKey } = require('../../src/utils/recommendations');
+
+// Venues and artists users follow, for the "For you" feed. Artists are free
+// text on events, so an artist follow is keyed by the folded name.
+
+const FOLLOWS_TABLE = 'follows';
+const TARGET_TYPES = ['venue', 'artist'];
+
+function followError(message, statusCode = 422) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function followFromRow(row) {
+  return {
+    targetType: row.target_type,
+    targetKey: row.target_key,
+    targetName: row.target_name,
+    createdAt: row.created_at,
+  };
+}
+
+async function listFollows(admin, userId) {
+  const { data, error } = await admin.from(FOLLOWS_TABLE).select('target_type,target_key,target_name,created_at')
+    .eq('user_id', userId).order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/** The follow's key and display name; a venue has to exist and is named as it is stored */
+async function followTarget(admin, input) {
+  const targetType = String(input.targetType || '');
+  if (!TARGET_TYPES.includes(targetType)) throw followError('Follow a venue or an artist');
+  if (targetType === 'artist') {
+    const name = String(input.target || '').trim().replace(/\s+/g, ' ').slice(0, 120);
+    if (!name) throw followError('Artist name is required');
+    return { targetType, targetKey: artistKey(name), targetName: name };
+  }
+  const slug = String(input.target || '').trim();
+  const { data: venue, error } = await admin.from('venues').select('slug,name')
+    .eq('slug', slug).eq('is_deleted', false).maybeSingle();
+  if (error) throw error;
+  if (!venue) throw followError('Venue not found', 404);
+  return { targetType, targetKey: venue.slug, targetName: venue.name };
+}
+
+async function follow(admin, userId, input) {
+  const target = await followTarget(admin, input);
+  const row = {
+    user_id: userId,
+    target_type: target.targetType,
+    target_key: target.targetKey,
+    target_name: target.targetName,
+    created_at: new Date().toISOString(),
+  };
+  // Following again keeps the original follow
+  const { error } = await admin.from(FOLLOWS_TABLE).upsert(row, { onConflict: 'user_id,target_type,target_key', ignoreDuplicates: true });
+  if (error) throw error;
+  return row;
+}
+
+async function unfollow(admin, userId, input) {
+  const targetType = String(input.targetType || '');
+  if (!TARGET_TYPES.includes(targetType)) throw followError('Follow a venue or an artist');
+  const targetKey = targetType === 'artist' ? artistKey(input.target) : String(input.target || '').trim();
+  const { error } = await admin.from(FOLLOWS_TABLE).delete()
+    .eq('user_id', userId).eq('target_type', targetType).eq('target_key', targetKey);
+  if (error) throw error;
+}
+
+module.exports = { FOLLOWS_TABLE, follow, followFromRow, listFollows, unfollow };
@@ -0,0 +1,369 @@
+const crypto = require('crypto');
+const QRCode = require('qrcode');
+const { loadEvent, signPayload } = require('./doorAccess');
+const { quoteFromTotal } = require('../../src/utils/pricing');
+const { deriveTicketRef } = require('../../src/utils/ticketRef');
+const { normalizePromoCode } = require('../../src/utils/promoCodes');
+const { resolveEventStartTime } = require('../../src/utils/eventTime');
+const { isFulfillmentDue, nextFulfillmentStep } = require('../../src/utils/fulfillmentRetry');
+const { expectedOrderTotal } = require('../../src/utils/orderPricing');
+const { postTicketSales } = require('./ledger');
+const { loadPromoCodes } = require('./promoCodes');
+const { fulfillmentPaymentStatus } = require('./paymentStatus');
+
+// Server-side ticket fulfillment. Payment confirmations mark a pending
+// fulfillment confirmed and start fulfill-order-background; the scheduled
+// fulfillment-sweep retries failures with backoff. Every step is safe to
+// repeat: tickets are found again by payment id and emails are only sent once.
+
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+const TABLE = 'pending_ticket_fulfillments';
+// Event times are entered in East Africa Time
+const EVENT_UTC_OFFSET_MINUTES = Number(process.env.EVENT_UTC_OFFSET_MINUTES || 180);
+const TIME_ZONE = process.env.EVENT_TIME_ZONE || 'Africa/Kampala';
+
+async function findByPaymentId(admin, paymentId) {
+  const { data, error } = await admin.from(TABLE).select('*').eq('payment_id', paymentId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Hand a fulfillment to the background worker; the sweep picks it up if this fails */
+async function startFulfillment(paymentId, trigger) {
+  try {
+    const response = await fetch(`${SITE_URL}/.netlify/functions/fulfill-order-background`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paymentId, trigger }),
+    });
+    if (!response.ok) console.error('fulfillment start failed', paymentId, response.status);
+  } catch (e) { console.error('fulfillment start error', paymentId, e); }
+}
+
+/** The processor reported the payment complete: queue its tickets */
+async function confirmPayment(admin, paymentId, { trigger, transactionId, confirmationCode } = {}) {
+  const row = await findByPaymentId(admin, paymentId);
+  if (!row) {
+    console.warn('No pending fulfillment for confirmed payment', paymentId);
+    return null;
+  }
+  if (row.status === 'awaiting_payment') {
+    const now = new Date().toISOString();
+    const { error } = await admin.from(TABLE).update({
+      status: 'payment_confirmed', confirmed_at: now, next_attempt_at: null,
+      payment_confirmation: { trigger, transactionId: transactionId || null, confirmationCode: confirmationCode || null },
+      updated_at: now,
+    }).eq('id', row.id).eq('status', 'awaiting_payment');
+    if (error) throw error;
+  }
+  if (row.status === 'awaiting_payment' || row.status === 'payment_confirmed') {
+    await startFulfillment(paymentId, trigger);
+  }
+  return row;
+}
+
+/** The processor reported the payment failed: nothing to fulfil */
+async function failPayment(admin, paymentId, reason) {
+  const { error } = await admin.from(TABLE).update({
+    status: 'cancelled', last_error: reason || 'Payment failed', updated_at: new Date().toISOString(),
+  }).eq('payment_id', paymentId).eq('status', 'awaiting_payment');
+  if (error) throw error;
+}
+
+// An order no retry can fix goes straight to the dead letter queue for an admin
+function unfulfillable(message) {
+  return Object.assign(new Error(message), { deadLetter: true });
+}
+
+// Optimistic claim so two workers never fulfil the same purchase at once
+async function claim(admin, row) {
+  const { data, error } = await admin.from(TABLE).update({
+    status: 'fulfilling', attempt_count: (row.attempt_count || 0) + 1, next_attempt_at: null,
+    updated_at: new Date().toISOString(),
+  }).eq('id', row.id).eq('status', row.status).eq('attempt_count', row.attempt_count || 0).select('*');
+  if (error) throw error;
+  return data?.[0] || null;
+}
+
+async function existingTickets(admin, paymentId) {
+  const { data, error } = await admin.from('tickets_api').select('*')
+    .eq('paymentId', paymentId).order('purchaseDate', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+async function commissionRateFor(admin, userId) {
+  if (!userId) return null;
+  const { data } = await admin.from('users').select('commission_rate').eq('id', userId).maybeSingle();
+  return data?.commission_rate ?? null;
+}
+
+async function soldBefore(admin, event, feeName, before) {
+  const { count, error } = await admin.from('tickets').select('id', { count: 'exact', head: true })
+    .eq('event_slug', event.slug).eq('entry_fee_type', feeName).in('status', ['active', 'used', 'pending'])
+    .lt('purchase_date', before.toISOString());
+  if (error) throw error;
+  return count || 0;
+}
+
+async function promoUsageBefore(admin, row, before) {
+  const { data, error } = await admin.from('promo_redemptions').select('code,payment_reference')
+    .eq('event_id', row.event_id).lt('created_at', before.toISOString());
+  if (error) throw error;
+  return (data || []).filter((r) => r.payment_reference !== row.payment_id).reduce((usage, r) => {
+    const code = normalizePromoCode(r.code);
+    usage[code] = (usage[code] || 0) + 1;
+    return usage;
+  }, {});
+}
+
+/**
+ * The order comes from the buyer's browser, so before issuing tickets check
+ * the processor really took payment for it, and at least what the event
+ * charged for it when the payment was made.
+ */
+async function checkPayment(admin, row, event, order, count, eventStartTime) {
+  const payment = await fulfillmentPaymentStatus(row);
+  if (payment.status !== 'completed') throw unfulfillable('The payment processor has no completed payment for this order');
+  const paid = Number(payment.amount);
+  if (payment.amount == null || !Number.isFinite(paid)) throw new Error('The payment processor did not report the amount paid');
+
+  const fees = event.entry_fees || [];
+  const fee = order.ticketType ? fees.find((f) => f.name === order.ticketType) : fees[0];
+  if (fees.length && !fee) throw unfulfillable(`${order.ticketType} tickets are not sold for this event`);
+  const orderedAt = payment.occurredAt ? new Date(payment.occurredAt) : new Date();
+  const expected = fee ? expectedOrderTotal({
+    fee,
+    quantity: count,
+    tableSize: order.isTableEntry ? order.tableSize : null,
+    promoCodes: await loadPromoCodes(admin, event),
+    promoCode: order.promoCode,
+    promoUsage: await promoUsageBefore(admin, row, orderedAt),
+    soldCount: await soldBefore(admin, event, fee.name, orderedAt),
+    eventStartTime,
+    lateFeePercent: event.late_fee_percent,
+    utcOffsetMinutes: EVENT_UTC_OFFSET_MINUTES,
+    orderedAt,
+  }) : 0;
+
+  const owed = Math.round(Math.max(expected, Number(order.totalAmount) || 0));
+  if (Math.round(paid) < owed) {
+    throw unfulfillable(`Paid UGX ${paid.toLocaleString()} but the order costs UGX ${owed.toLocaleString()}`);
+  }
+}
+
+async function issueQR(eventStartTime) {
+  const qrCode = crypto.randomUUID();
+  const issuedAt = Date.now();
+  const signature = signPayload(`${qrCode}:${issuedAt}`);
+  const url = `https://yovibe.net/t/${qrCode}?s=${signature}&ts=${issuedAt}`;
+  const dataUrl = await QRCode.toDataURL(url, { width: 300, margin: 4, color: { dark: '#000000', light: '#FFFFFF' }, errorCorrectionLevel: 'H' });
+  return { qrCode, qrSignature: signature, qrCodeDataUrl: dataUrl, expiresAt: new Date(eventStartTime.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+// Mirrors TicketService.createSingleTicket for one attendee of a paid order
+async function createTicket(admin, ctx, index) {
+  const { event, row, order, quote, eventStartTime } = ctx;
+  const id = crypto.randomUUID();
+  const fee = (event.entry_fees || []).find((f) => f.name === order.ticketType) || (event.entry_fees || [])[0];
+  const confirmation = row.payment_confirmation || {};
+  const seatNumber = order.seatNumbers?.[index] ?? undefined;
+  const tableNumber = order.tableNumbers?.[index] ?? undefined;
+
+  const ticket = {
+    id,
+    eventId: row.event_id,
+    eventName: event.name,
+    venueName: event.venue_name,
+    buyerId: row.buyer_id || undefined,
+    buyerName: order.buyerNames[index] || order.buyerNames[0] || 'Attendee',
+    buyerEmail: order.payerEmail,
+    buyerPhone: order.buyerPhone || null,
+    deliveryEmail: order.deliveryEmails?.[index] || order.buyerEmails?.[index] || order.payerEmail,
+    ticketRef: deriveTicketRef(id, order.isTableEntry),
+    quantity: 1,
+    totalAmount: quote.total,
+    tableTotalAmount: order.isTableEntry ? order.totalAmount : undefined,
+    tableGroupId: ctx.tableGroupId,
+    tableSize: order.isTableEntry ? order.tableSize : null,
+    seatNumber: tableNumber != null ? undefined : seatNumber,
+    tableNumber: tableNumber ?? null,
+    basePrice: quote.subtotal - quote.discount,
+    lateFee: quote.lateFee,
+    venueRevenue: quote.organiserNet,
+    appCommission: quote.commission,
+    gatewayFee: quote.gatewayFee,
+    purchaseDate: new Date().toISOString(),
+    eventStartTime: eventStartTime.toISOString(),
+    purchaseDeadline: new Date(eventStartTime.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+    ...(await issueQR(eventStartTime)),
+    qrSecret: fee?.rotatingQR ? crypto.randomBytes(32).toString('hex') : undefined,
+    buyerPhotoUrl: order.buyerPhotoUrl || '',
+    photoUploadToken: crypto.randomUUID(),
+    photoUploadTokenExpiresAt: eventStartTime.toISOString(),
+    status: 'active',
+    validationHistory: [],
+    entryFeeType: order.ticketType || fee?.name || 'Standard',
+    isLatePurchase: quote.isLatePurchase,
+    isScanned: false,
+    payoutEligible: false,
+    payoutStatus: 'pending',
+    paymentId: row.payment_id,
+    paymentStatus: 'completed',
+    paymentReference: row.payment_id,
+    paymentMethod: order.paymentMethod,
+    paymentProvider: order.paymentProvider,
+    paymentNumber: order.paymentNumber,
+    paymentName: order.paymentName || '',
+    pesapalTransactionId: order.paymentMethod !== 'mobile_money' ? confirmation.transactionId || row.payment_id : undefined,
+    pesapalConfirmationCode: confirmation.confirmationCode || undefined,
+    promoCode: order.promoCode,
+    discountAmount: order.discountAmount ? order.discountAmount / order.buyerNames.length : undefined,
+    pricePhase: order.pricePhase,
+    event_slug: event.slug || event.id,
+  };
+  ticket.expiresAt = ticket.expiresAt.toISOString();
+
+  const { error } = await admin.from('tickets_api').insert(ticket);
+  if (error) throw error;
+
+  try {
+    await admin.from('notifications').insert({
+      user_id: event.created_by, title: '🎫 New Ticket Purchased',
+      body: `${ticket.buyerName} purchased a ticket for ${event.name}`, type: 'ticket_purchase',
+      data: { eventId: row.event_id, ticketId: id, buyerName: ticket.buyerName }, deep_link: `/events/${event.slug}`,
+      is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('ticket purchase notification error', id, e); }
+  return ticket;
+}
+
+async function recordPromoRedemption(admin, row, order, count) {
+  if (!order.promoCode) return;
+  const { data: existing } = await admin.from('promo_redemptions').select('id')
+    .eq('payment_reference', row.payment_id).limit(1);
+  if (existing?.length) return;
+  const { error } = await admin.from('promo_redemptions').insert({
+    event_id: row.event_id, code: normalizePromoCode(order.promoCode), ticket_type: order.ticketType,
+    quantity: count, discount_amount: order.discountAmount || 0, order_total: order.totalAmount,
+    buyer_email: order.payerEmail, payment_reference: row.payment_id, created_at: new Date().toISOString(),
+  });
+  if (error) console.error('promo redemption error', row.payment_id, error);
+}
+
+async function sendTicketEmail(event, order, ticket) {
+  const startsAt = new Date(ticket.eventStartTime);
+  const photoUploadLink = ticket.photoUploadToken && (!ticket.buyerPhotoUrl || ticket.deliveryEmail !== order.payerEmail)
+    ? `${SITE_URL}/add-photo?ticket=${ticket.id}&token=${ticket.photoUploadToken}`
+    : undefined;
+  const response = await fetch(`${SITE_URL}/.netlify/functions/send-ticket-email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      buyerEmail: ticket.deliveryEmail || ticket.buyerEmail,
+      buyerName: ticket.buyerName,
+      eventName: ticket.eventName,
+      ticketType: ticket.entryFeeType,
+      venue: ticket.venueName,
+      date: startsAt.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: TIME_ZONE }),
+      time: startsAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone: TIME_ZONE }),
+      ticketRef: ticket.ticketRef,
+      qrCodeDataUrl: ticket.qrCodeDataUrl,
+      seatNumber: ticket.tableNumber ? undefined : ticket.seatNumber,
+      tableNumber: ticket.tableNumber,
+      tableGroupId: ticket.tableGroupId,
+      photoUploadLink,
+      ticketDesign: (event.entry_fees || []).find((f) => f.name === ticket.entryFeeType)?.ticketDesign,
+      posterUrl: event.poster_image_url,
+    }),
+  });
+  if (!response.ok) throw new Error(`Email for ${ticket.ticketRef} failed: ${response.status} ${await response.text()}`);
+}
+
+async function fulfil(admin, row, progress) {
+  const order = row.order;
+  if (!order?.buyerNames?.length) throw new Error('No order details were recorded for this purchase');
+  const event = await loadEvent(admin, row.event_id);
+  const count = order.buyerNames.length;
+  const eventStartTime = resolveEventStartTime(event, EVENT_UTC_OFFSET_MINUTES);
+  const quote = quoteFromTotal(order.totalAmount / count, {
+    eventStartTime,
+    lateFeePercent: event.late_fee_percent,
+    utcOffsetMinutes: EVENT_UTC_OFFSET_MINUTES,
+    discount: order.discountAmount ? order.discountAmount / count : undefined,
+    paymentMethod: order.paymentMethod,
+    commissionRate: await commissionRateFor(admin, event.created_by),
+  });
+  // Stable across retries so a table's tickets stay grouped
+  const tableGroupId = order.isTableEntry
+    ? `YVG-${String(row.event_id).slice(-6)}-${crypto.createHash('sha1').update(row.payment_id).digest('hex').slice(0, 6).toUpperCase()}`
+    : undefined;
+  const ctx = { event, row, order, quote, eventStartTime, tableGroupId };
+
+  const tickets = await existingTickets(admin, row.payment_id);
+  if (tickets.length < count) await checkPayment(admin, row, event, order, count, eventStartTime);
+  for (let i = tickets.length; i < count; i++) {
+    tickets.push(await createTicket(admin, ctx, i));
+    progress.ticketsCreated++;
+    await admin.from(TABLE).update({ ticket_ids: tickets.map((t) => t.id), updated_at: new Date().toISOString() }).eq('id', row.id);
+  }
+  await admin.from(TABLE).update({ ticket_ids: tickets.map((t) => t.id) }).eq('id', row.id);
+  await recordPromoRedemption(admin, row, order, count);
+
+  const emailed = [...(row.emailed_ticket_ids || [])];
+  const errors = [];
+  for (const ticket of tickets) {
+    if (emailed.includes(ticket.id)) continue;
+    try {
+      await sendTicketEmail(event, order, ticket);
+      emailed.push(ticket.id);
+      progress.emailsSent++;
+      await admin.from(TABLE).update({ emailed_ticket_ids: emailed, updated_at: new Date().toISOString() }).eq('id', row.id);
+    } catch (e) { errors.push(e.message || String(e)); }
+  }
+  if (errors.length) throw new Error(`Email send failed for ${errors.length}/${tickets.length} tickets: ${errors.join('; ')}`);
+  return tickets;
+}
+
+async function logAttempt(admin, row, trigger, outcome, progress, startedAt, error) {
+  try {
+    await admin.from('ticket_fulfillment_attempts').insert({
+      fulfillment_id: row.id, attempt: row.attempt_count, trigger: trigger || 'unknown', outcome,
+      tickets_created: progress.ticketsCreated, emails_sent: progress.emailsSent, error: error || null,
+      started_at: startedAt.toISOString(), finished_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('fulfillment attempt log error', row.id, e); }
+}
+
+/** Run one attempt at a due fulfillment. Returns the outcome, or null if it was not ours to run. */
+async function processFulfillment(admin, row, trigger) {
+  const due = isFulfillmentDue({ status: row.status, nextAttemptAt: row.next_attempt_at, updatedAt: row.updated_at });
+  if (!due) return null;
+  const claimed = await claim(admin, row);
+  if (!claimed) return null;
+
+  const startedAt = new Date();
+  const progress = { ticketsCreated: 0, emailsSent: 0 };
+  try {
+    const tickets = await fulfil(admin, claimed, progress);
+    // ledger-sync posts the sales if this fails
+    try { await postTicketSales(admin, tickets); } catch (e) { console.error('ledger sale post error', claimed.id, e); }
+    await admin.from(TABLE).update({ status: 'fulfilled', last_error: null, updated_at: new Date().toISOString() }).eq('id', claimed.id);
+    await logAttempt(admin, claimed, trigger, 'fulfilled', progress, startedAt);
+    return 'fulfilled';
+  } catch (e) {
+    const message = e.message || String(e);
+    const step = e.deadLetter ? { status: 'dead_letter', nextAttemptAt: null } : nextFulfillmentStep(claimed.attempt_count);
+    console.error(`fulfillment ${claimed.id} attempt ${claimed.attempt_count} failed (${step.status})`, message);
+    await admin.from(TABLE).update({
+      status: step.status, last_error: message,
+      next_attempt_at: step.nextAttemptAt ? step.nextAttemptAt.toISOString() : null,
+      updated_at: new Date().toISOString(),
+    }).eq('id', claimed.id);
+    const outcome = step.status === 'dead_letter' ? 'dead_letter' : 'retry';
+    await logAttempt(admin, claimed, trigger, outcome, progress, startedAt, message);
+    return outcome;
+  }
+}
+
+module.exports = { findByPaymentId, startFulfillment, confirmPayment, failPayment, processFulfillment };
@@ -0,0 +1,302 @@
+const { loadEvent } = require('./doorAccess');
+const {
+  isBalanced, money, ticketSaleEntry, installmentPaymentEntry, refundEntry, payoutEntry, walletBalance,
+  revenueShareEntry, revenueShareRefundEntry, resaleSaleEntry,
+} = require('../../src/utils/ledger');
+const { splitTicketRevenue } = require('../../src/utils/revenueShares');
+
+// Posting to the append-only ledger (ledger_entries). Entries are keyed by the
+// row they come from, so posting the same sale, refund or payout twice is a
+// no-op; ledger-sync relies on that to pick up anything a hook missed.
+// organizer_wallets is only a cache of walletBalance over an organiser's entries.
+// Revenue-share entries belong to the beneficiary but also move the creator's
+// balance, so an organiser's entries include those they are the counterparty on.
+
+const TABLE = 'ledger_entries';
+const PAGE = 1000;
+
+function eventCache(admin) {
+  const events = new Map();
+  return async (ref) => {
+    if (!ref) return null;
+    if (!events.has(ref)) events.set(ref, loadEvent(admin, ref).catch(() => null));
+    return events.get(ref);
+  };
+}
+
+async function existingKeys(admin, keys) {
+  const found = new Set();
+  for (let i = 0; i < keys.length; i += 200) {
+    const { data, error } = await admin.from(TABLE).select('idempotency_key').in('idempotency_key', keys.slice(i, i + 200));
+    if (error) throw error;
+    (data || []).forEach((r) => found.add(r.idempotency_key));
+  }
+  return found;
+}
+
+/** Insert whichever of the entries are not posted yet; returns how many were */
+async function postEntries(admin, entries) {
+  const valid = entries.filter((e) => {
+    if (isBalanced(e) && e.lines.length) return true;
+    console.error('ledger: refusing unbalanced entry', e.idempotency_key, e.lines);
+    return false;
+  });
+  if (!valid.length) return 0;
+  const posted = await existingKeys(admin, valid.map((e) => e.idempotency_key));
+  const fresh = valid.filter((e) => !posted.has(e.idempotency_key));
+  let count = 0;
+  for (let i = 0; i < fresh.length; i += 200) {
+    const batch = fresh.slice(i, i + 200).map((e) => ({ ...e, created_at: new Date().toISOString() }));
+    const { error } = await admin.from(TABLE).insert(batch);
+    if (error && error.code === '23505') {
+      // Raced with another poster; fall back to one at a time
+      for (const row of batch) {
+        const { error: rowError } = await admin.from(TABLE).insert(row);
+        if (!rowError) count++;
+        else if (rowError.code !== '23505') throw rowError;
+      }
+    } else if (error) {
+      throw error;
+    } else {
+      count += batch.length;
+    }
+  }
+  await Promise.all([...new Set(fresh.flatMap((e) => [e.organizer_id, e.counterparty_id]).filter(Boolean))].map((id) => refreshWallet(admin, id)));
+  return count;
+}
+
+async function loadEntries(admin, organizerId) {
+  const entries = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin.from(TABLE).select('*').or(`organizer_id.eq.${organizerId},counterparty_id.eq.${organizerId}`)
+      .order('occurred_at', { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw error;
+    entries.push(...(data || []));
+    if (!data || data.length < PAGE) return entries;
+  }
+}
+
+async function refreshWallet(admin, organizerId) {
+  const wallet = walletBalance(await loadEntries(admin, organizerId), organizerId);
+  const { error } = await admin.from('organizer_wallets').upsert({
+    organizer_id: organizerId,
+    available_balance: wallet.availableBalance,
+    pending_balance: wallet.pendingBalance,
+    total_earnings: wallet.totalEarnings,
+    total_payouts: wallet.totalPayouts,
+    last_payout_date: wallet.lastPayoutDate || null,
+    last_updated: new Date().toISOString(),
+  }, { onConflict: 'organizer_id' });
+  if (error) console.error('ledger: wallet refresh failed', organizerId, error);
+  return wallet;
+}
+
+// Rows come from both the tickets table and tickets_api, so accept either casing
+function saleEntryFor(ticket, event) {
+  const total = Number(ticket.total_amount ?? ticket.totalAmount ?? 0);
+  if (!event?.created_by || total <= 0) return null;
+  const reference = ticket.payment_reference ?? ticket.paymentReference;
+  return ticketSaleEntry({
+    ticketId: ticket.id,
+    organizerId: event.created_by,
+    eventId: event.slug || event.id,
+    totalAmount: total,
+    venueRevenue: Number(ticket.venue_revenue ?? ticket.venueRevenue ?? 0),
+    gatewayFee: Number(ticket.gateway_fee ?? ticket.gatewayFee ?? 0),
+    paymentMethod: ticket.payment_method ?? ticket.paymentMethod,
+    paymentReference: reference,
+    purchasedAt: new Date(ticket.purchase_date ?? ticket.purchaseDate ?? Date.now()).toISOString(),
+    eventStartTime: ticket.event_start_time ?? ticket.eventStartTime ?? null,
+    label: `${ticket.entry_fee_type ?? ticket.entryFeeType ?? 'Ticket'} · ${ticket.event_name ?? ticket.eventName ?? event.name}`,
+  });
+}
+
+// Beneficiaries' cuts under the event's revenue-share rules at the time of posting
+function shareEntriesFor(sale, ticket, event) {
+  if (!sale || !event?.revenue_shares?.length) return [];
+  return splitTicketRevenue({
+    venueRevenue: Number(ticket.venue_revenue ?? ticket.venueRevenue ?? 0),
+    entryFeeType: ticket.entry_fee_type ?? ticket.entryFeeType,
+  }, event.revenue_shares, event.created_by)
+    .filter((share) => share.beneficiaryId !== event.created_by)
+    .map((share) => revenueShareEntry({
+      ticketId: ticket.id, ownerId: event.created_by, beneficiaryId: share.beneficiaryId, eventId: sale.event_id,
+      amount: share.amount, occurredAt: sale.occurred_at, availableAt: sale.available_at, label: `${share.role.replace(/_/g, ' ')} share · ${sale.memo}`,
+    }));
+}
+
+async function postTicketSales(admin, tickets, events = eventCache(admin)) {
+  const entries = [];
+  for (const ticket of tickets) {
+    const event = await events(ticket.event_slug ?? ticket.event_id ?? ticket.eventId);
+    const entry = saleEntryFor(ticket, event);
+    if (entry) entries.push(entry, ...shareEntriesFor(entry, ticket, event));
+  }
+  return postEntries(admin, entries);
+}
+
+async function installmentEntriesFor(plan, events) {
+  const event = await events(plan.event_id);
+  return (plan.installments || [])
+    .filter((i) => i.status === 'paid' && i.paidAt)
+    .map((i) => installmentPaymentEntry({
+      planId: plan.id, index: i.index, organizerId: event?.created_by, eventId: plan.event_id,
+      amount: Number(i.amount || 0), serviceFee: Number(i.serviceFee || 0), paymentMethod: i.paymentMethod,
+      paidAt: new Date(i.paidAt).toISOString(), label: `Installment ${i.index + 1} · ${plan.event_name || ''}`,
+    }));
+}
+
+async function refundEntryFor(admin, refund, events) {
+  if (refund.status !== 'completed') return null;
+  const ticketIds = refund.ticket_ids?.length ? refund.ticket_ids : [refund.ticket_id].filter(Boolean);
+  let tickets = [];
+  if (ticketIds.length) {
+    const { data, error } = await admin.from('tickets').select('id,venue_revenue,event_slug,event_id').in('id', ticketIds);
+    if (error) throw error;
+    tickets = data || [];
+  }
+  const event = await events(tickets[0]?.event_slug || refund.event_id);
+  return refundEntry({
+    refundId: refund.id,
+    organizerId: event?.created_by,
+    eventId: refund.event_id,
+    amount: Number(refund.refunded_amount || refund.approved_amount || 0),
+    organizerShare: tickets.reduce((sum, t) => sum + Number(t.venue_revenue || 0), 0),
+    provider: refund.payment_provider === 'pawapay' ? 'pawapay' : 'pesapal',
+    ticketIds: tickets.map((t) => t.id),
+    fromInstallments: !!refund.installment_plan_id && !tickets.length,
+    chargeback: refund.reason_code === 'chargeback',
+    completedAt: new Date(refund.completed_at || refund.updated_at || Date.now()).toISOString(),
+    label: `${refund.reason_code === 'chargeback' ? 'Chargeback' : 'Refund'} ${refund.request_reference}`,
+  });
+}
+
+// Take back what beneficiaries were given for the refunded tickets
+async function shareRefundEntriesFor(admin, refund, entry) {
+  if (!entry?.ticket_ids?.length) return [];
+  const { data: shares, error } = await admin.from(TABLE).select('*').eq('entry_type', 'revenue_share').in('source_id', entry.ticket_ids);
+  if (error) throw error;
+  return (shares || []).map((share) => revenueShareRefundEntry(share, {
+    refundId: refund.id, chargeback: entry.entry_type === 'chargeback', completedAt: entry.occurred_at,
+  }));
+}
+
+async function postRefund(admin, refund) {
+  const entry = await refundEntryFor(admin, refund, eventCache(admin));
+  return entry ? postEntries(admin, [entry, ...await shareRefundEntriesFor(admin, refund, entry)]) : 0;
+}
+
+function isResalePayout(payout) {
+  const metadata = typeof payout.metadata === 'string' ? JSON.parse(payout.metadata || '{}') : (payout.metadata || {});
+  return metadata.kind === 'resale';
+}
+
+function payoutEntryFor(payout) {
+  if (payout.status !== 'completed' || !payout.organizer_id) return null;
+  return payoutEntry({
+    payoutId: payout.id, organizerId: payout.organizer_id, amount: Number(payout.amount || 0),
+    method: payout.payout_method, processedAt: new Date(payout.processed_date || payout.request_date || Date.now()).toISOString(),
+    reference: payout.transaction_reference, resale: isResalePayout(payout),
+  });
+}
+
+// A resale payment that bought a listing (ticket_resale_payments)
+function resaleSaleEntryFor(payment) {
+  if (payment.status !== 'used') return null;
+  return resaleSaleEntry({
+    paymentId: payment.id, amount: Number(payment.amount || 0), provider: payment.provider === 'pawapay' ? 'pawapay' : 'pesapal',
+    paidAt: new Date(payment.confirmed_at || payment.created_at || Date.now()).toISOString(),
+    label: `Resale payment ${payment.reference}`,
+  });
+}
+
+async function postResaleSale(admin, payment) {
+  const entry = resaleSaleEntryFor(payment);
+  return entry ? postEntries(admin, [entry]) : 0;
+}
+
+async function postPayout(admin, payout) {
+  const entry = payoutEntryFor(payout);
+  return entry ? postEntries(admin, [entry]) : 0;
+}
+
+/**
+ * Post everything since `since` that is not on the ledger yet: paid tickets,
+ * installment payments, completed refunds, completed payouts and resale payments.
+ */
+async function syncLedger(admin, since) {
+  const events = eventCache(admin);
+  const counts = { sales: 0, installments: 0, refunds: 0, payouts: 0, resales: 0 };
+
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin.from('tickets').select('*').eq('payment_status', 'completed')
+      .gte('purchase_date', since).order('purchase_date', { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw error;
+    counts.sales += await postTicketSales(admin, data || [], events);
+    if (!data || data.length < PAGE) break;
+  }
+
+  const { data: plans, error: plansError } = await admin.from('ticket_installment_plans').select('*').gte('updated_at', since);
+  if (plansError) throw plansError;
+  const installmentEntries = [];
+  for (const plan of plans || []) installmentEntries.push(...await installmentEntriesFor(plan, events));
+  counts.installments = await postEntries(admin, installmentEntries);
+
+  const { data: refunds, error: refundsError } = await admin.from('refund_requests').select('*')
+    .eq('status', 'completed').gte('updated_at', since);
+  if (refundsError) throw refundsError;
+  const refundEntries = [];
+  for (const refund of refunds || []) {
+    const entry = await refundEntryFor(admin, refund, events);
+    if (entry) refundEntries.push(entry, ...await shareRefundEntriesFor(admin, refund, entry));
+  }
+  counts.refunds = await postEntries(admin, refundEntries);
+
+  const { data: payouts, error: payoutsError } = await admin.from('payouts').select('*')
+    .eq('status', 'completed').gte('request_date', since);
+  if (payoutsError) throw payoutsError;
+  counts.payouts = await postEntries(admin, (payouts || []).map(payoutEntryFor).filter(Boolean));
+
+  const { data: resales, error: resalesError } = await admin.from('ticket_resale_payments').select('*')
+    .eq('status', 'used').gte('confirmed_at', since);
+  if (resalesError) throw resalesError;
+  counts.resales = await postEntries(admin, (resales || []).map(resaleSaleEntryFor).filter(Boolean));
+
+  return counts;
+}
+
+/** Inputs for checkLedgerInvariants covering one organiser */
+async function invariantInputs(admin, organizerId) {
+  const { data: events, error: eventsError } = await admin.from('events').select('id,slug').eq('created_by', organizerId);
+  if (eventsError) throw eventsError;
+  const slugs = (events || []).map((e) => e.slug || e.id);
+
+  const tickets = [];
+  for (let i = 0; i < slugs.length; i += 50) {
+    for (let from = 0; ; from += PAGE) {
+      const { data, error } = await admin.from('tickets').select('id,total_amount,venue_revenue,status,refund_status')
+        .in('event_slug', slugs.slice(i, i + 50)).eq('payment_status', 'completed').range(from, from + PAGE - 1);
+      if (error) throw error;
+      tickets.push(...(data || []));
+      if (!data || data.length < PAGE) break;
+    }
+  }
+  const { data: payouts, error: payoutsError } = await admin.from('payouts').select('id,amount,status,metadata').eq('organizer_id', organizerId);
+  if (payoutsError) throw payoutsError;
+  const { data: wallet } = await admin.from('organizer_wallets').select('*').eq('organizer_id', organizerId).maybeSingle();
+
+  return {
+    entries: await loadEntries(admin, organizerId),
+    tickets: tickets.map((t) => ({
+      id: t.id, organizerId, totalAmount: money(t.total_amount), venueRevenue: money(t.venue_revenue),
+      refunded: t.status === 'refunded' || t.refund_status === 'completed',
+    })),
+    // Resale payouts come out of resale_payable, not the organiser's wallet
+    payouts: (payouts || []).filter((p) => !isResalePayout(p)).map((p) => ({ id: p.id, organizerId, amount: Number(p.amount || 0), status: p.status })),
+    wallets: wallet ? [{ organizerId, availableBalance: Number(wallet.available_balance || 0), pendingBalance: Number(wallet.pending_balance || 0) }] : [],
+  };
+}
+
+module.exports = {
+  postEntries, loadEntries, refreshWallet, postTicketSales, postRefund, postPayout, postResaleSale, syncLedger, invariantInputs,
+};
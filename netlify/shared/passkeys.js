@@ -0,0 +1,230 @@
+const crypto = require('crypto');
+const { status: twoFactorStatus } = require('./twoFactor');
+const {
+  COSE_ES256, COSE_RS256, base64UrlDecode, base64UrlEncode, checkClientData, coseKeyToJwk, decodeCbor,
+  parseAuthenticatorData, sameBytes, signCountIsValid,
+} = require('../../src/utils/webauthn');
+
+// WebAuthn passkeys: registration and assertion checks, plus the short-lived
+// step-up grants a verified assertion turns into, each good for one
+// sensitive action. A passwordless sign-in replaces the password only; it
+// does not count as the TOTP second factor.
+
+const CREDENTIALS_TABLE = 'webauthn_credentials';
+const CHALLENGES_TABLE = 'webauthn_challenges';
+const GRANTS_TABLE = 'webauthn_grants';
+
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+const RP_ID = process.env.WEBAUTHN_RP_ID || new URL(SITE_URL).hostname;
+const RP_NAME = 'YoVibe';
+// Extra origins (deploy previews, local dev) as a comma-separated list
+const ORIGINS = [SITE_URL, ...(process.env.WEBAUTHN_ORIGINS || '').split(',').map((o) => o.trim()).filter(Boolean)];
+
+const CHALLENGE_TTL_SECONDS = 300;
+const GRANT_TTL_SECONDS = 300;
+const TIMEOUT_MS = 60000;
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest();
+const hashToken = (token) => sha256(String(token || '')).toString('hex');
+
+function passkeyError(message, statusCode = 422) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+// The wire-format helpers throw plain errors; those are the client's fault, not ours
+function fromClient(parse) {
+  try {
+    return parse();
+  } catch (error) {
+    throw error.statusCode ? error : passkeyError(error.message || 'Passkey response is malformed');
+  }
+}
+
+function passkeyFromRow(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at || null,
+    transports: row.transports || [],
+  };
+}
+
+async function listCredentials(admin, userId) {
+  const { data, error } = await admin.from(CREDENTIALS_TABLE).select('*').eq('user_id', userId).order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+async function createChallenge(admin, userId, purpose) {
+  const challenge = base64UrlEncode(crypto.randomBytes(32));
+  const { data, error } = await admin.from(CHALLENGES_TABLE).insert({
+    user_id: userId, purpose, challenge, used: false,
+    expires_at: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+  }).select('id').single();
+  if (error) throw error;
+  return { challengeId: data.id, challenge };
+}
+
+/** Claim a challenge exactly once; it must be for this purpose and, when given, this user */
+async function takeChallenge(admin, challengeId, purpose, userId) {
+  const { data: claimed } = await admin.from(CHALLENGES_TABLE).update({ used: true })
+    .eq('id', challengeId).eq('purpose', purpose).eq('used', false).select('*');
+  const row = claimed?.[0];
+  if (!row || new Date(row.expires_at) < new Date() || (userId && row.user_id !== userId)) {
+    throw passkeyError('This passkey request has expired. Please try again.');
+  }
+  return row;
+}
+
+const credentialDescriptor = (row) => ({ type: 'public-key', id: row.credential_id, transports: row.transports || undefined });
+
+function registrationOptions(user, existing, challenge) {
+  return {
+    challenge,
+    rp: { id: RP_ID, name: RP_NAME },
+    user: { id: base64UrlEncode(Buffer.from(user.id)), name: user.email || user.id, displayName: user.name || user.email || 'YoVibe user' },
+    pubKeyCredParams: [{ type: 'public-key', alg: COSE_ES256 }, { type: 'public-key', alg: COSE_RS256 }],
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    excludeCredentials: existing.map(credentialDescriptor),
+    attestation: 'none',
+    timeout: TIMEOUT_MS,
+  };
+}
+
+function assertionOptions(challenge, credentials) {
+  return {
+    challenge,
+    rpId: RP_ID,
+    // Empty for passwordless sign-in, so the browser offers every passkey saved for the site
+    allowCredentials: (credentials || []).map(credentialDescriptor),
+    userVerification: 'required',
+    timeout: TIMEOUT_MS,
+  };
+}
+
+function checkAuthenticator(authData) {
+  if (!sameBytes(authData.rpIdHash, sha256(RP_ID))) throw passkeyError('This passkey belongs to a different site');
+  // User verification (fingerprint, face or device PIN) is what makes a passkey a second factor
+  if (!authData.userPresent || !authData.userVerified) throw passkeyError('Your device did not verify it was you');
+}
+
+/**
+ * Check a navigator.credentials.create() response against its challenge and
+ * store the new credential. We ask for no attestation, so only the
+ * credential and its public key are taken from the attestation object.
+ */
+async function verifyRegistration(admin, userId, challengeRow, credential, name) {
+  const response = credential?.response || {};
+  if (!credential?.id || !response.clientDataJSON || !response.attestationObject) throw passkeyError('Passkey response is incomplete');
+  const { authData, jwk, alg } = fromClient(() => {
+    checkClientData(base64UrlDecode(response.clientDataJSON), { type: 'webauthn.create', challenge: challengeRow.challenge, origins: ORIGINS });
+    const attestation = decodeCbor(base64UrlDecode(response.attestationObject));
+    if (!(attestation?.authData instanceof Uint8Array)) throw passkeyError('Passkey attestation is malformed');
+    const parsed = parseAuthenticatorData(attestation.authData);
+    checkAuthenticator(parsed);
+    if (!parsed.credentialId || !parsed.credentialPublicKey) throw passkeyError('Passkey did not include a credential');
+    const key = coseKeyToJwk(parsed.credentialPublicKey);
+    crypto.createPublicKey({ key: key.jwk, format: 'jwk' });
+    return { authData: parsed, ...key };
+  });
+
+  const credentialId = base64UrlEncode(authData.credentialId);
+  if (credentialId !== credential.id) throw passkeyError('Passkey id does not match');
+
+  const { data, error } = await admin.from(CREDENTIALS_TABLE).insert({
+    user_id: userId,
+    credential_id: credentialId,
+    public_key_jwk: jwk,
+    algorithm: alg,
+    sign_count: authData.signCount,
+    transports: Array.isArray(response.transports) ? response.transports : [],
+    name: String(name || '').trim().slice(0, 60) || 'Passkey',
+    created_at: new Date().toISOString(),
+  }).select('*').single();
+  if (error) {
+    if (error.code === '23505') throw passkeyError('This passkey is already registered', 409);
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Check a navigator.credentials.get() response: client data, relying party,
+ * user verification, signature and counter. Returns the stored credential,
+ * whose owner is the authenticated user.
+ */
+async function verifyAssertion(admin, challengeRow, credential, userId) {
+  const response = credential?.response || {};
+  if (!credential?.id || !response.clientDataJSON || !response.authenticatorData || !response.signature) throw passkeyError('Passkey response is incomplete');
+  const { data: stored, error } = await admin.from(CREDENTIALS_TABLE).select('*').eq('credential_id', credential.id).maybeSingle();
+  if (error) throw error;
+  if (!stored || (userId && stored.user_id !== userId)) throw passkeyError('This passkey is not registered to your account', 401);
+
+  const { clientDataJSON, authDataBytes, authData, signature } = fromClient(() => {
+    const clientData = base64UrlDecode(response.clientDataJSON);
+    checkClientData(clientData, { type: 'webauthn.get', challenge: challengeRow.challenge, origins: ORIGINS });
+    const bytes = base64UrlDecode(response.authenticatorData);
+    const parsed = parseAuthenticatorData(bytes);
+    checkAuthenticator(parsed);
+    return { clientDataJSON: clientData, authDataBytes: bytes, authData: parsed, signature: Buffer.from(base64UrlDecode(response.signature)) };
+  });
+
+  const key = crypto.createPublicKey({ key: stored.public_key_jwk, format: 'jwk' });
+  const signed = Buffer.concat([Buffer.from(authDataBytes), sha256(clientDataJSON)]);
+  if (!crypto.verify('sha256', signed, key, signature)) throw passkeyError('Passkey signature is invalid', 401);
+  if (!signCountIsValid(Number(stored.sign_count || 0), authData.signCount)) {
+    console.error('passkey counter did not advance; possible cloned credential', stored.id);
+    throw passkeyError('This passkey could not be trusted. Remove it and register it again.', 401);
+  }
+
+  await admin.from(CREDENTIALS_TABLE).update({ sign_count: authData.signCount, last_used_at: new Date().toISOString() }).eq('id', stored.id);
+  return stored;
+}
+
+async function issueGrant(admin, userId, purpose) {
+  const token = base64UrlEncode(crypto.randomBytes(32));
+  const { error } = await admin.from(GRANTS_TABLE).insert({
+    token_hash: hashToken(token), user_id: userId, purpose, used: false,
+    expires_at: new Date(Date.now() + GRANT_TTL_SECONDS * 1000).toISOString(),
+  });
+  if (error) throw error;
+  return token;
+}
+
+async function consumeGrant(admin, userId, purpose, token) {
+  const { data: claimed } = await admin.from(GRANTS_TABLE).update({ used: true })
+    .eq('token_hash', hashToken(token)).eq('user_id', userId).eq('purpose', purpose).eq('used', false).select('*');
+  const grant = claimed?.[0];
+  if (!grant || new Date(grant.expires_at) < new Date()) throw passkeyError('Passkey confirmation has expired. Please confirm again.', 403);
+}
+
+/**
+ * Guard for sensitive actions: anyone who has registered a passkey must
+ * confirm the action with it. Accounts without passkeys are unaffected.
+ */
+async function requireStepUp(admin, authUser, token, purpose) {
+  if (token) return consumeGrant(admin, authUser.id, purpose, token);
+  const { data } = await admin.from(CREDENTIALS_TABLE).select('id').eq('user_id', authUser.id).limit(1);
+  if (data?.length) throw passkeyError('Confirm this with your passkey', 403);
+}
+
+/**
+ * Guard for adding or removing a passkey. Otherwise a stolen password could
+ * enrol the thief's own passkey, or delete the owner's ones and with them
+ * every step-up check. A step-up grant from an existing passkey, or a session
+ * that passed the authenticator code, is enough; an account with neither
+ * factor can add its first passkey with the password alone.
+ */
+async function requirePasskeyChange(admin, event, authUser, token) {
+  if (token) return consumeGrant(admin, authUser.id, 'manage_passkeys', token);
+  const { data } = await admin.from(CREDENTIALS_TABLE).select('id').eq('user_id', authUser.id).limit(1);
+  if (data?.length) throw passkeyError('Confirm this with one of your passkeys', 403);
+  const factor = await twoFactorStatus(admin, event, authUser.id);
+  if (factor.enabled && !factor.sessionVerified) throw passkeyError('Verify this sign-in with your authenticator code first', 403);
+}
+
+module.exports = {
+  passkeyFromRow, listCredentials, createChallenge, takeChallenge, registrationOptions, assertionOptions,
+  verifyRegistration, verifyAssertion, issueGrant, consumeGrant, requireStepUp, requirePasskeyChange,
+};
@@ -0,0 +1,70 @@
+const { getPesapalToken } = require('./pesapalAuth');
+
+// Server-side payment lookups for jobs that cannot wait on the buyer's browser.
+
+const PAWAPAY_BASE_URL = process.env.PAWAPAY_API_URL || 'https://api.pawapay.io/v2';
+const PESAPAL_API_URL = process.env.PESAPAL_API_URL || 'https://pay.pesapal.com/v3/api';
+// PesaPal reports unpaid orders as 0 (INVALID), so only 2 (FAILED) ends the wait
+const PESAPAL_STATUS_CODES = { 1: 'completed', 2: 'failed' };
+
+async function pawapayLookup(collection, id) {
+  if (!process.env.PAWAPAY_API_KEY) throw new Error('PAWAPAY_API_KEY is not configured');
+  const response = await fetch(`${PAWAPAY_BASE_URL}/${collection}/${encodeURIComponent(id)}`, {
+    headers: { Authorization: `Bearer ${process.env.PAWAPAY_API_KEY}` },
+  });
+  if (response.status === 404) return { status: 'pending', found: false };
+  if (!response.ok) throw new Error(`PawaPay ${collection} lookup failed: ${response.status}`);
+  const record = (await response.json()).data;
+  return {
+    status: record?.status === 'COMPLETED' ? 'completed' : record?.status === 'FAILED' ? 'failed' : 'pending',
+    found: true,
+    amount: record?.amount != null ? Number(record.amount) : undefined,
+    currency: record?.currency,
+    occurredAt: record?.created,
+    transactionId: record?.providerTransactionId,
+    failureMessage: record?.failureReason?.failureMessage,
+  };
+}
+
+const pawapayDepositStatus = (depositId) => pawapayLookup('deposits', depositId);
+const pawapayPayoutStatus = (payoutId) => pawapayLookup('payouts', payoutId);
+const pawapayRefundStatus = (refundId) => pawapayLookup('refunds', refundId);
+
+async function pesapalOrderStatus(orderTrackingId) {
+  const token = await getPesapalToken();
+  const response = await fetch(
+    `${PESAPAL_API_URL}/Transactions/GetTransactionStatus?orderTrackingId=${encodeURIComponent(orderTrackingId)}`,
+    { headers: { Accept: 'application/json', Authorization: `Bearer ${token}` } },
+  );
+  if (!response.ok) throw new Error(`PesaPal status lookup failed: ${response.status}`);
+  const data = await response.json();
+  const code = data.status_code != null ? Number(data.status_code) : -1;
+  return {
+    status: PESAPAL_STATUS_CODES[code] || 'pending',
+    amount: data.amount != null ? Number(data.amount) : undefined,
+    currency: data.currency,
+    occurredAt: data.created_date,
+    merchantReference: data.merchant_reference,
+    confirmationCode: data.confirmation_code || undefined,
+    transactionId: data.confirmation_code || data.merchant_reference || orderTrackingId,
+  };
+}
+
+/**
+ * The processor's record of a pending fulfillment's payment. The payment id
+ * is the PawaPay deposit id or the PesaPal merchant reference, and lookups
+ * are tied to it so an order cannot borrow another order's payment.
+ */
+async function fulfillmentPaymentStatus(row) {
+  if (row.pawapay_deposit_id) return pawapayDepositStatus(row.payment_id);
+  if (row.pesapal_tracking_id) {
+    const payment = await pesapalOrderStatus(row.pesapal_tracking_id);
+    if (payment.merchantReference !== row.payment_id) {
+      return { status: 'failed', failureMessage: 'The PesaPal order belongs to a different payment' };
+    }
+    return payment;
+  }
+  return { status: 'pending' };
+}
+
+module.exports = { pawapayDepositStatus, pawapayPayoutStatus, pawapayRefundStatus, pesapalOrderStatus, fulfillmentPaymentStatus };
@@ -13,6 +13,20 @@ const escapeHtml = (value) =>
 
 const fmtMoney = (n) => "UGX " + Math.round(Number(n) || 0).toLocaleString("en-US");
 
+// Itemised totals saved with the payout by the pricing engine
+// (src/utils/pricing.ts calculatePayoutBreakdown). Older payouts have none.
+function breakdownRows(payout) {
+  const b = payout.metadata && payout.metadata.breakdown;
+  if (!b) return [];
+  return [
+    ["Tickets", String(b.ticketCount ?? "—")],
+    ["Gross Ticket Sales", fmtMoney(b.gross)],
+    ["YoVibe Commission", "- " + fmtMoney(b.commission)],
+    ["Gateway Fees (paid by YoVibe)", fmtMoney(b.gatewayFees)],
+    ["Organiser Net", fmtMoney(b.net)],
+  ];
+}
+
 function renderReceiptHtml(payout) {
   const amount = fmtMoney(payout.amount);
   const payoutId = escapeHtml(payout.id || payout.payoutId || "—");
@@ -24,6 +38,9 @@ function renderReceiptHtml(payout) {
   const email = escapeHtml(payout.recipient_email || payout.emailTo || "—");
   const phone = escapeHtml(payout.recipient_phone_number || "—");
   const provider = escapeHtml(payout.provider || (payout.payout_method === "mobile_money" ? "Mobile Money" : "—"));
+  const breakdown = breakdownRows(payout)
+    .map(([label, value]) => `<tr><td class="yovibe-td-label">${escapeHtml(label)}</td><td class="yovibe-td-value">${escapeHtml(value)}</td></tr>`)
+    .join("\n            ");
 
   return `<!doctype html><html><head><meta charset="utf-8">
 <meta name="viewport" content="width=device-width, initial-scale=1">
@@ -70,6 +87,7 @@ function renderReceiptHtml(payout) {
             <tr><td class="yovibe-td-label">Recipient Phone</td><td class="yovibe-td-value yovibe-mono">${phone}</td></tr>
             <tr><td class="yovibe-td-label">Provider</td><td class="yovibe-td-value">${provider}</td></tr>
             <tr><td class="yovibe-td-label">Method</td><td class="yovibe-td-value">Mobile Money Transfer</td></tr>
+            ${breakdown}
           </table>
         </td></tr>
         <tr><td class="yovibe-foot">This is an automated receipt for a YoVibe payout. A PDF copy is attached for your records. Please retain it for your records.<br>YoVibe · reinolmartin0001@gmail.com</td></tr>
@@ -95,10 +113,11 @@ function renderReceiptText(payout) {
     "Email: " + (payout.recipient_email || payout.emailTo || "-"),
     "Phone: " + (payout.recipient_phone_number || "-"),
     "Provider: " + (payout.provider || (payout.payout_method === "mobile_money" ? "Mobile Money" : "-")),
+    ...breakdownRows(payout).map(([label, value]) => label + ": " + value),
     line,
     "This is an automated receipt for a YoVibe payout.",
     "YoVibe · reinolmartin0001@gmail.com",
   ].join("\n");
 }
 
-module.exports = { renderReceiptHtml, renderReceiptText, fmtMoney };
+module.exports = { renderReceiptHtml, renderReceiptText, breakdownRows, fmtMoney };
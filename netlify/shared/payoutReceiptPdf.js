@@ -5,6 +5,7 @@
 // raw PDF bytes as a Uint8Array.
 
 const { PDFDocument, StandardFonts, rgb } = require("pdf-lib");
+const { breakdownRows } = require("./payoutReceiptEmail");
 
 const CYAN = rgb(0, 0.83, 1);        // #00D4FF
 const GREEN = rgb(0.17, 0.84, 0.46); // #2BD576
@@ -71,6 +72,7 @@ async function buildPayoutReceiptPdf(payout) {
     ["Recipient Phone", payout.recipient_phone_number || "—", true],
     ["Provider", payout.payout_method === "mobile_money" ? "Mobile Money" : (payout.provider || "—"), false],
     ["Method", "Mobile Money Transfer", false],
+    ...breakdownRows(payout).map(([label, value]) => [label, value, false]),
   ];
 
   rows.forEach(([label, value, isMono], i) => {
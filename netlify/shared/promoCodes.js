@@ -0,0 +1,93 @@
+const { normalizePromoCode, summarizeRedemptions } = require('../../src/utils/promoCodes');
+
+// Codes live here rather than on the public events row, so buyers only ever
+// learn about the code they typed or the group deal they qualified for
+const TABLE = 'event_promo_codes';
+
+function eventKey(eventRow) {
+  return eventRow.slug || eventRow.id;
+}
+
+async function loadPromoCodes(admin, eventRow) {
+  const { data, error } = await admin.from(TABLE).select('codes').eq('event_id', eventKey(eventRow)).maybeSingle();
+  if (error) throw error;
+  return data?.codes || [];
+}
+
+async function redemptionsFor(admin, eventRow) {
+  const { data, error } = await admin.from('promo_redemptions').select('*')
+    .eq('event_id', eventKey(eventRow)).order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Redemption counts keyed by normalised code, used to enforce maxUses */
+async function promoUsage(admin, eventRow) {
+  return (await redemptionsFor(admin, eventRow)).reduce((usage, r) => {
+    const code = normalizePromoCode(r.code);
+    usage[code] = (usage[code] || 0) + 1;
+    return usage;
+  }, {});
+}
+
+async function promoReport(admin, eventRow, codes) {
+  return summarizeRedemptions(codes, await redemptionsFor(admin, eventRow));
+}
+
+function invalid(message) {
+  return Object.assign(new Error(message), { statusCode: 422 });
+}
+
+function optionalCount(value) {
+  const n = Number.parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function optionalDate(value, label) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw invalid(`${label} is not a valid date`);
+  return date.toISOString();
+}
+
+/** The organiser's codes as they will be stored, or a 422 naming the first bad one */
+function sanitizePromoCodes(input) {
+  if (!Array.isArray(input)) throw invalid('promoCodes must be a list');
+  const seen = new Set();
+  return input.map((promo) => {
+    const code = normalizePromoCode(String(promo?.code || ''));
+    const value = Number(promo?.value);
+    if (!code) throw invalid('Every promo code needs a code');
+    if (seen.has(code)) throw invalid(`${code} is listed twice`);
+    seen.add(code);
+    if (!['percentage', 'fixed'].includes(promo.type)) throw invalid(`${code} needs a percentage or fixed discount`);
+    if (!Number.isFinite(value) || value <= 0 || (promo.type === 'percentage' && value > 100)) {
+      throw invalid(`${code} needs a discount between 1 and 100 percent or a positive amount`);
+    }
+    const minGroupSize = optionalCount(promo.minGroupSize);
+    return {
+      code,
+      type: promo.type,
+      value,
+      maxUses: optionalCount(promo.maxUses),
+      validFrom: optionalDate(promo.validFrom, `${code}'s start`),
+      validUntil: optionalDate(promo.validUntil, `${code}'s end`),
+      entryFees: Array.isArray(promo.entryFees) && promo.entryFees.length ? promo.entryFees.map(String) : undefined,
+      minGroupSize,
+      autoApply: !!promo.autoApply && !!minGroupSize,
+      active: promo.active !== false,
+      createdAt: promo.createdAt || new Date().toISOString(),
+    };
+  });
+}
+
+async function savePromoCodes(admin, eventRow, input, userId) {
+  const codes = sanitizePromoCodes(input);
+  const { error } = await admin.from(TABLE).upsert({
+    event_id: eventKey(eventRow), codes, updated_by: userId, updated_at: new Date().toISOString(),
+  }, { onConflict: 'event_id' });
+  if (error) throw error;
+  return codes;
+}
+
+module.exports = { loadPromoCodes, promoUsage, promoReport, savePromoCodes };
@@ -0,0 +1,123 @@
+const { resolveEventStartTime } = require('../../src/utils/eventTime');
+const { buildRecommendationProfile, eventEntryPrice, rankEvents } = require('../../src/utils/recommendations');
+const { listFollows } = require('./follows');
+
+// The "For you" event feed. Signed-in users' upcoming events are ranked from
+// their tickets, scanned attendance and follows; anonymous visitors get
+// popular and upcoming events. Both are nudged by distance when the app
+// already knows where the visitor is.
+
+const EVENT_UTC_OFFSET_MINUTES = Number(process.env.EVENT_UTC_OFFSET_MINUTES || 180);
+// Sales this recent make an event popular
+const POPULARITY_DAYS = 14;
+// A profile is built from the user's most recent tickets
+const HISTORY_TICKETS = 300;
+const SOLD_STATUSES = ['active', 'used'];
+// Keys per .in() filter, so the query string stays short
+const IN_CHUNK = 50;
+const PAGE = 1000;
+
+// Midnight at the start of today in event local time
+function startOfToday(now) {
+  const offsetMs = EVENT_UTC_OFFSET_MINUTES * 60000;
+  const local = new Date(now.getTime() + offsetMs);
+  local.setUTCHours(0, 0, 0, 0);
+  return new Date(local.getTime() - offsetMs);
+}
+
+// Every row of `query(chunk)` over `keys` taken IN_CHUNK at a time, paged past the row limit
+async function selectIn(keys, query) {
+  const rows = [];
+  for (let i = 0; i < keys.length; i += IN_CHUNK) {
+    for (let from = 0; ; from += PAGE) {
+      const { data, error } = await query(keys.slice(i, i + IN_CHUNK)).range(from, from + PAGE - 1);
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE) break;
+    }
+  }
+  return rows;
+}
+
+function validPosition(position) {
+  const latitude = Number(position?.latitude);
+  const longitude = Number(position?.longitude);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+async function upcomingEvents(admin, now) {
+  const { data: events, error } = await admin.from('events')
+    .select('slug,venue_slug,venue_name,artists,date,time,created_at,is_free_entry,price_indicator,entry_fees,event_status')
+    .eq('is_deleted', false).gte('date', startOfToday(now).toISOString())
+    .order('date', { ascending: true }).limit(1000);
+  if (error) throw error;
+  const live = (events || []).filter((e) => e.event_status !== 'cancelled');
+  if (!live.length) return [];
+  const slugs = live.map((e) => e.slug);
+  const venueSlugs = [...new Set(live.map((e) => e.venue_slug).filter(Boolean))];
+
+  const soldSince = new Date(now.getTime() - POPULARITY_DAYS * 86400000).toISOString();
+  const venues = await selectIn(venueSlugs, (chunk) => admin.from('venues').select('slug,latitude,longitude').in('slug', chunk));
+  const sold = await selectIn(slugs, (chunk) => admin.from('tickets').select('event_slug').in('event_slug', chunk)
+    .in('status', SOLD_STATUSES).gte('purchase_date', soldSince));
+  const locations = new Map(venues
+    .filter((v) => Number.isFinite(v.latitude) && Number.isFinite(v.longitude))
+    .map((v) => [v.slug, { latitude: v.latitude, longitude: v.longitude }]));
+  const ticketsSold = {};
+  for (const t of sold) ticketsSold[t.event_slug] = (ticketsSold[t.event_slug] || 0) + 1;
+
+  return live.map((e) => ({
+    id: e.slug,
+    venueSlug: e.venue_slug,
+    venueName: e.venue_name,
+    artists: e.artists || [],
+    startsAt: resolveEventStartTime(e, EVENT_UTC_OFFSET_MINUTES),
+    createdAt: new Date(e.created_at),
+    price: eventEntryPrice({ isFreeEntry: e.is_free_entry, priceIndicator: e.price_indicator, entryFees: e.entry_fees }),
+    ticketsSold: ticketsSold[e.slug] || 0,
+    venueLocation: locations.get(e.venue_slug) || null,
+  }));
+}
+
+/** The user's past tickets with the events they were for */
+async function ticketHistory(admin, userId) {
+  const { data: tickets, error } = await admin.from('tickets').select('event_slug,base_price,is_scanned')
+    .eq('buyer_id', userId).in('status', SOLD_STATUSES)
+    .order('purchase_date', { ascending: false }).limit(HISTORY_TICKETS);
+  if (error) throw error;
+  const slugs = [...new Set((tickets || []).map((t) => t.event_slug).filter(Boolean))];
+  if (!slugs.length) return [];
+  const events = await selectIn(slugs, (chunk) => admin.from('events')
+    .select('slug,venue_slug,venue_name,artists,date,time').in('slug', chunk));
+  const bySlug = new Map(events.map((e) => [e.slug, e]));
+  return (tickets || []).filter((t) => bySlug.has(t.event_slug)).map((t) => {
+    const e = bySlug.get(t.event_slug);
+    return {
+      venueSlug: e.venue_slug,
+      venueName: e.venue_name,
+      artists: e.artists || [],
+      startsAt: resolveEventStartTime(e, EVENT_UTC_OFFSET_MINUTES),
+      pricePaid: Number(t.base_price) > 0 ? Number(t.base_price) : null,
+      attended: !!t.is_scanned,
+    };
+  });
+}
+
+async function recommendationFeed(admin, userId, position, now = new Date()) {
+  const [events, history, follows] = await Promise.all([
+    upcomingEvents(admin, now),
+    userId ? ticketHistory(admin, userId) : [],
+    userId ? listFollows(admin, userId) : [],
+  ]);
+  const profile = userId
+    ? buildRecommendationProfile(history, follows.map((f) => ({ targetType: f.target_type, targetKey: f.target_key, targetName: f.target_name })), EVENT_UTC_OFFSET_MINUTES)
+    : null;
+  return {
+    personalised: !!profile,
+    recommendations: rankEvents(events, profile, { now, position: validPosition(position), utcOffsetMinutes: EVENT_UTC_OFFSET_MINUTES }),
+    generatedAt: now.toISOString(),
+  };
+}
+
+module.exports = { recommendationFeed };
@@ -0,0 +1,73 @@
+const crypto = require('crypto');
+const { installmentRefundAmount } = require('../../src/utils/pricing');
+
+// Refund helpers shared by refund-ticket and the scheduled installment-reminders job.
+
+function reference() { return `RF-${Date.now()}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`; }
+
+async function addHistory(admin, id, fromStatus, toStatus, actorId, actorType, note, payload) {
+  await admin.from('refund_status_history').insert({
+    refund_request_id: id, from_status: fromStatus || null, to_status: toStatus,
+    actor_id: actorId || null, actor_type: actorType, note: note || null, processor_payload: payload || null,
+  });
+}
+
+async function sendRefundNotification(admin, type, refund) {
+  try {
+    const titleMap = {
+      requested: '🔄 Refund Requested', approved: '✅ Refund Approved',
+      rejected: '❌ Refund Rejected', executed: '💰 Refund Submitted',
+      completed: '✅ Refund Completed', chargeback: '⚠️ Chargeback Filed',
+    };
+    const bodyMap = {
+      requested: `Refund request ${refund.request_reference} submitted for review`,
+      approved: `Your refund ${refund.request_reference} has been approved`,
+      rejected: `Your refund ${refund.request_reference} has been rejected`,
+      executed: `Refund ${refund.request_reference} submitted to payment provider`,
+      completed: `Refund ${refund.request_reference} completed — UGX ${Number(refund.refunded_amount || refund.approved_amount).toLocaleString()}`,
+      chargeback: `Chargeback filed for refund ${refund.request_reference}`,
+    };
+    if (refund.buyer_id) {
+      await admin.from('notifications').insert({
+        user_id: refund.buyer_id, title: titleMap[type] || 'Refund Update',
+        body: bodyMap[type] || `Refund ${refund.request_reference} updated to ${type}`,
+        type: 'refund_update', data: { refundId: refund.id, request_reference: refund.request_reference, status: refund.status },
+        is_read: false, created_at: new Date().toISOString(),
+      });
+    }
+  } catch (e) { console.error('sendRefundNotification error', e); }
+}
+
+/**
+ * Open an `installments_incomplete` refund for a plan that expired with money
+ * paid in. Goes to admin review like any buyer request; idempotent per plan.
+ */
+async function requestInstallmentRefund(admin, plan, note) {
+  const paid = (plan.installments || []).filter((i) => i.status === 'paid');
+  const amount = installmentRefundAmount(paid);
+  if (amount <= 0) return null;
+
+  const idempotencyKey = `installment-expiry:${plan.id}`;
+  const { data: existing } = await admin.from('refund_requests').select('*').eq('idempotency_key', idempotencyKey).maybeSingle();
+  if (existing) return existing;
+
+  // PawaPay refunds one deposit at a time; the latest one is the natural default
+  const last = paid[paid.length - 1];
+  const { data: refund, error } = await admin.from('refund_requests').insert({
+    request_reference: reference(), buyer_id: plan.buyer_id || null, buyer_email: plan.buyer_email,
+    event_id: plan.event_id, ticket_id: null, ticket_ids: plan.ticket_ids || [],
+    installment_plan_id: plan.id,
+    payment_provider: last.paymentMethod === 'mobile_money' ? 'pawapay' : 'pesapal',
+    payment_reference: `installment_plan_${plan.id}`, processor_reference: last.depositId || null,
+    reason_code: 'installments_incomplete', requested_amount: amount, currency: 'UGX',
+    idempotency_key: idempotencyKey, buyer_note: note || null,
+  }).select('*').single();
+  if (error) throw error;
+
+  await addHistory(admin, refund.id, null, 'pending_admin_review', null, 'system', note || 'Installment plan expired');
+  await admin.from('ticket_installment_plans').update({ refund_status: 'pending' }).eq('id', plan.id);
+  await sendRefundNotification(admin, 'requested', refund);
+  return refund;
+}
+
+module.exports = { reference, addHistory, sendRefundNotification, requestInstallmentRefund };
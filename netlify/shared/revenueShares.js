@@ -0,0 +1,171 @@
+const crypto = require('crypto');
+const { completeMobileMoneyPayout } = require('./autoPayouts');
+const { calculatePayoutBreakdown } = require('../../src/utils/pricing');
+const { splitPayouts, splitTicketRevenue } = require('../../src/utils/revenueShares');
+
+// Payouts on events with revenue-share rules: one withdrawal becomes one
+// payout per beneficiary, each sent to that party's own payment details once
+// they confirm it with a one-time code. The tickets are settled when the
+// split is made; from then on each party's money is tracked on their payout.
+
+const OTP_TTL_SECONDS = 90;
+
+function shareTicket(t) {
+  return { id: t.id, venueRevenue: Number(t.venue_revenue || 0), entryFeeType: t.entry_fee_type };
+}
+
+async function notify(admin, userId, title, body, data) {
+  try {
+    await admin.from('notifications').insert({
+      user_id: userId, title, body, type: 'payout_update', data, is_read: false, created_at: new Date().toISOString(),
+    });
+  } catch (e) { console.error('revenue share notification error', userId, e); }
+}
+
+/** Each party's earned and still-eligible share of the event's paid tickets */
+async function shareSummary(admin, event) {
+  const { data: tickets, error } = await admin.from('tickets')
+    .select('id,venue_revenue,entry_fee_type,payout_eligible,payout_status')
+    .eq('event_slug', event.slug || event.id).eq('payment_status', 'completed');
+  if (error) throw error;
+  const parties = new Map();
+  for (const ticket of tickets || []) {
+    const eligible = ticket.payout_eligible === true && ticket.payout_status === 'pending';
+    for (const share of splitTicketRevenue(shareTicket(ticket), event.revenue_shares, event.created_by)) {
+      const party = parties.get(share.beneficiaryId) || { beneficiaryId: share.beneficiaryId, role: share.role, earned: 0, eligible: 0 };
+      party.earned = Math.round((party.earned + share.amount) * 100) / 100;
+      if (eligible) party.eligible = Math.round((party.eligible + share.amount) * 100) / 100;
+      parties.set(share.beneficiaryId, party);
+    }
+  }
+  return [...parties.values()];
+}
+
+function destinationFor(user) {
+  const details = user?.payment_details || {};
+  if (details.mobileMoney?.phoneNumber) return { method: 'mobile_money', name: details.mobileMoney.accountName, phone: details.mobileMoney.phoneNumber };
+  if (details.bankAccount?.accountNumber) {
+    return { method: 'bank_transfer', name: details.bankAccount.accountName, bankName: details.bankAccount.bankName, accountNumber: details.bankAccount.accountNumber };
+  }
+  return { method: 'mobile_money', name: user?.name || user?.email || '' };
+}
+
+/**
+ * Split the eligible tickets among the event's beneficiaries and create one
+ * awaiting_confirmation payout each. Returns the payouts created.
+ */
+async function createSplitPayouts(admin, event, ticketIds, requestedBy) {
+  const { data: claimed, error: claimError } = await admin.from('tickets').update({ payout_status: 'processing' })
+    .in('id', ticketIds).eq('event_slug', event.slug || event.id).eq('payout_status', 'pending').eq('payout_eligible', true)
+    .select('id,venue_revenue,entry_fee_type,total_amount,app_commission,gateway_fee');
+  if (claimError) throw claimError;
+  if (!claimed?.length) throw Object.assign(new Error('None of those tickets can be paid out'), { statusCode: 409 });
+
+  const shares = splitPayouts(claimed.map(shareTicket), event.revenue_shares, event.created_by);
+  const { data: users, error: usersError } = await admin.from('users').select('id,email,name,payment_details').in('id', shares.map((s) => s.beneficiaryId));
+  if (usersError) throw usersError;
+  const byId = new Map((users || []).map((u) => [u.id, u]));
+  const byTicket = new Map(claimed.map((t) => [t.id, t]));
+  const group = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const rows = shares.map((share) => {
+    const user = byId.get(share.beneficiaryId);
+    const destination = destinationFor(user);
+    const breakdown = calculatePayoutBreakdown(share.ticketIds.map((id) => {
+      const t = byTicket.get(id);
+      return { totalAmount: t.total_amount, appCommission: t.app_commission, venueRevenue: t.venue_revenue, gatewayFee: t.gateway_fee };
+    }));
+    return {
+      organizer_id: share.beneficiaryId,
+      ticket_ids: share.ticketIds,
+      amount: share.amount,
+      status: 'awaiting_confirmation',
+      request_date: now,
+      payout_method: destination.method,
+      recipient_name: destination.name || user?.name || user?.email || '',
+      recipient_phone_number: destination.phone || '',
+      metadata: {
+        split_group: group,
+        event_id: event.slug || event.id,
+        event_name: event.name,
+        role: share.role,
+        requested_by: requestedBy,
+        // The ticket totals behind this party's share, not the share itself
+        breakdown: { ...breakdown, net: share.amount },
+        ...(destination.method === 'bank_transfer' ? { bank_name: destination.bankName, account_number: destination.accountNumber } : {}),
+      },
+    };
+  });
+  const { data: payouts, error } = await admin.from('payouts').insert(rows).select('*');
+  if (error) {
+    await admin.from('tickets').update({ payout_status: 'pending' }).in('id', claimed.map((t) => t.id));
+    throw error;
+  }
+  await admin.from('tickets').update({ payout_status: 'paid', payout_date: now, payout_eligible: false }).in('id', claimed.map((t) => t.id));
+
+  for (const payout of payouts || []) {
+    await notify(admin, payout.organizer_id, '💸 Revenue Share Ready',
+      `UGX ${Number(payout.amount).toLocaleString()} from ${event.name} is ready. Confirm it to have it sent to you.`,
+      { payoutId: payout.id, amount: payout.amount, status: 'awaiting_confirmation', eventId: event.slug || event.id });
+  }
+  return payouts || [];
+}
+
+async function sendPayoutOtp(admin, user) {
+  if (!user.email) throw Object.assign(new Error('Add an email address to your account first'), { statusCode: 422 });
+  await admin.from('payout_otps').update({ used: true }).eq('user_id', user.id).eq('used', false);
+  const otp = String(crypto.randomInt(100000, 1000000));
+  const { error } = await admin.from('payout_otps').insert({
+    user_id: user.id, email: user.email, otp, expires_at: new Date(Date.now() + OTP_TTL_SECONDS * 1000).toISOString(),
+  });
+  if (error) throw error;
+  const { error: emailError } = await admin.functions.invoke('send-payout-otp', { body: { email: user.email, otp } });
+  if (emailError) throw emailError;
+}
+
+async function verifyPayoutOtp(admin, userId, code) {
+  const { data } = await admin.from('payout_otps').select('*').eq('user_id', userId).eq('otp', String(code || '').trim()).eq('used', false).maybeSingle();
+  if (!data || new Date(data.expires_at) < new Date()) throw Object.assign(new Error('Code is incorrect or has expired. Please request a new one.'), { statusCode: 422 });
+  await admin.from('payout_otps').update({ used: true }).eq('id', data.id);
+}
+
+/**
+ * Send a confirmed share: mobile money goes out straight away, bank
+ * transfers join the admin review queue like any other bank payout.
+ */
+async function confirmSplitPayout(admin, payout, user) {
+  const details = user.payment_details || {};
+  if (!details.mobileMoney?.phoneNumber && !details.bankAccount?.accountNumber) {
+    throw Object.assign(new Error('Add your payment details before confirming'), { statusCode: 422 });
+  }
+  // Pay wherever the party's details point now, not when the split was made
+  const destination = destinationFor(user);
+  const metadata = typeof payout.metadata === 'string' ? JSON.parse(payout.metadata || '{}') : (payout.metadata || {});
+  const { data: claimed } = await admin.from('payouts').update({
+    status: 'processing',
+    payout_method: destination.method,
+    recipient_name: destination.name || payout.recipient_name,
+    recipient_phone_number: destination.phone || '',
+    metadata: { ...metadata, bank_name: destination.bankName, account_number: destination.accountNumber },
+    updated_at: new Date().toISOString(),
+  }).eq('id', payout.id).eq('status', 'awaiting_confirmation').select('*');
+  if (!claimed?.length) throw Object.assign(new Error('This payout is already being processed'), { statusCode: 409 });
+  payout = claimed[0];
+
+  if (payout.payout_method === 'bank_transfer') {
+    const { data, error } = await admin.from('payouts').update({ status: 'pending_admin_review', updated_at: new Date().toISOString() })
+      .eq('id', payout.id).select('*').single();
+    if (error) throw error;
+    return data;
+  }
+  try {
+    return await completeMobileMoneyPayout(admin, payout, user);
+  } catch (e) {
+    // Once the money may have left the payout stays sent or unknown; confirming again would pay twice
+    if (!e.payoutOutcome) await admin.from('payouts').update({ status: 'awaiting_confirmation' }).eq('id', payout.id);
+    throw e;
+  }
+}
+
+module.exports = { shareSummary, createSplitPayouts, sendPayoutOtp, verifyPayoutOtp, confirmSplitPayout };
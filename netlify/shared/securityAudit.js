@@ -0,0 +1,69 @@
+const { auditDiff } = require('../../src/utils/auditLog');
+
+// Security audit trail: who did what to which record, from where. Rows are
+// insert-only; nothing in the functions updates or deletes them.
+
+// Columns diffed for each kind of target
+const AUDIT_FIELDS = {
+  payout: ['status', 'amount', 'approved_amount', 'admin_id', 'admin_note', 'transaction_reference', 'recipient_phone_number'],
+  refund: ['status', 'approved_amount', 'admin_note', 'reason_code', 'external_refund_id', 'retry_count', 'chargeback_reason'],
+  event: ['event_status', 'postponed_to'],
+  purchase: ['review_status', 'reviewed_by', 'review_note'],
+  vibe_image: ['scoring_status', 'vibe_rating', 'moderated_by', 'moderation_note'],
+};
+
+function auditFromRow(row) {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email || null,
+    actorRole: row.actor_role || null,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    changes: row.changes || {},
+    reason: row.reason || null,
+    ip: row.ip || null,
+    userAgent: row.user_agent || null,
+    source: row.source,
+  };
+}
+
+/** Caller IP and user agent from the Netlify request headers */
+function requestContext(event) {
+  const headers = event?.headers || {};
+  const forwarded = headers['x-forwarded-for'] || headers['X-Forwarded-For'] || '';
+  return {
+    ip: headers['x-nf-client-connection-ip'] || headers['client-ip'] || forwarded.split(',')[0].trim() || null,
+    userAgent: (headers['user-agent'] || headers['User-Agent'] || '').slice(0, 500) || null,
+  };
+}
+
+/**
+ * Append one audit row. `before`/`after` are record snapshots diffed over
+ * `fields`. Failures are logged, never thrown, so auditing cannot block the
+ * action it describes.
+ */
+async function recordAudit(admin, event, { actor, actorRole, action, targetType, targetId, before, after, fields, reason, source }) {
+  try {
+    const { ip, userAgent } = requestContext(event);
+    const { error } = await admin.from('security_audit_log').insert({
+      occurred_at: new Date().toISOString(),
+      actor_id: actor.id,
+      actor_email: actor.email || null,
+      actor_role: actorRole || null,
+      action,
+      target_type: targetType,
+      target_id: String(targetId),
+      changes: auditDiff(before, after, fields),
+      reason: reason || null,
+      ip,
+      user_agent: userAgent,
+      source: source || 'server',
+    });
+    if (error) throw error;
+  } catch (e) { console.error('security audit log error', action, targetId, e); }
+}
+
+module.exports = { AUDIT_FIELDS, auditFromRow, requestContext, recordAudit };
@@ -0,0 +1,104 @@
+const { resolveEventAccess, hasPermission } = require('../../src/utils/teamRoles');
+
+// Organiser teams: an event creator owns one organisation and its active
+// members act on the creator's events within their role. Sensitive actions
+// are written to team_audit_log with the acting user and role.
+
+function organizationFromRow(row) {
+  return row ? { id: row.id, name: row.name, ownerId: row.owner_id, createdAt: row.created_at } : null;
+}
+
+function memberFromRow(row) {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    userId: row.user_id || null,
+    email: row.email,
+    name: row.name || null,
+    role: row.role,
+    status: row.status,
+    invitedBy: row.invited_by,
+    invitedAt: row.invited_at,
+    joinedAt: row.joined_at || null,
+  };
+}
+
+function auditFromRow(row) {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    eventId: row.event_id || null,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email || null,
+    actorRole: row.actor_role,
+    action: row.action,
+    details: row.details || {},
+    createdAt: row.created_at,
+  };
+}
+
+async function organizationFor(admin, ownerId) {
+  const { data, error } = await admin.from('organizations').select('*').eq('owner_id', ownerId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function ensureOrganization(admin, owner) {
+  const existing = await organizationFor(admin, owner.id);
+  if (existing) return existing;
+  const { data, error } = await admin.from('organizations').insert({
+    owner_id: owner.id, name: `${owner.name || owner.email || 'My'} team`, created_at: new Date().toISOString(),
+  }).select('*').single();
+  if (error) throw error;
+  return data;
+}
+
+function eventOwnerId(eventRow) {
+  return eventRow.created_by || eventRow.created_by_auth;
+}
+
+/** The caller's EventAccess on the event, or null when they have none */
+async function eventAccess(admin, eventRow, userId, profile) {
+  const isOwner = eventRow.created_by === userId || eventRow.created_by_auth === userId;
+  const base = { createdBy: isOwner ? userId : eventOwnerId(eventRow) };
+  if (isOwner || profile?.user_type === 'admin') return resolveEventAccess(base, userId, { isAdmin: !isOwner });
+
+  const organization = await organizationFor(admin, eventOwnerId(eventRow));
+  if (!organization) return null;
+  const { data: row, error } = await admin.from('team_members').select('*')
+    .eq('organization_id', organization.id).eq('user_id', userId).eq('status', 'active').maybeSingle();
+  if (error) throw error;
+  return resolveEventAccess(base, userId, { member: row ? memberFromRow(row) : null });
+}
+
+async function requireEventPermission(admin, eventRow, authUser, profile, permission) {
+  const access = await eventAccess(admin, eventRow, authUser.id, profile);
+  if (!hasPermission(access, permission)) {
+    throw Object.assign(new Error(access ? 'Your team role does not allow this' : 'You are not on this event\'s team'), { statusCode: 403 });
+  }
+  return access;
+}
+
+/** Append to the owner's audit log; failures are logged, never thrown */
+async function recordTeamAction(admin, { eventRow, ownerId, actor, access, action, details }) {
+  try {
+    const owner = ownerId || eventOwnerId(eventRow);
+    const organization = access?.organizationId ? { id: access.organizationId } : await ensureOrganization(admin, { id: owner });
+    const { error } = await admin.from('team_audit_log').insert({
+      organization_id: organization.id,
+      event_id: eventRow ? eventRow.slug || eventRow.id : null,
+      actor_id: actor.id,
+      actor_email: actor.email || null,
+      actor_role: access?.role || 'owner',
+      action,
+      details: details || {},
+      created_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+  } catch (e) { console.error('team audit log error', action, e); }
+}
+
+module.exports = {
+  organizationFromRow, memberFromRow, auditFromRow, organizationFor, ensureOrganization,
+  eventAccess, requireEventPermission, recordTeamAction,
+};
@@ -0,0 +1,261 @@
+const crypto = require('crypto');
+const {
+  BACKUP_CODE_COUNT, BACKUP_CODE_LENGTH, backupCodeFromBytes, base32Decode, base32Encode,
+  isBackupCodeInput, normalizeOtpInput, totpUri, verifyTotp,
+} = require('../../src/utils/twoFactor');
+
+// TOTP second factor for privileged accounts. A Supabase session counts as
+// verified once its session id is in two_factor_sessions; the app asks for
+// a code straight after the password whenever that row is missing.
+
+const FACTORS_TABLE = 'user_two_factor';
+const SESSIONS_TABLE = 'two_factor_sessions';
+const POLICY_TABLE = 'two_factor_policy';
+const RECOVERY_TABLE = 'two_factor_recovery_codes';
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const RECOVERY_TTL_MINUTES = 15;
+
+const hmacSha1 = (key, message) => crypto.createHmac('sha1', Buffer.from(key)).update(Buffer.from(message)).digest();
+const hashCode = (code) => crypto.createHash('sha256').update(normalizeOtpInput(code)).digest('hex');
+
+function codeError(message, statusCode = 422) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function lockedError(lockedUntil) {
+  const time = new Date(lockedUntil).toLocaleTimeString('en-UG', { hour: '2-digit', minute: '2-digit', timeZone: 'Africa/Kampala' });
+  return codeError(`Too many wrong codes. Try again after ${time}.`, 429);
+}
+
+/** The `session_id` claim of the caller's access token; requireUser has already verified it */
+function sessionIdFromEvent(event) {
+  const auth = event.headers?.authorization || event.headers?.Authorization || '';
+  const payload = auth.replace(/^Bearer\s+/i, '').split('.')[1];
+  if (!payload) return null;
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')).session_id || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function loadFactor(admin, userId) {
+  const { data, error } = await admin.from(FACTORS_TABLE).select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function loadPolicy(admin) {
+  const { data, error } = await admin.from(POLICY_TABLE).select('*').eq('id', 'default').maybeSingle();
+  if (error) throw error;
+  return { requireForAdmin: !!data?.require_for_admin, updatedAt: data?.updated_at || null, updatedBy: data?.updated_by || null };
+}
+
+async function savePolicy(admin, policy, adminId) {
+  const { error } = await admin.from(POLICY_TABLE).upsert({
+    id: 'default', require_for_admin: !!policy.requireForAdmin, updated_at: new Date().toISOString(), updated_by: adminId,
+  }, { onConflict: 'id' });
+  if (error) throw error;
+  return loadPolicy(admin);
+}
+
+async function isSessionVerified(admin, event, userId) {
+  const sessionId = sessionIdFromEvent(event);
+  if (!sessionId) return false;
+  // Passkey sign-ins used to be recorded here too; they are not a second factor
+  const { data } = await admin.from(SESSIONS_TABLE).select('session_id').eq('session_id', sessionId).eq('user_id', userId)
+    .neq('method', 'passkey').maybeSingle();
+  return !!data;
+}
+
+async function markSessionVerified(admin, event, userId, method) {
+  const sessionId = sessionIdFromEvent(event);
+  if (!sessionId) throw codeError('This sign-in has no session id; sign in again', 401);
+  const { error } = await admin.from(SESSIONS_TABLE).upsert({
+    session_id: sessionId, user_id: userId, method, verified_at: new Date().toISOString(),
+  }, { onConflict: 'session_id' });
+  if (error) throw error;
+}
+
+async function status(admin, event, userId) {
+  const [factor, policy] = await Promise.all([loadFactor(admin, userId), loadPolicy(admin)]);
+  const enabled = !!factor?.enabled;
+  return {
+    enabled,
+    enrolledAt: enabled ? factor.enrolled_at : null,
+    backupCodesRemaining: enabled ? (factor.backup_code_hashes || []).length : 0,
+    sessionVerified: enabled && await isSessionVerified(admin, event, userId),
+    requiredForAdmin: policy.requireForAdmin,
+  };
+}
+
+function newBackupCodes() {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => backupCodeFromBytes(crypto.randomBytes(BACKUP_CODE_LENGTH)));
+}
+
+/** Start (or restart) enrolment with a fresh secret; the current factor stays active until confirmed */
+async function startEnrollment(admin, user) {
+  const secret = base32Encode(crypto.randomBytes(20));
+  const { error } = await admin.from(FACTORS_TABLE).upsert({
+    user_id: user.id, pending_secret: secret, updated_at: new Date().toISOString(),
+  }, { onConflict: 'user_id' });
+  if (error) throw error;
+  return { secret, otpauthUrl: totpUri(secret, user.email || user.id) };
+}
+
+/** First code from the authenticator proves the secret was saved; returns the backup codes, shown once */
+async function confirmEnrollment(admin, event, userId, code) {
+  const factor = await loadFactor(admin, userId);
+  if (!factor?.pending_secret) throw codeError('Start two-factor setup first');
+  const step = verifyTotp(hmacSha1, base32Decode(factor.pending_secret), code, Date.now());
+  if (step === null) throw codeError('That code is not right. Check the time on your phone and try again.');
+  const codes = newBackupCodes();
+  const { error } = await admin.from(FACTORS_TABLE).update({
+    secret: factor.pending_secret, pending_secret: null, enabled: true, enrolled_at: new Date().toISOString(),
+    last_used_step: step, backup_code_hashes: codes.map(hashCode), failed_attempts: 0, locked_until: null,
+    updated_at: new Date().toISOString(),
+  }).eq('user_id', userId);
+  if (error) throw error;
+  await markSessionVerified(admin, event, userId, 'totp');
+  return codes;
+}
+
+/**
+ * Check an authenticator or backup code against an enabled factor. Accepted
+ * TOTP steps and used backup codes are burned. Each guess is counted before
+ * it is compared, so parallel requests cannot get more than
+ * MAX_FAILED_ATTEMPTS tries before the factor locks for a while.
+ */
+async function checkCode(admin, userId, code) {
+  const factor = await loadFactor(admin, userId);
+  if (!factor?.enabled) throw codeError('Two-factor authentication is not set up');
+  if (factor.locked_until && new Date(factor.locked_until) > new Date()) throw lockedError(factor.locked_until);
+
+  const now = new Date().toISOString();
+  const failed = Number(factor.failed_attempts || 0) + 1;
+  const lockedUntil = failed >= MAX_FAILED_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MINUTES * 60000).toISOString() : null;
+  const counted = lockedUntil ? 0 : failed;
+  const count = admin.from(FACTORS_TABLE).update({ failed_attempts: counted, locked_until: lockedUntil, updated_at: now })
+    .eq('user_id', userId);
+  const { data: countedRow } = await (factor.failed_attempts == null ? count.is('failed_attempts', null) : count.eq('failed_attempts', factor.failed_attempts))
+    .select('user_id');
+  if (!countedRow?.length) throw codeError('Please try that code again', 409);
+
+  if (isBackupCodeInput(code)) {
+    const hash = hashCode(code);
+    const hashes = factor.backup_code_hashes || [];
+    if (hashes.includes(hash)) {
+      const { data: claimed } = await admin.from(FACTORS_TABLE).update({
+        backup_code_hashes: hashes.filter((h) => h !== hash), failed_attempts: 0, locked_until: null, updated_at: now,
+      }).eq('user_id', userId).eq('failed_attempts', counted).eq('updated_at', now).select('user_id');
+      // A concurrent request changed the row first; make the caller try again rather than reuse the code
+      if (!claimed?.length) throw codeError('Please try that code again', 409);
+      return 'backup_code';
+    }
+  } else {
+    const step = verifyTotp(hmacSha1, base32Decode(factor.secret), code, Date.now());
+    if (step !== null && step > Number(factor.last_used_step ?? -1)) {
+      const { data: claimed } = await admin.from(FACTORS_TABLE).update({ last_used_step: step, failed_attempts: 0, locked_until: null, updated_at: now })
+        .eq('user_id', userId).lt('last_used_step', step).select('user_id');
+      if (!claimed?.length) throw codeError('That code was already used. Wait for the next one.');
+      return 'totp';
+    }
+  }
+
+  if (lockedUntil) throw lockedError(lockedUntil);
+  throw codeError('That code is not right');
+}
+
+async function regenerateBackupCodes(admin, userId) {
+  const codes = newBackupCodes();
+  const { error } = await admin.from(FACTORS_TABLE).update({ backup_code_hashes: codes.map(hashCode), updated_at: new Date().toISOString() }).eq('user_id', userId);
+  if (error) throw error;
+  return codes;
+}
+
+/** Remove the factor and forget every verified session, so the user starts again from enrolment */
+async function disableFactor(admin, userId) {
+  const { error } = await admin.from(FACTORS_TABLE).delete().eq('user_id', userId);
+  if (error) throw error;
+  await admin.from(SESSIONS_TABLE).delete().eq('user_id', userId);
+  await admin.from(RECOVERY_TABLE).update({ used: true }).eq('user_id', userId).eq('used', false);
+}
+
+async function sendRecoveryCode(admin, user) {
+  if (!user.email) throw codeError('This account has no email address. Contact support to recover it.');
+  // A fresh code must not reset the lockout from guessing the last one
+  const { data: locked } = await admin.from(RECOVERY_TABLE).select('locked_until').eq('user_id', user.id)
+    .gt('locked_until', new Date().toISOString()).limit(1);
+  if (locked?.length) throw lockedError(locked[0].locked_until);
+  await admin.from(RECOVERY_TABLE).update({ used: true }).eq('user_id', user.id).eq('used', false);
+  const code = String(crypto.randomInt(100000, 1000000));
+  const expiresAt = new Date(Date.now() + RECOVERY_TTL_MINUTES * 60000).toISOString();
+  const { error } = await admin.from(RECOVERY_TABLE).insert({ user_id: user.id, code_hash: hashCode(code), expires_at: expiresAt, used: false });
+  if (error) throw error;
+
+  const response = await fetch(`${SITE_URL}/.netlify/functions/send-ticket-email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ kind: 'security_code', buyerEmail: user.email, code, expiresAt }),
+  });
+  if (!response.ok) {
+    console.error('two-factor recovery email failed', response.status, await response.text());
+    throw codeError('Could not send the recovery email. Please try again.', 502);
+  }
+}
+
+/**
+ * Check the emailed recovery code. Each guess is counted before it is
+ * compared, so parallel requests cannot get more than MAX_FAILED_ATTEMPTS
+ * tries; after that the code is burned and no new one is sent for a while.
+ */
+async function verifyRecoveryCode(admin, userId, code) {
+  const { data } = await admin.from(RECOVERY_TABLE).select('*').eq('user_id', userId).eq('used', false).maybeSingle();
+  if (!data || new Date(data.expires_at) < new Date()) throw codeError('Code is incorrect or has expired. Please request a new one.');
+
+  const attempts = Number(data.attempts || 0) + 1;
+  const lockedUntil = attempts >= MAX_FAILED_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MINUTES * 60000).toISOString() : null;
+  const claim = admin.from(RECOVERY_TABLE).update({ attempts, used: !!lockedUntil, locked_until: lockedUntil }).eq('id', data.id).eq('used', false);
+  const { data: claimed } = await (data.attempts == null ? claim.is('attempts', null) : claim.eq('attempts', data.attempts)).select('id');
+  if (!claimed?.length) throw codeError('Please try that code again', 409);
+
+  if (hashCode(code) === data.code_hash) {
+    await admin.from(RECOVERY_TABLE).update({ used: true, locked_until: null }).eq('id', data.id);
+    return;
+  }
+  if (lockedUntil) throw lockedError(lockedUntil);
+  throw codeError('Code is incorrect or has expired. Please request a new one.');
+}
+
+/**
+ * Guard for money actions: an account with two-factor on must have passed it
+ * on this session, so a stolen password alone cannot move or redirect money.
+ * Accounts without two-factor are unaffected.
+ */
+async function requireTwoFactorIfEnrolled(admin, event, authUser) {
+  const factor = await loadFactor(admin, authUser.id);
+  if (factor?.enabled && !(await isSessionVerified(admin, event, authUser.id))) {
+    throw codeError('Verify this sign-in with your authenticator code first', 403);
+  }
+}
+
+/**
+ * Guard for admin-only function actions: when the policy requires it, the
+ * admin's current session must have passed two-factor. Otherwise admins who
+ * turned it on themselves are held to it like anyone else.
+ */
+async function requireAdminTwoFactor(admin, event, authUser) {
+  const policy = await loadPolicy(admin);
+  if (!policy.requireForAdmin) return requireTwoFactorIfEnrolled(admin, event, authUser);
+  if (!(await isSessionVerified(admin, event, authUser.id))) {
+    throw codeError('Two-factor verification is required for admin actions', 403);
+  }
+}
+
+module.exports = {
+  loadPolicy, savePolicy, status, startEnrollment, confirmEnrollment, checkCode, markSessionVerified,
+  regenerateBackupCodes, disableFactor, sendRecoveryCode, verifyRecoveryCode, requireTwoFactorIfEnrolled, requireAdminTwoFactor,
+};
@@ -0,0 +1,109 @@
+const {
+  VIBE_CHECKIN_TICKET_HOURS, checkInRetryAt, geofenceRefusal, normalizeCheckInRating, normalizeCheckInTags,
+} = require('../../src/utils/vibeCheckIn');
+const { CHECKINS_TABLE, venueVibeIndexes } = require('./vibeIndex');
+const { submitVibeImage } = require('./vibeScoring');
+
+// Attendee vibe check-ins. Presence is proved by a ticket for an event at the
+// venue scanned at the door tonight, or failing that by the attendee's
+// location inside the venue's geofence.
+
+function checkInError(message, statusCode = 422, extra = {}) {
+  return Object.assign(new Error(message), { statusCode, ...extra });
+}
+
+function checkInFromRow(row) {
+  return {
+    id: row.id,
+    venueId: row.venue_slug,
+    userId: row.user_id,
+    rating: row.rating ?? null,
+    imageId: row.image_id || null,
+    tags: row.tags || [],
+    presence: row.presence,
+    createdAt: row.created_at,
+  };
+}
+
+/** Name of the event whose ticket, scanned at the door, puts the user at this venue tonight */
+async function ticketPresence(admin, userId, venueId, now) {
+  const since = new Date(now.getTime() - VIBE_CHECKIN_TICKET_HOURS * 3600000).toISOString();
+  const { data: tickets, error } = await admin.from('tickets').select('event_slug')
+    .eq('buyer_id', userId).eq('is_scanned', true).gte('scanned_at', since);
+  if (error) throw error;
+  const eventSlugs = [...new Set((tickets || []).map((t) => t.event_slug).filter(Boolean))];
+  if (!eventSlugs.length) return null;
+  const { data: events, error: eventError } = await admin.from('events').select('slug,name')
+    .in('slug', eventSlugs).eq('venue_slug', venueId).limit(1);
+  if (eventError) throw eventError;
+  return events?.[0]?.name || null;
+}
+
+async function retryAtFor(admin, userId, venueId, now) {
+  const { data, error } = await admin.from(CHECKINS_TABLE).select('venue_slug,created_at')
+    .eq('user_id', userId).gte('created_at', new Date(now.getTime() - 3600000).toISOString());
+  if (error) throw error;
+  return checkInRetryAt((data || []).map((r) => ({ venueId: r.venue_slug, createdAt: new Date(r.created_at) })), venueId, now);
+}
+
+async function checkInEligibility(admin, userId, venueId, now = new Date()) {
+  const [ticketEvent, retryAt] = await Promise.all([
+    ticketPresence(admin, userId, venueId, now),
+    retryAtFor(admin, userId, venueId, now),
+  ]);
+  return { ticketEvent, retryAt: retryAt ? retryAt.toISOString() : null };
+}
+
+/**
+ * Verify presence and rate limits, then record the check-in. A photo goes
+ * through the vibe-scoring worker like any vibe photo; a rating is stored with
+ * the live index at the time, which later decides whether it agreed with the
+ * crowd and so the attendee's reputation.
+ */
+async function submitCheckIn(admin, authUser, input, now = new Date()) {
+  const venueId = String(input.venueId || '').trim();
+  const rating = normalizeCheckInRating(input.rating);
+  const imageUrl = input.imageUrl ? String(input.imageUrl) : null;
+  if (!venueId) throw checkInError('venueId is required');
+  if (rating === null && !imageUrl) throw checkInError('Add a photo or a rating from 1 to 5');
+  if (rating !== null && imageUrl) throw checkInError('Send a photo or a rating, not both');
+
+  const { data: venue, error } = await admin.from('venues').select('slug,latitude,longitude,owner_id')
+    .eq('slug', venueId).eq('is_deleted', false).maybeSingle();
+  if (error) throw error;
+  if (!venue) throw checkInError('Venue not found', 404);
+  if (venue.owner_id === authUser.id) throw checkInError("Use Add Vibe to share your own venue's vibe", 403);
+
+  const retryAt = await retryAtFor(admin, authUser.id, venueId, now);
+  if (retryAt) throw checkInError("You've checked in a lot lately. Try again a little later.", 429, { retryAt: retryAt.toISOString() });
+
+  const ticketEvent = await ticketPresence(admin, authUser.id, venueId, now);
+  if (!ticketEvent) {
+    const refusal = geofenceRefusal(input.position, venue, now);
+    if (refusal) throw checkInError(refusal, 403);
+  }
+
+  let crowdIndex = null;
+  if (rating !== null) {
+    const current = (await venueVibeIndexes(admin, [venueId], now))[venueId];
+    crowdIndex = current && current.source !== 'none' ? current.index : null;
+  }
+  const image = imageUrl
+    ? await submitVibeImage(admin, { venueId, imageUrl, uploadedBy: authUser.id })
+    : null;
+
+  const { data, error: insertError } = await admin.from(CHECKINS_TABLE).insert({
+    venue_slug: venueId,
+    user_id: authUser.id,
+    rating,
+    image_id: image?.id || null,
+    tags: normalizeCheckInTags(input.tags),
+    presence: ticketEvent ? 'ticket' : 'geofence',
+    crowd_index: crowdIndex,
+    created_at: now.toISOString(),
+  }).select('*').single();
+  if (insertError) throw insertError;
+  return { checkIn: data, image };
+}
+
+module.exports = { checkInFromRow, checkInEligibility, submitCheckIn };
@@ -0,0 +1,112 @@
+const {
+  VIBE_BASELINE_WEEKS, buildVibeBaselines, computeVenueVibeIndex, uploaderTrust, vibeNightSlot,
+} = require('../../src/utils/vibeIndex');
+const { VIBE_PRESENCE_WEIGHTS, checkInAgrees } = require('../../src/utils/vibeCheckIn');
+
+// Live vibe index per venue, computed on request from tonight's public vibe
+// photos and attendee check-ins, and the usual vibe stored by the
+// vibe-baselines job.
+
+const IMAGES_TABLE = 'vibe_images';
+const CHECKINS_TABLE = 'vibe_checkins';
+const BASELINES_TABLE = 'venue_vibe_baselines';
+// Photos the vibe-scoring worker accepted, and legacy ones from before it
+const PUBLIC_FILTER = 'scoring_status.is.null,scoring_status.eq.scored';
+// Uploader records older than this no longer count towards trust
+const TRUST_WINDOW_DAYS = 90;
+const PAGE = 1000;
+
+async function uploaderTrusts(admin, uploaderIds, now) {
+  const trusts = {};
+  if (!uploaderIds.length) return trusts;
+  const since = new Date(now.getTime() - TRUST_WINDOW_DAYS * 86400000).toISOString();
+  const [{ data, error }, { data: checkIns, error: checkInError }] = await Promise.all([
+    admin.from(IMAGES_TABLE).select('uploaded_by,scoring_status')
+      .in('uploaded_by', uploaderIds).gte('uploaded_at', since).limit(10000),
+    admin.from(CHECKINS_TABLE).select('user_id,rating,crowd_index')
+      .in('user_id', uploaderIds).not('rating', 'is', null).not('crowd_index', 'is', null).gte('created_at', since).limit(10000),
+  ]);
+  if (error) throw error;
+  if (checkInError) throw checkInError;
+  const history = {};
+  const historyOf = (id) => (history[id] = history[id] || { scored: 0, rejected: 0, removed: 0 });
+  for (const row of data || []) {
+    const h = historyOf(row.uploaded_by);
+    if (row.scoring_status in h) h[row.scoring_status]++;
+  }
+  for (const row of checkIns || []) {
+    historyOf(row.user_id)[checkInAgrees(Number(row.rating), Number(row.crowd_index)) ? 'scored' : 'rejected']++;
+  }
+  for (const id of uploaderIds) trusts[id] = uploaderTrust(history[id] || { scored: 0, rejected: 0, removed: 0 });
+  return trusts;
+}
+
+/** { [venueId]: VenueVibeIndex } for each of the given venues */
+async function venueVibeIndexes(admin, venueIds, now = new Date()) {
+  const slot = vibeNightSlot(now);
+  const [{ data: photos, error }, { data: checkIns, error: checkInError }, { data: baselines, error: baselineError }] = await Promise.all([
+    admin.from(IMAGES_TABLE).select('venue_slug,vibe_rating,uploaded_at,uploaded_by')
+      .in('venue_slug', venueIds).or(PUBLIC_FILTER).not('vibe_rating', 'is', null)
+      .gte('uploaded_at', slot.nightStart.toISOString()).lte('uploaded_at', now.toISOString()),
+    admin.from(CHECKINS_TABLE).select('venue_slug,user_id,rating,tags,presence,created_at')
+      .in('venue_slug', venueIds).gte('created_at', slot.nightStart.toISOString()).lte('created_at', now.toISOString()),
+    admin.from(BASELINES_TABLE).select('venue_slug,weekday,hour,mean,photos').in('venue_slug', venueIds).eq('weekday', slot.weekday),
+  ]);
+  if (error) throw error;
+  if (checkInError) throw checkInError;
+  if (baselineError) throw baselineError;
+
+  const contributors = [...(photos || []).map((p) => p.uploaded_by), ...(checkIns || []).map((c) => c.user_id)];
+  const trusts = await uploaderTrusts(admin, [...new Set(contributors.filter(Boolean))], now);
+  const indexes = {};
+  for (const venueId of venueIds) {
+    indexes[venueId] = computeVenueVibeIndex({
+      venueId,
+      now,
+      photos: [
+        ...(photos || []).filter((p) => p.venue_slug === venueId).map((p) => ({
+          rating: Number(p.vibe_rating), uploadedAt: new Date(p.uploaded_at), trust: trusts[p.uploaded_by] ?? 0.5,
+        })),
+        // Photo check-ins are already among the photos; only rated ones count here
+        ...(checkIns || []).filter((c) => c.venue_slug === venueId && c.rating != null).map((c) => ({
+          rating: Number(c.rating), uploadedAt: new Date(c.created_at), checkIn: true,
+          trust: (trusts[c.user_id] ?? 0.5) * (VIBE_PRESENCE_WEIGHTS[c.presence] ?? 0),
+        })),
+      ],
+      tags: (checkIns || []).filter((c) => c.venue_slug === venueId).map((c) => ({ tags: c.tags || [], at: new Date(c.created_at) })),
+      baselines: (baselines || []).filter((b) => b.venue_slug === venueId).map((b) => ({
+        venueId, weekday: b.weekday, hour: b.hour, mean: Number(b.mean), photos: b.photos,
+      })),
+    });
+  }
+  return indexes;
+}
+
+/** Recompute every venue's usual vibe from the last few weeks of public photos */
+async function refreshVibeBaselines(admin, now = new Date()) {
+  const since = new Date(now.getTime() - VIBE_BASELINE_WEEKS * 7 * 86400000).toISOString();
+  const rows = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await admin.from(IMAGES_TABLE).select('venue_slug,vibe_rating,uploaded_at')
+      .or(PUBLIC_FILTER).not('vibe_rating', 'is', null).gte('uploaded_at', since)
+      .order('uploaded_at', { ascending: true }).range(offset, offset + PAGE - 1);
+    if (error) throw error;
+    rows.push(...(data || []).map((r) => ({ venueId: r.venue_slug, rating: Number(r.vibe_rating), uploadedAt: new Date(r.uploaded_at) })));
+    if (!data || data.length < PAGE) break;
+  }
+
+  const updatedAt = now.toISOString();
+  const baselines = buildVibeBaselines(rows).map((b) => ({
+    venue_slug: b.venueId, weekday: b.weekday, hour: b.hour, mean: b.mean, photos: b.photos, updated_at: updatedAt,
+  }));
+  for (let i = 0; i < baselines.length; i += PAGE) {
+    const { error } = await admin.from(BASELINES_TABLE).upsert(baselines.slice(i, i + PAGE), { onConflict: 'venue_slug,weekday,hour' });
+    if (error) throw error;
+  }
+  // Slots with no photos left in the window
+  const { error } = await admin.from(BASELINES_TABLE).delete().lt('updated_at', updatedAt);
+  if (error) throw error;
+  return { photos: rows.length, slots: baselines.length };
+}
+
+module.exports = { CHECKINS_TABLE, venueVibeIndexes, refreshVibeBaselines };
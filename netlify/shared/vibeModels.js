@@ -0,0 +1,128 @@
+const fs = require('fs');
+const path = require('path');
+const { vibeFromPixels, vibeFromPrediction } = require('../../src/utils/vibeScoring');
+
+// The vibe model registry. vibe_models/registry.json lists every version with
+// its class mapping and measured metrics, names the promoted version that
+// rates photos and, optionally, a candidate that shadow scores them.
+// scripts/vibe-model.js registers, evaluates and promotes versions. Until a
+// version is promoted, photos are rated from their pixels alone.
+
+const MODEL_ROOT = process.env.VIBE_MODEL_DIR
+  || path.join(process.env.LAMBDA_TASK_ROOT || process.cwd(), 'vibe_models');
+const REGISTRY_FILE = path.join(MODEL_ROOT, 'registry.json');
+// Stands in for a model while none is promoted, or the promoted one can't load
+const HEURISTIC_VERSION = 'vibe-heuristic-v1';
+const HEURISTIC_INPUT_SIZE = 224;
+
+let registry = null;
+let tfPromise = null;
+const models = new Map();
+
+// Read once per warm container; a promotion ships with a deploy
+function modelRegistry() {
+  if (!registry) registry = JSON.parse(fs.readFileSync(REGISTRY_FILE, 'utf8'));
+  return registry;
+}
+
+function registeredModel(version) {
+  const entry = modelRegistry().versions.find((v) => v.version === version);
+  if (!entry) throw new Error(`Vibe model ${version} is not registered`);
+  return entry;
+}
+
+function currentModelVersion() {
+  return modelRegistry().promoted || null;
+}
+
+function candidateModelVersion() {
+  const { promoted, candidate } = modelRegistry();
+  return candidate && candidate !== promoted ? candidate : null;
+}
+
+/** Files a version's model.json needs that are not on disk; empty when it can load */
+function missingModelFiles(version) {
+  const dir = path.join(MODEL_ROOT, registeredModel(version).path);
+  if (!fs.existsSync(path.join(dir, 'model.json'))) return ['model.json'];
+  const manifest = JSON.parse(fs.readFileSync(path.join(dir, 'model.json'), 'utf8'));
+  return (manifest.weightsManifest || []).flatMap((g) => g.paths).filter((p) => !fs.existsSync(path.join(dir, p)));
+}
+
+/** The version new photos are rated with: the promoted one, or the heuristic while there is none that can load */
+function scoringModelVersion() {
+  const promoted = currentModelVersion();
+  if (!promoted) return HEURISTIC_VERSION;
+  const missing = missingModelFiles(promoted);
+  if (!missing.length) return promoted;
+  console.error(`Vibe model ${promoted} is missing ${missing.join(', ')}; rating photos with ${HEURISTIC_VERSION}`);
+  return HEURISTIC_VERSION;
+}
+
+function modelInputSize(version) {
+  return version === HEURISTIC_VERSION ? HEURISTIC_INPUT_SIZE : registeredModel(version).inputSize;
+}
+
+function loadTf() {
+  if (!tfPromise) {
+    tfPromise = (async () => {
+      const tf = require('@tensorflow/tfjs');
+      await tf.setBackend('cpu');
+      await tf.ready();
+      return tf;
+    })().catch((error) => {
+      tfPromise = null;
+      throw error;
+    });
+  }
+  return tfPromise;
+}
+
+// Each version is loaded once per warm container
+function loadModel(version) {
+  if (!models.has(version)) {
+    const loading = (async () => {
+      const entry = registeredModel(version);
+      const missing = missingModelFiles(version);
+      if (missing.length) throw new Error(`Vibe model ${version} is missing ${missing.join(', ')}`);
+      const dir = path.join(MODEL_ROOT, entry.path);
+      const tf = await loadTf();
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, 'model.json'), 'utf8'));
+      const groups = manifest.weightsManifest || [];
+      const shards = groups.flatMap((g) => g.paths).map((p) => fs.readFileSync(path.join(dir, p)));
+      const weightData = Buffer.concat(shards);
+      const model = await tf.loadLayersModel(tf.io.fromMemory({
+        modelTopology: manifest.modelTopology,
+        weightSpecs: groups.flatMap((g) => g.weights),
+        weightData: weightData.buffer.slice(weightData.byteOffset, weightData.byteOffset + weightData.byteLength),
+      }));
+      return { tf, model, entry };
+    })().catch((error) => {
+      models.delete(version);
+      throw error;
+    });
+    models.set(version, loading);
+  }
+  return models.get(version);
+}
+
+/**
+ * Rating for RGB pixels at the version's input size, through the version's
+ * own class mapping. The heuristic has no classes, so no confidence either.
+ */
+async function predict(version, rgb) {
+  if (version === HEURISTIC_VERSION) {
+    return { ...vibeFromPixels(rgb), predictedClass: null, confidence: null, probabilities: null, modelVersion: version };
+  }
+  const { tf, model, entry } = await loadModel(version);
+  const size = entry.inputSize;
+  const probabilities = tf.tidy(() => {
+    const input = tf.tensor4d(Float32Array.from(rgb), [1, size, size, 3]);
+    return model.predict(input).dataSync();
+  });
+  return { ...vibeFromPrediction(probabilities, entry.classRatings), probabilities: Array.from(probabilities), modelVersion: version };
+}
+
+module.exports = {
+  HEURISTIC_VERSION, MODEL_ROOT, REGISTRY_FILE, candidateModelVersion, currentModelVersion, missingModelFiles, modelInputSize,
+  modelRegistry, predict, registeredModel, scoringModelVersion,
+};
@@ -0,0 +1,173 @@
+const {
+  VIBE_DUPLICATE_DISTANCE, differenceHash, exifCaptureTime, hammingDistance, vibeImageStats, vibeVerdict,
+} = require('../../src/utils/vibeScoring');
+const { candidateModelVersion, modelInputSize, predict, registeredModel, scoringModelVersion } = require('./vibeModels');
+
+// Server-side vibe scoring. Uploads are inserted as pending by the
+// vibe-images and vibe-checkins functions and scored by vibe-scoring-background with the
+// promoted version in the vibe model registry, on the CPU backend, or from
+// their pixels while no version is promoted. A candidate
+// version, when there is one, scores the same photos alongside it without
+// affecting ratings. The vibe-scoring-sweep retries failures and re-scores
+// photos whenever a new version is promoted.
+
+const TABLE = 'vibe_images';
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+// The worker downloads whatever it is given, so only our own vibe uploads are accepted
+const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL || 'https://pub-9790a44a83ab4a5e92acd4f1904afbbe.r2.dev';
+// Earlier photos compared for duplicates
+const DUPLICATE_LOOKBACK_DAYS = 30;
+const DUPLICATE_LOOKBACK_ROWS = 5000;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const MAX_ATTEMPTS = 3;
+
+async function downloadImage(url) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not download vibe photo (${response.status})`);
+  const bytes = Buffer.from(await response.arrayBuffer());
+  if (bytes.length > MAX_IMAGE_BYTES) throw new Error('Vibe photo is too large to score');
+  return bytes;
+}
+
+/** Upright RGB pixels at a model's input size */
+async function modelInput(bytes, inputSize) {
+  const sharp = require('sharp');
+  return sharp(bytes, { failOn: 'none' }).rotate().removeAlpha().resize(inputSize, inputSize, { fit: 'fill' }).raw().toBuffer();
+}
+
+/** Upright RGB at the model's input size, and the 9x8 greyscale thumbnail for hashing */
+async function decodeImage(bytes, inputSize) {
+  const sharp = require('sharp');
+  const [rgb, thumbnail] = await Promise.all([
+    modelInput(bytes, inputSize),
+    sharp(bytes, { failOn: 'none' }).rotate().greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer(),
+  ]);
+  return { rgb, thumbnail };
+}
+
+/** The candidate model's score, recorded for comparison; a failure here never fails the photo */
+async function shadowScore(bytes, rgb, inputSize) {
+  const candidate = candidateModelVersion();
+  if (!candidate) return null;
+  try {
+    const { inputSize: candidateSize } = registeredModel(candidate);
+    return await predict(candidate, candidateSize === inputSize ? rgb : await modelInput(bytes, candidateSize));
+  } catch (error) {
+    console.error('vibe shadow scoring error', candidate, error);
+    return null;
+  }
+}
+
+/** The earliest photo uploaded before this one that is a near-copy of it */
+async function findDuplicate(admin, row, hash) {
+  const since = new Date(new Date(row.uploaded_at).getTime() - DUPLICATE_LOOKBACK_DAYS * 86400000).toISOString();
+  const { data, error } = await admin.from(TABLE).select('id,perceptual_hash,uploaded_at')
+    .neq('id', row.id).not('perceptual_hash', 'is', null)
+    .gte('uploaded_at', since).lte('uploaded_at', row.uploaded_at)
+    .order('uploaded_at', { ascending: true }).limit(DUPLICATE_LOOKBACK_ROWS);
+  if (error) throw error;
+  const match = (data || []).find((r) => hammingDistance(r.perceptual_hash, hash) <= VIBE_DUPLICATE_DISTANCE);
+  return match ? match.id : null;
+}
+
+/**
+ * Score one vibe photo and record the outcome. A failure is recorded on the
+ * row for the sweep to retry; it never leaves a client-supplied rating behind.
+ */
+async function scoreVibeImage(admin, row) {
+  const now = new Date().toISOString();
+  try {
+    const bytes = await downloadImage(row.image_url);
+    const version = scoringModelVersion();
+    const inputSize = modelInputSize(version);
+    const { rgb, thumbnail } = await decodeImage(bytes, inputSize);
+    const hash = differenceHash(thumbnail);
+    // Only the file we stored is evidence; a time the uploader sent could say anything
+    const capturedAt = exifCaptureTime(new Uint8Array(bytes));
+    const prediction = await predict(version, rgb);
+    const shadow = await shadowScore(bytes, rgb, inputSize);
+    const stats = vibeImageStats(rgb);
+    const duplicateOf = await findDuplicate(admin, row, hash);
+    const verdict = vibeVerdict({ uploadedAt: new Date(row.uploaded_at), capturedAt, duplicateOf, confidence: prediction.confidence, stats });
+
+    const update = {
+      scoring_status: verdict.status,
+      vibe_rating: verdict.status === 'rejected' ? null : prediction.vibeRating,
+      analysis_data: prediction.analysisData,
+      model_version: prediction.modelVersion,
+      confidence: prediction.confidence === null ? null : Math.round(prediction.confidence * 1000) / 1000,
+      shadow_model_version: shadow ? shadow.modelVersion : null,
+      shadow_vibe_rating: shadow ? shadow.vibeRating : null,
+      shadow_confidence: shadow ? Math.round(shadow.confidence * 1000) / 1000 : null,
+      perceptual_hash: hash,
+      captured_at: capturedAt ? capturedAt.toISOString() : null,
+      duplicate_of: duplicateOf,
+      reasons: verdict.reasons,
+      image_stats: stats,
+      scored_at: now,
+      scoring_error: null,
+    };
+    const { error } = await admin.from(TABLE).update(update).eq('id', row.id);
+    if (error) throw error;
+    return { id: row.id, status: verdict.status, reasons: verdict.reasons, vibeRating: update.vibe_rating };
+  } catch (error) {
+    console.error('vibe scoring error', row.id, error);
+    const attempts = (row.scoring_attempts || 0) + 1;
+    await admin.from(TABLE).update({
+      scoring_status: 'failed', scoring_attempts: attempts, scoring_error: String(error.message || error).slice(0, 500), scored_at: now,
+    }).eq('id', row.id);
+    return { id: row.id, status: 'failed', error: error.message };
+  }
+}
+
+/** Hand photos to the background worker; the sweep picks them up if this fails */
+async function startScoring(imageIds) {
+  if (!imageIds.length) return;
+  try {
+    const response = await fetch(`${SITE_URL}/.netlify/functions/vibe-scoring-background`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ imageIds }),
+    });
+    if (!response.ok) console.error('vibe scoring start failed', response.status);
+  } catch (e) { console.error('vibe scoring start error', e); }
+}
+
+/**
+ * Insert an uploaded vibe photo as pending and start scoring it. Whatever
+ * rating the client might send is ignored; the worker scores every photo.
+ */
+async function submitVibeImage(admin, { venueId, imageUrl, uploadedBy }) {
+  if (!String(imageUrl || '').startsWith(`${R2_PUBLIC_URL}/vibes/`)) {
+    throw Object.assign(new Error('Upload the photo before submitting it'), { statusCode: 422 });
+  }
+  const { data, error } = await admin.from(TABLE).insert({
+    venue_slug: venueId,
+    image_url: imageUrl,
+    uploaded_by: uploadedBy,
+    uploaded_at: new Date().toISOString(),
+    scoring_status: 'pending',
+    scoring_attempts: 0,
+  }).select('*').single();
+  if (error) throw error;
+  await startScoring([data.id]);
+  return data;
+}
+
+function vibeImageFromRow(row) {
+  return {
+    id: row.id,
+    venueId: row.venue_slug,
+    imageUrl: row.image_url,
+    vibeRating: row.vibe_rating ?? 0,
+    uploadedAt: row.uploaded_at,
+    uploadedBy: row.uploaded_by,
+    analysisData: row.analysis_data || undefined,
+    scoringStatus: row.scoring_status || undefined,
+    modelVersion: row.model_version || undefined,
+    confidence: row.confidence ?? undefined,
+    reasons: row.reasons || [],
+  };
+}
+
+module.exports = { TABLE, MAX_ATTEMPTS, modelInput, scoreVibeImage, startScoring, submitVibeImage, vibeImageFromRow };
@@ -0,0 +1,131 @@
+const crypto = require('crypto');
+const { loadEvent } = require('./doorAccess');
+
+// How long a released spot is held for the person at the front of the line
+const OFFER_TTL_MINUTES = Number(process.env.WAITLIST_OFFER_TTL_MINUTES || 30);
+const SITE_URL = process.env.URL || 'https://yovibe.net';
+
+// Same statuses SupabaseService.getSoldTicketCount treats as taking inventory
+const HOLDING_STATUSES = ['active', 'used', 'pending'];
+
+async function soldCount(admin, eventSlug, feeType) {
+  const { count, error } = await admin.from('tickets')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_slug', eventSlug).eq('entry_fee_type', feeType)
+    .in('status', HOLDING_STATUSES);
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * Settle outstanding offers: ones the holder has since bought become
+ * `claimed`, ones past their deadline become `expired` so the spot rolls over.
+ */
+async function settleOffers(admin, eventSlug, feeType) {
+  const { data: offers, error } = await admin.from('ticket_waitlist').select('*')
+    .eq('event_id', eventSlug).eq('fee_type', feeType).eq('status', 'offered');
+  if (error) throw error;
+
+  const now = new Date();
+  const outstanding = [];
+  for (const offer of offers || []) {
+    const { data: bought } = await admin.from('tickets').select('id')
+      .eq('event_slug', eventSlug).eq('entry_fee_type', feeType)
+      .ilike('buyer_email', offer.email).in('status', HOLDING_STATUSES)
+      .gte('purchase_date', offer.offered_at).limit(1);
+    if (bought?.length) {
+      await admin.from('ticket_waitlist').update({ status: 'claimed', claimed_at: now.toISOString() }).eq('id', offer.id);
+    } else if (new Date(offer.offer_expires_at) <= now) {
+      await admin.from('ticket_waitlist').update({ status: 'expired' }).eq('id', offer.id);
+    } else {
+      outstanding.push(offer);
+    }
+  }
+  return outstanding;
+}
+
+async function sendOffer(admin, entry, eventRow) {
+  const claimUrl = `${SITE_URL}/events/tickets/${encodeURIComponent(eventRow.slug || eventRow.id)}?claim=${entry.claim_token}`;
+  const expires = new Date(entry.offer_expires_at);
+
+  if (entry.user_id) {
+    try {
+      await admin.from('notifications').insert({
+        user_id: entry.user_id, title: '🎟️ A ticket is available for you',
+        body: `A ${entry.fee_type} ticket for ${eventRow.name} is held for you until ${expires.toLocaleTimeString('en-UG', { hour: '2-digit', minute: '2-digit' })}.`,
+        type: 'waitlist_offer', data: { eventId: eventRow.slug || eventRow.id, feeType: entry.fee_type, claimToken: entry.claim_token },
+        deep_link: claimUrl, is_read: false, created_at: new Date().toISOString(),
+      });
+    } catch (e) { console.error('waitlist push error', e); }
+  }
+
+  try {
+    const response = await fetch(`${SITE_URL}/.netlify/functions/send-ticket-email`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        kind: 'waitlist_offer', buyerEmail: entry.email, buyerName: entry.name,
+        eventName: eventRow.name, ticketType: entry.fee_type, claimUrl, expiresAt: entry.offer_expires_at,
+      }),
+    });
+    if (!response.ok) console.error('waitlist email failed', response.status, await response.text());
+  } catch (e) { console.error('waitlist email error', e); }
+}
+
+/**
+ * Offer every spot that is genuinely free for a fee type to the next people
+ * in line. Safe to call repeatedly: spots already held by an outstanding
+ * offer are not counted as free.
+ */
+async function releaseInventory(admin, eventSlug, feeType) {
+  if (!eventSlug || !feeType) return [];
+  const eventRow = await loadEvent(admin, eventSlug);
+  const slug = eventRow.slug || eventRow.id;
+  const fee = (eventRow.entry_fees || []).find((f) => f.name === feeType);
+  const outstanding = await settleOffers(admin, slug, feeType);
+
+  let free;
+  if (!fee || !(Number(fee.maxTickets) > 0)) {
+    // Uncapped tier: anyone still waiting can simply buy
+    free = Number.MAX_SAFE_INTEGER;
+  } else {
+    free = Number(fee.maxTickets) - (await soldCount(admin, slug, feeType)) - outstanding.length;
+  }
+  if (free <= 0) return [];
+
+  const { data: waiting, error } = await admin.from('ticket_waitlist').select('*')
+    .eq('event_id', slug).eq('fee_type', feeType).eq('status', 'waiting')
+    .order('created_at', { ascending: true }).limit(Math.min(free, 50));
+  if (error) throw error;
+
+  const offered = [];
+  for (const entry of waiting || []) {
+    const now = new Date();
+    const { data: updated } = await admin.from('ticket_waitlist').update({
+      status: 'offered', claim_token: crypto.randomBytes(16).toString('hex'),
+      offered_at: now.toISOString(), offer_expires_at: new Date(now.getTime() + OFFER_TTL_MINUTES * 60 * 1000).toISOString(),
+    }).eq('id', entry.id).eq('status', 'waiting').select('*').maybeSingle();
+    if (!updated) continue;
+    await sendOffer(admin, updated, eventRow);
+    offered.push(updated);
+  }
+  return offered;
+}
+
+/** Refund callbacks must still acknowledge the provider if the waitlist fails */
+async function releaseRefundedSpot(admin, ticket) {
+  if (!ticket?.entry_fee_type) return;
+  try {
+    await releaseInventory(admin, ticket.event_slug || ticket.event_id, ticket.entry_fee_type);
+  } catch (e) { console.error('waitlist release after refund failed', e); }
+}
+
+/** Spots currently held for waitlisted users, per fee type */
+async function heldOffers(admin, eventSlug) {
+  const { data, error } = await admin.from('ticket_waitlist').select('fee_type, offer_expires_at')
+    .eq('event_id', eventSlug).eq('status', 'offered').gt('offer_expires_at', new Date().toISOString());
+  if (error) throw error;
+  return (data || []).reduce((acc, row) => ({ ...acc, [row.fee_type]: (acc[row.fee_type] || 0) + 1 }), {});
+}
+
+module.exports = { releaseInventory, releaseRefundedSpot, settleOffers, heldOffers, OFFER_TTL_MINUTES };
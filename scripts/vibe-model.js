@@ -0,0 +1,265 @@
+// Vibe model registry and evaluation harness.
+//
+//   npm run vibe-model -- list
+//   npm run vibe-model -- check
+//   npm run vibe-model -- register <tfjs-dir> [--classes ratings.json] [--notes "..."]
+//   npm run vibe-model -- evaluate <version> <dataset-dir> [--save]
+//   npm run vibe-model -- promote <version> [--force]   (--force never skips the evaluation)
+//   npm run vibe-model -- shadow <version|off>
+//   npm run vibe-model -- shadow-report [--days 7]
+//
+// A labelled set is a directory with a sub-directory per class index
+// (0 is the quietest), e.g. dataset/0/*.jpg ... dataset/5/*.jpg. An optional
+// ratings.csv of "path,rating" lines gives people's star ratings for some
+// photos; the rest are rated by their class. Registry changes take effect on
+// the next deploy; until a version is promoted, the worker rates photos from
+// their pixels.
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const projectRoot = path.join(__dirname, "..");
+process.env.VIBE_MODEL_DIR = process.env.VIBE_MODEL_DIR || path.join(projectRoot, "vibe_models");
+
+// The evaluation maths is shared with the app, in TypeScript
+require("ts-node").register({ transpileOnly: true, compilerOptions: { module: "commonjs" } });
+
+const { evaluateVibePredictions, summarizeShadowScores, vibePromotionRefusals } = require("../src/utils/vibeModelEval");
+const { VIBE_CLASS_RATINGS, vibeRatingFor } = require("../src/utils/vibeScoring");
+const {
+  HEURISTIC_VERSION, MODEL_ROOT, REGISTRY_FILE, missingModelFiles, modelRegistry, predict, registeredModel,
+} = require("../netlify/shared/vibeModels");
+const { modelInput } = require("../netlify/shared/vibeScoring");
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp"]);
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function option(args, name) {
+  const i = args.indexOf(name);
+  return i === -1 ? null : args[i + 1];
+}
+
+function saveRegistry(registry) {
+  fs.writeFileSync(REGISTRY_FILE, `${JSON.stringify(registry, null, 2)}\n`);
+}
+
+function sha256(data) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function list() {
+  const { promoted, candidate, versions } = modelRegistry();
+  for (const v of versions) {
+    const role = v.version === promoted ? "promoted" : v.version === candidate ? "candidate" : "";
+    const m = v.metrics;
+    const metrics = m
+      ? `accuracy ${m.accuracy}, rating MAE ${m.ratingMae}, calibration error ${m.calibrationError} on ${m.dataset} (${m.samples})`
+      : "not evaluated";
+    console.log(`${v.version}  ${role.padEnd(9)}  ${metrics}`);
+  }
+}
+
+/** Every file each registered version's model.json points at is on disk, and the promoted version has metrics */
+function check() {
+  const { promoted, versions } = modelRegistry();
+  let problems = 0;
+  for (const v of versions) {
+    const missing = missingModelFiles(v.version);
+    if (!missing.length) continue;
+    problems++;
+    console.error(`${v.version}${v.version === promoted ? " (promoted)" : ""} is missing ${missing.join(", ")}`);
+  }
+  if (promoted && !registeredModel(promoted).metrics) {
+    problems++;
+    console.error(`${promoted} is promoted but was never evaluated`);
+  }
+  if (problems) fail(`${problems} problem${problems === 1 ? "" : "s"} with the vibe model registry`);
+  console.log(`All ${versions.length} versions have their weights; ${promoted ? `${promoted} has metrics` : `no version is promoted, so photos are rated by ${HEURISTIC_VERSION}`}`);
+}
+
+/** Copy a converted TFJS model into the registry, named by the hash of its model.json */
+function register(args) {
+  const source = args[0];
+  if (!source) fail("Usage: register <tfjs-dir> [--classes ratings.json] [--notes text]");
+  const json = fs.readFileSync(path.join(source, "model.json"));
+  const version = `vibe-cnn-${sha256(json).slice(0, 12)}`;
+  const registry = modelRegistry();
+  if (registry.versions.some((v) => v.version === version)) fail(`${version} is already registered`);
+
+  const manifest = JSON.parse(json.toString("utf8"));
+  const layers = manifest.modelTopology?.model_config?.config?.layers || manifest.modelTopology?.config?.layers || [];
+  const input = layers[0]?.config || {};
+  const inputShape = input.inputShape || (input.batch_shape || input.batch_input_shape || []).slice(1);
+  const outputs = [...layers].reverse().find((l) => l.config?.units)?.config.units;
+
+  const classesFile = option(args, "--classes");
+  const classRatings = classesFile
+    ? JSON.parse(fs.readFileSync(classesFile, "utf8"))
+    : registry.promoted ? registeredModel(registry.promoted).classRatings : VIBE_CLASS_RATINGS;
+  if (outputs && outputs !== classRatings.length) {
+    fail(`The model predicts ${outputs} classes but the mapping has ${classRatings.length}; pass --classes`);
+  }
+
+  const target = path.join(MODEL_ROOT, version);
+  fs.mkdirSync(target, { recursive: true });
+  fs.copyFileSync(path.join(source, "model.json"), path.join(target, "model.json"));
+  for (const shard of (manifest.weightsManifest || []).flatMap((g) => g.paths)) {
+    fs.copyFileSync(path.join(source, shard), path.join(target, shard));
+  }
+
+  registry.versions.push({
+    version,
+    path: version,
+    inputSize: inputShape[0] || 224,
+    classRatings,
+    createdAt: new Date().toISOString(),
+    promotedAt: null,
+    metrics: null,
+    ...(option(args, "--notes") ? { notes: option(args, "--notes") } : {}),
+  });
+  saveRegistry(registry);
+  console.log(`Registered ${version}; evaluate it before promoting or shadowing it`);
+}
+
+function readRatings(dataset) {
+  const file = path.join(dataset, "ratings.csv");
+  const ratings = new Map();
+  if (!fs.existsSync(file)) return ratings;
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    const [photo, rating] = line.split(",").map((s) => s.trim());
+    if (!photo || !rating || !Number.isFinite(Number(rating))) continue;
+    ratings.set(photo.split(path.sep).join("/"), Number(rating));
+  }
+  return ratings;
+}
+
+function labelledPhotos(dataset) {
+  const ratings = readRatings(dataset);
+  const photos = [];
+  for (const dir of fs.readdirSync(dataset, { withFileTypes: true })) {
+    if (!dir.isDirectory() || !/^\d+$/.test(dir.name)) continue;
+    for (const file of fs.readdirSync(path.join(dataset, dir.name)).sort()) {
+      if (!IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase())) continue;
+      const relative = `${dir.name}/${file}`;
+      photos.push({ relative, label: Number(dir.name), rating: ratings.get(relative) ?? null });
+    }
+  }
+  return photos;
+}
+
+function printMetrics(version, metrics) {
+  console.log(`\n${version} on ${metrics.dataset}: ${metrics.samples} photos`);
+  console.log(`accuracy ${metrics.accuracy}  rating MAE ${metrics.ratingMae}  calibration error ${metrics.calibrationError}  low confidence ${metrics.lowConfidenceShare}`);
+  console.log("\nconfusion (rows actual, columns predicted)");
+  console.log(`      ${metrics.confusion.map((_, i) => String(i).padStart(5)).join("")}`);
+  metrics.confusion.forEach((row, i) => console.log(`${String(i).padStart(5)} ${row.map((n) => String(n).padStart(5)).join("")}`));
+  console.log("\ncalibration (confidence range: photos, mean confidence, accuracy)");
+  for (const bin of metrics.calibration.filter((b) => b.count)) {
+    console.log(`  ${bin.from.toFixed(1)}-${bin.to.toFixed(1)}: ${bin.count}, ${bin.confidence}, ${bin.accuracy}`);
+  }
+}
+
+/** Run a version over a labelled set, print its report and optionally record it in the registry */
+async function evaluate(args) {
+  const [version, dataset] = args;
+  if (!version || !dataset) fail("Usage: evaluate <version> <dataset-dir> [--save]");
+  const entry = registeredModel(version);
+  const photos = labelledPhotos(dataset);
+  if (!photos.length) fail(`No labelled photos in ${dataset}; expected sub-directories named by class index`);
+
+  const samples = [];
+  const fingerprint = [];
+  for (const [i, photo] of photos.entries()) {
+    const bytes = fs.readFileSync(path.join(dataset, photo.relative));
+    const { probabilities } = await predict(version, await modelInput(bytes, entry.inputSize));
+    samples.push({ label: photo.label, rating: photo.rating, probabilities });
+    fingerprint.push(`${photo.relative} ${sha256(bytes)} ${photo.label} ${photo.rating ?? ""}`);
+    if ((i + 1) % 50 === 0) console.log(`${i + 1}/${photos.length}`);
+  }
+
+  const metrics = evaluateVibePredictions(samples, entry.classRatings, {
+    name: path.basename(path.resolve(dataset)),
+    hash: sha256(fingerprint.join("\n")).slice(0, 16),
+  });
+  printMetrics(version, metrics);
+
+  if (args.includes("--save")) {
+    const registry = modelRegistry();
+    registry.versions.find((v) => v.version === version).metrics = metrics;
+    saveRegistry(registry);
+    console.log(`\nSaved the metrics for ${version}`);
+  }
+}
+
+function promote(args) {
+  const version = args[0];
+  if (!version) fail("Usage: promote <version> [--force]");
+  const registry = modelRegistry();
+  const entry = registeredModel(version);
+  if (registry.promoted === version) fail(`${version} is already promoted`);
+  if (!entry.metrics) fail(`Evaluate ${version} with --save before promoting it`);
+  if (missingModelFiles(version).length) fail(`${version} is missing ${missingModelFiles(version).join(", ")}`);
+
+  const refusals = vibePromotionRefusals(entry, registry.promoted ? registeredModel(registry.promoted) : null);
+  if (refusals.length) {
+    refusals.forEach((r) => console.error(`- ${r}`));
+    if (!args.includes("--force")) fail(`Not promoting ${version}`);
+    console.error("Promoting anyway (--force)");
+  }
+
+  entry.promotedAt = new Date().toISOString();
+  registry.promoted = version;
+  if (registry.candidate === version) registry.candidate = null;
+  saveRegistry(registry);
+  console.log(`Promoted ${version}. After the deploy, the sweep re-scores the last week's photos with it.`);
+}
+
+function shadow(args) {
+  const version = args[0];
+  if (!version) fail("Usage: shadow <version|off>");
+  const registry = modelRegistry();
+  if (version === "off") {
+    registry.candidate = null;
+  } else {
+    if (registry.promoted === version) fail(`${version} is the promoted version`);
+    if (!registeredModel(version).metrics) fail(`Evaluate ${version} before shadowing it`);
+    if (missingModelFiles(version).length) fail(`${version} is missing ${missingModelFiles(version).join(", ")}`);
+    registry.candidate = version;
+  }
+  saveRegistry(registry);
+  console.log(registry.candidate ? `${version} will shadow score new photos after the deploy` : "Shadow scoring off after the deploy");
+}
+
+/** Compare the candidate's shadow scores of live photos with the promoted version's */
+async function shadowReport(args) {
+  require("dotenv").config({ path: path.join(projectRoot, ".env") });
+  const { getAdminClient } = require("../netlify/shared/supabaseAdmin");
+  const { promoted, candidate } = modelRegistry();
+  if (!candidate) fail("No candidate is being shadow scored");
+  const days = Number(option(args, "--days") || 7);
+
+  const { data, error } = await getAdminClient().from("vibe_images")
+    .select("analysis_data,confidence,shadow_vibe_rating,shadow_confidence")
+    .eq("model_version", promoted || HEURISTIC_VERSION).eq("shadow_model_version", candidate)
+    .gte("scored_at", new Date(Date.now() - days * 86400000).toISOString())
+    .limit(5000);
+  if (error) throw error;
+
+  const summary = summarizeShadowScores(candidate, (data || []).filter((r) => r.analysis_data).map((r) => ({
+    rating: vibeRatingFor(r.analysis_data),
+    confidence: r.confidence ?? 0,
+    shadowRating: r.shadow_vibe_rating,
+    shadowConfidence: r.shadow_confidence ?? 0,
+  })));
+  console.log(`${candidate} against ${promoted || HEURISTIC_VERSION} over ${days} days: ${summary.count} photos`);
+  console.log(`rating MAE ${summary.ratingMae}  rating bias ${summary.ratingBias}  low-confidence disagreements ${summary.confidenceDisagreements}`);
+}
+
+const commands = { list, check, register, evaluate, promote, shadow, "shadow-report": shadowReport };
+const [command, ...args] = process.argv.slice(2);
+if (!commands[command]) fail(`Commands: ${Object.keys(commands).join(", ")}`);
+Promise.resolve().then(() => commands[command](args)).catch((error) => fail(error.stack || String(error)));
@@ -107,7 +107,7 @@ async function saveTokenToRepo(token: string, userId: string | null = null, user
 
 // Main app component with URL routing
 function AppContent() {
-  const { user, loading } = useAuth();
+  const { user, loading, twoFactorPending } = useAuth();
   const { setHeaderRight } = useLayout();
   const [initializing, setInitializing] = useState(true);
   const [banner, setBanner] = useState<{ title: string; body: string } | null>(null);
@@ -125,6 +125,13 @@ function AppContent() {
 
   // Let the router handle all routes - authentication is managed by individual screens
 
+  // A session still owing its second factor (e.g. back from Google sign-in) finishes on the login screen
+  useEffect(() => {
+    if (!twoFactorPending || typeof window === "undefined" || window.location.pathname === "/login") return;
+    const returnTo = encodeURIComponent(window.location.pathname + window.location.search);
+    window.location.href = `/login?returnTo=${returnTo}`;
+  }, [twoFactorPending]);
+
   // Register service worker once and track updates waiting to be applied.
   useEffect(() => {
     if (typeof window === "undefined" || !("serviceWorker" in navigator)) {
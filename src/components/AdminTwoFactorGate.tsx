@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react"
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import { useAuth } from "../contexts/AuthContext"
+import { useCompatNavigation } from "../utils/compatNavigation"
+import TwoFactorService from "../services/TwoFactorService"
+import type { TwoFactorStatus } from "../models/TwoFactor"
+
+interface AdminTwoFactorGateProps {
+  children: React.ReactNode
+}
+
+/**
+ * Holds admin pages back until this sign-in has passed two-factor, when the
+ * admin policy requires it, or until the status check succeeds. Non-admins
+ * fall through to the screen's own access check, and the admin functions
+ * enforce the same policy server-side.
+ */
+export const AdminTwoFactorGate: React.FC<AdminTwoFactorGateProps> = ({ children }) => {
+  const { user } = useAuth()
+  const navigation = useCompatNavigation()
+  const isAdmin = user?.userType === "admin"
+  const [status, setStatus] = useState<TwoFactorStatus | null | undefined>(undefined)
+  const [code, setCode] = useState("")
+  const [verifying, setVerifying] = useState(false)
+  const [error, setError] = useState("")
+  const [checks, setChecks] = useState(0)
+
+  useEffect(() => {
+    if (!isAdmin) return
+    let cancelled = false
+    setStatus(undefined)
+    TwoFactorService.status()
+      .then((next) => { if (!cancelled) setStatus(next) })
+      .catch((e) => {
+        console.error("AdminTwoFactorGate: status check failed", e)
+        if (!cancelled) setStatus(null)
+      })
+    return () => { cancelled = true }
+  }, [isAdmin, user?.id, checks])
+
+  if (!isAdmin) return <>{children}</>
+  if (status === undefined) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    )
+  }
+  if (status === null) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.card}>
+          <Ionicons name="shield-outline" size={40} color="#3B82F6" />
+          <Text style={styles.title}>Could not check two-factor</Text>
+          <Text style={styles.body}>Admin pages stay locked until we can confirm this sign-in. Check your connection and try again.</Text>
+          <TouchableOpacity style={styles.button} onPress={() => setChecks((n) => n + 1)}>
+            <Text style={styles.buttonText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    )
+  }
+  if (!status.requiredForAdmin || status.sessionVerified) return <>{children}</>
+
+  const verify = async () => {
+    if (!code.trim()) return
+    setVerifying(true)
+    setError("")
+    try {
+      const result = await TwoFactorService.verify(code)
+      setCode("")
+      setStatus(result.status)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        <Ionicons name="shield-checkmark-outline" size={40} color="#3B82F6" />
+        <Text style={styles.title}>Two-factor required</Text>
+        {status.enabled ? (
+          <>
+            <Text style={styles.body}>Admin pages need a verified sign-in. Enter the code from your authenticator app or a backup code.</Text>
+            <TextInput style={styles.input} value={code} onChangeText={setCode} onSubmitEditing={verify} autoCapitalize="characters"
+              autoCorrect={false} placeholder="123456" placeholderTextColor="#555" />
+            {!!error && <Text style={styles.error}>{error}</Text>}
+            <TouchableOpacity style={[styles.button, (verifying || !code.trim()) && styles.buttonDisabled]} onPress={verify} disabled={verifying || !code.trim()}>
+              {verifying ? <ActivityIndicator size="small" color="#FFF" /> : <Text style={styles.buttonText}>Verify</Text>}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.body}>Admin pages require two-factor authentication. Set it up on your account to continue.</Text>
+            <TouchableOpacity style={styles.button} onPress={() => navigation.navigate("Settings")}>
+              <Text style={styles.buttonText}>Set up in Settings</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  )
+}
+
+export const withAdminTwoFactor = <P extends object>(Component: React.ComponentType<P>) => {
+  return (props: P) => (
+    <AdminTwoFactorGate>
+      <Component {...props} />
+    </AdminTwoFactorGate>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16, justifyContent: "center", alignItems: "center" },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 24, width: "100%", maxWidth: 420, alignItems: "center", borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  title: { fontSize: 20, fontWeight: "800", color: "#FFF", marginTop: 12, marginBottom: 8 },
+  body: { color: "#888", fontSize: 13, lineHeight: 20, textAlign: "center", marginBottom: 16 },
+  input: { backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 16, letterSpacing: 2, textAlign: "center", width: "100%", marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  error: { color: "#EF4444", fontSize: 12, marginBottom: 8 },
+  button: { backgroundColor: "#3B82F6", borderRadius: 10, paddingVertical: 12, paddingHorizontal: 20, width: "100%", alignItems: "center" },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { color: "#FFF", fontWeight: "700", fontSize: 14 },
+})
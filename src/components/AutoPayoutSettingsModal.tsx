@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from "react"
+import { Modal, View, Text, TouchableOpacity, TextInput, ScrollView, Switch, ActivityIndicator, StyleSheet } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import AutoPayoutService from "../services/AutoPayoutService"
+import type { AutoPayoutCadence, AutoPayoutMethod, AutoPayoutSettings } from "../models/AutoPayout"
+import type { User } from "../models/User"
+import { DEFAULT_AUTO_PAYOUT_SETTINGS, DEFAULT_PAYOUT_APPROVAL_RULES, autoPayoutSettingsError } from "../utils/autoPayouts"
+
+interface AutoPayoutSettingsModalProps {
+  visible: boolean
+  onClose: () => void
+  onSaved?: (settings: AutoPayoutSettings) => void
+}
+
+type Form = Omit<AutoPayoutSettings, "organizerId">
+
+const CADENCES: Array<{ key: AutoPayoutCadence; label: string }> = [
+  { key: "daily", label: "Daily" },
+  { key: "weekly", label: "Weekly" },
+  { key: "after_event", label: "After each event" },
+]
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+export const AutoPayoutSettingsModal: React.FC<AutoPayoutSettingsModalProps> = ({ visible, onClose, onSaved }) => {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [form, setForm] = useState<Form>({ ...DEFAULT_AUTO_PAYOUT_SETTINGS })
+  const [details, setDetails] = useState<NonNullable<User["paymentDetails"]>>({})
+  const [savedDetails, setSavedDetails] = useState<string>("null")
+  const [platformMinimum, setPlatformMinimum] = useState(DEFAULT_PAYOUT_APPROVAL_RULES.minimumAmount)
+
+  useEffect(() => {
+    if (!visible) return
+    setLoading(true)
+    setError("")
+    AutoPayoutService.getSetup()
+      .then(({ settings, paymentDetails, minimumAmount }) => {
+        const { organizerId, ...rest } = settings
+        setForm(rest)
+        setDetails(paymentDetails || {})
+        setSavedDetails(JSON.stringify(paymentDetails || null))
+        setPlatformMinimum(minimumAmount)
+      })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [visible])
+
+  const update = (patch: Partial<Form>) => { setForm((prev) => ({ ...prev, ...patch })); setError("") }
+  const mobile = details.mobileMoney || { provider: "mtn" as const, phoneNumber: "", accountName: "" }
+  const bank = details.bankAccount || { bankName: "", accountNumber: "", accountName: "" }
+  const detailsChanged = JSON.stringify(details) !== savedDetails && JSON.stringify(details) !== "{}"
+
+  const handleSave = async () => {
+    const problem = autoPayoutSettingsError(form, details, { ...DEFAULT_PAYOUT_APPROVAL_RULES, minimumAmount: platformMinimum })
+    if (problem) { setError(problem); return }
+    setSaving(true)
+    try {
+      const saved = await AutoPayoutService.save(form, detailsChanged ? details : undefined)
+      onSaved?.(saved)
+      onClose()
+    } catch (e: any) {
+      setError(e.message)
+    } finally { setSaving(false) }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Automatic Payouts</Text>
+            <TouchableOpacity onPress={onClose}><Ionicons name="close" size={24} color="#888" /></TouchableOpacity>
+          </View>
+          {loading ? <ActivityIndicator color="#2196F3" style={{ marginVertical: 40 }} /> : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.label}>Pay me automatically</Text>
+                  <Text style={styles.hint}>Eligible tickets are settled on your schedule without opening the withdraw screen.</Text>
+                </View>
+                <Switch value={form.enabled} onValueChange={(enabled) => update({ enabled })} />
+              </View>
+
+              <Text style={styles.label}>How often</Text>
+              <View style={styles.chipRow}>
+                {CADENCES.map((c) => (
+                  <TouchableOpacity key={c.key} style={[styles.chip, form.cadence === c.key && styles.chipActive]} onPress={() => update({ cadence: c.key })}>
+                    <Text style={[styles.chipText, form.cadence === c.key && styles.chipTextActive]}>{c.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {form.cadence === "weekly" && (
+                <View style={styles.chipRow}>
+                  {WEEKDAYS.map((d, i) => (
+                    <TouchableOpacity key={d} style={[styles.chip, form.weekday === i && styles.chipActive]} onPress={() => update({ weekday: i })}>
+                      <Text style={[styles.chipText, form.weekday === i && styles.chipTextActive]}>{d}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {form.cadence === "after_event" ? (
+                <>
+                  <Text style={styles.label}>Hours after the event ends</Text>
+                  <TextInput style={styles.input} keyboardType="numeric" value={String(form.hoursAfterEvent)}
+                    onChangeText={(t) => update({ hoursAfterEvent: Number(t.replace(/\D/g, "")) || 0 })} />
+                </>
+              ) : (
+                <>
+                  <Text style={styles.label}>Time of day (0-23, East Africa Time)</Text>
+                  <TextInput style={styles.input} keyboardType="numeric" value={String(form.hour)}
+                    onChangeText={(t) => update({ hour: Number(t.replace(/\D/g, "")) || 0 })} />
+                </>
+              )}
+
+              <Text style={styles.label}>Minimum payout (UGX)</Text>
+              <TextInput style={styles.input} keyboardType="numeric" value={String(form.minimumAmount)}
+                onChangeText={(t) => update({ minimumAmount: Number(t.replace(/\D/g, "")) || 0 })} />
+              <Text style={styles.hint}>Smaller balances roll over to the next run. Platform minimum: UGX {platformMinimum.toLocaleString()}</Text>
+
+              <Text style={styles.label}>Send to</Text>
+              <View style={styles.chipRow}>
+                {(["mobile_money", "bank_transfer"] as AutoPayoutMethod[]).map((m) => (
+                  <TouchableOpacity key={m} style={[styles.chip, form.method === m && styles.chipActive]} onPress={() => update({ method: m })}>
+                    <Text style={[styles.chipText, form.method === m && styles.chipTextActive]}>{m === "mobile_money" ? "Mobile Money" : "Bank Account"}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {form.method === "mobile_money" ? (
+                <>
+                  <View style={styles.chipRow}>
+                    {(["mtn", "airtel"] as const).map((p) => (
+                      <TouchableOpacity key={p} style={[styles.chip, mobile.provider === p && styles.chipActive]}
+                        onPress={() => setDetails({ ...details, mobileMoney: { ...mobile, provider: p } })}>
+                        <Text style={[styles.chipText, mobile.provider === p && styles.chipTextActive]}>{p === "mtn" ? "MTN" : "Airtel"}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput style={styles.input} placeholder="Phone Number" placeholderTextColor="#666" keyboardType="phone-pad" value={mobile.phoneNumber}
+                    onChangeText={(t) => setDetails({ ...details, mobileMoney: { ...mobile, phoneNumber: t } })} />
+                  <TextInput style={styles.input} placeholder="Account Name" placeholderTextColor="#666" value={mobile.accountName}
+                    onChangeText={(t) => setDetails({ ...details, mobileMoney: { ...mobile, accountName: t } })} />
+                </>
+              ) : (
+                <>
+                  <TextInput style={styles.input} placeholder="Bank Name" placeholderTextColor="#666" value={bank.bankName}
+                    onChangeText={(t) => setDetails({ ...details, bankAccount: { ...bank, bankName: t } })} />
+                  <TextInput style={styles.input} placeholder="Account Number" placeholderTextColor="#666" keyboardType="numeric" value={bank.accountNumber}
+                    onChangeText={(t) => setDetails({ ...details, bankAccount: { ...bank, accountNumber: t } })} />
+                  <TextInput style={styles.input} placeholder="Account Name" placeholderTextColor="#666" value={bank.accountName}
+                    onChangeText={(t) => setDetails({ ...details, bankAccount: { ...bank, accountName: t } })} />
+                  <Text style={styles.hint}>Bank payouts are sent by the YoVibe team after review.</Text>
+                </>
+              )}
+              {detailsChanged && (
+                <Text style={styles.warning}>Changing where payouts go holds your next automatic payouts for a security review.</Text>
+              )}
+              {form.lastResult ? <Text style={styles.hint}>Last run: {form.lastResult}</Text> : null}
+              {form.enabled && form.nextRunAt ? <Text style={styles.hint}>Next run: {new Date(form.nextRunAt).toLocaleString()}</Text> : null}
+
+              {error ? <Text style={styles.error}>{error}</Text> : null}
+              <TouchableOpacity style={[styles.saveBtn, saving && { opacity: 0.6 }]} onPress={handleSave} disabled={saving}>
+                {saving ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveBtnText}>Save</Text>}
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: { flex: 1, backgroundColor: "rgba(0,0,0,0.7)", justifyContent: "center", alignItems: "center", padding: 16 },
+  card: { backgroundColor: "#1a1a1a", borderRadius: 16, padding: 20, width: "100%", maxWidth: 480, maxHeight: "90%", borderWidth: 1, borderColor: "rgba(0,212,255,0.2)" },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12 },
+  title: { color: "#FFF", fontSize: 18, fontWeight: "bold" },
+  switchRow: { flexDirection: "row", alignItems: "center", gap: 12, marginBottom: 8 },
+  label: { color: "#CCC", fontSize: 13, fontWeight: "600", marginTop: 14, marginBottom: 6 },
+  hint: { color: "#666", fontSize: 12, marginTop: 4 },
+  warning: { color: "#F59E0B", fontSize: 12, marginTop: 10 },
+  error: { color: "#FF4444", fontSize: 13, marginTop: 12 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 6 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 20, backgroundColor: "#111", borderWidth: 1, borderColor: "rgba(255,255,255,0.08)" },
+  chipActive: { backgroundColor: "rgba(33,150,243,0.15)", borderColor: "#2196F3" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#2196F3" },
+  input: { backgroundColor: "#111", color: "#FFF", borderRadius: 8, padding: 12, fontSize: 14, marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.08)" },
+  saveBtn: { backgroundColor: "#2196F3", paddingVertical: 14, borderRadius: 8, alignItems: "center", marginTop: 16, marginBottom: 4 },
+  saveBtnText: { color: "#FFF", fontSize: 16, fontWeight: "bold" },
+})
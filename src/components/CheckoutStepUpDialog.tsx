@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react"
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import RiskService from "../services/RiskService"
+import type { CheckoutRiskDecision } from "../models/Risk"
+
+interface CheckoutStepUpDialogProps {
+  // The held checkout; the dialog is shown while this is set
+  decision: CheckoutRiskDecision | null
+  onVerified: (assessmentId: string) => void
+  onCancel: () => void
+}
+
+export const CheckoutStepUpDialog: React.FC<CheckoutStepUpDialogProps> = ({ decision, onVerified, onCancel }) => {
+  const [code, setCode] = useState("")
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setCode("")
+    setSentTo(null)
+    setError("")
+  }, [decision?.assessmentId])
+
+  if (!decision) return null
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true)
+    setError("")
+    try {
+      await task()
+    } catch (e: any) {
+      setError(e?.message || "Something went wrong. Please try again.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const sendCode = () => run(async () => {
+    const { email } = await RiskService.sendCode(decision.assessmentId)
+    setSentTo(email)
+  })
+
+  const verifyCode = () => run(async () => {
+    await RiskService.verifyCode(decision.assessmentId, code)
+    onVerified(decision.assessmentId)
+  })
+
+  return (
+    <Modal transparent visible animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.iconWrap}>
+            <Ionicons name="shield-checkmark" size={28} color="#00D4FF" />
+          </View>
+          <Text style={styles.title}>Confirm your purchase</Text>
+          {sentTo ? (
+            <>
+              <Text style={styles.message}>Enter the 6-digit code we sent to {sentTo}.</Text>
+              <TextInput
+                style={styles.input}
+                value={code}
+                onChangeText={(v) => setCode(v.replace(/\D/g, "").slice(0, 6))}
+                placeholder="123456"
+                placeholderTextColor="#666"
+                keyboardType="number-pad"
+                maxLength={6}
+              />
+              <TouchableOpacity style={styles.button} onPress={verifyCode} disabled={busy || code.length !== 6}>
+                {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Confirm and Pay</Text>}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={sendCode} disabled={busy}>
+                <Text style={styles.link}>Send a new code</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.message}>We need to confirm this purchase before you pay. We'll email you a 6-digit code.</Text>
+              <TouchableOpacity style={styles.button} onPress={sendCode} disabled={busy}>
+                {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Email Me a Code</Text>}
+              </TouchableOpacity>
+            </>
+          )}
+          {!!error && <Text style={styles.error}>{error}</Text>}
+          <TouchableOpacity onPress={onCancel} disabled={busy}>
+            <Text style={styles.cancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.65)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 400,
+    backgroundColor: "#1E1E2E",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(0,212,255,0.3)",
+    padding: 22,
+    alignItems: "center",
+  },
+  iconWrap: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0,212,255,0.12)",
+    marginBottom: 8,
+  },
+  title: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "800",
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  message: {
+    color: "#E0E0F0",
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  input: {
+    alignSelf: "stretch",
+    backgroundColor: "#12121A",
+    color: "#FFFFFF",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.1)",
+    padding: 12,
+    fontSize: 22,
+    letterSpacing: 6,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  button: {
+    alignSelf: "stretch",
+    backgroundColor: "#00D4FF",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  link: {
+    color: "#00D4FF",
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  error: {
+    color: "#FF5252",
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  cancel: {
+    color: "#888",
+    fontSize: 14,
+    marginTop: 6,
+  },
+})
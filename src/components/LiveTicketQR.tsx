@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from "react"
+import { View, Text, Image, StyleSheet, ActivityIndicator } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import QRCode from "qrcode"
+import { generateRotatingQRPayload, QR_ROTATION_PERIOD_MS } from "../services/TicketQRService"
+
+interface LiveTicketQRProps {
+  qrCode: string
+  qrSecret: string
+}
+
+// Re-signs the ticket QR every window so a screenshot is useless a minute later
+export const LiveTicketQR: React.FC<LiveTicketQRProps> = ({ qrCode, qrSecret }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(QR_ROTATION_PERIOD_MS / 1000)
+
+  useEffect(() => {
+    let cancelled = false
+    let currentWindow = -1
+
+    const tick = async () => {
+      const { url, window, expiresInMs } = generateRotatingQRPayload(qrCode, qrSecret)
+      setSecondsLeft(Math.ceil(expiresInMs / 1000))
+      if (window === currentWindow) return
+      currentWindow = window
+      try {
+        const next = await QRCode.toDataURL(url, { width: 300, margin: 2, errorCorrectionLevel: "M" })
+        if (!cancelled) setDataUrl(next)
+      } catch (err) {
+        console.error("[LiveTicketQR] Failed to render QR:", err)
+      }
+    }
+
+    tick()
+    const id = setInterval(tick, 1000)
+    return () => {
+      cancelled = true
+      clearInterval(id)
+    }
+  }, [qrCode, qrSecret])
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.liveDot} />
+        <Text style={styles.title}>Live Entry QR</Text>
+      </View>
+      <View style={styles.qrBox}>
+        {dataUrl ? <Image source={{ uri: dataUrl }} style={styles.qr} resizeMode="contain" /> : <ActivityIndicator color="#00D4FF" />}
+      </View>
+      <View style={styles.timerRow}>
+        <Ionicons name="time-outline" size={14} color="#9CA3AF" />
+        <Text style={styles.timerText}>Refreshes in {secondsLeft}s</Text>
+      </View>
+      <Text style={styles.hint}>
+        Show this code at the door. Screenshots stop working after a minute — the QR on your PDF or email is a backup that door staff must approve.
+      </Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "#1a1a1a", borderRadius: 12, padding: 16, marginBottom: 18, alignItems: "center", borderWidth: 1, borderColor: "rgba(0,212,255,0.3)" },
+  header: { flexDirection: "row", alignItems: "center", marginBottom: 12 },
+  liveDot: { width: 8, height: 8, borderRadius: 4, backgroundColor: "#2BD576", marginRight: 8 },
+  title: { color: "#FFFFFF", fontSize: 16, fontWeight: "700" },
+  qrBox: { width: 240, height: 240, backgroundColor: "#FFFFFF", borderRadius: 8, alignItems: "center", justifyContent: "center" },
+  qr: { width: 228, height: 228 },
+  timerRow: { flexDirection: "row", alignItems: "center", gap: 4, marginTop: 10 },
+  timerText: { color: "#9CA3AF", fontSize: 13 },
+  hint: { color: "#6B7280", fontSize: 12, textAlign: "center", marginTop: 8, lineHeight: 18 },
+})
+
+export default LiveTicketQR
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react"
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import { useAuth } from "../contexts/AuthContext"
+import PawaPayService from "../services/PawaPayService"
+import TicketTransferService from "../services/TicketTransferService"
+import type { ResaleListing } from "../models/TicketTransfer"
+
+interface ResaleListingsProps {
+  eventIds: string[]
+  eventName: string
+}
+
+// Official resale for an event: buyers pay the listing price and the ticket is
+// re-issued to them with a fresh QR once the payment is verified server-side.
+export const ResaleListings: React.FC<ResaleListingsProps> = ({ eventIds, eventName }) => {
+  const { user } = useAuth()
+  const [listings, setListings] = useState<ResaleListing[]>([])
+  const [selected, setSelected] = useState<ResaleListing | null>(null)
+  const [method, setMethod] = useState<"mobile_money" | "credit_card">("mobile_money")
+  const [provider, setProvider] = useState<"mtn" | "airtel">("mtn")
+  const [phone, setPhone] = useState("")
+  const [pendingOrder, setPendingOrder] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState("")
+
+  const load = () => {
+    TicketTransferService.browse(eventIds).then(setListings).catch(() => setListings([]))
+  }
+
+  useEffect(() => {
+    if (user) load()
+  }, [user, eventIds.join(",")])
+
+  const complete = async (listing: ResaleListing, paymentId: string) => {
+    await TicketTransferService.purchase(listing.id, paymentId)
+    setSelected(null)
+    setPendingOrder(null)
+    setMessage("")
+    Alert.alert("Ticket purchased", "The ticket is now in My Tickets with a new QR code.")
+    load()
+  }
+
+  const handleBuy = async (listing: ResaleListing) => {
+    try {
+      setBusy(true)
+      if (method === "mobile_money") {
+        if (!phone.trim()) {
+          Alert.alert("Number Required", "Please enter your mobile money number")
+          return
+        }
+        const result = await TicketTransferService.startPurchase(listing.id, {
+          provider: "pawapay",
+          phone: phone.trim(),
+          mobileProvider: provider === "mtn" ? "MTN_MOMO_UGA" : "AIRTEL_OAPI_UGA",
+        })
+        if (!result.depositId) throw new Error("Mobile money payment failed")
+        setMessage("Check your phone and enter your PIN...")
+
+        let attempts = 0
+        let status = "PENDING"
+        while (attempts < 25 && (status === "PENDING" || status === "PROCESSING")) {
+          await new Promise((r) => setTimeout(r, 2000))
+          attempts++
+          try {
+            const check = await PawaPayService.checkDepositStatus(result.depositId!)
+            status = (check.status || "").toUpperCase()
+          } catch { /* keep polling */ }
+        }
+        if (status !== "COMPLETED") throw new Error("Payment not confirmed. Try again.")
+        await complete(listing, result.paymentId)
+      } else {
+        const result = await TicketTransferService.startPurchase(listing.id, {
+          provider: "pesapal",
+          description: `Resale ticket for ${eventName}`,
+          callbackUrl: typeof window !== "undefined" ? window.location.origin : "",
+        })
+        if (!result.redirectUrl) throw new Error("Payment failed")
+        if (typeof window !== "undefined") window.open(result.redirectUrl, "_blank")
+        setPendingOrder(result.paymentId)
+        setMessage("Complete payment in the opened tab, then confirm below.")
+      }
+    } catch (e: any) {
+      setMessage(e.message || "Payment failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleConfirmCard = async (listing: ResaleListing) => {
+    if (!pendingOrder) return
+    try {
+      setBusy(true)
+      await complete(listing, pendingOrder)
+    } catch (e: any) {
+      setMessage(e.message || "Payment not confirmed yet")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!user || !listings.length) return null
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Resale tickets</Text>
+      <Text style={styles.subtitle}>Sold by other attendees at capped prices. The seller's QR is cancelled when you buy.</Text>
+      {listings.map((listing) => (
+        <View key={listing.id} style={styles.listing}>
+          <TouchableOpacity style={styles.listingRow} onPress={() => { setSelected(selected?.id === listing.id ? null : listing); setPendingOrder(null); setMessage("") }}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.feeName}>{listing.entry_fee_type || "General"}</Text>
+              <Text style={styles.faceValue}>Face value UGX {Number(listing.face_value).toLocaleString()}</Text>
+            </View>
+            <Text style={styles.price}>UGX {Number(listing.price).toLocaleString()}</Text>
+            <Ionicons name={selected?.id === listing.id ? "chevron-up" : "chevron-down"} size={18} color="#9CA3AF" />
+          </TouchableOpacity>
+
+          {selected?.id === listing.id && (
+            <View style={styles.checkout}>
+              <View style={styles.chips}>
+                {(["mobile_money", "credit_card"] as const).map((m) => (
+                  <TouchableOpacity key={m} style={[styles.chip, method === m && styles.chipActive]} onPress={() => setMethod(m)}>
+                    <Text style={styles.chipText}>{m === "mobile_money" ? "Mobile Money" : "Card"}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {method === "mobile_money" && (
+                <>
+                  <View style={styles.chips}>
+                    {(["mtn", "airtel"] as const).map((p) => (
+                      <TouchableOpacity key={p} style={[styles.chip, provider === p && styles.chipActive]} onPress={() => setProvider(p)}>
+                        <Text style={styles.chipText}>{p === "mtn" ? "MTN" : "Airtel"}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput style={styles.input} value={phone} onChangeText={setPhone} placeholder="Mobile money number" placeholderTextColor="#666" keyboardType="phone-pad" />
+                </>
+              )}
+              {!!message && <Text style={styles.message}>{message}</Text>}
+              {pendingOrder ? (
+                <TouchableOpacity style={styles.buyButton} disabled={busy} onPress={() => handleConfirmCard(listing)}>
+                  {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buyText}>I've completed payment</Text>}
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.buyButton} disabled={busy} onPress={() => handleBuy(listing)}>
+                  {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buyText}>Buy for UGX {Number(listing.price).toLocaleString()}</Text>}
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "#1a1a1a", borderRadius: 12, padding: 16, marginTop: 16 },
+  title: { color: "#FFFFFF", fontSize: 18, fontWeight: "700" },
+  subtitle: { color: "#9CA3AF", fontSize: 12, marginTop: 4, marginBottom: 12 },
+  listing: { borderTopWidth: 1, borderTopColor: "#2a2a2a", paddingVertical: 10 },
+  listingRow: { flexDirection: "row", alignItems: "center", gap: 10 },
+  feeName: { color: "#FFFFFF", fontSize: 15, fontWeight: "600" },
+  faceValue: { color: "#6B7280", fontSize: 12, marginTop: 2 },
+  price: { color: "#2BD576", fontSize: 15, fontWeight: "700" },
+  checkout: { marginTop: 10, gap: 8 },
+  chips: { flexDirection: "row", gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, backgroundColor: "#2a2a2a" },
+  chipActive: { backgroundColor: "#2196F3" },
+  chipText: { color: "#FFFFFF", fontSize: 13 },
+  input: { backgroundColor: "#2a2a2a", color: "#FFF", padding: 10, borderRadius: 8, fontSize: 14 },
+  message: { color: "#F59E0B", fontSize: 13 },
+  buyButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 10, alignItems: "center" },
+  buyText: { color: "#FFFFFF", fontWeight: "700" },
+})
+
+export default ResaleListings
@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useState } from "react"
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, StyleSheet } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import RevenueShareService, { type PartyShare, type RevenueShareRuleInput } from "../services/RevenueShareService"
+import type { Event } from "../models/Event"
+import type { RevenueShareRole, RevenueShareRule } from "../models/RevenueShare"
+
+interface RevenueSharePanelProps {
+  event: Event
+  onSaved?: (rules: RevenueShareRule[]) => void
+}
+
+export const ROLE_LABELS: Record<RevenueShareRole | "owner", string> = {
+  owner: "You",
+  co_organizer: "Co-organiser",
+  venue: "Venue",
+  artist_management: "Artist management",
+  other: "Other",
+}
+
+const ROLES: RevenueShareRole[] = ["co_organizer", "venue", "artist_management", "other"]
+const EMPTY_FORM = { email: "", role: "co_organizer" as RevenueShareRole, type: "percentage" as RevenueShareRule["type"], value: "", entryFees: [] as string[] }
+
+export const RevenueSharePanel: React.FC<RevenueSharePanelProps> = ({ event, onSaved }) => {
+  const eventId = event.slug || event.id
+  const [rules, setRules] = useState<RevenueShareRuleInput[]>(event.revenueShares || [])
+  const [parties, setParties] = useState<PartyShare[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const summary = await RevenueShareService.getSummary(eventId)
+      if (summary.rules) setRules(summary.rules)
+      setParties(summary.parties)
+    } catch (e) { console.error("RevenueSharePanel: Error loading summary:", e) }
+  }, [eventId])
+
+  useEffect(() => { loadSummary() }, [loadSummary])
+
+  const save = async (next: RevenueShareRuleInput[]) => {
+    setSaving(true)
+    setError("")
+    try {
+      const saved = await RevenueShareService.saveRules(eventId, next)
+      setRules(saved)
+      onSaved?.(saved)
+      await loadSummary()
+      return true
+    } catch (e: any) {
+      setError(e.message)
+      return false
+    } finally { setSaving(false) }
+  }
+
+  const handleAdd = async () => {
+    const value = Number(form.value)
+    if (!form.email.trim() || !(value > 0)) { setError("Enter the party's YoVibe email and their share"); return }
+    const added = await save([...rules, {
+      beneficiaryEmail: form.email.trim(), role: form.role, type: form.type, value, entryFees: form.entryFees,
+    }])
+    if (added) setForm(EMPTY_FORM)
+  }
+
+  const nameOf = (beneficiaryId: string) =>
+    rules.find((r) => r.beneficiaryId === beneficiaryId)?.beneficiaryName || beneficiaryId.slice(0, 8)
+
+  return (
+    <View>
+      {rules.length > 0 ? rules.map((rule) => (
+        <View key={rule.id} style={styles.ruleRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.ruleName}>{rule.beneficiaryName || rule.beneficiaryEmail} · {ROLE_LABELS[rule.role]}</Text>
+            <Text style={styles.hint}>
+              {rule.type === "percentage" ? `${rule.value}%` : `UGX ${rule.value.toLocaleString()} per ticket`}
+              {rule.entryFees?.length ? ` on ${rule.entryFees.join(", ")}` : " on every ticket"}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => save(rules.filter((r) => r.id !== rule.id))} disabled={saving}>
+            <Ionicons name="trash-outline" size={18} color="#FF4444" />
+          </TouchableOpacity>
+        </View>
+      )) : <Text style={styles.hint}>No revenue sharing. Everything is paid to you.</Text>}
+
+      {parties.length > 0 && (
+        <View style={{ marginTop: 12 }}>
+          <Text style={styles.label}>Shares so far</Text>
+          {parties.map((p) => (
+            <View key={p.beneficiaryId} style={styles.partyRow}>
+              <Text style={styles.partyName}>{p.role === "owner" ? ROLE_LABELS.owner : `${nameOf(p.beneficiaryId)} · ${ROLE_LABELS[p.role]}`}</Text>
+              <Text style={styles.partyAmount}>UGX {p.earned.toLocaleString()}</Text>
+              <Text style={styles.hint}>UGX {p.eligible.toLocaleString()} ready</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.label}>Add a party</Text>
+      <View style={{ flexDirection: "row", gap: 8 }}>
+        <TextInput style={[styles.input, { flex: 1 }]} placeholder="Their YoVibe email" placeholderTextColor="#555" autoCapitalize="none" keyboardType="email-address"
+          value={form.email} onChangeText={(email) => setForm((f) => ({ ...f, email }))} />
+        <TextInput style={[styles.input, { width: 110 }]} placeholder={form.type === "percentage" ? "%" : "UGX / ticket"} placeholderTextColor="#555" keyboardType="numeric"
+          value={form.value} onChangeText={(value) => setForm((f) => ({ ...f, value }))} />
+      </View>
+      <View style={styles.chipRow}>
+        {ROLES.map((role) => (
+          <TouchableOpacity key={role} style={[styles.chip, form.role === role && styles.chipActive]} onPress={() => setForm((f) => ({ ...f, role }))}>
+            <Text style={[styles.chipText, form.role === role && styles.chipTextActive]}>{ROLE_LABELS[role]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        {(["percentage", "fixed"] as const).map((type) => (
+          <TouchableOpacity key={type} style={[styles.chip, form.type === type && styles.chipActive]} onPress={() => setForm((f) => ({ ...f, type }))}>
+            <Text style={[styles.chipText, form.type === type && styles.chipTextActive]}>{type === "percentage" ? "Percentage" : "Fixed per ticket"}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>Ticket types (none selected = all)</Text>
+      <View style={styles.chipRow}>
+        {(event.entryFees || []).map((fee) => {
+          const selected = form.entryFees.includes(fee.name)
+          return (
+            <TouchableOpacity key={fee.name} style={[styles.chip, selected && styles.chipActive]}
+              onPress={() => setForm((f) => ({ ...f, entryFees: selected ? f.entryFees.filter((n) => n !== fee.name) : [...f.entryFees, fee.name] }))}>
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>{fee.name}</Text>
+            </TouchableOpacity>
+          )
+        })}
+      </View>
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      <TouchableOpacity style={[styles.addBtn, saving && { opacity: 0.6 }]} onPress={handleAdd} disabled={saving}>
+        {saving ? <ActivityIndicator color="#000" /> : <Text style={styles.addBtnText}>Add Share</Text>}
+      </TouchableOpacity>
+      <Text style={styles.hint}>Withdrawals on this event are split between the parties. Each one confirms and receives their own share.</Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  ruleRow: { flexDirection: "row", alignItems: "center", gap: 12, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: "rgba(255,255,255,0.06)" },
+  ruleName: { color: "#FFF", fontSize: 14, fontWeight: "600" },
+  partyRow: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 4 },
+  partyName: { flex: 1, color: "#CCC", fontSize: 13 },
+  partyAmount: { color: "#00D4FF", fontSize: 13, fontWeight: "600" },
+  label: { color: "#CCC", fontSize: 13, fontWeight: "600", marginTop: 14, marginBottom: 6 },
+  hint: { color: "#666", fontSize: 12, marginTop: 4 },
+  error: { color: "#FF4444", fontSize: 13, marginTop: 8 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 20, backgroundColor: "#111", borderWidth: 1, borderColor: "rgba(255,255,255,0.08)" },
+  chipActive: { backgroundColor: "rgba(0,212,255,0.15)", borderColor: "#00D4FF" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#00D4FF" },
+  input: { backgroundColor: "#111", color: "#FFF", borderRadius: 8, padding: 12, fontSize: 14, marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.08)" },
+  addBtn: { backgroundColor: "#00D4FF", borderRadius: 8, padding: 12, alignItems: "center", marginTop: 8, marginBottom: 4 },
+  addBtnText: { color: "#000", fontWeight: "700" },
+})
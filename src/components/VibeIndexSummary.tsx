@@ -0,0 +1,125 @@
+import React from "react"
+import { View, Text, StyleSheet } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import VibeAnalysisService from "../services/VibeAnalysisService"
+import type { VenueVibeIndex, VibeIndexConfidence, VibeIndexPoint } from "../models/VibeIndex"
+import { VIBE_CONFIDENCE_LABELS, VIBE_TREND_LABELS, vibeTrend } from "../utils/vibeIndex"
+import { VIBE_CHECKIN_TAG_LABELS } from "../utils/vibeCheckIn"
+
+const CONFIDENCE_COLORS: Record<VibeIndexConfidence, string> = {
+  high: "#4CAF50",
+  medium: "#FFC107",
+  low: "#FF9800",
+  none: "#666666",
+}
+
+const TREND_ICONS = { above: "trending-up", usual: "remove", below: "trending-down" } as const
+
+const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? "s" : ""}`
+
+/** "3 photos · 2 check-ins tonight", leaving out whichever there are none of */
+function liveCounts(index: VenueVibeIndex): string {
+  const parts = [
+    index.livePhotos > 0 || !index.liveCheckIns ? plural(index.livePhotos, "photo") : "",
+    index.liveCheckIns ? plural(index.liveCheckIns, "check-in") : "",
+  ]
+  return `${parts.filter(Boolean).join(" · ")} tonight`
+}
+
+interface VibeSparklineProps {
+  points: VibeIndexPoint[]
+  height?: number
+}
+
+/** Tonight's index hour by hour, with the usual vibe for each hour as a tick */
+export const VibeSparkline: React.FC<VibeSparklineProps> = ({ points, height = 40 }) => {
+  // The quiet daytime hours before the first photo or baseline say nothing
+  const first = points.findIndex((p) => p.index !== null || p.typical !== null)
+  const shown = first < 0 ? [] : points.slice(first)
+  if (!shown.length) return null
+  return (
+    <View style={[styles.sparkline, { height }]}>
+      {shown.map((point) => (
+        <View key={point.at} style={styles.sparkColumn}>
+          {point.index !== null && (
+            <View style={[styles.sparkBar, {
+              height: Math.max(2, (point.index / 5) * height),
+              backgroundColor: VibeAnalysisService.getVibeColor(point.index),
+              opacity: point.photos > 0 ? 1 : 0.55,
+            }]} />
+          )}
+          {point.typical !== null && <View style={[styles.sparkTypical, { bottom: (point.typical / 5) * height }]} />}
+        </View>
+      ))}
+    </View>
+  )
+}
+
+interface VibeIndexSummaryProps {
+  index: VenueVibeIndex | null
+  compact?: boolean
+}
+
+/** Live index, confidence, how it compares with the usual and tonight's sparkline */
+export const VibeIndexSummary: React.FC<VibeIndexSummaryProps> = ({ index, compact }) => {
+  if (!index || index.source === "none") {
+    return <Text style={styles.empty}>No vibes yet tonight</Text>
+  }
+  const trend = vibeTrend(index)
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={[styles.value, compact && styles.valueCompact, { color: VibeAnalysisService.getVibeColor(index.index) }]}>
+          {index.index.toFixed(1)}
+        </Text>
+        <Text style={styles.max}>/5.0</Text>
+        <View style={[styles.confidence, { borderColor: CONFIDENCE_COLORS[index.confidence] }]}>
+          <Text style={[styles.confidenceText, { color: CONFIDENCE_COLORS[index.confidence] }]}>{VIBE_CONFIDENCE_LABELS[index.confidence]}</Text>
+        </View>
+      </View>
+      {!compact && <Text style={styles.description}>{VibeAnalysisService.getVibeDescription(index.index)}</Text>}
+      <Text style={styles.meta}>
+        {index.source === "typical"
+          ? "No photos yet tonight · showing the usual vibe for this hour"
+          : `${liveCounts(index)}${index.lastPhotoAt ? ` · last at ${new Date(index.lastPhotoAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : ""}`}
+      </Text>
+      {index.tags.length > 0 && (
+        <View style={styles.tags}>
+          {index.tags.slice(0, compact ? 2 : 4).map((tag) => (
+            <View key={tag} style={styles.tag}>
+              <Text style={styles.tagText}>{VIBE_CHECKIN_TAG_LABELS[tag]}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+      {trend && (
+        <View style={styles.trendRow}>
+          <Ionicons name={TREND_ICONS[trend]} size={14} color="#BBBBBB" />
+          <Text style={styles.trendText}>{VIBE_TREND_LABELS[trend]} (usually {index.typical!.toFixed(1)})</Text>
+        </View>
+      )}
+      <VibeSparkline points={index.tonight} height={compact ? 28 : 40} />
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: "row", alignItems: "baseline", gap: 4 },
+  value: { fontSize: 32, fontWeight: "bold" },
+  valueCompact: { fontSize: 22 },
+  max: { fontSize: 14, color: "#666666" },
+  confidence: { marginLeft: 8, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, borderWidth: 1, alignSelf: "center" },
+  confidenceText: { fontSize: 10, fontWeight: "700" },
+  description: { fontSize: 16, color: "#FFFFFF", fontWeight: "bold", marginTop: 2 },
+  meta: { fontSize: 12, color: "#888888", marginTop: 4 },
+  tags: { flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 6 },
+  tag: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, backgroundColor: "rgba(255,255,255,0.08)" },
+  tagText: { fontSize: 11, color: "#DDDDDD" },
+  trendRow: { flexDirection: "row", alignItems: "center", gap: 4, marginTop: 4 },
+  trendText: { fontSize: 12, color: "#BBBBBB" },
+  empty: { fontSize: 14, color: "#888888" },
+  sparkline: { flexDirection: "row", alignItems: "flex-end", gap: 2, marginTop: 10 },
+  sparkColumn: { flex: 1, height: "100%", justifyContent: "flex-end" },
+  sparkBar: { borderRadius: 2 },
+  sparkTypical: { position: "absolute", left: 0, right: 0, height: 2, backgroundColor: "rgba(255,255,255,0.45)" },
+})
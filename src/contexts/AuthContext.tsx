@@ -12,6 +12,9 @@ import {
 import { supabase } from "../config/supabase";
 import SupabaseService from "../services/SupabaseService";
 import AnalyticsService from "../services/AnalyticsService";
+import TwoFactorService from "../services/TwoFactorService";
+import PasskeyService from "../services/PasskeyService";
+import { isPrivilegedUserType } from "../utils/twoFactor";
 import type { User } from "../models/User";
 import { Platform, Dimensions } from "react-native";
 
@@ -31,14 +34,21 @@ interface AuthContextType {
   isLoading: boolean;
   /** new/alternate name some consumers expect */
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
   signUp: (
     email: string,
     password: string,
     userType: "regular_user" | "club_owner" | "admin"
   ) => Promise<void>;
   signInWithGoogle: () => Promise<void>;
+  /** passwordless sign-in with a passkey saved on this device */
+  signInWithPasskey: () => Promise<{ twoFactorRequired: boolean }>;
   signOut: () => Promise<void>;
+  /** signed in with a password but still owes an authenticator code */
+  twoFactorPending: boolean;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  /** email recovery code: removes two-factor and finishes the sign-in */
+  recoverTwoFactor: (code: string) => Promise<void>;
   updateProfile: (data: { displayName?: string; photoURL?: string }) => Promise<void>;
   setRedirectIntent: (intent: RedirectIntent) => void;
   consumeRedirectIntent: () => RedirectIntent | null;
@@ -65,6 +75,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const userRef = useRef<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
+  // Profile held back while the second factor is outstanding
+  const pendingUserRef = useRef<User | null>(null);
+  // Set while a passkey sign-in exchanges its token, so the listener leaves the profile to signInWithPasskey
+  const passkeySignInRef = useRef(false);
 
   // Keep userRef in sync with state
   useEffect(() => {
@@ -96,6 +111,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * Privileged accounts with two-factor on stay signed out of the app until
+   * this session passes the second factor. If the status check fails they
+   * are held too, and can sign out and try again from the code prompt.
+   */
+  const holdForTwoFactor = async (profile: User): Promise<boolean> => {
+    if (passkeySignInRef.current) {
+      pendingUserRef.current = profile;
+      setUser(null);
+      return true;
+    }
+    if (!isPrivilegedUserType(profile.userType)) return false;
+    try {
+      const status = await TwoFactorService.status();
+      if (!status.enabled || status.sessionVerified) return false;
+    } catch (error) {
+      console.error("AuthContext: Could not check two-factor status:", error);
+    }
+    pendingUserRef.current = profile;
+    setTwoFactorPending(true);
+    setUser(null);
+    return true;
+  };
+
   useEffect(() => {
     console.log("AuthContext: Setting up auth state listener");
 
@@ -131,7 +170,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                 `Auth profile resolution timed out after ${AUTH_PROFILE_TIMEOUT_MS}ms`
               );
               console.log("AuthContext: User profile ensured/loaded:", userProfile?.email);
-              setUser(userProfile);
+              if (!(await holdForTwoFactor(userProfile))) setUser(userProfile);
             } catch (profileError) {
               console.error("AuthContext: Failed to ensure user profile:", profileError);
               // If user_type is missing, the user should be logged out and treated as viber
@@ -151,6 +190,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
               console.log("AuthContext: Session is null after initialization — clearing user.");
               setUser(null);
             }
+            pendingUserRef.current = null;
+            setTwoFactorPending(false);
           }
         } catch (error) {
           console.error("AuthContext: Error while handling auth state change:", error);
@@ -214,10 +255,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(true);
     console.log("AuthContext: Starting sign in for:", email);
     try {
-      await SupabaseService.signIn(email, password);
+      const profile = await SupabaseService.signIn(email, password);
       console.log("AuthContext: Sign in successful");
+      if (await holdForTwoFactor(profile)) {
+        console.log("AuthContext: Waiting for the second factor");
+        return { twoFactorRequired: true };
+      }
       // onAuthStateChange will populate user - wait a moment for the listener to fire
       console.log("AuthContext: Waiting for onAuthStateChange to fire...");
+      return { twoFactorRequired: false };
     } catch (error) {
       console.error("AuthContext: Sign in failed:", error);
       throw error;
@@ -262,6 +308,52 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  /**
+   * The passkeys function checks the assertion and hands back a one-time
+   * token for a normal Supabase session. The passkey stands in for the
+   * password, so a privileged account with two-factor on still enters its
+   * authenticator code afterwards.
+   */
+  const signInWithPasskey = async () => {
+    setIsLoading(true);
+    passkeySignInRef.current = true;
+    try {
+      const { tokenHash } = await PasskeyService.authenticate();
+      // Resolves after the auth listener has run, which parks the profile in pendingUserRef
+      const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: "email" });
+      if (error || !data.user) throw error || new Error("Passkey sign-in failed");
+      const profile = pendingUserRef.current || (await SupabaseService.ensureUserProfile(data.user));
+      pendingUserRef.current = null;
+      passkeySignInRef.current = false;
+      if (await holdForTwoFactor(profile)) return { twoFactorRequired: true };
+      setUser(profile);
+      return { twoFactorRequired: false };
+    } catch (error) {
+      console.error("AuthContext: Passkey sign in failed:", error);
+      throw error;
+    } finally {
+      passkeySignInRef.current = false;
+      setIsLoading(false);
+    }
+  };
+
+  const releaseTwoFactorHold = () => {
+    const profile = pendingUserRef.current;
+    pendingUserRef.current = null;
+    setTwoFactorPending(false);
+    if (profile) setUser(profile);
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    await TwoFactorService.verify(code);
+    releaseTwoFactorHold();
+  };
+
+  const recoverTwoFactor = async (code: string) => {
+    await TwoFactorService.confirmRecovery(code);
+    releaseTwoFactorHold();
+  };
+
   /**
    * signOut
    *
@@ -276,6 +368,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       await SupabaseService.signOut();
       // Clear local user state explicitly so UI can immediately reflect unauthenticated state.
       setUser(null);
+      pendingUserRef.current = null;
+      setTwoFactorPending(false);
       // console.log("AuthContext: Signed out successfully and local user cleared");
     } catch (error) {
       // console.error("AuthContext: Sign out error:", error);
@@ -325,7 +419,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     signIn,
     signUp,
     signInWithGoogle,
+    signInWithPasskey,
     signOut,
+    twoFactorPending,
+    verifyTwoFactor,
+    recoverTwoFactor,
     updateProfile,
     setRedirectIntent,
     consumeRedirectIntent,
@@ -0,0 +1,69 @@
+// Append-only security audit trail for admin and money-moving actions. Rows
+// are only ever inserted by the audit-log and other Netlify functions.
+
+export type AuditAction =
+  | "user.freeze"
+  | "user.unfreeze"
+  | "user.delete"
+  | "ownership.approve"
+  | "ownership.reject"
+  | "payout.approve"
+  | "payout.reject"
+  | "payout.complete"
+  | "payout.release"
+  | "payout.return"
+  | "refund.approve"
+  | "refund.reject"
+  | "refund.execute"
+  | "refund.retry"
+  | "refund.chargeback"
+  | "ledger.adjust"
+  | "ticket.reentry_grant"
+  | "event.status_change"
+  | "two_factor.enable"
+  | "two_factor.disable"
+  | "two_factor.recover"
+  | "two_factor.reset"
+  | "two_factor.policy"
+  | "passkey.register"
+  | "passkey.remove"
+  | "risk.clear"
+  | "risk.fraud"
+  | "vibe.approve"
+  | "vibe.remove"
+
+export type AuditTargetType = "user" | "ownership_request" | "payout" | "refund" | "organizer" | "ticket" | "event" | "setting" | "purchase" | "vibe_image"
+
+export interface AuditChange {
+  from: unknown
+  to: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  occurredAt: string
+  actorId: string
+  actorEmail: string | null
+  actorRole: string | null
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId: string
+  // Only the fields that changed
+  changes: Record<string, AuditChange>
+  reason: string | null
+  ip: string | null
+  userAgent: string | null
+  // "client" rows were reported by an app service, "server" rows by the function that did the work
+  source: "client" | "server"
+}
+
+export interface AuditFilters {
+  action?: AuditAction | ""
+  targetType?: AuditTargetType | ""
+  // Matches actor email, actor id or target id
+  search?: string
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
@@ -0,0 +1,45 @@
+// Opt-in automatic settlement of an organiser's payout-eligible tickets.
+
+export type AutoPayoutCadence = "daily" | "weekly" | "after_event"
+
+export type AutoPayoutMethod = "mobile_money" | "bank_transfer"
+
+export interface AutoPayoutSettings {
+  organizerId: string
+  enabled: boolean
+  cadence: AutoPayoutCadence
+  // Local (East Africa Time) hour the daily and weekly runs go out
+  hour: number
+  // 0 = Sunday; weekly cadence only
+  weekday: number
+  // after_event cadence only: how long after the event ends to settle it
+  hoursAfterEvent: number
+  // Below this the run is skipped and the balance rolls over
+  minimumAmount: number
+  method: AutoPayoutMethod
+  nextRunAt?: string | null
+  lastRunAt?: string | null
+  lastResult?: string | null
+}
+
+// Platform-wide rules admins set for automatic payouts; anything that fails
+// them is held as pending_admin_review instead of being sent
+export interface PayoutApprovalRules {
+  // Payouts at or above this (UGX) need an admin; 0 holds every payout
+  autoApproveBelow: number
+  // Organisers whose account is younger than this are always held
+  newOrganizerHoldDays: number
+  // Hold after the organiser changes where the money goes
+  detailsChangeHoldHours: number
+  // Platform floor under each organiser's own minimum
+  minimumAmount: number
+  // Stops every automatic payout, e.g. during a gateway incident
+  paused: boolean
+  updatedAt?: string
+  updatedBy?: string
+}
+
+export interface AutoPayoutDecision {
+  approved: boolean
+  reason: string | null
+}
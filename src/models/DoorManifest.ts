@@ -0,0 +1,57 @@
+export interface ManifestTicket {
+  id: string
+  // SHA-256 of the QR code; the code itself never leaves the server
+  qrHash: string
+  status: "active" | "used" | "cancelled" | "refunded" | "expired" | "pending"
+  ticketRef?: string
+  entryFeeType?: string
+  seatNumber?: number
+  tableNumber?: number
+  buyerName?: string
+  buyerPhotoUrl?: string
+  expiresAt?: string
+  // Live rotating QR: its codes cannot be checked offline without the ticket's secret
+  liveQr?: boolean
+  reentryPass?: { grantedAt: string; grantedBy: string; grantedByName: string; used: boolean } | null
+}
+
+export interface DoorManifest {
+  eventSlug: string
+  eventName?: string
+  generatedAt: string
+  expiresAt: string
+  tickets: ManifestTicket[]
+  // HMAC-SHA256 over JSON.stringify of the manifest without the signature field
+  signature: string
+}
+
+export interface QueuedScan {
+  localId: string
+  eventSlug: string
+  deviceId: string
+  ticketId: string
+  qrHash: string
+  kind: "entry" | "reentry"
+  scannedAt: string
+  validatorId: string
+  location?: string
+  gate?: string
+  localStatus: "granted" | "denied"
+  reason?: string
+  synced: boolean
+  syncResult?: "applied" | "conflict_won" | "conflict_lost" | "rejected" | "duplicate"
+}
+
+export interface ScanConflict {
+  id: string
+  eventSlug: string
+  ticketId: string
+  ticketRef?: string
+  winningDeviceId?: string
+  winningScannedAt?: string
+  losingDeviceId?: string
+  losingScannedAt?: string
+  resolution: "earliest_scan_wins" | "ticket_not_valid"
+  detail?: string
+  createdAt: Date
+}
@@ -1,5 +1,7 @@
 import type { Timestamp } from "firebase/firestore"
 import type { UserType } from "./User"
+import type { InstallmentTemplate } from "./InstallmentPlan"
+import type { RevenueShareRule } from "./RevenueShare"
 
 export interface Event {
   id: string
@@ -23,12 +25,18 @@ export interface Event {
   priceIndicator?: number
   isFreeEntry: boolean
   lateFeePercent?: number
+  // Pay-in-parts options; the defaults are offered when unset
+  installmentTemplates?: InstallmentTemplate[]
+  // Co-organisers, the venue and artist management paid out of the creator's revenue
+  revenueShares?: RevenueShareRule[]
   entryFees: Array<{
     name: string
     amount: string
     isTable?: boolean
     tableSize?: number
     maxTickets?: number
+    rotatingQR?: boolean
+    pricePhases?: PricePhase[]
     seatMap?: {
       type: "none" | "numbered" | "cinema"
       rows?: number
@@ -69,6 +77,16 @@ export interface Event {
   } | null
 }
 
+// Scheduled price for an entry fee, e.g. early bird → regular → gate. Phases
+// run in order; each closes at `endsAt` or once `untilSold` tickets of the fee
+// have sold, whichever comes first. The last phase never closes.
+export interface PricePhase {
+  name: string
+  amount: string
+  endsAt?: string
+  untilSold?: number
+}
+
 export interface TicketDesign {
   enabled: boolean
   orientation: "portrait" | "landscape"
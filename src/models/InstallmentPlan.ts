@@ -8,6 +8,8 @@ export interface Installment {
   depositId?: string
   paymentMethod?: "mobile_money" | "credit_card" | "bank_transfer"
   paidAt?: Date
+  // Reminder stages already sent (see utils/installmentReminders)
+  remindersSent?: string[]
 }
 
 export interface InstallmentPlan {
@@ -32,8 +34,14 @@ export interface InstallmentPlan {
   paymentProvider?: string   // last used provider, for convenience
   paymentNumber?: string     // last used number
   // Financials
-  baseTotal: number          // ticket price × qty, before late fee
+  baseTotal: number          // ticket price × qty less any promo discount, before late fee
   lateFee: number
+  promoCode?: string
+  discountAmount?: number
+  // Price phase locked in when the plan was created
+  pricePhase?: string
+  // Organiser template the schedule was built from
+  templateId?: string
   totalAmount: number        // baseTotal + lateFee (no service fees — those are per installment)
   installments: Installment[]
   installmentsPaid: number
@@ -42,26 +50,53 @@ export interface InstallmentPlan {
   ticketIds?: string[]       // populated after final installment
   refundStatus?: "none" | "pending" | "completed" | "failed"
   refundClosedAt?: Date
+  // Set by the reminders job once an installment is overdue
+  graceEndsAt?: Date
+  expiredAt?: Date
   created_at: Date
   updated_at: Date
 }
 
-export const INSTALLMENT_SERVICE_FEE_RATE = 0.08  // 8% per installment
-export const YOVIBE_COMMISSION_RATE = 0.15         // 15% per installment
+// Rates live in the shared pricing engine; re-exported for existing imports
+export { INSTALLMENT_SERVICE_FEE_RATE, DEFAULT_COMMISSION_RATE as YOVIBE_COMMISSION_RATE } from "../utils/pricing"
 
+// Legacy plan choices, kept as ids of DEFAULT_INSTALLMENT_TEMPLATES
 export type InstallmentPlanType = "2" | "3" | "4" | "5"
 
-/** Returns installment base amounts (before service fee) for a given plan type.
- *  First installment is always 40% of total; remainder split equally across the rest.
+// An organiser-defined way to pay for an event's tickets in parts. Stored on
+// the event; events without templates offer the defaults below.
+export interface InstallmentTemplate {
+  id: string
+  name: string
+  parts: number              // including the deposit paid at checkout
+  depositPercent: number     // share of the ticket total paid up front
+  // Fixed calendar due dates (ISO) for parts 2..n; evenly spaced when unset
+  dueDates?: string[]
+  // The last part must fall at least this many days before the event
+  lastDueDaysBeforeEvent?: number
+  // Cheapest ticket (per person) the plan is offered on
+  minTicketPrice?: number
+}
+
+export const DEFAULT_INSTALLMENT_TEMPLATES: InstallmentTemplate[] = [
+  { id: "2", name: "2x", parts: 2, depositPercent: 50 },
+  { id: "3", name: "3x", parts: 3, depositPercent: 40 },
+  { id: "4", name: "4x", parts: 4, depositPercent: 40 },
+  { id: "5", name: "5x", parts: 5, depositPercent: 40 },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Returns installment base amounts (before service fee) for a template.
+ *  The deposit comes first; the remainder is split equally across the rest.
  */
-export function splitIntoInstallments(total: number, planType: InstallmentPlanType): number[] {
-  const count = parseInt(planType)
-  if (count === 2) {
-    const first = Math.round(total * 0.5)
-    return [first, total - first]
-  }
-  // For 3-5: first = 40%, rest split equally
-  const first = Math.round(total * 0.4)
+export function splitIntoInstallments(
+  total: number,
+  template: Pick<InstallmentTemplate, "parts" | "depositPercent">,
+): number[] {
+  const count = template.parts
+  const first = Math.round(total * template.depositPercent / 100)
+  if (count < 2) return [total]
   const remaining = total - first
   const perPart = Math.floor(remaining / (count - 1))
   const parts: number[] = [first]
@@ -71,12 +106,25 @@ export function splitIntoInstallments(total: number, planType: InstallmentPlanTy
   return parts
 }
 
-/** Builds due dates: first is today, rest are evenly spaced before the event */
-export function buildDueDates(planType: InstallmentPlanType, eventDate: Date): Date[] {
-  const count = parseInt(planType)
-  const now = new Date()
-  const msToEvent = eventDate.getTime() - now.getTime()
-  const interval = Math.floor(msToEvent / count)
+/** Last moment the final installment may fall due for a template */
+export function lastDueCutoff(template: Pick<InstallmentTemplate, "lastDueDaysBeforeEvent">, eventDate: Date): Date {
+  return new Date(new Date(eventDate).getTime() - Math.max(template.lastDueDaysBeforeEvent ?? 0, 0) * DAY_MS)
+}
+
+/** Builds due dates: first is now, then the template's fixed dates, or evenly
+ *  spaced ahead of the template's cutoff before the event.
+ */
+export function buildDueDates(
+  template: Pick<InstallmentTemplate, "parts" | "dueDates" | "lastDueDaysBeforeEvent">,
+  eventDate: Date,
+  now: Date = new Date(),
+): Date[] {
+  const count = template.parts
+  if (template.dueDates?.length === count - 1) {
+    return [now, ...template.dueDates.map((d) => new Date(d))]
+  }
+  const msToCutoff = lastDueCutoff(template, eventDate).getTime() - now.getTime()
+  const interval = Math.floor(msToCutoff / count)
 
   return Array.from({ length: count }, (_, i) => {
     if (i === 0) return now
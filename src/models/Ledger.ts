@@ -0,0 +1,100 @@
+// Append-only double-entry ledger behind organiser wallets and platform revenue.
+// Every entry's lines sum to zero: positive amounts are debits, negative credits.
+
+export type LedgerEntryType =
+  | "ticket_sale"
+  | "installment_payment"
+  | "refund"
+  | "chargeback"
+  | "payout"
+  | "adjustment"
+  // A co-organiser's, venue's or artist's cut of a sale, moved out of the creator's account
+  | "revenue_share"
+  // A resale buyer's payment, held for the seller rather than any organiser
+  | "resale_sale"
+
+// Accounts are plain strings; organiser accounts are `organizer:<userId>`
+export type LedgerAccount =
+  | "cash:pawapay"
+  | "cash:pesapal"
+  | "cash:bank"
+  // Installment principal held for the buyer until their tickets are issued
+  | "buyer_deposits"
+  // Resale proceeds held for the seller until their payout is sent
+  | "resale_payable"
+  | "platform:commission"
+  | "platform:service_fees"
+  | "platform:gateway_fees"
+  | "platform:adjustments"
+  | `organizer:${string}`
+
+export interface LedgerLine {
+  account: LedgerAccount
+  amount: number
+}
+
+export interface LedgerEntry {
+  id?: string
+  entry_type: LedgerEntryType
+  // One entry per source event: `sale:<ticketId>`, `payout:<payoutId>`, ...
+  idempotency_key: string
+  organizer_id: string | null
+  // The other organiser on a revenue-share entry: the event creator it is paid from
+  counterparty_id?: string | null
+  event_id?: string | null
+  // The row the entry was posted from (ticket, payout, refund request, plan)
+  source_id: string
+  // Tickets the entry covers, for sales, refunds and chargebacks
+  ticket_ids?: string[]
+  memo: string
+  lines: LedgerLine[]
+  occurred_at: string
+  // Organiser funds from a sale stay pending until the event has taken place
+  available_at?: string | null
+  created_by?: string | null
+  created_at?: string
+}
+
+// Derived from the ledger; `organizer_wallets` only caches it
+export interface WalletBalance {
+  organizerId: string
+  availableBalance: number
+  pendingBalance: number
+  totalEarnings: number
+  totalPayouts: number
+  totalRefunds: number
+  totalAdjustments: number
+  lastPayoutDate?: string
+}
+
+export interface StatementLine {
+  entryId?: string
+  occurredAt: string
+  entryType: LedgerEntryType
+  memo: string
+  sourceId: string
+  // Signed from the organiser's point of view: credits to them are positive
+  amount: number
+  balance: number
+}
+
+export type LedgerIssueKind =
+  | "unbalanced_entry"
+  | "missing_sale"
+  | "sale_amount_drift"
+  | "orphan_sale"
+  | "missing_refund"
+  | "missing_payout"
+  | "payout_amount_drift"
+  | "orphan_payout"
+  | "negative_balance"
+  | "wallet_drift"
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind
+  organizerId?: string | null
+  sourceId?: string
+  expected?: number
+  actual?: number
+  message: string
+}
@@ -0,0 +1,10 @@
+// WebAuthn passkeys on a platform authenticator (Face ID, Touch ID, Windows
+// Hello, Android screen lock). Public keys stay in the passkeys Netlify function.
+
+export interface Passkey {
+  id: string
+  name: string
+  createdAt: string
+  lastUsedAt: string | null
+  transports: string[]
+}
@@ -2,6 +2,7 @@ export interface PendingFulfillment {
   id: string
   paymentId: string
   pawapayDepositId?: string
+  pesapalTrackingId?: string
   buyerEmail: string
   buyerName?: string
   buyerId?: string
@@ -10,10 +11,17 @@ export interface PendingFulfillment {
   ticketType?: string
   quantity: number
   amount: number
-  status: "payment_confirmed" | "fulfilling" | "fulfilled" | "failed"
+  // awaiting_payment until the processor confirms; `failed` is retried with
+  // backoff by the fulfillment worker, `dead_letter` needs an admin
+  status: "awaiting_payment" | "payment_confirmed" | "fulfilling" | "fulfilled" | "failed" | "dead_letter" | "cancelled"
+  // Everything the worker needs to create the tickets without the buyer's browser
+  order?: FulfillmentOrder
   ticketIds?: string[]
+  emailedTicketIds?: string[]
   lastError?: string
   attemptCount: number
+  nextAttemptAt?: Date
+  confirmedAt?: Date
   adminResolvedBy?: string
   adminResolvedAt?: Date
   attendeeNames?: string[]
@@ -23,9 +31,47 @@ export interface PendingFulfillment {
 
 export type FulfillmentStatus = PendingFulfillment["status"]
 
+export interface FulfillmentOrder {
+  buyerNames: string[]
+  buyerEmails: string[]
+  deliveryEmails: string[]
+  payerEmail: string
+  isTableEntry: boolean
+  tableSize: number
+  seatNumbers?: (number | null)[]
+  tableNumbers?: (number | null)[]
+  buyerPhone?: string
+  // Already uploaded to R2; the worker cannot read a local camera capture
+  buyerPhotoUrl?: string
+  totalAmount: number
+  paymentMethod: "mobile_money" | "credit_card" | "bank_transfer"
+  paymentProvider?: string
+  paymentNumber?: string
+  paymentName?: string
+  ticketType?: string
+  promoCode?: string
+  discountAmount?: number
+  pricePhase?: string
+}
+
+// One row per worker run, for the admin stranded purchases view
+export interface FulfillmentAttempt {
+  id: string
+  fulfillmentId: string
+  attempt: number
+  trigger: string
+  outcome: "fulfilled" | "retry" | "dead_letter"
+  ticketsCreated: number
+  emailsSent: number
+  error?: string
+  startedAt: Date
+  finishedAt: Date
+}
+
 export interface CreateFulfillmentInput {
   paymentId: string
   pawapayDepositId?: string
+  pesapalTrackingId?: string
   buyerEmail: string
   buyerName?: string
   buyerId?: string
@@ -35,4 +81,5 @@ export interface CreateFulfillmentInput {
   quantity?: number
   amount: number
   attendeeNames?: string[]
+  order: FulfillmentOrder
 }
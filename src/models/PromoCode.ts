@@ -0,0 +1,52 @@
+export type PromoDiscountType = "percentage" | "fixed"
+
+// Stored server-side in `event_promo_codes`, out of buyers' reach; organisers
+// manage them from the dashboard through the promo-codes function
+export interface PromoCode {
+  code: string
+  type: PromoDiscountType
+  // Percent off (0-100) for percentage codes, UGX off the whole order for fixed ones
+  value: number
+  maxUses?: number
+  validFrom?: string
+  validUntil?: string
+  // Limit the code to these entryFees names; empty or missing means every tier
+  entryFees?: string[]
+  // Only applies when buying at least this many tickets in one order
+  minGroupSize?: number
+  // Group deals are applied at checkout without the buyer typing the code
+  autoApply?: boolean
+  active: boolean
+  createdAt?: string
+}
+
+// What checkout learns about an order's discount; the codes themselves stay on the server
+export interface PromoCheck {
+  // The event has at least one active code, so checkout offers a code field
+  acceptsCodes: boolean
+  promo: Pick<PromoCode, "code" | "type" | "value" | "autoApply"> | null
+  discount: number
+  // Why the typed code was refused
+  error?: string
+}
+
+export interface PromoRedemption {
+  id: string
+  event_id: string
+  code: string
+  ticket_type?: string
+  quantity: number
+  discount_amount: number
+  order_total: number
+  buyer_email?: string
+  payment_reference?: string
+  created_at: string
+}
+
+export interface PromoCodeReport {
+  code: string
+  redemptions: number
+  ticketsSold: number
+  discountGiven: number
+  revenue: number
+}
@@ -0,0 +1,45 @@
+// Venues and artists a user follows, and the "For you" event feed ranked from
+// them, the user's tickets and where they are.
+
+export type FollowTargetType = "venue" | "artist"
+
+export interface Follow {
+  targetType: FollowTargetType
+  // Venue slug, or the artist's name folded by artistKey
+  targetKey: string
+  targetName: string
+  createdAt: Date
+}
+
+export type RecommendationReasonKind =
+  | "attended_venue"
+  | "purchased_venue"
+  | "followed_venue"
+  | "followed_artist"
+  | "seen_artist"
+  | "price"
+  | "nearby"
+  | "habit"
+  | "popular"
+  | "new"
+  | "soon"
+
+export interface RecommendationReason {
+  kind: RecommendationReasonKind
+  // e.g. "Because you went to Kyoto"
+  text: string
+}
+
+export interface EventRecommendation {
+  eventId: string
+  score: number
+  // Strongest first
+  reasons: RecommendationReason[]
+}
+
+export interface RecommendationFeed {
+  // False for anonymous visitors, who get popular and upcoming events
+  personalised: boolean
+  recommendations: EventRecommendation[]
+  generatedAt: Date
+}
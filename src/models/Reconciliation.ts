@@ -0,0 +1,73 @@
+export type GatewayProvider = "pawapay" | "pesapal"
+export type TransactionKind = "deposit" | "payout" | "refund"
+export type SettlementStatus = "completed" | "pending" | "failed"
+
+// One line of a gateway statement, pulled from the API or imported as CSV
+export interface GatewayTransaction {
+  provider: GatewayProvider
+  kind: TransactionKind
+  // The processor's id: PawaPay deposit/payout/refund id, PesaPal tracking id
+  reference: string
+  // Other ids the same transaction is known by (merchant reference, confirmation code)
+  aliases?: string[]
+  amount: number
+  currency?: string
+  status: SettlementStatus
+  occurredAt?: string
+}
+
+export type LedgerSource = "ticket" | "installment" | "refund" | "payout"
+
+// Something on our side that claims money moved: a ticket purchase, a paid
+// installment, an executed refund or a payout
+export interface LedgerRecord {
+  source: LedgerSource
+  id: string
+  kind: TransactionKind
+  provider?: GatewayProvider
+  references: string[]
+  amount: number
+  status: SettlementStatus
+  occurredAt?: string
+  label: string
+  ticketIds?: string[]
+}
+
+export type ReconciliationStatus = "matched" | "orphan_payment" | "missing_payment" | "amount_mismatch" | "duplicate"
+export type ReconciliationAction = "create_fulfillment" | "open_refund"
+
+export interface ReconciliationRow {
+  id: string
+  status: ReconciliationStatus
+  kind: TransactionKind
+  transactions: GatewayTransaction[]
+  records: LedgerRecord[]
+  gatewayAmount: number | null
+  ledgerAmount: number | null
+  note?: string
+  action?: ReconciliationAction
+  // Set once an admin has acted on the row
+  resolution?: { action: ReconciliationAction; by: string; at: string; reference?: string }
+}
+
+export interface ReconciliationSummary {
+  matched: number
+  orphan_payment: number
+  missing_payment: number
+  amount_mismatch: number
+  duplicate: number
+  // Ledger records that could not be looked up at the gateway
+  unchecked: number
+}
+
+export interface ReconciliationReport {
+  id: string
+  range_from: string
+  range_to: string
+  source: "pull" | "csv"
+  provider?: GatewayProvider | null
+  summary: ReconciliationSummary
+  rows: ReconciliationRow[]
+  created_by?: string
+  created_at: string
+}
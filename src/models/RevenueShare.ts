@@ -0,0 +1,29 @@
+// How an event's organiser revenue is shared with co-promoters, the venue
+// and artist management. Whatever the rules do not give away stays with the
+// event's creator.
+
+export type RevenueShareRole = "co_organizer" | "venue" | "artist_management" | "other"
+
+export interface RevenueShareRule {
+  id: string
+  beneficiaryId: string
+  // Display only; resolved from the beneficiary's account when saved
+  beneficiaryName?: string
+  role: RevenueShareRole
+  type: "percentage" | "fixed"
+  // Percent of each ticket's venue revenue, or UGX per ticket
+  value: number
+  // Entry fee names the rule applies to; every ticket type when empty
+  entryFees?: string[]
+}
+
+export interface TicketShare {
+  beneficiaryId: string
+  role: RevenueShareRole | "owner"
+  amount: number
+}
+
+// One beneficiary's cut of a batch of tickets, i.e. one payout
+export interface BeneficiaryShare extends TicketShare {
+  ticketIds: string[]
+}
@@ -0,0 +1,84 @@
+// Checkout risk scoring. Every paid checkout is assessed by the payment
+// functions before money moves; step-up and block outcomes land in the admin
+// review queue.
+
+export type RiskAction = "allow" | "step_up" | "block"
+
+// How a step-up is satisfied. New step-ups are always a code emailed to the
+// payer; "photo" only appears on earlier checkouts.
+export type RiskStepUp = "photo" | "otp"
+
+export type RiskSignal =
+  | "velocity_phone"
+  | "velocity_email"
+  | "velocity_device"
+  | "name_mismatch"
+  | "photo_reuse"
+  | "prior_chargeback"
+  | "confirmed_fraud"
+  | "seat_hold_abuse"
+
+export interface RiskFactor {
+  signal: RiskSignal
+  points: number
+  detail: string
+}
+
+export type RiskReviewStatus = "pending" | "cleared" | "fraud"
+
+/** A flagged checkout as admins see it. Buyers only ever see the action. */
+export interface RiskAssessment {
+  id: string
+  createdAt: string
+  eventId: string | null
+  eventName: string | null
+  email: string | null
+  phone: string | null
+  // Hash of the network the checkout came from
+  deviceId: string | null
+  payerName: string | null
+  amount: number
+  quantity: number
+  paymentMethod: string | null
+  score: number
+  action: RiskAction
+  stepUp: RiskStepUp | null
+  stepUpPassedAt: string | null
+  factors: RiskFactor[]
+  // Set once the buyer's payment was started with this assessment
+  paymentId: string | null
+  reviewStatus: RiskReviewStatus | null
+  reviewedBy: string | null
+  reviewedAt: string | null
+  reviewNote: string | null
+}
+
+/** Sent with a checkout so the payment function can score it */
+export interface CheckoutRiskInput {
+  eventId: string
+  eventName?: string
+  email: string
+  phone?: string
+  payerName?: string
+  buyerNames: string[]
+  // SHA-256 of the security photo, when one was taken
+  photoHash?: string
+  quantity: number
+  amount: number
+}
+
+/** What the payment functions return instead of starting a payment */
+export interface CheckoutRiskDecision {
+  action: Exclude<RiskAction, "allow">
+  assessmentId: string
+  stepUp?: RiskStepUp
+}
+
+export interface RiskQueueFilters {
+  status?: RiskReviewStatus | ""
+  action?: Exclude<RiskAction, "allow"> | ""
+  // Email, phone or network hash
+  search?: string
+  limit?: number
+  offset?: number
+}
@@ -0,0 +1,70 @@
+// An organiser's team: the event creator owns an organisation and invites
+// staff by email. Members get the creator's events with whatever their role
+// allows; every sensitive action they take is written to the audit log.
+
+export type TeamRole = "owner" | "finance" | "door_manager" | "marketing" | "read_only"
+
+export type TeamPermission =
+  | "view_dashboard"
+  | "payouts"
+  | "refunds"
+  | "reentry"
+  | "door"
+  | "staff_tokens"
+  | "event_status"
+  | "promotions"
+  | "manage_team"
+
+export type TeamMemberStatus = "invited" | "active" | "removed"
+
+export interface Organization {
+  id: string
+  name: string
+  ownerId: string
+  createdAt: string
+}
+
+export interface TeamMember {
+  id: string
+  organizationId: string
+  // Set once the invite is accepted
+  userId?: string | null
+  email: string
+  name?: string | null
+  role: Exclude<TeamRole, "owner">
+  status: TeamMemberStatus
+  invitedBy: string
+  invitedAt: string
+  joinedAt?: string | null
+}
+
+export type TeamAction =
+  | "payout_requested"
+  | "refund_approved"
+  | "refund_rejected"
+  | "reentry_granted"
+  | "event_status_changed"
+  | "staff_token_created"
+  | "staff_token_revoked"
+  | "member_invited"
+  | "member_role_changed"
+  | "member_removed"
+
+export interface TeamAuditEntry {
+  id: string
+  organizationId: string
+  eventId?: string | null
+  actorId: string
+  actorEmail?: string | null
+  actorRole: TeamRole | "admin"
+  action: TeamAction
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+// What the signed-in user may do on one event
+export interface EventAccess {
+  role: TeamRole | "admin"
+  permissions: TeamPermission[]
+  organizationId?: string | null
+}
@@ -1,3 +1,5 @@
+import type { TicketTransferEvent } from "./TicketTransfer"
+
 export interface Ticket {
   id: string
   eventId: string
@@ -54,6 +56,14 @@ export interface Ticket {
   paymentNumber?: string
   paymentName?: string
   qrSignature?: string
+  // Per-ticket secret for rotating QR codes; set only when the entry fee opts in
+  qrSecret?: string
+  transferHistory?: TicketTransferEvent[]
+  promoCode?: string
+  // This ticket's share of the order's promo discount
+  discountAmount?: number
+  // Price phase (early bird, regular, gate...) the ticket was sold in
+  pricePhase?: string
 }
 
 export interface TicketValidation {
@@ -63,6 +73,7 @@ export interface TicketValidation {
   validatedAt: Date
   validatedBy: string
   location?: string
+  gate?: string
   status: "granted" | "denied"
   reason?: string
 }
@@ -0,0 +1,35 @@
+export type TicketTransferEventType = "transfer" | "resale_listed" | "resale_cancelled" | "resale_sold" | "qr_reissued"
+
+// One entry in Ticket.transferHistory, appended server-side by ticket-transfer
+export interface TicketTransferEvent {
+  type: TicketTransferEventType
+  at: string
+  actorId?: string
+  fromEmail?: string
+  toEmail?: string
+  price?: number
+  note?: string
+  previousQrCode?: string
+}
+
+export interface ResaleListing {
+  id: string
+  ticket_id: string
+  event_id: string
+  entry_fee_type?: string | null
+  seller_id?: string
+  seller_email?: string
+  price: number
+  face_value: number
+  max_price?: number
+  currency: string
+  status: "active" | "sold" | "cancelled"
+  buyer_id?: string | null
+  buyer_email?: string | null
+  payment_provider?: "pawapay" | "pesapal" | null
+  payment_reference?: string | null
+  payment_id?: string | null
+  payout_id?: string | null
+  created_at: string
+  sold_at?: string | null
+}
@@ -0,0 +1,27 @@
+// TOTP two-factor authentication for privileged accounts. Secrets and
+// backup-code hashes never leave the two-factor Netlify function.
+
+// "passkey" when a passwordless sign-in claimed its session
+export type TwoFactorMethod = "totp" | "backup_code" | "email_recovery" | "passkey"
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enrolledAt: string | null
+  backupCodesRemaining: number
+  // This sign-in has passed the second factor
+  sessionVerified: boolean
+  // Admin policy: admins must verify before opening /profile/admin/*
+  requiredForAdmin: boolean
+}
+
+export interface TwoFactorEnrollment {
+  // Base32, for typing into an authenticator by hand
+  secret: string
+  otpauthUrl: string
+}
+
+export interface TwoFactorPolicy {
+  requireForAdmin: boolean
+  updatedAt: string | null
+  updatedBy: string | null
+}
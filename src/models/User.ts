@@ -9,6 +9,8 @@ export interface User {
   photoURL?: string
   venueId?: string
   isFrozen?: boolean
+  // Organiser-specific YoVibe commission (0-1); the default rate applies when unset
+  commissionRate?: number | null
   createdAt: Date
   lastLoginAt: Date
   // Payment details for organizers
@@ -0,0 +1,54 @@
+// Attendee vibe check-ins: a quick photo or 1-5 rating plus a few tags from
+// someone who is verifiably at the venue. Photo check-ins are scored by the
+// vibe-scoring worker like any vibe photo; rated ones feed the live index
+// directly, weighted by the attendee's reputation.
+
+export type VibeCheckInTag =
+  | "packed"
+  | "quiet"
+  | "good_dj"
+  | "live_band"
+  | "dancing"
+  | "long_queue"
+  | "easy_entry"
+  | "pricey_drinks"
+
+// How the attendee proved they were there: a ticket for an event at the venue
+// scanned at the door tonight, or their location inside the venue's geofence
+export type VibePresenceMethod = "ticket" | "geofence"
+
+export interface VibeCheckIn {
+  id: string
+  venueId: string
+  userId: string
+  // Set for rated check-ins; photo check-ins are rated by the worker
+  rating: number | null
+  imageId: string | null
+  tags: VibeCheckInTag[]
+  presence: VibePresenceMethod
+  createdAt: string
+}
+
+/** From LocationService; accuracy is null when the browser gave no real fix */
+export interface VibeCheckInPosition {
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  timestamp: number
+}
+
+export interface VibeCheckInInput {
+  venueId: string
+  rating?: number
+  imageUrl?: string
+  tags: VibeCheckInTag[]
+  position?: VibeCheckInPosition
+}
+
+/** What the check-in screen needs before asking for a location */
+export interface VibeCheckInEligibility {
+  // Event whose scanned ticket already proves presence
+  ticketEvent: string | null
+  // Set while the attendee is rate limited
+  retryAt: string | null
+}
@@ -1,3 +1,18 @@
+// Vibe photos are scored by the vibe-scoring worker, never by the uploader's
+// browser. Only "scored" photos (and legacy rows with no status) are public.
+export type VibeScoringStatus = "pending" | "scored" | "rejected" | "flagged" | "removed" | "failed"
+
+// Why a photo was rejected outright, or held for a moderator
+export type VibeReason = "duplicate" | "stale" | "future_timestamp" | "no_capture_time" | "nsfw" | "irrelevant"
+
+export interface VibeAnalysis {
+  crowdDensity?: number
+  lightingQuality?: number
+  energyLevel?: number
+  musicVibes?: number
+  overallAtmosphere?: number
+}
+
 export interface VibeImage {
   id: string
   venueId: string
@@ -5,11 +20,10 @@ export interface VibeImage {
   vibeRating: number // 0-5
   uploadedAt: Date
   uploadedBy: string
-  analysisData?: {
-    crowdDensity?: number
-    lightingQuality?: number
-    energyLevel?: number
-    musicVibes?: number
-    overallAtmosphere?: number
-  }
+  analysisData?: VibeAnalysis
+  scoringStatus?: VibeScoringStatus
+  // The model that produced vibeRating, and its top class probability
+  modelVersion?: string
+  confidence?: number
+  reasons?: VibeReason[]
 }
@@ -0,0 +1,38 @@
+import type { VibeCheckInTag } from "./VibeCheckIn"
+
+// Live vibe index: recent vibe photo and check-in ratings, decayed with age
+// and weighted by how much we trust each contributor, leaning on the venue's
+// usual vibe for this night and hour when there are few of them.
+
+export type VibeIndexConfidence = "high" | "medium" | "low" | "none"
+
+// Where the index came from: tonight's photos, the venue's history, or both
+export type VibeIndexSource = "live" | "blended" | "typical" | "none"
+
+/** One hour of tonight, for the sparkline */
+export interface VibeIndexPoint {
+  // End of the hour
+  at: string
+  // Index as it stood at the end of the hour
+  index: number | null
+  typical: number | null
+  // Photos and rated check-ins during the hour
+  photos: number
+}
+
+export interface VenueVibeIndex {
+  venueId: string
+  index: number // 0-5
+  confidence: VibeIndexConfidence
+  source: VibeIndexSource
+  // Usual vibe for this night of the week at this hour
+  typical: number | null
+  livePhotos: number
+  liveCheckIns: number
+  // Latest photo or rated check-in
+  lastPhotoAt: string | null
+  // What attendees checking in lately say about the place
+  tags: VibeCheckInTag[]
+  tonight: VibeIndexPoint[]
+  computedAt: string
+}
@@ -0,0 +1,63 @@
+import type { VibeAnalysis } from "./VibeImage"
+
+// Versions of the vibe model, kept in vibe_models/registry.json next to the
+// TFJS files. The scoring worker loads the promoted version and shadow scores
+// with the candidate; scripts/vibe-model.js evaluates, promotes and registers.
+// With nothing promoted, photos are rated from their pixels.
+
+export interface VibeCalibrationBin {
+  // Top-class probability range, [from, to)
+  from: number
+  to: number
+  count: number
+  // Mean top-class probability and share of correct predictions in the bin
+  confidence: number
+  accuracy: number
+}
+
+export interface VibeModelMetrics {
+  // Labelled image set the model was run on, and a hash of its labels
+  dataset: string
+  datasetHash: string
+  evaluatedAt: string
+  samples: number
+  accuracy: number
+  // confusion[actual][predicted]
+  confusion: number[][]
+  ratingMae: number
+  // Expected calibration error over the bins, weighted by sample count
+  calibrationError: number
+  calibration: VibeCalibrationBin[]
+  // Share of photos the worker would reject for low confidence
+  lowConfidenceShare: number
+}
+
+export interface VibeModelVersion {
+  version: string
+  // Directory under vibe_models holding model.json and its weight shards
+  path: string
+  inputSize: number
+  // Ratings for each class the model predicts, quietest first
+  classRatings: Required<VibeAnalysis>[]
+  createdAt: string
+  promotedAt: string | null
+  metrics: VibeModelMetrics | null
+  notes?: string
+}
+
+export interface VibeModelRegistry {
+  promoted: string | null
+  // Scored alongside the promoted version without affecting ratings
+  candidate: string | null
+  versions: VibeModelVersion[]
+}
+
+export interface VibeShadowSummary {
+  candidate: string
+  count: number
+  // Candidate rating minus promoted rating
+  ratingMae: number
+  ratingBias: number
+  // Photos one model would reject for low confidence and the other would not
+  confidenceDisagreements: number
+}
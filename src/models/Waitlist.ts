@@ -0,0 +1,20 @@
+export type WaitlistStatus = "waiting" | "offered" | "claimed" | "expired" | "left"
+
+export interface WaitlistEntry {
+  id: string
+  event_id: string
+  fee_type: string
+  user_id?: string
+  email: string
+  name?: string
+  status: WaitlistStatus
+  claim_token?: string | null
+  offered_at?: string | null
+  offer_expires_at?: string | null
+  claimed_at?: string | null
+  created_at: string
+  // Place in line, only returned for waiting entries
+  position?: number
+}
+
+export type WaitlistClaim = Pick<WaitlistEntry, "id" | "fee_type" | "email" | "offer_expires_at">
@@ -27,10 +27,13 @@ import MyVenuesScreen from "../screens/MyVenuesScreen"
 import ManageProgramsScreen from "../screens/ManageProgramsScreen"
 import AddVibeScreen from "../screens/AddVibeScreen"
 import TodaysVibeScreen from "../screens/TodaysVibeScreen"
+import VibeCheckInScreen from "../screens/VibeCheckInScreen"
 import TicketContactScreen from "../screens/TicketContactScreen"
 import TicketPurchaseScreen from "../screens/TicketPurchaseScreen"
 import TicketScannerScreen from "../screens/TicketScannerScreen"
 import MyTicketsScreen from "../screens/MyTicketsScreen"
+import RevenueSharesScreen from "../screens/RevenueSharesScreen"
+import TeamScreen from "../screens/TeamScreen"
 import NotificationScreen from "../screens/NotificationScreen"
 import PaymentCallbackScreen from "../screens/PaymentCallbackScreen"
 
@@ -42,6 +45,11 @@ import AdminOwnershipRequestsScreen from "../screens/admin/AdminOwnershipRequest
 import AdminDashboardScreen from "../screens/admin/AdminDashboardScreen"
 import AdminStrandedPurchasesScreen from "../screens/admin/AdminStrandedPurchasesScreen"
 import AdminRefundsScreen from "../screens/admin/AdminRefundsScreen"
+import AdminReconciliationScreen from "../screens/admin/AdminReconciliationScreen"
+import AdminLedgerScreen from "../screens/admin/AdminLedgerScreen"
+import AdminAuditLogScreen from "../screens/admin/AdminAuditLogScreen"
+import AdminRiskReviewScreen from "../screens/admin/AdminRiskReviewScreen"
+import AdminVibeModerationScreen from "../screens/admin/AdminVibeModerationScreen"
 import AdminWithdrawalsScreen from "../screens/admin/AdminWithdrawalsScreen"
 import AdminPayoutsScreen from "../screens/admin/AdminPayoutsScreen"
 import AdminGeocodeScreen from "../screens/admin/AdminGeocodeScreen"
@@ -250,6 +258,7 @@ export const VenuesStackNavigator = () => {
         options={{ title: "Weekly Programs" }}
       />
       <VenuesStack.Screen name="TodaysVibe" component={TodaysVibeScreenWrapper} options={{ title: "Today's Vibe" }} />
+      <VenuesStack.Screen name="VibeCheckIn" component={VibeCheckInScreen} options={{ title: "Vibe Check-in" }} />
       <VenuesStack.Screen
         name="TicketContactScreen"
         component={TicketContactScreenWrapper}
@@ -511,6 +520,11 @@ export const ProfileStackNavigator = () => {
       <ProfileStack.Screen name="AdminOwnershipRequests" component={AdminOwnershipRequestsScreen} options={{ title: "Ownership Requests" }} />
       <ProfileStack.Screen name="AdminStrandedPurchases" component={AdminStrandedPurchasesScreen} options={{ title: "Stranded Purchases" }} />
       <ProfileStack.Screen name="AdminRefunds" component={AdminRefundsScreen} options={{ title: "Refund Requests" }} />
+      <ProfileStack.Screen name="AdminReconciliation" component={AdminReconciliationScreen} options={{ title: "Payment Reconciliation" }} />
+      <ProfileStack.Screen name="AdminLedger" component={AdminLedgerScreen} options={{ title: "Organiser Ledger" }} />
+      <ProfileStack.Screen name="AdminAuditLog" component={AdminAuditLogScreen} options={{ title: "Security Audit Log" }} />
+      <ProfileStack.Screen name="AdminRiskReview" component={AdminRiskReviewScreen} options={{ title: "Risk Review" }} />
+      <ProfileStack.Screen name="AdminVibeModeration" component={AdminVibeModerationScreen} options={{ title: "Vibe Moderation" }} />
       <ProfileStack.Screen name="AdminWithdrawals" component={AdminWithdrawalsScreen} options={{ title: "Revenue Withdrawals" }} />
       <ProfileStack.Screen name="AdminPayouts" component={AdminPayoutsScreen} options={{ title: "Payout Requests" }} />
       <ProfileStack.Screen name="AdminGeocode" component={AdminGeocodeScreen} options={{ title: "Venue Geocoding" }} />
@@ -543,6 +557,8 @@ export const ProfileStackNavigator = () => {
         component={MyTicketsScreenWrapper}
         options={{ title: "My Tickets" }}
       />
+      <ProfileStack.Screen name="RevenueShares" component={RevenueSharesScreen} options={{ title: "Revenue Shares" }} />
+      <ProfileStack.Screen name="Team" component={TeamScreen} options={{ title: "My Team" }} />
     </ProfileStack.Navigator>
   )
 }
@@ -26,6 +26,7 @@ export type VenuesStackParamList = {
   EventDetail: { eventId: string }
   ManagePrograms: { venueId: string; weeklyPrograms: Record<string, string> }
   TodaysVibe: { venueId: string; venueName: string }
+  VibeCheckIn: { venueId: string }
   TicketContactScreen: { ticketContacts: Array<{ number: string; type: "call" | "whatsapp" }> }
   TicketPurchase: { event: Event }
   TicketScanner: { eventId: string; eventName: string }
@@ -86,6 +87,11 @@ export type ProfileStackParamList = {
   AdminDashboard: undefined
   AdminStrandedPurchases: undefined
   AdminRefunds: undefined
+  AdminReconciliation: undefined
+  AdminLedger: undefined
+  AdminAuditLog: undefined
+  AdminRiskReview: undefined
+  AdminVibeModeration: undefined
   AdminWithdrawals: undefined
   AdminPayouts: undefined
   AdminGeocode: undefined
@@ -99,6 +105,8 @@ export type ProfileStackParamList = {
   OrganiserDashboard: { eventId: string }
   TicketPurchase: { event: Event }
   MyTickets: undefined
+  RevenueShares: undefined
+  Team: undefined
   Auth: { screen: "Login" | "SignUp" } // Added for sign-out navigation
 }
 
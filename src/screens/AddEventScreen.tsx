@@ -24,6 +24,9 @@ import { useAuth } from "../contexts/AuthContext"
 import { generateEditorHTML, defaultLayout } from "../services/TicketPDFService"
 import type { TicketLayout } from "../services/TicketLayoutEngine"
 import { ValidationDialog } from "../components/ValidationDialog"
+import type { PricePhase } from "../models/Event"
+import type { InstallmentTemplate } from "../models/InstallmentPlan"
+import { templateSetupError } from "../utils/installmentTemplates"
 
 // Responsive breakpoints for add event screen
 const { width } = Dimensions.get('window');
@@ -40,7 +43,7 @@ const responsiveSize = (small: number, medium: number, large: number) => {
   return small;
 };
 
-type EntryFee = { name: string; amount: string; isTable?: boolean; tableSize?: number; maxTickets?: number; seatMap?: { type: "none" | "numbered" | "cinema"; rows?: number; cols?: number }; ticketDesign?: { enabled: boolean; orientation: "portrait" | "landscape"; source: "template" | "upload"; template_id: string | null; background_url: string | null; dimensions: { width: number; height: number }; qr_position?: "top" | "bottom" | "center" | "left" | "right"; layout?: TicketLayout } }
+type EntryFee = { name: string; amount: string; isTable?: boolean; tableSize?: number; maxTickets?: number; rotatingQR?: boolean; pricePhases?: PricePhase[]; seatMap?: { type: "none" | "numbered" | "cinema"; rows?: number; cols?: number }; ticketDesign?: { enabled: boolean; orientation: "portrait" | "landscape"; source: "template" | "upload"; template_id: string | null; background_url: string | null; dimensions: { width: number; height: number }; qr_position?: "top" | "bottom" | "center" | "left" | "right"; layout?: TicketLayout } }
 
 // ─── Interactive ticket editor (web only) ────────────────────────────────────
 const TicketEditor: React.FC<{
@@ -222,7 +225,22 @@ const AddEventScreen: React.FC<any> = (props) => {
   const [newFeeName, setNewFeeName] = useState("")
   const [newFeeAmount, setNewFeeAmount] = useState("")
   const [newFeeIsTable, setNewFeeIsTable] = useState(false)
+  const [newFeeRotatingQR, setNewFeeRotatingQR] = useState(false)
+  const [newFeePhases, setNewFeePhases] = useState<PricePhase[]>([])
+  const [newPhaseName, setNewPhaseName] = useState("")
+  const [newPhaseAmount, setNewPhaseAmount] = useState("")
+  const [newPhaseEndsAt, setNewPhaseEndsAt] = useState("")
+  const [newPhaseUntilSold, setNewPhaseUntilSold] = useState("")
   const [newTableSize, setNewTableSize] = useState("")
+  // Pay-in-parts templates; buyers get the defaults when none are added
+  const [installmentTemplates, setInstallmentTemplates] = useState<InstallmentTemplate[]>([])
+  const [showPlanForm, setShowPlanForm] = useState(false)
+  const [newPlanName, setNewPlanName] = useState("")
+  const [newPlanParts, setNewPlanParts] = useState("3")
+  const [newPlanDeposit, setNewPlanDeposit] = useState("40")
+  const [newPlanDueDates, setNewPlanDueDates] = useState("")
+  const [newPlanLastDueDays, setNewPlanLastDueDays] = useState("")
+  const [newPlanMinPrice, setNewPlanMinPrice] = useState("")
   const [showContactForm, setShowContactForm] = useState(false)
   const [ticketContacts, setTicketContacts] = useState<Array<{ number: string; type: "call" | "whatsapp" }>>([])
   const [newContactNumber, setNewContactNumber] = useState("")
@@ -470,6 +488,32 @@ const AddEventScreen: React.FC<any> = (props) => {
     setNewFeeAmount("")
   }
 
+  const addPricePhase = () => {
+    if (!newPhaseName.trim() || !newPhaseAmount.trim()) {
+      Alert.alert("Error", "Please enter a phase name and price")
+      return
+    }
+    const endsAt = newPhaseEndsAt.trim() ? new Date(newPhaseEndsAt.trim()) : null
+    if (endsAt && Number.isNaN(endsAt.getTime())) {
+      Alert.alert("Error", "Use YYYY-MM-DD HH:MM for the phase end")
+      return
+    }
+    const untilSold = parseInt(newPhaseUntilSold)
+    setNewFeePhases([
+      ...newFeePhases,
+      {
+        name: newPhaseName.trim(),
+        amount: newPhaseAmount.trim(),
+        endsAt: endsAt ? endsAt.toISOString() : undefined,
+        untilSold: !isNaN(untilSold) && untilSold > 0 ? untilSold : undefined,
+      },
+    ])
+    setNewPhaseName("")
+    setNewPhaseAmount("")
+    setNewPhaseEndsAt("")
+    setNewPhaseUntilSold("")
+  }
+
   const addFee = () => {
     if (!newFeeName.trim() || !newFeeAmount.trim()) {
       Alert.alert("Error", "Please enter both a fee name and amount")
@@ -492,6 +536,15 @@ const AddEventScreen: React.FC<any> = (props) => {
       fee.isTable = true
       fee.tableSize = size
     }
+    if (newFeeRotatingQR) fee.rotatingQR = true
+    if (newFeePhases.length > 0) {
+      const last = newFeePhases[newFeePhases.length - 1]
+      if (last.endsAt || last.untilSold) {
+        Alert.alert("Error", "The last price phase must have no end date or ticket limit, so there is always a price (e.g. Gate)")
+        return
+      }
+      fee.pricePhases = newFeePhases
+    }
     // Capacity
     const maxT = parseInt(newFeeMaxTickets)
     if (!isNaN(maxT) && maxT > 0) {
@@ -529,6 +582,8 @@ const AddEventScreen: React.FC<any> = (props) => {
     setNewFeeName("")
     setNewFeeAmount("")
     setNewFeeIsTable(false)
+    setNewFeeRotatingQR(false)
+    setNewFeePhases([])
     setNewTableSize("")
     setNewFeeCustomDesign(false)
     setNewFeeDesignOrientation("portrait")
@@ -548,6 +603,42 @@ const AddEventScreen: React.FC<any> = (props) => {
     setEntryFees(entryFees.filter((_, i) => i !== index))
   }
 
+  const addInstallmentTemplate = () => {
+    const dueDates = newPlanDueDates.split(",").map((d) => d.trim()).filter(Boolean)
+    const lastDueDays = parseInt(newPlanLastDueDays)
+    const minPrice = parseInt(newPlanMinPrice.replace(/[^0-9]/g, ""))
+    const template: InstallmentTemplate = {
+      id: `plan_${Date.now().toString(36)}`,
+      name: newPlanName.trim(),
+      parts: parseInt(newPlanParts),
+      depositPercent: parseFloat(newPlanDeposit),
+      dueDates: dueDates.length ? dueDates.map((d) => new Date(d).toISOString()) : undefined,
+      lastDueDaysBeforeEvent: !isNaN(lastDueDays) && lastDueDays > 0 ? lastDueDays : undefined,
+      minTicketPrice: !isNaN(minPrice) && minPrice > 0 ? minPrice : undefined,
+    }
+    if (dueDates.some((d) => Number.isNaN(new Date(d).getTime()))) {
+      Alert.alert("Error", "Use YYYY-MM-DD for due dates, separated by commas")
+      return
+    }
+    const problem = templateSetupError(template, date)
+    if (problem) {
+      Alert.alert("Error", problem)
+      return
+    }
+    setInstallmentTemplates([...installmentTemplates, template])
+    setNewPlanName("")
+    setNewPlanParts("3")
+    setNewPlanDeposit("40")
+    setNewPlanDueDates("")
+    setNewPlanLastDueDays("")
+    setNewPlanMinPrice("")
+    setShowPlanForm(false)
+  }
+
+  const removeInstallmentTemplate = (index: number) => {
+    setInstallmentTemplates(installmentTemplates.filter((_, i) => i !== index))
+  }
+
   const toggleContactForm = () => {
     setShowContactForm(!showContactForm)
     setNewContactNumber("")
@@ -927,6 +1018,7 @@ const AddEventScreen: React.FC<any> = (props) => {
         ticketContacts,
         paymentMethods,
         entryFees: isFreeEntry ? [] : processedEntryFees,
+        installmentTemplates: isFreeEntry ? [] : installmentTemplates,
         attendees: [],
         createdBy: user.id,
         createdByType: user.userType,
@@ -1298,6 +1390,16 @@ const AddEventScreen: React.FC<any> = (props) => {
                     </TouchableOpacity>
                     <Text style={styles.checkboxLabel}>Custom Design</Text>
                   </View>
+                  <View style={styles.checkboxContainer}>
+                    <TouchableOpacity style={styles.checkbox} onPress={() => setNewFeeRotatingQR(!newFeeRotatingQR)}>
+                      {newFeeRotatingQR ? (
+                        <Ionicons name="checkbox" size={24} color="#2196F3" />
+                      ) : (
+                        <Ionicons name="square-outline" size={24} color="#FFFFFF" />
+                      )}
+                    </TouchableOpacity>
+                    <Text style={styles.checkboxLabel}>Live QR (anti-resale)</Text>
+                  </View>
                 </View>
                 {newFeeCustomDesign && (
                   <View style={styles.customDesignContainer}>
@@ -1448,6 +1550,51 @@ const AddEventScreen: React.FC<any> = (props) => {
                     </>
                   )}
                 </View>
+                {/* ── Price Phases ── */}
+                <View style={styles.customDesignContainer}>
+                  <Text style={styles.designLabel}>Price Phases (optional)</Text>
+                  <Text style={{ color: "#666", fontSize: 11, marginBottom: 8 }}>
+                    e.g. Early bird until a date or number sold, then Regular, then Gate. Each phase ends at its date or ticket count, whichever comes first. Leave the last phase open-ended.
+                  </Text>
+                  {newFeePhases.map((phase, i) => (
+                    <View key={`${phase.name}_${i}`} style={[styles.feeItem, { marginBottom: 6 }]}>
+                      <View>
+                        <Text style={styles.feeText}>{i + 1}. {phase.name} · UGX {phase.amount}</Text>
+                        <Text style={styles.feeAmountText}>
+                          {[phase.endsAt && `until ${new Date(phase.endsAt).toLocaleString()}`, phase.untilSold && `first ${phase.untilSold} sold`].filter(Boolean).join(" or ") || "until the event"}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => setNewFeePhases(newFeePhases.filter((_, j) => j !== i))}>
+                        <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  <View style={styles.dimensionRow}>
+                    <View style={styles.dimensionField}>
+                      <Text style={styles.dimensionLabel}>Phase</Text>
+                      <TextInput style={styles.dimensionInput} value={newPhaseName} onChangeText={setNewPhaseName} placeholder="Early bird" placeholderTextColor="#666" />
+                    </View>
+                    <View style={styles.dimensionField}>
+                      <Text style={styles.dimensionLabel}>Price</Text>
+                      <TextInput style={styles.dimensionInput} value={newPhaseAmount} onChangeText={setNewPhaseAmount} placeholder="15,000" placeholderTextColor="#666" keyboardType="numeric" />
+                    </View>
+                  </View>
+                  <View style={styles.dimensionRow}>
+                    <View style={styles.dimensionField}>
+                      <Text style={styles.dimensionLabel}>Ends (YYYY-MM-DD HH:MM)</Text>
+                      <TextInput style={styles.dimensionInput} value={newPhaseEndsAt} onChangeText={setNewPhaseEndsAt} placeholder="optional" placeholderTextColor="#666" />
+                    </View>
+                    <View style={styles.dimensionField}>
+                      <Text style={styles.dimensionLabel}>Or after N sold</Text>
+                      <TextInput style={styles.dimensionInput} value={newPhaseUntilSold} onChangeText={setNewPhaseUntilSold} placeholder="optional" placeholderTextColor="#666" keyboardType="numeric" />
+                    </View>
+                  </View>
+                  <TouchableOpacity style={[styles.addButton, { marginTop: 8 }]} onPress={addPricePhase}>
+                    <Ionicons name="add" size={18} color="#FFFFFF" />
+                    <Text style={styles.addButtonText}>Add Phase</Text>
+                  </TouchableOpacity>
+                </View>
+
                 <TouchableOpacity style={styles.addButton} onPress={addFee}>
                   <Ionicons name="add" size={20} color="#FFFFFF" />
                   <Text style={styles.addButtonText}>Submit</Text>
@@ -1458,15 +1605,91 @@ const AddEventScreen: React.FC<any> = (props) => {
               <View key={index} style={styles.feeItem}>
                 <View>
                   <Text style={styles.feeText}>
-                    {fee.name}{fee.isTable ? ` (Table: ${fee.tableSize} pax)` : ""}
+                    {fee.name}{fee.isTable ? ` (Table: ${fee.tableSize} pax)` : ""}{fee.rotatingQR ? " · Live QR" : ""}
                   </Text>
                   <Text style={styles.feeAmountText}>UGX {fee.amount}</Text>
+                  {fee.pricePhases?.length ? (
+                    <Text style={styles.feeAmountText}>{fee.pricePhases.map((p) => `${p.name} ${p.amount}`).join(" → ")}</Text>
+                  ) : null}
                 </View>
                 <TouchableOpacity onPress={() => removeFee(index)}>
                   <Ionicons name="trash-outline" size={20} color="#FF3B30" />
                 </TouchableOpacity>
               </View>
             ))}
+
+            <View style={styles.labelContainer}>
+              <Text style={styles.label}>Installment Plans (optional)</Text>
+            </View>
+            <Text style={{ color: "#666", fontSize: 11, marginBottom: 8 }}>
+              Let buyers pay in parts. Without plans of your own, buyers can choose 2x (50% deposit) or 3x-5x (40% deposit) with parts spaced evenly up to the event.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => setShowPlanForm(!showPlanForm)}>
+              <Ionicons name="add" size={20} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Add Installment Plan</Text>
+            </TouchableOpacity>
+            {showPlanForm && (
+              <View style={styles.feeContainer}>
+                <TextInput
+                  style={[styles.input, styles.feeNameInput]}
+                  value={newPlanName}
+                  onChangeText={setNewPlanName}
+                  placeholder="Plan name (e.g. Deposit + 2)"
+                  placeholderTextColor="#999"
+                />
+                <View style={styles.dimensionRow}>
+                  <View style={styles.dimensionField}>
+                    <Text style={styles.dimensionLabel}>Parts</Text>
+                    <TextInput style={styles.dimensionInput} value={newPlanParts} onChangeText={setNewPlanParts} placeholder="3" placeholderTextColor="#666" keyboardType="numeric" />
+                  </View>
+                  <View style={styles.dimensionField}>
+                    <Text style={styles.dimensionLabel}>Deposit %</Text>
+                    <TextInput style={styles.dimensionInput} value={newPlanDeposit} onChangeText={setNewPlanDeposit} placeholder="40" placeholderTextColor="#666" keyboardType="numeric" />
+                  </View>
+                </View>
+                <View style={styles.dimensionRow}>
+                  <View style={styles.dimensionField}>
+                    <Text style={styles.dimensionLabel}>Last part N days before event</Text>
+                    <TextInput style={styles.dimensionInput} value={newPlanLastDueDays} onChangeText={setNewPlanLastDueDays} placeholder="optional" placeholderTextColor="#666" keyboardType="numeric" />
+                  </View>
+                  <View style={styles.dimensionField}>
+                    <Text style={styles.dimensionLabel}>Min ticket price</Text>
+                    <TextInput style={styles.dimensionInput} value={newPlanMinPrice} onChangeText={setNewPlanMinPrice} placeholder="optional" placeholderTextColor="#666" keyboardType="numeric" />
+                  </View>
+                </View>
+                <Text style={styles.dimensionLabel}>Due dates after the deposit (YYYY-MM-DD, comma separated)</Text>
+                <TextInput
+                  style={[styles.input, styles.feeNameInput]}
+                  value={newPlanDueDates}
+                  onChangeText={setNewPlanDueDates}
+                  placeholder="optional, e.g. 2026-11-01, 2026-11-15"
+                  placeholderTextColor="#999"
+                />
+                <TouchableOpacity style={styles.addButton} onPress={addInstallmentTemplate}>
+                  <Ionicons name="add" size={20} color="#FFFFFF" />
+                  <Text style={styles.addButtonText}>Submit</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {installmentTemplates.map((plan, index) => (
+              <View key={plan.id} style={styles.feeItem}>
+                <View>
+                  <Text style={styles.feeText}>{plan.name} · {plan.parts} parts, {plan.depositPercent}% deposit</Text>
+                  <Text style={styles.feeAmountText}>
+                    {[
+                      plan.dueDates?.length
+                        ? `due ${plan.dueDates.map((d) => new Date(d).toLocaleDateString()).join(", ")}`
+                        : "spaced evenly",
+                      plan.lastDueDaysBeforeEvent && `last ${plan.lastDueDaysBeforeEvent} days before the event`,
+                      plan.minTicketPrice && `tickets from UGX ${plan.minTicketPrice.toLocaleString()}`,
+                    ].filter(Boolean).join(" · ")}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => removeInstallmentTemplate(index)}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            ))}
           </>
         )}
 
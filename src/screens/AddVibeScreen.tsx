@@ -10,19 +10,28 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
-  Platform,
   Image as RNImage,
 } from "react-native"
 import { Ionicons } from "@expo/vector-icons"
 import SupabaseService from "../services/SupabaseService"
 import VibeAnalysisService from "../services/VibeAnalysisService"
-import VibeMLService from "../services/VibeMLService"
+import VibeImageService from "../services/VibeImageService"
 import { blobToDataURL } from "../utils/expoHelpers"
 import { useCompatNavigation, useRouter } from "../utils/compatNavigation"
+import { VIBE_REASON_LABELS } from "../utils/vibeScoring"
+import { captureVibePhoto } from "../utils/vibePhoto"
 
 import { useAuth } from "../contexts/AuthContext"
 import type { VibeImage } from "../models/VibeImage"
 
+const ANALYSIS_ROWS: Array<[keyof NonNullable<VibeImage["analysisData"]>, string]> = [
+  ["crowdDensity", "Crowd Density"],
+  ["lightingQuality", "Lighting Quality"],
+  ["energyLevel", "Energy Level"],
+  ["musicVibes", "Music Vibes"],
+  ["overallAtmosphere", "Overall Atmosphere"],
+]
+
 const AddVibeScreen: React.FC = () => {
   const navigation = useCompatNavigation()
   const { currentPath } = useRouter()
@@ -38,142 +47,25 @@ const AddVibeScreen: React.FC = () => {
   // optional: keep the last Blob produced from the file for direct upload
   const lastBlobRef = useRef<Blob | null>(null)
 
-  const [analyzing, setAnalyzing] = useState(false)
   const [uploading, setUploading] = useState(false)
-  const [analysisResult, setAnalysisResult] = useState<{
-    vibeRating: number
-    analysisData: any
-  } | null>(null)
-  const [modelLoaded, setModelLoaded] = useState(false)
-  const [modelLoading, setModelLoading] = useState(false)
-  const [modelProgress, setModelProgress] = useState(0)
-  const [modelError, setModelError] = useState<string | null>(null)
+  const [scoring, setScoring] = useState(false)
+  // The worker's verdict on the uploaded photo
+  const [analysisResult, setAnalysisResult] = useState<VibeImage | null>(null)
   const [showSuccessBanner, setShowSuccessBanner] = useState(false)
 
-  // hidden file input ref (used to open camera on mobile)
-  const fileInputRef = useRef<HTMLInputElement | null>(null)
-
-  /**
-   * Resize/compress an image File to a data URL and Blob.
-   * - maxWidth: target maximum width in pixels (preserves aspect ratio)
-   * - quality: JPEG quality 0..1
-   */
-  const fileToDataUrlAndBlob = (file: File, maxWidth = 1600, quality = 0.85) => {
-    return new Promise<{ dataUrl: string; blob: Blob }>((resolve, reject) => {
-      // Use the browser Image constructor explicitly via window to avoid the react-native Image type
-      if (typeof window === "undefined" || typeof (window as any).Image === "undefined") {
-        reject(new Error("Browser Image API not available"))
-        return
-      }
-
-      const img = new (window as any).Image() as HTMLImageElement
-      const url = URL.createObjectURL(file)
-
-      img.onload = () => {
-        try {
-          const ratio = img.naturalWidth / img.naturalHeight
-          let targetWidth = img.naturalWidth
-          let targetHeight = img.naturalHeight
-          if (img.naturalWidth > maxWidth) {
-            targetWidth = maxWidth
-            targetHeight = Math.round(maxWidth / ratio)
-          }
-
-          const canvas = document.createElement("canvas")
-          canvas.width = targetWidth
-          canvas.height = targetHeight
-          const ctx = canvas.getContext("2d")
-          if (!ctx) throw new Error("Canvas context not available")
-          ctx.drawImage(img as CanvasImageSource, 0, 0, targetWidth, targetHeight)
-
-          const dataUrl = canvas.toDataURL("image/jpeg", quality)
-
-          canvas.toBlob(
-            (b) => {
-              if (!b) {
-                reject(new Error("Failed to create blob from canvas"))
-                return
-              }
-              resolve({ dataUrl, blob: b })
-            },
-            "image/jpeg",
-            quality
-          )
-        } catch (err) {
-          reject(err)
-        } finally {
-          URL.revokeObjectURL(url)
-        }
-      }
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url)
-        reject(new Error("Failed to load image file"))
-      }
-
-      // Start loading
-      img.src = url
-    })
-  }
-
   /**
-   * Open a hidden file input. On mobile browsers this will open the camera UI
-   * when capture="environment" is present.
-   */
-  const openFilePickerFallback = () => {
-    if (!fileInputRef.current) {
-      const input = document.createElement("input")
-      input.type = "file"
-      input.accept = "image/*"
-      input.setAttribute("capture", "environment") // mobile: open back camera
-      input.style.display = "none"
-
-      input.onchange = async (ev: Event) => {
-        const target = ev.target as HTMLInputElement
-        const file = target.files && target.files[0]
-        if (file) {
-          try {
-            const { dataUrl, blob } = await fileToDataUrlAndBlob(file, 1600, 0.85)
-            setImage(dataUrl)
-            setAnalysisResult(null)
-            lastBlobRef.current = blob
-          } catch (err) {
-            console.error("File processing error:", err)
-            Alert.alert("Error", "Failed to process selected image.")
-          }
-        }
-        // cleanup
-        if (input.parentNode) input.parentNode.removeChild(input)
-        fileInputRef.current = null
-      }
-
-      document.body.appendChild(input)
-      fileInputRef.current = input
-    }
-    fileInputRef.current.click()
-  }
-
-  /**
-   * Entry point to capture image. For web we open the file picker (camera on mobile).
-   * For native (expo) we keep the existing camera flow (if you use it).
+   * Capture an image. On mobile browsers this opens the camera; the photo is
+   * resized before upload.
    */
   const captureImage = async () => {
     try {
-      if (Platform.OS === "web") {
-        openFilePickerFallback()
-        return
-      }
-
-      // Native (expo) flow - keep your existing implementation if needed
-      // Example (if using expo-image-picker):
-      // const permissionResult = await ImagePicker.requestCameraPermissionsAsync()
-      // if (permissionResult.status !== 'granted') { Alert.alert(...); return }
-      // const result = await ImagePicker.launchCameraAsync({...})
-      // handle result -> setImage(result.uri) etc.
-      openFilePickerFallback()
+      const photo = await captureVibePhoto()
+      setImage(photo.dataUrl)
+      setAnalysisResult(null)
+      lastBlobRef.current = photo.blob
     } catch (error) {
       console.error("captureImage error:", error)
-      Alert.alert("Error", "Failed to start camera. Check permissions.")
+      Alert.alert("Error", "Failed to process selected image.")
     }
   }
 
@@ -193,50 +85,13 @@ const AddVibeScreen: React.FC = () => {
     return new Blob([u8], { type: mime })
   }
 
-  /**
-   * Analyze the captured image using VibeAnalysisService.
-   * VibeAnalysisService.analyzeVibeImage should accept a data URL or object URL.
-   */
-  const analyzeVibe = async () => {
-    console.log('AddVibeScreen: analyzeVibe called', { hasImage: !!image })
-    if (!image) {
-      Alert.alert("Error", "Please capture an image first")
-      return
-    }
-
-    setAnalyzing(true)
-    try {
-      if (VibeMLService.modelReady) {
-        console.log('AddVibeScreen: Using ML model...')
-        const { predictedClass, confidence } = await VibeMLService.predict(image)
-        const result = VibeAnalysisService.formatMLResult(predictedClass, confidence)
-        console.log('AddVibeScreen: ML result:', result)
-        setAnalysisResult(result)
-      } else {
-        console.log('AddVibeScreen: ML not ready, using heuristic fallback...')
-        const result = await VibeAnalysisService.analyzeVibeImage(image)
-        setAnalysisResult(result)
-      }
-    } catch (error: any) {
-      console.error("AddVibeScreen: Error analyzing vibe:", error)
-      // Fallback to heuristic on any ML error
-      try {
-        const result = await VibeAnalysisService.analyzeVibeImage(image)
-        setAnalysisResult(result)
-      } catch (fallbackErr: any) {
-        Alert.alert("Error", "Failed to analyze vibe: " + (fallbackErr?.message || fallbackErr))
-      }
-    } finally {
-      setAnalyzing(false)
-    }
-  }
-
    /**
-    * Upload the vibe image as a data URL string, similar to event poster upload.
+    * Upload the vibe image as a data URL string, similar to event poster upload,
+    * then wait for the vibe-scoring worker to rate it.
     */
    const uploadVibe = async () => {
-     if (!image || !analysisResult || !user) {
-       Alert.alert("Error", "Please analyze the image first")
+     if (!image || !user) {
+       Alert.alert("Error", "Please capture an image first")
        return
      }
 
@@ -262,87 +117,42 @@ const AddVibeScreen: React.FC = () => {
        // SupabaseService.uploadVibeImage now accepts data URL string like uploadEventImage
        const imageUrl = await SupabaseService.uploadVibeImage(imageDataUrl, venueId)
 
-       const vibeImageData: Omit<VibeImage, "id"> = {
-         venueId,
-         imageUrl,
-         vibeRating: analysisResult.vibeRating,
-         uploadedAt: new Date(),
-         uploadedBy: user.id,
-         analysisData: analysisResult.analysisData,
-       }
-
-        await SupabaseService.addVibeImage(vibeImageData)
-
-        setShowSuccessBanner(true)
-        setImage(null)
-        setAnalysisResult(null)
-        setAnalyzing(false)
-        setTimeout(() => {
-          setShowSuccessBanner(false)
-          navigation.goBack()
-        }, 2000)
-      } catch (error) {
+       const submitted = await VibeImageService.submit(venueId, imageUrl)
+       setUploading(false)
+       setScoring(true)
+       const scored = await VibeImageService.waitForScore(submitted.id)
+       setAnalysisResult(scored)
+       if (scored.scoringStatus === "scored") setShowSuccessBanner(true)
+      } catch (error: any) {
       console.error("Error uploading vibe:", error)
-      Alert.alert("Error", "Failed to upload vibe image")
+      Alert.alert("Error", error?.message || "Failed to upload vibe image")
     } finally {
       setUploading(false)
+      setScoring(false)
     }
   }
 
-  // Cleanup hidden input on unmount
+  const startOver = () => {
+    setImage(null)
+    setAnalysisResult(null)
+    setShowSuccessBanner(false)
+    lastBlobRef.current = null
+  }
+
   useEffect(() => {
     return () => {
-      const input = fileInputRef.current
-      if (input && input.parentNode) input.parentNode.removeChild(input)
-      fileInputRef.current = null
       lastBlobRef.current = null
     }
   }, [])
 
-  // Load ML model on mount with progress tracking
-  useEffect(() => {
-    let cancelled = false
-    const start = async () => {
-      setModelLoading(true)
-      setModelProgress(0)
-      setModelError(null)
-      try {
-        await VibeMLService.loadModel((pct) => {
-          if (!cancelled) setModelProgress(pct)
-        })
-        if (!cancelled) {
-          setModelLoaded(true)
-          setModelLoading(false)
-          setModelProgress(100)
-        }
-      } catch (err: any) {
-        if (!cancelled) {
-          setModelLoaded(false)
-          setModelLoading(false)
-          setModelError(err.message || 'Failed to load AI model')
-          console.error('[AddVibeScreen] Model load failed:', err.message)
-        }
-      }
-    }
-    start()
-    return () => { cancelled = true }
-  }, [])
-
   return (
     <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
       <View style={styles.header}>
           <View style={styles.headerTop}>
             <Text style={styles.headerTitle}>Add Today's Vibe</Text>
-            <View style={[styles.modelStatusIndicator, {
-              backgroundColor: modelLoaded ? '#4CAF50' : modelError ? '#FF3B30' : modelLoading ? '#F59E0B' : '#666'
-            }]}>
-              <Text style={styles.modelStatusText}>
-                {modelLoaded ? '✓' : modelError ? '✗' : modelLoading ? `${modelProgress}%` : '○'}
-              </Text>
-            </View>
           </View>
         <Text style={styles.headerSubtitle}>{venueName}</Text>
-        <Text style={styles.headerDescription}>Capture the current atmosphere and let our AI analyze the vibe!</Text>
+        <Text style={styles.headerDescription}>Capture the current atmosphere and our AI will rate the vibe once it's uploaded!</Text>
 
         {/* Success Banner */}
         {showSuccessBanner && (
@@ -351,42 +161,6 @@ const AddVibeScreen: React.FC = () => {
             <Text style={styles.successBannerText}>Vibe successfully updated!</Text>
           </View>
         )}
-
-        {/* Model loading progress */}
-        {modelLoading && (
-          <View style={styles.modelLoadingRow}>
-            <View style={styles.modelLoadingBarTrack}>
-              <View style={[styles.modelLoadingBarFill, { width: `${Math.max(2, modelProgress)}%` }]} />
-            </View>
-            <Text style={styles.modelLoadingText}>AI Loading: {modelProgress}%</Text>
-          </View>
-        )}
-        {modelError && (
-          <View style={styles.modelErrorRow}>
-            <Text style={styles.modelErrorText}>AI model failed to load. Using fallback analysis.</Text>
-            <TouchableOpacity style={styles.retryButton} onPress={async () => {
-              setModelLoading(true)
-              setModelProgress(0)
-              setModelError(null)
-              try {
-                await VibeMLService.reloadModel((pct) => setModelProgress(pct))
-                setModelLoaded(true)
-                setModelLoading(false)
-                setModelProgress(100)
-              } catch (err: any) {
-                setModelLoaded(false)
-                setModelLoading(false)
-                setModelError(err.message || 'Retry failed')
-              }
-            }}>
-              <Ionicons name="refresh" size={14} color="#FFF" />
-              <Text style={styles.retryButtonText}>Retry</Text>
-            </TouchableOpacity>
-          </View>
-        )}
-        {modelLoaded && !modelLoading && !modelError && (
-          <Text style={styles.modelReadyText}>✓ AI model ready</Text>
-        )}
       </View>
 
       <View style={styles.imageSection}>
@@ -395,11 +169,8 @@ const AddVibeScreen: React.FC = () => {
             <RNImage source={{ uri: image }} style={styles.selectedImage} />
             <TouchableOpacity
               style={styles.removeImageButton}
-              onPress={() => {
-                setImage(null)
-                setAnalysisResult(null)
-                lastBlobRef.current = null
-              }}
+              onPress={startOver}
+              disabled={uploading || scoring}
             >
               <Ionicons name="close-circle" size={28} color="#FFFFFF" />
             </TouchableOpacity>
@@ -414,28 +185,38 @@ const AddVibeScreen: React.FC = () => {
 
       {image && !analysisResult && (
         <TouchableOpacity
-          style={[styles.analyzeButton, analyzing && styles.disabledButton]}
-          onPress={analyzeVibe}
-          disabled={analyzing}
+          style={[styles.analyzeButton, (uploading || scoring) && styles.disabledButton]}
+          onPress={uploadVibe}
+          disabled={uploading || scoring}
         >
-          {analyzing ? (
+          {uploading || scoring ? (
             <>
               <ActivityIndicator color="#FFFFFF" style={{ marginRight: 8 }} />
-              <Text style={styles.analyzeButtonText}>Analyzing Vibe...</Text>
+              <Text style={styles.analyzeButtonText}>{uploading ? "Uploading..." : "Analyzing Vibe..."}</Text>
             </>
           ) : (
             <>
-              <Ionicons name="analytics" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
-              <Text style={styles.analyzeButtonText}>Analyze Vibe</Text>
+              <Ionicons name="cloud-upload" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
+              <Text style={styles.analyzeButtonText}>Upload Vibe</Text>
             </>
           )}
         </TouchableOpacity>
       )}
 
-      {analysisResult && (
+      {analysisResult && (analysisResult.scoringStatus === "scored" || analysisResult.scoringStatus === "flagged") && (
         <View style={styles.resultsSection}>
           <Text style={styles.resultsTitle}>Vibe Analysis Results</Text>
 
+          {analysisResult.scoringStatus === "flagged" && (
+            <View style={styles.noticeRow}>
+              <Ionicons name="eye-outline" size={18} color="#F59E0B" />
+              <Text style={styles.noticeText}>
+                Our team will check this photo before it is shown to others
+                {analysisResult.reasons?.length ? ` (${analysisResult.reasons.map((r) => VIBE_REASON_LABELS[r].toLowerCase()).join(", ")})` : ""}.
+              </Text>
+            </View>
+          )}
+
           <View style={styles.overallRating}>
             <Text style={styles.ratingLabel}>Overall Vibe Rating</Text>
             <View style={styles.ratingContainer}>
@@ -452,73 +233,47 @@ const AddVibeScreen: React.FC = () => {
           <View style={styles.detailedAnalysis}>
             <Text style={styles.detailedTitle}>Detailed Analysis</Text>
 
-            <View style={styles.analysisItem}>
-              <Text style={styles.analysisLabel}>Crowd Density</Text>
-              <Text style={styles.analysisValue}>
-                {analysisResult.analysisData?.crowdDensity != null
-                  ? analysisResult.analysisData.crowdDensity.toFixed(1)
-                  : "0.0"}
-                /5.0
-              </Text>
-            </View>
-
-            <View style={styles.analysisItem}>
-              <Text style={styles.analysisLabel}>Lighting Quality</Text>
-              <Text style={styles.analysisValue}>
-                {analysisResult.analysisData?.lightingQuality != null
-                  ? analysisResult.analysisData.lightingQuality.toFixed(1)
-                  : "0.0"}
-                /5.0
-              </Text>
-            </View>
-
-            <View style={styles.analysisItem}>
-              <Text style={styles.analysisLabel}>Energy Level</Text>
-              <Text style={styles.analysisValue}>
-                {analysisResult.analysisData?.energyLevel != null
-                  ? analysisResult.analysisData.energyLevel.toFixed(1)
-                  : "0.0"}
-                /5.0
-              </Text>
-            </View>
+            {ANALYSIS_ROWS.map(([key, label]) => (
+              <View key={key} style={styles.analysisItem}>
+                <Text style={styles.analysisLabel}>{label}</Text>
+                <Text style={styles.analysisValue}>
+                  {(analysisResult.analysisData?.[key] ?? 0).toFixed(1)}
+                  /5.0
+                </Text>
+              </View>
+            ))}
+          </View>
 
-            <View style={styles.analysisItem}>
-              <Text style={styles.analysisLabel}>Music Vibes</Text>
-              <Text style={styles.analysisValue}>
-                {analysisResult.analysisData?.musicVibes != null
-                  ? analysisResult.analysisData.musicVibes.toFixed(1)
-                  : "0.0"}
-                /5.0
-              </Text>
-            </View>
+          <TouchableOpacity style={styles.uploadButton} onPress={() => navigation.goBack()}>
+            <Ionicons name="checkmark" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
+            <Text style={styles.uploadButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
-            <View style={styles.analysisItem}>
-              <Text style={styles.analysisLabel}>Overall Atmosphere</Text>
-              <Text style={styles.analysisValue}>
-                {analysisResult.analysisData?.overallAtmosphere != null
-                  ? analysisResult.analysisData.overallAtmosphere.toFixed(1)
-                  : "0.0"}
-                /5.0
-              </Text>
+      {analysisResult && analysisResult.scoringStatus === "rejected" && (
+        <View style={styles.resultsSection}>
+          <Text style={styles.resultsTitle}>Vibe Not Posted</Text>
+          {(analysisResult.reasons || []).map((reason) => (
+            <View key={reason} style={styles.noticeRow}>
+              <Ionicons name="close-circle-outline" size={18} color="#FF6B6B" />
+              <Text style={styles.noticeText}>{VIBE_REASON_LABELS[reason]}</Text>
             </View>
-          </View>
+          ))}
+          <Text style={styles.noticeHint}>Vibes have to be taken at the venue, tonight.</Text>
+          <TouchableOpacity style={styles.analyzeButton} onPress={startOver}>
+            <Ionicons name="camera" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
+            <Text style={styles.analyzeButtonText}>Take Another Photo</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
-          <TouchableOpacity
-            style={[styles.uploadButton, uploading && styles.disabledButton]}
-            onPress={uploadVibe}
-            disabled={uploading}
-          >
-            {uploading ? (
-              <>
-                <ActivityIndicator color="#FFFFFF" style={{ marginRight: 8 }} />
-                <Text style={styles.uploadButtonText}>Uploading...</Text>
-              </>
-            ) : (
-              <>
-                <Ionicons name="cloud-upload" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
-                <Text style={styles.uploadButtonText}>Upload Vibe</Text>
-              </>
-            )}
+      {analysisResult && (analysisResult.scoringStatus === "pending" || analysisResult.scoringStatus === "failed") && (
+        <View style={styles.resultsSection}>
+          <Text style={styles.resultsTitle}>Vibe Uploaded</Text>
+          <Text style={styles.noticeHint}>We're still analyzing your photo. Its rating will show on the venue shortly.</Text>
+          <TouchableOpacity style={styles.uploadButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.uploadButtonText}>Done</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -555,18 +310,6 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     textAlign: "center",
   },
-  modelStatusIndicator: {
-    width: 24,
-    height: 24,
-    borderRadius: 12,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  modelStatusText: {
-    fontSize: 14,
-    fontWeight: "bold",
-    color: "#FFFFFF",
-  },
   headerSubtitle: {
     fontSize: 18,
     color: "#2196F3",
@@ -577,61 +320,23 @@ const styles = StyleSheet.create({
     color: "#BBBBBB",
     lineHeight: 20,
   },
-  modelLoadingRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginTop: 10,
-    gap: 8,
-  },
-  modelLoadingBarTrack: {
-    flex: 1,
-    height: 6,
-    borderRadius: 3,
-    backgroundColor: "#2a2a2a",
-    overflow: "hidden",
-  },
-  modelLoadingBarFill: {
-    height: "100%",
-    borderRadius: 3,
-    backgroundColor: "#F59E0B",
-  },
-  modelLoadingText: {
-    color: "#F59E0B",
-    fontSize: 11,
-    fontWeight: "600",
-    width: 90,
-    textAlign: "right",
-  },
-  modelErrorRow: {
+  noticeRow: {
     flexDirection: "row",
     alignItems: "center",
-    marginTop: 10,
     gap: 8,
+    marginBottom: 12,
   },
-  modelErrorText: {
-    color: "#FF6B6B",
-    fontSize: 11,
+  noticeText: {
     flex: 1,
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
   },
-  retryButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "rgba(255,107,107,0.15)",
-    paddingHorizontal: 10,
-    paddingVertical: 5,
-    borderRadius: 6,
-    gap: 4,
-  },
-  retryButtonText: {
-    color: "#FFF",
-    fontSize: 11,
-    fontWeight: "700",
-  },
-  modelReadyText: {
-    color: "#4CAF50",
-    fontSize: 11,
-    fontWeight: "600",
-    marginTop: 10,
+  noticeHint: {
+    color: "#BBBBBB",
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
   },
   successBanner: {
     flexDirection: "row",
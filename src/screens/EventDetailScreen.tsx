@@ -25,6 +25,12 @@ import { useRouter } from "../utils/URLRouter"
 import { useDeviceType, COLORS } from "../utils/ResponsiveDesign"
 
 import TicketService from "../services/TicketService"
+import TeamService from "../services/TeamService"
+import { hasPermission } from "../utils/teamRoles"
+import type { EventAccess } from "../models/Team"
+import ResaleListings from "../components/ResaleListings"
+import FollowService from "../services/FollowService"
+import { artistKey } from "../utils/recommendations"
 import { collection, query, where, onSnapshot, orderBy } from "firebase/firestore"
 import { db } from "../config/firebase"
 
@@ -54,6 +60,8 @@ const EventDetailScreen: React.FC = () => {
   const [isGoing, setIsGoing] = useState(false)
   const [attendeeCount, setAttendeeCount] = useState(0)
   const [showFullImage, setShowFullImage] = useState(false)
+  const [teamAccess, setTeamAccess] = useState<EventAccess | null>(null)
+  const [followedArtists, setFollowedArtists] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     const loadEvent = async () => {
@@ -87,6 +95,63 @@ const EventDetailScreen: React.FC = () => {
     loadEvent()
   }, [eventId, user, isValidEventId])
 
+  // Team members of the organiser also get the dashboard
+  useEffect(() => {
+    if (!user || !event || event.createdBy === user.id || user.userType === "admin") return
+    TeamService.getEventAccess(event.slug || event.id).then(setTeamAccess)
+  }, [user?.id, event?.id])
+
+  // Followed artists' events rank higher in the "For you" feed
+  useEffect(() => {
+    if (!user) {
+      setFollowedArtists(new Set())
+      return
+    }
+    FollowService.list(user.id)
+      .then((follows) => setFollowedArtists(new Set(follows.filter((f) => f.targetType === "artist").map((f) => f.targetKey))))
+      .catch((error) => console.error("Error loading follows:", error))
+  }, [user?.id])
+
+  const handleToggleArtistFollow = async (artist: string) => {
+    if (!user) return
+    const key = artistKey(artist)
+    const wasFollowing = followedArtists.has(key)
+    const toggle = (follow: boolean) => setFollowedArtists((current) => {
+      const next = new Set(current)
+      if (follow) next.add(key)
+      else next.delete(key)
+      return next
+    })
+    toggle(!wasFollowing)
+    try {
+      if (wasFollowing) await FollowService.unfollow(user.id, "artist", artist)
+      else await FollowService.follow(user.id, "artist", artist)
+    } catch (error: any) {
+      toggle(wasFollowing)
+      Alert.alert("Error", error?.message || "Failed to update follow")
+    }
+  }
+
+  const renderArtistTags = () => (
+    <View style={styles.artistsContainer}>
+      {event?.artists.map((artist, index) => {
+        const followed = followedArtists.has(artistKey(artist))
+        return (
+          <TouchableOpacity
+            key={index}
+            style={[styles.artistTag, { backgroundColor: COLORS.accent }]}
+            onPress={() => handleToggleArtistFollow(artist)}
+            disabled={!user}
+            accessibilityLabel={user ? `${followed ? "Unfollow" : "Follow"} ${artist}` : artist}
+          >
+            {user && <Ionicons name={followed ? "heart" : "heart-outline"} size={12} color="#FFFFFF" />}
+            <Text style={styles.artistText}>{artist}</Text>
+          </TouchableOpacity>
+        )
+      })}
+    </View>
+  )
+
   const handleToggleGoing = async () => {
     if (!user) {
       Alert.alert("Sign In Required", "Please sign in to mark yourself as attending this event.")
@@ -395,7 +460,7 @@ const EventDetailScreen: React.FC = () => {
   }
 
   const isEventOwner = user && event && (event.createdBy === user.id)
-  const canManageEvent = isEventOwner || user?.userType === "admin"
+  const canManageEvent = isEventOwner || user?.userType === "admin" || hasPermission(teamAccess, "view_dashboard")
 
   return (
     <View style={[styles.container, { backgroundColor: COLORS.background }]}>
@@ -446,13 +511,7 @@ const EventDetailScreen: React.FC = () => {
               <Text style={styles.description}>{event.description}</Text>
 
               <Text style={styles.sectionTitle}>Artists</Text>
-              <View style={styles.artistsContainer}>
-                {event.artists.map((artist, index) => (
-                  <View key={index} style={[styles.artistTag, { backgroundColor: COLORS.accent }]}>
-                    <Text style={styles.artistText}>{artist}</Text>
-                  </View>
-                ))}
-              </View>
+              {renderArtistTags()}
             </View>
           </ScrollView>
 
@@ -478,6 +537,7 @@ const EventDetailScreen: React.FC = () => {
                   <Text style={styles.buttonText}>Buy Tickets</Text>
                 </TouchableOpacity>
               )}
+              {event.isFeatured && <ResaleListings eventIds={[event.slug || "", event.id]} eventName={event.name} />}
 
               {/* Ticket Contacts Button - Only for unfeatured events */}
               {!event.isFeatured && (
@@ -637,13 +697,7 @@ const EventDetailScreen: React.FC = () => {
             <Text style={styles.description}>{event.description}</Text>
 
             <Text style={styles.sectionTitle}>Artists</Text>
-            <View style={styles.artistsContainer}>
-              {event.artists.map((artist, index) => (
-                <View key={index} style={[styles.artistTag, { backgroundColor: COLORS.accent }]}>
-                  <Text style={styles.artistText}>{artist}</Text>
-                </View>
-              ))}
-            </View>
+            {renderArtistTags()}
 
             {/* Buy Tickets Button - For all featured events */}
             {event.isFeatured && (
@@ -652,6 +706,7 @@ const EventDetailScreen: React.FC = () => {
                 <Text style={styles.buttonText}>Buy Tickets</Text>
               </TouchableOpacity>
             )}
+            {event.isFeatured && <ResaleListings eventIds={[event.slug || "", event.id]} eventName={event.name} />}
 
             {/* Ticket Contacts Button - Only for unfeatured events */}
             {!event.isFeatured && (
@@ -969,6 +1024,9 @@ const styles = StyleSheet.create({
     gap: responsiveSize(6, 8, 10),
   },
   artistTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: responsiveSize(4, 5, 6),
     backgroundColor: "#2196F3",
     paddingHorizontal: responsiveSize(10, 12, 16),
     paddingVertical: responsiveSize(5, 6, 8),
@@ -20,8 +20,10 @@ import { useIsFocused } from "../utils/compatNavigation";
 import { useCompatNavigation } from "../utils/compatNavigation";
 import { useCachedEvents } from "../hooks/useDataCache";
 import NotificationService from "../services/NotificationService";
+import RecommendationService from "../services/RecommendationService";
 import { useAuth } from "../contexts/AuthContext";
 import type { Event } from "../models/Event";
+import type { RecommendationFeed, RecommendationReason } from "../models/Recommendation";
 import { SEOMetadata, SCREEN_SEO } from "../components/SEOMetadata";
 import { useEventsScroll } from "../hooks/useScrollPersistence";
 
@@ -36,6 +38,14 @@ const responsiveSize = (mobile: number, tablet: number, desktop: number): number
   return mobile;
 };
 
+// Events in the feed's order; any it hasn't ranked keep their date order after them
+const rankByFeed = (events: Event[], feed: RecommendationFeed | null): Event[] => {
+  if (!feed) return events;
+  const rank = new Map(feed.recommendations.map((r, i) => [r.eventId, i]));
+  const rankOf = (event: Event) => rank.get(event.slug || event.id) ?? rank.size;
+  return [...events].sort((a, b) => rankOf(a) - rankOf(b));
+};
+
 type EventsScreenProps = {
   initialSearchQuery?: string;
 };
@@ -92,6 +102,28 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
   const [showSearch, setShowSearch] = useState(false);
   const [displayedEvents, setDisplayedEvents] = useState<Event[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [feedMode, setFeedMode] = useState<"forYou" | "all">("forYou");
+  const [feed, setFeed] = useState<RecommendationFeed | null>(null);
+
+  // Reasons are shown on the ranked "For you" list only, not on search results
+  const showReasons = feedMode === "forYou" && searchQuery.trim() === "" && !!feed;
+  const reasonsById = useMemo(
+    () => new Map<string, RecommendationReason[]>((feed?.recommendations || []).map((r) => [r.eventId, r.reasons])),
+    [feed]
+  );
+
+  const loadFeed = useCallback(async (fresh = false) => {
+    try {
+      setFeed(await RecommendationService.getFeed(user?.id || null, fresh));
+    } catch (error) {
+      console.error("[EventsScreen] Error loading recommendations:", error);
+      setFeed(null);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
 
   useEffect(() => {
     const normalized = initialSearchQuery.trim();
@@ -139,7 +171,7 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
 
   useEffect(() => {
     if (searchQuery.trim() === "") {
-      setFilteredEvents(events || [])
+      setFilteredEvents(feedMode === "forYou" ? rankByFeed(events || [], feed) : events || [])
       return
     }
 
@@ -167,7 +199,7 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
     })
 
     setFilteredEvents(filtered)
-  }, [searchQuery, events])
+  }, [searchQuery, events, feedMode, feed])
 
   useEffect(() => {
     setDisplayedEvents(filteredEvents || []);
@@ -176,9 +208,9 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
   // Pull-to-refresh handler
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await refetch(); // Force refresh cached data
+    await Promise.all([refetch(), loadFeed(true)]); // Force refresh cached data
     setRefreshing(false);
-  }, [refetch]);
+  }, [refetch, loadFeed]);
 
   const handleEventSelect = (eventId: string) => {
     navigation.navigate("EventDetail", { eventId });
@@ -261,7 +293,8 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
   // Memoize renderEventItem to prevent recreation on every render
   const renderEventItem = useCallback(({ item }: { item: Event }) => {
     const dateInfo = getDateLabel(item.date);
-    
+    const reason = showReasons ? reasonsById.get(item.slug || item.id)?.[0] : undefined;
+
     return (
     <TouchableOpacity 
       style={[styles.eventCard, { width: cardWidth }]} 
@@ -288,6 +321,12 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
           </View>
 
           <View style={styles.eventContent}>
+            {reason && (
+              <View style={styles.reasonRow}>
+                <Ionicons name="sparkles" size={14} color="#00D4FF" />
+                <Text style={styles.reasonText}>{reason.text}</Text>
+              </View>
+            )}
             <Text style={styles.eventName}>{item.name}</Text>
             <View style={styles.eventLocationRow}>
               <Ionicons name="location" size={16} color="#FFFFFF" />
@@ -317,7 +356,7 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
       </ImageBackground>
     </TouchableOpacity>
   );
-  }, [cardWidth, cardHeight, spacing.md]);
+  }, [cardWidth, cardHeight, spacing.md, showReasons, reasonsById]);
 
   return (
     <View style={styles.container}>
@@ -364,6 +403,22 @@ const EventsScreen: React.FC<EventsScreenProps> = ({ initialSearchQuery = "" })
         </View>
       )}
 
+      {searchQuery.trim() === "" && (
+        <View style={styles.feedTabs}>
+          {([["forYou", "For you"], ["all", "All events"]] as const).map(([mode, label]) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.feedTab, feedMode === mode && styles.feedTabActive]}
+              onPress={() => setFeedMode(mode)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: feedMode === mode }}
+            >
+              <Text style={[styles.feedTabText, feedMode === mode && styles.feedTabTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#2196F3" />
@@ -517,6 +572,47 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#333",
   },
+  feedTabs: {
+    flexDirection: "row",
+    gap: responsiveSize(8, 10, 12),
+    paddingHorizontal: responsiveSize(14, 18, 24),
+    paddingVertical: responsiveSize(10, 12, 14),
+  },
+  feedTab: {
+    paddingHorizontal: responsiveSize(14, 16, 18),
+    paddingVertical: responsiveSize(6, 7, 8),
+    borderRadius: responsiveSize(16, 18, 20),
+    borderWidth: 1,
+    borderColor: "rgba(0, 212, 255, 0.3)",
+  },
+  feedTabActive: {
+    backgroundColor: "rgba(0, 212, 255, 0.2)",
+    borderColor: "#00D4FF",
+  },
+  feedTabText: {
+    color: "#999999",
+    fontSize: responsiveSize(13, 14, 15),
+    fontWeight: "600",
+  },
+  feedTabTextActive: {
+    color: "#FFFFFF",
+  },
+  reasonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    paddingHorizontal: responsiveSize(8, 10, 12),
+    paddingVertical: responsiveSize(3, 4, 5),
+    borderRadius: responsiveSize(10, 12, 14),
+    marginBottom: responsiveSize(6, 8, 10),
+  },
+  reasonText: {
+    color: "#00D4FF",
+    fontSize: responsiveSize(11, 12, 13),
+    fontWeight: "600",
+    marginLeft: responsiveSize(4, 5, 6),
+  },
   eventCard: {
     marginHorizontal: responsiveSize(12, 16, 24),
     marginBottom: responsiveSize(16, 20, 28),
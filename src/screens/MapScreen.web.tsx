@@ -7,10 +7,10 @@ import { Ionicons } from "@expo/vector-icons"
 import { useIsFocused } from "../utils/compatNavigation";
 import { useCompatNavigation } from "../utils/compatNavigation";
 import SupabaseService from "../services/SupabaseService";
-import VibeAnalysisService from "../services/VibeAnalysisService";
-import { collection, query, where, onSnapshot, orderBy, limit } from "firebase/firestore"
-import { db } from "../config/firebase"
+import VibeIndexService from "../services/VibeIndexService";
+import { VibeIndexSummary } from "../components/VibeIndexSummary"
 import type { Venue } from "../models/Venue"
+import type { VenueVibeIndex } from "../models/VibeIndex"
 import type { MapScreenProps } from "../navigation/types"
 import { SEOMetadata, SCREEN_SEO } from "../components/SEOMetadata"
 import { useMapScroll } from "../hooks/useScrollPersistence";
@@ -21,7 +21,7 @@ const CACHE_DURATION_MS = 10 * 60 * 1000; // 10 minutes
 
 interface CacheEntry {
   venues: Venue[];
-  vibeRatings: Record<string, number>;
+  vibeIndexes: Record<string, VenueVibeIndex>;
   timestamp: number;
 }
 
@@ -32,13 +32,12 @@ function isCacheValid(): boolean {
   return Date.now() - mapCache.timestamp < CACHE_DURATION_MS;
 }
 
-function updateCache(venues: Venue[], vibeRatings: Record<string, number>) {
-  mapCache = { venues, vibeRatings, timestamp: Date.now() };
+function updateCache(venues: Venue[], vibeIndexes: Record<string, VenueVibeIndex>) {
+  mapCache = { venues, vibeIndexes, timestamp: Date.now() };
 }
 
-// ─── Module-level ref to track if we already set up listeners ────
-let listenersSetup = false;
-let vibeUnsubscribers: (() => void)[] = [];
+// Live vibe on the pins is refetched this often while the map is open
+const VIBE_INDEX_REFRESH_MS = 60 * 1000;
 
 // ─────────────────────────────────────────────────────────────────
 
@@ -47,6 +46,19 @@ function vibeColor(rating: number): string {
   return rating >= 4 ? "#4CAF50" : rating >= 3 ? "#FFC107" : "#F44336"
 }
 
+// What a map pin needs of a venue's live vibe: its value and colour, and for
+// the popup the usual vibe and tonight's hourly points
+function mapVibe(index?: VenueVibeIndex) {
+  if (!index || index.source === "none") return null
+  return {
+    index: index.index,
+    color: vibeColor(index.index),
+    confidence: index.confidence,
+    typical: index.typical,
+    tonight: index.tonight.map((p) => p.index),
+  }
+}
+
 // Venues are identified by `slug` (the venues table PK). `id` is often
 // undefined, so never compare bare `id` fields.
 const venueKey = (v?: { id?: string; slug?: string } | null) => (v?.slug || v?.id || "")
@@ -307,7 +319,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
   const [loading, setLoading] = useState(() => !isCacheValid());
   const [refreshing, setRefreshing] = useState(false)
   const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null)
-  const [venueVibeRatings, setVenueVibeRatings] = useState<Record<string, number>>(() => isCacheValid() ? mapCache!.vibeRatings : {})
+  const [venueVibeIndexes, setVenueVibeIndexes] = useState<Record<string, VenueVibeIndex>>(() => isCacheValid() ? mapCache!.vibeIndexes : {})
   const [searchQuery, setSearchQuery] = useState("")
   const [showSearch, setShowSearch] = useState(false)
   const [showList, setShowList] = useState(false)
@@ -337,7 +349,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
     if (!initialisedRef.current && isCacheValid() && mapCache) {
       console.log('[MapScreen.web] 💾 Hydrating from module-level cache, venue count:', mapCache.venues.length);
       setVenues(mapCache.venues);
-      setVenueVibeRatings(mapCache.vibeRatings);
+      setVenueVibeIndexes(mapCache.vibeIndexes);
       setHasMore(false);
       setLoading(false);
       initialisedRef.current = true;
@@ -379,10 +391,6 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
   useEffect(() => {
     if (isCacheValid()) {
       console.log('[MapScreen.web] ⏭️ Skipping initial load — cache is valid');
-      if (!listenersSetup) {
-        listenersSetup = true;
-        setupVibeListeners();
-      }
       return;
     }
 
@@ -391,18 +399,6 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
     loadVenues({ reset: true }).then(() => {
       autoLoadAll()
     });
-
-    if (!listenersSetup) {
-      listenersSetup = true;
-      setupVibeListeners();
-    }
-
-    return () => {
-      // NOTE: We do NOT tear down vibe listeners on unmount anymore —
-      // they stay alive & update the cache. The module-level
-      // `vibeUnsubscribers` array lets us clean up only on full page
-      // unload (handled below).
-    };
   }, []);
 
   // ─── Full-cleanup on page unload (not component unmount) ──────
@@ -410,73 +406,32 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
     return () => {
       // On component unmount update the cache so next mount has data
       if (venues.length > 0) {
-        updateCache(venues, venueVibeRatings);
+        updateCache(venues, venueVibeIndexes);
       }
     };
-  }, [venues, venueVibeRatings]);
+  }, [venues, venueVibeIndexes]);
 
-  // Set up real-time vibe listeners (called once)
-  const setupVibeListeners = async () => {
+  const loadVibeIndexes = async (batch: Venue[], fresh = false) => {
     try {
-      const venuesList = await SupabaseService.getVenues()
-      for (const venue of venuesList) {
-        // CRITICAL: skip venues without a valid id — Firebase will crash
-        // with "Unsupported field value: undefined" on where("==", undefined)
-        if (!venue?.id) {
-          console.warn(`[MapScreen.web] ⚠️ Skipping vibe listener setup for venue without id:`, venue?.name || 'unknown');
-          continue;
-        }
-
-        const vibeRatingsRef = collection(db, "YoVibe/data/vibeRatings")
-        const today = new Date()
-        today.setHours(0, 0, 0, 0)
-        const tomorrow = new Date(today)
-        tomorrow.setDate(tomorrow.getDate() + 1)
-
-        const q = query(
-          vibeRatingsRef,
-          where("venueId", "==", venue.id),
-          where("createdAt", ">=", today),
-          where("createdAt", "<", tomorrow),
-          orderBy("createdAt", "desc"),
-          limit(1)
-        )
-
-        const venueId = venue.id; // capture in closure
-        const unsubscribe = onSnapshot(
-          q,
-          (snapshot) => {
-            snapshot.docChanges().forEach((change) => {
-              if (change.type === "added" || change.type === "modified") {
-                const data = change.doc.data()
-                const rating = data.rating || 0.0
-                setVenueVibeRatings((prev) => ({
-                  ...prev,
-                  [venueId]: rating,
-                }))
-              } else if (change.type === "removed") {
-                setVenueVibeRatings((prev) => ({
-                  ...prev,
-                  [venueId]: 0.0,
-                }))
-              }
-            })
-          },
-          (error) => {
-            console.error(`FirebaseService: Error listening to vibe ratings for venue ${venueId}:`, error)
-            setVenueVibeRatings((prev) => ({
-              ...prev,
-              [venueId]: 0.0,
-            }))
-          }
-        )
-        vibeUnsubscribers.push(unsubscribe)
-      }
+      const indexes = await VibeIndexService.getIndexes(batch.map(venueKey), fresh)
+      setVenueVibeIndexes((prev) => ({ ...prev, ...indexes }))
     } catch (error) {
-      console.error("Error setting up vibe listeners:", error)
+      console.error("[MapScreen.web] Error loading live vibe:", error)
     }
   }
 
+  // Keep the live vibe current for every loaded venue while the map is open
+  const venuesRef = useRef<Venue[]>(venues)
+  useEffect(() => {
+    venuesRef.current = venues
+  }, [venues])
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (venuesRef.current.length) loadVibeIndexes(venuesRef.current, true)
+    }, VIBE_INDEX_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
   useEffect(() => {
     // If a destination venue ID is provided, highlight it
     if (destinationVenueId && venues.length > 0) {
@@ -514,22 +469,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
       setHasMore(more);
       hasMoreRef.current = more;
 
-      const today = new Date();
-      for (const venue of batch) {
-        try {
-          const vibeImages = await SupabaseService.getVibeImagesByVenueAndDate(venue.id, today);
-          if (vibeImages.length > 0) {
-            const latestVibe = vibeImages.reduce((latest, image) => {
-              return image.uploadedAt > latest.uploadedAt ? image : latest;
-            });
-            setVenueVibeRatings(prev => ({ ...prev, [venue.id]: latestVibe.vibeRating || 0.0 }));
-          } else {
-            setVenueVibeRatings(prev => ({ ...prev, [venue.id]: 0.0 }));
-          }
-        } catch {
-          setVenueVibeRatings(prev => ({ ...prev, [venue.id]: 0.0 }));
-        }
-      }
+      if (batch.length) await loadVibeIndexes(batch, reset);
       return true
     } catch (error) {
       console.error("[MapScreen.web] Error loading venues:", error);
@@ -598,6 +538,8 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
     Linking.openURL(url)
   }
 
+  const liveVibe = (venue: Venue) => venueVibeIndexes[venueKey(venue)]?.index ?? venue.vibeRating
+
   // Memoized sorted and filtered venues
   const filteredAndSortedVenues = useMemo(() => {
     const searchTerm = searchQuery.toLowerCase().trim()
@@ -615,13 +557,13 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
       })
     }
     
-    // Sort by vibe rating (highest first)
+    // Sort by live vibe (highest first)
     return [...filtered].sort((a, b) => {
-      const aVibe = venueVibeRatings[a.id] || 0.0
-      const bVibe = venueVibeRatings[b.id] || 0.0
+      const aVibe = venueVibeIndexes[venueKey(a)]?.index || 0.0
+      const bVibe = venueVibeIndexes[venueKey(b)]?.index || 0.0
       return bVibe - aVibe
     })
-  }, [venues, venueVibeRatings, searchQuery])
+  }, [venues, venueVibeIndexes, searchQuery])
 
   // Get venue count for display
   const venueCount = filteredAndSortedVenues.length
@@ -641,6 +583,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
       name: v.name,
       lat: v.latitude ?? v.coordinates?.latitude,
       lng: v.longitude ?? v.coordinates?.longitude,
+      vibe: mapVibe(venueVibeIndexes[venueKey(v)]),
     })),
   })
 
@@ -691,7 +634,7 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
       v.latitude != null || v.coordinates?.latitude != null).length
     console.log(`[MapScreen.web] posting ${venues.length} venues to map (${withCoords} with coords)`)
     postToMap(mapVenuesPayload())
-  }, [venues])
+  }, [venues, venueVibeIndexes])
 
   // Highlight the selected venue on the map (or clear it when null).
   useEffect(() => {
@@ -865,8 +808,8 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
                           <Text style={styles.venueCategories}>{venue.categories.join(", ")}</Text>
                           <View style={styles.vibeRatingContainer}>
                             <Text style={styles.vibeRatingLabel}>Vibe: </Text>
-                            <Text style={[styles.vibeRatingValue, { color: (venueVibeRatings[venue.id] ?? venue.vibeRating) >= 4 ? "#4CAF50" : (venueVibeRatings[venue.id] ?? venue.vibeRating) >= 3 ? "#FFC107" : "#F44336" }]}>
-                              {(venueVibeRatings[venue.id] ?? venue.vibeRating).toFixed(1)}
+                            <Text style={[styles.vibeRatingValue, { color: vibeColor(liveVibe(venue)) }]}>
+                              {liveVibe(venue).toFixed(1)}
                             </Text>
                           </View>
                         </View>
@@ -941,10 +884,8 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
                   <Text style={styles.hudTitle}>{selectedVenue.name}</Text>
                   <Text style={styles.hudAddress}>{selectedVenue.location}</Text>
                   <View style={styles.hudVibeRow}>
-                    <Text style={styles.hudVibeLabel}>Live Vibe: </Text>
-                    <Text style={[styles.hudVibeValue, { color: vibeColor(venueVibeRatings[selectedVenue.id] ?? selectedVenue.vibeRating) }]}>
-                      {(venueVibeRatings[selectedVenue.id] ?? selectedVenue.vibeRating).toFixed(1)}
-                    </Text>
+                    <Text style={styles.hudVibeLabel}>Live Vibe</Text>
+                    <VibeIndexSummary index={venueVibeIndexes[venueKey(selectedVenue)] || null} compact />
                   </View>
                   <View style={styles.hudButtonsRow}>
                     <TouchableOpacity style={styles.hudDirectionsBtn} onPress={() => openGoogleMaps(selectedVenue)}>
@@ -990,10 +931,8 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
                   <Text style={styles.hudTitle}>{selectedVenue.name}</Text>
                   <Text style={styles.hudAddress}>{selectedVenue.location}</Text>
                   <View style={styles.hudVibeRow}>
-                    <Text style={styles.hudVibeLabel}>Live Vibe: </Text>
-                    <Text style={[styles.hudVibeValue, { color: vibeColor(venueVibeRatings[selectedVenue.id] ?? selectedVenue.vibeRating) }]}>
-                      {(venueVibeRatings[selectedVenue.id] ?? selectedVenue.vibeRating).toFixed(1)}
-                    </Text>
+                    <Text style={styles.hudVibeLabel}>Live Vibe</Text>
+                    <VibeIndexSummary index={venueVibeIndexes[venueKey(selectedVenue)] || null} compact />
                   </View>
                   <View style={styles.hudButtonsRow}>
                     <TouchableOpacity style={styles.hudDirectionsBtn} onPress={() => openGoogleMaps(selectedVenue)}>
@@ -1143,10 +1082,10 @@ const MapScreen: React.FC<MapScreenProps> = ({ navigation, route }) => {
                                 <Text
                                   style={[
                                     styles.vibeRatingValue,
-                                    { color: (venueVibeRatings[venue.id] ?? venue.vibeRating) >= 4 ? "#4CAF50" : (venueVibeRatings[venue.id] ?? venue.vibeRating) >= 3 ? "#FFC107" : "#F44336" },
+                                    { color: vibeColor(liveVibe(venue)) },
                                   ]}
                                 >
-                                  {(venueVibeRatings[venue.id] ?? venue.vibeRating).toFixed(1)}
+                                  {liveVibe(venue).toFixed(1)}
                                 </Text>
                               </View>
                             </View>
@@ -1594,17 +1533,12 @@ const styles = StyleSheet.create({
     marginBottom: 10,
   },
   hudVibeRow: {
-    flexDirection: "row",
-    alignItems: "center",
     marginBottom: 14,
   },
   hudVibeLabel: {
     fontSize: 13,
     color: "#888888",
-  },
-  hudVibeValue: {
-    fontSize: 13,
-    fontWeight: "bold",
+    marginBottom: 4,
   },
   hudButtonsRow: {
     flexDirection: "row",
@@ -14,11 +14,14 @@ import InstallmentService from "../services/InstallmentService"
 import PawaPayService from "../services/PawaPayService"
 import PesaPalService from "../services/PesaPalService"
 import RefundService, { type RefundReason } from "../services/RefundService"
+import TicketTransferService from "../services/TicketTransferService"
 import { Platform } from "react-native"
 import type { Ticket } from "../models/Ticket"
 import type { InstallmentPlan, InstallmentPlanType } from "../models/InstallmentPlan"
+import type { ResaleListing } from "../models/TicketTransfer"
 import { renderCanonicalTicketSvgWithEmbeddedAssets, svgDataUri, computeEmailHeroRect } from "../services/TicketCanonicalRenderer"
 import { computeTicketLayout } from "../services/TicketLayoutEngine"
+import LiveTicketQR from "../components/LiveTicketQR"
 
 // Generate short ticket reference like YV-2026-X5RD or YVG-<event>-<timestamp> for table tickets
 const shortTicketRef = (ticket: Ticket): string => {
@@ -58,6 +61,12 @@ const MyTicketsScreen: React.FC = () => {
   const [payInstallmentLoading, setPayInstallmentLoading] = useState(false)
   const [payInstallmentStatus, setPayInstallmentStatus] = useState<"idle" | "polling" | "success" | "error">("idle")
   const [payInstallmentMessage, setPayInstallmentMessage] = useState("")
+  const [transferMode, setTransferMode] = useState<"transfer" | "sell" | null>(null)
+  const [transferEmail, setTransferEmail] = useState("")
+  const [resalePrice, setResalePrice] = useState("")
+  const [resalePhone, setResalePhone] = useState("")
+  const [transferLoading, setTransferLoading] = useState(false)
+  const [myListings, setMyListings] = useState<ResaleListing[]>([])
 
   const selectedFeeDesign = selectedEvent?.entryFees?.find((fee: any) => fee.name === selectedTicket?.entryFeeType)?.ticketDesign
     || selectedEvent?.ticket_design
@@ -96,7 +105,10 @@ const MyTicketsScreen: React.FC = () => {
       })
 
       setLocalTickets(sorted)
-      setInstallmentPlans(plans.filter((p) => p.status === "active"))
+      const visiblePlans = plans.filter((p) => p.status === "active" || p.status === "expired")
+      setInstallmentPlans(visiblePlans)
+      openPayNowLink(visiblePlans)
+      TicketTransferService.myListings().then(setMyListings).catch(() => setMyListings([]))
     } catch (error) {
       console.error("📋 MyTicketsScreen: Error loading tickets:", error)
       Alert.alert("Error", "Failed to load tickets")
@@ -178,6 +190,7 @@ const MyTicketsScreen: React.FC = () => {
     setSelectedTicket(null)
     setSelectedEvent(null)
     setSelectedTicketSvg(null)
+    setTransferMode(null)
   }
 
   const handleDownloadTicket = async (ticket: Ticket) => {
@@ -204,6 +217,59 @@ const MyTicketsScreen: React.FC = () => {
     Alert.alert("Request refund", "Select the applicable reason. An administrator must review and execute every refund.", options.map((option) => ({ text: option.label, onPress: async () => { try { await RefundService.request(ticket.id, option.reason, plan?.id); Alert.alert("Submitted", "Your refund request was submitted for admin review.") } catch (e: any) { Alert.alert("Refund request", e.message) } } })))
   }
 
+  const activeListingFor = (ticket: Ticket) =>
+    myListings.find((l) => l.ticket_id === ticket.id && l.status === "active")
+
+  const handleTransferTicket = async (ticket: Ticket) => {
+    const email = transferEmail.trim()
+    if (!email.includes("@")) return Alert.alert("Email Required", "Enter the email of the person receiving this ticket.")
+    const confirmed = typeof window !== "undefined" && window.confirm
+      ? window.confirm(`Transfer this ticket to ${email}? Your QR code will stop working immediately.`)
+      : true
+    if (!confirmed) return
+    try {
+      setTransferLoading(true)
+      await TicketTransferService.transfer(ticket.id, email)
+      Alert.alert("Ticket transferred", `${email} can now find this ticket under My Tickets or via Resend Ticket.`)
+      setTransferEmail("")
+      handleCloseTicket()
+      handleRefresh()
+    } catch (e: any) {
+      Alert.alert("Transfer failed", e.message)
+    } finally {
+      setTransferLoading(false)
+    }
+  }
+
+  const handleListForResale = async (ticket: Ticket) => {
+    const price = Number(resalePrice)
+    if (!price || price <= 0) return Alert.alert("Price Required", "Enter the price you want to sell this ticket for.")
+    if (!resalePhone.trim()) return Alert.alert("Number Required", "Enter the mobile money number for your payout.")
+    try {
+      setTransferLoading(true)
+      const { listing } = await TicketTransferService.list(ticket.id, price, { phone: resalePhone.trim(), name: ticket.buyerName })
+      setMyListings((prev) => [listing, ...prev])
+      setTransferMode(null)
+      Alert.alert("Listed for resale", "Your ticket is listed on the event page. It stays valid for you until someone buys it.")
+    } catch (e: any) {
+      Alert.alert("Listing failed", e.message)
+    } finally {
+      setTransferLoading(false)
+    }
+  }
+
+  const handleCancelListing = async (listing: ResaleListing) => {
+    try {
+      setTransferLoading(true)
+      const { listing: updated } = await TicketTransferService.cancelListing(listing.id)
+      setMyListings((prev) => prev.map((l) => (l.id === updated.id ? updated : l)))
+    } catch (e: any) {
+      Alert.alert("Cancel failed", e.message)
+    } finally {
+      setTransferLoading(false)
+    }
+  }
+
   const handleRefresh = () => {
     setLoading(true)
     refetch()
@@ -213,6 +279,27 @@ const MyTicketsScreen: React.FC = () => {
   const getNextPendingInstallment = (plan: InstallmentPlan) =>
     plan.installments.find((i) => i.status === "pending")
 
+  // Reminder notifications link here with ?payPlan=<planId> to open the pay form
+  const openPayNowLink = (plans: InstallmentPlan[]) => {
+    if (typeof window === "undefined") return
+    const params = new URLSearchParams(window.location.search)
+    const planId = params.get("payPlan")
+    if (!planId) return
+    params.delete("payPlan")
+    const query = params.toString()
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""))
+
+    const plan = plans.find((p) => p.id === planId)
+    if (!plan || plan.status !== "active" || !getNextPendingInstallment(plan)) {
+      Alert.alert("Installment plan", "This installment plan is no longer open for payment.")
+      return
+    }
+    setInstallmentsExpanded(true)
+    setPayingPlanId(plan.id)
+    setPayInstallmentStatus("idle")
+    setPayInstallmentNumber(plan.paymentNumber || "")
+  }
+
   const handlePayInstallment = async (plan: InstallmentPlan) => {
     const next = getNextPendingInstallment(plan)
     if (!next) return
@@ -333,14 +420,15 @@ const MyTicketsScreen: React.FC = () => {
             const progress = paidCount / total
             const isOverdue = next && new Date() > next.dueDate
             const eventPassed = plan.eventDate && new Date() > plan.eventDate
+            const isExpired = plan.status === "expired" || eventPassed
 
             return (
               <View key={plan.id} style={styles.installmentCard}>
                 <View style={styles.installmentCardHeader}>
                   <Text style={styles.installmentCardEvent} numberOfLines={1}>{plan.eventName}</Text>
-                  <View style={[styles.installmentBadge, eventPassed && styles.installmentBadgeExpired]}>
+                  <View style={[styles.installmentBadge, isExpired && styles.installmentBadgeExpired]}>
                     <Text style={styles.installmentBadgeText}>
-                      {eventPassed ? "EXPIRED" : `${paidCount}/${total} PAID`}
+                      {isExpired ? "EXPIRED" : `${paidCount}/${total} PAID`}
                     </Text>
                   </View>
                 </View>
@@ -355,7 +443,13 @@ const MyTicketsScreen: React.FC = () => {
                   UGX {plan.amountPaid.toLocaleString()} of UGX {plan.totalAmount.toLocaleString()} paid
                 </Text>
 
-                {next && !eventPassed && (
+                {plan.status === "expired" && (
+                  <Text style={[styles.progressText, styles.overdueText]}>
+                    Cancelled after a missed payment{plan.refundStatus === "pending" ? " — refund under review" : ""}
+                  </Text>
+                )}
+
+                {next && !isExpired && (
                   <>
                     <View style={styles.nextInstallmentRow}>
                       <Text style={[styles.nextInstallmentLabel, isOverdue && styles.overdueText]}>
@@ -364,6 +458,11 @@ const MyTicketsScreen: React.FC = () => {
                         <Text style={{ color: "#666", fontSize: 11 }}> (incl. UGX {next.serviceFee.toLocaleString()} fee)</Text>
                       </Text>
                     </View>
+                    {isOverdue && plan.graceEndsAt && (
+                      <Text style={[styles.progressText, styles.overdueText]}>
+                        Pay by {plan.graceEndsAt.toLocaleDateString("en-US", { month: "short", day: "numeric" })} to keep your reservation
+                      </Text>
+                    )}
 
                     {payingPlanId === plan.id ? (
                       <View style={styles.payInstallmentForm}>
@@ -648,9 +747,13 @@ const MyTicketsScreen: React.FC = () => {
               })()}
             </View>
 
-            <Text style={{ color: "#9CA3AF", textAlign: "center", marginBottom: 18 }}>
-              Present this ticket and QR code at the event entrance.
-            </Text>
+            {selectedTicket.qrSecret && selectedTicket.status === "active" ? (
+              <LiveTicketQR qrCode={selectedTicket.qrCode} qrSecret={selectedTicket.qrSecret} />
+            ) : (
+              <Text style={{ color: "#9CA3AF", textAlign: "center", marginBottom: 18 }}>
+                Present this ticket and QR code at the event entrance.
+              </Text>
+            )}
 
             {/* Download Button */}
             <TouchableOpacity style={styles.downloadButton} onPress={() => handleDownloadTicket(selectedTicket)}>
@@ -668,6 +771,63 @@ const MyTicketsScreen: React.FC = () => {
                 </TouchableOpacity>
               ) : null
             })()}
+            {selectedTicket.status === "active" && (() => {
+              const listing = activeListingFor(selectedTicket)
+              if (listing) {
+                return (
+                  <View style={styles.transferPanel}>
+                    <Text style={styles.transferTitle}>Listed for resale at UGX {Number(listing.price).toLocaleString()}</Text>
+                    <TouchableOpacity style={[styles.downloadButton, { backgroundColor: "#374151", marginHorizontal: 0, marginBottom: 0 }]} disabled={transferLoading} onPress={() => handleCancelListing(listing)}>
+                      <Ionicons name="close-circle-outline" size={20} color="#FFFFFF" />
+                      <Text style={styles.downloadButtonText}>Cancel listing</Text>
+                    </TouchableOpacity>
+                  </View>
+                )
+              }
+              return (
+                <View style={styles.transferPanel}>
+                  <View style={styles.transferTabs}>
+                    <TouchableOpacity style={[styles.transferTab, transferMode === "transfer" && styles.transferTabActive]} onPress={() => setTransferMode(transferMode === "transfer" ? null : "transfer")}>
+                      <Ionicons name="swap-horizontal-outline" size={18} color="#FFFFFF" />
+                      <Text style={styles.downloadButtonText}>Transfer</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.transferTab, transferMode === "sell" && styles.transferTabActive]} onPress={() => setTransferMode(transferMode === "sell" ? null : "sell")}>
+                      <Ionicons name="pricetag-outline" size={18} color="#FFFFFF" />
+                      <Text style={styles.downloadButtonText}>Sell</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {transferMode === "transfer" && (
+                    <>
+                      <TextInput style={styles.payInput} value={transferEmail} onChangeText={setTransferEmail} placeholder="Recipient email" placeholderTextColor="#666" keyboardType="email-address" autoCapitalize="none" />
+                      <Text style={styles.transferHint}>A new QR code is issued to the recipient and your current one stops working.</Text>
+                      <TouchableOpacity style={[styles.downloadButton, { marginHorizontal: 0, marginBottom: 0 }]} disabled={transferLoading} onPress={() => handleTransferTicket(selectedTicket)}>
+                        {transferLoading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.downloadButtonText}>Transfer ticket</Text>}
+                      </TouchableOpacity>
+                    </>
+                  )}
+                  {transferMode === "sell" && (
+                    <>
+                      <TextInput style={styles.payInput} value={resalePrice} onChangeText={setResalePrice} placeholder={`Price (face value UGX ${Number(selectedTicket.basePrice || selectedTicket.totalAmount || 0).toLocaleString()})`} placeholderTextColor="#666" keyboardType="numeric" />
+                      <TextInput style={[styles.payInput, { marginTop: 8 }]} value={resalePhone} onChangeText={setResalePhone} placeholder="Mobile money number for payout" placeholderTextColor="#666" keyboardType="phone-pad" />
+                      <Text style={styles.transferHint}>Resale prices are capped just above face value. You are paid after the sale is reviewed.</Text>
+                      <TouchableOpacity style={[styles.downloadButton, { marginHorizontal: 0, marginBottom: 0 }]} disabled={transferLoading} onPress={() => handleListForResale(selectedTicket)}>
+                        {transferLoading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.downloadButtonText}>List for resale</Text>}
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              )
+            })()}
+            {!!selectedTicket.transferHistory?.length && (
+              <View style={styles.transferPanel}>
+                <Text style={styles.transferTitle}>Ownership history</Text>
+                {selectedTicket.transferHistory.filter((h) => h.type !== "qr_reissued").map((h, i) => (
+                  <Text key={`${h.type}-${i}`} style={styles.transferHint}>
+                    {new Date(h.at).toLocaleDateString()} · {h.type === "resale_sold" ? `Resold for UGX ${Number(h.price || 0).toLocaleString()}` : h.type === "transfer" ? `Transferred to ${h.toEmail}` : h.type === "resale_listed" ? "Listed for resale" : "Listing cancelled"}
+                  </Text>
+                ))}
+              </View>
+            )}
           </ScrollView>
         </View>
       )}
@@ -1147,6 +1307,40 @@ downloadButton: {
   methodBtnTextActive: {
     color: "#F59E0B",
   },
+  transferPanel: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  transferTitle: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  transferTabs: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  transferTab: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#374151",
+    padding: 12,
+    borderRadius: 10,
+  },
+  transferTabActive: {
+    backgroundColor: "#2196F3",
+  },
+  transferHint: {
+    color: "#9CA3AF",
+    fontSize: 12,
+    lineHeight: 18,
+  },
   payInput: {
     backgroundColor: "#2a2a2a",
     color: "#FFF",
@@ -15,6 +15,7 @@ import {
 import { Ionicons } from "@expo/vector-icons"
 import SupabaseService from "../services/SupabaseService"
 import VibeAnalysisService from "../services/VibeAnalysisService"
+import VibeIndexService from "../services/VibeIndexService"
 import { useCompatNavigation } from "../utils/compatNavigation"
 
 import { useAuth } from "../contexts/AuthContext"
@@ -39,12 +40,13 @@ const MyVenuesScreen: React.FC = () => {
       const venuesList = await SupabaseService.getVenuesByOwner(user.id)
       setVenues(venuesList)
 
-      // Load current vibe ratings for each venue
+      // Load the live vibe index for each venue
+      const indexes = await VibeIndexService.getIndexes(venuesList.map((venue) => venue.slug || venue.id))
       const vibeRatings: Record<string, number> = {}
       for (const venue of venuesList) {
-        const rating = await SupabaseService.getLatestVibeRating(venue.id)
-        if (rating !== null) {
-          vibeRatings[venue.id] = rating
+        const index = indexes[venue.slug || venue.id]
+        if (index && index.source !== "none") {
+          vibeRatings[venue.id] = index.index
         }
       }
       setVenueVibeRatings(vibeRatings)
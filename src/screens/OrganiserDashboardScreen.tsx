@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import {
   View,
   Text,
@@ -22,6 +22,8 @@ import { Ionicons } from "@expo/vector-icons"
 import { useCompatNavigation } from "../utils/compatNavigation"
 import { useRouter } from "../utils/URLRouter"
 import { ValidationDialog } from "../components/ValidationDialog"
+import { AutoPayoutSettingsModal } from "../components/AutoPayoutSettingsModal"
+import { RevenueSharePanel } from "../components/RevenueSharePanel"
 
 import type { NativeStackScreenProps } from "@react-navigation/native-stack"
 import { supabase } from "../config/supabase"
@@ -31,9 +33,24 @@ import PesaPalService from "../services/PesaPalService"
 import PawaPayService from "../services/PawaPayService"
 import StaffTokenService from "../services/StaffTokenService"
 import RefundService from "../services/RefundService"
+import OfflineScanService from "../services/OfflineScanService"
+import WaitlistService from "../services/WaitlistService"
+import PromoCodeService from "../services/PromoCodeService"
+import LedgerService from "../services/LedgerService"
+import RevenueShareService from "../services/RevenueShareService"
+import TeamService from "../services/TeamService"
+import PasskeyService from "../services/PasskeyService"
 import { useAuth } from "../contexts/AuthContext"
 import { useDeviceType, COLORS } from "../utils/ResponsiveDesign"
 import type { Event } from "../models/Event"
+import type { EventAccess, TeamAuditEntry, TeamPermission } from "../models/Team"
+import type { ScanConflict } from "../models/DoorManifest"
+import type { PromoCode, PromoCodeReport } from "../models/PromoCode"
+import { findPromoCode, normalizePromoCode } from "../utils/promoCodes"
+import { resolvePricePhase, salesPhaseLabel } from "../utils/pricePhases"
+import { computeGateStats, type GateScan } from "../utils/gateThroughput"
+import { calculatePayoutBreakdown, type PayoutBreakdown } from "../utils/pricing"
+import { hasPermission, TEAM_ACTION_LABELS, TEAM_ROLE_LABELS } from "../utils/teamRoles"
 import type {
   VenuesStackParamList,
   EventsStackParamList,
@@ -48,6 +65,8 @@ const isTablet = screenWidth >= 768
 const isLargeScreen = screenWidth >= 1024
 const SLIDER_WIDTH = screenWidth - 96
 
+type TicketSplit = { totalAmount: number; appCommission: number; venueRevenue: number; gatewayFee: number }
+
 const toInternationalPhone = (localNumber: string): string => {
   const cleaned = localNumber.replace(/\D/g, "")
   if (cleaned.startsWith("+256")) return cleaned
@@ -228,13 +247,22 @@ const OrganiserDashboardScreen: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [activeDashboardTab, setActiveDashboardTab] = useState<'organizer' | 'admin'>('organizer')
   const [allowLatePurchases, setAllowLatePurchases] = useState(true)
-  const [ticketSalesEarly, setTicketSalesEarly] = useState(0)
-  const [ticketSalesLate, setTicketSalesLate] = useState(0)
+  // Sales per price phase; tickets sold without phases are bucketed as Early/Late
+  const [phaseSales, setPhaseSales] = useState<Record<string, { count: number; revenue: number }>>({})
   const [scanLogs, setScanLogs] = useState<Array<{ time: string; name: string; ticketRef: string; feeType: string; seatNumber: string; tableNumber: string; status: string; reason: string }>>([])
+  const [scanConflicts, setScanConflicts] = useState<ScanConflict[]>([])
+  const [gateScans, setGateScans] = useState<GateScan[]>([])
+  const [gateClock, setGateClock] = useState(() => new Date())
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<string, number>>({})
+  const [promoReport, setPromoReport] = useState<PromoCodeReport[]>([])
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [promoForm, setPromoForm] = useState({ code: "", type: "percentage" as PromoCode["type"], value: "", maxUses: "", validUntil: "", minGroupSize: "", entryFees: [] as string[], autoApply: false })
+  const [savingPromo, setSavingPromo] = useState(false)
   const [payoutHistory, setPayoutHistory] = useState<Array<{ date: string; amount: string; status: string }>>([])
   const [walletBalance, setWalletBalance] = useState("UGX 0")
   const [eligiblePayoutTotal, setEligiblePayoutTotal] = useState(0)
   const [showWithdrawModal, setShowWithdrawModal] = useState(false)
+  const [showAutoPayoutModal, setShowAutoPayoutModal] = useState(false)
   const [withdrawLoading, setWithdrawLoading] = useState(false)
   
   // Payout slider state
@@ -247,6 +275,7 @@ const OrganiserDashboardScreen: React.FC = () => {
   const [otpLoading, setOtpLoading] = useState(false)
   const [otpError, setOtpError] = useState("")
   const [resendCooldown, setResendCooldown] = useState(0)
+  const [hasPasskey, setHasPasskey] = useState(false)
   const [payoutProvider, setPayoutProvider] = useState<"MTN_MOMO_UGA" | "AIRTEL_OAPI_UGA">("MTN_MOMO_UGA")
   const [payoutTab, setPayoutTab] = useState<"mobile_money" | "card">("mobile_money")
   const [bankName, setBankName] = useState("")
@@ -255,8 +284,11 @@ const OrganiserDashboardScreen: React.FC = () => {
   const [payoutFieldErrors, setPayoutFieldErrors] = useState<Record<string, string>>({})
   // Maps ticketId → payment_method for filtering payouts by tab
   const [scannedPaymentMethods, setScannedPaymentMethods] = useState<Record<string, string>>({})
+  // Maps ticketId → its price split; promo discounts and commission overrides mean
+  // tickets of one type can earn different amounts
+  const [scannedTicketSplits, setScannedTicketSplits] = useState<Record<string, TicketSplit>>({})
 
-  const [ticketSalesByType, setTicketSalesByType] = useState<Record<string, { early: { count: number; revenue: number }; late: { count: number; revenue: number }; scanned: { count: number; revenue: number } }>>({})
+  const [ticketSalesByType, setTicketSalesByType] = useState<Record<string, { early: { count: number; revenue: number }; late: { count: number; revenue: number }; scanned: { count: number; revenue: number }; phases?: Record<string, number> }>>({})
   const [organizerPaymentDetails, setOrganizerPaymentDetails] = useState<{
     mobileMoney?: { provider: string; phoneNumber: string; accountName: string }
     bankAccount?: { bankName: string; accountNumber: string; accountName: string }
@@ -304,6 +336,17 @@ const OrganiserDashboardScreen: React.FC = () => {
   const [eventCreatorPaymentDetails, setEventCreatorPaymentDetails] = useState<any>(null)
   const [eventStatusExpanded, setEventStatusExpanded] = useState(false)
   const [lateFeeExpanded, setLateFeeExpanded] = useState(false)
+  // Team role on this event: undefined while loading, null when the user has none
+  const [access, setAccess] = useState<EventAccess | null | undefined>(undefined)
+  const [teamAudit, setTeamAudit] = useState<TeamAuditEntry[]>([])
+  const [refundActionId, setRefundActionId] = useState<string | null>(null)
+  const can = (permission: TeamPermission) => hasPermission(access, permission)
+  const isTeamMember = !!access && access.role !== "owner" && access.role !== "admin"
+
+  useEffect(() => {
+    if (!eventId) return
+    TeamService.getEventAccess(eventId).then(setAccess)
+  }, [eventId, user?.uid])
 
   const confirmEventStatusChange = async () => {
     if (!event || !pendingEventAction) {
@@ -324,14 +367,14 @@ const OrganiserDashboardScreen: React.FC = () => {
     setEventStatusUpdating(true)
     try {
       if (pendingEventAction === "cancelled") {
-        console.log("[EventStatus] ➡️ Calling SupabaseService.updateEvent with eventStatus='cancelled'")
-        await SupabaseService.updateEvent(event.id, { eventStatus: "cancelled" } as any)
+        console.log("[EventStatus] ➡️ Calling TeamService.setEventStatus with eventStatus='cancelled'")
+        await TeamService.setEventStatus(event.id, "cancelled")
       } else {
         const newDate = new Date(pendingEventDate)
-        console.log("[EventStatus] ➡️ Calling SupabaseService.updateEvent with eventStatus='postponed', postponedTo=", newDate.toISOString())
-        await SupabaseService.updateEvent(event.id, { eventStatus: "postponed", postponedTo: newDate } as any)
+        console.log("[EventStatus] ➡️ Calling TeamService.setEventStatus with eventStatus='postponed', postponedTo=", newDate.toISOString())
+        await TeamService.setEventStatus(event.id, "postponed", newDate)
       }
-      console.log("[EventStatus] ✅ SupabaseService.updateEvent completed without error")
+      console.log("[EventStatus] ✅ TeamService.setEventStatus completed without error")
       setShowEventStatusModal(false)
       Alert.alert("Success", `Event ${pendingEventAction === "cancelled" ? "cancelled" : "postponed"} successfully`)
       setEvent(prev => prev ? { ...prev, eventStatus: pendingEventAction, postponedTo: pendingEventAction === "postponed" ? new Date(pendingEventDate) : prev.postponedTo } as any : prev)
@@ -346,9 +389,11 @@ const OrganiserDashboardScreen: React.FC = () => {
     }
   }
 
-  type StaffToken = { id: string; token: string; label?: string; expires_at: string; created_at: string }
+  type StaffToken = { id: string; token: string; label?: string; expires_at: string; created_at: string; gate_name?: string | null; allowed_entry_fees?: string[] | null }
   const [activeTokens, setActiveTokens] = useState<StaffToken[]>([])
   const [newTokenLabel, setNewTokenLabel] = useState("")
+  const [newTokenGate, setNewTokenGate] = useState("")
+  const [newTokenFees, setNewTokenFees] = useState<string[]>([])
   const [showTokenModal, setShowTokenModal] = useState(false)
   const [tokenLoading, setTokenLoading] = useState(false)
 
@@ -385,28 +430,30 @@ const OrganiserDashboardScreen: React.FC = () => {
     }
     setTokenLoading(true)
     try {
-      const result = await StaffTokenService.generateToken(event.slug, newTokenLabel || undefined)
-      if (result) {
-        const tokens = await StaffTokenService.getActiveTokensForEvent(event.slug)
-        const newToken = tokens.find(t => t.id === result.tokenId)
-        if (newToken) {
-          const link = `https://yovibe.net/scan/${newToken.token}`
-          await copyToClipboard(link)
-          setActiveTokens([newToken, ...activeTokens])
-        }
-        setShowTokenModal(false)
-        setNewTokenLabel("")
-      }
-    } catch {
-      Alert.alert("Error", "Failed to generate token")
+      const gate = newTokenGate.trim() ? { gateName: newTokenGate.trim(), allowedEntryFees: newTokenFees } : undefined
+      const newToken: StaffToken = await TeamService.createStaffToken(event.slug, newTokenLabel || undefined, gate)
+      const link = `https://yovibe.net/scan/${newToken.token}`
+      await copyToClipboard(link)
+      setActiveTokens([newToken, ...activeTokens])
+      setShowTokenModal(false)
+      setNewTokenLabel("")
+      setNewTokenGate("")
+      setNewTokenFees([])
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to generate token")
     } finally {
       setTokenLoading(false)
     }
   }
 
   const handleRevokeToken = async (tokenId: string) => {
-    await StaffTokenService.revokeToken(tokenId)
-    setActiveTokens(activeTokens.filter(t => t.id !== tokenId))
+    if (!event?.slug) return
+    try {
+      await TeamService.revokeStaffToken(event.slug, tokenId)
+      setActiveTokens(activeTokens.filter(t => t.id !== tokenId))
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to revoke staff link")
+    }
   }
 
   const handleFetchTokens = async () => {
@@ -417,11 +464,26 @@ const OrganiserDashboardScreen: React.FC = () => {
 
   useEffect(() => { handleFetchTokens() }, [event?.slug])
 
+  useEffect(() => {
+    if (!PasskeyService.isSupported() || !user?.id) return
+    PasskeyService.list().then((keys) => setHasPasskey(keys.length > 0)).catch(() => setHasPasskey(false))
+  }, [user?.id])
+
+  const gateStats = useMemo(() => {
+    const remainingByFeeType: Record<string, number> = {}
+    for (const [typeName, s] of Object.entries(ticketSalesByType)) {
+      remainingByFeeType[typeName] = s.early.count + s.late.count - (s.scanned?.count || 0)
+    }
+    const gates = activeTokens.filter(t => t.gate_name).map(t => ({ gateName: t.gate_name as string, allowedEntryFees: t.allowed_entry_fees || undefined }))
+    return computeGateStats(gateScans, gates, remainingByFeeType, gateClock)
+  }, [gateScans, activeTokens, ticketSalesByType, gateClock])
+
   type TicketSalesByType = {
     [entryFeeName: string]: {
       early: { count: number; revenue: number }
       late: { count: number; revenue: number }
       scanned: { count: number; revenue: number }
+      phases?: Record<string, number>
     }
   }
 
@@ -437,6 +499,7 @@ const OrganiserDashboardScreen: React.FC = () => {
       appCommission: row.app_commission ?? row.appCommission ?? 0,
       gatewayFee: row.gateway_fee ?? row.gatewayFee ?? 0,
       isLatePurchase: row.is_late_purchase ?? row.isLatePurchase ?? false,
+      pricePhase: row.price_phase ?? row.pricePhase,
       isScanned: row.is_scanned ?? row.isScanned ?? false,
       status: row.status || "pending",
       payoutEligible: row.payout_eligible ?? row.payoutEligible ?? false,
@@ -453,7 +516,8 @@ const OrganiserDashboardScreen: React.FC = () => {
   }, [event])
 
   const processTicketData = useCallback((tickets: any[]) => {
-    let earlyCount = 0, lateCount = 0, totalRevenue = 0, eligibleTotal = 0
+    let totalRevenue = 0, eligibleTotal = 0
+    const byPhase: Record<string, { count: number; revenue: number }> = {}
     let totalAppCommission = 0, totalGatewayFees = 0
     const salesByType: TicketSalesByType = {}
     const payoutTypes: Record<string, { total: number; price: number; scannedIds: string[]; isTable?: boolean; tableSize?: number }> = {}
@@ -474,7 +538,10 @@ const OrganiserDashboardScreen: React.FC = () => {
       const isEligible = t.payoutEligible === true && t.payoutStatus === "pending"
       const tPaymentMethod = t.paymentMethod || "mobile_money"
 
-      if (isLate) lateCount++; else earlyCount++
+      const phase = salesPhaseLabel(t)
+      if (!byPhase[phase]) byPhase[phase] = { count: 0, revenue: 0 }
+      byPhase[phase].count++
+      byPhase[phase].revenue += amount
       totalRevenue += amount
       if (isEligible) eligibleTotal += t.venueRevenue || 0
       totalAppCommission += t.appCommission || 0
@@ -483,6 +550,10 @@ const OrganiserDashboardScreen: React.FC = () => {
       if (!salesByType[ticketType]) salesByType[ticketType] = { early: { count: 0, revenue: 0 }, late: { count: 0, revenue: 0 }, scanned: { count: 0, revenue: 0 } }
       if (isLate) { salesByType[ticketType].late.count++; salesByType[ticketType].late.revenue += amount }
       else { salesByType[ticketType].early.count++; salesByType[ticketType].early.revenue += amount }
+      if (t.pricePhase) {
+        const phases = salesByType[ticketType].phases || (salesByType[ticketType].phases = {})
+        phases[t.pricePhase] = (phases[t.pricePhase] || 0) + 1
+      }
       if (isScanned) {
         if (!salesByType[ticketType].scanned) salesByType[ticketType].scanned = { count: 0, revenue: 0 }
         salesByType[ticketType].scanned.count++
@@ -503,14 +574,21 @@ const OrganiserDashboardScreen: React.FC = () => {
 
     // Build payment method map
     const pmMap: Record<string, string> = {}
+    const splitMap: Record<string, TicketSplit> = {}
     tickets.forEach((ticket) => {
       const t = rowToTicket(ticket)
       pmMap[t.id] = t.paymentMethod || "mobile_money"
+      splitMap[t.id] = {
+        totalAmount: t.totalAmount || 0,
+        appCommission: t.appCommission || 0,
+        venueRevenue: t.venueRevenue || 0,
+        gatewayFee: t.gatewayFee || 0,
+      }
     })
     setScannedPaymentMethods(pmMap)
+    setScannedTicketSplits(splitMap)
 
-    setTicketSalesEarly(earlyCount)
-    setTicketSalesLate(lateCount)
+    setPhaseSales(byPhase)
     setWalletBalance(`UGX ${totalRevenue.toLocaleString()}`)
     setEligiblePayoutTotal(eligibleTotal)
     setTicketSalesByType(salesByType)
@@ -564,12 +642,140 @@ const OrganiserDashboardScreen: React.FC = () => {
     }
     load()
   }, [eventId])
-  useEffect(() => { fetchScanLogs() }, [fetchScanLogs])
+  const fetchScanConflicts = useCallback(async () => {
+    if (!eventId) return
+    setScanConflicts(await OfflineScanService.getConflicts(eventId))
+  }, [eventId])
+
+  // Last hour of validations for the per-gate throughput panel
+  const fetchGateScans = useCallback(async () => {
+    if (!eventId) return
+    try {
+      const since = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+      const { data, error } = await supabase.from("ticket_validations").select("ticketId, validatedAt, status, reason, gate").eq("event_slug", eventId).gte("validatedAt", since).order("validatedAt", { ascending: false }).limit(1000)
+      if (error) throw error
+      const ticketIds = [...new Set((data || []).slice(0, 100).map((v: any) => v.ticketId).filter(Boolean))]
+      const ticketMap: Record<string, any> = {}
+      if (ticketIds.length > 0) {
+        const { data: tickets } = await supabase.from("tickets").select("id, ticket_ref, buyer_name").in("id", ticketIds)
+        for (const t of tickets || []) ticketMap[t.id] = t
+      }
+      setGateScans((data || []).map((v: any) => ({
+        gate: v.gate,
+        validatedAt: v.validatedAt,
+        status: v.status === "granted" ? "granted" : "denied",
+        reason: v.reason || undefined,
+        ticketRef: ticketMap[v.ticketId]?.ticket_ref || v.ticketId?.substring(0, 8),
+        buyerName: ticketMap[v.ticketId]?.buyer_name || undefined,
+      })))
+      setGateClock(new Date())
+    } catch (error) { console.error("OrganiserDashboardScreen: Error fetching gate scans:", error) }
+  }, [eventId])
+
+  const fetchWaitlistCounts = useCallback(async () => {
+    if (!eventId) return
+    try { setWaitlistCounts(await WaitlistService.counts(eventId)) } catch (error) { console.error("OrganiserDashboardScreen: Error fetching waitlist counts:", error) }
+  }, [eventId])
+
+  // Raising a tier's cap frees inventory, so offer it to the waitlist straight away
+  const handleIncreaseCapacity = async (typeName: string) => {
+    if (!event || typeof window === "undefined") return
+    const fee = event.entryFees?.find((f) => f.name === typeName)
+    if (!fee) return
+    const input = window.prompt(`New ticket cap for ${typeName}`, String(fee.maxTickets ?? ""))
+    if (input === null) return
+    const newCap = Number.parseInt(input, 10)
+    if (!Number.isFinite(newCap) || newCap <= (fee.maxTickets || 0)) {
+      Alert.alert("Invalid Cap", `Enter a number greater than the current cap of ${fee.maxTickets ?? 0}.`)
+      return
+    }
+    try {
+      const entryFees = event.entryFees.map((f) => (f.name === typeName ? { ...f, maxTickets: newCap } : f))
+      await SupabaseService.updateEvent(event.slug || event.id, { entryFees })
+      setEvent((prev) => (prev ? { ...prev, entryFees } : prev))
+      await WaitlistService.release(event.slug || event.id, typeName)
+      fetchWaitlistCounts()
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update ticket cap")
+    }
+  }
+
+  const fetchPromoReport = useCallback(async () => {
+    if (!event?.id) return
+    try {
+      const { promoCodes, report } = await PromoCodeService.list(event.slug || event.id)
+      setPromoCodes(promoCodes)
+      setPromoReport(report)
+    } catch (error) { console.error("OrganiserDashboardScreen: Error fetching promo report:", error) }
+  }, [event?.id, event?.slug])
+
+  const savePromoCodes = async (next: PromoCode[]) => {
+    if (!event) return
+    const { promoCodes, report } = await PromoCodeService.save(event.slug || event.id, next)
+    setPromoCodes(promoCodes)
+    setPromoReport(report)
+  }
+
+  const handleCreatePromo = async () => {
+    const code = normalizePromoCode(promoForm.code)
+    const value = Number(promoForm.value)
+    if (!code || !Number.isFinite(value) || value <= 0 || (promoForm.type === "percentage" && value > 100)) {
+      Alert.alert("Invalid Promo Code", "Enter a code and a discount (1-100 for percentages).")
+      return
+    }
+    if (findPromoCode(promoCodes, code)) {
+      Alert.alert("Invalid Promo Code", `${code} already exists for this event.`)
+      return
+    }
+    const validUntil = promoForm.validUntil.trim() ? new Date(promoForm.validUntil.trim()) : null
+    if (validUntil && Number.isNaN(validUntil.getTime())) {
+      Alert.alert("Invalid Promo Code", "Use YYYY-MM-DD for the end date.")
+      return
+    }
+    const promo: PromoCode = {
+      code,
+      type: promoForm.type,
+      value,
+      maxUses: Number.parseInt(promoForm.maxUses, 10) || undefined,
+      validFrom: new Date().toISOString(),
+      validUntil: validUntil?.toISOString(),
+      entryFees: promoForm.entryFees.length ? promoForm.entryFees : undefined,
+      minGroupSize: Number.parseInt(promoForm.minGroupSize, 10) || undefined,
+      autoApply: promoForm.autoApply && !!Number.parseInt(promoForm.minGroupSize, 10),
+      active: true,
+      createdAt: new Date().toISOString(),
+    }
+    try {
+      setSavingPromo(true)
+      await savePromoCodes([...promoCodes, promo])
+      setPromoForm({ code: "", type: "percentage", value: "", maxUses: "", validUntil: "", minGroupSize: "", entryFees: [], autoApply: false })
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save promo code")
+    } finally {
+      setSavingPromo(false)
+    }
+  }
+
+  const handleTogglePromo = async (code: string) => {
+    try {
+      await savePromoCodes(promoCodes.map((p) => (normalizePromoCode(p.code) === code ? { ...p, active: !p.active } : p)))
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update promo code")
+    }
+  }
+
+  useEffect(() => { fetchScanLogs(); fetchScanConflicts(); fetchGateScans(); fetchWaitlistCounts() }, [fetchScanLogs, fetchScanConflicts, fetchGateScans, fetchWaitlistCounts])
+  useEffect(() => { fetchPromoReport() }, [fetchPromoReport])
+  // Keep per-minute buckets sliding even when no scans arrive
+  useEffect(() => {
+    const id = setInterval(() => setGateClock(new Date()), 30000)
+    return () => clearInterval(id)
+  }, [])
   useEffect(() => { if (!eventId) return; fetchTicketData()
     const tc = supabase.channel(`tickets-${eventId}`).on('postgres_changes', { event: '*', schema: 'public', table: 'tickets', filter: `event_slug=eq.${eventId}` }, () => fetchTicketData()).subscribe()
-    const vc = supabase.channel(`validations-${eventId}`).on('postgres_changes', { event: '*', schema: 'public', table: 'ticket_validations', filter: `event_slug=eq.${eventId}` }, () => fetchScanLogs()).subscribe()
+    const vc = supabase.channel(`validations-${eventId}`).on('postgres_changes', { event: '*', schema: 'public', table: 'ticket_validations', filter: `event_slug=eq.${eventId}` }, () => { fetchScanLogs(); fetchScanConflicts(); fetchGateScans() }).subscribe()
     return () => { supabase.removeChannel(tc); supabase.removeChannel(vc) }
-  }, [eventId, fetchTicketData, fetchScanLogs])
+  }, [eventId, fetchTicketData, fetchScanLogs, fetchScanConflicts, fetchGateScans])
 
   // Load payout history from Supabase - scoped to current event
   useEffect(() => {
@@ -610,17 +816,41 @@ const OrganiserDashboardScreen: React.FC = () => {
     }).catch(() => {})
   }, [user])
 
-  // Fetch refund requests for this event
+  // Fetch refund requests for this event (owner, finance and admins)
+  const canReviewRefunds = hasPermission(access, "refunds")
   useEffect(() => {
-    if (!eventId) return
+    if (!eventId || !canReviewRefunds) return
     setRefundsLoading(true)
     ;(async () => {
       try {
-        const { data } = await supabase.from('refund_requests').select('*').eq('event_id', eventId).order('created_at', { ascending: false }).limit(50)
-        setEventRefunds(data || [])
+        const { refunds } = await RefundService.list({ eventId, limit: 50 })
+        setEventRefunds(refunds || [])
       } catch {} finally { setRefundsLoading(false) }
     })()
-  }, [eventId])
+  }, [eventId, canReviewRefunds])
+
+  const canManageTeam = hasPermission(access, "manage_team")
+  const loadTeamAudit = useCallback(() => {
+    if (!eventId || !canManageTeam) return
+    TeamService.getAuditLog(eventId, 20).then(setTeamAudit).catch(() => setTeamAudit([]))
+  }, [eventId, canManageTeam])
+  useEffect(() => { loadTeamAudit() }, [loadTeamAudit])
+
+  const handleRefundDecision = async (refundId: string, approve: boolean) => {
+    if (!eventId) return
+    setRefundActionId(refundId)
+    try {
+      const { refund } = approve
+        ? await RefundService.approve(refundId, undefined, undefined, eventId)
+        : await RefundService.reject(refundId, undefined, eventId)
+      setEventRefunds(prev => prev.map(r => r.id === refund.id ? refund : r))
+      loadTeamAudit()
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update refund")
+    } finally {
+      setRefundActionId(null)
+    }
+  }
 
   // Admin withdraw via PawaPay
   const adminNetRevenue = Math.max(0, adminTotalAppCommission - adminTotalGatewayFees)
@@ -690,20 +920,17 @@ const OrganiserDashboardScreen: React.FC = () => {
   }
 
   const handleGrantReentry = async () => {
-    if (!reentryTicket || !user) return
+    if (!reentryTicket || !user || !event) return
     setReentryGranting(true)
     setReentryMessage(null)
-    const result = await TicketService.grantReentryPass(
-      reentryTicket.id,
-      user.id,
-      user.displayName || user.email || "Organiser"
-    )
-    setReentryGranting(false)
-    if (result.success) {
+    try {
+      const reentryPass = await TeamService.grantReentry(event.id, reentryTicket.id, user.displayName || user.email || "Organiser")
       setReentryMessage({ text: `Re-entry pass granted for ${reentryTicket.buyerName}. They can now scan back in.`, ok: true })
-      setReentryTicket({ ...reentryTicket, reentryPass: { used: false }, status: "used" })
-    } else {
-      setReentryMessage({ text: result.error || "Failed to grant re-entry.", ok: false })
+      setReentryTicket({ ...reentryTicket, reentryPass, status: "used" })
+    } catch (error: any) {
+      setReentryMessage({ text: error.message || "Failed to grant re-entry.", ok: false })
+    } finally {
+      setReentryGranting(false)
     }
   }
 
@@ -859,6 +1086,23 @@ const OrganiserDashboardScreen: React.FC = () => {
   };
 
   // Verify OTP
+  // Same check as the emailed code, with the passkey on this device instead
+  const handlePayoutWithPasskey = async () => {
+    setOtpError("");
+    setOtpLoading(true);
+    try {
+      if (!(await PasskeyService.stepUp("payout"))) {
+        setOtpError("Add a passkey in Settings to confirm payouts with it.");
+        return;
+      }
+      await handlePayoutSubmit();
+    } catch (err: any) {
+      if (err?.message !== "Passkey request was cancelled") setOtpError(err?.message || "Passkey confirmation failed. Please try again.");
+    } finally {
+      setOtpLoading(false);
+    }
+  };
+
   const handlePayoutWithOtpCheck = async () => {
     if (!otpCode?.trim()) {
       setOtpError("Please enter the code");
@@ -905,6 +1149,9 @@ const OrganiserDashboardScreen: React.FC = () => {
     }
   };
 
+  const payoutBreakdownFor = (ticketIds: string[]): PayoutBreakdown =>
+    calculatePayoutBreakdown(ticketIds.map((id) => scannedTicketSplits[id]).filter(Boolean))
+
   const handlePayoutSubmit = async () => {
     setPayoutFieldErrors({})
     console.log("[PayoutSubmit] 🚀 handlePayoutSubmit called")
@@ -913,8 +1160,10 @@ const OrganiserDashboardScreen: React.FC = () => {
 
     if (!user) { console.log("[PayoutSubmit] ❌ No user — aborting"); Alert.alert("Error", "Sign in required"); return }
 
-    // Validate based on tab
-    if (payoutTab === "mobile_money") {
+    // Validate based on tab; team members' payouts go to the owner's saved details
+    if (isTeamMember) {
+      console.log("[PayoutSubmit] 👥 Team member request — paying to the owner's saved details")
+    } else if (payoutTab === "mobile_money") {
       console.log("[PayoutSubmit] 📱 Mobile money validation — phone:", payoutPhone)
       if (!payoutPhone || payoutPhone.length < 10) { setPayoutFieldErrors({payoutPhone:"Enter a valid mobile money number"}); Alert.alert("Error", "Enter a valid mobile money number"); return }
     } else {
@@ -959,7 +1208,7 @@ const OrganiserDashboardScreen: React.FC = () => {
           continue
         }
         selectedTicketIds.push(...filteredIds)
-        const addedAmount = Math.round(count * (isTableType ? (data.price * tableSize) : (data.price || 0)) * 100) / 100
+        const addedAmount = Math.round(filteredIds.reduce((sum, id) => sum + (scannedTicketSplits[id]?.venueRevenue ?? data.price), 0) * 100) / 100
         totalAmount += addedAmount
         console.log(`[PayoutSubmit]    → Added ${filteredIds.length} ticket(s), amount: UGX ${addedAmount.toLocaleString()}`)
       } else {
@@ -980,7 +1229,20 @@ const OrganiserDashboardScreen: React.FC = () => {
     console.log("[PayoutSubmit] ✅ All checks passed, setting withdrawLoading = true")
     setWithdrawLoading(true)
     try {
-      if (payoutTab === "mobile_money") {
+      if (event?.revenueShares?.length) {
+        // ── Shared revenue: one payout per party, each confirmed and paid to their own details ──
+        const payouts = await RevenueShareService.requestPayouts(eventId || "", selectedTicketIds)
+        const mine = payouts.find((p) => p.organizer_id === user.id)
+        setPayoutHistory(prev => [{ date: new Date().toLocaleDateString(), amount: `UGX ${Number(mine?.amount || 0).toLocaleString()}`, status: "Pending" }, ...prev])
+        setEligiblePayoutTotal(prev => Math.max(0, prev - totalAmount))
+        Alert.alert("✅ Payout Split", `UGX ${totalAmount.toLocaleString()} was split into ${payouts.length} payouts. Each party confirms their own share under Profile → Revenue Shares.`)
+      } else if (isTeamMember) {
+        // ── Team member: held for admin review and paid to the owner's details ──
+        await TeamService.requestPayout(eventId || "", selectedTicketIds)
+        setPayoutHistory(prev => [{ date: new Date().toLocaleDateString(), amount: `UGX ${totalAmount.toLocaleString()}`, status: "Pending" }, ...prev])
+        setEligiblePayoutTotal(prev => Math.max(0, prev - totalAmount))
+        Alert.alert("✅ Payout Requested", `UGX ${totalAmount.toLocaleString()} will be paid to the event owner's saved payment details once an admin approves it.`)
+      } else if (payoutTab === "mobile_money") {
         // ── Mobile Money: existing PawaPay flow ──
         console.log("[PayoutSubmit] 📱 Starting Mobile Money payout flow...")
         const payoutResult = await PawaPayService.initiatePayout(totalAmount, "UGX", toInternationalPhone(payoutPhone), payoutProvider)
@@ -996,7 +1258,7 @@ const OrganiserDashboardScreen: React.FC = () => {
           try { await SupabaseService.updateTicket(tid, { payoutStatus: "paid", payoutDate: new Date(), payoutEligible: false }) } catch {}
         }
 
-        // Save payout record
+        // Save payout record and post it to the ledger
         try {
           const savedPayoutId = await SupabaseService.savePayout({
             organizer_id: user.id,
@@ -1008,13 +1270,15 @@ const OrganiserDashboardScreen: React.FC = () => {
             payout_method: "mobile_money",
             recipient_name: user.displayName || user.email || "",
             recipient_phone_number: toInternationalPhone(payoutPhone),
+            metadata: { breakdown: payoutBreakdownFor(selectedTicketIds) },
           })
-          if (savedPayoutId) SupabaseService.sendPayoutReceipt(savedPayoutId, user.email || "")
+          if (savedPayoutId) {
+            SupabaseService.sendPayoutReceipt(savedPayoutId, user.email || "")
+            LedgerService.recordPayout(savedPayoutId).catch((err) => console.error("Failed to post payout to ledger:", err))
+            TeamService.recordPayout(eventId || "", savedPayoutId).catch((err) => console.error("Failed to record payout in team log:", err))
+          }
         } catch (err) { console.error("Failed to save payout record:", err) }
 
-        // Update organizer wallet
-        await updateWalletAfterPayout(totalAmount)
-
         setPayoutHistory(prev => [{ date: new Date().toLocaleDateString(), amount: `UGX ${totalAmount.toLocaleString()}`, status: "Completed" }, ...prev])
         setEligiblePayoutTotal(prev => Math.max(0, prev - totalAmount))
         Alert.alert("✅ Payout Submitted!", `UGX ${totalAmount.toLocaleString()} sent to ${toInternationalPhone(payoutPhone)}\nPayout ID: ${payoutResult.payoutId}`)
@@ -1036,9 +1300,14 @@ const OrganiserDashboardScreen: React.FC = () => {
           payout_method: "bank_transfer",
           recipient_name: bankAccountName.trim(),
           recipient_phone_number: "",
-          metadata: { bank_name: bankName.trim(), account_number: bankAccountNumber.trim() },
+          metadata: {
+            bank_name: bankName.trim(),
+            account_number: bankAccountNumber.trim(),
+            breakdown: payoutBreakdownFor(selectedTicketIds),
+          },
         })
         console.log("[PayoutSubmit] ✅ Payout saved with ID:", payoutId)
+        if (payoutId) TeamService.recordPayout(eventId || "", payoutId).catch((err) => console.error("Failed to record payout in team log:", err))
 
         // Mark tickets as pending review
         console.log("[PayoutSubmit]    Marking", selectedTicketIds.length, "tickets as pending_review...")
@@ -1094,22 +1363,6 @@ const OrganiserDashboardScreen: React.FC = () => {
     }
   }
 
-  // Helper to update wallet after payout
-  const updateWalletAfterPayout = async (totalAmount: number) => {
-    try {
-      let wallet = await SupabaseService.getOrganizerWallet(user?.id || "")
-      if (!wallet) {
-        await SupabaseService.createOrUpdateOrganizerWallet(user?.id || "", { available_balance: 0, pending_balance: 0, total_earnings: 0, total_payouts: 0 })
-        wallet = await SupabaseService.getOrganizerWallet(user?.id || "")
-      }
-      await SupabaseService.createOrUpdateOrganizerWallet(user?.id || "", {
-        available_balance: (wallet?.available_balance || 0) - totalAmount,
-        total_payouts: (wallet?.total_payouts || 0) + totalAmount,
-        last_payout_date: new Date().toISOString(),
-      })
-    } catch (err) { console.error("Failed to update wallet:", err) }
-  }
-
   // Compute totals (account for table types where count = tables, price = per-person)
   const totalSelected = Object.entries(payoutSelections).reduce((sum, [type, count]) => {
     if (count <= 0) return sum
@@ -1124,15 +1377,19 @@ const OrganiserDashboardScreen: React.FC = () => {
     const data = payoutTicketTypes[type]
     const isTableType = data.isTable || false
     const tableSize = data.tableSize || 1
-    // For table types: slider count is in tables, price per ticket * tableSize = price per table
-    const effectivePrice = isTableType ? (data.price * tableSize) : (data.price || 0)
-    return sum + (count * Math.round(effectivePrice * 100) / 100)
+    // For table types: slider count is in tables, so take tableSize tickets per table
+    const targetMethod = payoutTab === "mobile_money" ? "mobile_money" : "credit_card"
+    const ids = data.scannedIds
+      .filter(id => (scannedPaymentMethods[id] || "mobile_money") === targetMethod)
+      .slice(0, isTableType ? count * tableSize : count)
+    return sum + Math.round(ids.reduce((s, id) => s + (scannedTicketSplits[id]?.venueRevenue ?? data.price), 0) * 100) / 100
   }, 0)
   // Ensure payout amount never exceeds eligible total
   const cappedPayoutAmount = Math.min(totalPayoutAmount, eligiblePayoutTotal)
 
   if (loading) return <View style={styles.loadingContainer}><Text style={styles.loadingText}>Loading...</Text></View>
   if (!event) return <View style={styles.loadingContainer}><Text style={styles.loadingText}>Event not found</Text></View>
+  if (access === null) return <View style={styles.loadingContainer}><Text style={styles.loadingText}>You are not on this event's team</Text></View>
 
   // ===========================================================================
   // Payout Slider Modal
@@ -1198,7 +1455,16 @@ const OrganiserDashboardScreen: React.FC = () => {
               })
             )}
 
-            {payoutTab === "mobile_money" && (
+            {isTeamMember && (
+              <View style={styles.phoneSection}>
+                <Text style={styles.phoneLabel}>👥 Team payout</Text>
+                <Text style={{ color: "#888", fontSize: 13 }}>
+                  As {TEAM_ROLE_LABELS[access.role as keyof typeof TEAM_ROLE_LABELS]} you can request payouts. They are paid to the event owner's saved payment details after admin review.
+                </Text>
+              </View>
+            )}
+
+            {payoutTab === "mobile_money" && !isTeamMember && (
               <>
               {/* Provider selection */}
               <View style={styles.phoneSection}>
@@ -1258,6 +1524,15 @@ const OrganiserDashboardScreen: React.FC = () => {
                 >
                   {otpLoading ? <ActivityIndicator color="#FFF" size="small" /> : <Text style={styles.sendOtpBtnText}>Send OTP</Text>}
                 </TouchableOpacity>
+                {hasPasskey && (
+                  <TouchableOpacity
+                    style={[styles.sendOtpBtn, (toInternationalPhone(payoutPhone) !== toInternationalPhone(payoutPhoneConfirm) || otpLoading || withdrawLoading || totalSelected === 0) && styles.sendOtpBtnDisabled]}
+                    onPress={handlePayoutWithPasskey}
+                    disabled={toInternationalPhone(payoutPhone) !== toInternationalPhone(payoutPhoneConfirm) || otpLoading || withdrawLoading || totalSelected === 0}
+                  >
+                    <Text style={styles.sendOtpBtnText}>Pay Out with Passkey</Text>
+                  </TouchableOpacity>
+                )}
                 {otpError ? <Text style={styles.otpErrorText}>{otpError}</Text> : null}
                 {otpSent && (
                   <>
@@ -1279,7 +1554,7 @@ const OrganiserDashboardScreen: React.FC = () => {
             </>
           )}
 
-          {payoutTab === "card" && (
+          {payoutTab === "card" && !isTeamMember && (
             <View style={styles.phoneSection}>
               <Text style={styles.phoneLabel}>🏦 Bank Details</Text>
               <TextInput
@@ -1331,9 +1606,9 @@ const OrganiserDashboardScreen: React.FC = () => {
               <Text style={styles.netAmount}>UGX {Math.max(0, totalPayoutAmount - calculatePayoutFee(totalPayoutAmount, payoutProvider)).toLocaleString()}</Text>
             </View>
             <TouchableOpacity
-              style={[styles.payoutActionBtn, (totalSelected === 0 || withdrawLoading || totalPayoutAmount > eligiblePayoutTotal || (payoutTab === "mobile_money" && !otpSent)) && styles.payoutActionBtnDisabled]}
-              onPress={payoutTab === "mobile_money" ? handlePayoutWithOtpCheck : handlePayoutSubmit}
-              disabled={totalSelected === 0 || withdrawLoading || totalPayoutAmount > eligiblePayoutTotal || (payoutTab === "mobile_money" && !otpSent)}
+              style={[styles.payoutActionBtn, (totalSelected === 0 || withdrawLoading || totalPayoutAmount > eligiblePayoutTotal || (payoutTab === "mobile_money" && !isTeamMember && !otpSent)) && styles.payoutActionBtnDisabled]}
+              onPress={payoutTab === "mobile_money" && !isTeamMember ? handlePayoutWithOtpCheck : handlePayoutSubmit}
+              disabled={totalSelected === 0 || withdrawLoading || totalPayoutAmount > eligiblePayoutTotal || (payoutTab === "mobile_money" && !isTeamMember && !otpSent)}
             >
               {withdrawLoading ? (
                 <ActivityIndicator color="#FFF" />
@@ -1354,13 +1629,19 @@ const OrganiserDashboardScreen: React.FC = () => {
     <>
       <View style={styles.dashboardSection}>
         <Text style={styles.dashboardSectionTitle}>🎫 Ticket Sales</Text>
-        <View style={styles.statsRow}>
-          <View style={styles.statCard}><Ionicons name="time" size={24} color={COLORS.primary} /><Text style={styles.statValue}>{ticketSalesEarly}</Text><Text style={styles.statLabel}>Early</Text></View>
-          <View style={styles.statCard}><Ionicons name="alarm" size={24} color="#FF6B6B" /><Text style={styles.statValue}>{ticketSalesLate}</Text><Text style={styles.statLabel}>Late</Text></View>
+        <View style={[styles.statsRow, { flexWrap: "wrap" }]}>
+          {Object.keys(phaseSales).length > 0 ? Object.entries(phaseSales).map(([phase, stats]) => (
+            <View key={phase} style={[styles.statCard, { minWidth: 120 }]}>
+              <Ionicons name={phase === "Late" ? "alarm" : "time"} size={24} color={phase === "Late" ? "#FF6B6B" : COLORS.primary} />
+              <Text style={styles.statValue}>{stats.count}</Text>
+              <Text style={styles.statLabel}>{phase}</Text>
+              <Text style={styles.statLabel}>UGX {stats.revenue.toLocaleString()}</Text>
+            </View>
+          )) : <Text style={styles.noDataText}>No sales yet</Text>}
         </View>
       </View>
 
-      {event && (
+      {event && can("event_status") && (
         <View style={styles.dashboardSection}>
           <TouchableOpacity onPress={() => setEventStatusExpanded(prev => !prev)} style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: eventStatusExpanded ? 8 : 0 }}>
             <Text style={styles.dashboardSectionTitle}>📋 Event Status</Text>
@@ -1397,7 +1678,7 @@ const OrganiserDashboardScreen: React.FC = () => {
         </View>
       )}
 
-      {event && (
+      {event && can("event_status") && (
         <View style={styles.dashboardSection}>
           <TouchableOpacity onPress={() => setLateFeeExpanded(prev => !prev)} style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: lateFeeExpanded ? 8 : 0 }}>
             <Text style={styles.dashboardSectionTitle}>⚡ Late Fee</Text>
@@ -1471,15 +1752,27 @@ const OrganiserDashboardScreen: React.FC = () => {
             }
             return (
             <View key={typeName} style={styles.salesTableRow}>
-              <Text style={[styles.salesTableCellText, { width: 90 }]} numberOfLines={1}>{typeName}</Text>
+              <View style={{ width: 90 }}>
+                <Text style={styles.salesTableCellText} numberOfLines={1}>{typeName}</Text>
+                {feeInfo?.pricePhases?.length ? (
+                  <Text style={styles.salesTableRevenueText} numberOfLines={2}>
+                    {Object.entries(s.phases || {}).map(([phase, count]) => `${phase} ${count}`).join(" · ") || "No phase sales"}
+                    {` · now ${resolvePricePhase(feeInfo, totalSold).phase?.name}`}
+                  </Text>
+                ) : null}
+              </View>
               <View style={{ width: 70, alignItems: "center" }}><Text style={styles.salesTableCountText}>{formatCount(s.early.count)}</Text><Text style={styles.salesTableRevenueText}>UGX {s.early.revenue.toLocaleString()}</Text></View>
               <View style={{ width: 70, alignItems: "center" }}><Text style={styles.salesTableCountText}>{formatCount(s.late.count)}</Text><Text style={styles.salesTableRevenueText}>UGX {s.late.revenue.toLocaleString()}</Text></View>
               <View style={{ width: 70, alignItems: "center" }}><Text style={styles.salesTableCountText}>{formatCount(s.scanned?.count || 0)}</Text><Text style={styles.salesTableRevenueText}>UGX {(s.scanned?.revenue || 0).toLocaleString()}</Text></View>
-              <View style={{ width: 70, alignItems: "center" }}><Text style={styles.salesTableCountText}>{maxTickets ?? '--'}</Text></View>
+              <TouchableOpacity style={{ width: 70, alignItems: "center" }} onPress={() => handleIncreaseCapacity(typeName)} disabled={!maxTickets}>
+                <Text style={styles.salesTableCountText}>{maxTickets ?? '--'}</Text>
+                {!!maxTickets && <Text style={styles.salesTableRevenueText}>raise cap</Text>}
+              </TouchableOpacity>
               <View style={{ width: 70, alignItems: "center" }}>
                 <Text style={[styles.salesTableCountText, { color: remainColor }]}>
                   {remaining !== null ? (remaining === 0 ? 'SOLD OUT' : remaining) : '--'}
                 </Text>
+                {!!waitlistCounts[typeName] && <Text style={styles.salesTableRevenueText}>{waitlistCounts[typeName]} waiting</Text>}
               </View>
             </View>
             )
@@ -1498,87 +1791,181 @@ const OrganiserDashboardScreen: React.FC = () => {
         </ScrollView>
       </View>
 
-      <View style={styles.dashboardSection}>
-        <Text style={styles.dashboardSectionTitle}>🔄 Grant Re-entry</Text>
-        <View style={styles.dashboardCard}>
-          <Text style={styles.dashboardLabel}>Search by ticket ref or attendee name</Text>
-          <View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
-            <TextInput
-              style={[styles.input, { flex: 1, marginBottom: 0 }]}
-              placeholder="e.g. YV-ABC123 or John"
-              placeholderTextColor="#555"
-              value={reentryQuery}
-              onChangeText={setReentryQuery}
-              onSubmitEditing={handleReentrySearch}
-              returnKeyType="search"
-            />
-            <TouchableOpacity
-              style={{ backgroundColor: COLORS.primary, paddingHorizontal: 16, borderRadius: 8, justifyContent: "center" }}
-              onPress={handleReentrySearch}
-              disabled={reentrySearching}
-            >
-              {reentrySearching
-                ? <ActivityIndicator color="#000" size="small" />
-                : <Ionicons name="search" size={20} color="#000" />}
+      {can("promotions") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>🏷️ Promo Codes</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={[styles.salesTable, { minWidth: 520 }]}>
+            <View style={styles.salesTableHeader}>
+              <Text style={[styles.salesTableHeaderText, { width: 100 }]}>Code</Text>
+              <Text style={[styles.salesTableHeaderText, { width: 80, textAlign: "center" }]}>Discount</Text>
+              <Text style={[styles.salesTableHeaderText, { width: 60, textAlign: "center" }]}>Uses</Text>
+              <Text style={[styles.salesTableHeaderText, { width: 60, textAlign: "center" }]}>Tickets</Text>
+              <Text style={[styles.salesTableHeaderText, { width: 90, textAlign: "center" }]}>Given</Text>
+              <Text style={[styles.salesTableHeaderText, { width: 90, textAlign: "center" }]}>Revenue</Text>
+            </View>
+            {promoReport.length > 0 ? promoReport.map((r) => {
+              const promo = findPromoCode(promoCodes, r.code)
+              return (
+              <View key={r.code} style={styles.salesTableRow}>
+                <TouchableOpacity style={{ width: 100 }} onPress={() => handleTogglePromo(r.code)} disabled={!promo}>
+                  <Text style={[styles.salesTableCellText, !promo?.active && { color: "#666" }]} numberOfLines={1}>{r.code}</Text>
+                  {!!promo && <Text style={styles.salesTableRevenueText}>{promo.active ? "tap to pause" : "paused"}</Text>}
+                </TouchableOpacity>
+                <View style={{ width: 80, alignItems: "center" }}>
+                  <Text style={styles.salesTableCountText}>{promo ? (promo.type === "percentage" ? `${promo.value}%` : `UGX ${promo.value.toLocaleString()}`) : "--"}</Text>
+                  {!!promo?.minGroupSize && <Text style={styles.salesTableRevenueText}>{promo.minGroupSize}+ tickets</Text>}
+                </View>
+                <View style={{ width: 60, alignItems: "center" }}><Text style={styles.salesTableCountText}>{r.redemptions}{promo?.maxUses ? `/${promo.maxUses}` : ""}</Text></View>
+                <View style={{ width: 60, alignItems: "center" }}><Text style={styles.salesTableCountText}>{r.ticketsSold}</Text></View>
+                <View style={{ width: 90, alignItems: "center" }}><Text style={styles.salesTableRevenueText}>UGX {r.discountGiven.toLocaleString()}</Text></View>
+                <View style={{ width: 90, alignItems: "center" }}><Text style={styles.salesTableRevenueText}>UGX {r.revenue.toLocaleString()}</Text></View>
+              </View>
+              )
+            }) : <Text style={styles.noDataText}>No promo codes yet</Text>}
+          </View>
+          </ScrollView>
+
+          <View style={[styles.dashboardCard, { marginTop: 12 }]}>
+            <Text style={styles.dashboardLabel}>New promo code</Text>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              <TextInput style={[styles.input, { flex: 1 }]} placeholder="Code e.g. EARLYBIRD" placeholderTextColor="#555" autoCapitalize="characters"
+                value={promoForm.code} onChangeText={(code) => setPromoForm((f) => ({ ...f, code }))} />
+              <TextInput style={[styles.input, { width: 110 }]} placeholder={promoForm.type === "percentage" ? "% off" : "UGX off"} placeholderTextColor="#555" keyboardType="numeric"
+                value={promoForm.value} onChangeText={(value) => setPromoForm((f) => ({ ...f, value }))} />
+            </View>
+            <View style={[styles.gateFeeChips, { marginBottom: 12 }]}>
+              {(["percentage", "fixed"] as const).map((type) => (
+                <TouchableOpacity key={type} style={[styles.gateFeeChip, promoForm.type === type && styles.gateFeeChipActive]} onPress={() => setPromoForm((f) => ({ ...f, type }))}>
+                  <Text style={[styles.gateFeeChipText, promoForm.type === type && styles.gateFeeChipTextActive]}>{type === "percentage" ? "Percentage" : "Fixed amount"}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              <TextInput style={[styles.input, { flex: 1 }]} placeholder="Max uses" placeholderTextColor="#555" keyboardType="numeric"
+                value={promoForm.maxUses} onChangeText={(maxUses) => setPromoForm((f) => ({ ...f, maxUses }))} />
+              <TextInput style={[styles.input, { flex: 1 }]} placeholder="Ends (YYYY-MM-DD)" placeholderTextColor="#555"
+                value={promoForm.validUntil} onChangeText={(validUntil) => setPromoForm((f) => ({ ...f, validUntil }))} />
+              <TextInput style={[styles.input, { flex: 1 }]} placeholder="Min group size" placeholderTextColor="#555" keyboardType="numeric"
+                value={promoForm.minGroupSize} onChangeText={(minGroupSize) => setPromoForm((f) => ({ ...f, minGroupSize }))} />
+            </View>
+            <Text style={styles.dashboardLabel}>Ticket types (none selected = all)</Text>
+            <View style={[styles.gateFeeChips, { marginBottom: 12 }]}>
+              {(event.entryFees || []).map((fee) => {
+                const selected = promoForm.entryFees.includes(fee.name)
+                return (
+                  <TouchableOpacity key={fee.name} style={[styles.gateFeeChip, selected && styles.gateFeeChipActive]}
+                    onPress={() => setPromoForm((f) => ({ ...f, entryFees: selected ? f.entryFees.filter((n) => n !== fee.name) : [...f.entryFees, fee.name] }))}>
+                    <Text style={[styles.gateFeeChipText, selected && styles.gateFeeChipTextActive]}>{fee.name}</Text>
+                  </TouchableOpacity>
+                )
+              })}
+            </View>
+            {!!promoForm.minGroupSize && (
+              <TouchableOpacity style={{ flexDirection: "row", alignItems: "center", gap: 8, marginBottom: 12 }} onPress={() => setPromoForm((f) => ({ ...f, autoApply: !f.autoApply }))}>
+                <Ionicons name={promoForm.autoApply ? "checkbox" : "square-outline"} size={18} color="#00D4FF" />
+                <Text style={styles.dashboardLabel}>Apply automatically to qualifying groups</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={{ backgroundColor: "#00D4FF", borderRadius: 8, padding: 12, alignItems: "center" }} onPress={handleCreatePromo} disabled={savingPromo}>
+              {savingPromo ? <ActivityIndicator color="#000" /> : <Text style={{ color: "#000", fontWeight: "700" }}>Add Promo Code</Text>}
             </TouchableOpacity>
           </View>
+        </View>
+      )}
 
-          {reentryTicket && (
-            <View style={{ backgroundColor: "#111", borderRadius: 10, padding: 14, marginBottom: 12, borderWidth: 1, borderColor: reentryTicket.reentryPass && !reentryTicket.reentryPass.used ? "#F59E0B" : "#333" }}>
-              <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 6 }}>
-                <Text style={{ color: "#888", fontSize: 13 }}>Attendee</Text>
-                <Text style={{ color: "#FFF", fontSize: 13, fontWeight: "700" }}>{reentryTicket.buyerName}</Text>
-              </View>
-              <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 6 }}>
-                <Text style={{ color: "#888", fontSize: 13 }}>Ticket type</Text>
-                <Text style={{ color: "#FFF", fontSize: 13 }}>{reentryTicket.entryFeeType}</Text>
-              </View>
-              <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 12 }}>
-                <Text style={{ color: "#888", fontSize: 13 }}>Status</Text>
-                <Text style={{
-                  fontSize: 13, fontWeight: "700",
-                  color: reentryTicket.status === "used" ? "#F59E0B" : reentryTicket.status === "active" ? "#4CAF50" : "#FF6B6B"
-                }}>
-                  {reentryTicket.status.toUpperCase()}
-                </Text>
-              </View>
+      {can("payouts") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>🤝 Revenue Sharing</Text>
+          <View style={styles.dashboardCard}>
+            <RevenueSharePanel event={event} onSaved={(revenueShares) => setEvent((prev) => (prev ? { ...prev, revenueShares } : prev))} />
+          </View>
+        </View>
+      )}
 
-              {reentryTicket.reentryPass && !reentryTicket.reentryPass.used ? (
-                <View style={{ backgroundColor: "rgba(245,158,11,0.1)", borderRadius: 8, padding: 10, borderWidth: 1, borderColor: "rgba(245,158,11,0.3)" }}>
-                  <Text style={{ color: "#F59E0B", fontSize: 13, textAlign: "center" }}>
-                    ✓ Re-entry pass active — attendee can scan back in
-                  </Text>
+      {can("reentry") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>🔄 Grant Re-entry</Text>
+          <View style={styles.dashboardCard}>
+            <Text style={styles.dashboardLabel}>Search by ticket ref or attendee name</Text>
+            <View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+              <TextInput
+                style={[styles.input, { flex: 1, marginBottom: 0 }]}
+                placeholder="e.g. YV-ABC123 or John"
+                placeholderTextColor="#555"
+                value={reentryQuery}
+                onChangeText={setReentryQuery}
+                onSubmitEditing={handleReentrySearch}
+                returnKeyType="search"
+              />
+              <TouchableOpacity
+                style={{ backgroundColor: COLORS.primary, paddingHorizontal: 16, borderRadius: 8, justifyContent: "center" }}
+                onPress={handleReentrySearch}
+                disabled={reentrySearching}
+              >
+                {reentrySearching
+                  ? <ActivityIndicator color="#000" size="small" />
+                  : <Ionicons name="search" size={20} color="#000" />}
+              </TouchableOpacity>
+            </View>
+
+            {reentryTicket && (
+              <View style={{ backgroundColor: "#111", borderRadius: 10, padding: 14, marginBottom: 12, borderWidth: 1, borderColor: reentryTicket.reentryPass && !reentryTicket.reentryPass.used ? "#F59E0B" : "#333" }}>
+                <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 6 }}>
+                  <Text style={{ color: "#888", fontSize: 13 }}>Attendee</Text>
+                  <Text style={{ color: "#FFF", fontSize: 13, fontWeight: "700" }}>{reentryTicket.buyerName}</Text>
+                </View>
+                <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 6 }}>
+                  <Text style={{ color: "#888", fontSize: 13 }}>Ticket type</Text>
+                  <Text style={{ color: "#FFF", fontSize: 13 }}>{reentryTicket.entryFeeType}</Text>
                 </View>
-              ) : reentryTicket.status !== "used" ? (
-                <View style={{ backgroundColor: "rgba(255,107,107,0.1)", borderRadius: 8, padding: 10 }}>
-                  <Text style={{ color: "#FF6B6B", fontSize: 13, textAlign: "center" }}>
-                    Ticket must be scanned (used) before granting re-entry
+                <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 12 }}>
+                  <Text style={{ color: "#888", fontSize: 13 }}>Status</Text>
+                  <Text style={{
+                    fontSize: 13, fontWeight: "700",
+                    color: reentryTicket.status === "used" ? "#F59E0B" : reentryTicket.status === "active" ? "#4CAF50" : "#FF6B6B"
+                  }}>
+                    {reentryTicket.status.toUpperCase()}
                   </Text>
                 </View>
-              ) : (
-                <TouchableOpacity
-                  style={{ backgroundColor: "#F59E0B", paddingVertical: 12, borderRadius: 8, alignItems: "center", flexDirection: "row", justifyContent: "center", gap: 8 }}
-                  onPress={handleGrantReentry}
-                  disabled={reentryGranting}
-                >
-                  {reentryGranting
-                    ? <ActivityIndicator color="#000" size="small" />
-                    : <Ionicons name="refresh-circle" size={20} color="#000" />}
-                  <Text style={{ color: "#000", fontWeight: "bold", fontSize: 15 }}>Grant Re-entry Pass</Text>
-                </TouchableOpacity>
-              )}
-            </View>
-          )}
 
-          {reentryMessage && (
-            <View style={{ backgroundColor: reentryMessage.ok ? "rgba(76,175,80,0.1)" : "rgba(255,107,107,0.1)", borderRadius: 8, padding: 12, borderWidth: 1, borderColor: reentryMessage.ok ? "rgba(76,175,80,0.3)" : "rgba(255,107,107,0.3)" }}>
-              <Text style={{ color: reentryMessage.ok ? "#4CAF50" : "#FF6B6B", fontSize: 13, textAlign: "center" }}>
-                {reentryMessage.text}
-              </Text>
-            </View>
-          )}
+                {reentryTicket.reentryPass && !reentryTicket.reentryPass.used ? (
+                  <View style={{ backgroundColor: "rgba(245,158,11,0.1)", borderRadius: 8, padding: 10, borderWidth: 1, borderColor: "rgba(245,158,11,0.3)" }}>
+                    <Text style={{ color: "#F59E0B", fontSize: 13, textAlign: "center" }}>
+                      ✓ Re-entry pass active — attendee can scan back in
+                    </Text>
+                  </View>
+                ) : reentryTicket.status !== "used" ? (
+                  <View style={{ backgroundColor: "rgba(255,107,107,0.1)", borderRadius: 8, padding: 10 }}>
+                    <Text style={{ color: "#FF6B6B", fontSize: 13, textAlign: "center" }}>
+                      Ticket must be scanned (used) before granting re-entry
+                    </Text>
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={{ backgroundColor: "#F59E0B", paddingVertical: 12, borderRadius: 8, alignItems: "center", flexDirection: "row", justifyContent: "center", gap: 8 }}
+                    onPress={handleGrantReentry}
+                    disabled={reentryGranting}
+                  >
+                    {reentryGranting
+                      ? <ActivityIndicator color="#000" size="small" />
+                      : <Ionicons name="refresh-circle" size={20} color="#000" />}
+                    <Text style={{ color: "#000", fontWeight: "bold", fontSize: 15 }}>Grant Re-entry Pass</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {reentryMessage && (
+              <View style={{ backgroundColor: reentryMessage.ok ? "rgba(76,175,80,0.1)" : "rgba(255,107,107,0.1)", borderRadius: 8, padding: 12, borderWidth: 1, borderColor: reentryMessage.ok ? "rgba(76,175,80,0.3)" : "rgba(255,107,107,0.3)" }}>
+                <Text style={{ color: reentryMessage.ok ? "#4CAF50" : "#FF6B6B", fontSize: 13, textAlign: "center" }}>
+                  {reentryMessage.text}
+                </Text>
+              </View>
+            )}
+          </View>
         </View>
-      </View>
+      )}
 
       <View style={styles.dashboardSection}>
         <Text style={styles.dashboardSectionTitle}>🔍 Scan Logs</Text>
@@ -1602,125 +1989,258 @@ const OrganiserDashboardScreen: React.FC = () => {
         </View>
       </View>
 
-      <View style={styles.dashboardSection}>
-        <Text style={styles.dashboardSectionTitle}>📜 Payout History</Text>
-        <View style={styles.dashboardCard}>
-          {payoutHistory.length > 0 ? payoutHistory.map((p, i) => (
-            <View key={i} style={styles.payoutItem}>
-              <Text style={styles.payoutDate}>{p.date}</Text>
-              <Text style={styles.payoutAmount}>{p.amount}</Text>
-              <Text style={[styles.payoutStatus, p.status === 'Completed' ? styles.payoutCompleted : styles.payoutPending]}>{p.status}</Text>
-            </View>
-          )) : <Text style={styles.noDataText}>No payouts yet</Text>}
+      {gateStats.length > 0 && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>🚪 Gate Throughput</Text>
+          <View style={styles.dashboardCard}>
+            {gateStats.map((g) => {
+              const peak = Math.max(1, ...g.perMinute)
+              return (
+                <View key={g.gate} style={styles.gateRow}>
+                  <View style={styles.gateHeader}>
+                    <Text style={styles.gateName}>{g.gate}</Text>
+                    <Text style={styles.gateRate}>{g.ratePerMinute.toFixed(1)}/min</Text>
+                  </View>
+                  {g.allowedEntryFees?.length ? <Text style={styles.gateMeta}>{g.allowedEntryFees.join(", ")} only</Text> : null}
+                  <View style={styles.gateBars}>
+                    {g.perMinute.map((n, i) => <View key={i} style={[styles.gateBar, { height: `${(n / peak) * 100}%` as any }]} />)}
+                  </View>
+                  <Text style={styles.gateMeta}>
+                    {g.granted} admitted · {g.denied} denied · {g.waiting} still to arrive
+                    {g.estimatedMinutesToClear != null ? ` · ~${g.estimatedMinutesToClear} min to clear` : ""}
+                  </Text>
+                  {g.lastScans.map((scan, i) => (
+                    <Text key={i} style={[styles.scanLogDetail, scan.status === "denied" && { color: "#FF6B6B" }]}>
+                      {new Date(scan.validatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} · {scan.ticketRef || "—"}{scan.buyerName ? ` · ${scan.buyerName}` : ""}{scan.status === "denied" && scan.reason ? ` · ${scan.reason}` : ""}
+                    </Text>
+                  ))}
+                </View>
+              )
+            })}
+          </View>
         </View>
-      </View>
+      )}
+
+      {scanConflicts.length > 0 && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>⚠️ Offline Scan Conflicts</Text>
+          <View style={styles.dashboardCard}>
+            {scanConflicts.map((c) => (
+              <View key={c.id} style={styles.scanLogItem}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.scanLogTicketRef}>{c.ticketRef || c.ticketId.substring(0, 8)}</Text>
+                  <Text style={styles.scanLogDetail}>
+                    {c.resolution === "earliest_scan_wins"
+                      ? `Scanned on two devices — kept ${c.winningDeviceId || "online scan"} at ${c.winningScannedAt ? new Date(c.winningScannedAt).toLocaleTimeString() : "—"}`
+                      : c.detail || "Admitted offline but ticket was no longer valid"}
+                  </Text>
+                  {c.losingDeviceId ? <Text style={styles.scanLogName}>Rejected scan: {c.losingDeviceId} at {c.losingScannedAt ? new Date(c.losingScannedAt).toLocaleTimeString() : "—"}</Text> : null}
+                </View>
+                <Text style={styles.scanLogTime}>{c.createdAt.toLocaleTimeString()}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {can("payouts") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>📜 Payout History</Text>
+          <View style={styles.dashboardCard}>
+            {payoutHistory.length > 0 ? payoutHistory.map((p, i) => (
+              <View key={i} style={styles.payoutItem}>
+                <Text style={styles.payoutDate}>{p.date}</Text>
+                <Text style={styles.payoutAmount}>{p.amount}</Text>
+                <Text style={[styles.payoutStatus, p.status === 'Completed' ? styles.payoutCompleted : styles.payoutPending]}>{p.status}</Text>
+              </View>
+            )) : <Text style={styles.noDataText}>No payouts yet</Text>}
+          </View>
+        </View>
+      )}
+
+      {can("refunds") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>↩️ Refund Review</Text>
+          <View style={styles.dashboardCard}>
+            {refundsLoading ? (
+              <ActivityIndicator size="small" color="#F59E0B" />
+            ) : eventRefunds.length === 0 ? (
+              <Text style={styles.noDataText}>No refund requests for this event</Text>
+            ) : (
+              eventRefunds.slice(0, 10).map((ref, i) => (
+                <View key={ref.id} style={{ paddingVertical: 10, borderBottomWidth: i < Math.min(eventRefunds.length, 10) - 1 ? 1 : 0, borderBottomColor: "#2a2a2a" }}>
+                  <View style={{ flexDirection: "row", justifyContent: "space-between", marginBottom: 4 }}>
+                    <Text style={{ color: "#FFF", fontSize: 12, fontFamily: "monospace" }}>{ref.request_reference}</Text>
+                    <Text style={{ color: ref.status === "pending_admin_review" ? "#F59E0B" : "#888", fontSize: 11, fontWeight: "700" }}>{ref.status?.replace(/_/g, " ")}</Text>
+                  </View>
+                  <Text style={{ color: "#888", fontSize: 11 }}>{ref.reason_code?.replace(/_/g, " ")} · UGX {Number(ref.requested_amount).toLocaleString()} · {ref.buyer_email}</Text>
+                  {ref.status === "pending_admin_review" && (
+                    <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+                      <TouchableOpacity
+                        style={{ backgroundColor: "#10B981", borderRadius: 8, paddingVertical: 6, paddingHorizontal: 14, opacity: refundActionId === ref.id ? 0.5 : 1 }}
+                        onPress={() => handleRefundDecision(ref.id, true)}
+                        disabled={refundActionId === ref.id}
+                      >
+                        <Text style={{ color: "#FFF", fontSize: 12, fontWeight: "700" }}>Approve</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={{ backgroundColor: "#EF4444", borderRadius: 8, paddingVertical: 6, paddingHorizontal: 14, opacity: refundActionId === ref.id ? 0.5 : 1 }}
+                        onPress={() => handleRefundDecision(ref.id, false)}
+                        disabled={refundActionId === ref.id}
+                      >
+                        <Text style={{ color: "#FFF", fontSize: 12, fontWeight: "700" }}>Reject</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))
+            )}
+            <Text style={{ color: "#666", fontSize: 11, marginTop: 8 }}>Approved refunds are sent back to buyers by YoVibe admins.</Text>
+          </View>
+        </View>
+      )}
+
+      {can("manage_team") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>👥 Team Activity</Text>
+          <View style={styles.dashboardCard}>
+            {teamAudit.length > 0 ? teamAudit.map((entry) => (
+              <View key={entry.id} style={{ paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: "#2a2a2a" }}>
+                <Text style={{ color: "#FFF", fontSize: 13 }}>{TEAM_ACTION_LABELS[entry.action] || entry.action}</Text>
+                <Text style={{ color: "#888", fontSize: 11 }}>
+                  {entry.actorEmail || entry.actorId} · {TEAM_ROLE_LABELS[entry.actorRole as keyof typeof TEAM_ROLE_LABELS] || entry.actorRole} · {new Date(entry.createdAt).toLocaleString()}
+                </Text>
+              </View>
+            )) : <Text style={styles.noDataText}>No team activity yet</Text>}
+          </View>
+        </View>
+      )}
     </>
   )
 
   const renderOrganizerRightColumn = () => (
     <>
-      <View style={[styles.dashboardSection, { marginTop: 0 }]}>
-        <Text style={styles.dashboardSectionTitle}>💸 Withdraw</Text>
-        <View style={styles.eligibleCard}>
-          <View style={styles.eligibleRow}>
-            <Ionicons name="wallet-outline" size={24} color="#4CAF50" />
-            <View>
-              <Text style={styles.eligibleLabel}>Eligible for Payout</Text>
-              <Text style={styles.eligibleAmount}>UGX {eligiblePayoutTotal.toLocaleString()}</Text>
+      {can("payouts") && (
+        <View style={[styles.dashboardSection, { marginTop: 0 }]}>
+          <Text style={styles.dashboardSectionTitle}>💸 Withdraw</Text>
+          <View style={styles.eligibleCard}>
+            <View style={styles.eligibleRow}>
+              <Ionicons name="wallet-outline" size={24} color="#4CAF50" />
+              <View>
+                <Text style={styles.eligibleLabel}>Eligible for Payout</Text>
+                <Text style={styles.eligibleAmount}>UGX {eligiblePayoutTotal.toLocaleString()}</Text>
+              </View>
             </View>
+            <Text style={styles.eligibleDesc}>Select tickets by type to cash out</Text>
+            <TouchableOpacity style={[styles.withdrawBtn, eligiblePayoutTotal === 0 && { opacity: 0.4 }]} onPress={() => setShowWithdrawModal(true)} disabled={eligiblePayoutTotal === 0}>
+              <Ionicons name="cash-outline" size={20} color="#FFF" />
+              <Text style={styles.withdrawBtnText}>Withdraw Earnings</Text>
+            </TouchableOpacity>
+            {!isTeamMember && (
+              <TouchableOpacity style={styles.autoPayoutBtn} onPress={() => setShowAutoPayoutModal(true)}>
+                <Ionicons name="repeat-outline" size={18} color="#2196F3" />
+                <Text style={styles.autoPayoutBtnText}>Automatic Payouts</Text>
+              </TouchableOpacity>
+            )}
           </View>
-          <Text style={styles.eligibleDesc}>Select tickets by type to cash out</Text>
-          <TouchableOpacity style={[styles.withdrawBtn, eligiblePayoutTotal === 0 && { opacity: 0.4 }]} onPress={() => setShowWithdrawModal(true)} disabled={eligiblePayoutTotal === 0}>
-            <Ionicons name="cash-outline" size={20} color="#FFF" />
-            <Text style={styles.withdrawBtnText}>Withdraw Earnings</Text>
-          </TouchableOpacity>
         </View>
-      </View>
-
-      <View style={styles.dashboardSection}>
-        <Text style={styles.dashboardSectionTitle}>📷 Ticket Scanner</Text>
-        <TouchableOpacity style={styles.scannerButton} onPress={handleScanTicket} disabled={scanning || validating}>
-          <Ionicons name="qr-code-outline" size={48} color={COLORS.primary} />
-          <Text style={styles.scannerButtonTitle}>Scan Tickets</Text>
-          <Text style={styles.scannerButtonText}>Tap to scan and validate tickets at event entrances</Text>
-          <View style={styles.scannerButtonArrow}>
-            <Ionicons name="chevron-forward" size={24} color={COLORS.primary} />
-          </View>
-        </TouchableOpacity>
-      </View>
+      )}
 
-      <View style={styles.dashboardSection}>
-        <View style={styles.dashboardRow}>
-          <Text style={styles.dashboardSectionTitle}>🔐 Staff Scanner Links</Text>
-          <TouchableOpacity onPress={() => setShowTokenModal(true)}>
-            <Ionicons name="add-circle-outline" size={28} color={COLORS.primary} />
+      {can("door") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>📷 Ticket Scanner</Text>
+          <TouchableOpacity style={styles.scannerButton} onPress={handleScanTicket} disabled={scanning || validating}>
+            <Ionicons name="qr-code-outline" size={48} color={COLORS.primary} />
+            <Text style={styles.scannerButtonTitle}>Scan Tickets</Text>
+            <Text style={styles.scannerButtonText}>Tap to scan and validate tickets at event entrances</Text>
+            <View style={styles.scannerButtonArrow}>
+              <Ionicons name="chevron-forward" size={24} color={COLORS.primary} />
+            </View>
           </TouchableOpacity>
         </View>
-        <View style={styles.dashboardCard}>
-          {activeTokens.length > 0 ? (
-            activeTokens.map((token) => (
-              <View key={token.id} style={styles.tokenItem}>
-                <View style={{ flex: 1 }}>
-                  <Text style={styles.tokenLabel}>{token.label || "Staff"}</Text>
-                  <Text style={styles.tokenExpiry}>Expires: {formatTimeRemaining(token.expires_at)}</Text>
+      )}
+
+      {can("staff_tokens") && (
+        <View style={styles.dashboardSection}>
+          <View style={styles.dashboardRow}>
+            <Text style={styles.dashboardSectionTitle}>🔐 Staff Scanner Links</Text>
+            <TouchableOpacity onPress={() => setShowTokenModal(true)}>
+              <Ionicons name="add-circle-outline" size={28} color={COLORS.primary} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.dashboardCard}>
+            {activeTokens.length > 0 ? (
+              activeTokens.map((token) => (
+                <View key={token.id} style={styles.tokenItem}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.tokenLabel}>{token.label || "Staff"}</Text>
+                    {token.gate_name ? (
+                      <Text style={styles.tokenGate}>
+                        🚪 {token.gate_name}{token.allowed_entry_fees?.length ? ` · ${token.allowed_entry_fees.join(", ")}` : " · all tickets"}
+                      </Text>
+                    ) : null}
+                    <Text style={styles.tokenExpiry}>Expires: {formatTimeRemaining(token.expires_at)}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => copyToClipboard(`https://yovibe.net/scan/${token.token}`)}>
+                    <Ionicons name="link-outline" size={20} color={COLORS.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleRevokeToken(token.id)}>
+                    <Ionicons name="close-circle" size={20} color="#FF6B6B" />
+                  </TouchableOpacity>
                 </View>
-                <TouchableOpacity onPress={() => copyToClipboard(`https://yovibe.net/scan/${token.token}`)}>
-                  <Ionicons name="link-outline" size={20} color={COLORS.primary} />
-                </TouchableOpacity>
-                <TouchableOpacity onPress={() => handleRevokeToken(token.id)}>
-                  <Ionicons name="close-circle" size={20} color="#FF6B6B" />
-                </TouchableOpacity>
-              </View>
-            ))
-          ) : (
-            <Text style={styles.noDataText}>No staff links generated yet</Text>
-          )}
+              ))
+            ) : (
+              <Text style={styles.noDataText}>No staff links generated yet</Text>
+            )}
+          </View>
         </View>
-      </View>
+      )}
 
-      <View style={styles.dashboardSection}>
-        <Text style={styles.dashboardSectionTitle}>⚙️ Payment Details</Text>
-        <View style={styles.dashboardCard}>
-          {isEditingPayment ? (
-            <View>
-              <Text style={styles.dashboardLabel}>Mobile Money</Text>
-              <View style={styles.inputContainer}>
-                <TouchableOpacity style={[styles.providerButton, editForm.mobileProvider === 'mtn' && styles.providerButtonActive]} onPress={() => setEditForm({ ...editForm, mobileProvider: 'mtn' })}><Text style={styles.providerButtonText}>MTN</Text></TouchableOpacity>
-                <TouchableOpacity style={[styles.providerButton, editForm.mobileProvider === 'airtel' && styles.providerButtonActive]} onPress={() => setEditForm({ ...editForm, mobileProvider: 'airtel' })}><Text style={styles.providerButtonText}>Airtel</Text></TouchableOpacity>
+      {can("manage_team") && (
+        <View style={styles.dashboardSection}>
+          <Text style={styles.dashboardSectionTitle}>⚙️ Payment Details</Text>
+          <View style={styles.dashboardCard}>
+            {isEditingPayment ? (
+              <View>
+                <Text style={styles.dashboardLabel}>Mobile Money</Text>
+                <View style={styles.inputContainer}>
+                  <TouchableOpacity style={[styles.providerButton, editForm.mobileProvider === 'mtn' && styles.providerButtonActive]} onPress={() => setEditForm({ ...editForm, mobileProvider: 'mtn' })}><Text style={styles.providerButtonText}>MTN</Text></TouchableOpacity>
+                  <TouchableOpacity style={[styles.providerButton, editForm.mobileProvider === 'airtel' && styles.providerButtonActive]} onPress={() => setEditForm({ ...editForm, mobileProvider: 'airtel' })}><Text style={styles.providerButtonText}>Airtel</Text></TouchableOpacity>
+                </View>
+                <TextInput style={[styles.input, paymentFormErrors.mobileNumber && styles.inputError]} placeholder="Phone Number" value={editForm.mobileNumber} onChangeText={(t) => { setEditForm({ ...editForm, mobileNumber: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.mobileNumber; return n }) }} placeholderTextColor="#888" keyboardType="phone-pad" />
+                {paymentFormErrors.mobileNumber && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.mobileNumber}</Text>}
+                <TextInput style={[styles.input, paymentFormErrors.mobileName && styles.inputError]} placeholder="Account Name" value={editForm.mobileName} onChangeText={(t) => { setEditForm({ ...editForm, mobileName: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.mobileName; return n }) }} placeholderTextColor="#888" />
+                {paymentFormErrors.mobileName && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.mobileName}</Text>}
+                <Text style={[styles.dashboardLabel, { marginTop: 16 }]}>Bank Account</Text>
+                <TextInput style={[styles.input, paymentFormErrors.bankName && styles.inputError]} placeholder="Bank Name" value={editForm.bankName} onChangeText={(t) => { setEditForm({ ...editForm, bankName: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankName; return n }) }} placeholderTextColor="#888" />
+                {paymentFormErrors.bankName && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankName}</Text>}
+                <TextInput style={[styles.input, paymentFormErrors.bankNumber && styles.inputError]} placeholder="Account Number" value={editForm.bankNumber} onChangeText={(t) => { setEditForm({ ...editForm, bankNumber: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankNumber; return n }) }} placeholderTextColor="#888" keyboardType="numeric" />
+                {paymentFormErrors.bankNumber && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankNumber}</Text>}
+                <TextInput style={[styles.input, paymentFormErrors.bankNameAccount && styles.inputError]} placeholder="Account Name" value={editForm.bankNameAccount} onChangeText={(t) => { setEditForm({ ...editForm, bankNameAccount: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankNameAccount; return n }) }} placeholderTextColor="#888" />
+                {paymentFormErrors.bankNameAccount && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankNameAccount}</Text>}
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity style={[styles.actionButtonSmall, { backgroundColor: '#666' }]} onPress={() => setIsEditingPayment(false)}><Text style={styles.actionButtonSmallText}>Cancel</Text></TouchableOpacity>
+                  <TouchableOpacity style={[styles.actionButtonSmall, { backgroundColor: COLORS.primary }]} onPress={handleSavePaymentDetails}><Text style={styles.actionButtonSmallText}>Save</Text></TouchableOpacity>
+                </View>
               </View>
-              <TextInput style={[styles.input, paymentFormErrors.mobileNumber && styles.inputError]} placeholder="Phone Number" value={editForm.mobileNumber} onChangeText={(t) => { setEditForm({ ...editForm, mobileNumber: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.mobileNumber; return n }) }} placeholderTextColor="#888" keyboardType="phone-pad" />
-              {paymentFormErrors.mobileNumber && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.mobileNumber}</Text>}
-              <TextInput style={[styles.input, paymentFormErrors.mobileName && styles.inputError]} placeholder="Account Name" value={editForm.mobileName} onChangeText={(t) => { setEditForm({ ...editForm, mobileName: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.mobileName; return n }) }} placeholderTextColor="#888" />
-              {paymentFormErrors.mobileName && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.mobileName}</Text>}
-              <Text style={[styles.dashboardLabel, { marginTop: 16 }]}>Bank Account</Text>
-              <TextInput style={[styles.input, paymentFormErrors.bankName && styles.inputError]} placeholder="Bank Name" value={editForm.bankName} onChangeText={(t) => { setEditForm({ ...editForm, bankName: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankName; return n }) }} placeholderTextColor="#888" />
-              {paymentFormErrors.bankName && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankName}</Text>}
-              <TextInput style={[styles.input, paymentFormErrors.bankNumber && styles.inputError]} placeholder="Account Number" value={editForm.bankNumber} onChangeText={(t) => { setEditForm({ ...editForm, bankNumber: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankNumber; return n }) }} placeholderTextColor="#888" keyboardType="numeric" />
-              {paymentFormErrors.bankNumber && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankNumber}</Text>}
-              <TextInput style={[styles.input, paymentFormErrors.bankNameAccount && styles.inputError]} placeholder="Account Name" value={editForm.bankNameAccount} onChangeText={(t) => { setEditForm({ ...editForm, bankNameAccount: t }); setPaymentFormErrors(prev => { const n = {...prev}; delete n.bankNameAccount; return n }) }} placeholderTextColor="#888" />
-              {paymentFormErrors.bankNameAccount && <Text style={{ color: "#FF4444", fontSize: 12, marginBottom: 4 }}>{paymentFormErrors.bankNameAccount}</Text>}
-              <View style={styles.buttonRow}>
-                <TouchableOpacity style={[styles.actionButtonSmall, { backgroundColor: '#666' }]} onPress={() => setIsEditingPayment(false)}><Text style={styles.actionButtonSmallText}>Cancel</Text></TouchableOpacity>
-                <TouchableOpacity style={[styles.actionButtonSmall, { backgroundColor: COLORS.primary }]} onPress={handleSavePaymentDetails}><Text style={styles.actionButtonSmallText}>Save</Text></TouchableOpacity>
+            ) : (
+              <View>
+                {event?.paymentMethods ? (
+                  <View>
+                    {event.paymentMethods.mobileMoney?.map((mm, i) => (
+                      <View key={i} style={styles.paymentDetailRow}><Text style={styles.paymentDetailText}>{mm.provider.toUpperCase()} - {mm.number}</Text><Text style={styles.paymentDetailSubtext}>{mm.name}</Text></View>
+                    ))}
+                    {event.paymentMethods.bankAccounts?.map((b, i) => (
+                      <View key={i} style={styles.paymentDetailRow}><Text style={styles.paymentDetailText}>{b.bankName} - {b.accountNumber}</Text><Text style={styles.paymentDetailSubtext}>{b.accountName}</Text></View>
+                    ))}
+                  </View>
+                ) : <Text style={styles.noDataText}>No payment details</Text>}
+                <TouchableOpacity style={styles.editButton} onPress={handleEditPayment}><Text style={styles.editButtonText}>Edit</Text></TouchableOpacity>
               </View>
-            </View>
-          ) : (
-            <View>
-              {event?.paymentMethods ? (
-                <View>
-                  {event.paymentMethods.mobileMoney?.map((mm, i) => (
-                    <View key={i} style={styles.paymentDetailRow}><Text style={styles.paymentDetailText}>{mm.provider.toUpperCase()} - {mm.number}</Text><Text style={styles.paymentDetailSubtext}>{mm.name}</Text></View>
-                  ))}
-                  {event.paymentMethods.bankAccounts?.map((b, i) => (
-                    <View key={i} style={styles.paymentDetailRow}><Text style={styles.paymentDetailText}>{b.bankName} - {b.accountNumber}</Text><Text style={styles.paymentDetailSubtext}>{b.accountName}</Text></View>
-                  ))}
-                </View>
-              ) : <Text style={styles.noDataText}>No payment details</Text>}
-              <TouchableOpacity style={styles.editButton} onPress={handleEditPayment}><Text style={styles.editButtonText}>Edit</Text></TouchableOpacity>
-            </View>
-          )}
+            )}
+          </View>
         </View>
-      </View>
+      )}
     </>
   )
 
@@ -1728,6 +2248,7 @@ const OrganiserDashboardScreen: React.FC = () => {
     <View style={[styles.dashboardContainer, { backgroundColor: COLORS.background }]}>
       <View style={styles.dashboardHeader}>
         <Text style={styles.dashboardTitle}>Organiser Dashboard</Text>
+        {isTeamMember && <Text style={{ color: "#888", fontSize: 13, marginTop: 4 }}>Signed in as {TEAM_ROLE_LABELS[access.role as keyof typeof TEAM_ROLE_LABELS]}</Text>}
       </View>
       <ScrollView style={styles.dashboardContent}>
         <View style={[styles.dashboardTabs, isLargeScreen && { maxWidth: 600, alignSelf: "center", width: "100%" }]}>
@@ -1880,6 +2401,8 @@ const OrganiserDashboardScreen: React.FC = () => {
       {/* Withdraw Modal */}
       {renderWithdrawModal()}
 
+      <AutoPayoutSettingsModal visible={showAutoPayoutModal} onClose={() => setShowAutoPayoutModal(false)} />
+
       {/* Event Status Change Modal */}
       <Modal visible={showEventStatusModal} transparent animationType="fade" onRequestClose={() => setShowEventStatusModal(false)}>
         <View style={styles.overlay}>
@@ -1969,6 +2492,34 @@ const OrganiserDashboardScreen: React.FC = () => {
                 value={newTokenLabel}
                 onChangeText={setNewTokenLabel}
               />
+              <Text style={styles.staffInputLabel}>Gate (optional)</Text>
+              <TextInput
+                style={styles.staffInput}
+                placeholder="e.g. VIP Gate"
+                placeholderTextColor="#888"
+                value={newTokenGate}
+                onChangeText={setNewTokenGate}
+              />
+              {newTokenGate.trim() !== "" && (event?.entryFees?.length || 0) > 0 && (
+                <>
+                  <Text style={styles.staffInputLabel}>Tickets admitted at this gate</Text>
+                  <View style={styles.gateFeeChips}>
+                    {event!.entryFees!.map((fee) => {
+                      const selected = newTokenFees.includes(fee.name)
+                      return (
+                        <TouchableOpacity
+                          key={fee.name}
+                          style={[styles.gateFeeChip, selected && styles.gateFeeChipActive]}
+                          onPress={() => setNewTokenFees(selected ? newTokenFees.filter((n) => n !== fee.name) : [...newTokenFees, fee.name])}
+                        >
+                          <Text style={[styles.gateFeeChipText, selected && styles.gateFeeChipTextActive]}>{fee.name}</Text>
+                        </TouchableOpacity>
+                      )
+                    })}
+                  </View>
+                  <Text style={styles.staffHelperText}>{newTokenFees.length ? `Only ${newTokenFees.join(", ")} tickets will be admitted.` : "No selection admits every ticket type."}</Text>
+                </>
+              )}
               <Text style={styles.staffHelperText}>Maximum 15 active links per event. Links expire in 24 hours.</Text>
               <TouchableOpacity
                 style={[styles.staffGenerateBtn, tokenLoading && styles.staffGenerateBtnDisabled]}
@@ -2043,6 +2594,8 @@ const styles = StyleSheet.create({
   eligibleDesc: { color: "#666", fontSize: 12, marginBottom: 16 },
   withdrawBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", backgroundColor: "#2196F3", paddingVertical: 14, borderRadius: 8, gap: 8 },
   withdrawBtnText: { color: "#FFF", fontSize: 16, fontWeight: "bold" },
+  autoPayoutBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", paddingVertical: 12, marginTop: 8, borderRadius: 8, gap: 8, borderWidth: 1, borderColor: "rgba(33,150,243,0.4)" },
+  autoPayoutBtnText: { color: "#2196F3", fontSize: 14, fontWeight: "600" },
   payoutItem: { flexDirection: "row", alignItems: "center", paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: "#2a2a2a" },
   payoutDate: { color: "#888", fontSize: 12, flex: 1 },
   payoutAmount: { color: "#FFF", fontSize: 14, fontWeight: "bold", flex: 1, textAlign: "center" },
@@ -2125,6 +2678,19 @@ const styles = StyleSheet.create({
   tokenItem: { flexDirection: "row", alignItems: "center", paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: "#2a2a2a" },
   tokenLabel: { color: "#FFF", fontSize: 15, fontWeight: "500" },
   tokenExpiry: { color: "#888", fontSize: 12, marginTop: 2 },
+  tokenGate: { color: "#F59E0B", fontSize: 12, marginTop: 2 },
+  gateFeeChips: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 },
+  gateFeeChip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, borderWidth: 1, borderColor: "#333", backgroundColor: "#1a1a1a" },
+  gateFeeChipActive: { borderColor: "#00D4FF", backgroundColor: "rgba(0,212,255,0.15)" },
+  gateFeeChipText: { color: "#AAA", fontSize: 13 },
+  gateFeeChipTextActive: { color: "#00D4FF", fontWeight: "600" },
+  gateRow: { paddingVertical: 10, borderBottomWidth: 1, borderBottomColor: "#2a2a2a" },
+  gateHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  gateName: { color: "#FFF", fontSize: 15, fontWeight: "600" },
+  gateRate: { color: "#00D4FF", fontSize: 13, fontWeight: "600" },
+  gateBars: { flexDirection: "row", alignItems: "flex-end", height: 28, gap: 3, marginVertical: 6 },
+  gateBar: { flex: 1, backgroundColor: "#00D4FF", borderRadius: 2, minHeight: 2 },
+  gateMeta: { color: "#888", fontSize: 12 },
   tokenModalOverlay: { flex: 1, backgroundColor: "rgba(0,0,0,0.85)", justifyContent: "flex-end" },
   tokenModalContainer: { backgroundColor: "#111", borderTopLeftRadius: 24, borderTopRightRadius: 24, padding: 20, maxHeight: 800 },
   tokenModalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 16 },
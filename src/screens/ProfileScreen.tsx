@@ -176,6 +176,36 @@ const ProfileScreen: React.FC = () => {
     }
   };
 
+  const navigateToAdminReconciliation = () => {
+    if (user?.userType === "admin") {
+      navigation.navigate("AdminReconciliation");
+    }
+  };
+
+  const navigateToAdminLedger = () => {
+    if (user?.userType === "admin") {
+      navigation.navigate("AdminLedger");
+    }
+  };
+
+  const navigateToAdminAuditLog = () => {
+    if (user?.userType === "admin") {
+      navigation.navigate("AdminAuditLog");
+    }
+  };
+
+  const navigateToAdminRiskReview = () => {
+    if (user?.userType === "admin") {
+      navigation.navigate("AdminRiskReview");
+    }
+  };
+
+  const navigateToAdminVibeModeration = () => {
+    if (user?.userType === "admin") {
+      navigation.navigate("AdminVibeModeration");
+    }
+  };
+
   const navigateToAdminWithdrawals = () => {
     if (user?.userType === "admin") {
       navigation.navigate("AdminWithdrawals");
@@ -260,6 +290,14 @@ const ProfileScreen: React.FC = () => {
     navigation.navigate("MyTickets");
   };
 
+  const navigateToRevenueShares = () => {
+    navigation.navigate("RevenueShares");
+  };
+
+  const navigateToTeam = () => {
+    navigation.navigate("Team");
+  };
+
   const handleToggleEditProfile = () => {
     setShowEditProfile(!showEditProfile);
   };
@@ -399,6 +437,18 @@ const ProfileScreen: React.FC = () => {
           <Ionicons name="chevron-forward" size={24} color="#666666" />
         </TouchableOpacity>
 
+        <TouchableOpacity style={styles.menuItem} onPress={navigateToRevenueShares}>
+          <Ionicons name="pie-chart-outline" size={24} color="#FFFFFF" />
+          <Text style={styles.menuText}>Revenue Shares</Text>
+          <Ionicons name="chevron-forward" size={24} color="#666666" />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={navigateToTeam}>
+          <Ionicons name="people-circle-outline" size={24} color="#FFFFFF" />
+          <Text style={styles.menuText}>My Team</Text>
+          <Ionicons name="chevron-forward" size={24} color="#666666" />
+        </TouchableOpacity>
+
         {user?.userType === "admin" && (
           <>
             <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminDashboard}>
@@ -431,6 +481,36 @@ const ProfileScreen: React.FC = () => {
               <Ionicons name="chevron-forward" size={24} color="#666666" />
             </TouchableOpacity>
 
+            <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminReconciliation}>
+              <Ionicons name="git-compare-outline" size={24} color="#10B981" />
+              <Text style={styles.menuText}>Payment Reconciliation</Text>
+              <Ionicons name="chevron-forward" size={24} color="#666666" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminLedger}>
+              <Ionicons name="book-outline" size={24} color="#00D4FF" />
+              <Text style={styles.menuText}>Organiser Ledger</Text>
+              <Ionicons name="chevron-forward" size={24} color="#666666" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminAuditLog}>
+              <Ionicons name="shield-checkmark-outline" size={24} color="#8B5CF6" />
+              <Text style={styles.menuText}>Security Audit Log</Text>
+              <Ionicons name="chevron-forward" size={24} color="#666666" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminRiskReview}>
+              <Ionicons name="warning-outline" size={24} color="#EF4444" />
+              <Text style={styles.menuText}>Risk Review</Text>
+              <Ionicons name="chevron-forward" size={24} color="#666666" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminVibeModeration}>
+              <Ionicons name="images-outline" size={24} color="#F59E0B" />
+              <Text style={styles.menuText}>Vibe Moderation</Text>
+              <Ionicons name="chevron-forward" size={24} color="#666666" />
+            </TouchableOpacity>
+
             <TouchableOpacity style={styles.menuItem} onPress={navigateToAdminWithdrawals}>
               <Ionicons name="cash-outline" size={24} color="#00D4FF" />
               <Text style={styles.menuText}>Revenue Withdrawals</Text>
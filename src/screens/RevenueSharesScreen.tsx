@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from "react"
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet, Alert, ActivityIndicator } from "react-native"
+import RevenueShareService, { type MyEventShare } from "../services/RevenueShareService"
+import PasskeyService from "../services/PasskeyService"
+import { ROLE_LABELS } from "../components/RevenueSharePanel"
+
+const STATUS_LABELS: Record<string, { label: string; color: string }> = {
+  awaiting_confirmation: { label: "Confirm to receive", color: "#F59E0B" },
+  processing: { label: "Sending", color: "#3B82F6" },
+  pending_admin_review: { label: "Bank transfer in review", color: "#3B82F6" },
+  approved: { label: "Approved", color: "#3B82F6" },
+  completed: { label: "Paid", color: "#10B981" },
+  rejected: { label: "Rejected", color: "#EF4444" },
+}
+
+const ugx = (amount: number) => `UGX ${Number(amount || 0).toLocaleString()}`
+
+// Revenue the user earns as a party on someone else's event: only their own
+// share is shown, and each split payout is confirmed with an emailed code
+// or, for accounts that have one, a passkey.
+export default function RevenueSharesScreen() {
+  const [shares, setShares] = useState<MyEventShare[]>([])
+  const [payouts, setPayouts] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const [confirming, setConfirming] = useState<string | null>(null)
+  const [otp, setOtp] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [hasPasskey, setHasPasskey] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await RevenueShareService.getMyShares()
+      setShares(result.shares)
+      setPayouts(result.payouts)
+    } catch (e: any) {
+      Alert.alert("Revenue Shares", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { void load() }, [load])
+
+  useEffect(() => {
+    if (!PasskeyService.isSupported()) return
+    PasskeyService.list().then((keys) => setHasPasskey(keys.length > 0)).catch(() => setHasPasskey(false))
+  }, [])
+
+  const showConfirmed = async (payout: any) => {
+    setConfirming(null)
+    Alert.alert("✅ Confirmed", payout.status === "completed"
+      ? `${ugx(payout.amount)} has been sent to you.`
+      : `${ugx(payout.amount)} will be sent once the bank transfer is reviewed.`)
+    await load()
+  }
+
+  const handleSendCode = async (payoutId: string) => {
+    setBusy(true)
+    try {
+      await RevenueShareService.sendConfirmationCode()
+      setConfirming(payoutId)
+      setOtp("")
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setBusy(false) }
+  }
+
+  const handleConfirm = async () => {
+    if (!confirming || !otp.trim()) return
+    setBusy(true)
+    try {
+      await showConfirmed(await RevenueShareService.confirmPayout(confirming, otp.trim()))
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setBusy(false) }
+  }
+
+  const handleConfirmWithPasskey = async (payoutId: string) => {
+    setBusy(true)
+    try {
+      await showConfirmed(await RevenueShareService.confirmPayoutWithPasskey(payoutId))
+    } catch (e: any) {
+      if (e.message !== "Passkey request was cancelled") Alert.alert("Error", e.message)
+    } finally { setBusy(false) }
+  }
+
+  if (loading) return <View style={[styles.container, styles.center]}><ActivityIndicator color="#00D4FF" /></View>
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.header}>Revenue Shares</Text>
+      <Text style={styles.subheader}>Your cut of events you co-organise, host or manage artists for</Text>
+
+      <Text style={styles.sectionTitle}>Events</Text>
+      {shares.length > 0 ? shares.map((s) => (
+        <View key={s.eventId} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{s.eventName}</Text>
+            <Text style={styles.cardAmount}>{ugx(s.earned)}</Text>
+          </View>
+          <Text style={styles.cardMeta}>
+            {s.role ? ROLE_LABELS[s.role] : "Party"} · {new Date(s.date).toLocaleDateString()} · {ugx(s.eligible)} waiting for the organiser to withdraw
+          </Text>
+        </View>
+      )) : <Text style={styles.empty}>You are not sharing revenue on any event yet.</Text>}
+
+      <Text style={[styles.sectionTitle, { marginTop: 16 }]}>Payouts</Text>
+      {payouts.length > 0 ? payouts.map((p) => {
+        const status = STATUS_LABELS[p.status] || { label: p.status, color: "#888" }
+        return (
+          <View key={p.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle} numberOfLines={1}>{p.metadata?.event_name || "Event payout"}</Text>
+              <Text style={styles.cardAmount}>{ugx(p.amount)}</Text>
+            </View>
+            <Text style={[styles.cardMeta, { color: status.color }]}>{status.label}</Text>
+            <Text style={styles.cardMeta}>{new Date(p.request_date).toLocaleString()} · {(p.ticket_ids || []).length} ticket(s)</Text>
+            {p.status === "awaiting_confirmation" && (confirming === p.id ? (
+              <View style={styles.confirmRow}>
+                <TextInput style={styles.input} placeholder="6-digit code" placeholderTextColor="#555" keyboardType="number-pad" maxLength={6}
+                  value={otp} onChangeText={setOtp} />
+                <TouchableOpacity style={styles.actionBtn} onPress={handleConfirm} disabled={busy}>
+                  {busy ? <ActivityIndicator color="#000" /> : <Text style={styles.actionBtnText}>Confirm</Text>}
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <>
+                <TouchableOpacity style={[styles.actionBtn, { marginTop: 10 }]} onPress={() => handleSendCode(p.id)} disabled={busy}>
+                  <Text style={styles.actionBtnText}>Email Me a Code</Text>
+                </TouchableOpacity>
+                {hasPasskey && (
+                  <TouchableOpacity style={[styles.actionBtn, styles.passkeyBtn]} onPress={() => handleConfirmWithPasskey(p.id)} disabled={busy}>
+                    <Text style={[styles.actionBtnText, { color: "#00D4FF" }]}>Confirm with Passkey</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            ))}
+          </View>
+        )
+      }) : <Text style={styles.empty}>No shared payouts yet.</Text>}
+      <Text style={styles.cardMeta}>Shares are sent to the payment details saved under Automatic Payouts on your organiser dashboard.</Text>
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  center: { justifyContent: "center", alignItems: "center" },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 16 },
+  sectionTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", marginBottom: 10 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  cardAmount: { color: "#00D4FF", fontSize: 14, fontWeight: "800" },
+  cardMeta: { color: "#666", fontSize: 12, marginTop: 2 },
+  empty: { color: "#666", fontSize: 13, marginBottom: 8 },
+  confirmRow: { flexDirection: "row", gap: 8, marginTop: 10 },
+  input: { flex: 1, backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  actionBtn: { backgroundColor: "#00D4FF", alignItems: "center", justifyContent: "center", paddingHorizontal: 16, paddingVertical: 12, borderRadius: 10 },
+  passkeyBtn: { marginTop: 8, backgroundColor: "transparent", borderWidth: 1, borderColor: "#00D4FF" },
+  actionBtnText: { color: "#000", fontWeight: "700", fontSize: 13 },
+})
@@ -1,10 +1,19 @@
 import type React from "react"
-import { useState } from "react"
-import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, TextInput, ActivityIndicator, Modal } from "react-native"
+import { useEffect, useState } from "react"
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, TextInput, ActivityIndicator, Modal, Image, Switch } from "react-native"
 import { Ionicons } from "@expo/vector-icons"
+import QRCode from "qrcode"
 import { supabase } from "../config/supabase"
 import SupabaseService from "../services/SupabaseService"
+import TwoFactorService from "../services/TwoFactorService"
+import PasskeyService from "../services/PasskeyService"
 import { useAuth } from "../contexts/AuthContext"
+import type { TwoFactorEnrollment, TwoFactorPolicy, TwoFactorStatus } from "../models/TwoFactor"
+import type { Passkey } from "../models/Passkey"
+import { formatBackupCode, isPrivilegedUserType } from "../utils/twoFactor"
+
+// What the two-factor modal is showing
+type TwoFactorStep = "overview" | "enroll" | "backup_codes" | "confirm_disable" | "confirm_regenerate"
 
 export default function SettingsScreen() {
   const { user, signOut } = useAuth()
@@ -22,6 +31,125 @@ export default function SettingsScreen() {
   const [deleteLoading, setDeleteLoading] = useState(false)
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
+  // Two-factor authentication (organisers and admins)
+  const canUseTwoFactor = isPrivilegedUserType(user?.userType)
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [showTwoFactorModal, setShowTwoFactorModal] = useState(false)
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep>("overview")
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [enrollmentQr, setEnrollmentQr] = useState<string | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[]>([])
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [twoFactorLoading, setTwoFactorLoading] = useState(false)
+  const [policy, setPolicy] = useState<TwoFactorPolicy | null>(null)
+
+  useEffect(() => {
+    if (!canUseTwoFactor) return
+    TwoFactorService.status().then(setTwoFactor).catch((e) => console.error("SettingsScreen: two-factor status failed", e))
+    if (user?.userType === "admin") TwoFactorService.getPolicy().then(setPolicy).catch((e) => console.error("SettingsScreen: two-factor policy failed", e))
+  }, [canUseTwoFactor, user?.userType])
+
+  const openTwoFactor = () => {
+    setTwoFactorStep("overview")
+    setTwoFactorCode("")
+    setShowTwoFactorModal(true)
+  }
+
+  const runTwoFactor = async (task: () => Promise<void>) => {
+    setTwoFactorLoading(true)
+    try {
+      await task()
+    } catch (err: any) {
+      Alert.alert("Two-Factor Authentication", err.message || "Something went wrong")
+    } finally {
+      setTwoFactorLoading(false)
+    }
+  }
+
+  const handleStartEnrollment = () => runTwoFactor(async () => {
+    const next = await TwoFactorService.startEnrollment()
+    setEnrollment(next)
+    setEnrollmentQr(await QRCode.toDataURL(next.otpauthUrl, { width: 240, margin: 2, errorCorrectionLevel: "M" }))
+    setTwoFactorCode("")
+    setTwoFactorStep("enroll")
+  })
+
+  const handleConfirmEnrollment = () => runTwoFactor(async () => {
+    const result = await TwoFactorService.confirmEnrollment(twoFactorCode)
+    setTwoFactor(result.status)
+    setBackupCodes(result.backupCodes)
+    setEnrollment(null)
+    setEnrollmentQr(null)
+    setTwoFactorCode("")
+    setTwoFactorStep("backup_codes")
+  })
+
+  const handleRegenerateCodes = () => runTwoFactor(async () => {
+    const result = await TwoFactorService.regenerateBackupCodes(twoFactorCode)
+    setTwoFactor(result.status)
+    setBackupCodes(result.backupCodes)
+    setTwoFactorCode("")
+    setTwoFactorStep("backup_codes")
+  })
+
+  const handleDisableTwoFactor = () => runTwoFactor(async () => {
+    setTwoFactor(await TwoFactorService.disable(twoFactorCode))
+    setTwoFactorCode("")
+    setTwoFactorStep("overview")
+    Alert.alert("Two-Factor Authentication", "Two-factor authentication is off. Your account is protected by your password only.")
+  })
+
+  const handleTogglePolicy = (requireForAdmin: boolean) => runTwoFactor(async () => {
+    setPolicy(await TwoFactorService.setPolicy({ requireForAdmin }))
+  })
+
+  // Passkeys (web browsers with a platform authenticator)
+  const canUsePasskeys = PasskeyService.isSupported()
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null)
+  const [showPasskeyModal, setShowPasskeyModal] = useState(false)
+  const [passkeyName, setPasskeyName] = useState("")
+  const [passkeyLoading, setPasskeyLoading] = useState(false)
+
+  useEffect(() => {
+    if (!canUsePasskeys || !user?.id) return
+    PasskeyService.list().then(setPasskeys).catch((e) => console.error("SettingsScreen: passkey list failed", e))
+  }, [canUsePasskeys, user?.id])
+
+  const handleAddPasskey = async () => {
+    setPasskeyLoading(true)
+    try {
+      const added = await PasskeyService.register(passkeyName.trim() || "This device")
+      setPasskeys((prev) => [...(prev || []), added])
+      setPasskeyName("")
+    } catch (err: any) {
+      if (err.message !== "Passkey request was cancelled") Alert.alert("Passkeys", err.message || "Could not add the passkey")
+    } finally {
+      setPasskeyLoading(false)
+    }
+  }
+
+  const handleRemovePasskey = async (passkey: Passkey) => {
+    setPasskeyLoading(true)
+    try {
+      await PasskeyService.remove(passkey.id)
+      setPasskeys((prev) => (prev || []).filter((p) => p.id !== passkey.id))
+    } catch (err: any) {
+      if (err.message !== "Passkey request was cancelled") Alert.alert("Passkeys", err.message || "Could not remove the passkey")
+    } finally {
+      setPasskeyLoading(false)
+    }
+  }
+
+  const downloadBackupCodes = () => {
+    if (typeof document === "undefined") return
+    const text = ["YoVibe backup codes", user?.email || "", "", ...backupCodes.map(formatBackupCode), "", "Each code works once."].join("\n")
+    const a = document.createElement("a")
+    a.href = URL.createObjectURL(new Blob([text], { type: "text/plain;charset=utf-8;" }))
+    a.download = "yovibe-backup-codes.txt"
+    a.click()
+    URL.revokeObjectURL(a.href)
+  }
+
   const handleChangePassword = async () => {
     if (!currentPassword) { setFieldErrors(p => ({ ...p, currentPassword: "Enter your current password" })); Alert.alert("Error", "Enter your current password"); return }
     if (!newPassword || newPassword.length < 6) { setFieldErrors(p => ({ ...p, newPassword: "New password must be at least 6 characters" })); Alert.alert("Error", "New password must be at least 6 characters"); return }
@@ -81,6 +209,34 @@ export default function SettingsScreen() {
           <Ionicons name="chevron-forward" size={22} color="#666666" />
         </TouchableOpacity>
 
+        {/* Two-Factor Authentication */}
+        {canUseTwoFactor && (
+          <TouchableOpacity style={styles.menuItem} onPress={openTwoFactor}>
+            <View style={styles.iconWrap}>
+              <Ionicons name="shield-checkmark" size={22} color="#10B981" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.menuText}>Two-Factor Authentication</Text>
+              <Text style={styles.menuSubtext}>{twoFactor ? (twoFactor.enabled ? "On" : "Off") : "Checking..."}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={22} color="#666666" />
+          </TouchableOpacity>
+        )}
+
+        {/* Passkeys */}
+        {canUsePasskeys && (
+          <TouchableOpacity style={styles.menuItem} onPress={() => setShowPasskeyModal(true)}>
+            <View style={styles.iconWrap}>
+              <Ionicons name="finger-print" size={22} color="#A855F7" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.menuText}>Passkeys</Text>
+              <Text style={styles.menuSubtext}>{passkeys ? (passkeys.length ? `${passkeys.length} saved` : "Off") : "Checking..."}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={22} color="#666666" />
+          </TouchableOpacity>
+        )}
+
         {/* Delete Account */}
         <TouchableOpacity style={styles.menuItem} onPress={() => { setDeleteConfirmText(""); setShowDeleteModal(true) }}>
           <View style={styles.iconWrap}>
@@ -119,6 +275,152 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Two-Factor Modal */}
+      <Modal visible={showTwoFactorModal} transparent animationType="slide" onRequestClose={() => setShowTwoFactorModal(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.modalBox}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Two-Factor Authentication</Text>
+              <TouchableOpacity onPress={() => setShowTwoFactorModal(false)} disabled={twoFactorStep === "backup_codes"}>
+                <Ionicons name="close" size={28} color={twoFactorStep === "backup_codes" ? "#333" : "#888"} />
+              </TouchableOpacity>
+            </View>
+
+            {twoFactorStep === "overview" && (
+              <>
+                <Text style={styles.twoFactorText}>
+                  {twoFactor?.enabled
+                    ? `On since ${twoFactor.enrolledAt ? new Date(twoFactor.enrolledAt).toLocaleDateString() : "setup"} · ${twoFactor.backupCodesRemaining} backup code${twoFactor.backupCodesRemaining !== 1 ? "s" : ""} left`
+                    : "Ask for a code from an authenticator app (Google Authenticator, Authy, 1Password) every time you sign in. Your account controls real money, so we strongly recommend it."}
+                </Text>
+                {twoFactor?.enabled ? (
+                  <>
+                    <TouchableOpacity style={[styles.btn, styles.btnPrimary, styles.twoFactorAction]} onPress={() => { setTwoFactorCode(""); setTwoFactorStep("confirm_regenerate") }}>
+                      <Text style={styles.btnPrimaryText}>New backup codes</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.btn, styles.btnCancel, styles.twoFactorAction]} onPress={handleStartEnrollment} disabled={twoFactorLoading}>
+                      <Text style={styles.btnCancelText}>Move to a new phone</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.btn, styles.btnCancel, styles.twoFactorAction]} onPress={() => { setTwoFactorCode(""); setTwoFactorStep("confirm_disable") }}>
+                      <Text style={{ color: "#FF3B30", fontWeight: "600", fontSize: 14 }}>Turn off</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <TouchableOpacity style={[styles.btn, styles.btnPrimary, twoFactorLoading && styles.btnDisabled]} onPress={handleStartEnrollment} disabled={twoFactorLoading}>
+                    {twoFactorLoading ? <ActivityIndicator color="#FFF" size="small" /> : <Text style={styles.btnPrimaryText}>Set up</Text>}
+                  </TouchableOpacity>
+                )}
+
+                {user?.userType === "admin" && policy && (
+                  <View style={styles.policyRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.menuText}>Require for admin pages</Text>
+                      <Text style={styles.menuSubtext}>Admins must verify a code before opening any admin page</Text>
+                    </View>
+                    <Switch value={policy.requireForAdmin} onValueChange={handleTogglePolicy} disabled={twoFactorLoading} />
+                  </View>
+                )}
+              </>
+            )}
+
+            {twoFactorStep === "enroll" && enrollment && (
+              <>
+                <Text style={styles.twoFactorText}>Scan this with your authenticator app, then enter the 6-digit code it shows.</Text>
+                {enrollmentQr && <Image source={{ uri: enrollmentQr }} style={styles.qr} />}
+                <Text style={styles.twoFactorHint}>Can't scan? Enter this key:</Text>
+                <Text style={styles.secret} selectable>{enrollment.secret.replace(/(.{4})/g, "$1 ").trim()}</Text>
+                <TextInput style={styles.input} value={twoFactorCode} onChangeText={setTwoFactorCode} placeholder="123456" placeholderTextColor="#666" keyboardType="number-pad" maxLength={6} />
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity style={[styles.btn, styles.btnCancel]} onPress={() => setTwoFactorStep("overview")} disabled={twoFactorLoading}>
+                    <Text style={styles.btnCancelText}>Back</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.btn, styles.btnPrimary, (twoFactorLoading || twoFactorCode.length !== 6) && styles.btnDisabled]} onPress={handleConfirmEnrollment} disabled={twoFactorLoading || twoFactorCode.length !== 6}>
+                    {twoFactorLoading ? <ActivityIndicator color="#FFF" size="small" /> : <Text style={styles.btnPrimaryText}>Turn on</Text>}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            {twoFactorStep === "backup_codes" && (
+              <>
+                <Text style={styles.twoFactorText}>Save these backup codes somewhere safe. Each one signs you in once if you lose your phone. They won't be shown again.</Text>
+                <View style={styles.codeGrid}>
+                  {backupCodes.map((c) => <Text key={c} style={styles.backupCode} selectable>{formatBackupCode(c)}</Text>)}
+                </View>
+                <View style={styles.modalButtons}>
+                  {typeof document !== "undefined" && (
+                    <TouchableOpacity style={[styles.btn, styles.btnCancel]} onPress={downloadBackupCodes}>
+                      <Text style={styles.btnCancelText}>Download</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={[styles.btn, styles.btnPrimary]} onPress={() => { setBackupCodes([]); setTwoFactorStep("overview") }}>
+                    <Text style={styles.btnPrimaryText}>I've saved them</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            {(twoFactorStep === "confirm_disable" || twoFactorStep === "confirm_regenerate") && (
+              <>
+                <Text style={styles.twoFactorText}>
+                  {twoFactorStep === "confirm_disable"
+                    ? "Enter a code from your authenticator app or a backup code to turn two-factor off."
+                    : "Enter a code from your authenticator app. Your old backup codes stop working."}
+                </Text>
+                <TextInput style={styles.input} value={twoFactorCode} onChangeText={setTwoFactorCode} placeholder="123456 or XXXXX-XXXXX" placeholderTextColor="#666" autoCapitalize="characters" />
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity style={[styles.btn, styles.btnCancel]} onPress={() => setTwoFactorStep("overview")} disabled={twoFactorLoading}>
+                    <Text style={styles.btnCancelText}>Back</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.btn, twoFactorStep === "confirm_disable" ? { backgroundColor: "#FF3B30" } : styles.btnPrimary, (twoFactorLoading || !twoFactorCode.trim()) && styles.btnDisabled]}
+                    onPress={twoFactorStep === "confirm_disable" ? handleDisableTwoFactor : handleRegenerateCodes}
+                    disabled={twoFactorLoading || !twoFactorCode.trim()}
+                  >
+                    {twoFactorLoading ? <ActivityIndicator color="#FFF" size="small" /> : <Text style={styles.btnPrimaryText}>{twoFactorStep === "confirm_disable" ? "Turn off" : "Generate"}</Text>}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Passkeys Modal */}
+      <Modal visible={showPasskeyModal} transparent animationType="slide" onRequestClose={() => setShowPasskeyModal(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.modalBox}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Passkeys</Text>
+              <TouchableOpacity onPress={() => setShowPasskeyModal(false)}>
+                <Ionicons name="close" size={28} color="#888" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.twoFactorText}>
+              Sign in with your fingerprint, face or device PIN instead of a password. Once you add a passkey, payouts, refunds, ticket transfers and changes to your passkeys also ask for it.
+            </Text>
+            {(passkeys || []).map((passkey) => (
+              <View key={passkey.id} style={styles.passkeyRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.menuText}>{passkey.name}</Text>
+                  <Text style={styles.menuSubtext}>
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {passkey.lastUsedAt ? ` · last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}` : ""}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleRemovePasskey(passkey)} disabled={passkeyLoading}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TextInput style={styles.input} value={passkeyName} onChangeText={setPasskeyName} placeholder="Name, e.g. My laptop" placeholderTextColor="#666" maxLength={60} />
+            <TouchableOpacity style={[styles.btn, styles.btnPrimary, styles.twoFactorAction, passkeyLoading && styles.btnDisabled]} onPress={handleAddPasskey} disabled={passkeyLoading}>
+              {passkeyLoading ? <ActivityIndicator color="#FFF" size="small" /> : <Text style={styles.btnPrimaryText}>Add a passkey</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Delete Account Modal */}
       <Modal visible={showDeleteModal} transparent animationType="slide" onRequestClose={() => setShowDeleteModal(false)}>
         <View style={styles.overlay}>
@@ -158,6 +460,7 @@ const styles = StyleSheet.create({
   menuItem: { flexDirection: "row", alignItems: "center", backgroundColor: "#1E1E1E", padding: 16, borderRadius: 10, marginBottom: 10 },
   iconWrap: { width: 40, height: 40, borderRadius: 10, backgroundColor: "#252525", justifyContent: "center", alignItems: "center", marginRight: 12 },
   menuText: { flex: 1, fontSize: 15, fontWeight: "600", color: "#FFF" },
+  menuSubtext: { fontSize: 12, color: "#888", marginTop: 2 },
   overlay: { flex: 1, backgroundColor: "rgba(0,0,0,0.7)", justifyContent: "center", alignItems: "center", padding: 24 },
   modalBox: { backgroundColor: "#1a1a2e", borderRadius: 20, padding: 24, width: "100%", maxWidth: 420, borderWidth: 1, borderColor: "rgba(255,255,255,0.08)" },
   modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 20 },
@@ -171,4 +474,13 @@ const styles = StyleSheet.create({
   btnPrimary: { backgroundColor: "#2196F3" },
   btnPrimaryText: { color: "#FFF", fontWeight: "700", fontSize: 14 },
   btnDisabled: { opacity: 0.4 },
+  twoFactorText: { color: "#CCC", fontSize: 13, lineHeight: 20, marginBottom: 16 },
+  twoFactorHint: { color: "#888", fontSize: 12, marginBottom: 4 },
+  twoFactorAction: { flex: 0, marginBottom: 10 },
+  qr: { width: 200, height: 200, alignSelf: "center", marginBottom: 12, borderRadius: 8 },
+  secret: { color: "#FFF", fontSize: 14, fontFamily: "monospace", letterSpacing: 1, marginBottom: 12 },
+  codeGrid: { flexDirection: "row", flexWrap: "wrap", justifyContent: "space-between", backgroundColor: "#0a0a0f", borderRadius: 10, padding: 12, marginBottom: 8 },
+  backupCode: { width: "48%", color: "#FFF", fontSize: 15, fontFamily: "monospace", paddingVertical: 6, textAlign: "center" },
+  passkeyRow: { flexDirection: "row", alignItems: "center", backgroundColor: "#0a0a0f", borderRadius: 10, padding: 12, marginBottom: 10 },
+  policyRow: { flexDirection: "row", alignItems: "center", gap: 12, marginTop: 16, paddingTop: 16, borderTopWidth: 1, borderTopColor: "rgba(255,255,255,0.08)" },
 })
@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from "react"
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet, Alert, ActivityIndicator } from "react-native"
+import TeamService, { type TeamEvent, type TeamMembership } from "../services/TeamService"
+import type { Organization, TeamAuditEntry, TeamMember } from "../models/Team"
+import { useCompatNavigation } from "../utils/compatNavigation"
+import { useAuth } from "../contexts/AuthContext"
+import { INVITABLE_ROLES, TEAM_ACTION_LABELS, TEAM_ROLE_LABELS, teamInviteError } from "../utils/teamRoles"
+
+const ROLE_HINTS: Record<TeamMember["role"], string> = {
+  finance: "Payouts and refund review",
+  door_manager: "Scanning, re-entry and staff links",
+  marketing: "Promo codes",
+  read_only: "View the dashboard only",
+}
+
+// The organiser's team: invite members by email with a role, see what
+// they did, and open the events of teams the user has joined.
+export default function TeamScreen() {
+  const navigation = useCompatNavigation()
+  const { user } = useAuth()
+  const [organization, setOrganization] = useState<Organization | null>(null)
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [memberships, setMemberships] = useState<TeamMembership[]>([])
+  const [events, setEvents] = useState<TeamEvent[]>([])
+  const [audit, setAudit] = useState<TeamAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [teamName, setTeamName] = useState("")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<TeamMember["role"]>("read_only")
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [mine, teamEvents, entries] = await Promise.all([TeamService.getMine(), TeamService.getTeamEvents(), TeamService.getAuditLog()])
+      setOrganization(mine.organization)
+      setTeamName(mine.organization?.name || "")
+      setMembers(mine.members)
+      setMemberships(mine.memberships)
+      setEvents(teamEvents)
+      setAudit(entries)
+    } catch (e: any) {
+      Alert.alert("Team", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { void load() }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await action()
+      await load()
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setBusy(false) }
+  }
+
+  const handleInvite = () => {
+    const problem = teamInviteError(inviteEmail, inviteRole, members, user?.email)
+    if (problem) { Alert.alert("Invite", problem); return }
+    void run(async () => {
+      await TeamService.invite(inviteEmail, inviteRole)
+      setInviteEmail("")
+    })
+  }
+
+  const handleRemove = (member: TeamMember) => {
+    Alert.alert("Remove member", `Remove ${member.email} from your team?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Remove", style: "destructive", onPress: () => void run(() => TeamService.remove(member.id)) },
+    ])
+  }
+
+  if (loading) return <View style={[styles.container, styles.center]}><ActivityIndicator color="#00D4FF" /></View>
+
+  const invites = memberships.filter((m) => m.status === "invited")
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.header}>My Team</Text>
+      <Text style={styles.subheader}>Give your crew access to your events without sharing your account</Text>
+
+      {invites.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Invitations</Text>
+          {invites.map((m) => (
+            <View key={m.id} style={styles.card}>
+              <Text style={styles.cardTitle}>{m.organization?.name || "A team"}</Text>
+              <Text style={styles.cardMeta}>Invited as {TEAM_ROLE_LABELS[m.role]} · {ROLE_HINTS[m.role]}</Text>
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.actionBtn} onPress={() => run(() => TeamService.respond(m.id, true))} disabled={busy}>
+                  <Text style={styles.actionBtnText}>Accept</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.secondaryBtn} onPress={() => run(() => TeamService.respond(m.id, false))} disabled={busy}>
+                  <Text style={styles.secondaryBtnText}>Decline</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Team name</Text>
+      <View style={styles.inputRow}>
+        <TextInput style={styles.input} placeholder="e.g. Kampala Nights crew" placeholderTextColor="#555" value={teamName} onChangeText={setTeamName} />
+        <TouchableOpacity style={styles.actionBtn} onPress={() => run(() => TeamService.rename(teamName))} disabled={busy || !teamName.trim() || teamName.trim() === organization?.name}>
+          <Text style={styles.actionBtnText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.sectionTitle, { marginTop: 16 }]}>Members</Text>
+      {members.length > 0 ? members.map((m) => (
+        <View key={m.id} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{m.name || m.email}</Text>
+            <Text style={[styles.cardMeta, { color: m.status === "active" ? "#10B981" : "#F59E0B" }]}>{m.status === "active" ? "Active" : "Invited"}</Text>
+          </View>
+          {m.name && <Text style={styles.cardMeta}>{m.email}</Text>}
+          <View style={styles.chipRow}>
+            {INVITABLE_ROLES.map((role) => (
+              <TouchableOpacity key={role} style={[styles.chip, m.role === role && styles.chipActive]} disabled={busy || m.role === role}
+                onPress={() => run(() => TeamService.updateRole(m.id, role))}>
+                <Text style={[styles.chipText, m.role === role && styles.chipTextActive]}>{TEAM_ROLE_LABELS[role]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity onPress={() => handleRemove(m)} disabled={busy}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      )) : <Text style={styles.empty}>No one on your team yet.</Text>}
+
+      <Text style={[styles.sectionTitle, { marginTop: 16 }]}>Invite a member</Text>
+      <View style={styles.card}>
+        <TextInput style={styles.input} placeholder="Email address" placeholderTextColor="#555" autoCapitalize="none" keyboardType="email-address"
+          value={inviteEmail} onChangeText={setInviteEmail} />
+        <View style={styles.chipRow}>
+          {INVITABLE_ROLES.map((role) => (
+            <TouchableOpacity key={role} style={[styles.chip, inviteRole === role && styles.chipActive]} onPress={() => setInviteRole(role)}>
+              <Text style={[styles.chipText, inviteRole === role && styles.chipTextActive]}>{TEAM_ROLE_LABELS[role]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.cardMeta}>{ROLE_HINTS[inviteRole]}</Text>
+        <TouchableOpacity style={[styles.actionBtn, { marginTop: 10 }]} onPress={handleInvite} disabled={busy}>
+          {busy ? <ActivityIndicator color="#000" /> : <Text style={styles.actionBtnText}>Send Invite</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {events.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { marginTop: 16 }]}>Team events</Text>
+          {events.map((e) => (
+            <TouchableOpacity key={e.eventId} style={styles.card} onPress={() => navigation.navigate("OrganiserDashboard", { eventId: e.eventId })}>
+              <Text style={styles.cardTitle} numberOfLines={1}>{e.name}</Text>
+              <Text style={styles.cardMeta}>{e.team} · {TEAM_ROLE_LABELS[e.role]} · {new Date(e.date).toLocaleDateString()}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+
+      <Text style={[styles.sectionTitle, { marginTop: 16 }]}>Activity</Text>
+      {audit.length > 0 ? audit.map((entry) => (
+        <View key={entry.id} style={styles.auditRow}>
+          <Text style={styles.auditText}>{TEAM_ACTION_LABELS[entry.action] || entry.action}{entry.eventId ? ` · ${entry.eventId}` : ""}</Text>
+          <Text style={styles.cardMeta}>
+            {entry.actorEmail || entry.actorId} · {entry.actorRole === "admin" ? "Admin" : TEAM_ROLE_LABELS[entry.actorRole]} · {new Date(entry.createdAt).toLocaleString()}
+          </Text>
+        </View>
+      )) : <Text style={styles.empty}>Payouts, refunds, re-entry passes, status changes and staff links will show here.</Text>}
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  center: { justifyContent: "center", alignItems: "center" },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 16 },
+  sectionTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", marginBottom: 10 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  cardMeta: { color: "#666", fontSize: 12, marginTop: 2 },
+  empty: { color: "#666", fontSize: 13, marginBottom: 8 },
+  inputRow: { flexDirection: "row", gap: 8 },
+  input: { flex: 1, backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  buttonRow: { flexDirection: "row", gap: 8, marginTop: 10 },
+  actionBtn: { backgroundColor: "#00D4FF", alignItems: "center", justifyContent: "center", paddingHorizontal: 16, paddingVertical: 12, borderRadius: 10 },
+  actionBtnText: { color: "#000", fontWeight: "700", fontSize: 13 },
+  secondaryBtn: { borderWidth: 1, borderColor: "#333", alignItems: "center", justifyContent: "center", paddingHorizontal: 16, paddingVertical: 12, borderRadius: 10 },
+  secondaryBtnText: { color: "#AAA", fontWeight: "700", fontSize: 13 },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 10 },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: "#333" },
+  chipActive: { backgroundColor: "rgba(0,212,255,0.15)", borderColor: "#00D4FF" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#00D4FF" },
+  removeText: { color: "#EF4444", fontSize: 12, fontWeight: "700", marginTop: 10 },
+  auditRow: { paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: "rgba(255,255,255,0.06)" },
+  auditText: { color: "#FFF", fontSize: 13 },
+})
@@ -9,19 +9,26 @@ import { useRouter } from "../utils/URLRouter"
 
 import { useAuth } from "../contexts/AuthContext"
 import TicketService from "../services/TicketService"
-import PaymentService from "../services/PaymentService"
 import PesaPalService from "../services/PesaPalService"
 import PawaPayService from "../services/PawaPayService"
 import SupabaseService from "../services/SupabaseService"
 import InstallmentService from "../services/InstallmentService"
-import type { InstallmentPlanType } from "../models/InstallmentPlan"
-import { INSTALLMENT_SERVICE_FEE_RATE } from "../models/InstallmentPlan"
+import RiskService from "../services/RiskService"
+import WaitlistService from "../services/WaitlistService"
+import PromoCodeService from "../services/PromoCodeService"
+import { eligibleInstallmentTemplates } from "../utils/installmentTemplates"
+import { INSTALLMENT_SERVICE_FEE_RATE, quoteTicketPrice } from "../utils/pricing"
 import * as ImagePicker from "expo-image-picker"
 import type { Event } from "../models/Event"
-import type { CreateFulfillmentInput } from "../models/PendingFulfillment"
+import type { WaitlistClaim, WaitlistEntry } from "../models/Waitlist"
+import type { PromoCheck } from "../models/PromoCode"
+import type { CheckoutRiskDecision, CheckoutRiskInput } from "../models/Risk"
+import { normalizePromoCode } from "../utils/promoCodes"
+import { resolvePricePhase } from "../utils/pricePhases"
 import { ValidationDialog } from "../components/ValidationDialog"
 import { TicketCreationProgress } from "../components/TicketCreationProgress"
 import { StatusDialog } from "../components/StatusDialog"
+import { CheckoutStepUpDialog } from "../components/CheckoutStepUpDialog"
 import { useDeviceType, COLORS } from "../utils/ResponsiveDesign"
 
 // ─── Design tokens (UI only) ─────────────────────────────────────────
@@ -68,6 +75,16 @@ const TicketPurchaseScreen: React.FC = () => {
   const [showTicketTypeModal, setShowTicketTypeModal] = useState(false)
 
   const [soldCounts, setSoldCounts] = useState<Record<string, number>>({})
+  const [heldCounts, setHeldCounts] = useState<Record<string, number>>({})
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([])
+  const [waitlistClaim, setWaitlistClaim] = useState<WaitlistClaim | null>(null)
+  const [joiningWaitlist, setJoiningWaitlist] = useState<string | null>(null)
+  const [promoInput, setPromoInput] = useState("")
+  // The code the buyer applied; the server decides whether it still fits the order
+  const [enteredCode, setEnteredCode] = useState<string | null>(null)
+  const [promoError, setPromoError] = useState("")
+  const [promoCheck, setPromoCheck] = useState<PromoCheck | null>(null)
+  const [commissionRate, setCommissionRate] = useState<number | null>(null)
   const [showSeatMapModal, setShowSeatMapModal] = useState(false)
   const [occupiedSeats, setOccupiedSeats] = useState<number[]>([])
   const [perPersonSeats, setPerPersonSeats] = useState<(number | null)[]>([])
@@ -92,12 +109,23 @@ const TicketPurchaseScreen: React.FC = () => {
           const counts: Record<string, number> = {}
           await Promise.all(
             (eventData.entryFees || []).map(async (fee: any) => {
-              if (fee.maxTickets && fee.maxTickets > 0) {
+              // Count-based price phases need the sold count even on uncapped fees
+              if ((fee.maxTickets && fee.maxTickets > 0) || fee.pricePhases?.some((p: any) => p.untilSold)) {
                 counts[fee.name] = await SupabaseService.getSoldTicketCount(eventId, fee.name)
               }
             })
           )
           setSoldCounts(counts)
+
+          // Offer emails link here with ?claim=<token>
+          const claimToken = typeof window !== "undefined" ? new URLSearchParams(window.location.search).get("claim") || undefined : undefined
+          const { held, claim } = await WaitlistService.availability(eventId, claimToken)
+          setHeldCounts(held)
+          setWaitlistClaim(claim)
+
+          if (eventData.createdBy) {
+            setCommissionRate(await SupabaseService.getCommissionRate(eventData.createdBy))
+          }
         }
       } catch (error) {
         console.error("Error loading event for ticket purchase:", error)
@@ -109,12 +137,85 @@ const TicketPurchaseScreen: React.FC = () => {
     loadEvent()
   }, [eventId])
 
+  useEffect(() => {
+    if (!user || !eventId) return
+    WaitlistService.mine(eventId).then(setWaitlistEntries).catch(() => setWaitlistEntries([]))
+  }, [user, eventId])
+
   // Get ticket types from event entry fees
   const ticketTypes: any[] = event?.entryFees && event.entryFees.length > 0 ? event.entryFees : []
 
+  const waitlistOfferFor = (fee: any): { offer_expires_at?: string | null } | null => {
+    if (waitlistClaim?.fee_type === fee.name) return waitlistClaim
+    return waitlistEntries.find((e) => e.fee_type === fee.name && e.status === "offered"
+      && !!e.offer_expires_at && new Date(e.offer_expires_at) > new Date()) || null
+  }
+
   const isSoldOut = (fee: any): boolean => {
     if (!fee.maxTickets || fee.maxTickets <= 0) return false
-    return (soldCounts[fee.name] ?? 0) >= fee.maxTickets
+    if (waitlistOfferFor(fee)) return false
+    return (soldCounts[fee.name] ?? 0) + (heldCounts[fee.name] ?? 0) >= fee.maxTickets
+  }
+
+  const handleJoinWaitlist = async (fee: any) => {
+    if (!user) {
+      Alert.alert("Sign In Required", "Please sign in to join the waitlist so we can notify you when a ticket frees up.")
+      return
+    }
+    try {
+      setJoiningWaitlist(fee.name)
+      const entry = await WaitlistService.join(eventId, fee.name, user.displayName || undefined)
+      setWaitlistEntries(await WaitlistService.mine(eventId).catch(() => [entry]))
+      Alert.alert(
+        entry.status === "offered" ? "A ticket is held for you" : "You're on the waitlist",
+        entry.status === "offered"
+          ? "A spot just opened up. Complete your purchase before the hold expires."
+          : "We'll notify you by push and email when a ticket becomes available.",
+      )
+    } catch (error: any) {
+      Alert.alert("Waitlist", error.message || "Could not join the waitlist")
+    } finally {
+      setJoiningWaitlist(null)
+    }
+  }
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    try {
+      await WaitlistService.leave(eventId, entry.id)
+      setWaitlistEntries((prev) => prev.filter((e) => e.id !== entry.id))
+    } catch (error: any) {
+      Alert.alert("Waitlist", error.message || "Could not leave the waitlist")
+    }
+  }
+
+  const renderWaitlistAction = (fee: any) => {
+    const offer = waitlistOfferFor(fee)
+    if (offer?.offer_expires_at) {
+      return (
+        <Text style={styles.waitlistOfferText}>
+          Held for you until {new Date(offer.offer_expires_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </Text>
+      )
+    }
+    if (!isSoldOut(fee)) return null
+    const entry = waitlistEntries.find((e) => e.fee_type === fee.name && e.status === "waiting")
+    if (entry) {
+      return (
+        <View style={styles.waitlistRow}>
+          <Text style={styles.waitlistText}>On waitlist{entry.position ? ` · #${entry.position} in line` : ""}</Text>
+          <TouchableOpacity onPress={() => handleLeaveWaitlist(entry)}>
+            <Text style={styles.waitlistLeaveText}>Leave</Text>
+          </TouchableOpacity>
+        </View>
+      )
+    }
+    return (
+      <TouchableOpacity style={styles.waitlistButton} onPress={() => handleJoinWaitlist(fee)} disabled={joiningWaitlist === fee.name}>
+        {joiningWaitlist === fee.name
+          ? <ActivityIndicator size="small" color="#00D4FF" />
+          : <Text style={styles.waitlistButtonText}>Join waitlist</Text>}
+      </TouchableOpacity>
+    )
   }
 
   const openSeatMap = async (fee: any, personIndex?: number, mode?: "seat" | "table") => {
@@ -243,6 +344,10 @@ const TicketPurchaseScreen: React.FC = () => {
   const [progressStep, setProgressStep] = useState(0)
   const [progressCompleted, setProgressCompleted] = useState(false)
   const [deliveryEmail, setDeliveryEmail] = useState("")
+  // A checkout the risk engine held for a step-up; the retry sends the assessment it passed on
+  const [riskDecision, setRiskDecision] = useState<CheckoutRiskDecision | null>(null)
+  const [stepUpPassed, setStepUpPassed] = useState(0)
+  const riskAssessmentRef = useRef<string | undefined>(undefined)
   const scrollRef = useRef<ScrollView>(null)
   const fieldYPositions = useRef<Record<string, number>>({})
 
@@ -320,18 +425,18 @@ const TicketPurchaseScreen: React.FC = () => {
 
   // Installment state
   const [useInstallments, setUseInstallments] = useState(false)
-  const [installmentPlanType, setInstallmentPlanType] = useState<InstallmentPlanType>("2")
+  const [installmentTemplateId, setInstallmentTemplateId] = useState<string | null>(null)
   const [installmentPlanId, setInstallmentPlanId] = useState<string | null>(null)
 
   // ===========================================================================
   // FIX: Security-photo branch logic, computed ONCE at component scope so it's
-  // visible both to the JSX render below AND to handlePurchase/createTicketAndNavigate.
+  // visible both to the JSX render below AND to handlePurchase/registerOrder.
   // Previously this was declared separately inside handlePurchase AND inside
   // createTicketAndNavigate (in the latter case, even referencing deliveryEmails/
   // payerEmail before those were defined) � neither of those inner copies was
   // visible to the JSX, which is what caused:
   //   "ReferenceError: showManualPhotoCapture is not defined"
-  // Do not redeclare these inside handlePurchase or createTicketAndNavigate �
+  // Do not redeclare these inside handlePurchase or registerOrder �
   // both functions now just reference these component-scope values directly.
   // ===========================================================================
   const payerEmailForPhotoCheck = buyerContactEmail.trim() || visitorEmail.trim() || buyerEmails[0]?.trim() || user?.email || ""
@@ -372,7 +477,7 @@ const TicketPurchaseScreen: React.FC = () => {
       try { sessionStorage.removeItem("yovibe_ticket_draft_" + (event ? event.id : "")) } catch {}
       setPurchaseStatus("success")
       setStatusMessage("Payment successful! Creating your ticket...")
-      await createTicketAndNavigate(true, verificationResult)
+      await waitForTickets(depositId)
     } else if (resultStatus === "FAILED") {
       setCheckingPayment(false)
       const failMsg = verificationResult?.failureMessage || "Your mobile money payment was not completed."
@@ -403,7 +508,7 @@ const TicketPurchaseScreen: React.FC = () => {
           setPesapalTrackingId(null)
           setPurchaseStatus("success")
           setStatusMessage("Payment verified! Creating your ticket...")
-          await createTicketAndNavigate(false, verification)
+          await waitForTickets(merchantReference)
           return
         }
         if (verification.status === "failed") {
@@ -419,26 +524,29 @@ const TicketPurchaseScreen: React.FC = () => {
     setStatusMessage("Payment is still being verified. You can retry verification or cancel. Do not pay again unless the payment is confirmed failed.")
   }
 
-  const createTicketAndNavigate = async (isMobileMoney: boolean, verificationResult: any) => {
-    let fulfillmentId: string | null = null
-    
-    try {
-      setLoading(true)
-      setProgressVisible(true)
-      setProgressCompleted(false)
-      setProgressStep(0)
+  const getOrderEmails = () => {
+    const payerEmail = user?.email || buyerContactEmail.trim() || visitorEmail.trim() || buyerEmails[0]?.trim() || ""
+    const deliveryEmails: string[] = emailDistribution === "single"
+      ? Array(actualTicketCount).fill(visitorEmail.trim() || buyerEmails[0]?.trim() || payerEmail)
+      : getBuyerEmails()
+    return { payerEmail, deliveryEmails }
+  }
 
-      const buyerNamesList = getBuyerNames()
-      const buyerEmailsList = getBuyerEmails()
-      const paymentId = verificationResult.depositId || paymentOrderId || `pi_${Date.now()}`
-      const buyerEmailFinal = user?.email || buyerContactEmail.trim() || ""
-      const buyerNameFinal = visitorName.trim() || buyerContactEmail.trim().split('@')[0] || "Guest"
-      
-      fulfillmentId = await TicketService.createPendingFulfillment({
+  // Record the order for the server-side fulfillment worker before the
+  // payment is initiated, so the tickets are issued once the processor
+  // confirms it even if this tab is closed. No payment starts without it.
+  const registerOrder = async (paymentId: string, ids: { pawapayDepositId?: string; pesapalTrackingId?: string }) => {
+    const isMobileMoney = paymentMethod === "mobile_money"
+    const buyerNamesList = getBuyerNames()
+    const { payerEmail, deliveryEmails } = getOrderEmails()
+    const buyerPhone = (paymentMethod === "credit_card" ? cardPhone : mobileMoneyNumber) || undefined
+
+    try {
+      await TicketService.createPendingFulfillment({
         paymentId,
-        pawapayDepositId: isMobileMoney ? verificationResult.depositId : undefined,
+        ...ids,
         buyerEmail: user?.email || buyerContactEmail.trim() || "",
-        buyerName: buyerNameFinal,
+        buyerName: visitorName.trim() || buyerContactEmail.trim().split('@')[0] || "Guest",
         buyerId: user?.id,
         eventId: event!.id,
         eventName: event!.name,
@@ -446,115 +554,63 @@ const TicketPurchaseScreen: React.FC = () => {
         quantity: actualTicketCount,
         amount: total,
         attendeeNames: buyerNamesList,
+        order: {
+          buyerNames: buyerNamesList,
+          buyerEmails: getBuyerEmails(),
+          deliveryEmails,
+          payerEmail,
+          isTableEntry,
+          tableSize,
+          seatNumbers: isTableEntry ? undefined : perPersonSeats,
+          tableNumbers: isTableEntry
+            ? tableSeats.flatMap((t) => t != null ? Array(tableSize).fill(t) : [null]).slice(0, actualTicketCount)
+            : undefined,
+          buyerPhone,
+          buyerPhotoUrl: securityPhotoEnabled && photoCaptured ? buyerPhotoUrl : undefined,
+          totalAmount: total,
+          paymentMethod: paymentMethod || "mobile_money",
+          paymentProvider: isMobileMoney ? mobileMoneyProvider : undefined,
+          paymentNumber: isMobileMoney ? mobileMoneyNumber : (paymentMethod === "credit_card" ? cardPhone : undefined),
+          paymentName: isMobileMoney
+            ? mobileMoneyName
+            : paymentMethod === "credit_card" ? `${cardFirstName} ${cardLastName}`.trim() : undefined,
+          ticketType: selectedTicketTypeName,
+          promoCode: appliedPromoCode || undefined,
+          discountAmount: appliedPromoCode ? discount : undefined,
+          pricePhase: currentPhase?.phase?.name,
+        },
       })
-      console.log("? Created pending fulfillment:", fulfillmentId)
-      
-      await TicketService.updateFulfillmentStatus(fulfillmentId, "fulfilling")
-
-      const includePhoto = securityPhotoEnabled && photoCaptured
-      
-      const ticketCount = actualTicketCount
+    } catch (error) {
+      console.error("Could not record order for fulfillment:", paymentId, error)
+      throw new Error("We couldn't save your order, so no payment was taken. Please try again.")
+    }
+  }
 
-      const payerEmail = user?.email || buyerContactEmail.trim() || visitorEmail.trim() || buyerEmails[0]?.trim() || ""
-      const deliveryEmails = emailDistribution === "single"
-        ? Array(actualTicketCount).fill(visitorEmail.trim() || buyerEmails[0]?.trim() || payerEmail)
-        : buyerEmailsList
+  // The payment is confirmed; the fulfillment worker creates and emails the
+  // tickets. Follow its progress so the buyer sees them land.
+  const waitForTickets = async (paymentId: string) => {
+    try {
+      setLoading(true)
+      setProgressVisible(true)
+      setProgressCompleted(false)
+      setProgressStep(0)
 
+      const { payerEmail, deliveryEmails } = getOrderEmails()
       setDeliveryEmail(deliveryEmails[0]?.trim() || payerEmail)
 
-      const isBuyingForSelf = actualTicketCount === 1 && !isTableEntry && !buyingForSomeoneElse
-      const showManualPhotoCapture = isBuyingForSelf
-      const securityPhotoForcedViaEmail = actualTicketCount > 1 || isTableEntry || (actualTicketCount === 1 && !isBuyingForSelf)
-
-      setProgressStep(1) // Saving ticket�
-      const tickets = await TicketService.purchaseTicketsForTable(
-        event!,
-        buyerNamesList,
-        buyerEmailsList,
-        ticketCount,
-        isTableEntry,
-        tableSize,
-        quantity,
-        includePhoto ? buyerPhotoUrl : "",
-        total,
-        {
-          method: paymentMethod || "mobile_money",
-          provider: paymentMethod === "mobile_money" ? mobileMoneyProvider : undefined,
-          number: paymentMethod === "mobile_money" ? mobileMoneyNumber : (paymentMethod === "credit_card" ? cardPhone : undefined),
-          name: paymentMethod === "mobile_money" ? mobileMoneyName : undefined,
-          expiry: paymentMethod === "credit_card" ? cardExpiry : undefined,
-          cardNumber: paymentMethod === "credit_card" ? cardNumber.slice(-4) : undefined,
-          bankName: paymentMethod === "bank_transfer" ? bankName : undefined,
-          accountNumber: paymentMethod === "bank_transfer" ? bankAccountNumber : undefined,
-          accountName: paymentMethod === "bank_transfer" ? bankAccountName : undefined,
-          ticketType: selectedTicketTypeName,
-          paymentReference: paymentOrderId || undefined,
-          pesapalTransactionId: !isMobileMoney ? verificationResult.transactionId : undefined,
-          pesapalConfirmationCode: !isMobileMoney ? verificationResult.confirmationCode : undefined,
-        },
-        user?.id ?? null,
-        payerEmail,
-        deliveryEmails,
-        isTableEntry
-          ? undefined
-          : perPersonSeats,
-        isTableEntry
-          ? tableSeats.flatMap((t) => t != null ? Array(tableSize).fill(t) : [null]).slice(0, actualTicketCount)
-          : undefined,
-        (paymentMethod === "credit_card" ? cardPhone : mobileMoneyNumber) || undefined,
-        paymentId,
-        paymentMethod === "credit_card" ? `${cardFirstName} ${cardLastName}`.trim() : undefined,
-      )
+      const fulfillment = await TicketService.waitForFulfillment(paymentId, (f) => {
+        const count = f.quantity || 1
+        if (f.status === "fulfilled") setProgressStep(4) // Ticket successfully delivered
+        else if ((f.ticketIds?.length ?? 0) < count) setProgressStep(f.status === "fulfilling" ? 1 : 0) // Saving ticket…
+        else if (!f.emailedTicketIds?.length) setProgressStep(2) // Generating ticket email…
+        else setProgressStep(3) // Sending email to {delivery email}…
+      })
 
-      const baseUrl = typeof window !== "undefined" ? window.location.origin : "https://yovibe.net"
-      
-      setProgressStep(2) // Generating ticket email�
-      for (const ticket of tickets) {
-        try {
-          const payerEmailMatchesDelivery = ticket.deliveryEmail === payerEmail
-          const shouldIncludePhotoLink = ticket.photoUploadToken && (!ticket.buyerPhotoUrl || !payerEmailMatchesDelivery)
-          const photoUploadLink = shouldIncludePhotoLink 
-            ? `${baseUrl}/add-photo?ticket=${ticket.id}&token=${ticket.photoUploadToken}`
-            : undefined
-          
-          // Find the ticket design from the entry fee
-          const ticketDesign = event?.entryFees?.find((f: any) => f.name === ticket.entryFeeType)?.ticketDesign
-
-          setProgressStep(3) // Sending email to {delivery email}�
-          await fetch(`/.netlify/functions/send-ticket-email`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              buyerEmail: ticket.deliveryEmail ?? ticket.buyerEmail,
-              buyerName: ticket.buyerName,
-              eventName: ticket.eventName,
-              ticketType: ticket.entryFeeType,
-              venue: ticket.venueName,
-              date: ticket.eventStartTime.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" }),
-              time: ticket.eventStartTime.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
-              ticketRef: ticket.ticketRef,
-              qrCodeDataUrl: ticket.qrCodeDataUrl,
-              seatNumber: ticket.tableNumber ? undefined : ticket.seatNumber,
-              tableNumber: ticket.tableNumber,
-              tableGroupId: ticket.tableGroupId,
-              photoUploadLink,
-              ticketDesign,
-              posterUrl: event?.posterImageUrl,
-            }),
-          })
-          console.log(`Email sent for ticket ${ticket.id}`)
-        } catch (err) {
-          console.error(`Failed to send email for ticket ${ticket.id}:`, err)
-          Alert.alert("Notice", "Your ticket is ready! We had trouble emailing a copy � you can always find it under My Tickets.")
-        }
+      if (fulfillment?.status !== "fulfilled") {
+        throw new Error(fulfillment?.lastError || "Ticket fulfillment is still in progress")
       }
 
-      await TicketService.updateFulfillmentStatus(fulfillmentId, "fulfilled", {
-        ticketIds: tickets.map(t => t.id),
-      })
-      console.log("? Fulfillment completed successfully")
-
-      setProgressStep(4) // Ticket successfully delivered
+      setProgressStep(4)
       setProgressCompleted(true)
 
       setPurchaseStatus("success")
@@ -566,60 +622,112 @@ const TicketPurchaseScreen: React.FC = () => {
       }, 1000)
 
     } catch (error: any) {
-      console.error("Ticket creation error:", error)
+      console.error("Ticket fulfillment not finished:", error)
       setProgressVisible(false)
       
-      if (fulfillmentId) {
-        await TicketService.updateFulfillmentStatus(fulfillmentId, "failed", {
-          lastError: error.message || "Unknown error during ticket fulfillment",
-          attemptCount: 1,
-        })
-      }
-      
-      const referenceMsg = fulfillmentId 
-        ? `If you don't receive your ticket within 30 minutes, contact support with this reference: ${fulfillmentId}`
-        : "Please contact support with your payment reference."
-      
       Alert.alert(
         "Payment Received",
-        `Your payment was successful. We're finalizing your ticket and will email it shortly. If you don't receive it within 30 minutes, contact support.`,
+        `Your payment was successful. We're finalizing your ticket and will email it shortly. If you don't receive it within 30 minutes, contact support with this reference: ${paymentId}`,
         [{ text: "OK", onPress: () => navigation.navigate("MyTickets") }]
       )
       
       setPurchaseStatus("success")
-      setStatusMessage("Payment received � finalizing ticket...")
+      setStatusMessage("Payment received · finalizing ticket...")
     } finally {
       setLoading(false)
     }
   }
 
-  // Get base price from selected ticket type or event entry fees
+  const phaseFor = (fee: any) => resolvePricePhase(fee, soldCounts[fee.name] ?? 0)
+
+  const renderPhaseNote = (fee: any) => {
+    const { phase, next, remainingAtPrice } = phaseFor(fee)
+    if (!phase) return null
+    const until = remainingAtPrice != null
+      ? `${remainingAtPrice} left at this price`
+      : next && phase.endsAt
+        ? `${next.name} from ${new Date(phase.endsAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`
+        : null
+    return <Text style={styles.phaseText}>{phase.name}{until ? ` · ${until}` : ""}</Text>
+  }
+
+  // Get base price from the selected ticket type's current price phase
   // For table entries, calculate price per person from total table price
-  const rawBasePrice = selectedTicketType
-    ? Number.parseInt(selectedTicketType.amount?.replace(/[^0-9]/g, "") || "0")
-    : event && event.entryFees && event.entryFees.length > 0
-      ? Number.parseInt(event.entryFees[0].amount?.replace(/[^0-9]/g, "") || "0")
-      : 0
+  const pricedFee = selectedTicketType
+    ? event?.entryFees?.find((f) => f.name === selectedTicketType.name) || selectedTicketType
+    : event?.entryFees?.[0]
+  const currentPhase = pricedFee ? phaseFor(pricedFee) : null
+  const rawBasePrice = currentPhase?.amount ?? 0
   
   // For table entries: divide total table price by number of people
   const basePrice = isTableEntry && tableSize > 0 ? rawBasePrice / tableSize : rawBasePrice
 
-  // Calculate prices with late fee using useMemo for efficiency
+  // A typed code wins while it still applies; otherwise the best group deal is applied automatically
+  const promoOrder = { ticketType: selectedTicketType?.name || "", quantity: actualTicketCount, subtotal: basePrice * actualTicketCount }
+  useEffect(() => {
+    if (!event?.id) return
+    let cancelled = false
+    PromoCodeService.check(event.id, { ...promoOrder, code: enteredCode || undefined })
+      .then((check) => { if (!cancelled) setPromoCheck(check) })
+      .catch((error) => console.error("Promo check failed:", error))
+    return () => { cancelled = true }
+  }, [event?.id, enteredCode, promoOrder.ticketType, promoOrder.quantity, promoOrder.subtotal])
+  const appliedPromo = promoCheck?.promo ?? null
+  const promoDiscountAmount = promoCheck?.discount ?? 0
+
+  // Itemised quote from the shared pricing engine, using the organiser's commission rate
   const pricing = useMemo(() => {
     if (!event || !event.date) {
-      return { subtotal: 0, lateFee: 0, total: 0, isLatePurchase: false }
+      return quoteTicketPrice({ unitPrice: 0, quantity: 0 })
     }
-    return PesaPalService.calculateTicketPrice(basePrice, actualTicketCount, event.date, event.lateFeePercent)
-  }, [basePrice, actualTicketCount, event?.date])
+    return quoteTicketPrice({
+      unitPrice: basePrice,
+      quantity: actualTicketCount,
+      eventStartTime: event.date,
+      lateFeePercent: event.lateFeePercent,
+      discount: promoDiscountAmount,
+      paymentMethod: paymentMethod ?? undefined,
+      commissionRate,
+      installments: useInstallments,
+    })
+  }, [basePrice, actualTicketCount, event?.date, event?.lateFeePercent, promoDiscountAmount, paymentMethod, commissionRate, useInstallments])
 
-  const { subtotal, lateFee, total, isLatePurchase } = pricing
-  const { appCommission, venueRevenue } = PaymentService.calculateRevenueSplit(total)
+  const { subtotal, discount, lateFee, total, isLatePurchase, commission, organiserNet } = pricing
+  const appliedPromoCode = appliedPromo && discount > 0 ? appliedPromo.code : undefined
 
-  // Installment preview � recalculated whenever plan type or total changes
+  const handleApplyPromo = async () => {
+    setPromoError("")
+    if (!event?.id || !promoInput.trim()) return
+    try {
+      const check = await PromoCodeService.check(event.id, { ...promoOrder, code: promoInput })
+      setPromoCheck(check)
+      if (check.error) {
+        setEnteredCode(null)
+        setPromoError(check.error)
+        return
+      }
+      setEnteredCode(normalizePromoCode(promoInput))
+    } catch (error: any) {
+      setPromoError(error.message || "Could not check that promo code")
+    }
+  }
+
+  // Only the organiser's plans this ticket price qualifies for are offered
+  const installmentOptions = useMemo(() => {
+    if (!event?.date) return []
+    return eligibleInstallmentTemplates(event, { unitPrice: basePrice, eventDate: event.date })
+  }, [event?.installmentTemplates, event?.date, basePrice])
+  const installmentTemplate = installmentOptions.find((t) => t.id === installmentTemplateId) ?? installmentOptions[0]
+
+  useEffect(() => {
+    if (useInstallments && !installmentOptions.length) setUseInstallments(false)
+  }, [useInstallments, installmentOptions.length])
+
+  // Installment preview � recalculated whenever plan template or total changes
   const installmentPreview = useMemo(() => {
-    if (!useInstallments || !event?.date) return []
-    return InstallmentService.previewPlan(total, installmentPlanType, event.date)
-  }, [useInstallments, installmentPlanType, total, event?.date])
+    if (!useInstallments || !event?.date || !installmentTemplate) return []
+    return InstallmentService.previewPlan(total, installmentTemplate, event.date)
+  }, [useInstallments, installmentTemplate, total, event?.date])
   
 const updateBuyerName = (index: number, name: string) => {
     setBuyerNames(prev => {
@@ -654,31 +762,34 @@ const updateBuyerName = (index: number, name: string) => {
     return buyerEmails.slice(0, actualTicketCount).map(email => email.trim())
   }
   
-  const handleCapturePhoto = async () => {
-    try {
-      setLoading(true)
+  // Opens the camera and puts the photo on the ticket; resolves to its URI
+  const capturePhoto = async (): Promise<string | undefined> => {
+    // Request camera permissions
+    const { status } = await ImagePicker.requestCameraPermissionsAsync()
+    if (status !== "granted") {
+      Alert.alert("Permission Required", "Camera permission is needed to capture your photo for verification.")
+      return undefined
+    }
 
-      // Request camera permissions
-      const { status } = await ImagePicker.requestCameraPermissionsAsync()
-      if (status !== "granted") {
-        Alert.alert("Permission Required", "Camera permission is needed to capture your photo for verification.")
-        return
-      }
+    // Launch camera
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    })
 
-      // Launch camera
-      const result = await ImagePicker.launchCameraAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      })
+    if (result.canceled || !result.assets[0]) return undefined
+    const photoUri = result.assets[0].uri
+    setBuyerPhotoUrl(photoUri)
+    setPhotoCaptured(true)
+    return photoUri
+  }
 
-      if (!result.canceled && result.assets[0]) {
-        const photoUri = result.assets[0].uri
-        setBuyerPhotoUrl(photoUri)
-        setPhotoCaptured(true)
-        Alert.alert("Success", "Photo captured successfully!")
-      }
+  const handleCapturePhoto = async () => {
+    try {
+      setLoading(true)
+      if (await capturePhoto()) Alert.alert("Success", "Photo captured successfully!")
     } catch (error) {
       Alert.alert("Error", "Failed to capture photo")
     } finally {
@@ -686,8 +797,27 @@ const updateBuyerName = (index: number, name: string) => {
     }
   }
 
+  // What the payment functions score the checkout on
+  const checkoutRiskContext = async (buyerEmail: string, phone: string, payerName: string): Promise<CheckoutRiskInput> => ({
+    eventId: event!.id,
+    eventName: event!.name,
+    email: buyerEmail || getOrderEmails().payerEmail,
+    phone: phone || undefined,
+    payerName: payerName || undefined,
+    buyerNames: getBuyerNames(),
+    photoHash: securityPhotoEnabled && photoCaptured ? await RiskService.photoHash(buyerPhotoUrl) : undefined,
+    quantity: actualTicketCount,
+    amount: total,
+  })
+
+  // Retry the purchase once the passed step-up has rendered
+  useEffect(() => {
+    if (stepUpPassed) void handlePurchase()
+  }, [stepUpPassed])
+
 const handleInstallmentPurchase = async () => {
     setFieldErrors({})
+    if (!installmentTemplate) return
     const errs = validatePurchaseForm()
     delete errs.paymentMethod; delete errs.mobileMoneyNumber; delete errs.cardFirstName; delete errs.cardLastName; delete errs.cardPhone
     if (Object.keys(errs).length > 0) { handleFieldErrors(errs); return }
@@ -704,7 +834,7 @@ const handleInstallmentPurchase = async () => {
       setLoading(true)
       const result = await InstallmentService.createPlanAndPayFirst(
         event!,
-        installmentPlanType,
+        installmentTemplate.id,
         total,
         lateFee,
         {
@@ -719,13 +849,16 @@ const handleInstallmentPurchase = async () => {
           tableSize,
           buyerPhotoUrl: photoCaptured ? buyerPhotoUrl : undefined,
           seatNumber: isTableEntry ? (tableSeats[0] ?? undefined) : (perPersonSeats.filter(s => s != null)[0] ?? undefined),
+          ticketType: selectedTicketType?.name,
+          pricePhase: currentPhase?.phase?.name,
         },
         {
           method: (paymentMethod || "credit_card") as "mobile_money" | "credit_card" | "bank_transfer",
           provider: paymentMethod === "mobile_money" ? mobileMoneyProvider : undefined,
           number: paymentMethod === "mobile_money" ? mobileMoneyNumber : undefined,
           name: paymentMethod === "mobile_money" ? mobileMoneyName : undefined,
-        }
+        },
+        appliedPromoCode ? { code: appliedPromoCode, discountAmount: discount } : undefined,
       )
 
       setInstallmentPlanId(result.planId)
@@ -781,7 +914,7 @@ const handleInstallmentPurchase = async () => {
     if (status === "COMPLETED") {
       await InstallmentService.onInstallmentPaid(planId, installmentIndex, depositId, "mobile_money")
       setPurchaseStatus("success")
-      const remaining = parseInt(installmentPlanType) - 1
+      const remaining = (installmentTemplate?.parts ?? 1) - 1
       setStatusMessage(
         remaining > 0
           ? `First installment paid! ${remaining} installment${remaining > 1 ? "s" : ""} remaining. Find them in My Tickets.`
@@ -861,21 +994,33 @@ const handleInstallmentPurchase = async () => {
         // Handle mobile money payment via PawaPay
         const provider = mobileMoneyProvider === "mtn" ? "MTN_MOMO_UGA" : "AIRTEL_OAPI_UGA"
         
+        const depositId = PawaPayService.newDepositId()
+        await registerOrder(depositId, { pawapayDepositId: depositId })
+
         console.log("?? Initiating mobile money payment via PawaPay...")
         const depositResult = await PawaPayService.initiateDeposit(
           total,
           "UGX",
           mobileMoneyNumber,
-          provider
+          provider,
+          {
+            context: await checkoutRiskContext(buyerEmail, mobileMoneyNumber, mobileMoneyName.trim()),
+            assessmentId: riskAssessmentRef.current,
+          },
+          depositId,
         )
 
+        if (depositResult.risk?.action === "step_up") {
+          setRiskDecision(depositResult.risk)
+          return
+        }
         if (!depositResult.success) {
           throw new Error(depositResult.error || "Failed to initiate mobile money payment")
         }
+        riskAssessmentRef.current = undefined
 
         console.log("? PawaPay deposit initiated:", depositResult.depositId)
-        
-        const depositId = depositResult.depositId!
+
         setPaymentOrderId(depositId)
         setPawaPayDepositId(depositId)
         setPaymentStatus("pending")
@@ -889,6 +1034,10 @@ const handleInstallmentPurchase = async () => {
         const description = `${quantity}x ${selectedTicketTypeName} ticket(s) for ${event!.name}`
         const callbackUrl = typeof window !== "undefined" ? `${window.location.origin}/events/payment-callback` : ""
 
+        // The order function links PesaPal's tracking id to this row once it has one
+        const merchantReference = PesaPalService.newOrderId()
+        await registerOrder(merchantReference, {})
+
         console.log("?? Submitting order to PesaPal...")
         const orderResult = await PesaPalService.submitOrder(
           total,
@@ -899,11 +1048,21 @@ const handleInstallmentPurchase = async () => {
           buyerName,
           cardFirstName || undefined,
           cardLastName || undefined,
+          {
+            context: await checkoutRiskContext(buyerEmail, cardPhone.trim() || buyerPhone, `${cardFirstName} ${cardLastName}`.trim()),
+            assessmentId: riskAssessmentRef.current,
+          },
+          merchantReference,
         )
 
+        if (orderResult.risk?.action === "step_up") {
+          setRiskDecision(orderResult.risk)
+          return
+        }
         if (!orderResult.success || !orderResult.paymentUrl) {
           throw new Error(orderResult.error || "Failed to initialize payment")
         }
+        riskAssessmentRef.current = undefined
 
         console.log("? PesaPal order created:", orderResult.orderId)
         console.log("?? Payment URL:", orderResult.paymentUrl)
@@ -1111,6 +1270,16 @@ const handleInstallmentPurchase = async () => {
         onDismiss={() => { setPurchaseStatus(null); setStatusMessage("") }}
       />
 
+      <CheckoutStepUpDialog
+        decision={riskDecision}
+        onVerified={(assessmentId) => {
+          riskAssessmentRef.current = assessmentId
+          setRiskDecision(null)
+          setStepUpPassed((n) => n + 1)
+        }}
+        onCancel={() => setRiskDecision(null)}
+      />
+
       <View style={isLargeScreen ? styles.desktopTicketLayout : undefined}>
       <View style={isLargeScreen ? styles.desktopTicketLeft : undefined}>
         <View style={[styles.ticketSection, isLargeScreen && styles.desktopSectionWide]}>
@@ -1130,7 +1299,7 @@ const handleInstallmentPurchase = async () => {
                 return (
                   <TouchableOpacity
                     key={`${fee.name}_tier`}
-                    activeOpacity={0.8}
+                    activeOpacity={soldOut ? 1 : 0.8}
                     style={[
                       styles.tierCard,
                       isSelected && styles.tierCardSelected,
@@ -1141,7 +1310,6 @@ const handleInstallmentPurchase = async () => {
                       setSelectedTicketType(fee)
                       setFieldErrors((prev: any) => { const n = { ...prev }; delete n.ticketType; return n })
                     }}
-                    disabled={soldOut}
                   >
                     <View style={styles.tierCardHeader}>
                       <Text style={[styles.tierCardName, soldOut && { color: "#666" }]}>{fee.name}</Text>
@@ -1158,11 +1326,13 @@ const handleInstallmentPurchase = async () => {
                       ) : null}
                     </View>
                     <Text style={[styles.tierCardPrice, soldOut && { color: "#555" }]}>
-                      UGX {Number.parseInt(String(fee.amount || "0").replace(/[^0-9]/g, "") || "0").toLocaleString()}
+                      UGX {phaseFor(fee).amount.toLocaleString()}
                     </Text>
+                    {!soldOut && renderPhaseNote(fee)}
                     {remaining !== null && !soldOut && (
                       <Text style={styles.remainingText}>{remaining} left</Text>
                     )}
+                    {renderWaitlistAction(fee)}
                   </TouchableOpacity>
                 )
               })}
@@ -1556,25 +1726,27 @@ const handleInstallmentPurchase = async () => {
           >
             <Text style={[styles.planToggleText, !useInstallments && styles.planToggleTextActive]}>Pay in Full</Text>
           </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.planToggleBtn, useInstallments && styles.planToggleBtnActive]}
-            onPress={() => setUseInstallments(true)}
-          >
-            <Text style={[styles.planToggleText, useInstallments && styles.planToggleTextActive]}>Pay in Parts</Text>
-          </TouchableOpacity>
+          {installmentOptions.length > 0 && (
+            <TouchableOpacity
+              style={[styles.planToggleBtn, useInstallments && styles.planToggleBtnActive]}
+              onPress={() => setUseInstallments(true)}
+            >
+              <Text style={[styles.planToggleText, useInstallments && styles.planToggleTextActive]}>Pay in Parts</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {useInstallments && (
           <>
             <View style={styles.planTypeRow}>
-              {(["2", "3", "4", "5"] as InstallmentPlanType[]).map((pt) => (
+              {installmentOptions.map((t) => (
                 <TouchableOpacity
-                  key={pt}
-                  style={[styles.planTypeBtn, installmentPlanType === pt && styles.planTypeBtnActive]}
-                  onPress={() => setInstallmentPlanType(pt)}
+                  key={t.id}
+                  style={[styles.planTypeBtn, installmentTemplate?.id === t.id && styles.planTypeBtnActive]}
+                  onPress={() => setInstallmentTemplateId(t.id)}
                 >
-                  <Text style={[styles.planTypeText, installmentPlanType === pt && styles.planTypeTextActive]}>
-                    {pt}x
+                  <Text style={[styles.planTypeText, installmentTemplate?.id === t.id && styles.planTypeTextActive]}>
+                    {t.name}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -1586,7 +1758,7 @@ const handleInstallmentPurchase = async () => {
                 <View key={i} style={styles.installmentRow}>
                   <View style={{ flex: 1 }}>
                     <Text style={styles.installmentLabel}>{label}</Text>
-                    <Text style={styles.installmentFeeNote}>Includes 8% service fee (UGX {inst.serviceFee.toLocaleString()})</Text>
+                    <Text style={styles.installmentFeeNote}>Includes {INSTALLMENT_SERVICE_FEE_RATE * 100}% service fee (UGX {inst.serviceFee.toLocaleString()})</Text>
                   </View>
                   <Text style={[styles.installmentAmount, i === 0 && styles.installmentAmountFirst]}>
                     UGX {inst.totalDue.toLocaleString()}
@@ -1626,6 +1798,25 @@ const handleInstallmentPurchase = async () => {
 
         <Text style={styles.sectionTitle}>Order Summary</Text>
 
+        {!!promoCheck?.acceptsCodes && (
+          <View style={styles.promoSection}>
+            <View style={styles.promoRow}>
+              <TextInput
+                style={styles.promoInput}
+                value={promoInput}
+                onChangeText={(text) => { setPromoInput(text); setPromoError("") }}
+                placeholder="Promo code"
+                placeholderTextColor="#666"
+                autoCapitalize="characters"
+              />
+              <TouchableOpacity style={styles.promoApplyButton} onPress={handleApplyPromo}>
+                <Text style={styles.promoApplyText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+            {!!promoError && <Text style={styles.promoError}>{promoError}</Text>}
+          </View>
+        )}
+
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>
             Tickets ({quantity}x){isTableEntry && tableSize > 1 ? ` (${tableSize} pax/table)` : ""}
@@ -1633,6 +1824,13 @@ const handleInstallmentPurchase = async () => {
           <Text style={styles.summaryValue}>UGX {subtotal.toLocaleString()}</Text>
         </View>
 
+        {!!appliedPromoCode && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Promo {appliedPromoCode}:</Text>
+            <Text style={[styles.summaryValue, styles.promoDiscountValue]}>- UGX {discount.toLocaleString()}</Text>
+          </View>
+        )}
+
         {isLatePurchase && (
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Late Fee ({(event?.lateFeePercent ?? 0)}%):</Text>
@@ -1643,19 +1841,19 @@ const handleInstallmentPurchase = async () => {
         {!useInstallments && (
           <>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>YoVibe Fee (15%):</Text>
-              <Text style={styles.summaryValue}>UGX {appCommission.toLocaleString()}</Text>
+              <Text style={styles.summaryLabel}>YoVibe Fee ({Math.round(pricing.commissionRate * 100)}%):</Text>
+              <Text style={styles.summaryValue}>UGX {commission.toLocaleString()}</Text>
             </View>
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Event Revenue:</Text>
-              <Text style={styles.summaryValue}>UGX {venueRevenue.toLocaleString()}</Text>
+              <Text style={styles.summaryValue}>UGX {organiserNet.toLocaleString()}</Text>
             </View>
           </>
         )}
 
         {useInstallments && installmentPreview.length > 0 && (
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Due today (incl. 8% fee):</Text>
+            <Text style={styles.summaryLabel}>Due today (incl. {INSTALLMENT_SERVICE_FEE_RATE * 100}% fee):</Text>
             <Text style={[styles.summaryValue, { color: "#F59E0B" }]}>
               UGX {installmentPreview[0].totalDue.toLocaleString()}
             </Text>
@@ -1711,7 +1909,7 @@ const handleInstallmentPurchase = async () => {
         </View>
         <View style={styles.trustRow}>
           <Ionicons name="information-circle-outline" size={13} color="#F59E0B" />
-          <Text style={styles.trustText}>Installment plans carry an 8% service fee</Text>
+          <Text style={styles.trustText}>Installment plans carry an {INSTALLMENT_SERVICE_FEE_RATE * 100}% service fee</Text>
         </View>
       </View>
       </View>{/* desktopTicketRight */}
@@ -1749,13 +1947,13 @@ const handleInstallmentPurchase = async () => {
                 return (
                   <TouchableOpacity
                     style={[styles.ticketTypeItem, isSelected && styles.ticketTypeItemSelected, soldOut && styles.ticketTypeItemSoldOut]}
+                    activeOpacity={soldOut ? 1 : 0.2}
                     onPress={() => {
                       if (soldOut) return
                       setSelectedTicketType(item)
                       setFieldErrors(prev => { const n = { ...prev }; delete n.ticketType; return n })
                       setShowTicketTypeModal(false)
                     }}
-                    disabled={soldOut}
                   >
                     <View style={styles.ticketTypeItemContent}>
                       <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
@@ -1772,11 +1970,13 @@ const handleInstallmentPurchase = async () => {
                         )}
                       </View>
                       <Text style={[styles.ticketTypeItemPrice, soldOut && { color: "#555" }]}>
-                        UGX {Number.parseInt(item.amount?.replace(/[^0-9]/g, "") || "0").toLocaleString()}
+                        UGX {phaseFor(item).amount.toLocaleString()}
                       </Text>
+                      {!soldOut && renderPhaseNote(item)}
                       {remaining !== null && !soldOut && (
                         <Text style={styles.remainingText}>{remaining} left</Text>
                       )}
+                      {renderWaitlistAction(item)}
                     </View>
                     {isSelected && !soldOut && (
                       <Ionicons name="checkmark-circle" size={24} style={styles.ticketTypeItemCheck} />
@@ -2774,6 +2974,20 @@ const styles = StyleSheet.create({
   seatMapBadge: { backgroundColor: "rgba(0,212,255,0.2)", borderRadius: 4, paddingHorizontal: 6, paddingVertical: 2, borderWidth: 1, borderColor: "#00D4FF" },
   seatMapBadgeText: { color: "#00D4FF", fontSize: 10, fontWeight: "bold" },
   remainingText: { color: "#F59E0B", fontSize: 11, marginTop: 2 },
+  waitlistButton: { alignSelf: "flex-start", marginTop: 8, paddingVertical: 6, paddingHorizontal: 12, borderRadius: 8, borderWidth: 1, borderColor: "#00D4FF" },
+  waitlistButtonText: { color: "#00D4FF", fontSize: 12, fontWeight: "600" },
+  waitlistRow: { flexDirection: "row", alignItems: "center", gap: 12, marginTop: 8 },
+  waitlistText: { color: "#9CA3AF", fontSize: 12 },
+  waitlistLeaveText: { color: "#FF6B6B", fontSize: 12, fontWeight: "600" },
+  waitlistOfferText: { color: "#00FF9F", fontSize: 12, marginTop: 6, fontWeight: "600" },
+  phaseText: { color: "#00D4FF", fontSize: 11, marginTop: 2 },
+  promoSection: { marginBottom: 12 },
+  promoRow: { flexDirection: "row", gap: 8 },
+  promoInput: { flex: 1, backgroundColor: "#2a2a2a", color: "#FFFFFF", paddingHorizontal: 12, paddingVertical: 10, borderRadius: 8, fontSize: 14 },
+  promoApplyButton: { justifyContent: "center", paddingHorizontal: 16, borderRadius: 8, backgroundColor: "#00D4FF" },
+  promoApplyText: { color: "#000000", fontWeight: "700", fontSize: 14 },
+  promoError: { color: "#FF6B6B", fontSize: 12, marginTop: 6 },
+  promoDiscountValue: { color: "#00FF9F" },
   banner: {
     padding: 16,
     marginHorizontal: 16,
@@ -9,17 +9,23 @@ import { useRouter } from "../utils/URLRouter"
 
 import { useAuth } from "../contexts/AuthContext"
 import TicketService from "../services/TicketService"
+import OfflineScanService from "../services/OfflineScanService"
+import type { GateConfig } from "../utils/gateThroughput"
 
 type TicketScannerScreenProps = {
   eventId?: string
   eventName?: string
   isTokenAuth?: boolean
+  staffToken?: string
+  gate?: GateConfig
 }
 
 const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
   eventId: propEventId,
   eventName: propEventName,
-  isTokenAuth = false
+  isTokenAuth = false,
+  staffToken,
+  gate
 }) => {
   const navigation = useCompatNavigation()
   const { currentPath } = useRouter()
@@ -49,6 +55,54 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
   const [showReentryModal, setShowReentryModal] = useState(false)
   const [reentryInfo, setReentryInfo] = useState<{ buyerName: string; buyerPhotoUrl?: string; grantedByName: string; grantedAt: string } | null>(null)
 
+  // Offline door mode state
+  const [manifestInfo, setManifestInfo] = useState<{ count: number; generatedAt: string } | null>(null)
+  const [pendingSyncCount, setPendingSyncCount] = useState(0)
+  const [downloadingManifest, setDownloadingManifest] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [pendingOffline, setPendingOffline] = useState(false)
+
+  const refreshOfflineState = useCallback(async () => {
+    if (!eventId) return
+    const manifest = await OfflineScanService.getManifest(eventId)
+    setManifestInfo(manifest ? { count: manifest.tickets.length, generatedAt: manifest.generatedAt } : null)
+    setPendingSyncCount(await OfflineScanService.getPendingCount(eventId))
+  }, [eventId])
+
+  useEffect(() => {
+    refreshOfflineState().catch((err) => console.error("[TicketScanner] Failed to load offline state:", err))
+    if (!eventId) return
+    return OfflineScanService.watchConnectivity(eventId, staffToken, () => { refreshOfflineState() })
+  }, [eventId, staffToken, refreshOfflineState])
+
+  const handleDownloadManifest = useCallback(async () => {
+    if (!eventId) return
+    setDownloadingManifest(true)
+    try {
+      const manifest = await OfflineScanService.downloadManifest(eventId, staffToken)
+      await refreshOfflineState()
+      Alert.alert("Offline Ready", `${manifest.tickets.length} tickets saved to this device.`)
+    } catch (error: any) {
+      Alert.alert("Download Failed", error?.message || "Could not download the ticket list")
+    } finally {
+      setDownloadingManifest(false)
+    }
+  }, [eventId, staffToken, refreshOfflineState])
+
+  const handleSyncScans = useCallback(async () => {
+    if (!eventId) return
+    setSyncing(true)
+    try {
+      const result = await OfflineScanService.syncPendingScans(eventId, staffToken)
+      await refreshOfflineState()
+      Alert.alert("Sync Complete", `${result.synced} scans uploaded${result.conflicts ? `, ${result.conflicts} conflicts flagged for the organiser` : ""}.`)
+    } catch (error: any) {
+      Alert.alert("Sync Failed", error?.message || "Could not upload offline scans")
+    } finally {
+      setSyncing(false)
+    }
+  }, [eventId, staffToken, refreshOfflineState])
+
   // Auth check - only for non-token auth
   useEffect(() => {
     if (!isTokenAuth && !hasCheckedAuth.current) {
@@ -173,7 +227,25 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
 
     try {
       setValidating(true)
-      const result = await TicketService.validateTicket(qrCodeData, user?.id || "", eventName || "Event Entrance")
+      const validatorId = user?.id || (staffToken ? `staff:${staffToken.slice(0, 8)}` : "")
+      type ScanResult = Awaited<ReturnType<typeof TicketService.validateTicket>> & { offline?: boolean }
+      const runValidation = async (options?: { allowStaticFallback?: boolean }): Promise<ScanResult> => {
+        if (OfflineScanService.isOffline()) {
+          return OfflineScanService.validateOffline(eventId, qrCodeData, validatorId, eventName || "Event Entrance", gate, options)
+        }
+        const online = await TicketService.validateTicket(qrCodeData, user?.id || "", eventName || "Event Entrance", gate, options)
+        // Connectivity dropped mid-request — fall back to the downloaded manifest
+        if (!online.networkError || !manifestInfo) return online
+        console.warn("[TicketScanner] Online validation failed, using offline manifest:", online.reason)
+        return OfflineScanService.validateOffline(eventId, qrCodeData, validatorId, eventName || "Event Entrance", gate, options)
+      }
+      let result = await runValidation()
+      // Static PDF/email code on a live-QR ticket: only door staff can wave it through
+      const overridePrompt = result.offline ? "Scanning offline." : "This is the backup code from the PDF/email."
+      if (result.requiresLiveQR && window.confirm(`${result.reason}\n\n${overridePrompt} Override and admit ${result.buyerName || "this attendee"}?`)) {
+        result = await runValidation({ allowStaticFallback: true })
+      }
+      if (result.offline) refreshOfflineState()
       
       const ticketRef = result.ticketRef || qrCodeData.substring(0, 12) + "..."
       const feeType = result.entryFeeType || "—"
@@ -188,7 +260,7 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
         tableNumber,
         status: result.success ? "Valid" : "Invalid",
         time: new Date().toLocaleTimeString(),
-        reason: result.reason || (result.success ? "Valid ticket" : "Validation failed")
+        reason: result.reason || (result.success ? (result.offline ? "Valid ticket (offline)" : "Valid ticket") : "Validation failed")
       }, ...prev].slice(0, 10))
 
       if (result.success) {
@@ -205,13 +277,14 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
         }
         if (result.needsPhotoVerification && result.buyerPhotoUrl && result.ticketDocId) {
           setPendingTicketDocId(result.ticketDocId)
+          setPendingOffline(!!result.offline)
           setBuyerPhotoUrl(result.buyerPhotoUrl)
           setBuyerName(result.buyerName || "Ticket Buyer")
           setShowPhotoVerification(true)
           setValidating(false)
           return
         }
-        Alert.alert("✅ Entry Granted", `Ticket is valid. Entry granted.`, [{ text: "OK" }])
+        Alert.alert("✅ Entry Granted", result.offline ? "Ticket is valid (offline). Entry granted — scan will sync when back online." : `Ticket is valid. Entry granted.`, [{ text: "OK" }])
       } else {
         Alert.alert("❌ Entry Denied", `Validation failed: ${result.reason}`, [{ text: "OK" }])
       }
@@ -221,15 +294,21 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
     } finally {
       setValidating(false)
     }
-  }, [user, isTokenAuth, eventName, stopCamera])
+  }, [user, isTokenAuth, eventName, eventId, staffToken, gate, manifestInfo, refreshOfflineState, stopCamera])
 
   const handlePhotoConfirm = useCallback(async (confirmed: boolean) => {
     if ((!user && !isTokenAuth) || !pendingTicketDocId) { setShowPhotoVerification(false); return }
     setShowPhotoVerification(false)
     setValidating(true)
     try {
-      if (confirmed) {
-        const r = await TicketService.confirmTicketUsage(pendingTicketDocId, user?.id || "", eventName || "Event Entrance", eventId)
+      if (confirmed && pendingOffline) {
+        const validatorId = user?.id || (staffToken ? `staff:${staffToken.slice(0, 8)}` : "")
+        const queued = await OfflineScanService.confirmOffline(eventId, pendingTicketDocId, validatorId, eventName || "Event Entrance", gate)
+        await refreshOfflineState()
+        if (queued) Alert.alert("✅ Entry Granted", `Photo verified for ${buyerName} (offline).`, [{ text: "OK" }])
+        else Alert.alert("❌ Entry Denied", "Ticket already used on this device", [{ text: "OK" }])
+      } else if (confirmed) {
+        const r = await TicketService.confirmTicketUsage(pendingTicketDocId, user?.id || "", eventName || "Event Entrance", eventId, gate?.gateName)
         if (r.success) Alert.alert("✅ Entry Granted", `Photo verified for ${buyerName}.`, [{ text: "OK" }])
         else Alert.alert("❌ Entry Denied", r.reason || "Failed to confirm", [{ text: "OK" }])
       } else {
@@ -238,9 +317,9 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
     } catch (e: any) {
       Alert.alert("Error", "Failed to process photo verification")
     } finally {
-      setPendingTicketDocId(null); setBuyerPhotoUrl(""); setBuyerName(""); setValidating(false)
+      setPendingTicketDocId(null); setPendingOffline(false); setBuyerPhotoUrl(""); setBuyerName(""); setValidating(false)
     }
-  }, [user, isTokenAuth, eventName, eventId, buyerName])
+  }, [user, isTokenAuth, eventName, eventId, buyerName, pendingOffline, staffToken, gate, refreshOfflineState])
 
   return (
     <View style={styles.container}>
@@ -248,6 +327,11 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
         <View style={styles.headerTextContainer}>
           <Text style={styles.headerTitle}>Ticket Scanner</Text>
           {eventName && <Text style={styles.headerSubtitle}>{eventName}</Text>}
+          {gate && (
+            <Text style={styles.headerGate}>
+              {gate.gateName}{gate.allowedEntryFees?.length ? ` · ${gate.allowedEntryFees.join(", ")} only` : ""}
+            </Text>
+          )}
         </View>
       </View>
 
@@ -297,6 +381,27 @@ const TicketScannerScreen: React.FC<TicketScannerScreenProps> = ({
           {scanning || validating ? <ActivityIndicator color="#FFFFFF" /> : <><Ionicons name="scan" size={24} color="#FFFFFF" /><Text style={styles.scanButtonText}>Scan QR</Text></>}
         </TouchableOpacity>
 
+        <View style={styles.offlinePanel}>
+          <View style={styles.offlineHeader}>
+            <Ionicons name="cloud-offline-outline" size={20} color="#00D4FF" />
+            <Text style={styles.offlineTitle}>Offline Mode</Text>
+          </View>
+          <Text style={styles.offlineText}>
+            {manifestInfo
+              ? `${manifestInfo.count} tickets saved · updated ${new Date(manifestInfo.generatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+              : "Download the ticket list so scanning keeps working without signal."}
+          </Text>
+          {pendingSyncCount > 0 && <Text style={styles.offlinePending}>{pendingSyncCount} scans waiting to sync</Text>}
+          <View style={styles.offlineActions}>
+            <TouchableOpacity style={styles.offlineButton} onPress={handleDownloadManifest} disabled={downloadingManifest}>
+              {downloadingManifest ? <ActivityIndicator color="#00D4FF" size="small" /> : <Text style={styles.offlineButtonText}>{manifestInfo ? "Refresh List" : "Download List"}</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.offlineButton, pendingSyncCount === 0 && styles.offlineButtonDisabled]} onPress={handleSyncScans} disabled={syncing || pendingSyncCount === 0}>
+              {syncing ? <ActivityIndicator color="#00D4FF" size="small" /> : <Text style={styles.offlineButtonText}>Sync Now</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {scanHistory.length > 0 && (
           <View style={styles.historySection}>
             <Text style={styles.historyTitle}>Recent Scans</Text>
@@ -391,6 +496,7 @@ const styles = StyleSheet.create({
   headerTextContainer: { flex: 1, alignItems: "center" },
   headerTitle: { fontSize: 20, fontWeight: "bold", color: "#FFF" },
   headerSubtitle: { fontSize: 14, color: "#00D4FF", marginTop: 2 },
+  headerGate: { fontSize: 12, color: "#F59E0B", fontWeight: "600", marginTop: 4 },
   content: { flex: 1, padding: 16 },
   contentContainer: { paddingBottom: 40 },
   scannerArea: { alignItems: "center", justifyContent: "center", backgroundColor: "#1E1E1E", borderRadius: 12, overflow: "hidden", minHeight: 200, marginBottom: 24 },
@@ -404,6 +510,15 @@ const styles = StyleSheet.create({
   scanButton: { flexDirection: "row", alignItems: "center", justifyContent: "center", backgroundColor: "#2196F3", padding: 16, borderRadius: 8, marginBottom: 24 },
   scanButtonDisabled: { backgroundColor: "#666" },
   scanButtonText: { color: "#FFF", fontSize: 16, fontWeight: "bold", marginLeft: 8 },
+  offlinePanel: { backgroundColor: "#1E1E1E", borderRadius: 12, padding: 16, marginBottom: 24 },
+  offlineHeader: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  offlineTitle: { fontSize: 16, fontWeight: "bold", color: "#FFF", marginLeft: 8 },
+  offlineText: { fontSize: 13, color: "#AAA", lineHeight: 20 },
+  offlinePending: { fontSize: 13, color: "#F59E0B", fontWeight: "600", marginTop: 6 },
+  offlineActions: { flexDirection: "row", gap: 12, marginTop: 12 },
+  offlineButton: { flex: 1, alignItems: "center", justifyContent: "center", borderWidth: 1, borderColor: "#00D4FF", paddingVertical: 10, borderRadius: 8 },
+  offlineButtonDisabled: { borderColor: "#444" },
+  offlineButtonText: { color: "#00D4FF", fontWeight: "600", fontSize: 14 },
   historySection: { backgroundColor: "#1E1E1E", borderRadius: 12, padding: 16, marginBottom: 24 },
   historyTitle: { fontSize: 16, fontWeight: "bold", color: "#FFF", marginBottom: 12 },
   historyItem: { flexDirection: "row", alignItems: "center", paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: "#333" },
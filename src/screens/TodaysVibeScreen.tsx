@@ -20,7 +20,10 @@ import { useRouter } from "../utils/URLRouter"
 
 import SupabaseService from "../services/SupabaseService"
 import VibeAnalysisService from "../services/VibeAnalysisService"
+import VibeIndexService from "../services/VibeIndexService"
+import { VibeIndexSummary } from "../components/VibeIndexSummary"
 import type { VibeImage } from "../models/VibeImage"
+import type { VenueVibeIndex } from "../models/VibeIndex"
 
 const TodaysVibeScreen: React.FC = () => {
   const navigation = useCompatNavigation()
@@ -33,6 +36,7 @@ const TodaysVibeScreen: React.FC = () => {
   const [activeTab, setActiveTab] = useState<"today" | "week">("today")
   const [todayVibes, setTodayVibes] = useState<VibeImage[]>([])
   const [weekVibes, setWeekVibes] = useState<Record<string, VibeImage[]>>({})
+  const [vibeIndex, setVibeIndex] = useState<VenueVibeIndex | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [selectedDay, setSelectedDay] = useState<string | null>(null)
@@ -72,6 +76,10 @@ const TodaysVibeScreen: React.FC = () => {
         setLoading(true)
       }
 
+      VibeIndexService.getIndex(venueId, isRefresh)
+        .then(setVibeIndex)
+        .catch((error) => console.error("Error loading live vibe:", error))
+
       // Load today's vibes
       const today = new Date()
       console.log("Loading vibes for today:", today.toDateString())
@@ -191,6 +199,12 @@ const TodaysVibeScreen: React.FC = () => {
         </View>
       </View>
 
+      {vibeIndex && (
+        <View style={styles.vibeIndexContainer}>
+          <VibeIndexSummary index={vibeIndex} />
+        </View>
+      )}
+
       <View style={styles.tabContainer}>
         <TouchableOpacity
           style={[styles.tab, activeTab === "today" && styles.activeTab]}
@@ -337,6 +351,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#2196F3",
   },
+  vibeIndexContainer: {
+    backgroundColor: "#1E1E1E",
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
   tabContainer: {
     flexDirection: "row",
     backgroundColor: "#1E1E1E",
@@ -7,16 +7,20 @@ import { Ionicons } from "@expo/vector-icons"
 import { useIsFocused } from "../utils/compatNavigation"
 import SupabaseService from "../services/SupabaseService"
 import { useAuth } from "../contexts/AuthContext"
-import { collection, query, where, onSnapshot, orderBy, limit } from "firebase/firestore"
-import { db } from "../config/firebase"
 import type { Venue } from "../models/Venue"
 import type { Event } from "../models/Event"
 import { useCompatNavigation } from "../utils/compatNavigation"
 import { useRouter } from "../utils/URLRouter"
 import { SEOMetadata } from "../components/SEOMetadata"
-import VibeAnalysisService from "../services/VibeAnalysisService"
+import VibeIndexService from "../services/VibeIndexService"
+import FollowService from "../services/FollowService"
+import { VibeIndexSummary } from "../components/VibeIndexSummary"
+import type { VenueVibeIndex } from "../models/VibeIndex"
 import { useDeviceType, COLORS } from "../utils/ResponsiveDesign"
 
+// How often the live vibe refreshes while the venue is open
+const VIBE_INDEX_REFRESH_MS = 60 * 1000
+
 const VenueDetailScreen: React.FC = () => {
   const { isLargeScreen, isTablet } = useDeviceType()
   const navigation = useCompatNavigation()
@@ -39,7 +43,8 @@ const VenueDetailScreen: React.FC = () => {
   const [isOwner, setIsOwner] = useState(false)
   const [isAdmin, setIsAdmin] = useState(false)
   const [isCustomVenue, setIsCustomVenue] = useState(false)
-  const [vibeRating, setVibeRating] = useState<number>(0.0)
+  const [vibeIndex, setVibeIndex] = useState<VenueVibeIndex | null>(null)
+  const [following, setFollowing] = useState(false)
   const [currentVibeImage, setCurrentVibeImage] = useState<string | null>(null)
   const [showOwnershipModal, setShowOwnershipModal] = useState(false)
   const [ownershipRequest, setOwnershipRequest] = useState<{
@@ -144,17 +149,14 @@ const VenueDetailScreen: React.FC = () => {
               const latestVibe = vibeImages.reduce((latest, image) => {
                 return image.uploadedAt > latest.uploadedAt ? image : latest
               })
-              setVibeRating(latestVibe.vibeRating || 0.0)
               setCurrentVibeImage(latestVibe.imageUrl)
             } else {
-              setVibeRating(0.0)
               setCurrentVibeImage(null)
             }
           }
         }
       } catch (error) {
         console.error("Error loading venue details:", error)
-        setVibeRating(0.0) // Default to 0.0 on error
         setCurrentVibeImage(null)
       } finally {
         setLoading(false)
@@ -163,49 +165,16 @@ const VenueDetailScreen: React.FC = () => {
 
     loadVenueAndEvents()
 
-    // Set up real-time listener for vibe ratings
-    const vibeRatingsRef = collection(db, "YoVibe/data/vibeRatings")
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-
-    const q = query(
-      vibeRatingsRef,
-      where("venueId", "==", venueId),
-      where("createdAt", ">=", today),
-      where("createdAt", "<", tomorrow),
-      orderBy("createdAt", "desc"),
-      limit(1)
-    )
-
-    const unsubscribeVibe = onSnapshot(
-      q,
-      (snapshot) => {
-        snapshot.docChanges().forEach((change) => {
-          if (change.type === "added" || change.type === "modified") {
-            const data = change.doc.data()
-            const rating = data.rating || 0.0
-            setVibeRating(rating)
-            // Note: Real-time listener only gets rating data, not image URL
-            // Image URL is loaded separately in the initial load
-          } else if (change.type === "removed") {
-            setVibeRating(0.0) // Default to 0.0 if rating is removed
-            setCurrentVibeImage(null)
-          }
-        })
-      },
-      (error) => {
-        console.error(`FirebaseService: Error listening to vibe ratings for venue ${venueId}:`, error)
-        setVibeRating(0.0) // Default to 0.0 on error
-        setCurrentVibeImage(null)
-      }
-    )
+    if (!isValidVenueId) return
 
-    // Cleanup listeners on unmount
-    return () => {
-      unsubscribeVibe()
-    }
+    // Keep the live vibe current while the venue is open
+    const refreshVibeIndex = (fresh: boolean) =>
+      VibeIndexService.getIndex(venueId, fresh)
+        .then(setVibeIndex)
+        .catch((error) => console.error("Error loading live vibe:", error))
+    refreshVibeIndex(false)
+    const vibeTimer = setInterval(() => refreshVibeIndex(true), VIBE_INDEX_REFRESH_MS)
+    return () => clearInterval(vibeTimer)
   }, [venueId, user, isValidVenueId])
 
   // Inject JSON-LD structured data for SEO
@@ -268,6 +237,9 @@ const VenueDetailScreen: React.FC = () => {
       
       const venueData = await SupabaseService.getVenueById(venueId)
       setVenue(venueData)
+      VibeIndexService.getIndex(venueId, true)
+        .then(setVibeIndex)
+        .catch((error) => console.error("Error loading live vibe:", error))
       
       // Fetch events regardless of user authentication (events are public data)
       if (venueData) {
@@ -337,6 +309,36 @@ const VenueDetailScreen: React.FC = () => {
     (navigation as any).navigate("TodaysVibe", { venueId, venueName: venue?.name || "" })
   }
 
+  const handleCheckIn = () => {
+    (navigation as any).navigate("VibeCheckIn", { venueId })
+  }
+
+  // Followed venues' events rank higher in the "For you" feed
+  useEffect(() => {
+    if (!user || !isValidVenueId) {
+      setFollowing(false)
+      return
+    }
+    const venueKey = venue?.slug || venueId
+    FollowService.list(user.id)
+      .then((follows) => setFollowing(follows.some((f) => f.targetType === "venue" && f.targetKey === venueKey)))
+      .catch((error) => console.error("[VenueDetailScreen] Error loading follows:", error))
+  }, [user?.id, venue?.slug, venueId])
+
+  const handleToggleFollow = async () => {
+    if (!user) return
+    const venueKey = venue?.slug || venueId
+    const next = !following
+    setFollowing(next)
+    try {
+      if (next) await FollowService.follow(user.id, "venue", venueKey)
+      else await FollowService.unfollow(user.id, "venue", venueKey)
+    } catch (error: any) {
+      setFollowing(!next)
+      Alert.alert("Error", error?.message || "Failed to update follow")
+    }
+  }
+
   const handleOpenOwnershipModal = () => {
     if (!user) {
       Alert.alert("Login Required", "Please login to request ownership of this venue")
@@ -520,15 +522,11 @@ const VenueDetailScreen: React.FC = () => {
 
             <View style={styles.vibeSection}>
               <View style={styles.vibeSectionHeader}>
-                <Text style={styles.vibeSectionTitle}>Current Vibe: </Text>
-                <View style={styles.currentVibeRating}>
-                  <Text style={[styles.vibeRatingText, { color: VibeAnalysisService.getVibeColor(vibeRating) }]}>
-                    {vibeRating.toFixed(1)}
-                  </Text>
-                  <Text style={styles.vibeRatingLabel}>/5.0</Text>
-                </View>
+                <Text style={styles.vibeSectionTitle}>Live Vibe</Text>
+              </View>
+              <View style={styles.vibeIndexContainer}>
+                <VibeIndexSummary index={vibeIndex} />
               </View>
-              <Text style={styles.vibeDescription}>{VibeAnalysisService.getVibeDescription(vibeRating)}</Text>
               {currentVibeImage && (
                 <View style={styles.vibeImageContainer}>
                   <Image source={{ uri: currentVibeImage }} style={styles.vibeImage} />
@@ -538,6 +536,18 @@ const VenueDetailScreen: React.FC = () => {
                 <Ionicons name="camera-outline" size={20} color="#FFFFFF" />
                 <Text style={styles.todaysVibeButtonText}>See Today's Vibe</Text>
               </TouchableOpacity>
+              {user && !isOwner && (
+                <>
+                  <TouchableOpacity style={[styles.todaysVibeButton, styles.checkInButton]} onPress={handleCheckIn}>
+                    <Ionicons name="checkmark-done" size={20} color={COLORS.primary} />
+                    <Text style={[styles.todaysVibeButtonText, { color: COLORS.primary }]}>Check In</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.todaysVibeButton, styles.checkInButton]} onPress={handleToggleFollow}>
+                    <Ionicons name={following ? "heart" : "heart-outline"} size={20} color={COLORS.primary} />
+                    <Text style={[styles.todaysVibeButtonText, { color: COLORS.primary }]}>{following ? "Following" : "Follow"}</Text>
+                  </TouchableOpacity>
+                </>
+              )}
             </View>
 
             <Text style={styles.sectionTitle}>About</Text>
@@ -772,16 +782,11 @@ const VenueDetailScreen: React.FC = () => {
 
           <View style={styles.vibeSection}>
             <View style={styles.vibeSectionHeader}>
-              <Text style={styles.vibeSectionTitle}>Current Vibe: </Text>
-              <View style={styles.currentVibeRating}>
-                <Text style={[styles.vibeRatingText, { color: VibeAnalysisService.getVibeColor(vibeRating) }]}>
-                  {vibeRating.toFixed(1)}
-                </Text>
-                <Text style={styles.vibeRatingLabel}>/5.0</Text>
-              </View>
+              <Text style={styles.vibeSectionTitle}>Live Vibe</Text>
+            </View>
+            <View style={styles.vibeIndexContainer}>
+              <VibeIndexSummary index={vibeIndex} />
             </View>
-
-            <Text style={styles.vibeDescription}>{VibeAnalysisService.getVibeDescription(vibeRating)}</Text>
 
             {currentVibeImage && (
               <View style={styles.vibeImageContainer}>
@@ -793,6 +798,18 @@ const VenueDetailScreen: React.FC = () => {
               <Ionicons name="camera-outline" size={20} color="#FFFFFF" />
               <Text style={styles.todaysVibeButtonText}>See Today's Vibe</Text>
             </TouchableOpacity>
+            {user && !isOwner && (
+              <>
+                <TouchableOpacity style={[styles.todaysVibeButton, styles.checkInButton]} onPress={handleCheckIn}>
+                  <Ionicons name="checkmark-done" size={20} color={COLORS.primary} />
+                  <Text style={[styles.todaysVibeButtonText, { color: COLORS.primary }]}>Check In</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.todaysVibeButton, styles.checkInButton]} onPress={handleToggleFollow}>
+                  <Ionicons name={following ? "heart" : "heart-outline"} size={20} color={COLORS.primary} />
+                  <Text style={[styles.todaysVibeButtonText, { color: COLORS.primary }]}>{following ? "Following" : "Follow"}</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
 
           <Text style={styles.sectionTitle}>About</Text>
@@ -1150,24 +1167,8 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#FFFFFF",
   },
-  currentVibeRating: {
-    flexDirection: "row",
-    alignItems: "baseline",
-  },
-  vibeRatingText: {
-    fontSize: responsiveSize(20, 24, 28),
-    fontWeight: "bold",
-  },
-  vibeRatingLabel: {
-    fontSize: responsiveSize(12, 14, 16),
-    color: "#666666",
-    marginLeft: 2,
-  },
-  vibeDescription: {
-    fontSize: responsiveSize(13, 15, 16),
-    color: "#FFFFFF",
+  vibeIndexContainer: {
     marginBottom: responsiveSize(10, 12, 16),
-    textAlign: "center",
   },
   vibeImageContainer: {
     alignItems: "center",
@@ -1187,6 +1188,12 @@ const styles = StyleSheet.create({
     paddingVertical: responsiveSize(10, 12, 16),
     borderRadius: responsiveSize(6, 8, 12),
   },
+  checkInButton: {
+    backgroundColor: "transparent",
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    marginTop: responsiveSize(8, 10, 12),
+  },
   todaysVibeButtonText: {
     color: "#FFFFFF",
     fontSize: responsiveSize(14, 15, 16),
@@ -0,0 +1,453 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { View, Text, StyleSheet, TouchableOpacity, Image, Alert, ActivityIndicator, ScrollView } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import SupabaseService from "../services/SupabaseService"
+import VibeAnalysisService from "../services/VibeAnalysisService"
+import VibeCheckInService from "../services/VibeCheckInService"
+import LocationService from "../services/LocationService"
+import { useCompatNavigation, useRouter } from "../utils/compatNavigation"
+import { VIBE_CHECKIN_MAX_TAGS, VIBE_CHECKIN_TAG_LABELS } from "../utils/vibeCheckIn"
+import { captureVibePhoto, type CapturedVibePhoto } from "../utils/vibePhoto"
+import { useAuth } from "../contexts/AuthContext"
+import type { VibeCheckInEligibility, VibeCheckInTag } from "../models/VibeCheckIn"
+
+// 1 to 5 in half steps
+const RATING_STEPS = Array.from({ length: 9 }, (_, i) => 1 + i / 2)
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+const VibeCheckInScreen: React.FC = () => {
+  const navigation = useCompatNavigation()
+  const { currentPath } = useRouter()
+  const { user } = useAuth()
+
+  // /venues/:venueId/check-in
+  const venueId = currentPath.split("/").filter(Boolean)[1]
+  const [venueName, setVenueName] = useState("")
+  const [eligibility, setEligibility] = useState<VibeCheckInEligibility | null>(null)
+  const [mode, setMode] = useState<"rate" | "photo">("rate")
+  const [rating, setRating] = useState(3)
+  const [photo, setPhoto] = useState<CapturedVibePhoto | null>(null)
+  const [tags, setTags] = useState<VibeCheckInTag[]>([])
+  const [submitting, setSubmitting] = useState<"" | "locating" | "uploading" | "sending">("")
+  const [done, setDone] = useState(false)
+
+  useEffect(() => {
+    if (!venueId) return
+    SupabaseService.getVenueById(venueId).then((venue) => setVenueName(venue?.name || "")).catch(() => {})
+    if (!user) return
+    VibeCheckInService.eligibility(venueId)
+      .then(setEligibility)
+      .catch((error) => console.error("Error checking check-in eligibility:", error))
+  }, [venueId, user])
+
+  const toggleTag = (tag: VibeCheckInTag) => {
+    setTags((current) =>
+      current.includes(tag) ? current.filter((t) => t !== tag) : current.length < VIBE_CHECKIN_MAX_TAGS ? [...current, tag] : current,
+    )
+  }
+
+  const takePhoto = async () => {
+    try {
+      setPhoto(await captureVibePhoto())
+    } catch (error) {
+      console.error("Error capturing check-in photo:", error)
+      Alert.alert("Error", "Failed to process the photo.")
+    }
+  }
+
+  const submit = async () => {
+    if (mode === "photo" && !photo) {
+      Alert.alert("Add a photo", "Take a photo of the vibe first")
+      return
+    }
+    try {
+      // A scanned ticket already proves presence; otherwise the server checks the location
+      let position
+      if (!eligibility?.ticketEvent) {
+        setSubmitting("locating")
+        position = await LocationService.getCurrentPosition()
+      }
+      let imageUrl: string | undefined
+      if (mode === "photo" && photo) {
+        setSubmitting("uploading")
+        imageUrl = await SupabaseService.uploadVibeImage(photo.dataUrl, venueId)
+      }
+      setSubmitting("sending")
+      await VibeCheckInService.submit({
+        venueId,
+        rating: mode === "rate" ? rating : undefined,
+        imageUrl,
+        tags,
+        position,
+      })
+      setDone(true)
+    } catch (error: any) {
+      console.error("Error checking in:", error)
+      if (error?.retryAt) setEligibility((current) => ({ ticketEvent: current?.ticketEvent || null, retryAt: error.retryAt }))
+      Alert.alert("Check-in failed", error?.message || "Please try again")
+    } finally {
+      setSubmitting("")
+    }
+  }
+
+  if (!user) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="person-circle-outline" size={56} color="#666666" />
+        <Text style={styles.emptyText}>Sign in to check in</Text>
+      </View>
+    )
+  }
+
+  if (done) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="checkmark-circle" size={64} color="#4CAF50" />
+        <Text style={styles.doneTitle}>Thanks for checking in!</Text>
+        <Text style={styles.emptyText}>
+          {mode === "photo" ? "Your photo counts towards the live vibe once it's been scored." : "Your rating now counts towards the live vibe."}
+        </Text>
+        <TouchableOpacity style={styles.submitButton} onPress={() => navigation.navigate("VenueDetail", { venueId })}>
+          <Text style={styles.submitButtonText}>Back to venue</Text>
+        </TouchableOpacity>
+      </View>
+    )
+  }
+
+  const limited = !!eligibility?.retryAt && new Date(eligibility.retryAt) > new Date()
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Vibe Check-in</Text>
+        {!!venueName && <Text style={styles.headerSubtitle}>{venueName}</Text>}
+        <Text style={styles.headerDescription}>Tell everyone what it's like right now. Check-ins are only taken from people at the venue.</Text>
+      </View>
+
+      <View style={styles.presenceCard}>
+        {!eligibility ? (
+          <ActivityIndicator color="#2196F3" />
+        ) : eligibility.ticketEvent ? (
+          <>
+            <Ionicons name="ticket-outline" size={20} color="#4CAF50" />
+            <Text style={styles.presenceText}>Verified by your ticket for {eligibility.ticketEvent}</Text>
+          </>
+        ) : (
+          <>
+            <Ionicons name="location-outline" size={20} color="#FFC107" />
+            <Text style={styles.presenceText}>We'll check your location when you check in. Turn on GPS for an accurate fix.</Text>
+          </>
+        )}
+      </View>
+      {limited && (
+        <Text style={styles.limitText}>You've checked in recently. You can check in again at {formatTime(eligibility!.retryAt!)}.</Text>
+      )}
+
+      <View style={styles.tabContainer}>
+        {(["rate", "photo"] as const).map((m) => (
+          <TouchableOpacity key={m} style={[styles.tab, mode === m && styles.activeTab]} onPress={() => setMode(m)}>
+            <Ionicons name={m === "rate" ? "speedometer-outline" : "camera-outline"} size={16} color={mode === m ? "#FFFFFF" : "#BBBBBB"} />
+            <Text style={[styles.tabText, mode === m && styles.activeTabText]}>{m === "rate" ? "Rate it" : "Photo"}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === "rate" ? (
+        <View style={styles.card}>
+          <Text style={[styles.ratingValue, { color: VibeAnalysisService.getVibeColor(rating) }]}>{rating.toFixed(1)}</Text>
+          <Text style={styles.ratingDescription}>{VibeAnalysisService.getVibeDescription(rating)}</Text>
+          <View style={styles.scale} accessibilityRole="adjustable" accessibilityLabel={`Vibe rating ${rating} of 5`}>
+            {RATING_STEPS.map((step) => (
+              <TouchableOpacity key={step} style={styles.scaleStep} onPress={() => setRating(step)} accessibilityLabel={`${step}`}>
+                <View style={[styles.scaleFill, step <= rating && { backgroundColor: VibeAnalysisService.getVibeColor(rating) }]} />
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.scaleLabels}>
+            <Text style={styles.scaleLabel}>1 · Dead</Text>
+            <Text style={styles.scaleLabel}>5 · On fire</Text>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          {photo ? (
+            <View>
+              <Image source={{ uri: photo.dataUrl }} style={styles.photo} />
+              <TouchableOpacity style={styles.retakeButton} onPress={takePhoto}>
+                <Ionicons name="refresh" size={16} color="#FFFFFF" />
+                <Text style={styles.retakeText}>Retake</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.photoPicker} onPress={takePhoto}>
+              <Ionicons name="camera" size={48} color="#666666" />
+              <Text style={styles.photoPickerText}>Tap to take a photo</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>What's it like? (up to {VIBE_CHECKIN_MAX_TAGS})</Text>
+      <View style={styles.tags}>
+        {(Object.keys(VIBE_CHECKIN_TAG_LABELS) as VibeCheckInTag[]).map((tag) => (
+          <TouchableOpacity key={tag} style={[styles.tag, tags.includes(tag) && styles.tagActive]} onPress={() => toggleTag(tag)}>
+            <Text style={[styles.tagText, tags.includes(tag) && styles.tagTextActive]}>{VIBE_CHECKIN_TAG_LABELS[tag]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, styles.submitButtonWide, (!!submitting || limited) && styles.disabledButton]}
+        onPress={submit}
+        disabled={!!submitting || limited}
+      >
+        {submitting ? (
+          <>
+            <ActivityIndicator color="#FFFFFF" style={{ marginRight: 8 }} />
+            <Text style={styles.submitButtonText}>
+              {submitting === "locating" ? "Checking your location..." : submitting === "uploading" ? "Uploading photo..." : "Checking in..."}
+            </Text>
+          </>
+        ) : (
+          <>
+            <Ionicons name="checkmark-done" size={20} color="#FFFFFF" style={{ marginRight: 8 }} />
+            <Text style={styles.submitButtonText}>Check In</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#121212",
+  },
+  centered: {
+    flex: 1,
+    backgroundColor: "#121212",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 18,
+    color: "#2196F3",
+    marginBottom: 8,
+  },
+  headerDescription: {
+    fontSize: 14,
+    color: "#BBBBBB",
+    lineHeight: 20,
+  },
+  presenceCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#1E1E1E",
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 14,
+  },
+  presenceText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  limitText: {
+    color: "#FF9800",
+    fontSize: 13,
+    marginHorizontal: 16,
+    marginTop: 10,
+  },
+  tabContainer: {
+    flexDirection: "row",
+    backgroundColor: "#1E1E1E",
+    margin: 16,
+    borderRadius: 8,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 6,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 6,
+  },
+  activeTab: {
+    backgroundColor: "#2196F3",
+  },
+  tabText: {
+    fontSize: 16,
+    color: "#BBBBBB",
+    fontWeight: "bold",
+  },
+  activeTabText: {
+    color: "#FFFFFF",
+  },
+  card: {
+    backgroundColor: "#1E1E1E",
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  ratingValue: {
+    fontSize: 48,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  ratingDescription: {
+    fontSize: 16,
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    textAlign: "center",
+    marginBottom: 16,
+  },
+  scale: {
+    flexDirection: "row",
+    gap: 4,
+    height: 36,
+  },
+  scaleStep: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  scaleFill: {
+    height: "100%",
+    borderRadius: 4,
+    backgroundColor: "#333333",
+  },
+  scaleLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 6,
+  },
+  scaleLabel: {
+    fontSize: 12,
+    color: "#888888",
+  },
+  photo: {
+    width: "100%",
+    height: 260,
+    borderRadius: 8,
+  },
+  retakeButton: {
+    position: "absolute",
+    top: 8,
+    right: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  retakeText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+  },
+  photoPicker: {
+    height: 200,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: "#333",
+    borderStyle: "dashed",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  photoPickerText: {
+    color: "#BBBBBB",
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginHorizontal: 16,
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  tags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginHorizontal: 16,
+  },
+  tag: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#333",
+    backgroundColor: "#1E1E1E",
+  },
+  tagActive: {
+    borderColor: "#2196F3",
+    backgroundColor: "rgba(33, 150, 243, 0.15)",
+  },
+  tagText: {
+    color: "#BBBBBB",
+    fontSize: 14,
+  },
+  tagTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  submitButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#2196F3",
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 24,
+  },
+  submitButtonWide: {
+    marginHorizontal: 16,
+  },
+  submitButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  doneTitle: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#FFFFFF",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#BBBBBB",
+    textAlign: "center",
+    marginTop: 8,
+  },
+})
+
+export default VibeCheckInScreen
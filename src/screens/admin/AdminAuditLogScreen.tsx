@@ -0,0 +1,207 @@
+import React, { useEffect, useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, ScrollView } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import AuditLogService from "../../services/AuditLogService"
+import type { AuditAction, AuditEntry, AuditFilters, AuditTargetType } from "../../models/AuditLog"
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS } from "../../utils/auditLog"
+
+const PAGE_SIZE = 50
+
+const TARGET_TYPES: Array<{ key: AuditTargetType | ""; label: string }> = [
+  { key: "", label: "All" },
+  { key: "user", label: "Users" },
+  { key: "payout", label: "Payouts" },
+  { key: "refund", label: "Refunds" },
+  { key: "event", label: "Events" },
+  { key: "ticket", label: "Tickets" },
+  { key: "organizer", label: "Ledger" },
+  { key: "ownership_request", label: "Ownership" },
+  { key: "setting", label: "Settings" },
+  { key: "purchase", label: "Purchases" },
+  { key: "vibe_image", label: "Vibes" },
+]
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value))
+
+export default function AdminAuditLogScreen() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const [action, setAction] = useState<AuditAction | "">("")
+  const [targetType, setTargetType] = useState<AuditTargetType | "">("")
+  const [search, setSearch] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  const filters = useCallback((): AuditFilters => ({
+    action, targetType, search: search.trim() || undefined,
+    from: from ? `${from}T00:00:00.000Z` : undefined,
+    to: to ? `${to}T23:59:59.999Z` : undefined,
+  }), [action, targetType, search, from, to])
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await AuditLogService.list({ ...filters(), limit: PAGE_SIZE, offset: 0 })
+      setEntries(result.entries)
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Audit Log", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  // Typing in the search box waits for Search; the chips apply straight away
+  useEffect(() => { void load() }, [action, targetType])
+
+  const loadMore = async () => {
+    if (loadingMore || entries.length >= total) return
+    setLoadingMore(true)
+    try {
+      const result = await AuditLogService.list({ ...filters(), limit: PAGE_SIZE, offset: entries.length })
+      setEntries((prev) => [...prev, ...result.entries])
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Audit Log", e.message)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const exportCsv = async () => {
+    if (typeof document === "undefined") { Alert.alert("Export CSV", "Export is available on the web admin only"); return }
+    setExporting(true)
+    try {
+      const { csv, truncated } = await AuditLogService.exportCsv(filters())
+      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+      const a = document.createElement("a")
+      a.href = URL.createObjectURL(blob)
+      a.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`
+      a.click()
+      URL.revokeObjectURL(a.href)
+      if (truncated) Alert.alert("Export CSV", "Only the newest 5,000 entries were exported. Narrow the filters to export the rest.")
+    } catch (e: any) {
+      Alert.alert("Export CSV", e.message)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const renderEntry = ({ item }: { item: AuditEntry }) => {
+    const open = expanded === item.id
+    const changes = Object.entries(item.changes)
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => setExpanded(open ? null : item.id)} activeOpacity={0.7}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{AUDIT_ACTION_LABELS[item.action] || item.action}</Text>
+          <Text style={styles.cardTime}>{new Date(item.occurredAt).toLocaleString()}</Text>
+        </View>
+        <Text style={styles.cardMeta} numberOfLines={1}>
+          {item.actorEmail || item.actorId}{item.actorRole ? ` (${item.actorRole})` : ""} → {item.targetType} {item.targetId}
+        </Text>
+        {item.reason && <Text style={styles.reason} numberOfLines={open ? undefined : 1}>“{item.reason}”</Text>}
+        {open && (
+          <View style={styles.details}>
+            {changes.length > 0 ? changes.map(([field, change]) => (
+              <View key={field} style={styles.changeRow}>
+                <Text style={styles.changeField}>{field}</Text>
+                <Text style={styles.changeFrom} numberOfLines={3}>{formatValue(change.from)}</Text>
+                <Ionicons name="arrow-forward" size={12} color="#555" />
+                <Text style={styles.changeTo} numberOfLines={3}>{formatValue(change.to)}</Text>
+              </View>
+            )) : <Text style={styles.cardMeta}>No field changes recorded</Text>}
+            <Text style={styles.detailMeta}>IP {item.ip || "unknown"} · {item.source === "server" ? "Recorded by server" : "Reported by app"}</Text>
+            {item.userAgent && <Text style={styles.detailMeta} numberOfLines={2}>{item.userAgent}</Text>}
+          </View>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Security Audit Log</Text>
+      <Text style={styles.subheader}>Admin and money-moving actions · {total} entr{total !== 1 ? "ies" : "y"}</Text>
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search-outline" size={18} color="#666" />
+        <TextInput style={styles.searchInput} value={search} onChangeText={setSearch} onSubmitEditing={load} returnKeyType="search"
+          placeholder="Actor email, user id or target id..." placeholderTextColor="#555" />
+        <TouchableOpacity onPress={load} disabled={loading}>
+          <Ionicons name="refresh-outline" size={20} color="#3B82F6" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.rangeRow}>
+        <TextInput style={styles.input} value={from} onChangeText={setFrom} placeholder="From (YYYY-MM-DD)" placeholderTextColor="#555" onSubmitEditing={load} />
+        <TextInput style={styles.input} value={to} onChangeText={setTo} placeholder="To (YYYY-MM-DD)" placeholderTextColor="#555" onSubmitEditing={load} />
+        <TouchableOpacity style={styles.exportBtn} onPress={exportCsv} disabled={exporting}>
+          {exporting ? <ActivityIndicator size="small" color="#3B82F6" /> : <Ionicons name="download-outline" size={18} color="#3B82F6" />}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+        {TARGET_TYPES.map((t) => (
+          <TouchableOpacity key={t.key || "all"} style={[styles.chip, targetType === t.key && styles.chipActive]} onPress={() => setTargetType(t.key)}>
+            <Text style={[styles.chipText, targetType === t.key && styles.chipTextActive]}>{t.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+        <TouchableOpacity style={[styles.chip, action === "" && styles.chipActive]} onPress={() => setAction("")}>
+          <Text style={[styles.chipText, action === "" && styles.chipTextActive]}>Any action</Text>
+        </TouchableOpacity>
+        {AUDIT_ACTIONS.map((a) => (
+          <TouchableOpacity key={a} style={[styles.chip, action === a && styles.chipActive]} onPress={() => setAction(a)}>
+            <Text style={[styles.chipText, action === a && styles.chipTextActive]}>{AUDIT_ACTION_LABELS[a]}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList data={entries} keyExtractor={(e) => e.id} contentContainerStyle={styles.list}
+          renderItem={renderEntry} onRefresh={load} refreshing={false}
+          onEndReached={loadMore} onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? <ActivityIndicator size="small" color="#3B82F6" style={{ marginVertical: 16 }} /> : null}
+          ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="shield-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>No audit entries match these filters</Text></View>}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 12 },
+  searchRow: { flexDirection: "row", alignItems: "center", backgroundColor: "#13131a", borderRadius: 10, paddingHorizontal: 12, marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  searchInput: { flex: 1, color: "#FFF", paddingVertical: 10, fontSize: 14, marginLeft: 8 },
+  rangeRow: { flexDirection: "row", gap: 8, marginBottom: 8 },
+  input: { flex: 1, backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  exportBtn: { justifyContent: "center", alignItems: "center", paddingHorizontal: 14, borderRadius: 10, borderWidth: 1, borderColor: "#3B82F6" },
+  chipScroll: { flexGrow: 0, marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: "#333", marginRight: 6 },
+  chipActive: { backgroundColor: "rgba(59,130,246,0.15)", borderColor: "#3B82F6" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#3B82F6" },
+  list: { paddingBottom: 20 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  cardTime: { color: "#666", fontSize: 11 },
+  cardMeta: { color: "#666", fontSize: 12 },
+  reason: { color: "#CCC", fontSize: 12, marginTop: 6, fontStyle: "italic" },
+  details: { marginTop: 10, paddingTop: 10, borderTopWidth: 1, borderTopColor: "rgba(255,255,255,0.06)" },
+  changeRow: { flexDirection: "row", alignItems: "center", gap: 6, paddingVertical: 4 },
+  changeField: { color: "#3B82F6", fontSize: 12, fontWeight: "700", minWidth: 110 },
+  changeFrom: { color: "#EF4444", fontSize: 12, flex: 1 },
+  changeTo: { color: "#10B981", fontSize: 12, flex: 1 },
+  detailMeta: { color: "#555", fontSize: 11, marginTop: 6 },
+})
@@ -0,0 +1,294 @@
+import React, { useEffect, useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, ScrollView } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import LedgerService, { type OrganizerLedgerSummary } from "../../services/LedgerService"
+import type { LedgerIssue, WalletBalance } from "../../models/Ledger"
+import { statementCsv, type Statement } from "../../utils/ledger"
+
+const ENTRY_LABELS: Record<string, string> = {
+  ticket_sale: "Sale",
+  installment_payment: "Installment",
+  refund: "Refund",
+  chargeback: "Chargeback",
+  payout: "Payout",
+  adjustment: "Adjustment",
+}
+
+const ugx = (amount: number) => `UGX ${Number(amount || 0).toLocaleString()}`
+
+export default function AdminLedgerScreen() {
+  const [organizers, setOrganizers] = useState<OrganizerLedgerSummary[]>([])
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+
+  const [selected, setSelected] = useState<OrganizerLedgerSummary | null>(null)
+  const [wallet, setWallet] = useState<WalletBalance | null>(null)
+  const [statement, setStatement] = useState<Statement | null>(null)
+  const [issues, setIssues] = useState<LedgerIssue[] | null>(null)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [adjustAmount, setAdjustAmount] = useState("")
+  const [adjustMemo, setAdjustMemo] = useState("")
+
+  const loadOrganizers = useCallback(async () => {
+    try {
+      setLoading(true)
+      setOrganizers(await LedgerService.listOrganizers())
+    } catch (e: any) {
+      Alert.alert("Ledger", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { void loadOrganizers() }, [loadOrganizers])
+
+  const loadStatement = useCallback(async (organizerId: string) => {
+    setDetailLoading(true)
+    try {
+      const [w, s] = await Promise.all([
+        LedgerService.getWallet(organizerId),
+        LedgerService.getStatement(organizerId, from ? `${from}T00:00:00.000Z` : undefined, to ? `${to}T23:59:59.999Z` : undefined),
+      ])
+      setWallet(w)
+      setStatement(s)
+    } catch (e: any) {
+      Alert.alert("Statement", e.message)
+    } finally {
+      setDetailLoading(false)
+    }
+  }, [from, to])
+
+  const open = (organizer: OrganizerLedgerSummary) => {
+    setSelected(organizer)
+    setIssues(null)
+    setStatement(null)
+    void loadStatement(organizer.organizerId)
+  }
+
+  const sync = async () => {
+    setSyncing(true)
+    try {
+      const posted = await LedgerService.sync(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+      Alert.alert("Ledger synced", Object.entries(posted).map(([k, v]) => `${k}: ${v}`).join("\n"))
+      await loadOrganizers()
+    } catch (e: any) {
+      Alert.alert("Sync", e.message)
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const check = async () => {
+    if (!selected) return
+    setDetailLoading(true)
+    try {
+      setIssues(await LedgerService.checkInvariants(selected.organizerId))
+    } catch (e: any) {
+      Alert.alert("Invariant check", e.message)
+    } finally {
+      setDetailLoading(false)
+    }
+  }
+
+  const adjust = async () => {
+    if (!selected) return
+    const amount = Number(adjustAmount)
+    if (!Number.isFinite(amount) || amount === 0) { Alert.alert("Adjustment", "Enter a non-zero amount (negative to debit)"); return }
+    if (!adjustMemo.trim()) { Alert.alert("Adjustment", "Explain the adjustment"); return }
+    setDetailLoading(true)
+    try {
+      await LedgerService.adjust(selected.organizerId, amount, adjustMemo.trim())
+      setAdjustAmount("")
+      setAdjustMemo("")
+      await loadStatement(selected.organizerId)
+    } catch (e: any) {
+      Alert.alert("Adjustment", e.message)
+      setDetailLoading(false)
+    }
+  }
+
+  const exportCsv = () => {
+    if (!statement || !selected || typeof document === "undefined") return
+    const blob = new Blob([statementCsv(statement)], { type: "text/csv;charset=utf-8;" })
+    const a = document.createElement("a")
+    a.href = URL.createObjectURL(blob)
+    a.download = `statement-${selected.email || selected.organizerId}-${new Date().toISOString().slice(0, 10)}.csv`
+    a.click()
+    URL.revokeObjectURL(a.href)
+  }
+
+  if (selected) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.list}>
+        <TouchableOpacity style={styles.backRow} onPress={() => setSelected(null)}>
+          <Ionicons name="chevron-back" size={18} color="#3B82F6" />
+          <Text style={styles.backText}>All organisers</Text>
+        </TouchableOpacity>
+        <Text style={styles.header}>{selected.name || selected.email || selected.organizerId}</Text>
+        <Text style={styles.subheader}>{selected.email}</Text>
+
+        {wallet && (
+          <View style={styles.summaryGrid}>
+            <Summary label="Available" value={ugx(wallet.availableBalance)} color="#10B981" />
+            <Summary label="Pending" value={ugx(wallet.pendingBalance)} color="#F59E0B" />
+            <Summary label="Earned" value={ugx(wallet.totalEarnings)} />
+            <Summary label="Paid out" value={ugx(wallet.totalPayouts)} />
+            <Summary label="Refunded" value={ugx(wallet.totalRefunds)} />
+            <Summary label="Adjusted" value={ugx(wallet.totalAdjustments)} />
+          </View>
+        )}
+
+        <View style={styles.rangeRow}>
+          <TextInput style={styles.input} value={from} onChangeText={setFrom} placeholder="From (YYYY-MM-DD)" placeholderTextColor="#555" />
+          <TextInput style={styles.input} value={to} onChangeText={setTo} placeholder="To (YYYY-MM-DD)" placeholderTextColor="#555" />
+        </View>
+        <View style={styles.actionRow}>
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#3B82F6" }]} onPress={() => loadStatement(selected.organizerId)} disabled={detailLoading}>
+            <Ionicons name="refresh-outline" size={16} color="#FFF" />
+            <Text style={styles.actionBtnText}>Statement</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#13131a", borderWidth: 1, borderColor: "#3B82F6" }]} onPress={exportCsv} disabled={!statement}>
+            <Ionicons name="download-outline" size={16} color="#3B82F6" />
+            <Text style={[styles.actionBtnText, { color: "#3B82F6" }]}>Export CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#8B5CF6" }]} onPress={check} disabled={detailLoading}>
+            <Ionicons name="shield-checkmark-outline" size={16} color="#FFF" />
+            <Text style={styles.actionBtnText}>Check</Text>
+          </TouchableOpacity>
+        </View>
+
+        {detailLoading && <ActivityIndicator size="small" color="#3B82F6" style={{ marginVertical: 16 }} />}
+
+        {issues && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{issues.length ? `${issues.length} invariant issue${issues.length !== 1 ? "s" : ""}` : "Ledger agrees with tickets and payouts"}</Text>
+            {issues.map((issue, i) => (
+              <View key={`${issue.kind}-${issue.sourceId || i}`} style={styles.issueRow}>
+                <Text style={styles.issueKind}>{issue.kind.replace(/_/g, " ")}</Text>
+                <Text style={styles.issueText}>{issue.message}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {statement && (
+          <View style={styles.card}>
+            <View style={styles.statementRow}>
+              <Text style={[styles.statementMemo, { color: "#888" }]}>Opening balance</Text>
+              <Text style={styles.statementBalance}>{ugx(statement.openingBalance)}</Text>
+            </View>
+            {statement.lines.map((line) => (
+              <View key={`${line.entryId || line.sourceId}-${line.occurredAt}`} style={styles.statementRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.statementMemo}>{ENTRY_LABELS[line.entryType] || line.entryType} · {line.memo}</Text>
+                  <Text style={styles.statementDate}>{new Date(line.occurredAt).toLocaleString()}</Text>
+                </View>
+                <Text style={[styles.statementAmount, { color: line.amount < 0 ? "#EF4444" : "#10B981" }]}>
+                  {line.amount < 0 ? "−" : "+"}{Math.abs(line.amount).toLocaleString()}
+                </Text>
+                <Text style={styles.statementBalance}>{ugx(line.balance)}</Text>
+              </View>
+            ))}
+            <View style={styles.statementRow}>
+              <Text style={[styles.statementMemo, { color: "#888" }]}>Closing balance</Text>
+              <Text style={styles.statementBalance}>{ugx(statement.closingBalance)}</Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Manual adjustment</Text>
+          <TextInput style={[styles.input, styles.inputSpaced]} value={adjustAmount} onChangeText={setAdjustAmount} placeholder="Amount in UGX (negative to debit)" placeholderTextColor="#555" keyboardType="numeric" />
+          <TextInput style={[styles.input, styles.inputSpaced]} value={adjustMemo} onChangeText={setAdjustMemo} placeholder="Reason (shown on the statement)" placeholderTextColor="#555" />
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#F59E0B" }]} onPress={adjust} disabled={detailLoading}>
+            <Ionicons name="create-outline" size={16} color="#FFF" />
+            <Text style={styles.actionBtnText}>Post Adjustment</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    )
+  }
+
+  const query = search.trim().toLowerCase()
+  const visible = organizers.filter((o) => !query || [o.name, o.email, o.organizerId].some((v) => v?.toLowerCase().includes(query)))
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Organiser Ledger</Text>
+      <Text style={styles.subheader}>Balances derived from the ledger · {organizers.length} organiser{organizers.length !== 1 ? "s" : ""}</Text>
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search-outline" size={18} color="#666" />
+        <TextInput style={styles.searchInput} value={search} onChangeText={setSearch} placeholder="Search by name or email..." placeholderTextColor="#555" />
+        <TouchableOpacity onPress={sync} disabled={syncing}>
+          {syncing ? <ActivityIndicator size="small" color="#3B82F6" /> : <Ionicons name="sync-outline" size={20} color="#3B82F6" />}
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList data={visible} keyExtractor={(o) => o.organizerId} contentContainerStyle={styles.list}
+          onRefresh={loadOrganizers} refreshing={false}
+          renderItem={({ item }) => (
+            <TouchableOpacity style={styles.card} onPress={() => open(item)} activeOpacity={0.7}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle} numberOfLines={1}>{item.name || item.email || item.organizerId}</Text>
+                <Text style={[styles.cardAmount, { color: item.availableBalance < 0 ? "#EF4444" : "#10B981" }]}>{ugx(item.availableBalance)}</Text>
+              </View>
+              <Text style={styles.cardMeta}>{item.email} · {ugx(item.pendingBalance)} pending</Text>
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="wallet-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>No organiser balances yet</Text></View>}
+        />
+      )}
+    </View>
+  )
+}
+
+function Summary({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <View style={styles.summaryItem}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={[styles.summaryValue, color ? { color } : null]}>{value}</Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 12 },
+  backRow: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  backText: { color: "#3B82F6", fontSize: 13, fontWeight: "600" },
+  searchRow: { flexDirection: "row", alignItems: "center", backgroundColor: "#13131a", borderRadius: 10, paddingHorizontal: 12, marginBottom: 12, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  searchInput: { flex: 1, color: "#FFF", paddingVertical: 10, fontSize: 14, marginLeft: 8 },
+  list: { paddingBottom: 20 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  cardAmount: { fontSize: 14, fontWeight: "800" },
+  cardMeta: { color: "#666", fontSize: 12 },
+  summaryGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 },
+  summaryItem: { backgroundColor: "#13131a", borderRadius: 10, padding: 12, minWidth: 140, flexGrow: 1, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  summaryLabel: { color: "#666", fontSize: 11, marginBottom: 4 },
+  summaryValue: { color: "#FFF", fontSize: 15, fontWeight: "800" },
+  rangeRow: { flexDirection: "row", gap: 8, marginBottom: 8 },
+  input: { flex: 1, backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  inputSpaced: { marginBottom: 8 },
+  actionRow: { flexDirection: "row", gap: 8, marginBottom: 12 },
+  actionBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", padding: 12, borderRadius: 10, gap: 6, flex: 1 },
+  actionBtnText: { color: "#FFF", fontWeight: "700", fontSize: 13 },
+  sectionTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", marginBottom: 10 },
+  issueRow: { paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: "rgba(255,255,255,0.04)" },
+  issueKind: { color: "#F97316", fontSize: 11, fontWeight: "700", textTransform: "capitalize" },
+  issueText: { color: "#CCC", fontSize: 12, marginTop: 2 },
+  statementRow: { flexDirection: "row", alignItems: "center", paddingVertical: 8, gap: 12, borderBottomWidth: 1, borderBottomColor: "rgba(255,255,255,0.04)" },
+  statementMemo: { color: "#CCC", fontSize: 12, flex: 1 },
+  statementDate: { color: "#555", fontSize: 11, marginTop: 2 },
+  statementAmount: { fontSize: 12, fontWeight: "700", minWidth: 80, textAlign: "right" },
+  statementBalance: { color: "#FFF", fontSize: 12, fontWeight: "700", minWidth: 110, textAlign: "right" },
+})
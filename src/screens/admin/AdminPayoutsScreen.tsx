@@ -1,13 +1,17 @@
 import React, { useEffect, useState, useCallback } from "react"
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, Modal } from "react-native"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, Modal, Switch } from "react-native"
 import { Ionicons } from "@expo/vector-icons"
 import { supabase } from "../../config/supabase"
 import SupabaseService from "../../services/SupabaseService"
+import LedgerService from "../../services/LedgerService"
+import AutoPayoutService from "../../services/AutoPayoutService"
+import type { PayoutApprovalRules } from "../../models/AutoPayout"
 import { useAuth } from "../../contexts/AuthContext"
 
-type StatusFilter = "all" | "pending_admin_review" | "approved" | "rejected" | "processing" | "completed"
+type StatusFilter = "all" | "awaiting_confirmation" | "pending_admin_review" | "approved" | "rejected" | "processing" | "completed"
 
 const STATUS_CONFIG: Record<string, { label: string; color: string; bg: string; icon: string }> = {
+  awaiting_confirmation: { label: "Awaiting Party", color: "#94A3B8", bg: "rgba(148,163,184,0.12)", icon: "hourglass-outline" },
   pending_admin_review: { label: "Pending Review", color: "#F59E0B", bg: "rgba(245,158,11,0.12)", icon: "time-outline" },
   approved: { label: "Approved", color: "#3B82F6", bg: "rgba(59,130,246,0.12)", icon: "checkmark-circle-outline" },
   rejected: { label: "Rejected", color: "#EF4444", bg: "rgba(239,68,68,0.12)", icon: "close-circle-outline" },
@@ -15,7 +19,16 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; bg: string;
   completed: { label: "Completed", color: "#10B981", bg: "rgba(16,185,129,0.12)", icon: "checkmark-done-outline" },
 }
 
-const FILTERS: StatusFilter[] = ["all", "pending_admin_review", "approved", "rejected", "completed"]
+const FILTERS: StatusFilter[] = ["all", "awaiting_confirmation", "pending_admin_review", "approved", "rejected", "completed"]
+
+const RULE_FIELDS: Array<{ key: keyof Omit<PayoutApprovalRules, "paused" | "updatedAt" | "updatedBy">; label: string }> = [
+  { key: "autoApproveBelow", label: "Auto-approve below (UGX)" },
+  { key: "newOrganizerHoldDays", label: "Hold new organisers (days)" },
+  { key: "detailsChangeHoldHours", label: "Hold after details change (hours)" },
+  { key: "minimumAmount", label: "Minimum payout (UGX)" },
+]
+
+const metadataOf = (payout: any) => typeof payout.metadata === "string" ? JSON.parse(payout.metadata || "{}") : (payout.metadata || {})
 
 export default function AdminPayoutsScreen() {
   const { user } = useAuth()
@@ -25,6 +38,9 @@ export default function AdminPayoutsScreen() {
   const [detailModal, setDetailModal] = useState<any | null>(null)
   const [actionLoading, setActionLoading] = useState(false)
   const [rejectReason, setRejectReason] = useState("")
+  const [rules, setRules] = useState<PayoutApprovalRules | null>(null)
+  const [rulesOpen, setRulesOpen] = useState(false)
+  const [rulesSaving, setRulesSaving] = useState(false)
 
   const load = useCallback(async () => {
     setLoading(true)
@@ -52,6 +68,21 @@ export default function AdminPayoutsScreen() {
 
   useEffect(() => { void load() }, [load])
 
+  useEffect(() => {
+    AutoPayoutService.getRules().then(setRules).catch((e) => console.error("AdminPayouts: Error loading approval rules:", e))
+  }, [])
+
+  const handleSaveRules = async () => {
+    if (!rules) return
+    setRulesSaving(true)
+    try {
+      setRules(await AutoPayoutService.saveRules(rules))
+      Alert.alert("Saved", "Automatic payout rules updated")
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setRulesSaving(false) }
+  }
+
   const sendNotification = async (userId: string, title: string, body: string) => {
     try {
       await supabase.from("notifications").insert({
@@ -92,10 +123,36 @@ export default function AdminPayoutsScreen() {
     } finally { setActionLoading(false) }
   }
 
+  // Held automatic payouts go through payout-settings so their tickets move with them
+  const handleRelease = async (payoutId: string) => {
+    setActionLoading(true)
+    try {
+      await AutoPayoutService.release(payoutId)
+      setDetailModal(null)
+      await load()
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setActionLoading(false) }
+  }
+
+  const handleReturn = async (payoutId: string) => {
+    if (!rejectReason.trim()) { Alert.alert("Reason Required", "Enter a reason for rejection"); return }
+    setActionLoading(true)
+    try {
+      await AutoPayoutService.returnToBalance(payoutId, rejectReason.trim())
+      setDetailModal(null)
+      setRejectReason("")
+      await load()
+    } catch (e: any) {
+      Alert.alert("Error", e.message)
+    } finally { setActionLoading(false) }
+  }
+
   const handleComplete = async (payoutId: string, organizerId: string) => {
     setActionLoading(true)
     try {
       await SupabaseService.completePayout(payoutId, user?.id || "", `manual_${Date.now()}`)
+      await LedgerService.recordPayout(payoutId).catch((err) => console.error("Failed to post payout to ledger:", err))
       await sendNotification(organizerId, "✅ Payout Completed", `Your payout of UGX ${detailModal?.amount?.toLocaleString()} has been processed. Check your bank account.`)
       setDetailModal(null)
       await load()
@@ -106,11 +163,11 @@ export default function AdminPayoutsScreen() {
 
   const renderItem = ({ item }: { item: any }) => {
     const cfg = STATUS_CONFIG[item.status] || STATUS_CONFIG.pending_admin_review
-    const metadata = typeof item.metadata === "string" ? JSON.parse(item.metadata || "{}") : (item.metadata || {})
+    const metadata = metadataOf(item)
     return (
       <TouchableOpacity style={styles.card} onPress={() => { setDetailModal(item); setRejectReason("") }} activeOpacity={0.7}>
         <View style={styles.cardHeader}>
-          <Text style={styles.cardId}>{item.id?.slice(0, 8)}</Text>
+          <Text style={styles.cardId}>{item.id?.slice(0, 8)}{metadata.auto ? "  · AUTO" : ""}{metadata.split_group ? "  · SHARE" : ""}{metadata.team_request ? "  · TEAM" : ""}</Text>
           <View style={[styles.badge, { backgroundColor: cfg.bg }]}>
             <Ionicons name={cfg.icon as any} size={12} color={cfg.color} />
             <Text style={[styles.badgeText, { color: cfg.color }]}>{cfg.label}</Text>
@@ -141,6 +198,27 @@ export default function AdminPayoutsScreen() {
   const renderActions = () => {
     if (!detailModal) return null
     const s = detailModal.status
+    if (s === "pending_admin_review" && (metadataOf(detailModal).auto || metadataOf(detailModal).team_request)) {
+      return (
+        <View style={styles.actionGrid}>
+          <TextInput style={styles.modalInput} value={rejectReason} onChangeText={setRejectReason} placeholder="Rejection reason (required for reject)" placeholderTextColor="#666" multiline />
+          <View style={styles.actionRow}>
+            {detailModal.payout_method === "mobile_money" ? (
+              <TouchableOpacity style={[styles.btn, { backgroundColor: "#10B981" }]} onPress={() => handleRelease(detailModal.id)} disabled={actionLoading}>
+                {actionLoading ? <ActivityIndicator size="small" color="#FFF" /> : <><Ionicons name="send-outline" size={18} color="#FFF" /><Text style={styles.btnText}>Approve & Send</Text></>}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={[styles.btn, { backgroundColor: "#10B981" }]} onPress={() => handleApprove(detailModal.id, detailModal.organizer_id)} disabled={actionLoading}>
+                {actionLoading ? <ActivityIndicator size="small" color="#FFF" /> : <><Ionicons name="checkmark-outline" size={18} color="#FFF" /><Text style={styles.btnText}>Approve</Text></>}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.btn, { backgroundColor: "#EF4444" }]} onPress={() => handleReturn(detailModal.id)} disabled={actionLoading || !rejectReason.trim()}>
+              {actionLoading ? <ActivityIndicator size="small" color="#FFF" /> : <><Ionicons name="arrow-undo-outline" size={18} color="#FFF" /><Text style={styles.btnText}>Reject</Text></>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )
+    }
     return (
       <View style={styles.actionGrid}>
         {s === "pending_admin_review" && (
@@ -170,6 +248,35 @@ export default function AdminPayoutsScreen() {
       <Text style={styles.header}>Payout Requests</Text>
       <Text style={styles.subheader}>{payouts.length} request{payouts.length !== 1 ? "s" : ""}</Text>
 
+      {rules && (
+        <View style={styles.rulesCard}>
+          <TouchableOpacity style={styles.rulesHeader} onPress={() => setRulesOpen(!rulesOpen)}>
+            <Ionicons name="shield-checkmark-outline" size={16} color="#3B82F6" />
+            <Text style={styles.rulesTitle}>Automatic payout rules{rules.paused ? " · PAUSED" : ""}</Text>
+            <Ionicons name={rulesOpen ? "chevron-up" : "chevron-down"} size={16} color="#666" />
+          </TouchableOpacity>
+          {rulesOpen && (
+            <View style={styles.rulesBody}>
+              {RULE_FIELDS.map((f) => (
+                <View key={f.key} style={styles.ruleRow}>
+                  <Text style={styles.rowLabel}>{f.label}</Text>
+                  <TextInput style={styles.ruleInput} keyboardType="numeric" value={String(rules[f.key])}
+                    onChangeText={(t) => setRules({ ...rules, [f.key]: Number(t.replace(/\D/g, "")) || 0 })} />
+                </View>
+              ))}
+              <View style={styles.ruleRow}>
+                <Text style={styles.rowLabel}>Pause all automatic payouts</Text>
+                <Switch value={rules.paused} onValueChange={(paused) => setRules({ ...rules, paused })} />
+              </View>
+              <Text style={styles.rulesHint}>Bank transfers are always held. Held payouts appear below as Pending Review.</Text>
+              <TouchableOpacity style={[styles.btn, styles.btnFull, { backgroundColor: "#3B82F6" }]} onPress={handleSaveRules} disabled={rulesSaving}>
+                {rulesSaving ? <ActivityIndicator size="small" color="#FFF" /> : <Text style={styles.btnText}>Save Rules</Text>}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
       <FlatList horizontal showsHorizontalScrollIndicator={false} style={styles.filterList} data={FILTERS} keyExtractor={(f) => f}
         renderItem={({ item }) => (
           <TouchableOpacity style={[styles.filterChip, statusFilter === item && styles.filterChipActive]} onPress={() => setStatusFilter(item)}>
@@ -219,6 +326,10 @@ export default function AdminPayoutsScreen() {
                     const meta = typeof detailModal.metadata === "string" ? JSON.parse(detailModal.metadata || "{}") : (detailModal.metadata || {})
                     return meta.account_number ? <Row label="Account" value={meta.account_number} /> : null
                   })()}
+                  {metadataOf(detailModal).split_group ? (
+                    <Row label="Revenue Share" value={`${metadataOf(detailModal).event_name || metadataOf(detailModal).event_id} · ${String(metadataOf(detailModal).role).replace(/_/g, " ")}`} />
+                  ) : null}
+                  {metadataOf(detailModal).hold_reason ? <Row label="Held Because" value={metadataOf(detailModal).hold_reason} /> : null}
                   {detailModal.admin_note ? <Row label="Admin Note" value={detailModal.admin_note} /> : null}
                   <Row label="Tickets" value={`${detailModal.ticket_ids?.length || 0} tickets`} />
                   <Row label="Submitted" value={new Date(detailModal.request_date).toLocaleString()} />
@@ -276,4 +387,11 @@ const styles = StyleSheet.create({
   btn: { flexDirection: "row", alignItems: "center", justifyContent: "center", padding: 12, borderRadius: 10, gap: 6, flex: 1 },
   btnFull: { padding: 14 },
   btnText: { color: "#FFF", fontWeight: "700", fontSize: 13 },
+  rulesCard: { backgroundColor: "#13131a", borderRadius: 14, padding: 12, marginBottom: 12, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  rulesHeader: { flexDirection: "row", alignItems: "center", gap: 8 },
+  rulesTitle: { color: "#FFF", fontSize: 13, fontWeight: "700", flex: 1 },
+  rulesBody: { gap: 8, marginTop: 12 },
+  ruleRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", gap: 12 },
+  ruleInput: { backgroundColor: "#0a0a0f", color: "#FFF", paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, fontSize: 13, width: 120, textAlign: "right", borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  rulesHint: { color: "#555", fontSize: 11 },
 })
@@ -0,0 +1,298 @@
+import React, { useEffect, useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, Platform } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import ReconciliationService from "../../services/ReconciliationService"
+import type { GatewayProvider, ReconciliationReport, ReconciliationRow, ReconciliationStatus } from "../../models/Reconciliation"
+
+type StatusFilter = "all" | ReconciliationStatus
+
+const STATUS_CONFIG: Record<ReconciliationStatus, { label: string; color: string; bg: string; icon: string }> = {
+  matched: { label: "Matched", color: "#10B981", bg: "rgba(16,185,129,0.12)", icon: "checkmark-done-outline" },
+  orphan_payment: { label: "Orphan Payment", color: "#F97316", bg: "rgba(249,115,22,0.12)", icon: "help-circle-outline" },
+  missing_payment: { label: "Missing Payment", color: "#EF4444", bg: "rgba(239,68,68,0.12)", icon: "alert-circle-outline" },
+  amount_mismatch: { label: "Amount Mismatch", color: "#F59E0B", bg: "rgba(245,158,11,0.12)", icon: "swap-horizontal-outline" },
+  duplicate: { label: "Duplicate", color: "#8B5CF6", bg: "rgba(139,92,246,0.12)", icon: "copy-outline" },
+}
+
+const FILTERS: StatusFilter[] = ["all", "orphan_payment", "missing_payment", "amount_mismatch", "duplicate", "matched"]
+const PROVIDERS: (GatewayProvider | "all")[] = ["all", "pawapay", "pesapal"]
+
+const ACTION_LABELS = { create_fulfillment: "Create Fulfillment", open_refund: "Open Refund" }
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10)
+const ugx = (amount: number | null) => (amount === null ? "—" : `UGX ${Number(amount).toLocaleString()}`)
+
+// Pick a statement export from disk (web only, the admin console runs there)
+function pickCsvFile(): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = ".csv,text/csv"
+    input.style.display = "none"
+    input.onchange = async (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]
+      resolve(file ? await file.text() : null)
+      input.remove()
+    }
+    document.body.appendChild(input)
+    input.click()
+  })
+}
+
+export default function AdminReconciliationScreen() {
+  const [from, setFrom] = useState(isoDate(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)))
+  const [to, setTo] = useState(isoDate(new Date()))
+  const [provider, setProvider] = useState<GatewayProvider | "all">("all")
+  const [report, setReport] = useState<ReconciliationReport | null>(null)
+  const [history, setHistory] = useState<Omit<ReconciliationReport, "rows">[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [running, setRunning] = useState(false)
+  const [actingOn, setActingOn] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await ReconciliationService.list(10))
+    } catch (e: any) {
+      Alert.alert("Reconciliation", e.message)
+    }
+  }, [])
+
+  useEffect(() => { void loadHistory() }, [loadHistory])
+
+  // The end date is inclusive
+  const range = () => [`${from}T00:00:00.000Z`, `${to}T23:59:59.999Z`] as const
+
+  const run = async (csv?: string) => {
+    setRunning(true)
+    try {
+      const [start, end] = range()
+      const result = csv
+        ? await ReconciliationService.importCsv(start, end, provider as GatewayProvider, csv)
+        : await ReconciliationService.pull(start, end, provider === "all" ? undefined : provider)
+      setReport(result.report)
+      setStatusFilter("all")
+      if (result.importErrors?.length) {
+        Alert.alert("Some lines were skipped", result.importErrors.slice(0, 10).join("\n"))
+      }
+      void loadHistory()
+    } catch (e: any) {
+      Alert.alert("Reconciliation", e.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const importCsv = async () => {
+    if (Platform.OS !== "web") return Alert.alert("Import CSV", "Statement import is available on the web admin only")
+    if (provider === "all") return Alert.alert("Import CSV", "Choose which gateway the statement is from first")
+    const csv = await pickCsvFile()
+    if (csv) await run(csv)
+  }
+
+  const openReport = async (id: string) => {
+    setRunning(true)
+    try {
+      setReport(await ReconciliationService.get(id))
+      setStatusFilter("all")
+    } catch (e: any) {
+      Alert.alert("Reconciliation", e.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const resolve = async (row: ReconciliationRow) => {
+    if (!report || !row.action) return
+    setActingOn(row.id)
+    try {
+      const result = await ReconciliationService.resolve(report.id, row.id, row.action)
+      setReport({ ...report, rows: report.rows.map((r) => (r.id === row.id ? { ...r, resolution: result.resolution } : r)) })
+      Alert.alert(
+        ACTION_LABELS[row.action],
+        row.action === "open_refund"
+          ? `Refund ${result.reference} is waiting in Refund Management`
+          : `Tickets for ${result.reference} are being issued`,
+      )
+    } catch (e: any) {
+      Alert.alert(ACTION_LABELS[row.action], e.message)
+    } finally {
+      setActingOn(null)
+    }
+  }
+
+  const rows = (report?.rows || []).filter((r) => statusFilter === "all" || r.status === statusFilter)
+
+  const renderRow = ({ item }: { item: ReconciliationRow }) => {
+    const cfg = STATUS_CONFIG[item.status]
+    const transaction = item.transactions[0]
+    const record = item.records[0]
+    const isExpanded = expanded === item.id
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => setExpanded(isExpanded ? null : item.id)} activeOpacity={0.7}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardRef} numberOfLines={1}>{transaction?.reference || record?.references[0] || item.id}</Text>
+          <View style={[styles.badge, { backgroundColor: cfg.bg }]}>
+            <Ionicons name={cfg.icon as any} size={12} color={cfg.color} />
+            <Text style={[styles.badgeText, { color: cfg.color }]}>{cfg.label}</Text>
+          </View>
+        </View>
+        <View style={styles.cardBody}>
+          <View style={styles.cardDetail}>
+            <Text style={styles.cardLabel}>Type</Text>
+            <Text style={styles.cardValue}>{item.kind} · {transaction?.provider || record?.provider || "—"}</Text>
+          </View>
+          <View style={styles.cardDetail}>
+            <Text style={styles.cardLabel}>Gateway</Text>
+            <Text style={styles.cardValue}>{ugx(item.gatewayAmount)}{transaction && transaction.status !== "completed" ? ` (${transaction.status})` : ""}</Text>
+          </View>
+          <View style={styles.cardDetail}>
+            <Text style={styles.cardLabel}>Ours</Text>
+            <Text style={styles.cardValue}>{ugx(item.ledgerAmount)}</Text>
+          </View>
+          {item.note && <Text style={styles.note}>{item.note}</Text>}
+        </View>
+
+        {isExpanded && (
+          <View style={styles.detail}>
+            {item.transactions.map((t, i) => (
+              <Text key={`t${i}`} style={styles.detailText}>
+                Gateway {t.status} · {ugx(t.amount)}{t.occurredAt ? ` · ${new Date(t.occurredAt).toLocaleString()}` : ""}{t.aliases?.length ? ` · ${t.aliases.join(", ")}` : ""}
+              </Text>
+            ))}
+            {item.records.map((r) => (
+              <Text key={`${r.source}:${r.id}`} style={styles.detailText}>
+                {r.source} {r.status} · {ugx(r.amount)} · {r.label}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {item.resolution ? (
+          <Text style={styles.resolved}>
+            {ACTION_LABELS[item.resolution.action]} by {item.resolution.by}{item.resolution.reference ? ` · ${item.resolution.reference}` : ""}
+          </Text>
+        ) : item.action ? (
+          <TouchableOpacity
+            style={[styles.actionBtn, { backgroundColor: item.action === "create_fulfillment" ? "#10B981" : "#3B82F6" }]}
+            onPress={() => resolve(item)}
+            disabled={actingOn === item.id}
+          >
+            {actingOn === item.id ? <ActivityIndicator size="small" color="#FFF" /> : (
+              <>
+                <Ionicons name={item.action === "create_fulfillment" ? "ticket-outline" : "return-down-back-outline"} size={16} color="#FFF" />
+                <Text style={styles.actionBtnText}>{ACTION_LABELS[item.action]}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        ) : null}
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Payment Reconciliation</Text>
+      <Text style={styles.subheader}>Compare PawaPay and PesaPal statements with tickets, installments, refunds and payouts</Text>
+
+      <View style={styles.rangeRow}>
+        <TextInput style={styles.dateInput} value={from} onChangeText={setFrom} placeholder="From (YYYY-MM-DD)" placeholderTextColor="#555" />
+        <Ionicons name="arrow-forward" size={16} color="#555" />
+        <TextInput style={styles.dateInput} value={to} onChangeText={setTo} placeholder="To (YYYY-MM-DD)" placeholderTextColor="#555" />
+      </View>
+
+      <View style={styles.rangeRow}>
+        {PROVIDERS.map((p) => (
+          <TouchableOpacity key={p} style={[styles.filterChip, provider === p && styles.filterChipActive]} onPress={() => setProvider(p)}>
+            <Text style={[styles.filterChipText, provider === p && styles.filterChipTextActive]}>{p === "all" ? "Both gateways" : p}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#3B82F6" }]} onPress={() => run()} disabled={running}>
+          <Ionicons name="cloud-download-outline" size={16} color="#FFF" />
+          <Text style={styles.actionBtnText}>Pull from Gateway</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.actionBtn, { backgroundColor: "#13131a", borderWidth: 1, borderColor: "#3B82F6" }]} onPress={importCsv} disabled={running}>
+          <Ionicons name="document-attach-outline" size={16} color="#3B82F6" />
+          <Text style={[styles.actionBtnText, { color: "#3B82F6" }]}>Import CSV</Text>
+        </TouchableOpacity>
+      </View>
+
+      {running ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={{ marginTop: 40 }} />
+      ) : report ? (
+        <>
+          <TouchableOpacity onPress={() => setReport(null)}>
+            <Text style={styles.reportMeta}>
+              <Ionicons name="chevron-back" size={12} color="#666" /> {new Date(report.range_from).toLocaleDateString()} – {new Date(report.range_to).toLocaleDateString()} · {report.source === "csv" ? `${report.provider} statement` : "gateway pull"}
+              {report.summary.unchecked ? ` · ${report.summary.unchecked} could not be checked` : ""}
+            </Text>
+          </TouchableOpacity>
+          <FlatList horizontal showsHorizontalScrollIndicator={false} style={styles.filterList} data={FILTERS} keyExtractor={(f) => f}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={[styles.filterChip, statusFilter === item && styles.filterChipActive]} onPress={() => setStatusFilter(item)}>
+                <Text style={[styles.filterChipText, statusFilter === item && styles.filterChipTextActive]}>
+                  {item === "all" ? `All ${report.rows.length}` : `${STATUS_CONFIG[item].label} ${report.summary[item]}`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          />
+          <FlatList data={rows} keyExtractor={(r) => r.id} renderItem={renderRow} contentContainerStyle={styles.list}
+            ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="checkmark-circle-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>Nothing to show</Text></View>}
+          />
+        </>
+      ) : (
+        <FlatList data={history} keyExtractor={(r) => r.id} contentContainerStyle={styles.list}
+          ListHeaderComponent={history.length ? <Text style={styles.sectionTitle}>Recent reports</Text> : null}
+          renderItem={({ item }) => {
+            const issues = item.summary.orphan_payment + item.summary.missing_payment + item.summary.amount_mismatch + item.summary.duplicate
+            return (
+              <TouchableOpacity style={styles.card} onPress={() => openReport(item.id)} activeOpacity={0.7}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardRef}>{new Date(item.range_from).toLocaleDateString()} – {new Date(item.range_to).toLocaleDateString()}</Text>
+                  <Text style={[styles.badgeText, { color: issues ? "#F97316" : "#10B981" }]}>{issues ? `${issues} issue${issues !== 1 ? "s" : ""}` : "All matched"}</Text>
+                </View>
+                <Text style={styles.cardValue}>{item.source === "csv" ? `${item.provider} statement` : "Gateway pull"} · {new Date(item.created_at).toLocaleString()}</Text>
+              </TouchableOpacity>
+            )
+          }}
+          ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="git-compare-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>No reconciliation reports yet</Text></View>}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 12 },
+  rangeRow: { flexDirection: "row", alignItems: "center", gap: 8, marginBottom: 10 },
+  dateInput: { flex: 1, backgroundColor: "#13131a", color: "#FFF", paddingHorizontal: 12, paddingVertical: 10, borderRadius: 10, fontSize: 14, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  filterList: { marginBottom: 12, maxHeight: 36 },
+  filterChip: { paddingHorizontal: 14, paddingVertical: 7, borderRadius: 20, backgroundColor: "#13131a", marginRight: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  filterChipActive: { backgroundColor: "rgba(59,130,246,0.15)", borderColor: "#3B82F6" },
+  filterChipText: { color: "#666", fontSize: 12, fontWeight: "600", textTransform: "capitalize" },
+  filterChipTextActive: { color: "#3B82F6" },
+  reportMeta: { color: "#666", fontSize: 12, marginVertical: 10 },
+  sectionTitle: { color: "#888", fontSize: 13, fontWeight: "700", marginVertical: 10 },
+  list: { paddingBottom: 20 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 12, gap: 8 },
+  cardRef: { color: "#FFF", fontSize: 13, fontWeight: "700", fontFamily: "monospace", flex: 1 },
+  badge: { flexDirection: "row", alignItems: "center", paddingHorizontal: 8, paddingVertical: 4, borderRadius: 20, gap: 4 },
+  badgeText: { fontSize: 10, fontWeight: "700" },
+  cardBody: { gap: 6 },
+  cardDetail: { flexDirection: "row", alignItems: "center", gap: 8 },
+  cardLabel: { color: "#555", fontSize: 12, width: 60 },
+  cardValue: { color: "#CCC", fontSize: 12, flex: 1, textTransform: "capitalize" },
+  note: { color: "#F59E0B", fontSize: 12, marginTop: 4 },
+  detail: { marginTop: 12, paddingTop: 10, borderTopWidth: 1, borderTopColor: "rgba(255,255,255,0.06)", gap: 4 },
+  detailText: { color: "#888", fontSize: 11 },
+  resolved: { color: "#10B981", fontSize: 12, marginTop: 12 },
+  actionRow: { flexDirection: "row", gap: 8, marginBottom: 4 },
+  actionBtn: { flexDirection: "row", alignItems: "center", justifyContent: "center", padding: 12, borderRadius: 10, gap: 6, flex: 1, marginTop: 12 },
+  actionBtnText: { color: "#FFF", fontWeight: "700", fontSize: 13 },
+})
@@ -0,0 +1,213 @@
+import React, { useEffect, useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, ScrollView } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import RiskService from "../../services/RiskService"
+import type { RiskAssessment, RiskQueueFilters, RiskReviewStatus } from "../../models/Risk"
+
+const PAGE_SIZE = 50
+
+const STATUS_FILTERS: Array<{ key: RiskReviewStatus | ""; label: string }> = [
+  { key: "pending", label: "Pending" },
+  { key: "fraud", label: "Fraud" },
+  { key: "cleared", label: "Cleared" },
+  { key: "", label: "All" },
+]
+
+const ACTION_CONFIG = {
+  step_up: { label: "Step-up", color: "#F59E0B", bg: "rgba(245,158,11,0.12)" },
+  block: { label: "Blocked", color: "#EF4444", bg: "rgba(239,68,68,0.12)" },
+  allow: { label: "Allowed", color: "#10B981", bg: "rgba(16,185,129,0.12)" },
+}
+
+const REVIEW_LABELS: Record<RiskReviewStatus, string> = { pending: "Awaiting review", cleared: "Cleared", fraud: "Confirmed fraud" }
+
+function stepUpLabel(item: RiskAssessment): string | null {
+  if (item.action !== "step_up") return null
+  const method = item.stepUp === "photo" ? "security photo" : "emailed code"
+  return item.stepUpPassedAt ? `Passed ${method}` : `Asked for ${method}`
+}
+
+export default function AdminRiskReviewScreen() {
+  const [assessments, setAssessments] = useState<RiskAssessment[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [status, setStatus] = useState<RiskReviewStatus | "">("pending")
+  const [search, setSearch] = useState("")
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [reviewing, setReviewing] = useState(false)
+
+  const filters = useCallback((): RiskQueueFilters => ({ status, search: search.trim() || undefined }), [status, search])
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await RiskService.queue({ ...filters(), limit: PAGE_SIZE, offset: 0 })
+      setAssessments(result.assessments)
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Risk Review", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  // Typing in the search box waits for Search; the chips apply straight away
+  useEffect(() => { void load() }, [status])
+
+  const loadMore = async () => {
+    if (loadingMore || assessments.length >= total) return
+    setLoadingMore(true)
+    try {
+      const result = await RiskService.queue({ ...filters(), limit: PAGE_SIZE, offset: assessments.length })
+      setAssessments((prev) => [...prev, ...result.assessments])
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Risk Review", e.message)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const review = async (item: RiskAssessment, decision: "clear" | "fraud") => {
+    if (decision === "fraud" && !note.trim()) {
+      Alert.alert("Confirm Fraud", "Add a note saying why this purchase is fraud")
+      return
+    }
+    setReviewing(true)
+    try {
+      const updated = await RiskService.review(item.id, decision, note.trim())
+      // Reviewed items leave the pending view; other views show the new status
+      setAssessments((prev) => status === "pending" ? prev.filter((a) => a.id !== item.id) : prev.map((a) => a.id === item.id ? updated : a))
+      if (status === "pending") setTotal((t) => Math.max(0, t - 1))
+      setExpanded(null)
+      setNote("")
+    } catch (e: any) {
+      Alert.alert("Risk Review", e.message)
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const renderItem = ({ item }: { item: RiskAssessment }) => {
+    const open = expanded === item.id
+    const action = ACTION_CONFIG[item.action]
+    const stepUp = stepUpLabel(item)
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => { setExpanded(open ? null : item.id); setNote("") }} activeOpacity={0.7}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{item.eventName || "Ticket purchase"}</Text>
+          <View style={[styles.badge, { backgroundColor: action.bg }]}>
+            <Text style={[styles.badgeText, { color: action.color }]}>{action.label} · {item.score}</Text>
+          </View>
+        </View>
+        <Text style={styles.cardMeta} numberOfLines={1}>
+          {item.email || "No email"}{item.phone ? ` · ${item.phone}` : ""} · UGX {item.amount.toLocaleString()} ({item.quantity})
+        </Text>
+        <Text style={styles.cardTime}>
+          {new Date(item.createdAt).toLocaleString()}{stepUp ? ` · ${stepUp}` : ""}{item.paymentId ? " · Payment started" : ""}
+        </Text>
+        {open && (
+          <View style={styles.details}>
+            {item.factors.map((f, i) => (
+              <View key={`${f.signal}-${i}`} style={styles.factorRow}>
+                <Text style={styles.factorPoints}>+{f.points}</Text>
+                <Text style={styles.factorDetail}>{f.detail}</Text>
+              </View>
+            ))}
+            <Text style={styles.detailMeta}>Payer {item.payerName || "unknown"} · {item.paymentMethod || "unknown method"}</Text>
+            {item.deviceId && <Text style={styles.detailMeta}>Device {item.deviceId}</Text>}
+            {item.paymentId && <Text style={styles.detailMeta}>Payment {item.paymentId}</Text>}
+            {item.reviewStatus && item.reviewStatus !== "pending" ? (
+              <Text style={styles.reviewed}>
+                {REVIEW_LABELS[item.reviewStatus]}{item.reviewedAt ? ` · ${new Date(item.reviewedAt).toLocaleString()}` : ""}{item.reviewNote ? ` · “${item.reviewNote}”` : ""}
+              </Text>
+            ) : (
+              <>
+                <TextInput style={styles.noteInput} value={note} onChangeText={setNote} placeholder="Review note (required for fraud)"
+                  placeholderTextColor="#555" multiline />
+                <View style={styles.actions}>
+                  <TouchableOpacity style={[styles.actionBtn, styles.clearBtn]} onPress={() => review(item, "clear")} disabled={reviewing}>
+                    {reviewing ? <ActivityIndicator size="small" color="#10B981" /> : <Text style={[styles.actionText, { color: "#10B981" }]}>Clear</Text>}
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.actionBtn, styles.fraudBtn]} onPress={() => review(item, "fraud")} disabled={reviewing}>
+                    {reviewing ? <ActivityIndicator size="small" color="#EF4444" /> : <Text style={[styles.actionText, { color: "#EF4444" }]}>Confirm Fraud</Text>}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Risk Review</Text>
+      <Text style={styles.subheader}>Checkouts held for step-up or blocked · {total} purchase{total !== 1 ? "s" : ""}</Text>
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search-outline" size={18} color="#666" />
+        <TextInput style={styles.searchInput} value={search} onChangeText={setSearch} onSubmitEditing={load} returnKeyType="search"
+          placeholder="Email, phone or device id..." placeholderTextColor="#555" />
+        <TouchableOpacity onPress={load} disabled={loading}>
+          <Ionicons name="refresh-outline" size={20} color="#3B82F6" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+        {STATUS_FILTERS.map((f) => (
+          <TouchableOpacity key={f.key || "all"} style={[styles.chip, status === f.key && styles.chipActive]} onPress={() => setStatus(f.key)}>
+            <Text style={[styles.chipText, status === f.key && styles.chipTextActive]}>{f.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList data={assessments} keyExtractor={(a) => a.id} contentContainerStyle={styles.list}
+          renderItem={renderItem} onRefresh={load} refreshing={false}
+          onEndReached={loadMore} onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? <ActivityIndicator size="small" color="#3B82F6" style={{ marginVertical: 16 }} /> : null}
+          ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="shield-checkmark-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>No flagged purchases here</Text></View>}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 12 },
+  searchRow: { flexDirection: "row", alignItems: "center", backgroundColor: "#13131a", borderRadius: 10, paddingHorizontal: 12, marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  searchInput: { flex: 1, color: "#FFF", paddingVertical: 10, fontSize: 14, marginLeft: 8 },
+  chipScroll: { flexGrow: 0, marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: "#333", marginRight: 6 },
+  chipActive: { backgroundColor: "rgba(59,130,246,0.15)", borderColor: "#3B82F6" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#3B82F6" },
+  list: { paddingBottom: 20 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 8 },
+  badgeText: { fontSize: 11, fontWeight: "700" },
+  cardMeta: { color: "#999", fontSize: 12 },
+  cardTime: { color: "#666", fontSize: 11, marginTop: 4 },
+  details: { marginTop: 10, paddingTop: 10, borderTopWidth: 1, borderTopColor: "rgba(255,255,255,0.06)" },
+  factorRow: { flexDirection: "row", gap: 8, paddingVertical: 3 },
+  factorPoints: { color: "#F59E0B", fontSize: 12, fontWeight: "700", minWidth: 36 },
+  factorDetail: { color: "#CCC", fontSize: 12, flex: 1 },
+  detailMeta: { color: "#555", fontSize: 11, marginTop: 6 },
+  reviewed: { color: "#CCC", fontSize: 12, marginTop: 10, fontStyle: "italic" },
+  noteInput: { backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)", marginTop: 10, minHeight: 60, textAlignVertical: "top" },
+  actions: { flexDirection: "row", gap: 8, marginTop: 10 },
+  actionBtn: { flex: 1, alignItems: "center", paddingVertical: 10, borderRadius: 10, borderWidth: 1 },
+  clearBtn: { borderColor: "#10B981", backgroundColor: "rgba(16,185,129,0.08)" },
+  fraudBtn: { borderColor: "#EF4444", backgroundColor: "rgba(239,68,68,0.08)" },
+  actionText: { fontSize: 13, fontWeight: "700" },
+})
@@ -6,7 +6,7 @@ import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndi
 import { Ionicons } from "@expo/vector-icons"
 import { useAuth } from "../../contexts/AuthContext"
 import TicketService from "../../services/TicketService"
-import type { PendingFulfillment } from "../../models/PendingFulfillment"
+import type { FulfillmentAttempt, PendingFulfillment } from "../../models/PendingFulfillment"
 
 function formatDistanceToNow(date: Date): string {
   const now = new Date()
@@ -22,22 +22,28 @@ function formatDistanceToNow(date: Date): string {
 }
 
 const STATUS_LABELS: Record<string, string> = {
+  awaiting_payment: "Payment not confirmed yet",
   payment_confirmed: "Payment received, ticket not started",
   fulfilling: "Ticket creation in progress",
-  failed: "Failed — needs manual action",
+  failed: "Failed — retrying automatically",
+  dead_letter: "Retries exhausted — needs manual action",
 }
 
-const STATUS_COLORS: Record<string, string> = {
-  payment_confirmed: "#00D4FF",
-  fulfilling: "#FFA500",
-  failed: "#FF6B6B",
+const OUTCOME_LABELS: Record<FulfillmentAttempt["outcome"], string> = {
+  fulfilled: "Fulfilled",
+  retry: "Failed, retry scheduled",
+  dead_letter: "Failed, gave up",
 }
 
+// Checkouts usually confirm within minutes; older ones are worth a look
+const AWAITING_PAYMENT_STALE_MS = 30 * 60 * 1000
+
 export const AdminStrandedPurchasesScreen: React.FC = () => {
   const { user } = useAuth()
   const [fulfillments, setFulfillments] = useState<PendingFulfillment[]>([])
   const [loading, setLoading] = useState(true)
   const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [attempts, setAttempts] = useState<Record<string, FulfillmentAttempt[]>>({})
   const [recoveryState, setRecoveryState] = useState<{
     fulfillmentId: string | null
     status: "idle" | "running" | "success" | "failed"
@@ -85,10 +91,13 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
   const loadFulfillments = async () => {
     setLoading(true)
     try {
-      const data = await TicketService.getPendingFulfillmentsByStatus("payment_confirmed")
+      const deadLetter = await TicketService.getPendingFulfillmentsByStatus("dead_letter")
       const failed = await TicketService.getPendingFulfillmentsByStatus("failed")
+      const data = await TicketService.getPendingFulfillmentsByStatus("payment_confirmed")
       const fulfilling = await TicketService.getPendingFulfillmentsByStatus("fulfilling")
-      setFulfillments([...data, ...failed, ...fulfilling])
+      const awaiting = (await TicketService.getPendingFulfillmentsByStatus("awaiting_payment"))
+        .filter(f => Date.now() - new Date(f.created_at).getTime() > AWAITING_PAYMENT_STALE_MS)
+      setFulfillments([...deadLetter, ...failed, ...data, ...fulfilling, ...awaiting])
     } catch (error) {
       console.error("Error loading fulfillments:", error)
       Alert.alert("Error", "Failed to load stranded purchases")
@@ -99,11 +108,26 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
 
   const getStageColor = (status: string, createdAt: Date) => {
     const hoursAgo = (Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60)
-    if (status === "failed" || hoursAgo > 1) return "#FF6B6B"
+    if (status === "awaiting_payment") return "#888888"
+    if (status === "dead_letter" || hoursAgo > 1) return "#FF6B6B"
     if (hoursAgo > 0.5) return "#FFA500"
     return "#00D4FF"
   }
 
+  const toggleExpanded = async (fulfillment: PendingFulfillment) => {
+    if (expandedId === fulfillment.id) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(fulfillment.id)
+    try {
+      const log = await TicketService.getFulfillmentAttempts(fulfillment.id)
+      setAttempts(prev => ({ ...prev, [fulfillment.id]: log }))
+    } catch (error) {
+      console.error("Error loading fulfillment attempts:", error)
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     if (typeof navigator !== "undefined" && navigator.clipboard) {
       navigator.clipboard.writeText(text)
@@ -158,39 +182,41 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
     }
     
     setAttendeeModal({ ...attendeeModal, visible: false })
-    performManualRecovery(fulfillment, validNames)
+    performRequeue(fulfillment, validNames)
   }
 
-  const handleRecoveryWithoutNames = (fulfillment: PendingFulfillment) => {
-    setAttendeeModal({ ...attendeeModal, visible: false })
-    performManualRecovery(fulfillment, fulfillment.attendeeNames)
+  const handleCancelFulfillment = async (fulfillment: PendingFulfillment) => {
+    const confirmed = typeof window !== "undefined" && window.confirm
+      ? window.confirm(`Cancel the purchase for ${fulfillment.buyerName || fulfillment.buyerEmail}? Pending tickets are cancelled and the spots go to the waitlist. Refund the buyer separately.`)
+      : true
+    if (!confirmed) return
+    try {
+      await TicketService.cancelFulfillment(fulfillment, user?.email || "admin")
+      setRecoveryState({ fulfillmentId: fulfillment.id, status: "success", message: "Purchase cancelled" })
+      loadFulfillments()
+    } catch (error: any) {
+      setRecoveryState({ fulfillmentId: fulfillment.id, status: "failed", message: `❌ Error: ${error.message || "Unknown error"}` })
+    }
   }
 
-  const performManualRecovery = async (fulfillment: PendingFulfillment, attendeeNames?: string[]) => {
+  // Tickets are issued by the fulfillment worker; requeueing gives the
+  // purchase a fresh set of attempts
+  const performRequeue = async (fulfillment: PendingFulfillment, attendeeNames?: string[]) => {
     const adminEmail = user?.email || "admin"
     setRecoveryState({ 
       fulfillmentId: fulfillment.id, 
       status: "running", 
-      message: `Starting manual recovery for ${fulfillment.buyerName || fulfillment.buyerEmail}...` 
+      message: `Requeueing ${fulfillment.buyerName || fulfillment.buyerEmail}...` 
     })
 
     try {
-      const result = await TicketService.recoverTicket(fulfillment, adminEmail, attendeeNames)
-
-      if (result.success) {
-        setRecoveryState({ 
-          fulfillmentId: fulfillment.id, 
-          status: "success", 
-          message: `✅ Successfully recovered ${result.ticketIds.length} ticket(s)` 
-        })
-        loadFulfillments()
-      } else {
-        setRecoveryState({ 
-          fulfillmentId: fulfillment.id, 
-          status: "failed", 
-          message: `❌ Failed: ${result.error}` 
-        })
-      }
+      await TicketService.requeueFulfillment(fulfillment, adminEmail, attendeeNames)
+      setRecoveryState({ 
+        fulfillmentId: fulfillment.id, 
+        status: "success", 
+        message: "Requeued — the tickets will be issued and emailed shortly" 
+      })
+      loadFulfillments()
     } catch (error: any) {
       setRecoveryState({ 
         fulfillmentId: fulfillment.id, 
@@ -205,43 +231,15 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
     const stageColor = getStageColor(item.status, item.created_at)
     const hasTicketIds = item.ticketIds && item.ticketIds.length > 0
     const needsNames = !item.attendeeNames || item.attendeeNames.length < item.quantity
-    const failedOnEmailSend = item.lastError?.toLowerCase().includes("email send")
-
-    // Fallback detection: if status is "failed" and the last error mentions "email send",
-    // tickets were likely created but the email stage failed (old records may have empty ticket_ids)
-    const likelyTicketsExist = item.status === "failed" && failedOnEmailSend
+    const emailsPending = hasTicketIds && (item.emailedTicketIds?.length ?? 0) < (item.ticketIds?.length ?? 0)
+    const log = attempts[item.id]
 
     const getActionButton = () => {
-      // If tickets were already created and it failed on email, resume from email stage
-      // hasTicketIds checks stored ticket_ids; likelyTicketsExist handles old records where
-      // ticket_ids wasn't saved but the tickets table has the actual ticket data
-      if ((hasTicketIds || likelyTicketsExist) && failedOnEmailSend) {
-        return (
-          <TouchableOpacity
-            style={[styles.actionButton, styles.actionButtonResume]}
-            onPress={() => handleRecoveryWithoutNames(item)}
-          >
-            <Ionicons name="mail" size={20} color="#FFFFFF" />
-            <Text style={styles.actionButtonText}>Resume Sending Emails</Text>
-          </TouchableOpacity>
-        )
-      }
-      
-      // If tickets were already created (failed at some other stage), resume recovery
-      if (hasTicketIds) {
-        return (
-          <TouchableOpacity
-            style={[styles.actionButton, styles.actionButtonResume]}
-            onPress={() => handleRecoveryWithoutNames(item)}
-          >
-            <Ionicons name="refresh" size={20} color="#FFFFFF" />
-            <Text style={styles.actionButtonText}>Resume Recovery</Text>
-          </TouchableOpacity>
-        )
-      }
-      
-      // No tickets created yet — needs names
-      if (needsNames) {
+      // Never issue tickets for a payment the processor has not confirmed
+      if (item.status === "awaiting_payment") return null
+
+      // No tickets created yet and the names are missing — collect them first
+      if (!hasTicketIds && needsNames) {
         return (
           <TouchableOpacity
             style={[styles.actionButton, styles.actionButtonPrimary]}
@@ -252,22 +250,21 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
           </TouchableOpacity>
         )
       }
-      
-      // Has names, no tickets — fresh recovery
+
       return (
         <TouchableOpacity
-          style={[styles.actionButton, styles.actionButtonPrimary]}
-          onPress={() => handleRecoveryWithoutNames(item)}
+          style={[styles.actionButton, hasTicketIds ? styles.actionButtonResume : styles.actionButtonPrimary]}
+          onPress={() => performRequeue(item)}
         >
-          <Ionicons name="play" size={20} color="#FFFFFF" />
-          <Text style={styles.actionButtonText}>Recover Tickets</Text>
+          <Ionicons name={emailsPending ? "mail" : "refresh"} size={20} color="#FFFFFF" />
+          <Text style={styles.actionButtonText}>{emailsPending ? "Retry Emails Now" : "Retry Now"}</Text>
         </TouchableOpacity>
       )
     }
 
     return (
       <View style={styles.card} key={item.id}>
-        <TouchableOpacity onPress={() => setExpandedId(isExpanded ? null : item.id)}>
+        <TouchableOpacity onPress={() => toggleExpanded(item)}>
           <View style={styles.cardHeader}>
             <View style={{ flex: 1 }}>
               <Text style={styles.buyerName}>{item.buyerName || item.buyerEmail}</Text>
@@ -275,7 +272,7 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
             </View>
             <View style={[styles.statusBadge, { backgroundColor: stageColor + "20" }]}>
               <Text style={[styles.statusText, { color: stageColor }]}>
-                {(hasTicketIds || likelyTicketsExist) && failedOnEmailSend ? "Emails not sent — resume" : STATUS_LABELS[item.status] || item.status}
+                {emailsPending && item.status !== "fulfilling" ? "Emails not sent" : STATUS_LABELS[item.status] || item.status}
               </Text>
             </View>
           </View>
@@ -318,10 +315,22 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
               <Text style={styles.detailLabel}>Status</Text>
               <Text style={styles.detailValue}>{item.status}</Text>
             </View>
+            {item.pesapalTrackingId && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>PesaPal Tracking ID</Text>
+                <Text style={styles.detailValue} numberOfLines={1}>{item.pesapalTrackingId}</Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Attempts</Text>
               <Text style={styles.detailValue}>{item.attemptCount}</Text>
             </View>
+            {item.status === "failed" && item.nextAttemptAt && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Next Attempt</Text>
+                <Text style={styles.detailValue}>{item.nextAttemptAt.toLocaleString()}</Text>
+              </View>
+            )}
             {hasTicketIds && (
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Ticket IDs</Text>
@@ -340,6 +349,22 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
                 <Text style={styles.detailValue}>{item.attendeeNames.join(", ")}</Text>
               </View>
             )}
+
+            {log && log.length > 0 && (
+              <View style={styles.attemptLog}>
+                <Text style={styles.attemptLogTitle}>Attempt Log</Text>
+                {log.map((attempt) => (
+                  <View key={attempt.id} style={styles.attemptRow}>
+                    <Text style={styles.attemptText}>
+                      #{attempt.attempt} · {attempt.trigger} · {OUTCOME_LABELS[attempt.outcome] || attempt.outcome}
+                      {" "}· {attempt.ticketsCreated} created, {attempt.emailsSent} emailed
+                    </Text>
+                    <Text style={styles.attemptTime}>{formatDistanceToNow(attempt.startedAt)}</Text>
+                    {attempt.error && <Text style={styles.detailValueError}>{attempt.error}</Text>}
+                  </View>
+                ))}
+              </View>
+            )}
             
             <View style={styles.actionRow}>
               {getActionButton()}
@@ -351,6 +376,13 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
                 <Text style={styles.actionButtonTextSecondary}>Copy Ref</Text>
               </TouchableOpacity>
             </View>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonDanger]}
+              onPress={() => handleCancelFulfillment(item)}
+            >
+              <Ionicons name="close-circle" size={20} color="#FF6B6B" />
+              <Text style={[styles.actionButtonTextSecondary, { color: "#FF6B6B", marginLeft: 8 }]}>Cancel Purchase</Text>
+            </TouchableOpacity>
           </View>
         )}
       </View>
@@ -441,7 +473,7 @@ export const AdminStrandedPurchasesScreen: React.FC = () => {
                     style={styles.modalButtonPrimary}
                     onPress={handleRecoveryWithNames}
                   >
-                    <Text style={styles.modalButtonTextPrimary}>Recover Tickets</Text>
+                    <Text style={styles.modalButtonTextPrimary}>Issue Tickets</Text>
                   </TouchableOpacity>
                 </View>
               </>
@@ -480,6 +512,7 @@ const styles = StyleSheet.create({
   actionButton: { flex: 1, flexDirection: "row", alignItems: "center", justifyContent: "center", padding: 12, borderRadius: 8 },
   actionButtonPrimary: { backgroundColor: "#2196F3" },
   actionButtonResume: { backgroundColor: "#4CAF50" },
+  actionButtonDanger: { flex: 0, marginTop: 10, backgroundColor: "rgba(255, 107, 107, 0.1)", borderWidth: 1, borderColor: "#FF6B6B" },
   actionButtonSecondary: { backgroundColor: "rgba(0, 212, 255, 0.1)", borderWidth: 1, borderColor: "#00D4FF" },
   actionButtonText: { color: "#FFFFFF", fontWeight: "600", marginLeft: 8 },
   actionButtonTextSecondary: { color: "#00D4FF", fontWeight: "600" },
@@ -491,6 +524,11 @@ const styles = StyleSheet.create({
   statusSuccess: { backgroundColor: "#1a3a1a", borderLeftWidth: 4, borderLeftColor: "#4CAF50" },
   statusFailed: { backgroundColor: "#3a1a1a", borderLeftWidth: 4, borderLeftColor: "#FF6B6B" },
   statusBannerText: { color: "#FFFFFF", fontSize: 14 },
+  attemptLog: { marginTop: 12, paddingTop: 12, borderTopWidth: 1, borderTopColor: "#333" },
+  attemptLogTitle: { color: "#FFFFFF", fontSize: 14, fontWeight: "600", marginBottom: 8 },
+  attemptRow: { paddingVertical: 6 },
+  attemptText: { color: "#CCCCCC", fontSize: 12 },
+  attemptTime: { color: "#666", fontSize: 11, marginTop: 2 },
   modalOverlay: { flex: 1, backgroundColor: "rgba(0, 0, 0, 0.8)", justifyContent: "center", alignItems: "center" },
   modalContent: { backgroundColor: "#1a1a1a", borderRadius: 12, width: "90%", maxWidth: 500, padding: 20 },
   modalHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 20, paddingBottom: 12, borderBottomWidth: 1, borderBottomColor: "#333" },
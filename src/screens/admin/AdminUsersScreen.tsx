@@ -5,10 +5,13 @@ import { useState, useEffect } from "react"
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndicator, ScrollView } from "react-native"
 import { Ionicons } from "@expo/vector-icons"
 import SupabaseService from "../../services/SupabaseService"
+import TwoFactorService from "../../services/TwoFactorService"
 import AnalyticsService, { type UserVisitData } from "../../services/AnalyticsService"
 import { useAuth } from "../../contexts/AuthContext"
 import type { User } from "../../models/User"
 import type { AdminUsersScreenProps } from "../../navigation/types"
+import { DEFAULT_COMMISSION_RATE, resolveCommissionRate } from "../../utils/pricing"
+import { isPrivilegedUserType } from "../../utils/twoFactor"
 
 // User type for tab filtering
 type UserCategoryTab = "all" | "club_owner" | "user" | "admin" | "viber"
@@ -57,8 +60,11 @@ const AdminUsersScreen = ({ navigation }: AdminUsersScreenProps) => {
   }
 
   const handleFreezeUser = async (userId: string, isFrozen: boolean) => {
+    // The reason goes into the security audit log
+    const reason = window.prompt(`Why are you ${isFrozen ? "freezing" : "unfreezing"} this user?`)
+    if (reason === null) return
     try {
-      await SupabaseService.freezeUser(userId, isFrozen)
+      await SupabaseService.freezeUser(userId, isFrozen, reason.trim() || undefined)
       Alert.alert("Success", `User ${isFrozen ? "frozen" : "unfrozen"} successfully`)
       loadUsers()
     } catch (error) {
@@ -67,21 +73,65 @@ const AdminUsersScreen = ({ navigation }: AdminUsersScreenProps) => {
     }
   }
 
+  // Blank input clears the override so the organiser falls back to the default rate
+  const handleSetCommission = async (user: User) => {
+    const current = user.commissionRate != null ? String(Math.round(user.commissionRate * 1000) / 10) : ""
+    const input = window.prompt(
+      `Commission % for ${user.email} (leave blank for the default ${DEFAULT_COMMISSION_RATE * 100}%)`,
+      current,
+    )
+    if (input === null) return
+
+    const percent = input.trim() === "" ? null : Number(input)
+    if (percent !== null && (!Number.isFinite(percent) || percent < 0 || percent > 100)) {
+      Alert.alert("Error", "Enter a percentage between 0 and 100")
+      return
+    }
+
+    try {
+      await SupabaseService.setCommissionRate(user.id, percent === null ? null : percent / 100)
+      Alert.alert("Success", "Commission rate updated")
+      loadUsers()
+    } catch (error) {
+      console.error("Error updating commission rate:", error)
+      Alert.alert("Error", "Failed to update commission rate")
+    }
+  }
+
+  // For organisers locked out without their phone, backup codes or email
+  const handleResetTwoFactor = async (user: User) => {
+    const reason = window.prompt(`Reset two-factor for ${user.email}? They will sign in with their password only until they set it up again.\n\nHow did you confirm their identity?`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      Alert.alert("Error", "Record how the user's identity was confirmed")
+      return
+    }
+    try {
+      await TwoFactorService.resetForUser(user.id, reason.trim())
+      Alert.alert("Success", "Two-factor authentication reset")
+    } catch (error: any) {
+      console.error("Error resetting two-factor:", error)
+      Alert.alert("Error", error.message || "Failed to reset two-factor")
+    }
+  }
+
   const handleDeleteUser = (userId: string) => {
     // Use a simple confirm dialog instead of Alert.alert for web compatibility
     const confirmed = window.confirm("Are you sure you want to delete this user? This action cannot be undone.")
     
     if (confirmed) {
-      performDelete(userId)
+      const reason = window.prompt("Reason for deleting this user (kept in the audit log)")
+      if (reason === null) return
+      performDelete(userId, reason.trim() || undefined)
     }
   }
 
-  const performDelete = async (userId: string) => {
+  const performDelete = async (userId: string, reason?: string) => {
     try {
       setLoading(true)
       console.log("[AdminUsersScreen] Deleting user:", userId)
       
-      await SupabaseService.deleteUser(userId)
+      await SupabaseService.deleteUser(userId, reason)
       console.log("[AdminUsersScreen] User deleted successfully")
       
       Alert.alert("Success", "User deleted successfully")
@@ -160,6 +210,12 @@ const AdminUsersScreen = ({ navigation }: AdminUsersScreenProps) => {
             {item.userType === "club_owner" && item.venueId && (
               <Text style={styles.venueInfo}>Club ID: {item.venueId}</Text>
             )}
+            {item.userType === "club_owner" && (
+              <Text style={styles.venueInfo}>
+                Commission: {Math.round(resolveCommissionRate(item.commissionRate) * 1000) / 10}%
+                {item.commissionRate == null ? " (default)" : ""}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -178,6 +234,16 @@ const AdminUsersScreen = ({ navigation }: AdminUsersScreenProps) => {
                 <Text style={styles.actionButtonText}>{item.isFrozen ? "Unfreeze" : "Freeze"}</Text>
               </TouchableOpacity>
 
+              {item.userType === "club_owner" && (
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.commissionButton]}
+                  onPress={() => handleSetCommission(item)}
+                >
+                  <Ionicons name="pricetag-outline" size={20} color="#FFFFFF" />
+                  <Text style={styles.actionButtonText}>Commission</Text>
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity
                 style={[styles.actionButton, styles.deleteButton]}
                 onPress={() => handleDeleteUser(item.id)}
@@ -187,6 +253,16 @@ const AdminUsersScreen = ({ navigation }: AdminUsersScreenProps) => {
               </TouchableOpacity>
             </>
           )}
+
+          {isPrivilegedUserType(item.userType) && item.id !== currentUser?.id && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.twoFactorButton]}
+              onPress={() => handleResetTwoFactor(item)}
+            >
+              <Ionicons name="shield-outline" size={20} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Reset 2FA</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     )
@@ -426,9 +502,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#2196F3",
   },
+  commissionButton: {
+    backgroundColor: "#6C4DFF",
+  },
   deleteButton: {
     backgroundColor: "#FF3B30",
   },
+  twoFactorButton: {
+    backgroundColor: "#10B981",
+  },
   actionButtonText: {
     color: "#FFFFFF",
     marginLeft: 4,
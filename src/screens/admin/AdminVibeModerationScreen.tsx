@@ -0,0 +1,192 @@
+import React, { useEffect, useState, useCallback } from "react"
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, TextInput, ScrollView, Image } from "react-native"
+import { Ionicons } from "@expo/vector-icons"
+import VibeImageService from "../../services/VibeImageService"
+import type { VibeModerationFilters } from "../../services/VibeImageService"
+import type { VibeImage } from "../../models/VibeImage"
+import { VIBE_REASON_LABELS } from "../../utils/vibeScoring"
+
+const PAGE_SIZE = 50
+
+type ModerationStatus = NonNullable<VibeModerationFilters["status"]>
+
+const STATUS_FILTERS: Array<{ key: ModerationStatus; label: string }> = [
+  { key: "flagged", label: "Held" },
+  { key: "scored", label: "Live" },
+  { key: "removed", label: "Removed" },
+]
+
+export default function AdminVibeModerationScreen() {
+  const [images, setImages] = useState<VibeImage[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [status, setStatus] = useState<ModerationStatus>("flagged")
+  const [venueId, setVenueId] = useState("")
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [moderating, setModerating] = useState(false)
+
+  const filters = useCallback((): VibeModerationFilters => ({ status, venueId: venueId.trim() || undefined }), [status, venueId])
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await VibeImageService.moderationQueue({ ...filters(), limit: PAGE_SIZE, offset: 0 })
+      setImages(result.images)
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Vibe Moderation", e.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  // Typing a venue waits for Search; the chips apply straight away
+  useEffect(() => { void load() }, [status])
+
+  const loadMore = async () => {
+    if (loadingMore || images.length >= total) return
+    setLoadingMore(true)
+    try {
+      const result = await VibeImageService.moderationQueue({ ...filters(), limit: PAGE_SIZE, offset: images.length })
+      setImages((prev) => [...prev, ...result.images])
+      setTotal(result.total)
+    } catch (e: any) {
+      Alert.alert("Vibe Moderation", e.message)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const moderate = async (item: VibeImage, decision: "approve" | "remove") => {
+    setModerating(true)
+    try {
+      await VibeImageService.moderate(item.id, decision, note.trim())
+      // Every decision moves the photo to another view
+      setImages((prev) => prev.filter((i) => i.id !== item.id))
+      setTotal((t) => Math.max(0, t - 1))
+      setExpanded(null)
+      setNote("")
+    } catch (e: any) {
+      Alert.alert("Vibe Moderation", e.message)
+    } finally {
+      setModerating(false)
+    }
+  }
+
+  const renderItem = ({ item }: { item: VibeImage }) => {
+    const open = expanded === item.id
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => { setExpanded(open ? null : item.id); setNote("") }} activeOpacity={0.7}>
+        <View style={styles.cardRow}>
+          <Image source={{ uri: item.imageUrl }} style={styles.thumb} />
+          <View style={{ flex: 1 }}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle} numberOfLines={1}>{item.venueId}</Text>
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{item.vibeRating.toFixed(1)}/5</Text>
+              </View>
+            </View>
+            <Text style={styles.cardMeta} numberOfLines={2}>
+              {(item.reasons || []).map((r) => VIBE_REASON_LABELS[r]).join(" · ") || "No concerns"}
+            </Text>
+            <Text style={styles.cardTime}>
+              {item.uploadedAt.toLocaleString()}{item.confidence != null ? ` · ${Math.round(item.confidence * 100)}% confident` : ""}
+            </Text>
+          </View>
+        </View>
+        {open && (
+          <View style={styles.details}>
+            <Image source={{ uri: item.imageUrl }} style={styles.preview} resizeMode="contain" />
+            <Text style={styles.detailMeta}>Uploaded by {item.uploadedBy}</Text>
+            {item.modelVersion && <Text style={styles.detailMeta}>Model {item.modelVersion}</Text>}
+            {status !== "removed" && (
+              <>
+                <TextInput style={styles.noteInput} value={note} onChangeText={setNote} placeholder="Moderation note (optional)"
+                  placeholderTextColor="#555" multiline />
+                <View style={styles.actions}>
+                  {status === "flagged" && (
+                    <TouchableOpacity style={[styles.actionBtn, styles.approveBtn]} onPress={() => moderate(item, "approve")} disabled={moderating}>
+                      {moderating ? <ActivityIndicator size="small" color="#10B981" /> : <Text style={[styles.actionText, { color: "#10B981" }]}>Approve</Text>}
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={[styles.actionBtn, styles.removeBtn]} onPress={() => moderate(item, "remove")} disabled={moderating}>
+                    {moderating ? <ActivityIndicator size="small" color="#EF4444" /> : <Text style={[styles.actionText, { color: "#EF4444" }]}>Remove</Text>}
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Vibe Moderation</Text>
+      <Text style={styles.subheader}>Vibe photos held by the scoring worker · {total} photo{total !== 1 ? "s" : ""}</Text>
+
+      <View style={styles.searchRow}>
+        <Ionicons name="search-outline" size={18} color="#666" />
+        <TextInput style={styles.searchInput} value={venueId} onChangeText={setVenueId} onSubmitEditing={load} returnKeyType="search"
+          placeholder="Venue id..." placeholderTextColor="#555" autoCapitalize="none" />
+        <TouchableOpacity onPress={load} disabled={loading}>
+          <Ionicons name="refresh-outline" size={20} color="#3B82F6" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+        {STATUS_FILTERS.map((f) => (
+          <TouchableOpacity key={f.key} style={[styles.chip, status === f.key && styles.chipActive]} onPress={() => setStatus(f.key)}>
+            <Text style={[styles.chipText, status === f.key && styles.chipTextActive]}>{f.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3B82F6" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList data={images} keyExtractor={(i) => i.id} contentContainerStyle={styles.list}
+          renderItem={renderItem} onRefresh={load} refreshing={false}
+          onEndReached={loadMore} onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? <ActivityIndicator size="small" color="#3B82F6" style={{ marginVertical: 16 }} /> : null}
+          ListEmptyComponent={<View style={{ padding: 40, alignItems: "center" }}><Ionicons name="images-outline" size={48} color="#333" /><Text style={{ color: "#666", marginTop: 12, fontSize: 14 }}>No vibe photos here</Text></View>}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0a0a0f", padding: 16 },
+  header: { fontSize: 24, fontWeight: "800", color: "#FFF", letterSpacing: -0.5 },
+  subheader: { fontSize: 13, color: "#666", marginBottom: 12 },
+  searchRow: { flexDirection: "row", alignItems: "center", backgroundColor: "#13131a", borderRadius: 10, paddingHorizontal: 12, marginBottom: 8, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  searchInput: { flex: 1, color: "#FFF", paddingVertical: 10, fontSize: 14, marginLeft: 8 },
+  chipScroll: { flexGrow: 0, marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: "#333", marginRight: 6 },
+  chipActive: { backgroundColor: "rgba(59,130,246,0.15)", borderColor: "#3B82F6" },
+  chipText: { color: "#888", fontSize: 12, fontWeight: "600" },
+  chipTextActive: { color: "#3B82F6" },
+  list: { paddingBottom: 20 },
+  card: { backgroundColor: "#13131a", borderRadius: 14, padding: 16, marginBottom: 10, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)" },
+  cardRow: { flexDirection: "row", gap: 12 },
+  thumb: { width: 56, height: 56, borderRadius: 10, backgroundColor: "#0a0a0f" },
+  cardHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 6, gap: 8 },
+  cardTitle: { color: "#FFF", fontSize: 14, fontWeight: "700", flex: 1 },
+  badge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 8, backgroundColor: "rgba(59,130,246,0.12)" },
+  badgeText: { fontSize: 11, fontWeight: "700", color: "#3B82F6" },
+  cardMeta: { color: "#999", fontSize: 12 },
+  cardTime: { color: "#666", fontSize: 11, marginTop: 4 },
+  details: { marginTop: 10, paddingTop: 10, borderTopWidth: 1, borderTopColor: "rgba(255,255,255,0.06)" },
+  preview: { width: "100%", height: 260, borderRadius: 10, backgroundColor: "#0a0a0f" },
+  detailMeta: { color: "#555", fontSize: 11, marginTop: 6 },
+  noteInput: { backgroundColor: "#0a0a0f", color: "#FFF", padding: 12, borderRadius: 10, fontSize: 13, borderWidth: 1, borderColor: "rgba(255,255,255,0.06)", marginTop: 10, minHeight: 60, textAlignVertical: "top" },
+  actions: { flexDirection: "row", gap: 8, marginTop: 10 },
+  actionBtn: { flex: 1, alignItems: "center", paddingVertical: 10, borderRadius: 10, borderWidth: 1 },
+  approveBtn: { borderColor: "#10B981", backgroundColor: "rgba(16,185,129,0.08)" },
+  removeBtn: { borderColor: "#EF4444", backgroundColor: "rgba(239,68,68,0.08)" },
+  actionText: { fontSize: 13, fontWeight: "700" },
+})
@@ -7,9 +7,9 @@ import { Ionicons } from "@expo/vector-icons"
 import { supabase } from "../../config/supabase"
 import SupabaseService from "../../services/SupabaseService"
 import PawaPayService from "../../services/PawaPayService"
+import RevenueShareService from "../../services/RevenueShareService"
 import { useAuth } from "../../contexts/AuthContext"
-
-const COMMISSION_RATE = 0.15
+import { DEFAULT_COMMISSION_RATE, calculatePayoutBreakdown } from "../../utils/pricing"
 
 interface EventRevenue {
   eventId: string
@@ -21,6 +21,8 @@ interface EventRevenue {
   netRevenue: number
   ticketCount: number
   eligibleTicketIds: string[]
+  // Events with revenue-share rules are split between the parties, never withdrawn here
+  shared: boolean
   selected: boolean
 }
 
@@ -78,7 +80,11 @@ export default function AdminWithdrawalsScreen() {
   const gatewayTotal = selectedEvents.reduce((s, e) => s + e.gatewayFees, 0)
   const commissionTotal = selectedEvents.reduce((s, e) => s + e.appCommission, 0)
   const netRevenue = grossTotal - commissionTotal
-  // App commission net = 15% of gross minus payment gateway fees (which the app
+  // Organisers can have their own commission rate, so show the blended rate
+  const commissionPercent = grossTotal > 0
+    ? Math.round((commissionTotal / grossTotal) * 1000) / 10
+    : DEFAULT_COMMISSION_RATE * 100
+  // App commission net = commission minus payment gateway fees (which the app
   // pays out of its commission).
   const appCommissionNet = Math.max(0, commissionTotal - gatewayTotal)
   // Selected withdrawal amount depends on the mode chosen by the admin.
@@ -89,7 +95,7 @@ export default function AdminWithdrawalsScreen() {
     : appCommissionNet
   const payoutFee = calculatePayoutFee(withdrawAmount, provider)
   const netAfterFee = Math.max(0, withdrawAmount - payoutFee)
-  const allSelected = events.length > 0 && events.every(e => e.selected)
+  const allSelected = events.some(e => !e.shared) && events.every(e => e.selected || e.shared)
 
   const loadEvents = useCallback(async () => {
     try {
@@ -105,19 +111,23 @@ export default function AdminWithdrawalsScreen() {
           const ps = t.payout_status ?? t.payoutStatus ?? "pending"
           return pe === true && ps === "pending"
         })
-        const gross = eligible.reduce((s: number, t: any) => s + (t.total_amount ?? t.totalAmount ?? 0), 0)
-        const gateway = eligible.reduce((s: number, t: any) => s + (t.gateway_fee ?? t.gatewayFee ?? 0), 0)
-        const commission = eligible.reduce((s: number, t: any) => s + (t.app_commission ?? t.appCommission ?? 0), 0)
+        const breakdown = calculatePayoutBreakdown(eligible.map((t: any) => ({
+          totalAmount: t.total_amount ?? t.totalAmount,
+          appCommission: t.app_commission ?? t.appCommission,
+          venueRevenue: t.venue_revenue ?? t.venueRevenue,
+          gatewayFee: t.gateway_fee ?? t.gatewayFee,
+        })))
         enriched.push({
           eventId: evt.slug,
           eventName: evt.name,
           date: evt.date,
-          grossRevenue: gross,
-          gatewayFees: gateway,
-          appCommission: commission,
-          netRevenue: gross - commission,
+          grossRevenue: breakdown.gross,
+          gatewayFees: breakdown.gatewayFees,
+          appCommission: breakdown.commission,
+          netRevenue: breakdown.gross - breakdown.commission,
           ticketCount: eligible.length,
           eligibleTicketIds: eligible.map((t: any) => t.id),
+          shared: !!evt.revenueShares?.length,
           selected: false,
         })
       }
@@ -135,11 +145,20 @@ export default function AdminWithdrawalsScreen() {
   useEffect(() => { void loadEvents() }, [loadEvents])
 
   const toggleEvent = (eventId: string) => {
-    setEvents(prev => prev.map(e => e.eventId === eventId ? { ...e, selected: !e.selected } : e))
+    setEvents(prev => prev.map(e => e.eventId === eventId && !e.shared ? { ...e, selected: !e.selected } : e))
   }
 
   const toggleAll = () => {
-    setEvents(prev => prev.map(e => ({ ...e, selected: !allSelected })))
+    setEvents(prev => prev.map(e => ({ ...e, selected: !e.shared && !allSelected })))
+  }
+
+  const handleSplitPayout = async (item: EventRevenue) => {
+    if (!item.eligibleTicketIds.length) return
+    try {
+      const payouts = await RevenueShareService.requestPayouts(item.eventId, item.eligibleTicketIds)
+      Alert.alert("✅ Payout Split", `${item.eventName} was split into ${payouts.length} payouts. Each party confirms and receives their own share.`)
+      await loadEvents()
+    } catch (e: any) { Alert.alert("Error", e.message) }
   }
 
   // ── OTP flow ──────────────────────────────────────────────────────
@@ -202,6 +221,16 @@ export default function AdminWithdrawalsScreen() {
             payout_method: "mobile_money",
             recipient_name: user?.displayName || user?.email || "",
             recipient_phone_number: intPhone,
+            metadata: {
+              withdraw_type: withdrawType,
+              breakdown: {
+                ticketCount: allEligibleIds.length,
+                gross: grossTotal,
+                commission: commissionTotal,
+                gatewayFees: gatewayTotal,
+                net: netRevenue,
+              },
+            },
           })
         } catch (err) { console.error("Failed to save payout:", err) }
         if (savedPayoutId) SupabaseService.sendPayoutReceipt(savedPayoutId, user?.email || "")
@@ -287,11 +316,18 @@ export default function AdminWithdrawalsScreen() {
   const renderRow = ({ item }: { item: EventRevenue }) => (
     <TouchableOpacity style={styles.row} onPress={() => toggleEvent(item.eventId)} activeOpacity={0.7}>
       <View style={styles.checkCol}>
-        <Ionicons name={item.selected ? "checkbox" : "square-outline"} size={22} color={item.selected ? "#00D4FF" : "#555"} />
+        {item.shared
+          ? <Ionicons name="pie-chart-outline" size={22} color="#555" />
+          : <Ionicons name={item.selected ? "checkbox" : "square-outline"} size={22} color={item.selected ? "#00D4FF" : "#555"} />}
       </View>
       <View style={styles.infoCol}>
         <Text style={styles.eventName}>{item.eventName}</Text>
         <Text style={styles.eventMeta}>{item.date.toLocaleDateString()} · {item.ticketCount} ticket{item.ticketCount !== 1 ? "s" : ""}</Text>
+        {item.shared && item.ticketCount > 0 && (
+          <TouchableOpacity onPress={() => handleSplitPayout(item)}>
+            <Text style={styles.splitLink}>Shared revenue · Split payout</Text>
+          </TouchableOpacity>
+        )}
       </View>
       <View style={styles.numbersCol}>
         <Text style={styles.numGross}>UGX {item.grossRevenue.toLocaleString()}</Text>
@@ -355,7 +391,7 @@ export default function AdminWithdrawalsScreen() {
               <Text style={styles.summaryValue}>UGX {grossTotal.toLocaleString()}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>App Commission ({Math.round(COMMISSION_RATE * 100)}% incl. gateway)</Text>
+              <Text style={styles.summaryLabel}>App Commission ({commissionPercent}% incl. gateway)</Text>
               <Text style={[styles.summaryValue, { color: "#FF6B6B" }]}>- UGX {commissionTotal.toLocaleString()}</Text>
             </View>
             <View style={[styles.summaryRow, styles.summaryDivider]}>
@@ -406,7 +442,7 @@ export default function AdminWithdrawalsScreen() {
                   <Ionicons name={withdrawType === "commission" ? "radio-button-on" : "radio-button-off"} size={20} color={withdrawType === "commission" ? "#00D4FF" : "#666"} />
                   <View style={{ flex: 1 }}>
                     <Text style={styles.typeOptionTitle}>App Commission (Net)</Text>
-                    <Text style={styles.typeOptionSub}>15% Commission − Gateway Fees</Text>
+                    <Text style={styles.typeOptionSub}>Commission − Gateway Fees</Text>
                   </View>
                   <Text style={styles.typeOptionAmount}>UGX {appCommissionNet.toLocaleString()}</Text>
                 </TouchableOpacity>
@@ -416,7 +452,7 @@ export default function AdminWithdrawalsScreen() {
               <View style={styles.breakdownCard}>
                 <Text style={styles.breakdownTitle}>Selected Events: {selectedEvents.length}</Text>
                 <Row label="Gross Revenue" value={`UGX ${grossTotal.toLocaleString()}`} />
-                <Row label="App Commission (15% incl. gateway)" value={`- UGX ${commissionTotal.toLocaleString()}`} color="#FF6B6B" />
+                <Row label={`App Commission (${commissionPercent}% incl. gateway)`} value={`- UGX ${commissionTotal.toLocaleString()}`} color="#FF6B6B" />
                 <Row label="Gateway Fees (inside commission)" value={`UGX ${gatewayTotal.toLocaleString()}`} color="#888" />
                 <View style={styles.breakdownDivider} />
                 <Row label="Net Withdrawal" value={`UGX ${Math.max(0, withdrawAmount).toLocaleString()}`} bold color="#00D4FF" />
@@ -552,6 +588,7 @@ const styles = StyleSheet.create({
   infoCol: { flex: 1 },
   eventName: { color: "#FFF", fontSize: 14, fontWeight: "600" },
   eventMeta: { color: "#666", fontSize: 11, marginTop: 2 },
+  splitLink: { color: "#00D4FF", fontSize: 11, fontWeight: "700", marginTop: 4 },
   numbersCol: { alignItems: "flex-end" },
   numGross: { color: "#888", fontSize: 12 },
   numNet: { color: "#00D4FF", fontSize: 14, fontWeight: "700" },
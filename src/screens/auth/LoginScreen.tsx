@@ -19,6 +19,8 @@ import { useAuth } from "../../contexts/AuthContext"
 import { Ionicons } from "@expo/vector-icons"
 import { useCompatNavigation } from "../../utils/compatNavigation"
 import { supabase } from "../../config/supabase"
+import TwoFactorService from "../../services/TwoFactorService"
+import PasskeyService from "../../services/PasskeyService"
 import { ValidationDialog } from "../../components/ValidationDialog"
 
 // Responsive breakpoints for login screen
@@ -42,11 +44,12 @@ interface LoginScreenProps {
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation }) => {
   const navigation = useCompatNavigation()
-  const { signIn, consumeRedirectIntent, signInWithGoogle } = useAuth()
+  const { signIn, consumeRedirectIntent, signInWithGoogle, signInWithPasskey, twoFactorPending, verifyTwoFactor, recoverTwoFactor, signOut } = useAuth()
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [loading, setLoading] = useState(false)
   const [googleLoading, setGoogleLoading] = useState(false)
+  const [passkeyLoading, setPasskeyLoading] = useState(false)
   const [errors, setErrors] = useState<{
     email?: string
     password?: string
@@ -57,6 +60,35 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
   // Toggle to show/hide password
   const [showPassword, setShowPassword] = useState(false)
 
+  // Second factor for organiser and admin accounts
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [twoFactorLoading, setTwoFactorLoading] = useState(false)
+  const [recoverySent, setRecoverySent] = useState(false)
+
+  const showMessage = (title: string, message: string) => {
+    if (Platform.OS === "web") {
+      alert(`${title}\n${message}`)
+    } else {
+      Alert.alert(title, message)
+    }
+  }
+
+  const finishLogin = () => {
+    // Handle returnTo param (e.g. from ticket purchase screen login link)
+    const returnTo = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('returnTo') : null
+    if (returnTo) {
+      window.location.href = decodeURIComponent(returnTo)
+      return
+    }
+    // Handle redirect intent (e.g. came from AddEvent or AddVenue buttons via soft-auth)
+    const redirectIntent = consumeRedirectIntent()
+    if (redirectIntent?.routeName) {
+      navigation.navigate(redirectIntent.routeName as any, redirectIntent.params || {})
+    } else {
+      navigation.navigate("Events")
+    }
+  }
+
   const handleLogin = async () => {
     // Reset errors
     const newErrors: {
@@ -85,22 +117,11 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
     setLoading(true)
     try {
       console.log("Login attempt with:", email)
-      await signIn(email, password)
-      console.log("Login successful")
-
-      // Handle returnTo param (e.g. from ticket purchase screen login link)
-      const returnTo = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('returnTo') : null
-      if (returnTo) {
-        window.location.href = decodeURIComponent(returnTo)
-        return
-      }
-      // Handle redirect intent (e.g. came from AddEvent or AddVenue buttons via soft-auth)
-      const redirectIntent = consumeRedirectIntent()
-      if (redirectIntent?.routeName) {
-        navigation.navigate(redirectIntent.routeName as any, redirectIntent.params || {})
-      } else {
-        navigation.navigate("Events")
-      }
+      const { twoFactorRequired } = await signIn(email, password)
+      console.log("Login successful", twoFactorRequired ? "- waiting for two-factor code" : "")
+      // The form switches to the code step; finishLogin runs once it passes
+      if (twoFactorRequired) return
+      finishLogin()
     } catch (error) {
       console.error("Login failed:", error)
       // Log the full error object to debug
@@ -142,6 +163,50 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
     }
   }
 
+  const handleVerifyTwoFactor = async () => {
+    if (!twoFactorCode.trim()) return
+    setTwoFactorLoading(true)
+    try {
+      if (recoverySent) {
+        await recoverTwoFactor(twoFactorCode)
+        showMessage("Two-factor removed", "You're signed in. Set up two-factor again in Settings to keep your account protected.")
+      } else {
+        await verifyTwoFactor(twoFactorCode)
+      }
+      setTwoFactorCode("")
+      setRecoverySent(false)
+      finishLogin()
+    } catch (error) {
+      showMessage("Verification Failed", error instanceof Error ? error.message : "Please try again")
+    } finally {
+      setTwoFactorLoading(false)
+    }
+  }
+
+  const handleSendRecovery = async () => {
+    setTwoFactorLoading(true)
+    try {
+      await TwoFactorService.sendRecoveryCode()
+      setRecoverySent(true)
+      setTwoFactorCode("")
+      showMessage("Check your email", "We sent a 6-digit recovery code to your account email. It expires in 15 minutes.")
+    } catch (error) {
+      showMessage("Recovery", error instanceof Error ? error.message : "Could not send the recovery code")
+    } finally {
+      setTwoFactorLoading(false)
+    }
+  }
+
+  const handleCancelTwoFactor = async () => {
+    setTwoFactorCode("")
+    setRecoverySent(false)
+    try {
+      await signOut()
+    } catch (error) {
+      console.error("Sign out after cancelled two-factor failed:", error)
+    }
+  }
+
   const handleGoogleSignIn = async () => {
     setGoogleLoading(true)
     try {
@@ -153,6 +218,20 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
     }
   }
 
+  const handlePasskeySignIn = async () => {
+    setPasskeyLoading(true)
+    try {
+      const { twoFactorRequired } = await signInWithPasskey()
+      if (twoFactorRequired) return
+      finishLogin()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again"
+      if (message !== "Passkey request was cancelled") showMessage("Passkey Sign In Failed", message)
+    } finally {
+      setPasskeyLoading(false)
+    }
+  }
+
   return (
     <ScrollView contentContainerStyle={styles.scrollView}>
       <ImageBackground
@@ -169,6 +248,55 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
           <Text style={styles.tagline}>Find Your Next Vibe Plot Now</Text>
         </View>
 
+        {twoFactorPending ? (
+        <View style={styles.formContainer}>
+          <View style={styles.twoFactorHeader}>
+            <Ionicons name="shield-checkmark-outline" size={36} color="#FF3B30" />
+            <Text style={styles.twoFactorTitle}>{recoverySent ? "Account recovery" : "Two-factor authentication"}</Text>
+            <Text style={styles.twoFactorHint}>
+              {recoverySent
+                ? "Enter the 6-digit code we emailed you. This turns two-factor off so you can set it up again."
+                : "Enter the 6-digit code from your authenticator app, or one of your backup codes."}
+            </Text>
+          </View>
+          <View style={styles.inputContainer}>
+            <Ionicons name="keypad-outline" size={22} color="#FFFFFF" style={styles.inputIcon} />
+            <TextInput
+              style={styles.input}
+              placeholder={recoverySent ? "Recovery code" : "123456 or XXXXX-XXXXX"}
+              placeholderTextColor="#999"
+              value={twoFactorCode}
+              onChangeText={setTwoFactorCode}
+              onSubmitEditing={handleVerifyTwoFactor}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              autoFocus
+            />
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={handleVerifyTwoFactor} disabled={twoFactorLoading || !twoFactorCode.trim()}>
+            {twoFactorLoading ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Text style={styles.buttonText}>Verify</Text>
+                <Ionicons name="arrow-forward" size={20} color="#FFFFFF" style={styles.buttonIcon} />
+              </>
+            )}
+          </TouchableOpacity>
+
+          {!recoverySent && (
+            <TouchableOpacity onPress={handleSendRecovery} disabled={twoFactorLoading} style={styles.signupButton}>
+              <Text style={styles.signupText}>
+                Lost your phone and backup codes? <Text style={styles.signupTextBold}>Recover by email</Text>
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={handleCancelTwoFactor} disabled={twoFactorLoading} style={styles.signupButton}>
+            <Text style={styles.signupText}>Cancel and sign out</Text>
+          </TouchableOpacity>
+        </View>
+        ) : (
         <View style={styles.formContainer}>
           <View style={styles.labelContainer}>
             <Text style={styles.label}>Email *</Text>
@@ -240,12 +368,26 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation: propNavigation })
             )}
           </TouchableOpacity>
 
+          {PasskeyService.isSupported() && (
+            <TouchableOpacity style={styles.passkeyButton} onPress={handlePasskeySignIn} disabled={passkeyLoading}>
+              {passkeyLoading ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <>
+                  <Ionicons name="finger-print" size={20} color="#FFFFFF" />
+                  <Text style={styles.googleButtonText}>Sign in with a passkey</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity onPress={() => navigation.navigate("SignUp")} style={styles.signupButton}>
             <Text style={styles.signupText}>
               Don't have an account? <Text style={styles.signupTextBold}>Sign up</Text>
             </Text>
           </TouchableOpacity>
         </View>
+        )}
       </View>
       </ImageBackground>
 
@@ -418,6 +560,33 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 8,
   },
+  passkeyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.3)",
+    height: responsiveSize(48, 52, 56),
+    borderRadius: responsiveSize(8, 10, 12),
+    marginBottom: responsiveSize(16, 20, 24),
+  },
+  twoFactorHeader: {
+    alignItems: "center",
+    marginBottom: responsiveSize(16, 20, 24),
+  },
+  twoFactorTitle: {
+    fontSize: responsiveSize(18, 20, 22),
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    marginTop: responsiveSize(8, 10, 12),
+  },
+  twoFactorHint: {
+    fontSize: responsiveSize(13, 14, 15),
+    color: "#BBBBBB",
+    textAlign: "center",
+    marginTop: responsiveSize(6, 8, 10),
+    lineHeight: 20,
+  },
   googleButtonText: {
     color: "#FFFFFF",
     fontSize: responsiveSize(15, 16, 17),
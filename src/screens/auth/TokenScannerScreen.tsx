@@ -17,9 +17,26 @@ import { useRouter } from "../../utils/URLRouter"
 import { Ionicons } from "@expo/vector-icons"
 import StaffTokenService from "../../services/StaffTokenService"
 import TicketScannerScreen from "../TicketScannerScreen"
+import type { GateConfig } from "../../utils/gateThroughput"
 
 const { width: screenWidth } = Dimensions.get('window')
 
+// Staff links expire after 24h, so a cached validation is never trusted longer
+const TOKEN_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const tokenCacheKey = (token: string) => `yovibe_staff_token_${token}`
+
+function readCachedToken(token: string): { eventId: string; eventName: string; gate?: GateConfig } | null {
+  try {
+    const raw = localStorage.getItem(tokenCacheKey(token))
+    if (!raw) return null
+    const cached = JSON.parse(raw)
+    if (Date.now() - cached.cachedAt > TOKEN_CACHE_TTL_MS) return null
+    return { eventId: cached.eventId, eventName: cached.eventName, gate: cached.gate }
+  } catch {
+    return null
+  }
+}
+
 interface TokenScannerScreenProps {
   token?: string
 }
@@ -36,6 +53,7 @@ const TokenScannerScreen: React.FC<TokenScannerScreenProps> = (props) => {
   const [tokenValid, setTokenValid] = useState(false)
   const [eventId, setEventId] = useState<string | undefined>(undefined)
   const [eventName, setEventName] = useState<string>("")
+  const [gate, setGate] = useState<GateConfig | undefined>(undefined)
   const [error, setError] = useState<string | null>(null)
 
   const validateToken = useCallback(async () => {
@@ -46,6 +64,20 @@ const TokenScannerScreen: React.FC<TokenScannerScreenProps> = (props) => {
     }
 
     setLoading(true)
+
+    // Door devices often reload with no signal — reuse the last successful check
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      const cached = readCachedToken(token)
+      if (cached) {
+        setEventId(cached.eventId)
+        setEventName(cached.eventName)
+        setGate(cached.gate)
+        setTokenValid(true)
+        setLoading(false)
+        return
+      }
+    }
+
     const result = await StaffTokenService.validateToken(token)
 
     if (!result.valid) {
@@ -56,6 +88,15 @@ const TokenScannerScreen: React.FC<TokenScannerScreenProps> = (props) => {
 
     setEventId(result.eventId || result.eventSlug)
     setEventName(result.eventName || "Event")
+    setGate(result.gate)
+    try {
+      localStorage.setItem(tokenCacheKey(token), JSON.stringify({
+        eventId: result.eventId || result.eventSlug,
+        eventName: result.eventName || "Event",
+        gate: result.gate,
+        cachedAt: Date.now(),
+      }))
+    } catch {}
     setTokenValid(true)
     setLoading(false)
   }, [token])
@@ -99,6 +140,8 @@ const TokenScannerScreen: React.FC<TokenScannerScreenProps> = (props) => {
         eventId={eventId}
         eventName={eventName}
         isTokenAuth={true}
+        staffToken={token}
+        gate={gate}
       />
     )
   }
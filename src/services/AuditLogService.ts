@@ -0,0 +1,44 @@
+import supabase from "../config/supabase"
+import type { AuditAction, AuditEntry, AuditFilters, AuditTargetType } from "../models/AuditLog"
+
+export interface AuditRecordInput {
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId: string
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+  // Restrict the diff to these fields
+  fields?: string[]
+  reason?: string | null
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to view the audit log")
+  const response = await fetch("/.netlify/functions/audit-log", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Audit log operation failed")
+  return payload
+}
+
+export default {
+  // The server adds the actor, IP and user agent; a failed write never fails the action itself
+  async record(entry: AuditRecordInput): Promise<void> {
+    try {
+      await call({ action: "record", entry })
+    } catch (error) {
+      console.error("AuditLogService: failed to record", entry.action, entry.targetId, error)
+    }
+  },
+  async list(filters: AuditFilters = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    return call({ action: "list", filters })
+  },
+  async exportCsv(filters: AuditFilters = {}): Promise<{ csv: string; truncated: boolean }> {
+    return call({ action: "export", filters })
+  },
+}
@@ -0,0 +1,51 @@
+import supabase from "../config/supabase"
+import type { AutoPayoutSettings, PayoutApprovalRules } from "../models/AutoPayout"
+import type { User } from "../models/User"
+
+export interface AutoPayoutSetup {
+  settings: AutoPayoutSettings
+  paymentDetails: User["paymentDetails"] | null
+  // Platform floor for the organiser's own minimum
+  minimumAmount: number
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to manage payouts")
+  const response = await fetch("/.netlify/functions/payout-settings", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Payout settings operation failed")
+  return payload
+}
+
+export default {
+  async getSetup(): Promise<AutoPayoutSetup> {
+    return call({ action: "get" })
+  },
+  // Changing paymentDetails holds the next automatic payouts for review
+  async save(
+    settings: Omit<AutoPayoutSettings, "organizerId">,
+    paymentDetails?: User["paymentDetails"],
+  ): Promise<AutoPayoutSetup["settings"]> {
+    return (await call({ action: "save", settings, paymentDetails })).settings
+  },
+  async getRules(): Promise<PayoutApprovalRules> {
+    return (await call({ action: "get_rules" })).rules
+  },
+  async saveRules(rules: PayoutApprovalRules): Promise<PayoutApprovalRules> {
+    return (await call({ action: "save_rules", rules })).rules
+  },
+  // Send a held automatic mobile money payout
+  async release(payoutId: string): Promise<any> {
+    return (await call({ action: "release", payoutId })).payout
+  },
+  // Reject a held automatic payout and put its tickets back in the balance
+  async returnToBalance(payoutId: string, reason: string): Promise<any> {
+    return (await call({ action: "return", payoutId, reason })).payout
+  },
+}
@@ -0,0 +1,50 @@
+import supabase from "../config/supabase"
+import type { Follow, FollowTargetType } from "../models/Recommendation"
+import { CACHE_KEYS, dataCache } from "../utils/cache"
+
+const FOLLOWS_TTL_MS = 30 * 60 * 1000
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to follow venues and artists")
+  const response = await fetch("/.netlify/functions/follows", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Follow failed")
+  return payload
+}
+
+function fromPayload(follow: any): Follow {
+  return { ...follow, createdAt: new Date(follow.createdAt) }
+}
+
+// A follow changes what "For you" ranks first
+function invalidate(userId: string) {
+  dataCache.delete(CACHE_KEYS.FOLLOWS(userId))
+  dataCache.delete(CACHE_KEYS.RECOMMENDATIONS(userId))
+}
+
+export default {
+  async list(userId: string): Promise<Follow[]> {
+    const cached = dataCache.get<Follow[]>(CACHE_KEYS.FOLLOWS(userId))
+    if (cached) return cached
+    const { follows } = await call({ action: "list" })
+    const result = (follows as any[]).map(fromPayload)
+    dataCache.set(CACHE_KEYS.FOLLOWS(userId), result, FOLLOWS_TTL_MS)
+    return result
+  },
+  /** `target` is the venue's slug or the artist's name */
+  async follow(userId: string, targetType: FollowTargetType, target: string): Promise<Follow> {
+    const { follow } = await call({ action: "follow", targetType, target })
+    invalidate(userId)
+    return fromPayload(follow)
+  },
+  async unfollow(userId: string, targetType: FollowTargetType, target: string): Promise<void> {
+    await call({ action: "unfollow", targetType, target })
+    invalidate(userId)
+  },
+}
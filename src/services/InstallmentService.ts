@@ -7,12 +7,12 @@ import type { Event } from "../models/Event"
 import {
   type InstallmentPlan,
   type Installment,
-  type InstallmentPlanType,
-  INSTALLMENT_SERVICE_FEE_RATE,
-  YOVIBE_COMMISSION_RATE,
+  type InstallmentTemplate,
   splitIntoInstallments,
   buildDueDates,
 } from "../models/InstallmentPlan"
+import { calculateInstallmentFees, calculateInstallmentServiceFee } from "../utils/pricing"
+import { findInstallmentTemplate, templateRejection } from "../utils/installmentTemplates"
 
 const FUNCTIONS_BASE_URL =
   process.env.NEXT_PUBLIC_FUNCTIONS_BASE_URL ||
@@ -28,14 +28,14 @@ export class InstallmentService {
    */
   static previewPlan(
     totalAmount: number,
-    planType: InstallmentPlanType,
+    template: InstallmentTemplate,
     eventDate: Date
   ): Installment[] {
-    const baseAmounts = splitIntoInstallments(totalAmount, planType)
-    const dueDates = buildDueDates(planType, eventDate)
+    const baseAmounts = splitIntoInstallments(totalAmount, template)
+    const dueDates = buildDueDates(template, eventDate)
 
     return baseAmounts.map((amount, i) => {
-      const serviceFee = Math.round(amount * INSTALLMENT_SERVICE_FEE_RATE)
+      const serviceFee = calculateInstallmentServiceFee(amount)
       return {
         index: i,
         amount,
@@ -49,11 +49,13 @@ export class InstallmentService {
 
   /**
    * Creates the plan row in Supabase and immediately charges the first installment.
-   * Returns the plan ID and the deposit/order ID for the first payment.
+   * The schedule follows the event's template `templateId`, which must still be
+   * on offer for this ticket price. Returns the plan ID and the deposit/order ID
+   * for the first payment.
    */
   static async createPlanAndPayFirst(
     event: Event,
-    planType: InstallmentPlanType,
+    templateId: string,
     totalAmount: number,
     lateFee: number,
     buyerInfo: {
@@ -68,15 +70,25 @@ export class InstallmentService {
       tableSize: number
       buyerPhotoUrl?: string
       seatNumber?: number
+      ticketType?: string
+      pricePhase?: string
     },
     paymentDetails: {
       method: "mobile_money" | "credit_card" | "bank_transfer"
       provider?: string
       number?: string
       name?: string
-    }
+    },
+    promo?: { code: string; discountAmount: number }
   ): Promise<{ planId: string; depositId?: string; paymentUrl?: string; orderId?: string; trackingId?: string }> {
-    const installments = this.previewPlan(totalAmount, planType, event.date)
+    const template = findInstallmentTemplate(event, templateId)
+    if (!template) throw new Error("This payment plan is not offered for this event")
+    const quantity = Math.max(buyerInfo.buyerNames.length, 1)
+    const unitPrice = (totalAmount - lateFee + (promo?.discountAmount ?? 0)) / quantity
+    const rejection = templateRejection(template, { unitPrice, eventDate: event.date })
+    if (rejection) throw new Error(rejection)
+
+    const installments = this.previewPlan(totalAmount, template, event.date)
 
     const plan: Omit<InstallmentPlan, "id"> = {
       buyerId: buyerInfo.buyerId,
@@ -85,7 +97,7 @@ export class InstallmentService {
       eventId: event.id,
       eventName: event.name,
       eventDate: event.date,
-      ticketType: event.entryFees?.[0]?.name || "Standard",
+      ticketType: buyerInfo.ticketType || event.entryFees?.[0]?.name || "Standard",
       quantity: buyerInfo.buyerNames.length,
       buyerNames: buyerInfo.buyerNames,
       buyerEmails: buyerInfo.buyerEmails,
@@ -99,6 +111,10 @@ export class InstallmentService {
       paymentNumber: paymentDetails.number,
       baseTotal: totalAmount - lateFee,
       lateFee,
+      promoCode: promo?.code,
+      discountAmount: promo?.discountAmount,
+      pricePhase: buyerInfo.pricePhase,
+      templateId: template.id,
       totalAmount,
       installments,
       installmentsPaid: 0,
@@ -187,6 +203,7 @@ export class InstallmentService {
         installments_paid: paidCount,
         amount_paid: amountPaid,
         status: isComplete ? "completed" : "active",
+        grace_ends_at: null,
         updated_at: new Date().toISOString(),
       })
       .eq("id", planId)
@@ -222,6 +239,9 @@ export class InstallmentService {
         method: plan.installments[plan.installments.length - 1].paymentMethod || "mobile_money",
         ticketType: plan.ticketType,
         paymentReference: `installment_plan_${plan.id}`,
+        promoCode: plan.promoCode,
+        discountAmount: plan.discountAmount,
+        pricePhase: plan.pricePhase,
       },
       plan.buyerId ?? null,
       plan.payerEmail,
@@ -285,17 +305,13 @@ export class InstallmentService {
 
   // ─── Revenue Calculation ──────────────────────────────────────────────────
 
-  static calculateInstallmentRevenue(installmentBaseAmount: number): {
+  static calculateInstallmentRevenue(installmentBaseAmount: number, commissionRate?: number | null): {
     serviceFee: number
     yovibeCommission: number
     venueRevenue: number
     totalDue: number
   } {
-    const serviceFee = Math.round(installmentBaseAmount * INSTALLMENT_SERVICE_FEE_RATE)
-    const totalDue = installmentBaseAmount + serviceFee
-    const yovibeCommission = Math.round(installmentBaseAmount * YOVIBE_COMMISSION_RATE)
-    const venueRevenue = installmentBaseAmount - yovibeCommission
-    return { serviceFee, yovibeCommission, venueRevenue, totalDue }
+    return calculateInstallmentFees(installmentBaseAmount, commissionRate)
   }
 
   // ─── Queries ──────────────────────────────────────────────────────────────
@@ -404,6 +420,10 @@ export class InstallmentService {
       payment_number: plan.paymentNumber,
       base_total: plan.baseTotal,
       late_fee: plan.lateFee,
+      promo_code: plan.promoCode,
+      discount_amount: plan.discountAmount,
+      price_phase: plan.pricePhase,
+      template_id: plan.templateId,
       total_amount: plan.totalAmount,
       installments: plan.installments,
       installments_paid: plan.installmentsPaid,
@@ -419,13 +439,14 @@ export class InstallmentService {
     const installments: Installment[] = (row.installments || []).map((i: any) => ({
       index: i.index,
       amount: i.amount,
-      serviceFee: i.serviceFee ?? Math.round(i.amount * INSTALLMENT_SERVICE_FEE_RATE),
-      totalDue: i.totalDue ?? i.amount + Math.round(i.amount * INSTALLMENT_SERVICE_FEE_RATE),
+      serviceFee: i.serviceFee ?? calculateInstallmentServiceFee(i.amount),
+      totalDue: i.totalDue ?? i.amount + calculateInstallmentServiceFee(i.amount),
       dueDate: new Date(i.dueDate),
       status: i.status,
       depositId: i.depositId,
       paymentMethod: i.paymentMethod,
       paidAt: i.paidAt ? new Date(i.paidAt) : undefined,
+      remindersSent: i.remindersSent,
     }))
 
     return {
@@ -450,12 +471,19 @@ export class InstallmentService {
       paymentNumber: row.payment_number,
       baseTotal: row.base_total,
       lateFee: row.late_fee || 0,
+      promoCode: row.promo_code ?? undefined,
+      discountAmount: row.discount_amount ?? undefined,
+      pricePhase: row.price_phase ?? undefined,
+      templateId: row.template_id ?? undefined,
       totalAmount: row.total_amount,
       installments,
       installmentsPaid: row.installments_paid || 0,
       amountPaid: row.amount_paid || 0,
       status: row.status,
       ticketIds: row.ticket_ids || [],
+      refundStatus: row.refund_status ?? undefined,
+      graceEndsAt: row.grace_ends_at ? new Date(row.grace_ends_at) : undefined,
+      expiredAt: row.expired_at ? new Date(row.expired_at) : undefined,
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at),
     }
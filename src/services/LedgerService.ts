@@ -0,0 +1,52 @@
+import supabase from "../config/supabase"
+import type { LedgerIssue, WalletBalance } from "../models/Ledger"
+import type { Statement } from "../utils/ledger"
+
+export interface OrganizerLedgerSummary {
+  organizerId: string
+  name: string | null
+  email: string | null
+  availableBalance: number
+  pendingBalance: number
+  lastUpdated: string
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to view wallet balances")
+  const response = await fetch("/.netlify/functions/organizer-ledger", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Ledger operation failed")
+  return payload
+}
+
+export default {
+  // Without an organiser id these act on the signed-in organiser's own books
+  async getWallet(organizerId?: string): Promise<WalletBalance> {
+    return (await call({ action: "wallet", organizerId })).wallet
+  },
+  async getStatement(organizerId?: string, from?: string, to?: string): Promise<Statement> {
+    return (await call({ action: "statement", organizerId, from, to })).statement
+  },
+  // Post a completed payout; the server reads the amount from the payout itself
+  async recordPayout(payoutId: string): Promise<WalletBalance> {
+    return (await call({ action: "record_payout", payoutId })).wallet
+  },
+  async listOrganizers(): Promise<OrganizerLedgerSummary[]> {
+    return (await call({ action: "organizers" })).organizers
+  },
+  async checkInvariants(organizerId: string): Promise<LedgerIssue[]> {
+    return (await call({ action: "check", organizerId })).issues
+  },
+  async sync(since?: string): Promise<Record<string, number>> {
+    return (await call({ action: "sync", since })).posted
+  },
+  async adjust(organizerId: string, amount: number, memo: string): Promise<WalletBalance> {
+    return (await call({ action: "adjust", organizerId, amount, memo })).wallet
+  },
+}
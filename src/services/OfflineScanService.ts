@@ -0,0 +1,355 @@
+import { supabase } from "../config/supabase"
+import { hashQRCode, parseAndVerifyQR, verifyPayloadSignature } from "./TicketQRService"
+import type { DoorManifest, ManifestTicket, QueuedScan, ScanConflict } from "../models/DoorManifest"
+import { isEntryFeeAllowedAtGate, type GateConfig } from "../utils/gateThroughput"
+
+const DB_NAME = "yovibe-door"
+const DB_VERSION = 1
+const MANIFEST_STORE = "manifests"
+const SCAN_STORE = "scans"
+const DEVICE_ID_KEY = "yovibe_door_device_id"
+
+export interface OfflineValidationResult {
+  success: boolean
+  reason?: string
+  needsPhotoVerification?: boolean
+  buyerPhotoUrl?: string
+  buyerName?: string
+  ticketDocId?: string
+  isReentry?: boolean
+  reentryGrantedByName?: string
+  reentryGrantedAt?: string
+  ticketRef?: string
+  entryFeeType?: string
+  seatNumber?: number
+  tableNumber?: number
+  requiresLiveQR?: boolean
+  offline: true
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+// IndexedDB survives reloads on the door device; the in-memory maps only cover
+// environments without it (SSR, tests) so callers never need to branch.
+
+const memoryManifests = new Map<string, DoorManifest>()
+const memoryScans = new Map<string, QueuedScan>()
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function hasIndexedDB(): boolean {
+  return typeof indexedDB !== "undefined"
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(MANIFEST_STORE)) db.createObjectStore(MANIFEST_STORE)
+        if (!db.objectStoreNames.contains(SCAN_STORE)) {
+          const scans = db.createObjectStore(SCAN_STORE, { keyPath: "localId" })
+          scans.createIndex("eventSlug", "eventSlug")
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function idbRequest<T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Keyed by the identifier the scanner was opened with (slug or event id)
+async function putManifest(key: string, manifest: DoorManifest): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryManifests.set(key, manifest)
+    return
+  }
+  await idbRequest(MANIFEST_STORE, "readwrite", (s) => s.put(manifest, key))
+}
+
+async function readManifest(eventSlug: string): Promise<DoorManifest | null> {
+  if (!hasIndexedDB()) return memoryManifests.get(eventSlug) || null
+  return (await idbRequest<DoorManifest | undefined>(MANIFEST_STORE, "readonly", (s) => s.get(eventSlug))) || null
+}
+
+async function putScan(scan: QueuedScan): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryScans.set(scan.localId, scan)
+    return
+  }
+  await idbRequest(SCAN_STORE, "readwrite", (s) => s.put(scan))
+}
+
+async function readScans(eventSlug: string): Promise<QueuedScan[]> {
+  if (!hasIndexedDB()) return [...memoryScans.values()].filter((s) => s.eventSlug === eventSlug)
+  return idbRequest<QueuedScan[]>(SCAN_STORE, "readonly", (s) => s.index("eventSlug").getAll(eventSlug))
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function getDeviceId(): string {
+  try {
+    const existing = localStorage.getItem(DEVICE_ID_KEY)
+    if (existing) return existing
+    const id = `dev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`
+    localStorage.setItem(DEVICE_ID_KEY, id)
+    return id
+  } catch {
+    return "dev_unknown"
+  }
+}
+
+async function authHeaders(staffToken?: string): Promise<Record<string, string>> {
+  if (staffToken) return {}
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in or use a staff scanner link")
+  return { Authorization: `Bearer ${token}` }
+}
+
+function qrCodeFromScan(decodedText: string): { qrCode: string; rotating?: { window: number; code: string } } {
+  const parsed = parseAndVerifyQR(decodedText)
+  if (parsed) return { qrCode: parsed.ticketId.trim(), rotating: parsed.rotating }
+  try {
+    const data = JSON.parse(decodedText)
+    if (data?.id) return { qrCode: String(data.id).trim() }
+  } catch {}
+  return { qrCode: decodedText.trim() }
+}
+
+function ticketDetails(t: ManifestTicket) {
+  return { ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
+}
+
+function newScan(eventSlug: string, ticket: ManifestTicket, kind: QueuedScan["kind"], validatorId: string, location?: string, gate?: GateConfig): QueuedScan {
+  const deviceId = getDeviceId()
+  return {
+    localId: `${deviceId}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    eventSlug,
+    deviceId,
+    ticketId: ticket.id,
+    qrHash: ticket.qrHash,
+    kind,
+    scannedAt: new Date().toISOString(),
+    validatorId,
+    location,
+    gate: gate?.gateName,
+    localStatus: "granted",
+    synced: false,
+  }
+}
+
+// Scans already admitted on this device but not yet reflected in the manifest
+async function locallyAdmitted(eventSlug: string, ticketId: string): Promise<QueuedScan[]> {
+  return (await readScans(eventSlug)).filter((s) => s.ticketId === ticketId && s.localStatus === "granted")
+}
+
+// ── Service ───────────────────────────────────────────────────────────────────
+
+const OfflineScanService = {
+  getDeviceId,
+
+  isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false
+  },
+
+  async downloadManifest(eventSlug: string, staffToken?: string): Promise<DoorManifest> {
+    const params = new URLSearchParams({ eventSlug })
+    if (staffToken) params.set("token", staffToken)
+    const response = await fetch(`/.netlify/functions/event-ticket-manifest?${params.toString()}`, {
+      headers: await authHeaders(staffToken),
+    })
+    const payload = await response.json()
+    if (!response.ok) throw new Error(payload.error || "Failed to download ticket manifest")
+
+    const { signature, ...unsigned } = payload
+    if (!signature || !verifyPayloadSignature(JSON.stringify(unsigned), signature)) {
+      throw new Error("Ticket manifest signature is invalid")
+    }
+
+    const manifest = payload as DoorManifest
+    await putManifest(eventSlug, manifest)
+    console.log(`[OfflineScan] Manifest stored for ${eventSlug}: ${manifest.tickets.length} tickets`)
+    return manifest
+  },
+
+  async getManifest(eventSlug: string): Promise<DoorManifest | null> {
+    const manifest = await readManifest(eventSlug)
+    if (!manifest) return null
+    const { signature, ...unsigned } = manifest
+    // Re-verify on every load so a tampered IndexedDB entry is never trusted
+    if (!verifyPayloadSignature(JSON.stringify(unsigned), signature)) return null
+    return manifest
+  },
+
+  /**
+   * Validate a scanned QR against the locally stored manifest. Mirrors the
+   * checks in TicketService.validateTicket; granted scans are queued for sync.
+   * Tickets needing photo verification are only queued by confirmOffline.
+   */
+  async validateOffline(
+    eventSlug: string,
+    decodedText: string,
+    validatorId: string,
+    location?: string,
+    gate?: GateConfig,
+    options?: { allowStaticFallback?: boolean },
+  ): Promise<OfflineValidationResult> {
+    const manifest = await this.getManifest(eventSlug)
+    if (!manifest) return { success: false, reason: "No offline ticket list downloaded for this event", offline: true }
+    if (new Date(manifest.expiresAt) < new Date()) {
+      return { success: false, reason: "Offline ticket list has expired — reconnect to refresh", offline: true }
+    }
+
+    if (/[?&]w=\d+&c=/.test(decodedText) && !parseAndVerifyQR(decodedText)) {
+      return { success: false, reason: "QR code has expired — ask the attendee to open their live ticket", offline: true }
+    }
+    const { qrCode, rotating } = qrCodeFromScan(decodedText)
+    const qrHash = hashQRCode(qrCode)
+    const ticket = manifest.tickets.find((t) => t.qrHash === qrHash || t.id === qrCode)
+    if (!ticket) return { success: false, reason: "Invalid QR code - ticket not found", offline: true }
+
+    // Without the ticket's secret a live code is no stronger offline than the static one
+    if (ticket.liveQr && !options?.allowStaticFallback) {
+      const reason = rotating
+        ? "Live QR codes cannot be verified offline — check the ticket in the attendee's YoVibe app"
+        : "This ticket uses a live QR code — ask for the code in the YoVibe app"
+      return { success: false, requiresLiveQR: true, reason, ...ticketDetails(ticket), offline: true }
+    }
+
+    if (gate && !isEntryFeeAllowedAtGate(gate, ticket.entryFeeType)) {
+      return { success: false, reason: `${ticket.entryFeeType || "This ticket"} is not admitted at ${gate.gateName}`, ...ticketDetails(ticket), offline: true }
+    }
+
+    if (ticket.expiresAt && new Date(ticket.expiresAt) < new Date()) {
+      return { success: false, reason: "Ticket has expired", ...ticketDetails(ticket), offline: true }
+    }
+
+    const admitted = await locallyAdmitted(eventSlug, ticket.id)
+    const alreadyUsed = ticket.status === "used" || admitted.some((s) => s.kind === "entry")
+
+    if (alreadyUsed || (ticket.status !== "active" && ticket.status !== "pending")) {
+      const pass = ticket.reentryPass
+      const passConsumed = admitted.some((s) => s.kind === "reentry")
+      if (alreadyUsed && pass && !pass.used && !passConsumed) {
+        await putScan(newScan(eventSlug, ticket, "reentry", validatorId, location, gate))
+        return {
+          success: true,
+          isReentry: true,
+          buyerPhotoUrl: ticket.buyerPhotoUrl,
+          reentryGrantedByName: pass.grantedByName,
+          reentryGrantedAt: pass.grantedAt,
+          ...ticketDetails(ticket),
+          offline: true,
+        }
+      }
+      const reason = alreadyUsed ? "Ticket already used" : ticket.status === "cancelled" ? "Ticket was cancelled" : "Invalid ticket status"
+      return { success: false, reason, ...ticketDetails(ticket), offline: true }
+    }
+
+    if (ticket.buyerPhotoUrl) {
+      return { success: true, needsPhotoVerification: true, buyerPhotoUrl: ticket.buyerPhotoUrl, ticketDocId: ticket.id, ...ticketDetails(ticket), offline: true }
+    }
+
+    await putScan(newScan(eventSlug, ticket, "entry", validatorId, location, gate))
+    return { success: true, ...ticketDetails(ticket), offline: true }
+  },
+
+  /** Queue the entry once door staff have matched the buyer's photo */
+  async confirmOffline(eventSlug: string, ticketId: string, validatorId: string, location?: string, gate?: GateConfig): Promise<boolean> {
+    const manifest = await this.getManifest(eventSlug)
+    const ticket = manifest?.tickets.find((t) => t.id === ticketId)
+    if (!ticket) return false
+    if ((await locallyAdmitted(eventSlug, ticketId)).some((s) => s.kind === "entry")) return false
+    await putScan(newScan(eventSlug, ticket, "entry", validatorId, location, gate))
+    return true
+  },
+
+  async getPendingCount(eventSlug: string): Promise<number> {
+    return (await readScans(eventSlug)).filter((s) => !s.synced).length
+  },
+
+  /**
+   * Push queued scans to the server. Each scan carries its local id, so a
+   * retried or duplicated upload is applied at most once.
+   */
+  async syncPendingScans(eventSlug: string, staffToken?: string): Promise<{ synced: number; conflicts: number }> {
+    const pending = (await readScans(eventSlug)).filter((s) => !s.synced)
+    if (pending.length === 0) return { synced: 0, conflicts: 0 }
+
+    const response = await fetch("/.netlify/functions/sync-offline-scans", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(await authHeaders(staffToken)) },
+      body: JSON.stringify({ eventSlug, token: staffToken, deviceId: getDeviceId(), scans: pending }),
+    })
+    const payload = await response.json()
+    if (!response.ok) throw new Error(payload.error || "Failed to sync offline scans")
+
+    const results: Record<string, QueuedScan["syncResult"]> = payload.results || {}
+    let synced = 0
+    let conflicts = 0
+    for (const scan of pending) {
+      const result = results[scan.localId]
+      if (!result) continue
+      await putScan({ ...scan, synced: true, syncResult: result })
+      synced++
+      if (result !== "applied" && result !== "duplicate") conflicts++
+    }
+    console.log(`[OfflineScan] Synced ${synced}/${pending.length} scans for ${eventSlug} (${conflicts} conflicts)`)
+    return { synced, conflicts }
+  },
+
+  /** Sync automatically whenever the browser regains connectivity. Returns an unsubscribe function. */
+  watchConnectivity(eventSlug: string, staffToken: string | undefined, onSynced?: (r: { synced: number; conflicts: number }) => void): () => void {
+    if (typeof window === "undefined" || !window.addEventListener) return () => {}
+    const handler = () => {
+      this.syncPendingScans(eventSlug, staffToken)
+        .then((r) => onSynced?.(r))
+        .catch((err) => console.error("[OfflineScan] Auto-sync failed:", err))
+    }
+    window.addEventListener("online", handler)
+    return () => window.removeEventListener("online", handler)
+  },
+
+  async getConflicts(eventSlug: string): Promise<ScanConflict[]> {
+    const { data, error } = await supabase
+      .from("offline_scan_conflicts")
+      .select("*")
+      .eq("event_slug", eventSlug)
+      .order("created_at", { ascending: false })
+      .limit(50)
+
+    if (error) {
+      console.error("Error fetching offline scan conflicts:", error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      eventSlug: row.event_slug,
+      ticketId: row.ticket_id,
+      ticketRef: row.ticket_ref || undefined,
+      winningDeviceId: row.winning_device_id || undefined,
+      winningScannedAt: row.winning_scanned_at || undefined,
+      losingDeviceId: row.losing_device_id || undefined,
+      losingScannedAt: row.losing_scanned_at || undefined,
+      resolution: row.resolution,
+      detail: row.detail || undefined,
+      createdAt: new Date(row.created_at),
+    }))
+  },
+}
+
+export default OfflineScanService
@@ -0,0 +1,127 @@
+import supabase from "../config/supabase"
+import type { Passkey } from "../models/Passkey"
+import { base64UrlDecode, base64UrlEncode, type PasskeyPurpose } from "../utils/webauthn"
+
+async function post(body: Record<string, unknown>, token?: string) {
+  const response = await fetch("/.netlify/functions/passkeys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Passkey operation failed")
+  return payload
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in again")
+  return post(body, token)
+}
+
+const toBuffer = (value: string) => base64UrlDecode(value).buffer as ArrayBuffer
+const fromBuffer = (value: ArrayBuffer | null) => (value ? base64UrlEncode(new Uint8Array(value)) : undefined)
+
+// The functions send options as JSON with base64url strings where WebAuthn wants bytes
+function creationOptions(options: any): PublicKeyCredentialCreationOptions {
+  return {
+    ...options,
+    challenge: toBuffer(options.challenge),
+    user: { ...options.user, id: toBuffer(options.user.id) },
+    excludeCredentials: (options.excludeCredentials || []).map((c: any) => ({ ...c, id: toBuffer(c.id) })),
+  }
+}
+
+function requestOptions(options: any): PublicKeyCredentialRequestOptions {
+  return {
+    ...options,
+    challenge: toBuffer(options.challenge),
+    allowCredentials: (options.allowCredentials || []).map((c: any) => ({ ...c, id: toBuffer(c.id) })),
+  }
+}
+
+function cancelledMessage(e: any): Error {
+  // NotAllowedError covers both the user dismissing the prompt and it timing out
+  if (e?.name === "NotAllowedError") return new Error("Passkey request was cancelled")
+  if (e?.name === "InvalidStateError") return new Error("This device already has a passkey for your account")
+  return e instanceof Error ? e : new Error("Passkey request failed")
+}
+
+async function getAssertion(options: any) {
+  let credential: PublicKeyCredential
+  try {
+    credential = (await navigator.credentials.get({ publicKey: requestOptions(options) })) as PublicKeyCredential
+  } catch (e) {
+    throw cancelledMessage(e)
+  }
+  if (!credential) throw new Error("Passkey request was cancelled")
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    id: credential.id,
+    type: credential.type,
+    response: {
+      clientDataJSON: fromBuffer(response.clientDataJSON),
+      authenticatorData: fromBuffer(response.authenticatorData),
+      signature: fromBuffer(response.signature),
+      userHandle: fromBuffer(response.userHandle),
+    },
+  }
+}
+
+export default {
+  // Web only; native builds keep password and authenticator-code sign-in
+  isSupported(): boolean {
+    return typeof window !== "undefined" && !!window.PublicKeyCredential && !!navigator.credentials
+  },
+  async list(): Promise<Passkey[]> {
+    return (await call({ action: "list" })).passkeys
+  },
+  // Adding or removing a passkey is confirmed with an existing one, when there is one
+  async register(name: string): Promise<Passkey> {
+    const stepUpToken = await this.stepUp("manage_passkeys")
+    const { challengeId, options } = await call({ action: "register_options", stepUpToken })
+    let credential: PublicKeyCredential
+    try {
+      credential = (await navigator.credentials.create({ publicKey: creationOptions(options) })) as PublicKeyCredential
+    } catch (e) {
+      throw cancelledMessage(e)
+    }
+    if (!credential) throw new Error("Passkey request was cancelled")
+    const response = credential.response as AuthenticatorAttestationResponse
+    return (await call({
+      action: "register_verify",
+      challengeId,
+      name,
+      credential: {
+        id: credential.id,
+        type: credential.type,
+        response: {
+          clientDataJSON: fromBuffer(response.clientDataJSON),
+          attestationObject: fromBuffer(response.attestationObject),
+          transports: typeof response.getTransports === "function" ? response.getTransports() : [],
+        },
+      },
+    })).passkey
+  },
+  async remove(passkeyId: string): Promise<void> {
+    const stepUpToken = await this.stepUp("manage_passkeys")
+    await call({ action: "remove", passkeyId, stepUpToken })
+  },
+  // Passwordless sign-in: the token hash is exchanged for a session with verifyOtp
+  async authenticate(): Promise<{ tokenHash: string; email: string }> {
+    const { challengeId, options } = await post({ action: "login_options" })
+    return post({ action: "login_verify", challengeId, credential: await getAssertion(options) })
+  },
+  /**
+   * Confirm a sensitive action with a passkey. Resolves to a single-use token
+   * for the action's request, or undefined when the account has no passkeys.
+   */
+  async stepUp(purpose: PasskeyPurpose): Promise<string | undefined> {
+    const { required, challengeId, options } = await call({ action: "stepup_options", purpose })
+    if (!required) return undefined
+    if (!this.isSupported()) throw new Error("Your account is protected with a passkey. Confirm this from a device that supports passkeys.")
+    const credential = await getAssertion(options)
+    return (await call({ action: "stepup_verify", purpose, challengeId, credential })).stepUpToken
+  },
+}
@@ -1,4 +1,7 @@
+import { v4 as uuidv4 } from "uuid"
+import type { CheckoutRiskDecision, CheckoutRiskInput } from "../models/Risk"
 import type { PaymentIntent } from "../models/Ticket"
+import { calculateRevenueSplit, type RevenueSplit } from "../utils/pricing"
 
 const PAWAPAY_BASE_URL = process.env.NEXT_PUBLIC_PAWAPAY_API_URL || "https://api.pawapay.net"
 
@@ -28,38 +31,34 @@ async function safeJson<T>(response: Response): Promise<T> {
 }
 
 export class PawaPayService {
-  private static APP_COMMISSION_RATE = 0.15
-
-  static calculateRevenueSplit(totalAmount: number): {
-    appCommission: number
-    venueRevenue: number
-    commissionRate: number
-  } {
-    const appCommission = Math.round(totalAmount * this.APP_COMMISSION_RATE)
-    const venueRevenue = totalAmount - appCommission
-
-    return {
-      appCommission,
-      venueRevenue,
-      commissionRate: this.APP_COMMISSION_RATE,
-    }
+  static calculateRevenueSplit(totalAmount: number, commissionRate?: number | null): RevenueSplit {
+    return calculateRevenueSplit(totalAmount, commissionRate)
   }
 
   static getProvidersForCountry(countryCode: string): string[] {
     return PAWAPAY_PROVIDERS[countryCode as keyof typeof PAWAPAY_PROVIDERS] || []
   }
 
+  /** A deposit id chosen up front, so the order can be recorded before the payment starts */
+  static newDepositId(): string {
+    return uuidv4()
+  }
+
   static async initiateDeposit(
     amount: number,
     currency: string,
     phoneNumber: string,
-    provider: string
+    provider: string,
+    // Ticket checkouts send their risk context, and the assessment a step-up passed on
+    risk?: { context: CheckoutRiskInput; assessmentId?: string },
+    depositId?: string,
   ): Promise<{
     success: boolean
     depositId?: string
     status?: string
     nextStep?: string
     error?: string
+    risk?: CheckoutRiskDecision
   }> {
     try {
       const response = await fetch("/.netlify/functions/create-pawapay-deposit", {
@@ -72,6 +71,11 @@ export class PawaPayService {
           currency,
           phoneNumber,
           provider,
+          buyerEmail: risk?.context.email,
+          buyerName: risk?.context.payerName,
+          risk: risk?.context,
+          riskAssessmentId: risk?.assessmentId,
+          depositId,
         }),
       })
 
@@ -82,6 +86,7 @@ export class PawaPayService {
         return {
           success: false,
           error: data.error,
+          risk: data.risk,
         }
       }
 
@@ -1,6 +1,7 @@
 import type { PaymentIntent } from "../models/Ticket"
 import PesaPalService from "./PesaPalService"
 import PawaPayService from "./PawaPayService"
+import { calculateRevenueSplit } from "../utils/pricing"
 
 export interface PaymentMethod {
   method: "mobile_money" | "credit_card" | "bank_transfer"
@@ -16,7 +17,7 @@ export class PaymentService {
     buyerId: string,
     paymentMethod?: PaymentMethod
   ): Promise<PaymentIntent> {
-    const { appCommission, venueRevenue } = PawaPayService.calculateRevenueSplit(amount)
+    const { appCommission, venueRevenue } = calculateRevenueSplit(amount)
 
     const paymentIntent: PaymentIntent = {
       id: `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -52,8 +53,8 @@ export class PaymentService {
     return PesaPalService.refundPayment(paymentIntentId, amount)
   }
 
-  static calculateRevenueSplit(totalAmount: number) {
-    return PawaPayService.calculateRevenueSplit(totalAmount)
+  static calculateRevenueSplit(totalAmount: number, commissionRate?: number | null) {
+    return calculateRevenueSplit(totalAmount, commissionRate)
   }
 
   static getSupportedProviders(countryCode: string): string[] {
@@ -1,4 +1,6 @@
 import type { PaymentIntent } from "../models/Ticket"
+import type { CheckoutRiskDecision, CheckoutRiskInput } from "../models/Risk"
+import { calculateRevenueSplit, quoteTicketPrice, type RevenueSplit } from "../utils/pricing"
 
 // PesaPal Configuration
 // NOTE: Actual API calls go through Netlify Functions which read credentials from environment variables.
@@ -20,61 +22,43 @@ const generateOrderId = (): string => {
 }
 
 export class PesaPalService {
-  private static APP_COMMISSION_RATE = 0.15 // 15%
-  private static LATE_FEE_PERCENTAGE = 0 // 0% default (configurable per event)
-
-
+  /** A merchant reference chosen up front, so the order can be recorded before the payment starts */
+  static newOrderId(): string {
+    return generateOrderId()
+  }
 
   /**
-   * Calculate ticket price with optional late fee
+   * Calculate ticket price with optional late fee and promo discount.
+   * The discount comes off the subtotal before the late fee is worked out.
    */
   static calculateTicketPrice(
     basePrice: number,
     quantity: number,
     eventStartTime: Date,
     lateFeePercent?: number,
+    discount: number = 0,
   ): {
     subtotal: number
+    discount: number
     lateFee: number
     total: number
     isLatePurchase: boolean
   } {
-    const now = new Date()
-    const sevenAm = new Date(eventStartTime)
-    sevenAm.setHours(7, 0, 0, 0)
-
-    const subtotal = basePrice * quantity
-    let lateFee = 0
-
-    if (now >= sevenAm) {
-      const pct = lateFeePercent ?? this.LATE_FEE_PERCENTAGE
-      lateFee = Math.round(subtotal * pct / 100)
-    }
-
+    const quote = quoteTicketPrice({ unitPrice: basePrice, quantity, eventStartTime, lateFeePercent, discount })
     return {
-      subtotal,
-      lateFee,
-      total: subtotal + lateFee,
-      isLatePurchase: lateFee > 0,
+      subtotal: quote.subtotal,
+      discount: quote.discount,
+      lateFee: quote.lateFee,
+      total: quote.total,
+      isLatePurchase: quote.isLatePurchase,
     }
   }
 
   /**
    * Calculate revenue split between app and venue
    */
-  static calculateRevenueSplit(totalAmount: number): {
-    appCommission: number
-    venueRevenue: number
-    commissionRate: number
-  } {
-    const appCommission = Math.round(totalAmount * this.APP_COMMISSION_RATE)
-    const venueRevenue = totalAmount - appCommission
-
-    return {
-      appCommission,
-      venueRevenue,
-      commissionRate: this.APP_COMMISSION_RATE,
-    }
+  static calculateRevenueSplit(totalAmount: number, commissionRate?: number | null): RevenueSplit {
+    return calculateRevenueSplit(totalAmount, commissionRate)
   }
 
   /**
@@ -90,6 +74,8 @@ export class PesaPalService {
     buyerName?: string,
     buyerFirstName?: string,
     buyerLastName?: string,
+    risk?: { context: CheckoutRiskInput; assessmentId?: string },
+    requestedOrderId?: string,
   ): Promise<{ iframeUrl: string; orderId: string; merchantReference: string; trackingId?: string }> {
     console.log("========================================")
     console.log("💳 PESAPAL CHECKOUT INITIALIZATION (Netlify Functions)")
@@ -101,7 +87,7 @@ export class PesaPalService {
     console.log("   - Buyer Phone:", buyerPhone || "Not provided")
     console.log("   - Buyer Name:", buyerName || "Not provided")
 
-    const orderId = generateOrderId()
+    const orderId = requestedOrderId || generateOrderId()
     const merchantReference = orderId
 
     try {
@@ -122,6 +108,9 @@ export class PesaPalService {
           buyerName,
           buyerFirstName,
           buyerLastName,
+          orderId,
+          risk: risk?.context,
+          riskAssessmentId: risk?.assessmentId,
         }),
       })
 
@@ -132,7 +121,8 @@ export class PesaPalService {
       console.log("   - Response:", data)
 
       if (!response.ok) {
-        throw new Error(data.error || `Failed to create order: ${response.status}`)
+        // A held checkout carries the risk decision so the screen can ask for a step-up
+        throw Object.assign(new Error(data.error || `Failed to create order: ${response.status}`), { risk: data.risk })
       }
 
       if (data.iframeUrl) {
@@ -318,7 +308,9 @@ export class PesaPalService {
     buyerName?: string,
     buyerFirstName?: string,
     buyerLastName?: string,
-  ): Promise<{ success: boolean; paymentUrl?: string; orderId?: string; trackingId?: string; error?: string }> {
+    risk?: { context: CheckoutRiskInput; assessmentId?: string },
+    orderId?: string,
+  ): Promise<{ success: boolean; paymentUrl?: string; orderId?: string; trackingId?: string; error?: string; risk?: CheckoutRiskDecision }> {
     console.log("========================================")
     console.log("📝 PESAPAL ORDER SUBMISSION")
     console.log("========================================")
@@ -339,6 +331,8 @@ export class PesaPalService {
         buyerName,
         buyerFirstName,
         buyerLastName,
+        risk,
+        orderId,
       )
 
       console.log("✅ Order submitted successfully!")
@@ -357,6 +351,7 @@ export class PesaPalService {
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        risk: (error as { risk?: CheckoutRiskDecision })?.risk,
       }
     }
   }
@@ -0,0 +1,53 @@
+import supabase from "../config/supabase"
+import type { PromoCheck, PromoCode, PromoCodeReport } from "../models/PromoCode"
+
+// Promo codes never reach the browser in bulk: checkout asks the function
+// about its own order, and only the event's team can list or change them.
+async function call(body: Record<string, unknown>, requireAuth = true) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (requireAuth && !token) throw new Error("Please sign in to manage promo codes")
+  const response = await fetch("/.netlify/functions/promo-codes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Promo code operation failed")
+  return payload
+}
+
+const PromoCodeService = {
+  /** The order's discount: the typed code while it applies, otherwise the best group deal */
+  async check(eventId: string, order: { ticketType: string; quantity: number; subtotal: number; code?: string }): Promise<PromoCheck> {
+    const { check } = await call({ action: "check", eventId, ...order }, false)
+    return check
+  },
+
+  list(eventId: string): Promise<{ promoCodes: PromoCode[]; report: PromoCodeReport[] }> {
+    return call({ action: "list", eventId })
+  },
+
+  save(eventId: string, promoCodes: PromoCode[]): Promise<{ promoCodes: PromoCode[]; report: PromoCodeReport[] }> {
+    return call({ action: "save", eventId, promoCodes })
+  },
+
+  // Tickets are already issued when this runs, so a failed insert is logged
+  // rather than surfaced to the buyer.
+  async recordRedemption(redemption: {
+    eventId: string
+    code: string
+    paymentReference?: string
+    ticketType?: string
+    discountAmount: number
+    buyerEmail?: string
+  }): Promise<void> {
+    try {
+      await call({ action: "redeem", ...redemption }, false)
+    } catch (error) {
+      console.error("Error recording promo redemption:", error)
+    }
+  },
+}
+
+export default PromoCodeService
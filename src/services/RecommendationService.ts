@@ -0,0 +1,48 @@
+import supabase from "../config/supabase"
+import type { RecommendationFeed } from "../models/Recommendation"
+import { CACHE_KEYS, dataCache } from "../utils/cache"
+
+// Tickets and follows change slowly; following or unfollowing drops the cached feed
+const FEED_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Where the visitor is, only if they have already let the site locate them;
+ * the feed never prompts. LocationService's fallback (no accuracy) is not a fix.
+ */
+async function knownPosition(): Promise<{ latitude: number; longitude: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.permissions || !("geolocation" in navigator)) return null
+  try {
+    const status = await navigator.permissions.query({ name: "geolocation" })
+    if (status.state !== "granted") return null
+    const { default: LocationService } = await import("./LocationService")
+    const position = await LocationService.getCurrentPosition()
+    return position.accuracy === null ? null : { latitude: position.latitude, longitude: position.longitude }
+  } catch {
+    return null
+  }
+}
+
+export default {
+  /** Upcoming events ranked for the signed-in user, or by popularity for anonymous visitors */
+  async getFeed(userId: string | null, fresh = false): Promise<RecommendationFeed> {
+    const cacheKey = CACHE_KEYS.RECOMMENDATIONS(userId || "anonymous")
+    const cached = fresh ? null : dataCache.get<RecommendationFeed>(cacheKey)
+    if (cached) return cached
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (userId) {
+      const { data } = await supabase.auth.getSession()
+      if (data.session?.access_token) headers.Authorization = `Bearer ${data.session.access_token}`
+    }
+    const response = await fetch("/.netlify/functions/recommendations", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ position: await knownPosition() }),
+    })
+    const payload = await response.json()
+    if (!response.ok) throw new Error(payload.error || "Could not load recommendations")
+    const feed: RecommendationFeed = { ...payload, generatedAt: new Date(payload.generatedAt) }
+    dataCache.set(cacheKey, feed, FEED_TTL_MS)
+    return feed
+  },
+}
@@ -0,0 +1,36 @@
+import supabase from "../config/supabase"
+import type { GatewayProvider, ReconciliationAction, ReconciliationReport } from "../models/Reconciliation"
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in as an admin")
+  const response = await fetch("/.netlify/functions/payment-reconciliation", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Reconciliation failed")
+  return payload
+}
+
+export default {
+  // Look every payment in the range up at the gateways
+  pull(from: string, to: string, provider?: GatewayProvider): Promise<{ report: ReconciliationReport; importErrors: string[] }> {
+    return call({ action: "run", from, to, provider })
+  },
+  // Reconcile against a statement exported from the gateway dashboard
+  importCsv(from: string, to: string, provider: GatewayProvider, csv: string): Promise<{ report: ReconciliationReport; importErrors: string[] }> {
+    return call({ action: "run", from, to, provider, csv })
+  },
+  async list(limit?: number): Promise<Omit<ReconciliationReport, "rows">[]> {
+    return (await call({ action: "list", limit })).reports
+  },
+  async get(reportId: string): Promise<ReconciliationReport> {
+    return (await call({ action: "get", reportId })).report
+  },
+  resolve(reportId: string, rowId: string, resolution: ReconciliationAction) {
+    return call({ action: "resolve", reportId, rowId, resolution })
+  },
+}
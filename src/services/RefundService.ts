@@ -1,4 +1,5 @@
 import supabase from "../config/supabase"
+import PasskeyService from "./PasskeyService"
 
 export type RefundReason = "event_cancelled" | "event_postponed" | "installments_incomplete" | "chargeback"
 
@@ -20,20 +21,24 @@ export default {
   request(ticketId: string, reasonCode: RefundReason, installmentPlanId?: string, note?: string) {
     return call({ action: "request", ticketId, reasonCode, installmentPlanId, note })
   },
-  list(filters?: { status?: string; search?: string; limit?: number; offset?: number }) {
+  // eventId scopes the call to one event so organiser teams with refund access can review it
+  list(filters?: { status?: string; search?: string; limit?: number; offset?: number; eventId?: string }) {
     return call({ action: "list", ...filters })
   },
-  approve(refundId: string, approvedAmount?: number, note?: string) {
-    return call({ action: "approve", refundId, approvedAmount, note })
+  approve(refundId: string, approvedAmount?: number, note?: string, eventId?: string) {
+    return call({ action: "approve", refundId, approvedAmount, note, eventId })
   },
-  reject(refundId: string, note?: string) {
-    return call({ action: "reject", refundId, note })
+  reject(refundId: string, note?: string, eventId?: string) {
+    return call({ action: "reject", refundId, note, eventId })
   },
-  execute(refundId: string, approvedAmount?: number) {
-    return call({ action: "execute", refundId, approvedAmount })
+  // Both move money, so accounts with a passkey confirm them with it first
+  async execute(refundId: string, approvedAmount?: number) {
+    const stepUpToken = await PasskeyService.stepUp("refund")
+    return call({ action: "execute", refundId, approvedAmount, stepUpToken })
   },
-  retry(refundId: string) {
-    return call({ action: "retry", refundId })
+  async retry(refundId: string) {
+    const stepUpToken = await PasskeyService.stepUp("refund")
+    return call({ action: "retry", refundId, stepUpToken })
   },
   chargeback(refundId: string, note?: string) {
     return call({ action: "chargeback", refundId, note })
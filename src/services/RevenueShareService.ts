@@ -0,0 +1,69 @@
+import supabase from "../config/supabase"
+import type { RevenueShareRule, RevenueShareRole } from "../models/RevenueShare"
+import PasskeyService from "./PasskeyService"
+
+export interface PartyShare {
+  beneficiaryId: string
+  role: RevenueShareRole | "owner"
+  earned: number
+  eligible: number
+}
+
+export interface MyEventShare {
+  eventId: string
+  eventName: string
+  date: string
+  role: RevenueShareRole | null
+  earned: number
+  eligible: number
+}
+
+// New parties are added by email; the server resolves them to accounts
+export type RevenueShareRuleInput = Omit<RevenueShareRule, "id" | "beneficiaryId"> & {
+  id?: string
+  beneficiaryId?: string
+  beneficiaryEmail?: string
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to manage revenue sharing")
+  const response = await fetch("/.netlify/functions/revenue-shares", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Revenue share operation failed")
+  return payload
+}
+
+export default {
+  // Creators and admins get every party and the rules; beneficiaries only their own share
+  async getSummary(eventId: string): Promise<{ rules?: RevenueShareRule[]; parties: PartyShare[] }> {
+    return call({ action: "summary", eventId })
+  },
+  async saveRules(eventId: string, rules: RevenueShareRuleInput[]): Promise<RevenueShareRule[]> {
+    return (await call({ action: "save_rules", eventId, rules })).rules
+  },
+  // Split the tickets into one payout per beneficiary, each awaiting that party's confirmation
+  async requestPayouts(eventId: string, ticketIds: string[]): Promise<any[]> {
+    return (await call({ action: "request", eventId, ticketIds })).payouts
+  },
+  async getMyShares(): Promise<{ shares: MyEventShare[]; payouts: any[] }> {
+    return call({ action: "my_shares" })
+  },
+  async sendConfirmationCode(): Promise<void> {
+    await call({ action: "send_otp" })
+  },
+  async confirmPayout(payoutId: string, otp: string): Promise<any> {
+    return (await call({ action: "confirm", payoutId, otp })).payout
+  },
+  // Instead of the emailed code, for accounts with a passkey
+  async confirmPayoutWithPasskey(payoutId: string): Promise<any> {
+    const stepUpToken = await PasskeyService.stepUp("payout")
+    if (!stepUpToken) throw new Error("Add a passkey in Settings to confirm payouts with it")
+    return (await call({ action: "confirm", payoutId, stepUpToken })).payout
+  },
+}
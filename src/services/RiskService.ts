@@ -0,0 +1,48 @@
+import supabase from "../config/supabase"
+import type { RiskAssessment, RiskQueueFilters } from "../models/Risk"
+
+async function post(body: Record<string, unknown>, token?: string) {
+  const response = await fetch("/.netlify/functions/checkout-risk", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Checkout check failed")
+  return payload
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to review flagged purchases")
+  return post(body, token)
+}
+
+export default {
+  // SHA-256 of the captured photo; the photo itself never leaves the device here
+  async photoHash(uri: string): Promise<string | undefined> {
+    try {
+      if (!uri || typeof crypto === "undefined" || !crypto.subtle) return undefined
+      const bytes = await (await fetch(uri)).arrayBuffer()
+      const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))
+      return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("")
+    } catch (error) {
+      console.warn("RiskService: could not hash photo", error)
+      return undefined
+    }
+  },
+  // Buyer step-up for a held checkout; buyers may be signed out
+  async sendCode(assessmentId: string): Promise<{ email: string }> {
+    return post({ action: "send_code", assessmentId })
+  },
+  async verifyCode(assessmentId: string, code: string): Promise<void> {
+    await post({ action: "verify", assessmentId, code: code.trim() })
+  },
+  async queue(filters: RiskQueueFilters = {}): Promise<{ assessments: RiskAssessment[]; total: number }> {
+    return call({ action: "queue", filters })
+  },
+  async review(assessmentId: string, decision: "clear" | "fraud", note: string): Promise<RiskAssessment> {
+    return (await call({ action: "review", assessmentId, decision, note })).assessment
+  },
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { supabase } from "../config/supabase"
+import type { GateConfig } from "../utils/gateThroughput"
 
 export interface StaffToken {
   id: string
@@ -10,6 +11,8 @@ export interface StaffToken {
   created_at: string
   expires_at: string
   created_by?: string
+  gate_name?: string | null
+  allowed_entry_fees?: string[] | null
 }
 
 export interface StaffTokenRow {
@@ -20,6 +23,8 @@ export interface StaffTokenRow {
   created_at: string
   expires_at: string
   created_by?: string
+  gate_name?: string | null
+  allowed_entry_fees?: string[] | null
 }
 
 const StaffTokenService = {
@@ -41,7 +46,8 @@ const StaffTokenService = {
 
   async generateToken(
     eventSlug: string,
-    label?: string
+    label?: string,
+    gate?: GateConfig
   ): Promise<{ token: string; tokenId: string } | null> {
     const { data: { user }, error: sessionError } = await supabase.auth.getUser()
     if (sessionError || !user) {
@@ -58,6 +64,8 @@ const StaffTokenService = {
       .insert({
         event_id: eventSlug,
         label: label || null,
+        gate_name: gate?.gateName || null,
+        allowed_entry_fees: gate?.allowedEntryFees?.length ? gate.allowedEntryFees : null,
         expires_at: expiresAt.toISOString(),
         created_by: user.id,
       })
@@ -94,11 +102,12 @@ const StaffTokenService = {
     eventId?: string
     eventName?: string
     eventSlug?: string
+    gate?: GateConfig
     error?: string
   }> {
     const { data, error } = await supabase
       .from("event_staff_tokens")
-      .select("event_id, events(name, slug)")
+      .select("event_id, gate_name, allowed_entry_fees, events(name, slug)")
       .eq("token", token)
       .gt("expires_at", new Date().toISOString())
       .single()
@@ -117,6 +126,7 @@ const StaffTokenService = {
       eventId: data.event_id,
       eventName: eventInfo?.name,
       eventSlug: eventInfo?.slug,
+      gate: data.gate_name ? { gateName: data.gate_name, allowedEntryFees: data.allowed_entry_fees || undefined } : undefined,
     }
   },
 
@@ -7,6 +7,7 @@ import type { Venue } from "../models/Venue"
 import type { Event } from "../models/Event"
 import type { VibeImage } from "../models/VibeImage"
 import type { VenueOwnershipRequest } from "../models/VenueOwnershipRequest"
+import AuditLogService from "./AuditLogService"
 import { v4 as uuidv4 } from "uuid"
 
 // Responsive breakpoints for image loading optimization
@@ -15,6 +16,12 @@ const isSmallDevice = screenWidth < 380;
 const isTablet = screenWidth >= 768;
 const isLargeScreen = screenWidth >= 1024;
 
+// Payout fields worth keeping in the security audit log
+const PAYOUT_AUDIT_COLUMNS = "status, amount, approved_amount, admin_id, admin_note, transaction_reference, recipient_phone_number";
+
+// Vibe photos anyone can see: scored by the worker, or uploaded before it existed
+const PUBLIC_VIBE_FILTER = "scoring_status.is.null,scoring_status.eq.scored";
+
 // Generate slug from name
 export const generateSlug = (name: string): string => {
   return name
@@ -98,7 +105,7 @@ class SupabaseService {
     }
   }
 
-  async signIn(email: string, password: string): Promise<void> {
+  async signIn(email: string, password: string): Promise<User> {
     console.log("SupabaseService.signIn: Starting sign in for", email);
     try {
       const { data, error } = await supabase.auth.signInWithPassword({
@@ -111,7 +118,7 @@ class SupabaseService {
       console.log("SupabaseService.signIn: Sign in successful, UID:", data.user.id);
 
       // Ensure profile exists (handles edge case where profile was never created)
-      await this.ensureUserProfile(data.user);
+      return await this.ensureUserProfile(data.user);
     } catch (error) {
       console.error("SupabaseService.signIn: Error signing in:", error);
       throw error;
@@ -316,6 +323,7 @@ class SupabaseService {
             photoURL: doc.photo_url,
             venueId: doc.venue_slug,
             isFrozen: doc.is_frozen || false,
+            commissionRate: doc.commission_rate ?? null,
             createdAt: new Date(doc.created_at),
             lastLoginAt: new Date(doc.last_login_at),
           });
@@ -329,17 +337,21 @@ class SupabaseService {
     }
   }
 
-  async freezeUser(userId: string, isFrozen: boolean): Promise<void> {
+  async freezeUser(userId: string, isFrozen: boolean, reason?: string): Promise<void> {
     try {
-      const { error } = await supabase
+      const { data: before } = await supabase.from("users").select("is_frozen, frozen_at").eq("id", userId).maybeSingle();
+      const { data: after, error } = await supabase
         .from("users")
         .update({
           is_frozen: isFrozen,
           frozen_at: isFrozen ? new Date().toISOString() : null,
         })
-        .eq("id", userId);
+        .eq("id", userId)
+        .select("is_frozen, frozen_at")
+        .maybeSingle();
 
       if (error) throw error;
+      await AuditLogService.record({ action: isFrozen ? "user.freeze" : "user.unfreeze", targetType: "user", targetId: userId, before, after, reason });
 
       console.log("SupabaseService: User frozen status updated");
     } catch (error) {
@@ -348,9 +360,43 @@ class SupabaseService {
     }
   }
 
-  async deleteUser(userId: string): Promise<void> {
+  async getCommissionRate(userId: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabase
+        .from("users")
+        .select("commission_rate")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.commission_rate ?? null;
+    } catch (error) {
+      console.error("SupabaseService: Error fetching commission rate:", error);
+      return null;
+    }
+  }
+
+  async setCommissionRate(userId: string, commissionRate: number | null): Promise<void> {
     try {
       const { error } = await supabase
+        .from("users")
+        .update({ commission_rate: commissionRate })
+        .eq("id", userId);
+
+      if (error) throw error;
+
+      console.log("SupabaseService: Commission rate updated");
+    } catch (error) {
+      console.error("SupabaseService: Error updating commission rate:", error);
+      throw error;
+    }
+  }
+
+  async deleteUser(userId: string, reason?: string): Promise<void> {
+    try {
+      const columns = "is_deleted, deleted_at, email, display_name";
+      const { data: before } = await supabase.from("users").select(columns).eq("id", userId).maybeSingle();
+      const { data: after, error } = await supabase
         .from("users")
         .update({
           is_deleted: true,
@@ -358,9 +404,12 @@ class SupabaseService {
           email: `deleted_${Date.now()}@yovibe.app`,
           display_name: "Deleted User",
         })
-        .eq("id", userId);
+        .eq("id", userId)
+        .select(columns)
+        .maybeSingle();
 
       if (error) throw error;
+      await AuditLogService.record({ action: "user.delete", targetType: "user", targetId: userId, before, after, reason });
 
       console.log("SupabaseService: User soft deleted successfully");
     } catch (error) {
@@ -762,6 +811,8 @@ class SupabaseService {
             eventStatus: doc.event_status || "scheduled",
             postponedTo: doc.postponed_to ? new Date(doc.postponed_to) : undefined,
             lateFeePercent: doc.late_fee_percent ?? 0,
+            installmentTemplates: doc.installment_templates || [],
+            revenueShares: doc.revenue_shares || [],
           });
         });
       }
@@ -830,6 +881,8 @@ class SupabaseService {
         eventStatus: data.event_status || "scheduled",
         postponedTo: data.postponed_to ? new Date(data.postponed_to) : undefined,
         lateFeePercent: data.late_fee_percent ?? 0,
+        installmentTemplates: data.installment_templates || [],
+        revenueShares: data.revenue_shares || [],
       };
     } catch (error) {
       console.error("SupabaseService: Error getting event by slug:", error);
@@ -939,6 +992,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
             created_by_auth: sessionUser.id,
             created_by_type: eventData.createdByType,
             payment_methods: eventData.paymentMethods || { mobileMoney: [], bankAccounts: [] },
+            installment_templates: eventData.installmentTemplates || [],
             created_at: new Date().toISOString(),
             is_deleted: false,
             ticket_design: eventData.ticket_design,
@@ -1014,6 +1068,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
       if (data.eventStatus) updateData.event_status = data.eventStatus;
       if (data.postponedTo) updateData.postponed_to = data.postponedTo.toISOString();
       if (data.lateFeePercent !== undefined) updateData.late_fee_percent = data.lateFeePercent;
+      if (data.installmentTemplates) updateData.installment_templates = data.installmentTemplates;
 
       console.log("[SupabaseService.updateEvent]   updateData payload:", JSON.stringify(updateData))
 
@@ -1145,25 +1200,6 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
 
   // ============ Vibe Ratings & Images ============
 
-  async getLatestVibeRating(venueId: string): Promise<number | null> {
-    try {
-      const { data, error } = await supabase
-        .from("vibe_ratings")
-        .select("rating")
-        .eq("venue_slug", venueId)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error) return null;
-
-      return data?.rating || null;
-    } catch (error) {
-      console.error("SupabaseService: Error getting vibe rating:", error);
-      return null;
-    }
-  }
-
   async getVibeImagesByVenueAndDate(venueId: string, date: Date): Promise<VibeImage[]> {
     try {
       const startOfDay = new Date(date);
@@ -1175,6 +1211,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
         .from("vibe_images")
         .select("*")
         .eq("venue_slug", venueId)
+        .or(PUBLIC_VIBE_FILTER)
         .gte("uploaded_at", startOfDay.toISOString())
         .lte("uploaded_at", endOfDay.toISOString())
         .limit(100);
@@ -1188,9 +1225,12 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
             id: doc.slug,
             venueId: doc.venue_slug,
             imageUrl: doc.image_url,
-            vibeRating: doc.vibe_rating || Math.random() * 5,
+            vibeRating: doc.vibe_rating || 0,
             uploadedAt: new Date(doc.uploaded_at),
             uploadedBy: doc.uploaded_by,
+            analysisData: doc.analysis_data || undefined,
+            modelVersion: doc.model_version || undefined,
+            confidence: doc.confidence ?? undefined,
           });
         });
       }
@@ -1330,6 +1370,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
 
       const userId = requestData.user_id;
       const venueId = requestData.venue_slug;
+      const { data: previousUser } = await supabase.from("users").select("user_type, venue_slug").eq("id", userId).maybeSingle();
 
       // Update user to club_owner
       await supabase
@@ -1359,6 +1400,12 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
         })
         .eq("id", requestId);
 
+      await AuditLogService.record({
+        action: "ownership.approve", targetType: "ownership_request", targetId: requestId,
+        before: { status: requestData.status, user_type: previousUser?.user_type, venue_slug: previousUser?.venue_slug },
+        after: { status: "approved", user_type: "club_owner", venue_slug: venueId },
+        reason: reviewNote,
+      });
       console.log("SupabaseService: Ownership request approved");
     } catch (error) {
       console.error("SupabaseService: Error approving ownership request:", error);
@@ -1372,6 +1419,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
     reviewNote?: string
   ): Promise<void> {
     try {
+      const { data: before } = await supabase.from("venue_ownership_requests").select("status").eq("id", requestId).maybeSingle();
       const { error } = await supabase
         .from("venue_ownership_requests")
         .update({
@@ -1383,6 +1431,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
         .eq("id", requestId);
 
       if (error) throw error;
+      await AuditLogService.record({ action: "ownership.reject", targetType: "ownership_request", targetId: requestId, before, after: { status: "rejected" }, reason: reviewNote });
 
       console.log("SupabaseService: Ownership request rejected");
     } catch (error) {
@@ -1505,6 +1554,7 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
         .from("vibe_images")
         .select("*")
         .eq("venue_slug", venueId)
+        .or(PUBLIC_VIBE_FILTER)
         .order("uploaded_at", { ascending: false })
         .limit(100);
 
@@ -1525,6 +1575,9 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
           vibeRating: doc.vibe_rating || 0,
           uploadedAt: new Date(doc.uploaded_at),
           uploadedBy: doc.uploaded_by,
+          analysisData: doc.analysis_data || undefined,
+          modelVersion: doc.model_version || undefined,
+          confidence: doc.confidence ?? undefined,
         });
       });
 
@@ -1541,28 +1594,6 @@ async addEvent(eventData: Omit<Event, "id" | "slug">): Promise<string> {
     return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
   }
 
-  async addVibeImage(vibeImageData: Omit<VibeImage, "id">): Promise<string> {
-    try {
-      const { data, error } = await supabase
-        .from("vibe_images")
-        .insert({
-          venue_slug: vibeImageData.venueId,
-          image_url: vibeImageData.imageUrl,
-          vibe_rating: vibeImageData.vibeRating || 0,
-          uploaded_by: vibeImageData.uploadedBy,
-          uploaded_at: new Date().toISOString(),
-        })
-        .select("id")
-        .single();
-
-      if (error) throw error;
-      return data.id;
-    } catch (error) {
-      console.error("SupabaseService: Error adding vibe image:", error);
-      throw error;
-    }
-  }
-
   async saveEmailRecord(record: any): Promise<string> {
     try {
       const { data, error } = await supabase
@@ -1741,6 +1772,11 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
           ticketRef: row.ticket_ref || row.ticketRef || row.ticket_id || row.id,
           qrCodeDataUrl: row.qr_code_data_url || row.qrCodeDataUrl,
           qrSignature: row.qr_signature || row.qrSignature,
+          qrSecret: row.qr_secret || row.qrSecret || undefined,
+          transferHistory: row.transfer_history || row.transferHistory || [],
+          promoCode: row.promo_code ?? row.promoCode,
+          discountAmount: row.discount_amount ?? row.discountAmount,
+          pricePhase: row.price_phase ?? row.pricePhase,
           buyerPhotoUrl: row.buyer_photo_url || row.buyerPhotoUrl,
           status: row.status || "pending",
           validationHistory: row.validation_history || row.validationHistory || [],
@@ -1827,6 +1863,7 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
 
   // ============ Payouts & Wallets ============
 
+  // Cached balances; the ledger (organizer-ledger function) is the source of truth
   async getOrganizerWallet(organizerId: string): Promise<any | null> {
     try {
       const { data, error } = await supabase
@@ -1843,26 +1880,6 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
     }
   }
 
-  async createOrUpdateOrganizerWallet(organizerId: string, walletData: any): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from("organizer_wallets")
-        .upsert(
-          {
-            organizer_id: organizerId,
-            ...walletData,
-            last_updated: new Date().toISOString(),
-          },
-          { onConflict: "organizer_id" }
-        );
-
-      if (error) throw error;
-    } catch (error) {
-      console.error("SupabaseService: Error creating/updating organizer wallet:", error);
-      throw error;
-    }
-  }
-
   async savePayout(payout: any): Promise<string> {
     try {
       const { data, error } = await supabase
@@ -1968,8 +1985,10 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
         updated_at: new Date().toISOString(),
       };
       if (approvedAmount !== undefined) update.approved_amount = approvedAmount;
-      const { error } = await supabase.from("payouts").update(update).eq("id", payoutId);
+      const { data: before } = await supabase.from("payouts").select(PAYOUT_AUDIT_COLUMNS).eq("id", payoutId).maybeSingle();
+      const { data: after, error } = await supabase.from("payouts").update(update).eq("id", payoutId).select(PAYOUT_AUDIT_COLUMNS).maybeSingle();
       if (error) throw error;
+      await AuditLogService.record({ action: "payout.approve", targetType: "payout", targetId: payoutId, before, after });
     } catch (error) {
       console.error("SupabaseService: Error approving payout:", error);
       throw error;
@@ -1978,7 +1997,8 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
 
   async rejectPayout(payoutId: string, adminId: string, reason: string): Promise<void> {
     try {
-      const { error } = await supabase
+      const { data: before } = await supabase.from("payouts").select(PAYOUT_AUDIT_COLUMNS).eq("id", payoutId).maybeSingle();
+      const { data: after, error } = await supabase
         .from("payouts")
         .update({
           status: "rejected",
@@ -1986,8 +2006,11 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
           admin_note: reason,
           updated_at: new Date().toISOString(),
         })
-        .eq("id", payoutId);
+        .eq("id", payoutId)
+        .select(PAYOUT_AUDIT_COLUMNS)
+        .maybeSingle();
       if (error) throw error;
+      await AuditLogService.record({ action: "payout.reject", targetType: "payout", targetId: payoutId, before, after, reason });
     } catch (error) {
       console.error("SupabaseService: Error rejecting payout:", error);
       throw error;
@@ -1996,7 +2019,8 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
 
   async completePayout(payoutId: string, adminId: string, transactionReference: string, notes?: string): Promise<void> {
     try {
-      const { error } = await supabase
+      const { data: before } = await supabase.from("payouts").select(PAYOUT_AUDIT_COLUMNS).eq("id", payoutId).maybeSingle();
+      const { data: after, error } = await supabase
         .from("payouts")
         .update({
           status: "completed",
@@ -2006,8 +2030,11 @@ async updateTicket(ticketId: string, data: any): Promise<void> {
           processed_date: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
-        .eq("id", payoutId);
+        .eq("id", payoutId)
+        .select(PAYOUT_AUDIT_COLUMNS)
+        .maybeSingle();
       if (error) throw error;
+      await AuditLogService.record({ action: "payout.complete", targetType: "payout", targetId: payoutId, before, after, reason: notes });
     } catch (error) {
       console.error("SupabaseService: Error completing payout:", error);
       throw error;
@@ -0,0 +1,88 @@
+import supabase from "../config/supabase"
+import type { EventAccess, Organization, TeamAuditEntry, TeamMember } from "../models/Team"
+import type { GateConfig } from "../utils/gateThroughput"
+
+export interface TeamMembership extends TeamMember {
+  organization: Organization | null
+}
+
+export interface TeamEvent {
+  eventId: string
+  name: string
+  date: string
+  team: string
+  role: TeamMember["role"]
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to manage your team")
+  const response = await fetch("/.netlify/functions/team", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Team operation failed")
+  return payload
+}
+
+export default {
+  // My own team plus the teams (and pending invites) I belong to
+  async getMine(): Promise<{ organization: Organization | null; members: TeamMember[]; memberships: TeamMembership[] }> {
+    return call({ action: "mine" })
+  },
+  async rename(name: string): Promise<Organization> {
+    return (await call({ action: "rename", name })).organization
+  },
+  async invite(email: string, role: TeamMember["role"]): Promise<TeamMember> {
+    return (await call({ action: "invite", email, role })).member
+  },
+  async updateRole(memberId: string, role: TeamMember["role"]): Promise<TeamMember> {
+    return (await call({ action: "update_role", memberId, role })).member
+  },
+  async remove(memberId: string): Promise<void> {
+    await call({ action: "remove", memberId })
+  },
+  async respond(memberId: string, accept: boolean): Promise<TeamMember> {
+    return (await call({ action: accept ? "accept" : "decline", memberId })).member
+  },
+  async getTeamEvents(): Promise<TeamEvent[]> {
+    return (await call({ action: "team_events" })).events
+  },
+  async getAuditLog(eventId?: string, limit = 100): Promise<TeamAuditEntry[]> {
+    return (await call({ action: "audit", eventId, limit })).entries
+  },
+  // Null when the signed-in user has no role on the event
+  async getEventAccess(eventId: string): Promise<EventAccess | null> {
+    try {
+      return (await call({ action: "event_access", eventId })).access
+    } catch {
+      return null
+    }
+  },
+
+  // Sensitive event actions; the server checks the role and records who did it
+  async setEventStatus(eventId: string, status: "cancelled" | "postponed", postponedTo?: Date) {
+    return call({ action: "set_event_status", eventId, status, postponedTo: postponedTo?.toISOString() })
+  },
+  async grantReentry(eventId: string, ticketId: string, grantedByName: string) {
+    return (await call({ action: "grant_reentry", eventId, ticketId, grantedByName })).reentryPass
+  },
+  async createStaffToken(eventId: string, label?: string, gate?: GateConfig) {
+    return (await call({
+      action: "create_staff_token", eventId, label, gateName: gate?.gateName, allowedEntryFees: gate?.allowedEntryFees,
+    })).token
+  },
+  async revokeStaffToken(eventId: string, tokenId: string): Promise<void> {
+    await call({ action: "revoke_staff_token", eventId, tokenId })
+  },
+  // Team members' withdrawals go to the owner's saved details after review
+  async requestPayout(eventId: string, ticketIds: string[]): Promise<any[]> {
+    return (await call({ action: "request_payout", eventId, ticketIds })).payouts
+  },
+  async recordPayout(eventId: string, payoutId: string): Promise<void> {
+    await call({ action: "record_payout", eventId, payoutId })
+  },
+}
@@ -5,10 +5,19 @@
  *
  * HMAC-SHA256 ensures the QR code cannot be forged without the server secret.
  * Secret is read from environment variable QR_HMAC_SECRET with a fallback in dev.
+ *
+ * Rotating (live) format: https://yovibe.net/t/{uuid}?w={window}&c={code}
+ * The code is an HMAC of `uuid:window` under a per-ticket secret and changes
+ * every QR_ROTATION_PERIOD_MS, so screenshots stop working within a minute.
  */
 
 const SECRET = process.env.QR_HMAC_SECRET || process.env.EXPO_PUBLIC_QR_HMAC_SECRET || ""
 
+export const QR_ROTATION_PERIOD_MS = 30 * 1000
+
+// Windows either side of "now" still accepted at the door (clock drift between phone and scanner)
+export const QR_ROTATION_SKEW = Math.max(0, parseInt(process.env.EXPO_PUBLIC_QR_ROTATION_SKEW || "1", 10) || 0)
+
 function hexToBytes(hex: string): Uint8Array {
   const bytes = new Uint8Array(hex.length / 2)
   for (let i = 0; i < hex.length; i += 2) bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16)
@@ -157,7 +166,7 @@ export function generateQRPayload(ticketId: string): { url: string; signature: s
  * Parse and verify a QR code payload URL.
  * Returns the ticketId on success, null on forgery/parse failure.
  */
-export function parseAndVerifyQR(decodedText: string): { ticketId: string } | null {
+export function parseAndVerifyQR(decodedText: string): { ticketId: string; rotating?: { window: number; code: string } } | null {
   try {
     // Format: https://yovibe.net/t/{ticketId}?s={sig}&ts={ts}
     const url = new URL(decodedText)
@@ -165,6 +174,17 @@ export function parseAndVerifyQR(decodedText: string): { ticketId: string } | nu
     if (!pathMatch) return null
 
     const ticketId = pathMatch[1]
+
+    // Rotating format — the code itself is checked against the ticket's secret
+    // once the ticket is loaded; here we only reject windows outside the skew.
+    const windowParam = url.searchParams.get("w")
+    const code = url.searchParams.get("c")
+    if (windowParam && code) {
+      const window = parseInt(windowParam, 10)
+      if (isNaN(window) || Math.abs(window - currentQRWindow()) > QR_ROTATION_SKEW) return null
+      return { ticketId, rotating: { window, code } }
+    }
+
     const signature = url.searchParams.get("s")
     const tsParam = url.searchParams.get("ts")
     if (!signature || !tsParam) return null
@@ -197,3 +217,72 @@ export function generateQRSignature(ticketId: string): string {
   const issuedAt = Date.now()
   return generateSignature(ticketId, issuedAt)
 }
+
+/**
+ * Sign an arbitrary payload string (used for offline door manifests).
+ * Produces the same base64url HMAC-SHA256 as Node's crypto with QR_HMAC_SECRET.
+ */
+export function signPayload(payload: string): string {
+  const keyBytes = new TextEncoder().encode(SECRET || "dev-secret-change-in-production")
+  return bytesToBase64url(hmacSha256(keyBytes, new TextEncoder().encode(payload)))
+}
+
+/** Verify a payload signature produced by signPayload (constant-time comparison) */
+export function verifyPayloadSignature(payload: string, signature: string): boolean {
+  const expected = signPayload(payload)
+  if (expected.length !== signature.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  return diff === 0
+}
+
+// ── Rotating QR codes ────────────────────────────────────────────────────────
+
+/**
+ * SHA-256 (hex) of a ticket's QR code. Door manifests carry only this, so a
+ * downloaded manifest cannot be turned back into working tickets.
+ */
+export function hashQRCode(qrCode: string): string {
+  return bytesToHex(sha256(new TextEncoder().encode(qrCode)))
+}
+
+/** Random 256-bit per-ticket secret (hex) for rotating QR codes */
+export function generateRotatingSecret(): string {
+  const bytes = new Uint8Array(32)
+  globalThis.crypto.getRandomValues(bytes)
+  return bytesToHex(bytes)
+}
+
+/** Index of the 30-second window containing `now` */
+export function currentQRWindow(now: number = Date.now()): number {
+  return Math.floor(now / QR_ROTATION_PERIOD_MS)
+}
+
+function rotatingCode(qrCode: string, secret: string, window: number): string {
+  const message = new TextEncoder().encode(`${qrCode}:${window}`)
+  return bytesToBase64url(hmacSha256(hexToBytes(secret), message)).slice(0, 16)
+}
+
+/** Build the live QR payload for the current window, plus how long it stays current */
+export function generateRotatingQRPayload(qrCode: string, secret: string, now: number = Date.now()): { url: string; window: number; expiresInMs: number } {
+  const window = currentQRWindow(now)
+  const url = `https://yovibe.net/t/${qrCode}?w=${window}&c=${rotatingCode(qrCode, secret, window)}`
+  return { url, window, expiresInMs: (window + 1) * QR_ROTATION_PERIOD_MS - now }
+}
+
+/** Verify a rotating code: the window must be within `skew` of now and the code must match */
+export function verifyRotatingCode(
+  qrCode: string,
+  secret: string,
+  window: number,
+  code: string,
+  now: number = Date.now(),
+  skew: number = QR_ROTATION_SKEW,
+): boolean {
+  if (Math.abs(window - currentQRWindow(now)) > skew) return false
+  const expected = rotatingCode(qrCode, secret, window)
+  if (expected.length !== code.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ code.charCodeAt(i)
+  return diff === 0
+}
@@ -4,14 +4,20 @@ import PesaPalService from "./PesaPalService"
 import PawaPayService from "./PawaPayService"
 import NotificationService from "./NotificationService"
 import SupabaseService from "./SupabaseService"
+import WaitlistService from "./WaitlistService"
+import PromoCodeService from "./PromoCodeService"
+import RevenueShareService from "./RevenueShareService"
 import { uploadQRCode, uploadBuyerPhoto } from "./R2Service"
 import { v4 as uuidv4 } from "uuid"
 import type { Ticket, TicketValidation, PaymentIntent } from "../models/Ticket"
 import type { Event } from "../models/Event"
-import type { PendingFulfillment, CreateFulfillmentInput } from "../models/PendingFulfillment"
+import type { PendingFulfillment, CreateFulfillmentInput, FulfillmentAttempt } from "../models/PendingFulfillment"
 import QRCode from "qrcode"
 import { deriveTicketRef } from "../utils/ticketRef"
-import { generateQRPayload, parseAndVerifyQR } from "./TicketQRService"
+import { resolveEventStartTime } from "../utils/eventTime"
+import { quoteFromTotal, quoteTicketPrice } from "../utils/pricing"
+import { generateQRPayload, generateRotatingSecret, parseAndVerifyQR, verifyRotatingCode } from "./TicketQRService"
+import { isEntryFeeAllowedAtGate, type GateConfig } from "../utils/gateThroughput"
 
 const FUNCTIONS_BASE_URL =
   process.env.NEXT_PUBLIC_FUNCTIONS_BASE_URL ||
@@ -19,36 +25,20 @@ const FUNCTIONS_BASE_URL =
   process.env.NEXT_PUBLIC_SITE_URL ||
   ""
 
-/**
- * Parse the start time out of the event's human-readable `time` text (e.g.
- * "08:00 PM - 11:00 PM", "8:00 pm - 11:00 pm", "20:00 - 23:00", "20:00").
- * Returns null when the text cannot be parsed, in which case the caller
- * falls back to the date-only value.
- */
-function parseStartTime(text?: string): { hour: number; minute: number } | null {
-  if (!text) return null
-  const first = String(text).split("-")[0].trim()
-  const match = first.match(/(\d{1,2}):(\d{2})\s*(AM|PM|am|pm)?/)
-  if (!match) return null
-  let hour = parseInt(match[1], 10)
-  const minute = parseInt(match[2], 10)
-  const meridiem = (match[3] || "").toUpperCase()
-  if (meridiem === "PM" && hour < 12) hour += 12
-  if (meridiem === "AM" && hour === 12) hour = 0
-  if (hour > 23 || minute > 59) return null
-  return { hour, minute }
+// The columns a payout request reads straight off the tickets table
+interface PayoutTicketRow {
+  id: string
+  event_slug: string
+  venue_revenue: number | null
+  payout_eligible: boolean | null
+  payout_status: string | null
 }
 
-// Build the ticket's event start time by combining the event date with the
-// start time parsed from the DB `events.time` text (which is the source of
-// truth for the time of day).
-function resolveEventStartTime(event: Event): Date {
-  const base = new Date(event.date || Date.now())
-  const parsed = parseStartTime(event.time)
-  if (parsed) {
-    base.setHours(parsed.hour, parsed.minute, 0, 0)
-  }
-  return base
+// supabase-js turns a dropped connection into an error object rather than a rejection,
+// so it has to be recognised by its message
+function isNetworkFailure(error: any): boolean {
+  if (error instanceof TypeError) return true
+  return /failed to fetch|fetch failed|network ?request failed|networkerror|load failed/i.test(String(error?.message || error || ""))
 }
 
 async function withRetry<T>(
@@ -94,6 +84,9 @@ export class TicketService {
       paymentReference?: string
       pesapalTransactionId?: string
       pesapalConfirmationCode?: string
+      promoCode?: string
+      discountAmount?: number
+      pricePhase?: string
     },
   ): Promise<Ticket[]> {
     return this.purchaseTicketsForTable(event, buyerNames, [buyerEmail], quantity, false, 1, quantity, buyerPhotoUrl, totalAmount, paymentDetails)
@@ -123,6 +116,9 @@ export class TicketService {
       paymentReference?: string
       pesapalTransactionId?: string
       pesapalConfirmationCode?: string
+      promoCode?: string
+      discountAmount?: number
+      pricePhase?: string
     },
     buyerId?: string | null,
     payerEmail?: string,
@@ -166,7 +162,9 @@ export class TicketService {
           1,
           buyerPhotoUrl,
           totalAmount / ticketsPerPurchase,
-          paymentDetails,
+          paymentDetails?.discountAmount
+            ? { ...paymentDetails, discountAmount: paymentDetails.discountAmount / ticketsPerPurchase }
+            : paymentDetails,
           i === 0,
           tableTotal,
           tableGroupId,
@@ -182,6 +180,17 @@ export class TicketService {
         createdTickets.push(ticket)
       }
 
+      if (paymentDetails?.promoCode) {
+        await PromoCodeService.recordRedemption({
+          eventId: event.id,
+          code: paymentDetails.promoCode,
+          paymentReference: paymentDetails.paymentReference || sharedPaymentId,
+          ticketType: paymentDetails.ticketType,
+          discountAmount: paymentDetails.discountAmount || 0,
+          buyerEmail: payerEmailFinal,
+        })
+      }
+
       console.log("\n========================================")
       console.log("🎫 BULK TICKET PURCHASE COMPLETED")
       console.log("========================================")
@@ -215,6 +224,9 @@ export class TicketService {
       paymentReference?: string
       pesapalTransactionId?: string
       pesapalConfirmationCode?: string
+      promoCode?: string
+      discountAmount?: number
+      pricePhase?: string
     },
   ): Promise<Ticket> {
     try {
@@ -270,6 +282,9 @@ export class TicketService {
       paymentReference?: string
       pesapalTransactionId?: string
       pesapalConfirmationCode?: string
+      promoCode?: string
+      discountAmount?: number
+      pricePhase?: string
     },
     shouldCreatePaymentIntent: boolean = true,
     tableTotalAmount?: number,
@@ -292,34 +307,32 @@ export class TicketService {
     const eventStartTime = resolveEventStartTime(event)
     console.log("📅 Event start time:", eventStartTime)
     
-    let pricing
-    if (totalAmount !== undefined && totalAmount > 0) {
-      const perTicketBasePrice = totalAmount
-      const lateFeePct = (event as any).lateFeePercent ?? 0
-      const sevenAm = new Date(eventStartTime)
-      sevenAm.setHours(7, 0, 0, 0)
-      const isLatePurchase = new Date() >= sevenAm
-      const lateFee = isLatePurchase ? Math.round(perTicketBasePrice * lateFeePct / 100) : 0
-      pricing = { 
-        subtotal: perTicketBasePrice, 
-        lateFee, 
-        total: totalAmount, 
-        isLatePurchase 
-      }
-      console.log("💰 Using provided totalAmount:", totalAmount)
-    } else {
-      pricing = PesaPalService.calculateTicketPrice(basePrice, 1, eventStartTime)
+    const commissionRate = event.createdBy ? await SupabaseService.getCommissionRate(event.createdBy) : null
+    const quoteOptions = {
+      eventStartTime,
+      lateFeePercent: event.lateFeePercent,
+      discount: paymentDetails?.discountAmount,
+      paymentMethod: paymentDetails?.method,
+      commissionRate,
     }
-    
-    const { subtotal, lateFee, total, isLatePurchase } = pricing
-    const { appCommission, venueRevenue } = PaymentService.calculateRevenueSplit(total)
+
+    // A promo code can take an order down to zero, which is still a provided total
+    const pricing = totalAmount !== undefined && (totalAmount > 0 || !!paymentDetails?.promoCode)
+      ? quoteFromTotal(totalAmount, quoteOptions)
+      : quoteTicketPrice({ ...quoteOptions, unitPrice: basePrice, quantity: 1 })
+    if (totalAmount !== undefined) console.log("💰 Using provided totalAmount:", totalAmount)
+
+    const { subtotal, discount, lateFee, total, isLatePurchase, gatewayFee } = pricing
+    const appCommission = pricing.commission
+    const venueRevenue = pricing.organiserNet
 
     console.log("💰 Pricing calculated:")
     console.log("   - Subtotal:", subtotal)
+    console.log("   - Discount:", discount)
     console.log("   - Late Fee:", lateFee)
     console.log("   - Total:", total)
     console.log("   - Is Late Purchase:", isLatePurchase)
-    console.log("   - App Commission (15%):", appCommission)
+    console.log(`   - App Commission (${Math.round(pricing.commissionRate * 100)}%):`, appCommission)
     console.log("   - Venue Revenue:", venueRevenue)
 
     let paymentIntent: PaymentIntent | undefined
@@ -368,15 +381,9 @@ export class TicketService {
     const ticketId = uuidv4()
     const isTableEntry = !!tableGroupId
     const ticketRef = deriveTicketRef(ticketId, isTableEntry)
+    const entryFeeType = paymentDetails?.ticketType || (event.entryFees && event.entryFees.length > 0 ? event.entryFees[0].name : "Standard")
+    const rotatingQR = !!event.entryFees?.find((fee) => fee.name === entryFeeType)?.rotatingQR
     
-    // Calculate gateway fee per payment method
-    // Card: 3.4% of total, Mobile money: 3% of total
-    const gatewayFee = paymentDetails?.method === "credit_card"
-      ? Math.round(total * 0.034 * 100) / 100
-      : paymentDetails?.method === "mobile_money"
-        ? Math.round(total * 0.03 * 100) / 100
-        : 0
-
     // Use shared payment ID for the purchase, or fall back to the payment intent ID
     const paymentId = sharedPaymentId || paymentIntent?.id || `pi_${Date.now()}`
 
@@ -405,7 +412,7 @@ export class TicketService {
       tableSize: isTableEntry ? tableSize : undefined,
       seatNumber: tableNumber != null ? undefined : seatNumber,
       tableNumber: tableNumber ?? undefined,
-      basePrice: subtotal,
+      basePrice: subtotal - discount,
       lateFee: lateFee,
       venueRevenue,
       appCommission,
@@ -416,6 +423,7 @@ export class TicketService {
       qrCode: qrCodeResult.qrCode,
       qrCodeDataUrl: qrCodeResult.qrCodeDataUrl,
       qrSignature: qrCodeResult.qrSignature,
+      qrSecret: rotatingQR ? generateRotatingSecret() : undefined,
       expiresAt: qrCodeResult.expiresAt,
       buyerPhotoUrl,
       photoUploadToken,
@@ -424,7 +432,7 @@ export class TicketService {
       // reported COMPLETED, so they are always active rather than pending.
       status: "active",
       validationHistory: [],
-      entryFeeType: paymentDetails?.ticketType || (event.entryFees && event.entryFees.length > 0 ? event.entryFees[0].name : "Standard"),
+      entryFeeType,
       isLatePurchase,
       isScanned: false,
       payoutEligible: false,
@@ -438,6 +446,9 @@ export class TicketService {
       paymentName,
       pesapalTransactionId: paymentDetails?.method !== "mobile_money" ? paymentIntent?.paymentId || paymentDetails?.pesapalTransactionId || `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` : undefined,
       pesapalConfirmationCode: paymentDetails?.pesapalConfirmationCode,
+      promoCode: paymentDetails?.promoCode,
+      discountAmount: paymentDetails?.discountAmount,
+      pricePhase: paymentDetails?.pricePhase,
     }
 
     console.log("📝 Ticket object created:")
@@ -509,9 +520,12 @@ export class TicketService {
     ticketId: string,
     validatorId: string,
     location?: string,
+    gate?: GateConfig,
+    options?: { allowStaticFallback?: boolean },
   ): Promise<{ 
     success: boolean; 
     reason?: string;
+    requiresLiveQR?: boolean;
     needsPhotoVerification?: boolean;
     buyerPhotoUrl?: string;
     buyerName?: string;
@@ -523,6 +537,8 @@ export class TicketService {
     entryFeeType?: string;
     seatNumber?: number;
     tableNumber?: number;
+    // The server could not be reached; the scanner may fall back to its offline manifest
+    networkError?: boolean;
   }> {
     try {
       console.log("========================================")
@@ -535,11 +551,16 @@ export class TicketService {
       // Rejects forged QR codes without a DB round-trip
       let qrCodeValue = ticketId
       let scanningEventId: string | undefined
+      let rotating: { window: number; code: string } | undefined
 
       const parsed = parseAndVerifyQR(ticketId)
       if (parsed) {
         qrCodeValue = parsed.ticketId
-        console.log("📋 QR verified cryptographically — ticketId:", qrCodeValue)
+        rotating = parsed.rotating
+        console.log(rotating ? "📋 Rotating QR — window:" : "📋 QR verified cryptographically — ticketId:", rotating ? rotating.window : qrCodeValue)
+      } else if (/[?&]w=\d+&c=/.test(ticketId)) {
+        // Rotating payload outside the accepted window — almost always a screenshot
+        return { success: false, reason: "QR code has expired — ask the attendee to open their live ticket" }
       } else {
         // Fallback: raw string lookup (legacy tickets without HMAC)
         console.log("📋 QR not in signed URL format — trying legacy fallback...")
@@ -577,10 +598,34 @@ export class TicketService {
 
       console.log("✅ Ticket found: ID:", t.id, "Status:", t.status, "Event:", t.eventName)
 
+      // Step 1b: Gate restriction — staff links bound to a gate only admit their ticket types
+      if (gate && !isEntryFeeAllowedAtGate(gate, t.entryFeeType)) {
+        const reason = `${t.entryFeeType || "This ticket"} is not admitted at ${gate.gateName}`
+        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate.gateName, status: "denied", reason })
+        return { success: false, reason, ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
+      }
+
+      // Step 1c: Rotating QR — live codes must match the ticket secret; the static
+      // PDF/email code is only a fallback that door staff accept explicitly
+      let usedStaticFallback = false
+      if (rotating) {
+        if (!t.qrSecret || !verifyRotatingCode(t.qrCode, t.qrSecret, rotating.window, rotating.code)) {
+          const reason = "QR code has expired — ask the attendee to open their live ticket"
+          await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate?.gateName, status: "denied", reason })
+          return { success: false, reason, ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
+        }
+      } else if (t.qrSecret) {
+        if (!options?.allowStaticFallback) {
+          return { success: false, requiresLiveQR: true, reason: "This ticket uses a live QR code — ask for the code in the YoVibe app", ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
+        }
+        usedStaticFallback = true
+        console.log("⚠️ Static fallback code accepted by door staff")
+      }
+
       // Step 2: Check if expired
       if (t.expiresAt && new Date(t.expiresAt) < now) {
         await supabase.from("tickets").update({ status: "expired" }).eq("id", t.id)
-        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, status: "denied", reason: "Ticket has expired" })
+        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate?.gateName, status: "denied", reason: "Ticket has expired" })
         return { success: false, reason: "Ticket has expired", ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
       }
 
@@ -600,6 +645,7 @@ export class TicketService {
             validatedAt: now,
             validatedBy: validatorId,
             location,
+            gate: gate?.gateName,
             status: "granted",
             reason: `Re-entry authorised by ${t.reentryPass.grantedByName}`,
           })
@@ -617,13 +663,13 @@ export class TicketService {
           }
         }
         const reason = t.status === "used" ? "Ticket already used" : t.status === "cancelled" ? "Ticket was cancelled" : "Invalid ticket status"
-        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, status: "denied", reason })
+        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate?.gateName, status: "denied", reason })
         return { success: false, reason, ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
       }
 
       // Step 4: Verify event
       if (scanningEventId && t.eventId !== scanningEventId) {
-        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, status: "denied", reason: "Wrong event" })
+        await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate?.gateName, status: "denied", reason: "Wrong event" })
         return { success: false, reason: "Ticket is for a different event", ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
       }
 
@@ -692,7 +738,7 @@ console.error("❌ Error details:", updateError.details)
       }
 
       // Step 7: Log validation
-      await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, status: "granted" })
+      await this.logValidation({ id: `val_${Date.now()}`, ticketId: t.id, eventId: t.eventId, validatedAt: now, validatedBy: validatorId, location, gate: gate?.gateName, status: "granted", reason: usedStaticFallback ? "Static fallback code accepted by door staff" : undefined })
       
       console.log("========================================")
       console.log("🔍 TICKET VALIDATION SUCCESSFUL")
@@ -700,41 +746,13 @@ console.error("❌ Error details:", updateError.details)
       return { success: true, ticketRef: t.ticketRef, entryFeeType: t.entryFeeType, seatNumber: t.seatNumber, tableNumber: t.tableNumber, buyerName: t.buyerName }
     } catch (error: any) {
       console.error("❌ Error validating ticket:", error?.message || error)
+      if (isNetworkFailure(error)) {
+        return { success: false, networkError: true, reason: "Could not reach the server — check the connection and scan again" }
+      }
       return { success: false, reason: error?.message || "Validation failed" }
     }
   }
 
-  static async grantReentryPass(
-    ticketId: string,
-    grantedById: string,
-    grantedByName: string,
-  ): Promise<{ success: boolean; error?: string }> {
-    try {
-      const { data: ticket, error: fetchErr } = await supabase
-        .from("tickets")
-        .select("id, status, buyer_name")
-        .eq("id", ticketId)
-        .single()
-      if (fetchErr || !ticket) return { success: false, error: "Ticket not found" }
-      if (ticket.status !== "used") return { success: false, error: "Ticket has not been scanned yet" }
-      const { error } = await supabase
-        .from("tickets")
-        .update({
-          reentry_pass: {
-            grantedAt: new Date().toISOString(),
-            grantedBy: grantedById,
-            grantedByName,
-            used: false,
-          },
-        })
-        .eq("id", ticketId)
-      if (error) throw error
-      return { success: true }
-    } catch (e: any) {
-      return { success: false, error: e.message || "Failed to grant re-entry" }
-    }
-  }
-
   static async findTicketByRef(
     eventSlug: string,
     query: string,
@@ -765,6 +783,7 @@ console.error("❌ Error details:", updateError.details)
     validatorId: string,
     location?: string,
     eventId?: string,
+    gateName?: string,
   ): Promise<{ success: boolean; reason?: string }> {
     try {
       console.log("========================================")
@@ -819,6 +838,7 @@ console.error("❌ Error details:", updateError.details)
         validatedAt: now,
         validatedBy: validatorId,
         location,
+        gate: gateName,
         status: "granted",
         reason: "Photo verification confirmed - entry granted",
       }
@@ -860,17 +880,16 @@ console.error("❌ Error details:", updateError.details)
 
       // Step 1: Verify tickets are eligible for payout
       console.log("--- Step 1: Verifying ticket eligibility ---")
-      const eligibleTickets: Ticket[] = []
-      
-      for (const ticketId of ticketIds) {
-        // Skip fetching — use the provided ticket data or skip
-      }
-      
+      const eligibleTickets: PayoutTicketRow[] = []
+
       if (ticketIds.length > 0) {
-        const { data: tickets } = await supabase.from("tickets").select("*").in("id", ticketIds)
+        const { data: tickets } = await supabase.from("tickets")
+          .select("id, event_slug, venue_revenue, payout_eligible, payout_status")
+          .in("id", ticketIds)
+          .returns<PayoutTicketRow[]>()
         for (const ticket of tickets || []) {
           if (ticket.payout_eligible && ticket.payout_status === "pending") {
-            eligibleTickets.push(ticket as any)
+            eligibleTickets.push(ticket)
             console.log("   ✅ Ticket", ticket.id, "eligible for payout")
           } else {
             console.log("   ❌ Ticket", ticket.id, "not eligible")
@@ -883,7 +902,21 @@ console.error("❌ Error details:", updateError.details)
         return { success: false, error: "No eligible tickets for payout" }
       }
 
-      const eligibleAmount = eligibleTickets.reduce((sum, t) => sum + t.venueRevenue, 0)
+      // Shared events pay each beneficiary separately, once they confirm their share
+      // Tickets key their event by slug, or by id for events without one
+      const eventKey = eligibleTickets[0].event_slug
+      let { data: eventRow } = await supabase.from("events").select("revenue_shares").eq("slug", eventKey).maybeSingle()
+      if (!eventRow) {
+        const fallback = await supabase.from("events").select("revenue_shares").eq("id", eventKey).maybeSingle()
+        eventRow = fallback.data
+      }
+      if (eventRow?.revenue_shares?.length) {
+        console.log("--- Event shares revenue: splitting into one payout per beneficiary ---")
+        const payouts = await RevenueShareService.requestPayouts(eventKey, eligibleTickets.map((t) => t.id))
+        return { success: true, payoutId: payouts.find((p) => p.organizer_id === organizerId)?.id }
+      }
+
+      const eligibleAmount = eligibleTickets.reduce((sum, t) => sum + Number(t.venue_revenue || 0), 0)
       console.log("   - Eligible tickets:", eligibleTickets.length)
       console.log("   - Eligible amount:", eligibleAmount, "UGX")
 
@@ -968,6 +1001,11 @@ console.error("❌ Error details:", updateError.details)
       qrCode: row.qr_code || row.qrCode,
       qrCodeDataUrl: row.qr_code_data_url || row.qrCodeDataUrl,
       qrSignature: row.qr_signature || row.qrSignature,
+      qrSecret: row.qr_secret || row.qrSecret || undefined,
+      transferHistory: row.transfer_history || row.transferHistory || [],
+      promoCode: row.promo_code ?? row.promoCode,
+      discountAmount: row.discount_amount ?? row.discountAmount,
+      pricePhase: row.price_phase ?? row.pricePhase,
       buyerPhotoUrl: row.buyer_photo_url || row.buyerPhotoUrl,
       status: row.status || "pending",
       validationHistory: row.validation_history || row.validationHistory || [],
@@ -1077,6 +1115,7 @@ console.error("❌ Error details:", updateError.details)
         validatedAt: validation.validatedAt.toISOString(),
         validatedBy: validation.validatedBy,
         location: validation.location || null,
+        gate: validation.gate || null,
         status: validation.status,
         reason: validation.reason || null,
         event_slug: validation.eventId,
@@ -1125,10 +1164,30 @@ console.error("❌ Error details:", updateError.details)
 
  // ============ Pending Fulfillment Safety Net ============
 
+  /**
+   * Record a purchase before the payment is initiated, with everything
+   * the fulfillment worker needs to issue the tickets once it is confirmed.
+   */
   static async createPendingFulfillment(input: CreateFulfillmentInput): Promise<string> {
+    // The worker cannot read a local camera capture, so store the photo first
+    let order = input.order
+    if (order.buyerPhotoUrl && !/^https?:\/\//.test(order.buyerPhotoUrl)) {
+      try {
+        const upload = await withRetry(
+          () => uploadBuyerPhoto(order.buyerPhotoUrl!, `order-${input.paymentId}`),
+          { maxAttempts: 3, baseDelayMs: 500 }
+        )
+        order = { ...order, buyerPhotoUrl: upload.url }
+      } catch (error) {
+        console.error("Buyer photo upload failed; tickets will ask for one by email", error)
+        order = { ...order, buyerPhotoUrl: "" }
+      }
+    }
+
     const fulfillment: Omit<PendingFulfillment, "id"> = {
       paymentId: input.paymentId,
       pawapayDepositId: input.pawapayDepositId,
+      pesapalTrackingId: input.pesapalTrackingId,
       buyerEmail: input.buyerEmail,
       buyerName: input.buyerName,
       buyerId: input.buyerId,
@@ -1137,8 +1196,10 @@ console.error("❌ Error details:", updateError.details)
       ticketType: input.ticketType,
       quantity: input.quantity ?? 1,
       amount: input.amount,
-      status: "payment_confirmed",
+      status: "awaiting_payment",
+      order,
       ticketIds: [],
+      emailedTicketIds: [],
       attemptCount: 0,
       attendeeNames: input.attendeeNames,
       created_at: new Date(),
@@ -1150,6 +1211,7 @@ console.error("❌ Error details:", updateError.details)
       .insert({
         payment_id: fulfillment.paymentId,
         pawapay_deposit_id: fulfillment.pawapayDepositId,
+        pesapal_tracking_id: fulfillment.pesapalTrackingId,
         buyer_email: fulfillment.buyerEmail,
         buyer_name: fulfillment.buyerName,
         buyer_id: fulfillment.buyerId,
@@ -1159,7 +1221,9 @@ console.error("❌ Error details:", updateError.details)
         quantity: fulfillment.quantity,
         amount: fulfillment.amount,
         status: fulfillment.status,
+        order: fulfillment.order,
         ticket_ids: fulfillment.ticketIds,
+        emailed_ticket_ids: fulfillment.emailedTicketIds,
         attempt_count: fulfillment.attemptCount,
         attendee_names: fulfillment.attendeeNames,
         created_at: fulfillment.created_at.toISOString(),
@@ -1202,6 +1266,29 @@ console.error("❌ Error details:", updateError.details)
     if (error) throw error
   }
 
+  /**
+   * Abandon a stranded purchase (e.g. the buyer was refunded out of band).
+   * Any tickets it left pending are cancelled and the freed spots go to the
+   * event's waitlist.
+   */
+  static async cancelFulfillment(fulfillment: PendingFulfillment, adminEmail: string): Promise<void> {
+    if (fulfillment.ticketIds?.length) {
+      const { error } = await supabase
+        .from("tickets")
+        .update({ status: "cancelled" })
+        .in("id", fulfillment.ticketIds)
+        .eq("status", "pending")
+      if (error) throw error
+    }
+
+    await this.updateFulfillmentStatus(fulfillment.id, "cancelled", {
+      adminResolvedBy: adminEmail,
+      adminResolvedAt: new Date(),
+    }, `Cancelled by ${adminEmail}`)
+
+    await WaitlistService.release(fulfillment.eventId, fulfillment.ticketType)
+  }
+
   static async getPendingFulfillmentsByStatus(status: PendingFulfillment["status"]): Promise<PendingFulfillment[]> {
     const { data, error } = await supabase
       .from("pending_ticket_fulfillments")
@@ -1219,6 +1306,7 @@ console.error("❌ Error details:", updateError.details)
       id: row.id,
       paymentId: row.payment_id,
       pawapayDepositId: row.pawapay_deposit_id,
+      pesapalTrackingId: row.pesapal_tracking_id ?? undefined,
       buyerEmail: row.buyer_email,
       buyerName: row.buyer_name,
       buyerId: row.buyer_id,
@@ -1228,9 +1316,13 @@ console.error("❌ Error details:", updateError.details)
       quantity: row.quantity,
       amount: row.amount,
       status: row.status,
+      order: row.order ?? undefined,
       ticketIds: row.ticket_ids,
+      emailedTicketIds: row.emailed_ticket_ids ?? [],
       lastError: row.last_error,
       attemptCount: row.attempt_count,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      confirmedAt: row.confirmed_at ? new Date(row.confirmed_at) : undefined,
       adminResolvedBy: row.admin_resolved_by,
       adminResolvedAt: row.admin_resolved_at ? new Date(row.admin_resolved_at) : undefined,
       attendeeNames: row.attendee_names,
@@ -1239,392 +1331,108 @@ console.error("❌ Error details:", updateError.details)
     }
   }
 
-  // ============ Automatic Retry Mechanism ============
-
-  /**
-   * Retry a single fulfillment with exponential backoff
-   * Returns true if successfully retried, false if should be marked as failed
-   */
-  static async retryFulfillment(
-    fulfillment: PendingFulfillment,
-    maxRetries: number = 3
-  ): Promise<{ success: boolean; error?: string; ticketsCreated?: string[] }> {
-    const { id: fulfillmentId, attemptCount, lastError } = fulfillment
-    
-    if (attemptCount >= maxRetries) {
-      return { 
-        success: false, 
-        error: `Max retries (${maxRetries}) exceeded. Previous error: ${lastError || "Unknown"}` 
-      }
-    }
-
-    try {
-      const event = await SupabaseService.getEventById(fulfillment.eventId)
-      if (!event) {
-        return { success: false, error: `Event not found: ${fulfillment.eventId}` }
-      }
-
-      const namesToUse = fulfillment.attendeeNames ?? [fulfillment.buyerName || "Attendee"]
-      const ticketsToCreate = fulfillment.quantity
-      const createdTicketIds: string[] = []
-
-      for (let i = 0; i < ticketsToCreate; i++) {
-        const ticket = await this.createSingleTicket(
-          event,
-          namesToUse[i] || namesToUse[0] || "Attendee",
-          fulfillment.buyerEmail,
-          1,
-          "",
-          fulfillment.amount / ticketsToCreate,
-           { method: "credit_card", ticketType: fulfillment.ticketType },
-          false,
-          undefined,
-          undefined,
-          fulfillment.buyerId ?? undefined,
-          fulfillment.buyerEmail
-        )
-        createdTicketIds.push(ticket.id)
-      }
-
-      const baseUrl = typeof window !== "undefined" ? window.location.origin : "https://yovibe.net"
-      // Get ticket design from first entry fee as fallback for bulk fulfillment
-      const bulkTicketDesign = event.entryFees?.[0]?.ticketDesign
-      await Promise.allSettled(createdTicketIds.map(ticketId =>
-        fetch(`${baseUrl}/.netlify/functions/send-ticket-email`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            buyerEmail: fulfillment.buyerEmail,
-            buyerName: namesToUse[0] || "Attendee",
-            eventName: event.name,
-            ticketType: fulfillment.ticketType || "Standard",
-            venue: event.venueName,
-            date: event.date.toISOString().split("T")[0],
-            time: event.time,
-            quantity: 1,
-            amountPaid: (fulfillment.amount / ticketsToCreate).toLocaleString(),
-            ticketRef: ticketId,
-            qrCodeDataUrl: "",
-            ticketDesign: bulkTicketDesign,
-            posterUrl: event.posterImageUrl,
-          }),
-        })
-      ))
-
-      await this.updateFulfillmentStatus(fulfillmentId, "fulfilled", {
-        ticketIds: createdTicketIds,
-        attemptCount: attemptCount + 1,
-      })
+  // ============ Server-side Fulfillment ============
+  // Tickets are created by the fulfill-order-background Netlify function once
+  // the payment processor confirms the payment; the browser only watches.
 
-      return { success: true, ticketsCreated: createdTicketIds }
-    } catch (error: any) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      await this.updateFulfillmentStatus(fulfillmentId, "failed", {
-        attemptCount: attemptCount + 1,
-      }, errorMsg)
-      return { success: false, error: errorMsg }
-    }
-  }
-
-  /**
-   * Get all fulfillments that need retry (older than 5 minutes, not yet failed)
-   */
-  static async getStuckFulfillments(
-    maxAgeMinutes: number = 5,
-    excludeFailed: boolean = true
-  ): Promise<PendingFulfillment[]> {
-    const cutoffTime = new Date(Date.now() - maxAgeMinutes * 60 * 1000)
-    
+  static async getFulfillmentByPaymentId(paymentId: string): Promise<PendingFulfillment | null> {
     const { data, error } = await supabase
       .from("pending_ticket_fulfillments")
       .select("*")
-      .gt("created_at", cutoffTime.toISOString())
-      .neq("status", "fulfilled")
-      .order("created_at", { ascending: true })
+      .eq("payment_id", paymentId)
+      .maybeSingle()
 
     if (error) throw error
-    
-    let fulfillments = (data || []).map(this.rowToFulfillment)
-    
-    if (excludeFailed) {
-      fulfillments = fulfillments.filter(f => f.status !== "failed")
-    }
-    
-    return fulfillments
+    return data ? this.rowToFulfillment(data) : null
   }
 
   /**
-   * Process stuck fulfillments automatically
-   * Call this from a cron job or background task
+   * Poll a purchase's fulfillment until the worker finishes with it or the
+   * timeout passes. Returns the last state seen; the worker carries on
+   * regardless, so a timeout only means the buyer gets their tickets by email.
    */
-  static async processStuckFulfillments(
-    batchSize: number = 10,
-    maxRetries: number = 3
-  ): Promise<{ processed: number; succeeded: number; failed: number }> {
-    const fulfillments = await this.getStuckFulfillments(5)
-    
-    const batch = fulfillments.slice(0, batchSize)
-    let succeeded = 0
-    let failed = 0
-
-    for (const fulfillment of batch) {
-      const result = await this.retryFulfillment(fulfillment, maxRetries)
-      if (result.success) {
-        succeeded++
-      } else {
-        failed++
+  static async waitForFulfillment(
+    paymentId: string,
+    onStatus?: (fulfillment: PendingFulfillment) => void,
+    timeoutMs: number = 90 * 1000,
+    intervalMs: number = 2000,
+  ): Promise<PendingFulfillment | null> {
+    const deadline = Date.now() + timeoutMs
+    let latest: PendingFulfillment | null = null
+    while (Date.now() < deadline) {
+      try {
+        latest = await this.getFulfillmentByPaymentId(paymentId)
+        if (latest) {
+          onStatus?.(latest)
+          if (["fulfilled", "dead_letter", "cancelled"].includes(latest.status)) return latest
+        }
+      } catch (error) {
+        console.warn("Fulfillment status check failed; still waiting", error)
       }
+      await new Promise(resolve => setTimeout(resolve, intervalMs))
     }
-
-    return { processed: batch.length, succeeded, failed }
+    return latest
   }
 
-  // ============ Manual Recovery ============
-
-  static async recoverTicket(
+  /**
+   * Send a stranded purchase back to the worker with a fresh set of attempts,
+   * optionally correcting the attendee names first. Tickets it already
+   * created are kept; only the missing ones are issued.
+   */
+  static async requeueFulfillment(
     fulfillment: PendingFulfillment,
     adminEmail: string,
-    attendeeNames?: string[]
-  ): Promise<{ success: boolean; ticketIds: string[]; error?: string }> {
-    const fulfillmentId = fulfillment.id
-    const existingTicketIds = fulfillment.ticketIds || []
-
-    console.log(`[ManualRecovery:${fulfillmentId}] Stage: starting — manual recovery initiated${existingTicketIds.length > 0 ? ` (resuming from previous attempt, ${existingTicketIds.length} tickets exist)` : ''}`)
-
-    try {
-      const event = await SupabaseService.getEventById(fulfillment.eventId)
-      if (!event) {
-        throw new Error(`Event not found: ${fulfillment.eventId}`)
-      }
-
-      const namesToUse = attendeeNames ?? fulfillment.attendeeNames ?? [fulfillment.buyerName || "Attendee"]
-      const ticketsToCreate = fulfillment.quantity
-
-      let createdTickets: Ticket[] = []
-      let createdTicketIds: string[] = []
-      let needsTicketCreation = true
-
-      // Phase 1: Try to find existing tickets from:
-      //   a) ticketIds stored in the fulfillment record, OR
-      //   b) fallback lookup by buyerEmail + eventId (for stranded records where ticketIds weren't saved)
-      if (existingTicketIds.length > 0) {
-        // Case a: Resume from stored ticket IDs
-        console.log(`[ManualRecovery:${fulfillmentId}] Stage: resume — ${existingTicketIds.length} tickets already exist, fetching from DB`)
-        await this.updateFulfillmentStatus(fulfillmentId, "fulfilling", {
-          attemptCount: fulfillment.attemptCount,
-        }, `Resuming recovery — ${existingTicketIds.length} tickets already created...`)
-
-        for (const ticketId of existingTicketIds) {
-          const { data, error } = await supabase
-            .from("tickets")
-            .select("*")
-            .eq("id", ticketId)
-            .single()
-
-          if (error || !data) {
-            console.warn(`[ManualRecovery:${fulfillmentId}] Could not fetch existing ticket ${ticketId}: ${error?.message || 'not found'}`)
-            continue
-          }
-          createdTickets.push(this.rowToTicket(data))
-        }
-        createdTicketIds = existingTicketIds.slice()
-
-        if (createdTickets.length === 0) {
-          console.log(`[ManualRecovery:${fulfillmentId}] Stage: resume — no valid existing tickets found, will try fallback lookup`)
-        } else {
-          needsTicketCreation = false
-          console.log(`[ManualRecovery:${fulfillmentId}] Stage: resume — loaded ${createdTickets.length} existing tickets from DB`)
-        }
-      }
-
-      // Case b: No stored ticket IDs, attempt fallback lookup by buyer email + event
-      // Query tickets_api view because it has camelCase columns that match the Ticket model
-      if (needsTicketCreation && fulfillment.buyerEmail && fulfillment.eventId) {
-        console.log(`[ManualRecovery:${fulfillmentId}] Stage: lookup — no stored ticket IDs, searching tickets_api by buyer email + event`)
-        const { data: foundTickets, error: findError } = await supabase
-          .from("tickets_api")
-          .select("*")
-          .eq("buyerEmail", fulfillment.buyerEmail)
-          .eq("eventId", fulfillment.eventId)
-          .limit(fulfillment.quantity)
-
-        if (!findError && foundTickets && foundTickets.length > 0) {
-          const mapped = foundTickets.map(t => this.rowToTicket(t))
-          // Log QR data URL availability for debugging
-          for (const t of mapped) {
-            console.log(`[ManualRecovery:${fulfillmentId}] Ticket ${t.id}: qrCodeDataUrl=${t.qrCodeDataUrl ? t.qrCodeDataUrl.substring(0, 80) + '...' : 'MISSING'}, ticketRef=${t.ticketRef || 'MISSING'}`)
-          }
-          createdTickets.push(...mapped)
-          createdTicketIds.push(...mapped.map(t => t.id))
-          needsTicketCreation = false
-          console.log(`[ManualRecovery:${fulfillmentId}] Stage: lookup — found ${mapped.length} existing tickets via tickets_api email+event lookup`)
-
-          // Save these IDs to the fulfillment so next retry uses the stored IDs
-          await this.updateFulfillmentStatus(fulfillmentId, "fulfilling", {
-            attemptCount: fulfillment.attemptCount,
-            ticketIds: createdTicketIds,
-          }, `Found ${createdTicketIds.length} existing tickets, proceeding to email send...`)
-        } else {
-          console.log(`[ManualRecovery:${fulfillmentId}] Stage: lookup — no existing tickets found by email+event, will create new ones`)
-        }
-      }
-
-      if (needsTicketCreation) {
-        console.log(`[ManualRecovery:${fulfillmentId}] Stage: ticket-creation — starting (${ticketsToCreate} tickets)`)
-        await this.updateFulfillmentStatus(fulfillmentId, "fulfilling", {
-          attemptCount: fulfillment.attemptCount,
-        }, "Creating tickets...")
-
-        for (let i = 0; i < ticketsToCreate; i++) {
-          const ticket = await this.createSingleTicket(
-            event,
-            namesToUse[i] || namesToUse[0] || "Attendee",
-            fulfillment.buyerEmail,
-            1,
-            "",
-            fulfillment.amount / ticketsToCreate,
-            { method: "credit_card", ticketType: fulfillment.ticketType },
-            false,
-            undefined,
-            undefined,
-            fulfillment.buyerId ?? undefined,
-            fulfillment.buyerEmail
-          )
-          createdTickets.push(ticket)
-          createdTicketIds.push(ticket.id)
-          console.log(`[ManualRecovery:${fulfillmentId}] Ticket created: ${ticket.id}`)
-        }
-
-        // QR code was already uploaded within createSingleTicket (Step 7).
-        // The qrCodeDataUrl is now the hosted R2 URL for use in the email, no re-upload needed.
-        console.log(`[ManualRecovery:${fulfillmentId}] Stage: email-preparation — QR codes already uploaded during ticket creation`)
-        await this.updateFulfillmentStatus(fulfillmentId, "fulfilling", {
-          attemptCount: fulfillment.attemptCount + 1,
-          ticketIds: createdTicketIds,
-        }, `Created ${createdTicketIds.length} tickets, proceeding to email send...`)
-      }
-
-      console.log(`[ManualRecovery:${fulfillmentId}] Stage: email-send — starting (${createdTickets.length} emails, sending in parallel with 120s timeout)`)
-
-      // Pre-generate QR codes for any tickets that don't have one
-      // (old recovery tickets may have null qrCodeDataUrl in the tickets_api table)
-      for (let i = 0; i < createdTickets.length; i++) {
-        const ticket = createdTickets[i]
-        if (!ticket.qrCodeDataUrl) {
-          try {
-            const qrResult = await this.generateSecureQRCode(event.id, event.date || new Date())
-            ticket.qrCodeDataUrl = qrResult.qrCodeDataUrl
-            ticket.qrCode = qrResult.qrCode
-            console.log(`[ManualRecovery:${fulfillmentId}] Generated fresh QR for ticket ${ticket.id}: ${qrResult.qrCode}`)
-          } catch (err) {
-            console.warn(`[ManualRecovery:${fulfillmentId}] Could not generate QR for ticket ${ticket.id}:`, err)
-          }
-        }
-      }
-
-      const emailResults = await Promise.allSettled(
-        createdTickets.map(async (ticket) => {
-          // Format date safely — event.date may be a Date object or ISO string
-          const eventDate = event.date instanceof Date ? event.date : new Date(event.date || Date.now())
-          const formattedDate = !isNaN(eventDate.getTime()) ? eventDate.toISOString().split("T")[0] : "TBD"
-          const formattedTime = event.time || "TBD"
-
-          // Fallback for ticketRef — old tickets may not have it stored in the tickets table
-          const ticketRef = ticket.ticketRef || ticket.id
-
-          // Must have a qrCodeDataUrl — generate one now if still missing
-          const qrCodeDataUrl = ticket.qrCodeDataUrl || ""
-
-          const emailPayload = {
-            buyerEmail: fulfillment.buyerEmail,
-            buyerName: ticket.buyerName || "Attendee",
-            eventName: event.name || "Event",
-            ticketType: ticket.entryFeeType || "Standard",
-            venue: event.venueName || "",
-            date: formattedDate,
-            time: formattedTime,
-            quantity: 1,
-            amountPaid: (ticket.totalAmount || 0).toLocaleString(),
-            ticketRef,
-            qrCodeDataUrl,
-            photoUploadLink: ticket.photoUploadToken ? `${FUNCTIONS_BASE_URL}/.netlify/functions/upload-buyer-photo?ticketId=${ticket.id}&token=${ticket.photoUploadToken}` : undefined,
-            // Include ticket design from entry fee
-            ticketDesign: event.entryFees?.find((f: any) => f.name === ticket.entryFeeType)?.ticketDesign,
-            posterUrl: event.posterImageUrl,
-          }
-
-          // Use AbortController with 120s timeout (accounts for Netlify cold starts + PDF generation + Resend)
-          const controller = new AbortController()
-          const timeoutId = setTimeout(() => controller.abort(), 120000)
-
-          const functionUrl = FUNCTIONS_BASE_URL
-            ? `${FUNCTIONS_BASE_URL}/.netlify/functions/send-ticket-email`
-            : `/.netlify/functions/send-ticket-email`
-
-          try {
-            const response = await fetch(functionUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify(emailPayload),
-              signal: controller.signal,
-            })
-
-            clearTimeout(timeoutId)
-
-            if (!response.ok) {
-              // Read the 400 response body to see which fields are missing
-              let bodyText = ""
-              try { bodyText = await response.text() } catch {}
-              throw new Error(`${response.status} ${bodyText || response.statusText}`)
-            }
-            return { ticketId: ticket.id, success: true }
-          } catch (err) {
-            clearTimeout(timeoutId)
-            throw err
-          }
-        })
-      )
-
-      const emailErrors: string[] = []
-      for (const result of emailResults) {
-        if (result.status === "fulfilled") {
-          console.log(`[ManualRecovery:${fulfillmentId}] Email sent for ticket ${result.value.ticketId}`)
-        } else {
-          const msg = result.reason instanceof Error ? result.reason.message : String(result.reason)
-          emailErrors.push(msg)
-          console.error(`[ManualRecovery:${fulfillmentId}] Email send failed:`, msg)
-        }
-      }
+    attendeeNames?: string[],
+  ): Promise<void> {
+    const names = attendeeNames?.filter(n => n.trim()).length ? attendeeNames.map(n => n.trim()) : undefined
+    const { error } = await supabase
+      .from("pending_ticket_fulfillments")
+      .update({
+        status: "payment_confirmed",
+        attempt_count: 0,
+        next_attempt_at: null,
+        last_error: `Requeued by ${adminEmail}`,
+        admin_resolved_by: adminEmail,
+        admin_resolved_at: new Date().toISOString(),
+        ...(names && fulfillment.order
+          ? { attendee_names: names, order: { ...fulfillment.order, buyerNames: names } }
+          : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", fulfillment.id)
 
-      if (emailErrors.length > 0) {
-        const errorMsg = `Email send failed for ${emailErrors.length}/${createdTickets.length} tickets: ${emailErrors.join("; ")}`
-        console.error(`[ManualRecovery:${fulfillmentId}] Stage: email-send — FAILED`, errorMsg)
-        await this.updateFulfillmentStatus(fulfillmentId, "failed", {
-          attemptCount: fulfillment.attemptCount + 1,
-        }, errorMsg)
-        return { success: false, ticketIds: createdTicketIds, error: errorMsg }
-      }
+    if (error) throw error
 
-      console.log(`[ManualRecovery:${fulfillmentId}] Stage: fulfillment — completing (${createdTicketIds.length} tickets)`)
+    const response = await fetch(`${FUNCTIONS_BASE_URL}/.netlify/functions/fulfill-order-background`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paymentId: fulfillment.paymentId, trigger: "admin" }),
+    })
+    // The sweep picks the purchase up within a few minutes even if this fails
+    if (!response.ok) console.warn("Could not start fulfillment immediately:", response.status)
+  }
 
-      await this.updateFulfillmentStatus(fulfillmentId, "fulfilled", {
-        ticketIds: createdTicketIds,
-        attemptCount: fulfillment.attemptCount + 1,
-        adminResolvedBy: adminEmail,
-        adminResolvedAt: new Date(),
-      })
+  static async getFulfillmentAttempts(fulfillmentId: string): Promise<FulfillmentAttempt[]> {
+    const { data, error } = await supabase
+      .from("ticket_fulfillment_attempts")
+      .select("*")
+      .eq("fulfillment_id", fulfillmentId)
+      .order("started_at", { ascending: false })
 
-      console.log(`[ManualRecovery:${fulfillmentId}] Stage: completed — success`)
-      return { success: true, ticketIds: createdTicketIds }
+    if (error) throw error
 
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      console.error(`[ManualRecovery:${fulfillmentId}] Stage: ticket-creation — FAILED`, error)
-      await this.updateFulfillmentStatus(fulfillmentId, "failed", {
-        attemptCount: fulfillment.attemptCount + 1,
-      }, errorMsg)
-      return { success: false, ticketIds: [], error: errorMsg }
-    }
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      fulfillmentId: row.fulfillment_id,
+      attempt: row.attempt,
+      trigger: row.trigger,
+      outcome: row.outcome,
+      ticketsCreated: row.tickets_created ?? 0,
+      emailsSent: row.emails_sent ?? 0,
+      error: row.error ?? undefined,
+      startedAt: new Date(row.started_at),
+      finishedAt: new Date(row.finished_at),
+    }))
   }
 
   // ============ Cleanup Old Records ============
@@ -1635,7 +1443,7 @@ console.error("❌ Error details:", updateError.details)
    */
   static async cleanupOldFulfillments(
     olderThanDays: number = 30,
-    statusesToClean: ("fulfilled" | "failed" | "cancelled")[] = ["fulfilled", "failed"]
+    statusesToClean: ("fulfilled" | "cancelled")[] = ["fulfilled", "cancelled"]
   ): Promise<{ deleted: number; error?: string }> {
     const cutoffDate = new Date()
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays)
@@ -1684,13 +1492,15 @@ console.error("❌ Error details:", updateError.details)
    */
   static async getFulfillmentSummary(): Promise<{
     total: number
+    awaitingPayment: number
     paymentConfirmed: number
     fulfilling: number
     fulfilled: number
     failed: number
+    deadLetter: number
     oldestFailed: Date | null
   }> {
-    const statuses = ["payment_confirmed", "fulfilling", "fulfilled", "failed"] as const
+    const statuses = ["awaiting_payment", "payment_confirmed", "fulfilling", "fulfilled", "failed", "dead_letter"] as const
     const counts: Record<string, number> = {}
     let total = 0
 
@@ -1720,10 +1530,12 @@ console.error("❌ Error details:", updateError.details)
 
     return {
       total,
+      awaitingPayment: counts["awaiting_payment"] || 0,
       paymentConfirmed: counts["payment_confirmed"] || 0,
       fulfilling: counts["fulfilling"] || 0,
       fulfilled: counts["fulfilled"] || 0,
       failed: counts["failed"] || 0,
+      deadLetter: counts["dead_letter"] || 0,
       oldestFailed,
     }
   }
@@ -0,0 +1,51 @@
+import supabase from "../config/supabase"
+import type { ResaleListing } from "../models/TicketTransfer"
+import PasskeyService from "./PasskeyService"
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to transfer or resell tickets")
+  const response = await fetch("/.netlify/functions/ticket-transfer", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Ticket transfer failed")
+  return payload
+}
+
+export default {
+  async transfer(ticketId: string, toEmail: string, toName?: string, note?: string) {
+    const stepUpToken = await PasskeyService.stepUp("ticket_transfer")
+    return call({ action: "transfer", ticketId, toEmail, toName, note, stepUpToken })
+  },
+  async list(ticketId: string, price: number, payout: { phone: string; name?: string; method?: string }) {
+    const stepUpToken = await PasskeyService.stepUp("ticket_transfer")
+    return call({ action: "list", ticketId, price, payoutPhone: payout.phone, payoutName: payout.name, payoutMethod: payout.method, stepUpToken })
+  },
+  cancelListing(listingId: string) {
+    return call({ action: "cancel_listing", listingId })
+  },
+  async browse(eventIds: string[]): Promise<ResaleListing[]> {
+    const { listings } = await call({ action: "browse", eventIds })
+    return listings
+  },
+  async myListings(): Promise<ResaleListing[]> {
+    const { listings } = await call({ action: "my_listings" })
+    return listings
+  },
+  /** Starts a payment for exactly this listing; only the returned paymentId can complete the purchase */
+  startPurchase(
+    listingId: string,
+    payment:
+      | { provider: "pawapay"; phone: string; mobileProvider: string }
+      | { provider: "pesapal"; callbackUrl: string; description?: string; buyerName?: string },
+  ): Promise<{ paymentId: string; depositId?: string; redirectUrl?: string }> {
+    return call({ action: "start_purchase", listingId, ...payment })
+  },
+  purchase(listingId: string, paymentId: string, buyerName?: string) {
+    return call({ action: "purchase", listingId, paymentId, buyerName })
+  },
+}
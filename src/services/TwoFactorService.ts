@@ -0,0 +1,54 @@
+import supabase from "../config/supabase"
+import type { TwoFactorEnrollment, TwoFactorMethod, TwoFactorPolicy, TwoFactorStatus } from "../models/TwoFactor"
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in again")
+  const response = await fetch("/.netlify/functions/two-factor", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Two-factor operation failed")
+  return payload
+}
+
+export default {
+  async status(): Promise<TwoFactorStatus> {
+    return (await call({ action: "status" })).status
+  },
+  // Authenticator code or backup code for this sign-in
+  async verify(code: string): Promise<{ status: TwoFactorStatus; method: TwoFactorMethod }> {
+    return call({ action: "verify", code })
+  },
+  async startEnrollment(): Promise<TwoFactorEnrollment> {
+    return (await call({ action: "enroll_start" })).enrollment
+  },
+  // The backup codes are only ever returned here and by regenerateBackupCodes
+  async confirmEnrollment(code: string): Promise<{ backupCodes: string[]; status: TwoFactorStatus }> {
+    return call({ action: "enroll_confirm", code })
+  },
+  async regenerateBackupCodes(code: string): Promise<{ backupCodes: string[]; status: TwoFactorStatus }> {
+    return call({ action: "regenerate_backup_codes", code })
+  },
+  async disable(code: string): Promise<TwoFactorStatus> {
+    return (await call({ action: "disable", code })).status
+  },
+  async sendRecoveryCode(): Promise<void> {
+    await call({ action: "recovery_send" })
+  },
+  async confirmRecovery(code: string): Promise<TwoFactorStatus> {
+    return (await call({ action: "recovery_confirm", code })).status
+  },
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    return (await call({ action: "get_policy" })).policy
+  },
+  async setPolicy(policy: Pick<TwoFactorPolicy, "requireForAdmin">): Promise<TwoFactorPolicy> {
+    return (await call({ action: "set_policy", policy })).policy
+  },
+  async resetForUser(userId: string, reason?: string): Promise<void> {
+    await call({ action: "admin_reset", userId, reason })
+  },
+}
@@ -0,0 +1,31 @@
+import supabase from "../config/supabase"
+import type { VibeCheckIn, VibeCheckInEligibility, VibeCheckInInput } from "../models/VibeCheckIn"
+import type { VibeImage } from "../models/VibeImage"
+import { CACHE_KEYS, dataCache } from "../utils/cache"
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to check in")
+  const response = await fetch("/.netlify/functions/vibe-checkins", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  // retryAt is set when the attendee is rate limited
+  if (!response.ok) throw Object.assign(new Error(payload.error || "Check-in failed"), { retryAt: payload.retryAt || null })
+  return payload
+}
+
+export default {
+  async eligibility(venueId: string): Promise<VibeCheckInEligibility> {
+    return call({ action: "eligibility", venueId })
+  },
+  async submit(input: VibeCheckInInput): Promise<{ checkIn: VibeCheckIn; image: VibeImage | null }> {
+    const { checkIn, image } = await call({ action: "submit", ...input })
+    // The check-in moves the live index, so don't show the cached one
+    dataCache.delete(CACHE_KEYS.VIBE_INDEX(input.venueId))
+    return { checkIn, image: image ? { ...image, uploadedAt: new Date(image.uploadedAt) } : null }
+  },
+}
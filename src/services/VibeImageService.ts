@@ -0,0 +1,57 @@
+import supabase from "../config/supabase"
+import type { VibeImage } from "../models/VibeImage"
+
+// How long the app waits on the worker before telling the uploader it is still scoring
+const SCORE_WAIT_MS = 45000
+const SCORE_POLL_MS = 2500
+
+export interface VibeModerationFilters {
+  status?: "flagged" | "scored" | "removed"
+  venueId?: string
+  limit?: number
+  offset?: number
+}
+
+async function call(body: Record<string, unknown>) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (!token) throw new Error("Please sign in to share a vibe")
+  const response = await fetch("/.netlify/functions/vibe-images", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Vibe request failed")
+  return payload
+}
+
+function fromPayload(image: any): VibeImage {
+  return { ...image, uploadedAt: new Date(image.uploadedAt) }
+}
+
+export default {
+  async submit(venueId: string, imageUrl: string): Promise<VibeImage> {
+    return fromPayload((await call({ action: "submit", venueId, imageUrl })).image)
+  },
+  async status(imageId: string): Promise<VibeImage> {
+    return fromPayload((await call({ action: "status", imageId })).image)
+  },
+  /** Polls until the worker has decided; still "pending" (or "failed") if it ran out of time */
+  async waitForScore(imageId: string, timeoutMs = SCORE_WAIT_MS): Promise<VibeImage> {
+    const deadline = Date.now() + timeoutMs
+    let image = await this.status(imageId)
+    while (image.scoringStatus === "pending" && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, SCORE_POLL_MS))
+      image = await this.status(imageId)
+    }
+    return image
+  },
+  async moderationQueue(filters: VibeModerationFilters = {}): Promise<{ images: VibeImage[]; total: number }> {
+    const { images, total } = await call({ action: "moderation_queue", filters })
+    return { images: images.map(fromPayload), total }
+  },
+  async moderate(imageId: string, decision: "approve" | "remove", note: string): Promise<VibeImage> {
+    return fromPayload((await call({ action: "moderate", imageId, decision, note })).image)
+  },
+}
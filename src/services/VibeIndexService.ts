@@ -0,0 +1,42 @@
+import type { VenueVibeIndex } from "../models/VibeIndex"
+import { CACHE_KEYS, dataCache } from "../utils/cache"
+
+// The index moves with every new photo, so only briefly
+const INDEX_TTL_MS = 60 * 1000
+// Per request, matching the vibe-index function
+const MAX_VENUES = 100
+
+async function fetchIndexes(venueIds: string[]): Promise<Record<string, VenueVibeIndex>> {
+  const response = await fetch("/.netlify/functions/vibe-index", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ venueIds }),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Could not load the live vibe")
+  return payload.indexes
+}
+
+export default {
+  /** Live vibe index for each venue; cached for a minute unless `fresh` */
+  async getIndexes(venueIds: string[], fresh = false): Promise<Record<string, VenueVibeIndex>> {
+    const result: Record<string, VenueVibeIndex> = {}
+    const missing: string[] = []
+    for (const id of new Set(venueIds.filter(Boolean))) {
+      const cached = fresh ? null : dataCache.get<VenueVibeIndex>(CACHE_KEYS.VIBE_INDEX(id))
+      if (cached) result[id] = cached
+      else missing.push(id)
+    }
+    for (let i = 0; i < missing.length; i += MAX_VENUES) {
+      const indexes = await fetchIndexes(missing.slice(i, i + MAX_VENUES))
+      for (const [id, index] of Object.entries(indexes)) {
+        dataCache.set(CACHE_KEYS.VIBE_INDEX(id), index, INDEX_TTL_MS)
+        result[id] = index
+      }
+    }
+    return result
+  },
+  async getIndex(venueId: string, fresh = false): Promise<VenueVibeIndex | null> {
+    return (await this.getIndexes([venueId], fresh))[venueId] || null
+  },
+}
@@ -0,0 +1,53 @@
+import supabase from "../config/supabase"
+import type { WaitlistClaim, WaitlistEntry } from "../models/Waitlist"
+
+async function call(body: Record<string, unknown>, requireAuth = true) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  if (requireAuth && !token) throw new Error("Please sign in to join the waitlist")
+  const response = await fetch("/.netlify/functions/ticket-waitlist", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  })
+  const payload = await response.json()
+  if (!response.ok) throw new Error(payload.error || "Waitlist operation failed")
+  return payload
+}
+
+export default {
+  async join(eventId: string, feeType: string, name?: string): Promise<WaitlistEntry> {
+    const { entry } = await call({ action: "join", eventId, feeType, name })
+    return entry
+  },
+  leave(eventId: string, entryId: string) {
+    return call({ action: "leave", eventId, entryId })
+  },
+  async mine(eventId: string): Promise<WaitlistEntry[]> {
+    const { entries } = await call({ action: "mine", eventId })
+    return entries
+  },
+  // Spots held for people at the front of the line count as taken for everyone
+  // else; a valid claim token from an offer email exempts its holder.
+  async availability(eventId: string, claimToken?: string): Promise<{ held: Record<string, number>; claim: WaitlistClaim | null }> {
+    try {
+      const { held, claim } = await call({ action: "availability", eventId, claimToken }, false)
+      return { held: held || {}, claim: claim || null }
+    } catch (error) {
+      console.error("WaitlistService.availability error:", error)
+      return { held: {}, claim: null }
+    }
+  },
+  async counts(eventId: string): Promise<Record<string, number>> {
+    const { counts } = await call({ action: "counts", eventId })
+    return counts || {}
+  },
+  // Fire after anything that frees inventory; failures must not block the caller
+  async release(eventId: string, feeType?: string): Promise<void> {
+    try {
+      await call({ action: "release", eventId, feeType })
+    } catch (error) {
+      console.error("WaitlistService.release error:", error)
+    }
+  },
+}
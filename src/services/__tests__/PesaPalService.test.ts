@@ -37,3 +37,21 @@ describe("PesaPalService.calculateRevenueSplit", () => {
     expect(result.commissionRate).toBe(0.15)
   })
 })
+
+describe("PesaPalService.calculateTicketPrice with a promo discount", () => {
+  it("takes the discount off before the late fee", () => {
+    const past = new Date("2020-01-01T20:00:00")
+    const result = PesaPalService.calculateTicketPrice(10000, 2, past, 10, 5000)
+    expect(result.subtotal).toBe(20000)
+    expect(result.discount).toBe(5000)
+    expect(result.lateFee).toBe(1500) // 10% of 15000
+    expect(result.total).toBe(16500)
+  })
+
+  it("never discounts below zero", () => {
+    const future = new Date("2099-01-01T20:00:00")
+    const result = PesaPalService.calculateTicketPrice(10000, 1, future, 0, 25000)
+    expect(result.discount).toBe(10000)
+    expect(result.total).toBe(0)
+  })
+})
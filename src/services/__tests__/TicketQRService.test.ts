@@ -0,0 +1,62 @@
+import { describe, it, expect } from "@jest/globals"
+import { createHash } from "crypto"
+import {
+  currentQRWindow,
+  generateQRPayload,
+  generateRotatingQRPayload,
+  generateRotatingSecret,
+  hashQRCode,
+  parseAndVerifyQR,
+  verifyRotatingCode,
+  QR_ROTATION_PERIOD_MS,
+} from "../TicketQRService"
+
+const qrCode = "f1b2afb7-be0c-4c36-bdf8-d1e15d8f67a6"
+
+describe("rotating QR codes", () => {
+  const secret = generateRotatingSecret()
+  const now = 1_760_000_000_000
+
+  it("generates a 256-bit hex secret", () => {
+    expect(secret).toMatch(/^[0-9a-f]{64}$/)
+    expect(generateRotatingSecret()).not.toBe(secret)
+  })
+
+  it("accepts the current window and neighbours within the skew", () => {
+    const { url, window } = generateRotatingQRPayload(qrCode, secret, now)
+    const code = new URL(url).searchParams.get("c")!
+    expect(verifyRotatingCode(qrCode, secret, window, code, now, 1)).toBe(true)
+    expect(verifyRotatingCode(qrCode, secret, window, code, now + QR_ROTATION_PERIOD_MS, 1)).toBe(true)
+    expect(verifyRotatingCode(qrCode, secret, window, code, now + 2 * QR_ROTATION_PERIOD_MS, 1)).toBe(false)
+    expect(verifyRotatingCode(qrCode, secret, window, code, now + QR_ROTATION_PERIOD_MS, 0)).toBe(false)
+  })
+
+  it("rejects codes signed with another ticket's secret", () => {
+    const { url, window } = generateRotatingQRPayload(qrCode, generateRotatingSecret(), now)
+    const code = new URL(url).searchParams.get("c")!
+    expect(verifyRotatingCode(qrCode, secret, window, code, now)).toBe(false)
+  })
+
+  it("reports how long the current code stays valid", () => {
+    const windowStart = currentQRWindow(now) * QR_ROTATION_PERIOD_MS
+    expect(generateRotatingQRPayload(qrCode, secret, windowStart + 5000).expiresInMs).toBe(QR_ROTATION_PERIOD_MS - 5000)
+  })
+
+  it("parses live payloads and rejects stale windows before any lookup", () => {
+    const live = generateRotatingQRPayload(qrCode, secret)
+    expect(parseAndVerifyQR(live.url)).toEqual({ ticketId: qrCode, rotating: { window: live.window, code: expect.any(String) } })
+
+    const stale = generateRotatingQRPayload(qrCode, secret, Date.now() - 10 * QR_ROTATION_PERIOD_MS)
+    expect(parseAndVerifyQR(stale.url)).toBeNull()
+  })
+
+  it("still verifies static payloads without a rotating window", () => {
+    expect(parseAndVerifyQR(generateQRPayload(qrCode).url)).toEqual({ ticketId: qrCode })
+  })
+})
+
+describe("hashQRCode", () => {
+  it("matches the SHA-256 the manifest function ships", () => {
+    expect(hashQRCode(qrCode)).toBe(createHash("sha256").update(qrCode).digest("hex"))
+  })
+})
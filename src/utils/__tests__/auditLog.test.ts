@@ -0,0 +1,36 @@
+import { describe, it, expect } from "@jest/globals"
+import { auditCsv, auditDiff, isAuditAction } from "../auditLog"
+import type { AuditEntry } from "../../models/AuditLog"
+
+describe("audit log", () => {
+  it("keeps only the fields that changed", () => {
+    const before = { status: "pending_admin_review", amount: 50000, admin_note: null, updated_at: "a" }
+    const after = { status: "approved", amount: 50000, admin_note: "ok", updated_at: "b" }
+    expect(auditDiff(before, after, ["status", "amount", "admin_note"])).toEqual({
+      status: { from: "pending_admin_review", to: "approved" },
+      admin_note: { from: null, to: "ok" },
+    })
+    expect(auditDiff(null, { is_frozen: true })).toEqual({ is_frozen: { from: null, to: true } })
+    expect(auditDiff({ meta: { a: 1 } }, { meta: { a: 1 } })).toEqual({})
+  })
+
+  it("masks secrets", () => {
+    expect(auditDiff({ otp_code: "123456" }, { otp_code: null })).toEqual({ otp_code: { from: "[redacted]", to: null } })
+  })
+
+  it("recognises known actions only", () => {
+    expect(isAuditAction("payout.approve")).toBe(true)
+    expect(isAuditAction("payout.steal")).toBe(false)
+  })
+
+  it("exports escaped CSV", () => {
+    const entry: AuditEntry = {
+      id: "1", occurredAt: "2026-10-01T10:00:00Z", actorId: "admin-1", actorEmail: "admin@yovibe.net", actorRole: "admin",
+      action: "payout.reject", targetType: "payout", targetId: "p1", changes: { status: { from: "pending", to: "rejected" } },
+      reason: "Wrong account, \"call me\"", ip: "41.210.1.1", userAgent: "Mozilla/5.0", source: "client",
+    }
+    const [header, row] = auditCsv([entry]).split("\r\n")
+    expect(header).toBe("Time,Action,Actor,Actor role,Target type,Target,Changes,Reason,IP,User agent,Source")
+    expect(row).toBe('2026-10-01T10:00:00Z,payout.reject,admin@yovibe.net,admin,payout,p1,"status: ""pending"" -> ""rejected""","Wrong account, ""call me""",41.210.1.1,Mozilla/5.0,client')
+  })
+})
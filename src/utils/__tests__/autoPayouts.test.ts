@@ -0,0 +1,77 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  DEFAULT_AUTO_PAYOUT_SETTINGS,
+  DEFAULT_PAYOUT_APPROVAL_RULES,
+  approvalDecision,
+  autoPayoutSettingsError,
+  isAutoPayoutDue,
+  isReadyAfterEvent,
+  nextScheduledRun,
+} from "../autoPayouts"
+
+// Monday 13:00 East Africa Time
+const now = new Date("2026-10-19T10:00:00Z")
+const day = 24 * 60 * 60 * 1000
+
+describe("nextScheduledRun", () => {
+  it("runs later today or rolls over to tomorrow", () => {
+    expect(nextScheduledRun({ cadence: "daily", hour: 14, weekday: 0 }, now)?.toISOString()).toBe("2026-10-19T11:00:00.000Z")
+    expect(nextScheduledRun({ cadence: "daily", hour: 9, weekday: 0 }, now)?.toISOString()).toBe("2026-10-20T06:00:00.000Z")
+  })
+
+  it("finds the next matching weekday", () => {
+    expect(nextScheduledRun({ cadence: "weekly", hour: 9, weekday: 3 }, now)?.toISOString()).toBe("2026-10-21T06:00:00.000Z")
+    expect(nextScheduledRun({ cadence: "weekly", hour: 9, weekday: 1 }, now)?.toISOString()).toBe("2026-10-26T06:00:00.000Z")
+  })
+
+  it("has no fixed schedule after events", () => {
+    expect(nextScheduledRun({ cadence: "after_event", hour: 9, weekday: 1 }, now)).toBeNull()
+  })
+})
+
+describe("isAutoPayoutDue", () => {
+  it("needs the settings enabled and the run time reached", () => {
+    expect(isAutoPayoutDue({ enabled: true, cadence: "daily", nextRunAt: "2026-10-19T09:00:00Z" }, now)).toBe(true)
+    expect(isAutoPayoutDue({ enabled: true, cadence: "daily", nextRunAt: "2026-10-20T06:00:00Z" }, now)).toBe(false)
+    expect(isAutoPayoutDue({ enabled: false, cadence: "after_event" }, now)).toBe(false)
+    expect(isAutoPayoutDue({ enabled: true, cadence: "after_event" }, now)).toBe(true)
+  })
+
+  it("settles an event once the wait after it has passed", () => {
+    const ended = new Date("2026-10-18T20:00:00Z")
+    expect(isReadyAfterEvent(ended, 12, now)).toBe(true)
+    expect(isReadyAfterEvent(ended, 24, now)).toBe(false)
+  })
+})
+
+describe("approvalDecision", () => {
+  const rules = DEFAULT_PAYOUT_APPROVAL_RULES
+  const established = { method: "mobile_money" as const, organizerSince: new Date(now.getTime() - 90 * day) }
+
+  it("approves small payouts from established organisers", () => {
+    expect(approvalDecision({ ...established, amount: 150000 }, rules, now)).toEqual({ approved: true, reason: null })
+  })
+
+  it("holds large payouts, new organisers, changed details and bank transfers", () => {
+    expect(approvalDecision({ ...established, amount: rules.autoApproveBelow }, rules, now).approved).toBe(false)
+    expect(approvalDecision({ ...established, amount: 1000, organizerSince: new Date(now.getTime() - 3 * day) }, rules, now).reason)
+      .toContain("14 days")
+    expect(approvalDecision({ ...established, amount: 1000, detailsUpdatedAt: new Date(now.getTime() - day) }, rules, now).reason)
+      .toContain("Payment details changed")
+    expect(approvalDecision({ ...established, amount: 1000, method: "bank_transfer" }, rules, now).approved).toBe(false)
+  })
+})
+
+describe("autoPayoutSettingsError", () => {
+  const details = { mobileMoney: { phoneNumber: "0772000000" } }
+
+  it("accepts the defaults once enabled with a payout number", () => {
+    expect(autoPayoutSettingsError({ ...DEFAULT_AUTO_PAYOUT_SETTINGS, enabled: true }, details)).toBeNull()
+  })
+
+  it("rejects a minimum under the platform floor and a missing destination", () => {
+    expect(autoPayoutSettingsError({ ...DEFAULT_AUTO_PAYOUT_SETTINGS, minimumAmount: 500 }, details)).toContain("UGX 10,000")
+    expect(autoPayoutSettingsError({ ...DEFAULT_AUTO_PAYOUT_SETTINGS, enabled: true, method: "bank_transfer" }, details))
+      .toContain("bank account")
+  })
+})
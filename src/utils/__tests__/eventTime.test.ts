@@ -0,0 +1,36 @@
+import { describe, it, expect } from "@jest/globals"
+import { parseStartTime, resolveEventEndTime, resolveEventStartTime } from "../eventTime"
+
+describe("parseStartTime", () => {
+  it("reads 12 and 24 hour start times", () => {
+    expect(parseStartTime("08:00 PM - 11:00 PM")).toEqual({ hour: 20, minute: 0 })
+    expect(parseStartTime("12:30 am")).toEqual({ hour: 0, minute: 30 })
+    expect(parseStartTime("21:15 - 23:00")).toEqual({ hour: 21, minute: 15 })
+    expect(parseStartTime("TBA")).toBeNull()
+  })
+})
+
+describe("resolveEventStartTime", () => {
+  // Midnight 20 June in Kampala (UTC+3), as the organiser's browser stores it
+  const date = "2026-06-19T21:00:00.000Z"
+
+  it("applies the start time in a fixed UTC offset", () => {
+    expect(resolveEventStartTime({ date, time: "08:00 PM - 11:00 PM" }, 180).toISOString()).toBe("2026-06-20T17:00:00.000Z")
+  })
+
+  it("keeps the stored date when the time cannot be read", () => {
+    expect(resolveEventStartTime({ date, time: "" }, 180).toISOString()).toBe(date)
+  })
+})
+
+describe("resolveEventEndTime", () => {
+  const date = "2026-06-19T21:00:00.000Z"
+
+  it("rolls an end time past midnight into the next day", () => {
+    expect(resolveEventEndTime({ date, time: "08:00 PM - 02:00 AM" }, 180).toISOString()).toBe("2026-06-20T23:00:00.000Z")
+  })
+
+  it("assumes the default duration without an end time", () => {
+    expect(resolveEventEndTime({ date, time: "20:00" }, 180).toISOString()).toBe("2026-06-20T23:00:00.000Z")
+  })
+})
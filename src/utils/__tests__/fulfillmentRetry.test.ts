@@ -0,0 +1,46 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  FULFILLMENT_MAX_ATTEMPTS,
+  FULFILLMENT_MAX_DELAY_MS,
+  fulfillmentBackoffMs,
+  isFulfillmentDue,
+  nextFulfillmentStep,
+} from "../fulfillmentRetry"
+
+const now = new Date("2026-10-19T12:00:00Z")
+const minutes = (m: number) => new Date(now.getTime() + m * 60 * 1000)
+
+describe("fulfillmentBackoffMs", () => {
+  it("doubles the delay after each failed attempt up to the cap", () => {
+    expect(fulfillmentBackoffMs(1)).toBe(60 * 1000)
+    expect(fulfillmentBackoffMs(2)).toBe(2 * 60 * 1000)
+    expect(fulfillmentBackoffMs(5)).toBe(16 * 60 * 1000)
+    expect(fulfillmentBackoffMs(20)).toBe(FULFILLMENT_MAX_DELAY_MS)
+  })
+})
+
+describe("nextFulfillmentStep", () => {
+  it("schedules a retry until attempts run out, then dead-letters", () => {
+    expect(nextFulfillmentStep(3, now)).toEqual({ status: "failed", nextAttemptAt: minutes(4) })
+    expect(nextFulfillmentStep(FULFILLMENT_MAX_ATTEMPTS, now)).toEqual({ status: "dead_letter", nextAttemptAt: null })
+  })
+})
+
+describe("isFulfillmentDue", () => {
+  it("runs confirmed payments straight away and failed ones once their backoff passes", () => {
+    expect(isFulfillmentDue({ status: "payment_confirmed" }, now)).toBe(true)
+    expect(isFulfillmentDue({ status: "failed", nextAttemptAt: minutes(1) }, now)).toBe(false)
+    expect(isFulfillmentDue({ status: "failed", nextAttemptAt: minutes(-1) }, now)).toBe(true)
+  })
+
+  it("reclaims a run only once it has gone stale", () => {
+    expect(isFulfillmentDue({ status: "fulfilling", updatedAt: minutes(-5) }, now)).toBe(false)
+    expect(isFulfillmentDue({ status: "fulfilling", updatedAt: minutes(-20) }, now)).toBe(true)
+  })
+
+  it("leaves unpaid, finished and dead-lettered purchases alone", () => {
+    for (const status of ["awaiting_payment", "fulfilled", "dead_letter", "cancelled"]) {
+      expect(isFulfillmentDue({ status, updatedAt: minutes(-60) }, now)).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "@jest/globals"
+import { computeGateStats, isEntryFeeAllowedAtGate, UNASSIGNED_GATE } from "../gateThroughput"
+
+const now = new Date("2026-03-01T20:00:00Z")
+const at = (minutesAgo: number, seconds = 0) => new Date(now.getTime() - minutesAgo * 60000 - seconds * 1000).toISOString()
+
+describe("isEntryFeeAllowedAtGate", () => {
+  it("accepts every ticket type when the gate has no fee list", () => {
+    expect(isEntryFeeAllowedAtGate({ gateName: "Main" }, "General")).toBe(true)
+    expect(isEntryFeeAllowedAtGate(null, "General")).toBe(true)
+  })
+
+  it("rejects ticket types outside the gate's fee list", () => {
+    const vip = { gateName: "VIP", allowedEntryFees: ["VIP", "VVIP"] }
+    expect(isEntryFeeAllowedAtGate(vip, "VIP")).toBe(true)
+    expect(isEntryFeeAllowedAtGate(vip, "General")).toBe(false)
+    expect(isEntryFeeAllowedAtGate(vip, undefined)).toBe(false)
+  })
+})
+
+describe("computeGateStats", () => {
+  it("buckets granted scans per minute with the newest minute last", () => {
+    const [stats] = computeGateStats(
+      [
+        { gate: "Main", validatedAt: at(0, 10), status: "granted" },
+        { gate: "Main", validatedAt: at(0, 40), status: "granted" },
+        { gate: "Main", validatedAt: at(2), status: "granted" },
+        { gate: "Main", validatedAt: at(1), status: "denied" },
+      ],
+      [{ gateName: "Main" }],
+      {},
+      now,
+      5,
+    )
+    expect(stats.perMinute).toEqual([0, 0, 1, 0, 2])
+    expect(stats.granted).toBe(3)
+    expect(stats.denied).toBe(1)
+  })
+
+  it("estimates minutes to clear from the tickets allowed at each gate", () => {
+    const scans = Array.from({ length: 10 }, (_, i) => ({ gate: "VIP", validatedAt: at(i % 5), status: "granted" as const }))
+    const stats = computeGateStats(scans, [{ gateName: "VIP", allowedEntryFees: ["VIP"] }, { gateName: "General" }], { VIP: 9, General: 40 }, now)
+    const vip = stats.find((s) => s.gate === "VIP")!
+    const general = stats.find((s) => s.gate === "General")!
+    expect(vip.ratePerMinute).toBe(2)
+    expect(vip.waiting).toBe(9)
+    expect(vip.estimatedMinutesToClear).toBe(5)
+    expect(general.waiting).toBe(49)
+    expect(general.estimatedMinutesToClear).toBeNull()
+  })
+
+  it("keeps the three latest scans per gate and groups legacy scans as unassigned", () => {
+    const stats = computeGateStats(
+      [1, 2, 3, 4].map((m) => ({ validatedAt: at(m), status: "granted" as const, ticketRef: `YV-${m}` })),
+      [],
+      {},
+      now,
+    )
+    expect(stats).toHaveLength(1)
+    expect(stats[0].gate).toBe(UNASSIGNED_GATE)
+    expect(stats[0].lastScans.map((s) => s.ticketRef)).toEqual(["YV-1", "YV-2", "YV-3"])
+  })
+
+  it("opens a shared gate to all types when any of its links is unrestricted", () => {
+    const [stats] = computeGateStats([], [{ gateName: "Main", allowedEntryFees: ["VIP"] }, { gateName: "Main" }], { VIP: 1, General: 2 }, now)
+    expect(stats.allowedEntryFees).toBeUndefined()
+    expect(stats.waiting).toBe(3)
+  })
+})
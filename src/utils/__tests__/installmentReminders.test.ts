@@ -0,0 +1,47 @@
+import { describe, it, expect } from "@jest/globals"
+import { graceEndsAt, nextPendingInstallment, planLapse, reminderDue } from "../installmentReminders"
+
+const due = new Date("2026-08-10T12:00:00Z")
+const hours = (h: number) => new Date(due.getTime() + h * 60 * 60 * 1000)
+const pending = { index: 1, dueDate: due, status: "pending" as const }
+
+describe("reminderDue", () => {
+  it("escalates as the due date gets closer", () => {
+    expect(reminderDue(pending, hours(-100))).toBeNull()
+    expect(reminderDue(pending, hours(-48))?.key).toBe("due_in_3_days")
+    expect(reminderDue(pending, hours(-12))?.channels).toEqual(["push", "email"])
+    expect(reminderDue(pending, hours(-1))?.channels).toContain("sms")
+    expect(reminderDue(pending, hours(30))?.key).toBe("overdue")
+  })
+
+  it("sends each stage once and skips stages that were missed", () => {
+    expect(reminderDue({ ...pending, remindersSent: ["due_tomorrow"] }, hours(-12))).toBeNull()
+    expect(reminderDue({ ...pending, remindersSent: [] }, hours(-1))?.key).toBe("due_today")
+    expect(reminderDue({ ...pending, status: "paid" }, hours(-1))).toBeNull()
+  })
+})
+
+describe("planLapse", () => {
+  const plan = {
+    status: "active",
+    eventDate: new Date("2026-09-01T18:00:00Z"),
+    installments: [{ index: 0, dueDate: new Date("2026-07-01T00:00:00Z"), status: "paid" as const }, pending],
+  }
+
+  it("keeps the plan open through the grace period", () => {
+    expect(nextPendingInstallment(plan.installments)).toBe(pending)
+    expect(graceEndsAt(due, 3)).toEqual(hours(72))
+    expect(planLapse(plan, hours(71), 3)).toBeNull()
+    expect(planLapse(plan, hours(73), 3)).toBe("grace_expired")
+    expect(planLapse(plan, hours(73), 7)).toBeNull()
+  })
+
+  it("expires unpaid plans once the event has passed", () => {
+    expect(planLapse({ ...plan, eventDate: hours(-1) }, hours(1), 3)).toBe("event_passed")
+  })
+
+  it("leaves paid-up and inactive plans alone", () => {
+    expect(planLapse({ ...plan, installments: [plan.installments[0]] }, hours(500))).toBeNull()
+    expect(planLapse({ ...plan, status: "expired" }, hours(500))).toBeNull()
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "@jest/globals"
+import { DEFAULT_INSTALLMENT_TEMPLATES, buildDueDates, splitIntoInstallments } from "../../models/InstallmentPlan"
+import {
+  eligibleInstallmentTemplates,
+  findInstallmentTemplate,
+  templateRejection,
+  templateSetupError,
+} from "../installmentTemplates"
+
+const now = new Date("2026-10-01T12:00:00Z")
+const eventDate = new Date("2026-10-31T20:00:00Z")
+const day = 24 * 60 * 60 * 1000
+
+const depositPlus2 = {
+  id: "d2",
+  name: "Deposit + 2",
+  parts: 3,
+  depositPercent: 30,
+  dueDates: ["2026-10-10T00:00:00.000Z", "2026-10-20T00:00:00.000Z"],
+  minTicketPrice: 50000,
+}
+
+describe("splitIntoInstallments", () => {
+  it("keeps the legacy 2x and 3x splits", () => {
+    expect(splitIntoInstallments(100001, DEFAULT_INSTALLMENT_TEMPLATES[0])).toEqual([50001, 50000])
+    expect(splitIntoInstallments(100000, DEFAULT_INSTALLMENT_TEMPLATES[1])).toEqual([40000, 30000, 30000])
+  })
+
+  it("takes the template deposit and lets the last part absorb rounding", () => {
+    const parts = splitIntoInstallments(100000, { parts: 4, depositPercent: 25 })
+    expect(parts).toEqual([25000, 25000, 25000, 25000])
+    const odd = splitIntoInstallments(100001, { parts: 4, depositPercent: 10 })
+    expect(odd).toEqual([10000, 30000, 30000, 30001])
+  })
+})
+
+describe("buildDueDates", () => {
+  it("uses the template's fixed dates after the deposit", () => {
+    expect(buildDueDates(depositPlus2, eventDate, now).map((d) => d.toISOString())).toEqual([
+      now.toISOString(),
+      ...depositPlus2.dueDates,
+    ])
+  })
+
+  it("spaces parts evenly ahead of the cutoff before the event", () => {
+    const dates = buildDueDates({ parts: 2, lastDueDaysBeforeEvent: 10 }, eventDate, now)
+    expect(dates[1].getTime() - now.getTime()).toBe(Math.floor((eventDate.getTime() - 10 * day - now.getTime()) / 2))
+    expect(dates[1].getTime()).toBeLessThan(eventDate.getTime() - 10 * day)
+  })
+})
+
+describe("templateRejection", () => {
+  it("offers a template only on tickets from its minimum price", () => {
+    expect(templateRejection(depositPlus2, { unitPrice: 40000, eventDate, now })).toMatch(/from UGX 50,000/)
+    expect(templateRejection(depositPlus2, { unitPrice: 50000, eventDate, now })).toBeNull()
+  })
+
+  it("closes templates once their dates or the cutoff have passed", () => {
+    expect(templateRejection(depositPlus2, { unitPrice: 60000, eventDate, now: new Date("2026-10-11T00:00:00Z") })).toMatch(/first due date/)
+    const late = { id: "l", name: "Late", parts: 2, depositPercent: 50, lastDueDaysBeforeEvent: 7 }
+    expect(templateRejection(late, { unitPrice: 1, eventDate, now: new Date("2026-10-25T00:00:00Z") })).toMatch(/close to the event/)
+  })
+
+  it("falls back to the defaults for events without templates", () => {
+    expect(eligibleInstallmentTemplates({}, { unitPrice: 1000, eventDate, now }).map((t) => t.id)).toEqual(["2", "3", "4", "5"])
+    const event = { installmentTemplates: [depositPlus2] }
+    expect(eligibleInstallmentTemplates(event, { unitPrice: 1000, eventDate, now })).toEqual([])
+    expect(findInstallmentTemplate(event, "2")).toBeUndefined()
+    expect(findInstallmentTemplate(event, "d2")).toBe(depositPlus2)
+  })
+})
+
+describe("templateSetupError", () => {
+  it("accepts a well-formed template", () => {
+    expect(templateSetupError(depositPlus2, eventDate)).toBeNull()
+  })
+
+  it("rejects bad parts, deposits and schedules", () => {
+    expect(templateSetupError({ ...depositPlus2, parts: 1 })).toMatch(/between 2 and 6/)
+    expect(templateSetupError({ ...depositPlus2, depositPercent: 100 })).toMatch(/deposit/)
+    expect(templateSetupError({ ...depositPlus2, dueDates: [depositPlus2.dueDates[0]] })).toMatch(/Add 2 due dates/)
+    expect(templateSetupError({ ...depositPlus2, dueDates: [...depositPlus2.dueDates].reverse() })).toMatch(/in order/)
+    expect(templateSetupError({ ...depositPlus2, lastDueDaysBeforeEvent: 14 }, eventDate)).toMatch(/at least 14 days/)
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  adjustmentEntry,
+  buildStatement,
+  checkLedgerInvariants,
+  installmentPaymentEntry,
+  isBalanced,
+  payoutEntry,
+  refundEntry,
+  resaleSaleEntry,
+  revenueShareEntry,
+  revenueShareRefundEntry,
+  statementCsv,
+  ticketSaleEntry,
+  walletBalance,
+} from "../ledger"
+
+const sale = (ticketId: string, purchasedAt: string, eventStartTime?: string) =>
+  ticketSaleEntry({
+    ticketId, organizerId: "org-1", totalAmount: 50000, venueRevenue: 42500, gatewayFee: 1500,
+    paymentMethod: "mobile_money", purchasedAt, eventStartTime,
+  })
+
+describe("ledger entries", () => {
+  it("splits a sale between the organiser, commission and the gateway fee", () => {
+    const entry = sale("t1", "2026-10-01T10:00:00Z")
+    expect(entry.lines).toEqual([
+      { account: "cash:pawapay", amount: 48500 },
+      { account: "platform:gateway_fees", amount: 1500 },
+      { account: "organizer:org-1", amount: -42500 },
+      { account: "platform:commission", amount: -7500 },
+    ])
+    expect(isBalanced(entry)).toBe(true)
+  })
+
+  it("pays installment tickets out of the buyer's deposits", () => {
+    const payment = installmentPaymentEntry({ planId: "p1", index: 0, amount: 25000, serviceFee: 2000, paymentMethod: "mobile_money", paidAt: "2026-10-01T00:00:00Z" })
+    const ticket = ticketSaleEntry({
+      ticketId: "t1", organizerId: "org-1", totalAmount: 25000, venueRevenue: 21250, gatewayFee: 750,
+      paymentReference: "installment_plan_p1", purchasedAt: "2026-10-02T00:00:00Z",
+    })
+    expect(payment.lines).toContainEqual({ account: "buyer_deposits", amount: -25000 })
+    expect(ticket.lines[0]).toEqual({ account: "buyer_deposits", amount: 25000 })
+    expect(ticket.lines.some((l) => l.account === "platform:gateway_fees")).toBe(false)
+    expect([payment, ticket].every(isBalanced)).toBe(true)
+  })
+
+  it("charges refunds to the organiser up to what the tickets earned them", () => {
+    const entry = refundEntry({
+      refundId: "r1", organizerId: "org-1", amount: 48500, organizerShare: 42500, provider: "pawapay",
+      ticketIds: ["t1"], completedAt: "2026-10-03T00:00:00Z",
+    })
+    expect(entry.lines).toEqual([
+      { account: "organizer:org-1", amount: 42500 },
+      { account: "platform:commission", amount: 6000 },
+      { account: "cash:pawapay", amount: -48500 },
+    ])
+    expect(refundEntry({ refundId: "r2", amount: 10000, organizerShare: 0, provider: "pesapal", fromInstallments: true, chargeback: true, completedAt: "2026-10-03T00:00:00Z" }))
+      .toMatchObject({ entry_type: "chargeback", idempotency_key: "chargeback:r2", lines: [{ account: "buyer_deposits", amount: 10000 }, { account: "cash:pesapal", amount: -10000 }] })
+  })
+
+  it("pays resale proceeds through resale_payable, outside the seller's organiser account", () => {
+    const payment = resaleSaleEntry({ paymentId: "rp1", amount: 30000, provider: "pawapay", paidAt: "2026-10-04T00:00:00Z" })
+    const payout = payoutEntry({ payoutId: "po-r", organizerId: "org-1", amount: 30000, method: "mobile_money", processedAt: "2026-10-05T00:00:00Z", resale: true })
+    expect(payment).toMatchObject({ organizer_id: null, lines: [{ account: "cash:pawapay", amount: 30000 }, { account: "resale_payable", amount: -30000 }] })
+    expect(payout).toMatchObject({ organizer_id: null, lines: [{ account: "resale_payable", amount: 30000 }, { account: "cash:pawapay", amount: -30000 }] })
+    expect(walletBalance([sale("t1", "2026-10-01T10:00:00Z"), payment, payout], "org-1", new Date("2026-10-10T00:00:00Z")).totalPayouts).toBe(0)
+  })
+})
+
+describe("revenue shares", () => {
+  it("moves a beneficiary's cut out of the creator's wallet and back on refund", () => {
+    const saleEntry = sale("t1", "2026-10-01T10:00:00Z")
+    const share = revenueShareEntry({
+      ticketId: "t1", ownerId: "org-1", beneficiaryId: "venue-1", amount: 12750, occurredAt: "2026-10-01T10:00:00Z",
+    })
+    const now = new Date("2026-10-02T00:00:00Z")
+    expect(isBalanced(share)).toBe(true)
+    expect(walletBalance([saleEntry, share], "org-1", now).availableBalance).toBe(29750)
+    expect(walletBalance([share], "venue-1", now)).toMatchObject({ availableBalance: 12750, totalEarnings: 12750 })
+
+    const refund = refundEntry({
+      refundId: "r1", organizerId: "org-1", amount: 48500, organizerShare: 42500, provider: "pawapay",
+      ticketIds: ["t1"], completedAt: "2026-10-03T00:00:00Z",
+    })
+    const returned = revenueShareRefundEntry(share, { refundId: "r1", completedAt: "2026-10-03T00:00:00Z" })
+    const later = new Date("2026-10-04T00:00:00Z")
+    expect(walletBalance([saleEntry, share, refund, returned], "org-1", later).availableBalance).toBe(0)
+    expect(walletBalance([share, returned], "venue-1", later)).toMatchObject({ availableBalance: 0, totalRefunds: 12750 })
+  })
+})
+
+describe("walletBalance", () => {
+  it("derives available and pending balances from the entries", () => {
+    const entries = [
+      sale("t1", "2026-10-01T10:00:00Z", "2026-10-05T20:00:00Z"),
+      sale("t2", "2026-10-02T10:00:00Z", "2026-11-01T20:00:00Z"),
+      payoutEntry({ payoutId: "po1", organizerId: "org-1", amount: 40000, method: "mobile_money", processedAt: "2026-10-06T00:00:00Z" }),
+      adjustmentEntry({ key: "a1", organizerId: "org-1", amount: -500, memo: "Duplicate scan credit", occurredAt: "2026-10-07T00:00:00Z" }),
+    ]
+    expect(walletBalance(entries, "org-1", new Date("2026-10-10T00:00:00Z"))).toEqual({
+      organizerId: "org-1",
+      availableBalance: 2000,
+      pendingBalance: 42500,
+      totalEarnings: 85000,
+      totalPayouts: 40000,
+      totalRefunds: 0,
+      totalAdjustments: -500,
+      lastPayoutDate: "2026-10-06T00:00:00Z",
+    })
+  })
+})
+
+describe("buildStatement", () => {
+  it("carries a running balance and opens at the balance before the range", () => {
+    const entries = [
+      payoutEntry({ payoutId: "po1", organizerId: "org-1", amount: 40000, processedAt: "2026-10-06T00:00:00Z", reference: "PO-1" }),
+      sale("t1", "2026-10-01T10:00:00Z"),
+      sale("t2", "2026-10-02T10:00:00Z"),
+    ]
+    const statement = buildStatement(entries, "org-1", { from: "2026-10-02T00:00:00Z" })
+    expect(statement.openingBalance).toBe(42500)
+    expect(statement.lines.map((l) => [l.amount, l.balance])).toEqual([[42500, 85000], [-40000, 45000]])
+    expect(statement.closingBalance).toBe(45000)
+    expect(statementCsv(statement).split("\r\n")[3]).toBe("2026-10-06T00:00:00Z,payout,Payout PO-1,po1,-40000,45000")
+  })
+})
+
+describe("checkLedgerInvariants", () => {
+  it("flags tickets and payouts that drifted from the ledger", () => {
+    const entries = [
+      sale("t1", "2026-10-01T10:00:00Z"),
+      sale("t-gone", "2026-10-01T11:00:00Z"),
+      payoutEntry({ payoutId: "po-failed", organizerId: "org-1", amount: 1000, processedAt: "2026-10-02T00:00:00Z" }),
+      { ...payoutEntry({ payoutId: "po-ok", organizerId: "org-1", amount: 500, processedAt: "2026-10-02T00:00:00Z" }), lines: [{ account: "organizer:org-1" as const, amount: 500 }] },
+    ]
+    const issues = checkLedgerInvariants({
+      entries,
+      tickets: [
+        { id: "t1", organizerId: "org-1", venueRevenue: 42000, totalAmount: 50000, refunded: true },
+        { id: "t2", organizerId: "org-1", venueRevenue: 42500, totalAmount: 50000, refunded: false },
+      ],
+      payouts: [
+        { id: "po-ok", organizerId: "org-1", amount: 500, status: "completed" },
+        { id: "po-missing", organizerId: "org-1", amount: 700, status: "completed" },
+        { id: "po-failed", organizerId: "org-1", amount: 1000, status: "failed" },
+      ],
+      wallets: [{ organizerId: "org-1", availableBalance: 0, pendingBalance: 0 }],
+    })
+    expect(issues.map((i) => `${i.kind}:${i.sourceId ?? i.organizerId}`)).toEqual([
+      "unbalanced_entry:po-ok",
+      "sale_amount_drift:t1",
+      "missing_refund:t1",
+      "missing_sale:t2",
+      "orphan_sale:t-gone",
+      "missing_payout:po-missing",
+      "orphan_payout:po-failed",
+      "wallet_drift:org-1",
+    ])
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "@jest/globals"
+import { expectedOrderTotal } from "../orderPricing"
+import type { PromoCode } from "../../models/PromoCode"
+
+const orderedAt = new Date("2026-06-01T12:00:00Z")
+
+const general = {
+  name: "General",
+  amount: "30,000",
+  pricePhases: [
+    { name: "Early bird", amount: "20,000", untilSold: 100 },
+    { name: "Regular", amount: "30,000" },
+  ],
+}
+
+const early: PromoCode = { code: "EARLY10", type: "percentage", value: 10, active: true }
+const squad: PromoCode = { code: "SQUAD", type: "fixed", value: 15000, minGroupSize: 4, autoApply: true, active: true }
+
+describe("server-side order pricing", () => {
+  it("prices an order at the phase open when it was placed", () => {
+    expect(expectedOrderTotal({ fee: general, quantity: 2, soldCount: 40, orderedAt })).toBe(40000)
+    expect(expectedOrderTotal({ fee: general, quantity: 2, soldCount: 100, orderedAt })).toBe(60000)
+  })
+
+  it("only honours codes the order qualified for", () => {
+    const input = { fee: general, quantity: 2, soldCount: 100, orderedAt, promoCodes: [early, squad] }
+    expect(expectedOrderTotal({ ...input, promoCode: "early10" })).toBe(54000)
+    expect(expectedOrderTotal({ ...input, promoCode: "made-up" })).toBe(60000)
+    expect(expectedOrderTotal({ ...input, promoCode: "EARLY10", promoCodes: [{ ...early, maxUses: 5 }], promoUsage: { EARLY10: 5 } })).toBe(60000)
+    // The group deal beats the typed code for a group of four
+    expect(expectedOrderTotal({ ...input, quantity: 4, promoCode: "EARLY10" })).toBe(105000)
+  })
+
+  it("prices tables per seat and adds the late fee", () => {
+    const table = { name: "VIP table", amount: "600,000" }
+    expect(expectedOrderTotal({ fee: table, quantity: 6, tableSize: 6, soldCount: 0, orderedAt })).toBe(600000)
+    expect(expectedOrderTotal({
+      fee: table, quantity: 6, tableSize: 6, soldCount: 0, orderedAt: new Date("2026-06-01T09:00:00Z"),
+      eventStartTime: new Date("2026-06-01T19:00:00Z"), lateFeePercent: 10,
+    })).toBe(660000)
+  })
+})
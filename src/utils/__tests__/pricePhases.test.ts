@@ -0,0 +1,46 @@
+import { describe, it, expect } from "@jest/globals"
+import { resolvePricePhase, salesPhaseLabel } from "../pricePhases"
+
+const fee = {
+  name: "Ordinary",
+  amount: "30,000",
+  pricePhases: [
+    { name: "Early bird", amount: "20,000", endsAt: "2026-03-01T00:00:00Z", untilSold: 100 },
+    { name: "Regular", amount: "30,000", endsAt: "2026-03-14T18:00:00Z" },
+    { name: "Gate", amount: "40,000" },
+  ],
+}
+
+describe("resolvePricePhase", () => {
+  it("sells at the flat amount when a fee has no phases", () => {
+    expect(resolvePricePhase({ name: "VIP", amount: "UGX 50,000" }, 0)).toEqual({ amount: 50000, phase: null, next: null, remainingAtPrice: null })
+  })
+
+  it("uses the first phase that is still open", () => {
+    const early = resolvePricePhase(fee, 40, new Date("2026-02-10T00:00:00Z"))
+    expect(early.phase?.name).toBe("Early bird")
+    expect(early.amount).toBe(20000)
+    expect(early.next?.name).toBe("Regular")
+    expect(early.remainingAtPrice).toBe(60)
+  })
+
+  it("closes a phase on its date or its sold count, whichever comes first", () => {
+    expect(resolvePricePhase(fee, 100, new Date("2026-02-10T00:00:00Z")).phase?.name).toBe("Regular")
+    expect(resolvePricePhase(fee, 10, new Date("2026-03-02T00:00:00Z")).phase?.name).toBe("Regular")
+  })
+
+  it("falls through to the last phase once the others have closed", () => {
+    const gate = resolvePricePhase(fee, 10, new Date("2026-03-14T19:00:00Z"))
+    expect(gate.phase?.name).toBe("Gate")
+    expect(gate.amount).toBe(40000)
+    expect(gate.next).toBeNull()
+  })
+})
+
+describe("salesPhaseLabel", () => {
+  it("keeps early/late buckets for tickets sold without phases", () => {
+    expect(salesPhaseLabel({ pricePhase: "Gate" })).toBe("Gate")
+    expect(salesPhaseLabel({ isLatePurchase: true })).toBe("Late")
+    expect(salesPhaseLabel({})).toBe("Early")
+  })
+})
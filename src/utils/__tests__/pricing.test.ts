@@ -0,0 +1,177 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  DEFAULT_COMMISSION_RATE,
+  calculateGatewayFee,
+  calculateInstallmentFees,
+  calculatePayoutBreakdown,
+  calculateRevenueSplit,
+  installmentRefundAmount,
+  isLatePurchase,
+  quoteFromTotal,
+  quoteTicketPrice,
+  resolveCommissionRate,
+  ticketRefundAmount,
+} from "../pricing"
+
+// Instants, so the cutoff (7am East Africa Time) does not depend on the machine's timezone
+const eventStart = new Date("2026-06-20T18:00:00Z")
+const early = new Date("2026-06-19T09:00:00Z")
+const late = new Date("2026-06-20T04:00:00Z")
+
+describe("commission", () => {
+  it("uses the default rate unless the organiser has a valid override", () => {
+    expect(resolveCommissionRate()).toBe(DEFAULT_COMMISSION_RATE)
+    expect(resolveCommissionRate(null)).toBe(DEFAULT_COMMISSION_RATE)
+    expect(resolveCommissionRate(0.1)).toBe(0.1)
+    expect(resolveCommissionRate(0)).toBe(0)
+    expect(resolveCommissionRate(1.5)).toBe(DEFAULT_COMMISSION_RATE)
+    expect(resolveCommissionRate(-0.1)).toBe(DEFAULT_COMMISSION_RATE)
+    expect(resolveCommissionRate(Number.NaN)).toBe(DEFAULT_COMMISSION_RATE)
+  })
+
+  it("splits a total so commission and venue revenue add back up", () => {
+    expect(calculateRevenueSplit(100000)).toEqual({ appCommission: 15000, venueRevenue: 85000, commissionRate: 0.15 })
+    expect(calculateRevenueSplit(100000, 0.1)).toEqual({ appCommission: 10000, venueRevenue: 90000, commissionRate: 0.1 })
+    const odd = calculateRevenueSplit(33333)
+    expect(odd.appCommission).toBe(5000)
+    expect(odd.appCommission + odd.venueRevenue).toBe(33333)
+  })
+})
+
+describe("fees", () => {
+  it("charges gateway fees by payment method, to the cent", () => {
+    expect(calculateGatewayFee(10000, "credit_card")).toBe(340)
+    expect(calculateGatewayFee(10000, "mobile_money")).toBe(300)
+    expect(calculateGatewayFee(10000, "bank_transfer")).toBe(0)
+    expect(calculateGatewayFee(10000)).toBe(0)
+    expect(calculateGatewayFee(12345, "credit_card")).toBe(419.73)
+  })
+
+  it("adds the 8% installment service fee on top of the principal", () => {
+    expect(calculateInstallmentFees(40000)).toEqual({ serviceFee: 3200, totalDue: 43200, yovibeCommission: 6000, venueRevenue: 34000 })
+    expect(calculateInstallmentFees(40000, 0.05).yovibeCommission).toBe(2000)
+  })
+
+  it("starts late fees at 7am on the event day", () => {
+    expect(isLatePurchase(eventStart, early)).toBe(false)
+    expect(isLatePurchase(eventStart, new Date("2026-06-20T03:59:00Z"))).toBe(false)
+    expect(isLatePurchase(eventStart, late)).toBe(true)
+  })
+
+  it("takes the event day from the event's own timezone", () => {
+    // 1am on the 21st in Kampala is still the 20th in UTC
+    const afterMidnight = new Date("2026-06-20T22:00:00Z")
+    expect(isLatePurchase(afterMidnight, new Date("2026-06-20T23:00:00Z"))).toBe(false)
+    expect(isLatePurchase(afterMidnight, new Date("2026-06-21T04:00:00Z"))).toBe(true)
+    expect(isLatePurchase(afterMidnight, new Date("2026-06-20T23:00:00Z"), 0)).toBe(true)
+  })
+})
+
+describe("quoteTicketPrice", () => {
+  it("itemises a plain order", () => {
+    expect(quoteTicketPrice({ unitPrice: 20000, quantity: 2, eventStartTime: eventStart, paymentMethod: "mobile_money", now: early })).toEqual({
+      subtotal: 40000,
+      discount: 0,
+      lateFee: 0,
+      total: 40000,
+      serviceFee: 0,
+      amountDue: 40000,
+      gatewayFee: 1200,
+      commissionRate: 0.15,
+      commission: 6000,
+      organiserNet: 34000,
+      isLatePurchase: false,
+    })
+  })
+
+  it("works out the late fee on the discounted subtotal", () => {
+    const quote = quoteTicketPrice({ unitPrice: 20000, quantity: 2, eventStartTime: eventStart, lateFeePercent: 10, discount: 10000, now: late })
+    expect(quote.lateFee).toBe(3000)
+    expect(quote.total).toBe(33000)
+    expect(quote.isLatePurchase).toBe(true)
+    expect(quote.commission + quote.organiserNet).toBe(quote.total)
+  })
+
+  it("only flags a late purchase when a late fee is charged", () => {
+    expect(quoteTicketPrice({ unitPrice: 20000, quantity: 1, eventStartTime: eventStart, now: late }).isLatePurchase).toBe(false)
+  })
+
+  it("clamps discounts to the subtotal", () => {
+    const quote = quoteTicketPrice({ unitPrice: 5000, quantity: 1, discount: 8000 })
+    expect(quote.discount).toBe(5000)
+    expect(quote.total).toBe(0)
+    expect(quoteTicketPrice({ unitPrice: 5000, quantity: 1, discount: -100 }).discount).toBe(0)
+  })
+
+  it("adds the service fee for installment orders and takes the gateway fee on what is charged", () => {
+    const quote = quoteTicketPrice({ unitPrice: 50000, quantity: 1, paymentMethod: "credit_card", installments: true })
+    expect(quote.serviceFee).toBe(4000)
+    expect(quote.amountDue).toBe(54000)
+    expect(quote.gatewayFee).toBe(1836)
+    // Commission is taken on the ticket price, not the service fee
+    expect(quote.commission).toBe(7500)
+  })
+
+  it("applies the organiser's commission override", () => {
+    const quote = quoteTicketPrice({ unitPrice: 30000, quantity: 1, commissionRate: 0.1 })
+    expect(quote.commissionRate).toBe(0.1)
+    expect(quote.commission).toBe(3000)
+    expect(quote.organiserNet).toBe(27000)
+  })
+})
+
+describe("quoteFromTotal", () => {
+  it("keeps the agreed total and backs the late fee out of it", () => {
+    const quote = quoteFromTotal(22000, { eventStartTime: eventStart, lateFeePercent: 10, now: late })
+    expect(quote.total).toBe(22000)
+    expect(quote.lateFee).toBe(2000)
+    expect(quote.subtotal).toBe(20000)
+    expect(quote.isLatePurchase).toBe(true)
+  })
+
+  it("records the discount without changing the total", () => {
+    const quote = quoteFromTotal(16000, { discount: 4000, paymentMethod: "credit_card", now: early, eventStartTime: eventStart })
+    expect(quote.subtotal - quote.discount + quote.lateFee).toBe(16000)
+    expect(quote.gatewayFee).toBe(544)
+    expect(quote.commission).toBe(2400)
+  })
+
+  it("agrees with quoteTicketPrice when a late phase has no late fee", () => {
+    const quote = quoteFromTotal(20000, { eventStartTime: eventStart, lateFeePercent: 0, now: late })
+    expect(quote.lateFee).toBe(0)
+    expect(quote.isLatePurchase).toBe(false)
+    expect(quoteTicketPrice({ unitPrice: 20000, quantity: 1, eventStartTime: eventStart, lateFeePercent: 0, now: late }).isLatePurchase).toBe(false)
+  })
+
+  it("handles free tickets from a full promo discount", () => {
+    const quote = quoteFromTotal(0, { discount: 20000 })
+    expect(quote.total).toBe(0)
+    expect(quote.commission).toBe(0)
+    expect(quote.organiserNet).toBe(0)
+  })
+})
+
+describe("refunds", () => {
+  it("refunds what was paid less the gateway fee", () => {
+    expect(ticketRefundAmount({ totalAmount: 20000, gatewayFee: 600 })).toBe(19400)
+    expect(ticketRefundAmount({ totalAmount: 0, basePrice: 15000 })).toBe(15000)
+    expect(ticketRefundAmount({ totalAmount: 100, gatewayFee: 600 })).toBe(0)
+  })
+
+  it("refunds 40% of installment principal and keeps service fees", () => {
+    const paid = [{ amount: 40000, serviceFee: 3200 }, { amount: 20000, serviceFee: 1600 }]
+    expect(installmentRefundAmount(paid)).toBe(24000)
+    expect(installmentRefundAmount([{ amount: 33333 }])).toBe(13333)
+    expect(installmentRefundAmount([])).toBe(0)
+  })
+})
+
+describe("calculatePayoutBreakdown", () => {
+  it("totals the stored split of each ticket", () => {
+    expect(calculatePayoutBreakdown([
+      { totalAmount: 20000, appCommission: 3000, venueRevenue: 17000, gatewayFee: 680 },
+      { totalAmount: 16000, appCommission: 1600, venueRevenue: 14400, gatewayFee: 480.5 },
+      { totalAmount: null, appCommission: undefined, venueRevenue: 0 },
+    ])).toEqual({ ticketCount: 3, gross: 36000, commission: 4600, gatewayFees: 1160.5, net: 31400 })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "@jest/globals"
+import { bestAutoPromo, findPromoCode, promoDiscount, promoRejection, resolveOrderPromo, summarizeRedemptions } from "../promoCodes"
+import type { PromoCode } from "../../models/PromoCode"
+
+const now = new Date("2026-06-01T12:00:00Z")
+
+const early: PromoCode = { code: "early20", type: "percentage", value: 20, active: true }
+const vip: PromoCode = { code: "VIPFIVE", type: "fixed", value: 5000, entryFees: ["VIP"], maxUses: 2, active: true }
+const squad: PromoCode = { code: "SQUAD", type: "percentage", value: 10, minGroupSize: 4, autoApply: true, active: true }
+
+describe("promo code rules", () => {
+  it("looks codes up case-insensitively", () => {
+    expect(findPromoCode([early, vip], " EARLY20 ")).toBe(early)
+    expect(findPromoCode([early], "")).toBeUndefined()
+  })
+
+  it("enforces validity windows, usage limits, tiers and group size", () => {
+    const ctx = { ticketType: "VIP", quantity: 1, now }
+    expect(promoRejection({ ...early, validFrom: "2026-07-01T00:00:00Z" }, ctx)).toMatch(/not valid yet/)
+    expect(promoRejection({ ...early, validUntil: "2026-05-01T00:00:00Z" }, ctx)).toMatch(/expired/)
+    expect(promoRejection({ ...early, active: false }, ctx)).toMatch(/no longer active/)
+    expect(promoRejection(vip, { ...ctx, uses: 1 })).toBeNull()
+    expect(promoRejection(vip, { ...ctx, uses: 2 })).toMatch(/fully redeemed/)
+    expect(promoRejection(vip, { ...ctx, ticketType: "Ordinary" })).toMatch(/does not apply/)
+    expect(promoRejection(squad, { ...ctx, quantity: 3 })).toMatch(/at least 4/)
+    expect(promoRejection(squad, { ...ctx, quantity: 4 })).toBeNull()
+  })
+
+  it("never discounts more than the subtotal", () => {
+    expect(promoDiscount(early, 30000)).toBe(6000)
+    expect(promoDiscount(vip, 30000)).toBe(5000)
+    expect(promoDiscount(vip, 3000)).toBe(3000)
+    expect(promoDiscount({ ...early, value: 150 }, 30000)).toBe(30000)
+  })
+
+  it("resolves an order's discount without handing out the other codes", () => {
+    const order = { ticketType: "VIP", quantity: 4, subtotal: 40000, now }
+    expect(resolveOrderPromo([early, vip, squad], { ...order, code: "vipfive" })).toEqual({
+      acceptsCodes: true, promo: { code: "VIPFIVE", type: "fixed", value: 5000, autoApply: false }, discount: 5000,
+    })
+    // A refused code falls back to the group deal and says why
+    expect(resolveOrderPromo([vip, squad], { ...order, code: "VIPFIVE" }, { VIPFIVE: 2 })).toEqual({
+      acceptsCodes: true, promo: { code: "SQUAD", type: "percentage", value: 10, autoApply: true }, discount: 4000,
+      error: "This promo code has been fully redeemed",
+    })
+    expect(resolveOrderPromo([early], { ...order, code: "NOPE" })).toMatchObject({ promo: null, discount: 0, error: expect.stringMatching(/doesn't exist/) })
+    expect(resolveOrderPromo([{ ...early, active: false }], order)).toEqual({ acceptsCodes: false, promo: null, discount: 0 })
+  })
+
+  it("picks the largest qualifying group deal", () => {
+    const crew: PromoCode = { ...squad, code: "CREW", value: 15, minGroupSize: 6 }
+    const ctx = { ticketType: "Ordinary", now }
+    expect(bestAutoPromo([squad, crew, early], { ...ctx, quantity: 5 }, 50000)).toBe(squad)
+    expect(bestAutoPromo([squad, crew], { ...ctx, quantity: 6 }, 60000)).toBe(crew)
+    expect(bestAutoPromo([squad, crew], { ...ctx, quantity: 6 }, 60000, { CREW: 1 })).toBe(crew)
+    expect(bestAutoPromo([{ ...crew, maxUses: 1 }], { ...ctx, quantity: 6 }, 60000, { CREW: 1 })).toBeNull()
+  })
+
+  it("summarizes redemptions per code", () => {
+    const report = summarizeRedemptions([early, vip], [
+      { id: "1", event_id: "e", code: "EARLY20", quantity: 2, discount_amount: 4000, order_total: 16000, created_at: "" },
+      { id: "2", event_id: "e", code: "early20", quantity: 1, discount_amount: 2000, order_total: 8000, created_at: "" },
+    ])
+    expect(report[0]).toEqual({ code: "EARLY20", redemptions: 2, ticketsSold: 3, discountGiven: 6000, revenue: 24000 })
+    expect(report[1]).toEqual({ code: "VIPFIVE", redemptions: 0, ticketsSold: 0, discountGiven: 0, revenue: 0 })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  artistKey, buildRecommendationProfile, eventEntryPrice, rankEvents, scoreEvent,
+  type RecommendableEvent, type RecommendationHistoryItem,
+} from "../recommendations"
+
+// A Wednesday afternoon in Kampala
+const now = new Date("2026-10-21T12:00:00Z")
+const kampala = { latitude: 0.3136, longitude: 32.5811 }
+
+function event(overrides: Partial<RecommendableEvent> = {}): RecommendableEvent {
+  return {
+    id: "night-out",
+    venueSlug: "kyoto",
+    venueName: "Kyoto",
+    artists: [],
+    // Friday 22:00 EAT
+    startsAt: new Date("2026-10-23T19:00:00Z"),
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    price: 20000,
+    ticketsSold: 0,
+    venueLocation: null,
+    ...overrides,
+  }
+}
+
+function ticket(overrides: Partial<RecommendationHistoryItem> = {}): RecommendationHistoryItem {
+  return {
+    venueSlug: "kyoto",
+    venueName: "Kyoto",
+    artists: ["Azawi"],
+    // A Friday night
+    startsAt: new Date("2026-10-09T19:00:00Z"),
+    pricePaid: 20000,
+    attended: true,
+    ...overrides,
+  }
+}
+
+describe("event recommendations", () => {
+  it("explains a match with the user's attendance and follows", () => {
+    const profile = buildRecommendationProfile([ticket(), ticket()], [
+      { targetType: "artist", targetKey: artistKey("  Eddy  Kenzo "), targetName: "Eddy Kenzo" },
+    ])
+    const scored = scoreEvent(event({ artists: ["Eddy Kenzo", "Azawi"] }), profile, { now })
+
+    expect(scored.reasons.map((r) => r.kind)).toEqual(["followed_artist", "attended_venue"])
+    expect(scored.reasons[1].text).toBe("Because you went to Kyoto")
+    expect(scored.score).toBeGreaterThan(10)
+  })
+
+  it("ranks the user's venues, artists and nights above a popular stranger", () => {
+    const profile = buildRecommendationProfile([ticket(), ticket({ venueSlug: "cayenne", venueName: "Cayenne", attended: false })], [])
+    const ranked = rankEvents([
+      event({ id: "popular", venueSlug: "elsewhere", venueName: "Elsewhere", ticketsSold: 200 }),
+      event({ id: "azawi", venueSlug: "elsewhere", venueName: "Elsewhere", artists: ["AZAWI"] }),
+      event({ id: "kyoto" }),
+      event({ id: "cayenne", venueSlug: "cayenne", venueName: "Cayenne" }),
+    ], profile, { now })
+
+    expect(ranked.map((r) => r.eventId)).toEqual(["kyoto", "azawi", "cayenne", "popular"])
+    expect(ranked[1].reasons[0].text).toBe("Because you saw AZAWI")
+    expect(ranked[2].reasons[0].text).toBe("You've had tickets at Cayenne")
+  })
+
+  it("learns price sensitivity and time-of-week habits", () => {
+    const profile = buildRecommendationProfile([ticket({ pricePaid: 10000 }), ticket({ pricePaid: 30000 })], [])
+    expect(profile.typicalPrice).toBe(20000)
+
+    const affordable = scoreEvent(event({ venueSlug: "new", price: 15000 }), profile, { now })
+    const pricey = scoreEvent(event({ venueSlug: "new", price: 60000 }), profile, { now })
+    expect(affordable.reasons.map((r) => r.text)).toContain("In your usual price range")
+    expect(affordable.reasons.map((r) => r.text)).toContain("You usually go out on Fridays")
+    expect(pricey.score).toBeLessThan(affordable.score - 2)
+
+    // Monday 22:00 EAT
+    const monday = scoreEvent(event({ venueSlug: "new", startsAt: new Date("2026-10-26T19:00:00Z") }), profile, { now })
+    expect(monday.reasons.map((r) => r.kind)).not.toContain("habit")
+  })
+
+  it("favours venues close to the visitor", () => {
+    const near = scoreEvent(event({ venueLocation: { latitude: 0.3163, longitude: 32.5822 } }), null, { now, position: kampala })
+    const far = scoreEvent(event({ venueLocation: { latitude: 0.0512, longitude: 32.4637 } }), null, { now, position: kampala })
+    expect(near.reasons[0]).toEqual({ kind: "nearby", text: "Under 1 km away" })
+    expect(far.reasons.map((r) => r.kind)).not.toContain("nearby")
+  })
+
+  it("ranks anonymous visitors' events by popularity and recency", () => {
+    const ranked = rankEvents([
+      event({ id: "quiet", startsAt: new Date("2026-11-01T19:00:00Z") }),
+      event({ id: "soon", startsAt: new Date("2026-10-21T19:00:00Z") }),
+      event({ id: "new", createdAt: new Date("2026-10-21T06:00:00Z"), startsAt: new Date("2026-11-01T19:00:00Z") }),
+      event({ id: "popular", ticketsSold: 60, startsAt: new Date("2026-11-01T19:00:00Z") }),
+    ], null, { now })
+
+    expect(ranked.map((r) => r.eventId)).toEqual(["popular", "new", "soon", "quiet"])
+    expect(ranked[0].reasons[0].text).toBe("60 tickets sold lately")
+    expect(ranked[1].reasons[0].text).toBe("Just announced")
+  })
+
+  it("prices an event by its cheapest way in", () => {
+    expect(eventEntryPrice({ isFreeEntry: true, entryFees: [{ amount: "50,000" }] })).toBe(0)
+    expect(eventEntryPrice({ entryFees: [{ amount: "UGX 50,000" }, { amount: "30,000" }, { amount: "10000", isTable: true }] })).toBe(30000)
+    expect(eventEntryPrice({ priceIndicator: 25000, entryFees: [{ amount: "30,000" }] })).toBe(25000)
+    expect(eventEntryPrice({ entryFees: [] })).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "@jest/globals"
+import { parseStatementCsv, reconcile, summarizeReconciliation } from "../reconciliation"
+import type { GatewayTransaction, LedgerRecord } from "../../models/Reconciliation"
+
+const deposit = (reference: string, amount: number, status: GatewayTransaction["status"] = "completed"): GatewayTransaction =>
+  ({ provider: "pawapay", kind: "deposit", reference, amount, status })
+
+const purchase = (id: string, reference: string, amount: number, status: LedgerRecord["status"] = "completed"): LedgerRecord =>
+  ({ source: "ticket", id, kind: "deposit", provider: "pawapay", references: [reference], amount, status, label: id })
+
+const statusOf = (rows: ReturnType<typeof reconcile>) => Object.fromEntries(rows.map((r) => [r.id, r.status]))
+
+describe("parseStatementCsv", () => {
+  it("reads quoted PawaPay exports and normalises status and kind", () => {
+    const csv = [
+      "Deposit ID,Amount,Currency,Status,Created",
+      'dep-1,"50,000",UGX,COMPLETED,2026-10-01T10:00:00Z',
+      "dep-2,20000,UGX,FAILED,2026-10-01T11:00:00Z",
+      ",100,UGX,COMPLETED,",
+    ].join("\r\n")
+    const { transactions, errors } = parseStatementCsv(csv, "pawapay")
+    expect(transactions).toEqual([
+      { provider: "pawapay", kind: "deposit", reference: "dep-1", aliases: [], amount: 50000, currency: "UGX", status: "completed", occurredAt: "2026-10-01T10:00:00.000Z" },
+      expect.objectContaining({ reference: "dep-2", status: "failed" }),
+    ])
+    expect(errors).toEqual(["Line 4: missing transaction id or amount"])
+  })
+
+  it("keeps PesaPal merchant references and confirmation codes as aliases", () => {
+    const csv = "Order Tracking Id,Merchant Reference,Confirmation Code,Amount,Payment Status Description,Type\ntrk-1,YV-1,CONF9,15000,Completed,Refund"
+    const [t] = parseStatementCsv(csv, "pesapal").transactions
+    expect(t).toMatchObject({ kind: "refund", reference: "trk-1", aliases: ["YV-1", "CONF9"], status: "completed" })
+  })
+
+  it("rejects files without an id or amount column", () => {
+    expect(parseStatementCsv("Name,Total\nA,1", "pawapay").errors).toEqual(["The file needs a transaction id column and an amount column"])
+  })
+})
+
+describe("reconcile", () => {
+  it("classifies matches, orphans, missing payments and amount mismatches", () => {
+    const rows = reconcile(
+      [deposit("dep-ok", 50000), deposit("dep-orphan", 30000), deposit("dep-short", 20000), deposit("dep-failed", 10000, "failed")],
+      [purchase("p1", "dep-ok", 49999.99), purchase("p2", "dep-short", 25000), purchase("p3", "dep-failed", 10000), purchase("p4", "dep-gone", 5000)],
+    )
+    expect(statusOf(rows)).toEqual({
+      "deposit:dep-ok": "matched",
+      "deposit:dep-orphan": "orphan_payment",
+      "deposit:dep-short": "amount_mismatch",
+      "deposit:dep-failed": "missing_payment",
+      "ticket:p4": "missing_payment",
+    })
+  })
+
+  it("flags references settled twice or claimed by more than one record", () => {
+    const rows = reconcile(
+      [deposit("dep-twice", 10000), deposit("dep-twice", 10000), deposit("dep-shared", 8000)],
+      [purchase("p1", "dep-twice", 10000), purchase("p2", "dep-shared", 8000), { ...purchase("i1", "dep-shared", 8000), source: "installment" }],
+    )
+    expect(statusOf(rows)).toEqual({ "deposit:dep-twice": "duplicate", "deposit:dep-shared": "duplicate" })
+  })
+
+  it("treats a ticket that never settled on our side as an orphan of the gateway payment", () => {
+    const [row] = reconcile([deposit("dep-1", 10000)], [purchase("p1", "dep-1", 10000, "pending")])
+    expect(row).toMatchObject({ status: "orphan_payment", note: "Our record is pending" })
+  })
+
+  it("suggests issuing tickets when the order is on record and a refund otherwise", () => {
+    const rows = reconcile([deposit("dep-known", 10000), deposit("dep-unknown", 10000)], [], { fulfillableReferences: ["dep-known"] })
+    expect(rows.map((r) => r.action)).toEqual(["create_fulfillment", "open_refund"])
+  })
+
+  it("ignores failed gateway transactions nobody claims", () => {
+    const rows = reconcile([deposit("dep-x", 10000, "failed")], [])
+    expect(rows).toEqual([])
+    expect(summarizeReconciliation(rows, 3)).toEqual({
+      matched: 0, orphan_payment: 0, missing_payment: 0, amount_mismatch: 0, duplicate: 0, unchecked: 3,
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "@jest/globals"
+import type { RevenueShareRule } from "../../models/RevenueShare"
+import { revenueShareSetupError, shareOf, splitPayouts, splitTicketRevenue } from "../revenueShares"
+
+const rules: RevenueShareRule[] = [
+  { id: "r1", beneficiaryId: "venue", role: "venue", type: "percentage", value: 30 },
+  { id: "r2", beneficiaryId: "artist", role: "artist_management", type: "fixed", value: 5000, entryFees: ["VIP"] },
+]
+
+describe("splitTicketRevenue", () => {
+  it("gives the owner whatever the rules leave", () => {
+    expect(splitTicketRevenue({ venueRevenue: 42500, entryFeeType: "Regular" }, rules, "owner")).toEqual([
+      { beneficiaryId: "owner", role: "owner", amount: 29750 },
+      { beneficiaryId: "venue", role: "venue", amount: 12750 },
+    ])
+  })
+
+  it("takes fixed shares first and applies per-type rules only to that type", () => {
+    const shares = splitTicketRevenue({ venueRevenue: 85000, entryFeeType: "VIP" }, rules, "owner")
+    expect(shares).toEqual([
+      { beneficiaryId: "owner", role: "owner", amount: 54500 },
+      { beneficiaryId: "artist", role: "artist_management", amount: 5000 },
+      { beneficiaryId: "venue", role: "venue", amount: 25500 },
+    ])
+  })
+
+  it("never shares out more than the ticket earned", () => {
+    const greedy: RevenueShareRule[] = [{ id: "g", beneficiaryId: "venue", role: "venue", type: "fixed", value: 9000 }]
+    expect(splitTicketRevenue({ venueRevenue: 8000 }, greedy, "owner")).toEqual([{ beneficiaryId: "venue", role: "venue", amount: 8000 }])
+  })
+})
+
+describe("splitPayouts", () => {
+  const tickets = [
+    { id: "t1", venueRevenue: 42500, entryFeeType: "Regular" },
+    { id: "t2", venueRevenue: 85000, entryFeeType: "VIP" },
+  ]
+
+  it("groups each beneficiary's cut into one payout", () => {
+    const payouts = splitPayouts(tickets, rules, "owner")
+    expect(payouts.map((p) => [p.beneficiaryId, p.amount, p.ticketIds])).toEqual([
+      ["owner", 84250, ["t1", "t2"]],
+      ["venue", 38250, ["t1", "t2"]],
+      ["artist", 5000, ["t2"]],
+    ])
+    expect(payouts.reduce((sum, p) => sum + p.amount, 0)).toBe(127500)
+  })
+
+  it("reports a single party's share", () => {
+    expect(shareOf(tickets, rules, "owner", "artist")).toBe(5000)
+    expect(shareOf(tickets, [], "owner", "owner")).toBe(127500)
+  })
+})
+
+describe("revenueShareSetupError", () => {
+  const fees = [{ name: "Regular", amount: "50000" }, { name: "VIP", amount: "100000" }]
+
+  it("accepts valid rules", () => {
+    expect(revenueShareSetupError(rules, fees, "owner")).toBeNull()
+  })
+
+  it("rejects over-allocation, unknown ticket types and the owner", () => {
+    const extra: RevenueShareRule = { id: "r3", beneficiaryId: "promoter", role: "co_organizer", type: "percentage", value: 80 }
+    expect(revenueShareSetupError([...rules, extra], fees, "owner")).toContain("110%")
+    expect(revenueShareSetupError([{ ...rules[1], entryFees: ["Gold"] }], fees, "owner")).toContain("Gold")
+    expect(revenueShareSetupError([{ ...rules[0], beneficiaryId: "owner" }], fees, "owner")).toContain("creator")
+  })
+})
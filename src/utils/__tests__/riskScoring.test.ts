@@ -0,0 +1,49 @@
+import { describe, it, expect } from "@jest/globals"
+import { namesMatch, normalizeRiskPhone, scoreCheckoutRisk, type RiskSignals } from "../riskScoring"
+
+const clean: RiskSignals = {
+  phoneAttempts: 0, emailAttempts: 0, deviceAttempts: 0, payerName: "Sarah Nakato", buyerNames: ["Sarah Nakato"],
+  photoSharedWith: 0, chargebacks: 0, confirmedFraud: 0, abandonedSeatOrders: 0,
+}
+
+describe("checkout risk scoring", () => {
+  it("allows an ordinary checkout", () => {
+    expect(scoreCheckoutRisk(clean)).toEqual({ score: 0, action: "allow", factors: [] })
+    expect(scoreCheckoutRisk({ ...clean, phoneAttempts: 3, emailAttempts: 3 }).action).toBe("allow")
+  })
+
+  it("adds up velocity across phone, email and network", () => {
+    const result = scoreCheckoutRisk({ ...clean, phoneAttempts: 5, emailAttempts: 4, deviceAttempts: 9 })
+    expect(result.factors.map((f) => [f.signal, f.points])).toEqual([["velocity_phone", 20], ["velocity_email", 10], ["velocity_device", 30]])
+    expect(result).toMatchObject({ score: 60, action: "step_up" })
+  })
+
+  it("matches names loosely", () => {
+    expect(namesMatch("NAKATO SARAH", "Sarah N.")).toBe(true)
+    expect(namesMatch("Achieng Okello", "Sarah Nakato")).toBe(false)
+    expect(scoreCheckoutRisk({ ...clean, payerName: "Achieng Okello" }).factors[0]).toMatchObject({ signal: "name_mismatch", points: 20 })
+    expect(scoreCheckoutRisk({ ...clean, payerName: "" }).factors).toEqual([])
+  })
+
+  it("steps up on a chargeback and blocks on confirmed fraud", () => {
+    expect(scoreCheckoutRisk({ ...clean, chargebacks: 1 })).toMatchObject({ score: 50, action: "step_up" })
+    expect(scoreCheckoutRisk({ ...clean, chargebacks: 2 }).action).toBe("block")
+    expect(scoreCheckoutRisk({ ...clean, confirmedFraud: 1 })).toMatchObject({ score: 100, action: "block" })
+  })
+
+  it("counts the buyer's abandoned seat holds past the first few", () => {
+    expect(scoreCheckoutRisk({ ...clean, abandonedSeatOrders: 2 }).factors).toEqual([])
+    expect(scoreCheckoutRisk({ ...clean, abandonedSeatOrders: 4 }).factors[0]).toMatchObject({ signal: "seat_hold_abuse", points: 30 })
+  })
+
+  it("steps up when another buyer already used the security photo", () => {
+    const reuse = scoreCheckoutRisk({ ...clean, photoSharedWith: 1 })
+    expect(reuse).toMatchObject({ score: 40, action: "step_up" })
+    expect(reuse.factors[0]).toMatchObject({ signal: "photo_reuse" })
+  })
+
+  it("normalises Ugandan phone numbers", () => {
+    expect(normalizeRiskPhone("0772 123 456")).toBe("256772123456")
+    expect(normalizeRiskPhone("+256772123456")).toBe("256772123456")
+  })
+})
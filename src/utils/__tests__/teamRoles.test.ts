@@ -0,0 +1,46 @@
+import { describe, it, expect } from "@jest/globals"
+import { hasPermission, resolveEventAccess, teamInviteError } from "../teamRoles"
+
+const event = { createdBy: "owner-1" }
+const member = { organizationId: "org-1", status: "active" as const }
+
+describe("team roles", () => {
+  it("gives creators and admins every permission", () => {
+    expect(resolveEventAccess(event, "owner-1")?.role).toBe("owner")
+    expect(hasPermission(resolveEventAccess(event, "owner-1"), "manage_team")).toBe(true)
+    expect(resolveEventAccess(event, "someone", { isAdmin: true })?.role).toBe("admin")
+  })
+
+  it("limits members to what their role allows", () => {
+    const finance = resolveEventAccess(event, "m-1", { member: { ...member, role: "finance" } })
+    expect(hasPermission(finance, "payouts")).toBe(true)
+    expect(hasPermission(finance, "refunds")).toBe(true)
+    expect(hasPermission(finance, "reentry")).toBe(false)
+
+    const door = resolveEventAccess(event, "m-2", { member: { ...member, role: "door_manager" } })
+    expect(hasPermission(door, "reentry")).toBe(true)
+    expect(hasPermission(door, "staff_tokens")).toBe(true)
+    expect(hasPermission(door, "payouts")).toBe(false)
+    expect(hasPermission(door, "event_status")).toBe(false)
+
+    const readOnly = resolveEventAccess(event, "m-3", { member: { ...member, role: "read_only" } })
+    expect(readOnly?.permissions).toEqual(["view_dashboard"])
+    expect(readOnly?.organizationId).toBe("org-1")
+  })
+
+  it("ignores pending or removed memberships and strangers", () => {
+    expect(resolveEventAccess(event, "m-1", { member: { ...member, role: "finance", status: "invited" } })).toBeNull()
+    expect(resolveEventAccess(event, "m-1", { member: { ...member, role: "finance", status: "removed" } })).toBeNull()
+    expect(resolveEventAccess(event, "stranger")).toBeNull()
+    expect(hasPermission(null, "view_dashboard")).toBe(false)
+  })
+
+  it("validates invites", () => {
+    const existing = [{ email: "Door@Club.ug", status: "active" as const }, { email: "old@club.ug", status: "removed" as const }]
+    expect(teamInviteError("not-an-email", "finance", [])).toMatch(/valid email/)
+    expect(teamInviteError("a@b.ug", "owner", [])).toMatch(/Choose a role/)
+    expect(teamInviteError(" door@club.ug ", "finance", existing)).toMatch(/already on your team/)
+    expect(teamInviteError("old@club.ug", "finance", existing)).toBeNull()
+    expect(teamInviteError("me@club.ug", "finance", [], "ME@club.ug")).toMatch(/already own/)
+  })
+})
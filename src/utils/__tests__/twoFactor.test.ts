@@ -0,0 +1,58 @@
+import { describe, it, expect } from "@jest/globals"
+import { createHmac } from "crypto"
+import {
+  backupCodeFromBytes, base32Decode, base32Encode, formatBackupCode, hotp, isBackupCodeInput,
+  isPrivilegedUserType, totp, totpUri, verifyTotp, type HmacSha1,
+} from "../twoFactor"
+
+const hmacSha1: HmacSha1 = (key, message) => createHmac("sha1", Buffer.from(key)).update(Buffer.from(message)).digest()
+// The RFC 4226/6238 test secret
+const SECRET = Uint8Array.from(Buffer.from("12345678901234567890"))
+
+describe("two-factor codes", () => {
+  it("round-trips base32", () => {
+    expect(base32Encode(SECRET)).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ")
+    expect(Buffer.from(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq")).toString()).toBe("12345678901234567890")
+    expect(() => base32Decode("GEZ1")).toThrow()
+  })
+
+  it("matches the RFC 4226 HOTP vectors", () => {
+    expect([0, 1, 2, 3].map((counter) => hotp(hmacSha1, SECRET, counter))).toEqual(["755224", "287082", "359152", "969429"])
+  })
+
+  it("matches the RFC 6238 TOTP vectors", () => {
+    expect(totp(hmacSha1, SECRET, 59_000, 8)).toBe("94287082")
+    expect(totp(hmacSha1, SECRET, 1_111_111_109_000, 8)).toBe("07081804")
+    expect(totp(hmacSha1, SECRET, 2_000_000_000_000, 8)).toBe("69279037")
+    // Counter past 32 bits
+    expect(totp(hmacSha1, SECRET, 20_000_000_000_000, 8)).toBe("65353130")
+  })
+
+  it("accepts one step of drift and returns the step", () => {
+    const now = 1_760_000_000_000
+    const previous = totp(hmacSha1, SECRET, now - 30_000)
+    expect(verifyTotp(hmacSha1, SECRET, previous, now)).toBe(Math.floor(now / 30_000) - 1)
+    expect(verifyTotp(hmacSha1, SECRET, totp(hmacSha1, SECRET, now - 90_000), now)).toBeNull()
+    expect(verifyTotp(hmacSha1, SECRET, "12 34", now)).toBeNull()
+  })
+
+  it("builds the provisioning URL", () => {
+    expect(totpUri("JBSWY3DPEHPK3PXP", "owner@yovibe.net")).toBe(
+      "otpauth://totp/YoVibe:owner%40yovibe.net?secret=JBSWY3DPEHPK3PXP&issuer=YoVibe&algorithm=SHA1&digits=6&period=30"
+    )
+  })
+
+  it("formats and recognises backup codes", () => {
+    const code = backupCodeFromBytes(Uint8Array.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 31]))
+    expect(code).toBe("23456789AZ")
+    expect(formatBackupCode(code)).toBe("23456-789AZ")
+    expect(isBackupCodeInput("23456-789az")).toBe(true)
+    expect(isBackupCodeInput("123456")).toBe(false)
+  })
+
+  it("treats admins and organisers as privileged", () => {
+    expect(isPrivilegedUserType("admin")).toBe(true)
+    expect(isPrivilegedUserType("club_owner")).toBe(true)
+    expect(isPrivilegedUserType("regular_user")).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "@jest/globals"
+import {
+  checkInAgrees, checkInRetryAt, distanceMeters, geofenceRefusal, normalizeCheckInRating, normalizeCheckInTags,
+} from "../vibeCheckIn"
+
+const now = new Date("2026-10-16T20:00:00Z")
+const minutesAgo = (m: number) => new Date(now.getTime() - m * 60000)
+const venue = { latitude: 0.3136, longitude: 32.5811 }
+// About 100m north of the venue
+const nearby = { latitude: 0.3145, longitude: 32.5811, accuracy: 20, timestamp: now.getTime() - 30000 }
+
+describe("geofenceRefusal", () => {
+  it("accepts a fresh, precise fix at the venue", () => {
+    expect(distanceMeters(venue, nearby)).toBeCloseTo(100, -1)
+    expect(geofenceRefusal(nearby, venue, now)).toBeNull()
+  })
+
+  it("refuses fixes that are too far, vague, stale or the no-fix default", () => {
+    expect(geofenceRefusal({ ...nearby, latitude: 0.3236 }, venue, now)).toMatch(/at the venue/)
+    expect(geofenceRefusal({ ...nearby, accuracy: 500 }, venue, now)).toMatch(/precise/)
+    expect(geofenceRefusal({ ...nearby, accuracy: null }, venue, now)).toMatch(/precise/)
+    expect(geofenceRefusal({ ...nearby, timestamp: minutesAgo(10).getTime() }, venue, now)).toMatch(/out of date/)
+    expect(geofenceRefusal(undefined, venue, now)).toMatch(/Share your location/)
+    expect(geofenceRefusal(nearby, { latitude: null, longitude: null }, now)).toMatch(/scanned ticket/)
+  })
+})
+
+describe("checkInRetryAt", () => {
+  it("limits check-ins per venue and per hour", () => {
+    expect(checkInRetryAt([{ venueId: "v1", createdAt: minutesAgo(25) }], "v1", now)).toBeNull()
+    expect(checkInRetryAt([{ venueId: "v1", createdAt: minutesAgo(5) }], "v1", now)).toEqual(new Date(now.getTime() + 15 * 60000))
+    expect(checkInRetryAt([{ venueId: "v1", createdAt: minutesAgo(5) }], "v2", now)).toBeNull()
+
+    const busy = [50, 40, 30, 25].map((m, i) => ({ venueId: `v${i + 2}`, createdAt: minutesAgo(m) }))
+    expect(checkInRetryAt(busy, "v1", now)).toEqual(new Date(now.getTime() + 10 * 60000))
+    expect(checkInRetryAt(busy.slice(1), "v1", now)).toBeNull()
+  })
+})
+
+describe("check-in input", () => {
+  it("keeps ratings to half steps from 1 to 5 and tags to known ones", () => {
+    expect(normalizeCheckInRating(3.7)).toBe(3.5)
+    expect(normalizeCheckInRating("5")).toBe(5)
+    expect(normalizeCheckInRating(0)).toBeNull()
+    expect(normalizeCheckInRating(null)).toBeNull()
+    expect(normalizeCheckInTags(["packed", "packed", "bogus", "good_dj", "dancing", "quiet"])).toEqual(["packed", "good_dj", "dancing"])
+    expect(normalizeCheckInTags("packed")).toEqual([])
+  })
+
+  it("agrees with the crowd within a point and a half", () => {
+    expect(checkInAgrees(4, 3)).toBe(true)
+    expect(checkInAgrees(5, 2)).toBe(false)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "@jest/globals"
+import { buildVibeBaselines, computeVenueVibeIndex, uploaderTrust, vibeNightSlot, vibeTrend, type VibeBaseline } from "../vibeIndex"
+
+// 23:00 East Africa Time on Friday 16 October 2026
+const now = new Date("2026-10-16T20:00:00Z")
+const minutesAgo = (m: number) => new Date(now.getTime() - m * 60000)
+const usual = (hour: number, mean: number, photos = 5): VibeBaseline => ({ venueId: "v1", weekday: 5, hour, mean, photos })
+
+describe("vibeNightSlot", () => {
+  it("counts the small hours as part of the night before", () => {
+    const slot = vibeNightSlot(new Date("2026-10-16T22:30:00Z"))
+    expect(slot).toEqual({ weekday: 5, hour: 1, nightStart: new Date("2026-10-16T03:00:00Z") })
+    expect(vibeNightSlot(new Date("2026-10-17T03:00:00Z")).weekday).toBe(6)
+  })
+})
+
+describe("uploaderTrust", () => {
+  it("starts new uploaders halfway and moves with their record", () => {
+    expect(uploaderTrust({ scored: 0, rejected: 0, removed: 0 })).toBe(0.5)
+    expect(uploaderTrust({ scored: 18, rejected: 0, removed: 0 })).toBe(0.95)
+    expect(uploaderTrust({ scored: 1, rejected: 0, removed: 3 })).toBeCloseTo(0.13, 2)
+    expect(uploaderTrust({ scored: 0, rejected: 10, removed: 10 })).toBe(0.1)
+  })
+})
+
+describe("computeVenueVibeIndex", () => {
+  it("weights fresh photos and trusted uploaders over stale ones", () => {
+    const index = computeVenueVibeIndex({
+      venueId: "v1",
+      now,
+      baselines: [],
+      photos: [
+        { rating: 4.5, uploadedAt: minutesAgo(5), trust: 1 },
+        { rating: 1, uploadedAt: minutesAgo(180), trust: 1 },
+        { rating: 1, uploadedAt: minutesAgo(10), trust: 0.1 },
+      ],
+    })
+    expect(index.index).toBe(4)
+    expect(index.source).toBe("live")
+    expect(index.livePhotos).toBe(3)
+    expect(index.lastPhotoAt).toBe(minutesAgo(5).toISOString())
+  })
+
+  it("falls back to the usual vibe for this night and hour", () => {
+    const index = computeVenueVibeIndex({ venueId: "v1", now, photos: [], baselines: [usual(23, 3.2), usual(22, 2.8, 1)] })
+    expect(index).toMatchObject({ index: 3.2, typical: 3.2, source: "typical", confidence: "low" })
+    expect(vibeTrend(index)).toBeNull()
+  })
+
+  it("ignores thin baselines and other nights of the week", () => {
+    const index = computeVenueVibeIndex({ venueId: "v1", now, photos: [], baselines: [usual(23, 3.2, 2), { ...usual(23, 4), weekday: 6 }] })
+    expect(index).toMatchObject({ index: 0, typical: null, source: "none", confidence: "none" })
+  })
+
+  it("pulls a lone photo towards the usual vibe and grows confident with more", () => {
+    const one = computeVenueVibeIndex({ venueId: "v1", now, baselines: [usual(23, 2)], photos: [{ rating: 5, uploadedAt: now, trust: 1 }] })
+    expect(one).toMatchObject({ index: 3.5, source: "blended", confidence: "medium" })
+    expect(vibeTrend(one)).toBe("above")
+
+    const many = computeVenueVibeIndex({
+      venueId: "v1", now, baselines: [usual(23, 2)],
+      photos: [0, 2, 4].map((m) => ({ rating: 5, uploadedAt: minutesAgo(m), trust: 1 })),
+    })
+    expect(many.confidence).toBe("high")
+    expect(many.index).toBe(4.2)
+  })
+
+  it("charts each hour of tonight so far against the usual vibe", () => {
+    const index = computeVenueVibeIndex({
+      venueId: "v1", now, baselines: [usual(21, 2), usual(22, 2.5)],
+      photos: [{ rating: 4, uploadedAt: new Date("2026-10-16T18:30:00Z"), trust: 1 }],
+    })
+    // 06:00 to 23:00 local
+    expect(index.tonight).toHaveLength(17)
+    const [nine, ten] = index.tonight.slice(-2)
+    expect(nine).toMatchObject({ at: "2026-10-16T19:00:00.000Z", typical: 2, photos: 1 })
+    // A half-hour-old 4 against a usual 2
+    expect(nine.index).toBe(2.8)
+    expect(ten).toMatchObject({ at: now.toISOString(), typical: 2.5, photos: 0 })
+    expect(index.tonight[0]).toMatchObject({ index: null, typical: null, photos: 0 })
+  })
+})
+
+describe("check-ins in the index", () => {
+  it("counts rated check-ins apart from photos and shows tags enough attendees agree on", () => {
+    const index = computeVenueVibeIndex({
+      venueId: "v1",
+      now,
+      baselines: [],
+      photos: [
+        { rating: 4, uploadedAt: minutesAgo(20), trust: 1 },
+        { rating: 4, uploadedAt: minutesAgo(5), trust: 0.6, checkIn: true },
+      ],
+      tags: [
+        { tags: ["packed", "good_dj"], at: minutesAgo(5) },
+        { tags: ["packed", "long_queue"], at: minutesAgo(30) },
+        { tags: ["long_queue"], at: minutesAgo(200) },
+      ],
+    })
+    expect(index).toMatchObject({ index: 4, livePhotos: 1, liveCheckIns: 1, tags: ["packed"] })
+    expect(index.lastPhotoAt).toBe(minutesAgo(5).toISOString())
+  })
+})
+
+describe("buildVibeBaselines", () => {
+  it("averages ratings per venue, night of the week and hour", () => {
+    const baselines = buildVibeBaselines([
+      { venueId: "v1", rating: 3, uploadedAt: new Date("2026-10-09T20:10:00Z") },
+      { venueId: "v1", rating: 4, uploadedAt: new Date("2026-10-16T20:40:00Z") },
+      { venueId: "v1", rating: 2, uploadedAt: new Date("2026-10-16T22:10:00Z") },
+      { venueId: "v2", rating: 5, uploadedAt: new Date("2026-10-16T20:10:00Z") },
+    ])
+    expect(baselines).toEqual([
+      { venueId: "v1", weekday: 5, hour: 23, mean: 3.5, photos: 2 },
+      { venueId: "v1", weekday: 5, hour: 1, mean: 2, photos: 1 },
+      { venueId: "v2", weekday: 5, hour: 23, mean: 5, photos: 1 },
+    ])
+  })
+})
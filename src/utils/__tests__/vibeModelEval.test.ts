@@ -0,0 +1,103 @@
+import { describe, it, expect } from "@jest/globals"
+import type { VibeModelMetrics, VibeModelVersion } from "../../models/VibeModel"
+import { evaluateVibePredictions, summarizeShadowScores, vibePromotionRefusals } from "../vibeModelEval"
+import { VIBE_CLASS_RATINGS, vibeFromPrediction } from "../vibeScoring"
+
+const dataset = { name: "kampala-nights", hash: "abc123" }
+const now = new Date("2026-10-19T12:00:00Z")
+
+// One-hot-ish probabilities with the given top class and confidence
+function probs(top: number, confidence: number): number[] {
+  const rest = (1 - confidence) / 5
+  return VIBE_CLASS_RATINGS.map((_, i) => (i === top ? confidence : rest))
+}
+
+function version(name: string, metrics: Partial<VibeModelMetrics> | null): VibeModelVersion {
+  return {
+    version: name,
+    path: name,
+    inputSize: 224,
+    classRatings: VIBE_CLASS_RATINGS,
+    createdAt: now.toISOString(),
+    promotedAt: null,
+    metrics: metrics && {
+      ...evaluateVibePredictions([], VIBE_CLASS_RATINGS, dataset, now),
+      samples: 500, accuracy: 0.7, ratingMae: 0.4, calibrationError: 0.05,
+      ...metrics,
+    },
+  }
+}
+
+describe("vibe model evaluation", () => {
+  it("builds the confusion matrix and rating error against labelled classes", () => {
+    const metrics = evaluateVibePredictions([
+      { label: 4, probabilities: probs(4, 0.9) },
+      { label: 4, probabilities: probs(5, 0.6) },
+      { label: 0, probabilities: probs(0, 0.8) },
+      { label: 2, rating: 3, probabilities: probs(2, 0.7) },
+    ], VIBE_CLASS_RATINGS, dataset, now)
+
+    expect(metrics.samples).toBe(4)
+    expect(metrics.accuracy).toBe(0.75)
+    expect(metrics.confusion[4]).toEqual([0, 0, 0, 0, 1, 1])
+    expect(metrics.confusion[0][0]).toBe(1)
+    // 4 -> 4.8 is off by 0.8; the person rated the class-2 photo 3 and the model says 2.5
+    expect(metrics.ratingMae).toBe(0.325)
+    expect(metrics).toMatchObject({ dataset: "kampala-nights", datasetHash: "abc123", evaluatedAt: now.toISOString() })
+  })
+
+  it("measures calibration from confidence bins", () => {
+    // Confident and right, confident and wrong: 0.9 confidence but 50% accuracy
+    const metrics = evaluateVibePredictions([
+      { label: 3, probabilities: probs(3, 0.9) },
+      { label: 3, probabilities: probs(1, 0.9) },
+      { label: 1, probabilities: probs(1, 0.3) },
+    ], VIBE_CLASS_RATINGS, dataset, now)
+
+    const high = metrics.calibration[9]
+    expect(high).toMatchObject({ count: 2, confidence: 0.9, accuracy: 0.5 })
+    expect(metrics.calibration[3]).toMatchObject({ count: 1, accuracy: 1 })
+    expect(metrics.calibrationError).toBeCloseTo((2 * 0.4 + 0.7) / 3, 4)
+    expect(metrics.lowConfidenceShare).toBeCloseTo(1 / 3, 4)
+  })
+
+  it("refuses labels the model has no class for", () => {
+    expect(() => evaluateVibePredictions([{ label: 6, probabilities: probs(0, 0.9) }], VIBE_CLASS_RATINGS, dataset, now)).toThrow()
+  })
+
+  it("uses a version's own class mapping", () => {
+    const reversed = [...VIBE_CLASS_RATINGS].reverse()
+    expect(vibeFromPrediction(probs(0, 0.9), reversed).vibeRating).toBe(vibeFromPrediction(probs(5, 0.9)).vibeRating)
+  })
+})
+
+describe("vibe model promotion", () => {
+  const promoted = version("vibe-cnn-old", {})
+
+  it("promotes a measured version that matches or beats the promoted one", () => {
+    expect(vibePromotionRefusals(version("vibe-cnn-new", { accuracy: 0.71, ratingMae: 0.38 }), promoted)).toEqual([])
+  })
+
+  it("refuses unmeasured, weak or regressing versions", () => {
+    expect(vibePromotionRefusals(version("vibe-cnn-new", null), promoted)).toHaveLength(1)
+    expect(vibePromotionRefusals(version("vibe-cnn-new", { samples: 50, calibrationError: 0.2 }), promoted)).toHaveLength(2)
+    expect(vibePromotionRefusals(version("vibe-cnn-new", { accuracy: 0.6, ratingMae: 0.5 }), promoted)).toEqual([
+      "Accuracy drops from 0.7 to 0.6",
+      "Rating MAE rises from 0.4 to 0.5",
+    ])
+  })
+
+  it("only compares versions evaluated on the same set", () => {
+    const refusals = vibePromotionRefusals(version("vibe-cnn-new", { datasetHash: "other" }), promoted)
+    expect(refusals).toEqual(["Evaluate vibe-cnn-old on kampala-nights too, so the two can be compared"])
+    expect(vibePromotionRefusals(version("vibe-cnn-new", {}), version("vibe-cnn-old", null))).toHaveLength(1)
+  })
+
+  it("summarises how a shadow candidate differs on live photos", () => {
+    expect(summarizeShadowScores("vibe-cnn-new", [
+      { rating: 3, confidence: 0.8, shadowRating: 3.5, shadowConfidence: 0.9 },
+      { rating: 2, confidence: 0.5, shadowRating: 1.5, shadowConfidence: 0.3 },
+      { rating: 4, confidence: 0.9, shadowRating: 4.6, shadowConfidence: 0.9 },
+    ])).toEqual({ candidate: "vibe-cnn-new", count: 3, ratingMae: 0.5333, ratingBias: 0.2, confidenceDisagreements: 1 })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "@jest/globals"
+import { differenceHash, exifCaptureTime, hammingDistance, vibeFromPixels, vibeFromPrediction, vibeImageStats, vibeVerdict, type VibeEvidence } from "../vibeScoring"
+
+// A minimal big-endian JPEG header: SOI, then an APP1 Exif segment whose IFD0
+// points at an Exif IFD holding DateTimeOriginal and OffsetTimeOriginal
+function jpegWithExif(dateTime: string, offset?: string): Uint8Array {
+  const tiff: number[] = []
+  const u16 = (v: number) => tiff.push((v >> 8) & 0xff, v & 0xff)
+  const u32 = (v: number) => { u16(v >>> 16); u16(v & 0xffff) }
+  const exifTags = offset ? 2 : 1
+  const ifd0 = 8
+  const exifIfd = ifd0 + 2 + 12 + 4
+  const data = exifIfd + 2 + exifTags * 12 + 4
+  tiff.push(0x4d, 0x4d); u16(0x2a); u32(ifd0)
+  u16(1); u16(0x8769); u16(4); u32(1); u32(exifIfd); u32(0)
+  u16(exifTags)
+  u16(0x9003); u16(2); u32(20); u32(data)
+  if (offset) { u16(0x9011); u16(2); u32(7); u32(data + 20) }
+  u32(0)
+  for (const c of dateTime) tiff.push(c.charCodeAt(0))
+  tiff.push(0)
+  if (offset) { for (const c of offset) tiff.push(c.charCodeAt(0)); tiff.push(0) }
+  const header = [0x45, 0x78, 0x69, 0x66, 0, 0]
+  const length = 2 + header.length + tiff.length
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...header, ...tiff, 0xff, 0xda, 0, 2])
+}
+
+const evidence: VibeEvidence = {
+  uploadedAt: new Date("2026-10-17T21:00:00Z"),
+  capturedAt: new Date("2026-10-17T20:50:00Z"),
+  duplicateOf: null,
+  confidence: 0.8,
+  stats: { brightness: 90, contrast: 50, skinRatio: 0.1 },
+}
+
+describe("vibe scoring", () => {
+  it("maps the model's top class to a rating", () => {
+    expect(vibeFromPrediction([0.05, 0.05, 0.1, 0.1, 0.6, 0.1])).toMatchObject({ predictedClass: 4, confidence: 0.6, vibeRating: 4 })
+    expect(vibeFromPrediction([0.9, 0.02, 0.02, 0.02, 0.02, 0.02]).vibeRating).toBe(0.3)
+  })
+
+  it("rates photos from their pixels when there is no model", () => {
+    const lit = vibeFromPixels(Array.from({ length: 300 }, (_, i) => (i % 3 === 0 ? 230 : 200)))
+    const dark = vibeFromPixels(Array.from({ length: 300 }, () => 20))
+    expect(lit.vibeRating).toBeGreaterThan(dark.vibeRating)
+    expect(vibeFromPixels([20, 20, 20, 230, 200, 200])).toEqual(vibeFromPixels([20, 20, 20, 230, 200, 200]))
+    expect(vibeVerdict({ ...evidence, confidence: null }).status).toBe("scored")
+  })
+
+  it("hashes thumbnails so near-copies stay close", () => {
+    const grey = Array.from({ length: 72 }, (_, i) => (i * 37) % 251)
+    const brighter = grey.map((v) => Math.min(255, v + 3))
+    const other = grey.slice().reverse()
+    const hash = differenceHash(grey)
+    expect(hash).toMatch(/^[0-9a-f]{16}$/)
+    expect(hammingDistance(hash, differenceHash(brighter))).toBe(0)
+    expect(hammingDistance(hash, differenceHash(other))).toBeGreaterThan(20)
+    expect(hammingDistance("ff", "0f")).toBe(4)
+  })
+
+  it("reads the capture time from EXIF", () => {
+    expect(exifCaptureTime(jpegWithExif("2026:10:17 23:45:10"))?.toISOString()).toBe("2026-10-17T20:45:10.000Z")
+    expect(exifCaptureTime(jpegWithExif("2026:10:17 23:45:10", "+01:00"))?.toISOString()).toBe("2026-10-17T22:45:10.000Z")
+    expect(exifCaptureTime(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]))).toBeNull()
+    expect(exifCaptureTime(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull()
+  })
+
+  it("measures brightness, contrast and skin tones", () => {
+    expect(vibeImageStats([0, 0, 0, 255, 255, 255])).toMatchObject({ contrast: 127.5, skinRatio: 0 })
+    expect(vibeImageStats([220, 170, 140, 10, 10, 10]).skinRatio).toBe(0.5)
+  })
+
+  it("rejects duplicates and stale photos", () => {
+    expect(vibeVerdict(evidence)).toEqual({ status: "scored", reasons: [] })
+    expect(vibeVerdict({ ...evidence, duplicateOf: "img-1" })).toEqual({ status: "rejected", reasons: ["duplicate"] })
+    expect(vibeVerdict({ ...evidence, capturedAt: new Date("2026-10-17T15:00:00Z") }).reasons).toEqual(["stale"])
+    expect(vibeVerdict({ ...evidence, capturedAt: new Date("2026-10-18T09:00:00Z") }).reasons).toEqual(["future_timestamp"])
+  })
+
+  it("holds explicit, irrelevant or undated photos for a moderator", () => {
+    expect(vibeVerdict({ ...evidence, capturedAt: null })).toEqual({ status: "flagged", reasons: ["no_capture_time"] })
+    expect(vibeVerdict({ ...evidence, stats: { ...evidence.stats, skinRatio: 0.6 } })).toEqual({ status: "flagged", reasons: ["nsfw"] })
+    expect(vibeVerdict({ ...evidence, confidence: 0.3 }).reasons).toEqual(["irrelevant"])
+    expect(vibeVerdict({ ...evidence, stats: { ...evidence.stats, contrast: 4 } }).reasons).toEqual(["irrelevant"])
+  })
+})
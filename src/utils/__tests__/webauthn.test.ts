@@ -0,0 +1,69 @@
+import { describe, it, expect } from "@jest/globals"
+import { createHash, createPublicKey, generateKeyPairSync, sign, verify } from "crypto"
+import {
+  base64UrlDecode, base64UrlEncode, checkClientData, coseKeyToJwk, decodeCbor, parseAuthenticatorData, signCountIsValid,
+} from "../webauthn"
+
+const bytes = (...parts: Array<number[] | Uint8Array>) => Uint8Array.from(parts.flatMap((p) => Array.from(p)))
+
+// A P-256 key as an authenticator would report it, with its COSE encoding
+function testCredential() {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" })
+  const jwk = publicKey.export({ format: "jwk" }) as { x: string; y: string }
+  const cose = bytes([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20], base64UrlDecode(jwk.x), [0x22, 0x58, 0x20], base64UrlDecode(jwk.y))
+  return { jwk, cose, privateKey }
+}
+
+describe("webauthn", () => {
+  it("round-trips base64url", () => {
+    const data = Uint8Array.from([0, 255, 62, 63, 1, 2, 3])
+    expect(base64UrlEncode(data)).toBe(Buffer.from(data).toString("base64url"))
+    expect(Array.from(base64UrlDecode("AP8-PwECAw"))).toEqual(Array.from(data))
+    expect(Array.from(base64UrlDecode("AP8+PwECAw=="))).toEqual(Array.from(data))
+  })
+
+  it("decodes the CBOR authenticators use", () => {
+    // {"fmt": "none", "attStmt": {}, "n": [1, -1, 500]}
+    const encoded = bytes([0xa3, 0x63], Buffer.from("fmt"), [0x64], Buffer.from("none"), [0x67], Buffer.from("attStmt"), [0xa0, 0x61, 0x6e, 0x83, 0x01, 0x20, 0x19, 0x01, 0xf4])
+    expect(decodeCbor(encoded)).toEqual({ fmt: "none", attStmt: {}, n: [1, -1, 500] })
+    expect(() => decodeCbor(Uint8Array.from([0x58, 0x20, 0x01]))).toThrow("Truncated CBOR")
+  })
+
+  it("reads attested credential data and converts the key", () => {
+    const { jwk, cose } = testCredential()
+    const rpIdHash = createHash("sha256").update("yovibe.net").digest()
+    const credentialId = Uint8Array.from({ length: 16 }, (_, i) => i)
+    const authData = bytes(rpIdHash, [0x45, 0, 0, 0, 7], new Array(16).fill(0), [0, 16], credentialId, cose)
+
+    const parsed = parseAuthenticatorData(authData)
+    expect(parsed.userPresent).toBe(true)
+    expect(parsed.userVerified).toBe(true)
+    expect(parsed.signCount).toBe(7)
+    expect(Array.from(parsed.credentialId!)).toEqual(Array.from(credentialId))
+    expect(coseKeyToJwk(parsed.credentialPublicKey!)).toEqual({ jwk: { kty: "EC", crv: "P-256", x: jwk.x, y: jwk.y }, alg: -7 })
+  })
+
+  it("produces a key that verifies authenticator signatures", () => {
+    const { cose, privateKey } = testCredential()
+    const { jwk } = coseKeyToJwk(decodeCbor(cose) as any)
+    const signed = Buffer.concat([Buffer.from("authenticator data"), createHash("sha256").update("{}").digest()])
+    const signature = sign("sha256", signed, privateKey)
+    expect(verify("sha256", signed, createPublicKey({ key: jwk as any, format: "jwk" }), signature)).toBe(true)
+  })
+
+  it("checks the client data", () => {
+    const clientData = Buffer.from(JSON.stringify({ type: "webauthn.get", challenge: "abc", origin: "https://yovibe.net" }))
+    const expected = { type: "webauthn.get" as const, challenge: "abc", origins: ["https://yovibe.net"] }
+    expect(checkClientData(clientData, expected).origin).toBe("https://yovibe.net")
+    expect(() => checkClientData(clientData, { ...expected, challenge: "xyz" })).toThrow("challenge")
+    expect(() => checkClientData(clientData, { ...expected, origins: ["https://evil.example"] })).toThrow("not accepted")
+    expect(() => checkClientData(clientData, { ...expected, type: "webauthn.create" })).toThrow("ceremony")
+  })
+
+  it("rejects counters that do not move forward", () => {
+    expect(signCountIsValid(0, 0)).toBe(true)
+    expect(signCountIsValid(4, 5)).toBe(true)
+    expect(signCountIsValid(5, 5)).toBe(false)
+    expect(signCountIsValid(5, 0)).toBe(false)
+  })
+})
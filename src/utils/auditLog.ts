@@ -0,0 +1,95 @@
+import type { AuditAction, AuditChange, AuditEntry } from "../models/AuditLog"
+import { csvField } from "./ledger"
+
+// Shared with the audit Netlify functions, so type-only model imports.
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "user.freeze", "user.unfreeze", "user.delete",
+  "ownership.approve", "ownership.reject",
+  "payout.approve", "payout.reject", "payout.complete", "payout.release", "payout.return",
+  "refund.approve", "refund.reject", "refund.execute", "refund.retry", "refund.chargeback",
+  "ledger.adjust", "ticket.reentry_grant", "event.status_change",
+  "two_factor.enable", "two_factor.disable", "two_factor.recover", "two_factor.reset", "two_factor.policy",
+  "passkey.register", "passkey.remove",
+  "risk.clear", "risk.fraud",
+  "vibe.approve", "vibe.remove",
+]
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "user.freeze": "Froze user",
+  "user.unfreeze": "Unfroze user",
+  "user.delete": "Deleted user",
+  "ownership.approve": "Approved venue ownership",
+  "ownership.reject": "Rejected venue ownership",
+  "payout.approve": "Approved payout",
+  "payout.reject": "Rejected payout",
+  "payout.complete": "Completed payout",
+  "payout.release": "Released held payout",
+  "payout.return": "Returned held payout",
+  "refund.approve": "Approved refund",
+  "refund.reject": "Rejected refund",
+  "refund.execute": "Executed refund",
+  "refund.retry": "Retried refund",
+  "refund.chargeback": "Filed chargeback",
+  "ledger.adjust": "Ledger adjustment",
+  "ticket.reentry_grant": "Granted re-entry",
+  "event.status_change": "Changed event status",
+  "two_factor.enable": "Enabled two-factor",
+  "two_factor.disable": "Disabled two-factor",
+  "two_factor.recover": "Recovered two-factor by email",
+  "two_factor.reset": "Reset user's two-factor",
+  "two_factor.policy": "Changed two-factor policy",
+  "passkey.register": "Added a passkey",
+  "passkey.remove": "Removed a passkey",
+  "risk.clear": "Cleared flagged purchase",
+  "risk.fraud": "Confirmed purchase fraud",
+  "vibe.approve": "Approved held vibe photo",
+  "vibe.remove": "Removed vibe photo",
+}
+
+// Never written to the log, whatever the caller passes in
+const SECRET_FIELD = /password|otp|secret|token|pin\b/i
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Field-level diff between two snapshots of a record. Only changed fields
+ * are kept; `fields` narrows the comparison to the ones worth auditing and
+ * secret-looking fields are masked.
+ */
+export function auditDiff(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: string[],
+): Record<string, AuditChange> {
+  const keys = fields || Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]))
+  const changes: Record<string, AuditChange> = {}
+  for (const key of keys) {
+    const from = before?.[key] ?? null
+    const to = after?.[key] ?? null
+    if (sameValue(from, to)) continue
+    changes[key] = SECRET_FIELD.test(key) ? { from: from === null ? null : "[redacted]", to: to === null ? null : "[redacted]" } : { from, to }
+  }
+  return changes
+}
+
+export function isAuditAction(action: unknown): action is AuditAction {
+  return AUDIT_ACTIONS.includes(action as AuditAction)
+}
+
+function changeSummary(changes: Record<string, AuditChange>): string {
+  return Object.entries(changes).map(([key, c]) => `${key}: ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`).join("; ")
+}
+
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows: Array<Array<string | number>> = [
+    ["Time", "Action", "Actor", "Actor role", "Target type", "Target", "Changes", "Reason", "IP", "User agent", "Source"],
+    ...entries.map((e) => [
+      e.occurredAt, e.action, e.actorEmail || e.actorId, e.actorRole || "", e.targetType, e.targetId,
+      changeSummary(e.changes), e.reason || "", e.ip || "", e.userAgent || "", e.source,
+    ]),
+  ]
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n")
+}
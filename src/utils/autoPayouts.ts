@@ -0,0 +1,116 @@
+// Scheduling and approval rules for automatic payouts. Pure so the scheduled
+// auto-payouts Netlify function can require it too.
+import type {
+  AutoPayoutDecision,
+  AutoPayoutMethod,
+  AutoPayoutSettings,
+  PayoutApprovalRules,
+} from "../models/AutoPayout"
+
+export const DEFAULT_PAYOUT_APPROVAL_RULES: PayoutApprovalRules = {
+  autoApproveBelow: 2000000,
+  newOrganizerHoldDays: 14,
+  detailsChangeHoldHours: 48,
+  minimumAmount: 10000,
+  paused: false,
+}
+
+export const DEFAULT_AUTO_PAYOUT_SETTINGS: Omit<AutoPayoutSettings, "organizerId"> = {
+  enabled: false,
+  cadence: "weekly",
+  hour: 9,
+  weekday: 1,
+  hoursAfterEvent: 24,
+  minimumAmount: 50000,
+  method: "mobile_money",
+}
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * When the next daily or weekly run is due after `after`, at `hour` local time
+ * (UTC offset in minutes, East Africa Time by default). after_event payouts
+ * follow each event instead, so they have no fixed schedule.
+ */
+export function nextScheduledRun(
+  settings: Pick<AutoPayoutSettings, "cadence" | "hour" | "weekday">,
+  after: Date,
+  utcOffsetMinutes = 180,
+): Date | null {
+  if (settings.cadence === "after_event") return null
+  const offsetMs = utcOffsetMinutes * 60 * 1000
+  const local = new Date(after.getTime() + offsetMs)
+  local.setUTCHours(settings.hour, 0, 0, 0)
+  if (local.getTime() - offsetMs <= after.getTime()) local.setUTCDate(local.getUTCDate() + 1)
+  if (settings.cadence === "weekly") {
+    local.setUTCDate(local.getUTCDate() + ((settings.weekday - local.getUTCDay() + 7) % 7))
+  }
+  return new Date(local.getTime() - offsetMs)
+}
+
+export function isAutoPayoutDue(settings: Pick<AutoPayoutSettings, "enabled" | "cadence" | "nextRunAt">, now: Date): boolean {
+  if (!settings.enabled) return false
+  // after_event organisers are checked every run; their tickets decide
+  if (settings.cadence === "after_event") return true
+  return !!settings.nextRunAt && new Date(settings.nextRunAt) <= now
+}
+
+/** Whether an event's tickets can be settled under the after_event cadence */
+export function isReadyAfterEvent(eventEnd: Date, hoursAfterEvent: number, now: Date): boolean {
+  return now.getTime() >= eventEnd.getTime() + Math.max(hoursAfterEvent, 0) * HOUR
+}
+
+export interface PayoutCandidate {
+  amount: number
+  method: AutoPayoutMethod
+  organizerSince?: Date | string | null
+  detailsUpdatedAt?: Date | string | null
+}
+
+/** Whether an automatic payout goes straight out or waits for an admin */
+export function approvalDecision(candidate: PayoutCandidate, rules: PayoutApprovalRules, now: Date): AutoPayoutDecision {
+  if (candidate.method === "bank_transfer") return { approved: false, reason: "Bank transfers are sent by an admin" }
+  if (candidate.organizerSince && rules.newOrganizerHoldDays > 0) {
+    const since = new Date(candidate.organizerSince).getTime()
+    if (now.getTime() - since < rules.newOrganizerHoldDays * 24 * HOUR) {
+      return { approved: false, reason: `Organiser joined less than ${rules.newOrganizerHoldDays} days ago` }
+    }
+  }
+  if (candidate.detailsUpdatedAt && rules.detailsChangeHoldHours > 0) {
+    const changed = new Date(candidate.detailsUpdatedAt).getTime()
+    if (now.getTime() - changed < rules.detailsChangeHoldHours * HOUR) {
+      return { approved: false, reason: `Payment details changed in the last ${rules.detailsChangeHoldHours} hours` }
+    }
+  }
+  if (candidate.amount >= rules.autoApproveBelow) {
+    return { approved: false, reason: `UGX ${candidate.amount.toLocaleString()} is over the auto-approve limit` }
+  }
+  return { approved: true, reason: null }
+}
+
+/** Problem with the settings, or null when they can be saved */
+export function autoPayoutSettingsError(
+  settings: Omit<AutoPayoutSettings, "organizerId">,
+  paymentDetails?: { mobileMoney?: { phoneNumber?: string }; bankAccount?: { accountNumber?: string } } | null,
+  rules: PayoutApprovalRules = DEFAULT_PAYOUT_APPROVAL_RULES,
+): string | null {
+  if (!["daily", "weekly", "after_event"].includes(settings.cadence)) return "Choose how often to be paid"
+  if (!Number.isInteger(settings.hour) || settings.hour < 0 || settings.hour > 23) return "Pick an hour between 0 and 23"
+  if (settings.cadence === "weekly" && !(Number.isInteger(settings.weekday) && settings.weekday >= 0 && settings.weekday <= 6)) {
+    return "Pick a day of the week"
+  }
+  if (settings.cadence === "after_event" && !(settings.hoursAfterEvent >= 0 && settings.hoursAfterEvent <= 24 * 14)) {
+    return "Settle between 0 hours and 14 days after the event"
+  }
+  if (!(settings.minimumAmount >= rules.minimumAmount)) {
+    return `The minimum payout is at least UGX ${rules.minimumAmount.toLocaleString()}`
+  }
+  if (!settings.enabled) return null
+  if (settings.method === "mobile_money" && !paymentDetails?.mobileMoney?.phoneNumber) {
+    return "Add a mobile money number before turning on automatic payouts"
+  }
+  if (settings.method === "bank_transfer" && !paymentDetails?.bankAccount?.accountNumber) {
+    return "Add a bank account before turning on automatic payouts"
+  }
+  return null
+}
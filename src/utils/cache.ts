@@ -86,4 +86,8 @@ export const CACHE_KEYS = {
   USER_TICKETS: (userId: string) => `user_tickets_${userId}`,
   NOTIFICATIONS: (userId: string) => `notifications_${userId}`,
   VIBE_IMAGES: (venueId: string, date: string) => `vibe_images_${venueId}_${date}`,
+  VIBE_INDEX: (venueId: string) => `vibe_index_${venueId}`,
+  // Anonymous visitors share the "anonymous" feed
+  RECOMMENDATIONS: (userId: string) => `recommendations_${userId}`,
+  FOLLOWS: (userId: string) => `follows_${userId}`,
 } as const;
\ No newline at end of file
@@ -39,12 +39,15 @@ export const useCompatNavigation = (): CompatNavigation => {
         'OrganiserDashboard': (params) => navigate(`/events/organiser/${params?.eventId}`),
         'TicketContactScreen': (params) => navigate('/events/ticket-contacts'),
         'MyTickets': () => navigate('/profile/my-tickets'),
+        'RevenueShares': () => navigate('/profile/revenue-shares'),
+        'Team': () => navigate('/profile/team'),
         'Notification': () => navigate('/profile/notifications'),
         'PaymentCallback': () => navigate('/events/payment-callback'),
         'AddVenue': () => navigate('/profile/add-venue'),
         'MyVenues': () => navigate('/profile/my-venues'),
         'ManagePrograms': (params) => navigate(`/venues/${params?.venueId}/programs`),
         'TodaysVibe': (params) => navigate(`/venues/${params?.venueId}/vibe`),
+        'VibeCheckIn': (params) => navigate(`/venues/${params?.venueId}/check-in`),
         'AddVibe': (params) => navigate(`/profile/add-vibe/${params?.venueId}`),
         'AdminDashboard': () => navigate('/profile/admin/dashboard'),
         'AdminUsers': () => navigate('/profile/admin/users'),
@@ -53,6 +56,11 @@ export const useCompatNavigation = (): CompatNavigation => {
         'AdminOwnershipRequests': () => navigate('/profile/admin/ownership-requests'),
         'AdminStrandedPurchases': () => navigate('/profile/admin/stranded-purchases'),
         'AdminRefunds': () => navigate('/profile/admin/refunds'),
+        'AdminReconciliation': () => navigate('/profile/admin/reconciliation'),
+        'AdminLedger': () => navigate('/profile/admin/ledger'),
+        'AdminAuditLog': () => navigate('/profile/admin/audit-log'),
+        'AdminRiskReview': () => navigate('/profile/admin/risk-review'),
+        'AdminVibeModeration': () => navigate('/profile/admin/vibe-moderation'),
         'AdminWithdrawals': () => navigate('/profile/admin/withdrawals'),
         'AdminPayouts': () => navigate('/profile/admin/payouts'),
         'AdminGeocode': () => navigate('/profile/admin/geocode'),
@@ -0,0 +1,63 @@
+// Shared with the server-side fulfillment worker, so no runtime imports.
+
+/**
+ * Parse the start time out of the event's human-readable `time` text (e.g.
+ * "08:00 PM - 11:00 PM", "8:00 pm - 11:00 pm", "20:00 - 23:00", "20:00").
+ * Returns null when the text cannot be parsed, in which case the caller
+ * falls back to the date-only value.
+ */
+export function parseStartTime(text?: string): { hour: number; minute: number } | null {
+  if (!text) return null
+  const first = String(text).split("-")[0].trim()
+  const match = first.match(/(\d{1,2}):(\d{2})\s*(AM|PM|am|pm)?/)
+  if (!match) return null
+  let hour = parseInt(match[1], 10)
+  const minute = parseInt(match[2], 10)
+  const meridiem = (match[3] || "").toUpperCase()
+  if (meridiem === "PM" && hour < 12) hour += 12
+  if (meridiem === "AM" && hour === 12) hour = 0
+  if (hour > 23 || minute > 59) return null
+  return { hour, minute }
+}
+
+// Build the ticket's event start time by combining the event date with the
+// start time parsed from the DB `events.time` text (which is the source of
+// truth for the time of day). Uses the device's timezone unless a fixed UTC
+// offset is given, as the server does for events in East Africa Time.
+export function resolveEventStartTime(
+  event: { date?: Date | string | null; time?: string },
+  utcOffsetMinutes?: number,
+): Date {
+  const base = new Date(event.date || Date.now())
+  const parsed = parseStartTime(event.time)
+  if (!parsed) return base
+  if (utcOffsetMinutes == null) {
+    base.setHours(parsed.hour, parsed.minute, 0, 0)
+    return base
+  }
+  const offsetMs = utcOffsetMinutes * 60 * 1000
+  const local = new Date(base.getTime() + offsetMs)
+  local.setUTCHours(parsed.hour, parsed.minute, 0, 0)
+  return new Date(local.getTime() - offsetMs)
+}
+
+// Events without a readable end time are assumed to run this long
+export const DEFAULT_EVENT_DURATION_HOURS = 6
+
+/**
+ * When the event ends: the end of the `time` range ("08:00 PM - 02:00 AM"),
+ * rolled over to the next day when it is earlier than the start.
+ */
+export function resolveEventEndTime(
+  event: { date?: Date | string | null; time?: string },
+  utcOffsetMinutes?: number,
+): Date {
+  const start = resolveEventStartTime(event, utcOffsetMinutes)
+  const [, endText] = String(event.time || "").split("-")
+  const parsedStart = parseStartTime(event.time)
+  const parsedEnd = parseStartTime(endText)
+  if (!parsedStart || !parsedEnd) return new Date(start.getTime() + DEFAULT_EVENT_DURATION_HOURS * 60 * 60 * 1000)
+  let minutes = (parsedEnd.hour - parsedStart.hour) * 60 + (parsedEnd.minute - parsedStart.minute)
+  if (minutes <= 0) minutes += 24 * 60
+  return new Date(start.getTime() + minutes * 60 * 1000)
+}
@@ -0,0 +1,40 @@
+// Retry policy for the server-side fulfillment worker. Pure so the Netlify
+// functions can require it too.
+
+export const FULFILLMENT_MAX_ATTEMPTS = 8
+export const FULFILLMENT_BASE_DELAY_MS = 60 * 1000
+export const FULFILLMENT_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+// A claim older than this is treated as a worker that died mid-run
+export const FULFILLMENT_STALE_CLAIM_MS = 15 * 60 * 1000
+// How long the sweep keeps asking the processor about an unconfirmed payment
+export const PAYMENT_CONFIRMATION_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export type FulfillmentRetryStep =
+  | { status: "failed"; nextAttemptAt: Date }
+  | { status: "dead_letter"; nextAttemptAt: null }
+
+/** Delay before retrying after the given (1-based) failed attempt: 1m, 2m, 4m… capped at 6h */
+export function fulfillmentBackoffMs(attempt: number): number {
+  const exponent = Math.max(attempt, 1) - 1
+  return Math.min(FULFILLMENT_BASE_DELAY_MS * 2 ** exponent, FULFILLMENT_MAX_DELAY_MS)
+}
+
+/** Where a fulfillment goes after its `attemptCount`th attempt failed */
+export function nextFulfillmentStep(attemptCount: number, now: Date = new Date()): FulfillmentRetryStep {
+  if (attemptCount >= FULFILLMENT_MAX_ATTEMPTS) return { status: "dead_letter", nextAttemptAt: null }
+  return { status: "failed", nextAttemptAt: new Date(now.getTime() + fulfillmentBackoffMs(attemptCount)) }
+}
+
+/** Whether the worker should pick the fulfillment up now */
+export function isFulfillmentDue(
+  row: { status: string; nextAttemptAt?: Date | string | null; updatedAt?: Date | string | null },
+  now: Date = new Date(),
+): boolean {
+  if (row.status === "payment_confirmed" || row.status === "failed") {
+    return !row.nextAttemptAt || new Date(row.nextAttemptAt) <= now
+  }
+  if (row.status === "fulfilling") {
+    return !!row.updatedAt && now.getTime() - new Date(row.updatedAt).getTime() >= FULFILLMENT_STALE_CLAIM_MS
+  }
+  return false
+}
@@ -0,0 +1,95 @@
+export interface GateScan {
+  gate?: string | null
+  validatedAt: string
+  status: "granted" | "denied"
+  ticketRef?: string
+  buyerName?: string
+  reason?: string
+}
+
+export interface GateStats {
+  gate: string
+  allowedEntryFees?: string[]
+  // Granted scans per minute, oldest bucket first
+  perMinute: number[]
+  ratePerMinute: number
+  granted: number
+  denied: number
+  waiting: number
+  estimatedMinutesToClear: number | null
+  lastScans: GateScan[]
+}
+
+export interface GateConfig {
+  gateName: string
+  allowedEntryFees?: string[]
+}
+
+export const UNASSIGNED_GATE = "Unassigned"
+
+/** True when a gate accepts the given ticket type; gates without a fee list accept everything */
+export function isEntryFeeAllowedAtGate(gate: GateConfig | null | undefined, entryFeeType?: string): boolean {
+  if (!gate?.allowedEntryFees || gate.allowedEntryFees.length === 0) return true
+  return !!entryFeeType && gate.allowedEntryFees.includes(entryFeeType)
+}
+
+/**
+ * Bucket validations per gate into one-minute windows ending at `now` and
+ * estimate how long each gate needs to admit the ticket holders still outside.
+ * The rate averages the last `rateWindow` minutes so one idle minute doesn't
+ * send the estimate to infinity.
+ */
+export function computeGateStats(
+  scans: GateScan[],
+  gates: GateConfig[],
+  remainingByFeeType: Record<string, number>,
+  now: Date = new Date(),
+  minutes = 10,
+  rateWindow = 5,
+): GateStats[] {
+  const byGate = new Map<string, GateStats>()
+  const ensure = (name: string, allowedEntryFees?: string[]) => {
+    let stats = byGate.get(name)
+    if (!stats) {
+      stats = { gate: name, allowedEntryFees, perMinute: new Array(minutes).fill(0), ratePerMinute: 0, granted: 0, denied: 0, waiting: 0, estimatedMinutesToClear: null, lastScans: [] }
+      byGate.set(name, stats)
+    }
+    return stats
+  }
+
+  for (const g of gates) {
+    const existing = byGate.get(g.gateName)
+    if (existing) {
+      // Several links can share a gate; merge their fee lists (an open link opens the gate)
+      if (!existing.allowedEntryFees?.length || !g.allowedEntryFees?.length) existing.allowedEntryFees = undefined
+      else existing.allowedEntryFees = [...new Set([...existing.allowedEntryFees, ...g.allowedEntryFees])]
+    } else {
+      ensure(g.gateName, g.allowedEntryFees?.length ? [...g.allowedEntryFees] : undefined)
+    }
+  }
+
+  const sorted = [...scans].sort((a, b) => new Date(b.validatedAt).getTime() - new Date(a.validatedAt).getTime())
+  for (const scan of sorted) {
+    const stats = ensure(scan.gate || UNASSIGNED_GATE)
+    if (stats.lastScans.length < 3) stats.lastScans.push(scan)
+    if (scan.status === "granted") stats.granted++
+    else stats.denied++
+
+    const minutesAgo = Math.floor((now.getTime() - new Date(scan.validatedAt).getTime()) / 60000)
+    if (scan.status === "granted" && minutesAgo >= 0 && minutesAgo < minutes) {
+      stats.perMinute[minutes - 1 - minutesAgo]++
+    }
+  }
+
+  const window = Math.min(rateWindow, minutes)
+  for (const stats of byGate.values()) {
+    const recent = stats.perMinute.slice(minutes - window)
+    stats.ratePerMinute = recent.reduce((sum, n) => sum + n, 0) / window
+    stats.waiting = Object.entries(remainingByFeeType)
+      .filter(([feeType]) => isEntryFeeAllowedAtGate({ gateName: stats.gate, allowedEntryFees: stats.allowedEntryFees }, feeType))
+      .reduce((sum, [, n]) => sum + Math.max(0, n), 0)
+    stats.estimatedMinutesToClear = stats.ratePerMinute > 0 ? Math.ceil(stats.waiting / stats.ratePerMinute) : null
+  }
+
+  return [...byGate.values()].sort((a, b) => a.gate.localeCompare(b.gate))
+}
@@ -0,0 +1,67 @@
+// Reminder and expiry rules for installment plans. Pure so the scheduled
+// installment-reminders Netlify function can require it too.
+
+export type ReminderChannel = "push" | "email" | "sms"
+
+export interface ReminderStage {
+  key: string
+  // Relative to the installment's due date; negative is before it
+  hoursFromDue: number
+  channels: ReminderChannel[]
+}
+
+// Escalating: more channels the closer the buyer gets to losing the plan
+export const REMINDER_STAGES: ReminderStage[] = [
+  { key: "due_in_3_days", hoursFromDue: -72, channels: ["push"] },
+  { key: "due_tomorrow", hoursFromDue: -24, channels: ["push", "email"] },
+  { key: "due_today", hoursFromDue: -2, channels: ["push", "email", "sms"] },
+  { key: "overdue", hoursFromDue: 24, channels: ["push", "email", "sms"] },
+]
+
+export const DEFAULT_GRACE_DAYS = 3
+
+export interface RemindableInstallment {
+  index: number
+  dueDate: Date
+  status: "pending" | "paid" | "failed"
+  remindersSent?: string[]
+}
+
+export type PlanLapse = "grace_expired" | "event_passed"
+
+export function nextPendingInstallment<T extends RemindableInstallment>(installments: T[]): T | undefined {
+  return installments.find((i) => i.status !== "paid")
+}
+
+export function graceEndsAt(dueDate: Date, graceDays: number = DEFAULT_GRACE_DAYS): Date {
+  return new Date(new Date(dueDate).getTime() + Math.max(graceDays, 0) * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * The reminder to send now, if any. Only the latest stage that has come due
+ * is returned, so a buyer who joins late does not get every earlier stage at once.
+ */
+export function reminderDue(installment: RemindableInstallment, now: Date = new Date()): ReminderStage | null {
+  if (installment.status === "paid") return null
+  const due = new Date(installment.dueDate).getTime()
+  const sent = installment.remindersSent || []
+  let latest: ReminderStage | null = null
+  for (const stage of REMINDER_STAGES) {
+    if (now.getTime() >= due + stage.hoursFromDue * 60 * 60 * 1000) latest = stage
+  }
+  return latest && !sent.includes(latest.key) ? latest : null
+}
+
+/** Why an active plan should now expire, or null while it can still be paid */
+export function planLapse(
+  plan: { status: string; eventDate?: Date | null; installments: RemindableInstallment[] },
+  now: Date = new Date(),
+  graceDays: number = DEFAULT_GRACE_DAYS,
+): PlanLapse | null {
+  if (plan.status !== "active") return null
+  const next = nextPendingInstallment(plan.installments)
+  if (!next) return null
+  if (plan.eventDate && now > new Date(plan.eventDate)) return "event_passed"
+  if (now > graceEndsAt(next.dueDate, graceDays)) return "grace_expired"
+  return null
+}
@@ -0,0 +1,72 @@
+import {
+  DEFAULT_INSTALLMENT_TEMPLATES,
+  lastDueCutoff,
+  type InstallmentTemplate,
+} from "../models/InstallmentPlan"
+
+export const MAX_INSTALLMENT_PARTS = 6
+
+export interface TemplateContext {
+  // Ticket price per person, before any promo discount
+  unitPrice: number
+  eventDate: Date
+  now?: Date
+}
+
+/** Templates the event offers, falling back to the defaults when it has none */
+export function installmentTemplatesFor(event?: { installmentTemplates?: InstallmentTemplate[] } | null): InstallmentTemplate[] {
+  return event?.installmentTemplates?.length ? event.installmentTemplates : DEFAULT_INSTALLMENT_TEMPLATES
+}
+
+export function findInstallmentTemplate(
+  event: { installmentTemplates?: InstallmentTemplate[] } | null | undefined,
+  id: string,
+): InstallmentTemplate | undefined {
+  return installmentTemplatesFor(event).find((t) => t.id === id)
+}
+
+/** Problem with how a template is set up, or null when it can be saved */
+export function templateSetupError(template: InstallmentTemplate, eventDate?: Date): string | null {
+  if (!template.name.trim()) return "Give the plan a name"
+  if (!Number.isInteger(template.parts) || template.parts < 2 || template.parts > MAX_INSTALLMENT_PARTS) {
+    return `A plan has between 2 and ${MAX_INSTALLMENT_PARTS} parts`
+  }
+  if (!(template.depositPercent > 0 && template.depositPercent < 100)) return "The deposit must be between 1% and 99%"
+  if ((template.lastDueDaysBeforeEvent ?? 0) < 0) return "Days before the event cannot be negative"
+  if (template.dueDates?.length) {
+    if (template.dueDates.length !== template.parts - 1) {
+      return `Add ${template.parts - 1} due date${template.parts > 2 ? "s" : ""}, one for each part after the deposit`
+    }
+    const times = template.dueDates.map((d) => new Date(d).getTime())
+    if (times.some((t) => Number.isNaN(t))) return "Use YYYY-MM-DD for due dates"
+    if (times.some((t, i) => i > 0 && t <= times[i - 1])) return "Due dates must be in order"
+    if (eventDate && times[times.length - 1] > lastDueCutoff(template, eventDate).getTime()) {
+      return template.lastDueDaysBeforeEvent
+        ? `The last due date must be at least ${template.lastDueDaysBeforeEvent} days before the event`
+        : "The last due date must be before the event"
+    }
+  }
+  return null
+}
+
+/** Reason a buyer cannot pick the template right now, or null when it is offered */
+export function templateRejection(template: InstallmentTemplate, ctx: TemplateContext): string | null {
+  const now = ctx.now ?? new Date()
+  if (template.minTicketPrice && ctx.unitPrice < template.minTicketPrice) {
+    return `${template.name} is only available on tickets from UGX ${template.minTicketPrice.toLocaleString()}`
+  }
+  if (now >= lastDueCutoff(template, ctx.eventDate)) {
+    return `${template.name} is no longer available this close to the event`
+  }
+  if (template.dueDates?.length && now >= new Date(template.dueDates[0])) {
+    return `${template.name} is closed: its first due date has passed`
+  }
+  return null
+}
+
+export function eligibleInstallmentTemplates(
+  event: { installmentTemplates?: InstallmentTemplate[] } | null | undefined,
+  ctx: TemplateContext,
+): InstallmentTemplate[] {
+  return installmentTemplatesFor(event).filter((t) => !templateRejection(t, ctx))
+}
@@ -0,0 +1,454 @@
+import type {
+  LedgerAccount,
+  LedgerEntry,
+  LedgerIssue,
+  LedgerLine,
+  StatementLine,
+  WalletBalance,
+} from "../models/Ledger"
+
+// Shared with the ledger Netlify functions, so type-only imports.
+
+// Below a cent is rounding, not drift
+export const LEDGER_TOLERANCE = 0.01
+
+export function money(value: number): number {
+  return Math.round(Number(value || 0) * 100) / 100
+}
+
+export function organizerAccount(organizerId: string): LedgerAccount {
+  return `organizer:${organizerId}`
+}
+
+export function cashAccountFor(paymentMethod?: string | null): LedgerAccount {
+  if (paymentMethod === "mobile_money") return "cash:pawapay"
+  if (paymentMethod === "bank_transfer") return "cash:bank"
+  return "cash:pesapal"
+}
+
+function lines(...entries: Array<[LedgerAccount, number]>): LedgerLine[] {
+  return entries.map(([account, amount]) => ({ account, amount: money(amount) })).filter((l) => l.amount !== 0)
+}
+
+export function isBalanced(entry: Pick<LedgerEntry, "lines">): boolean {
+  return Math.abs(entry.lines.reduce((sum, l) => sum + l.amount, 0)) < LEDGER_TOLERANCE
+}
+
+export interface SaleInput {
+  ticketId: string
+  organizerId: string
+  eventId?: string | null
+  totalAmount: number
+  venueRevenue: number
+  gatewayFee?: number | null
+  paymentMethod?: string | null
+  paymentReference?: string | null
+  purchasedAt: string
+  eventStartTime?: string | null
+  label?: string
+}
+
+/**
+ * One ticket sold: the organiser is credited their share and YoVibe its
+ * commission, out of which it also bears the processor's fee. Installment
+ * tickets are paid for out of the buyer's deposits instead of fresh cash.
+ */
+export function ticketSaleEntry(sale: SaleInput): LedgerEntry {
+  const total = money(sale.totalAmount)
+  const venue = money(sale.venueRevenue)
+  const fromInstallments = String(sale.paymentReference || "").startsWith("installment_plan_")
+  const fee = fromInstallments ? 0 : money(sale.gatewayFee || 0)
+  return {
+    entry_type: "ticket_sale",
+    idempotency_key: `sale:${sale.ticketId}`,
+    organizer_id: sale.organizerId,
+    event_id: sale.eventId ?? null,
+    source_id: sale.ticketId,
+    ticket_ids: [sale.ticketId],
+    memo: sale.label || "Ticket sale",
+    lines: lines(
+      [fromInstallments ? "buyer_deposits" : cashAccountFor(sale.paymentMethod), total - fee],
+      ["platform:gateway_fees", fee],
+      [organizerAccount(sale.organizerId), -venue],
+      ["platform:commission", -(total - venue)],
+    ),
+    occurred_at: sale.purchasedAt,
+    available_at: sale.eventStartTime ?? null,
+  }
+}
+
+export interface InstallmentPaymentInput {
+  planId: string
+  index: number
+  organizerId?: string | null
+  eventId?: string | null
+  amount: number
+  serviceFee: number
+  paymentMethod?: string | null
+  paidAt: string
+  label?: string
+}
+
+/** Principal is held for the buyer until their tickets are issued; the service fee is YoVibe's */
+export function installmentPaymentEntry(payment: InstallmentPaymentInput): LedgerEntry {
+  return {
+    entry_type: "installment_payment",
+    idempotency_key: `installment:${payment.planId}:${payment.index}`,
+    organizer_id: payment.organizerId ?? null,
+    event_id: payment.eventId ?? null,
+    source_id: payment.planId,
+    memo: payment.label || `Installment ${payment.index + 1}`,
+    lines: lines(
+      [cashAccountFor(payment.paymentMethod), payment.amount + payment.serviceFee],
+      ["buyer_deposits", -payment.amount],
+      ["platform:service_fees", -payment.serviceFee],
+    ),
+    occurred_at: payment.paidAt,
+  }
+}
+
+export interface RefundInput {
+  refundId: string
+  organizerId?: string | null
+  eventId?: string | null
+  amount: number
+  // What the refunded tickets credited the organiser; they bear up to this much
+  organizerShare: number
+  provider: "pawapay" | "pesapal"
+  ticketIds?: string[]
+  // A cancelled plan whose tickets were never issued is paid back from deposits
+  fromInstallments?: boolean
+  chargeback?: boolean
+  completedAt: string
+  label?: string
+}
+
+export function refundEntry(refund: RefundInput): LedgerEntry {
+  const amount = money(refund.amount)
+  const cash: LedgerAccount = refund.provider === "pawapay" ? "cash:pawapay" : "cash:pesapal"
+  const organizerPart = refund.fromInstallments || !refund.organizerId ? 0 : Math.min(amount, money(refund.organizerShare))
+  const type = refund.chargeback ? "chargeback" : "refund"
+  return {
+    entry_type: type,
+    idempotency_key: `${type}:${refund.refundId}`,
+    organizer_id: refund.organizerId ?? null,
+    event_id: refund.eventId ?? null,
+    source_id: refund.refundId,
+    ticket_ids: refund.ticketIds || [],
+    memo: refund.label || (refund.chargeback ? "Chargeback" : "Refund"),
+    lines: refund.fromInstallments
+      ? lines(["buyer_deposits", amount], [cash, -amount])
+      : lines(
+          ...(refund.organizerId ? [[organizerAccount(refund.organizerId), organizerPart] as [LedgerAccount, number]] : []),
+          ["platform:commission", amount - organizerPart],
+          [cash, -amount],
+        ),
+    occurred_at: refund.completedAt,
+  }
+}
+
+export interface PayoutInput {
+  payoutId: string
+  organizerId: string
+  amount: number
+  method?: string | null
+  processedAt: string
+  reference?: string | null
+  // Resale proceeds are paid out of resale_payable, not the seller's organiser account
+  resale?: boolean
+}
+
+export function payoutEntry(payout: PayoutInput): LedgerEntry {
+  return {
+    entry_type: "payout",
+    idempotency_key: `payout:${payout.payoutId}`,
+    organizer_id: payout.resale ? null : payout.organizerId,
+    source_id: payout.payoutId,
+    memo: payout.reference ? `Payout ${payout.reference}` : "Payout",
+    lines: lines(
+      [payout.resale ? "resale_payable" : organizerAccount(payout.organizerId), payout.amount],
+      [payout.method === "mobile_money" ? "cash:pawapay" : "cash:bank", -payout.amount],
+    ),
+    occurred_at: payout.processedAt,
+  }
+}
+
+export interface ResaleSaleInput {
+  paymentId: string
+  amount: number
+  provider: "pawapay" | "pesapal"
+  paidAt: string
+  label?: string
+}
+
+/** A resale buyer's payment, owed to the seller and kept off organiser wallets */
+export function resaleSaleEntry(sale: ResaleSaleInput): LedgerEntry {
+  return {
+    entry_type: "resale_sale",
+    idempotency_key: `resale:${sale.paymentId}`,
+    organizer_id: null,
+    source_id: sale.paymentId,
+    memo: sale.label || "Resale ticket sale",
+    lines: lines(
+      [sale.provider === "pawapay" ? "cash:pawapay" : "cash:pesapal", sale.amount],
+      ["resale_payable", -sale.amount],
+    ),
+    occurred_at: sale.paidAt,
+  }
+}
+
+export interface RevenueShareInput {
+  ticketId: string
+  // The event creator the sale was credited to
+  ownerId: string
+  beneficiaryId: string
+  eventId?: string | null
+  amount: number
+  occurredAt: string
+  availableAt?: string | null
+  label?: string
+}
+
+/** Move a beneficiary's cut of a sale from the creator's account to theirs */
+export function revenueShareEntry(share: RevenueShareInput): LedgerEntry {
+  return {
+    entry_type: "revenue_share",
+    idempotency_key: `share:${share.ticketId}:${share.beneficiaryId}`,
+    organizer_id: share.beneficiaryId,
+    counterparty_id: share.ownerId,
+    event_id: share.eventId ?? null,
+    source_id: share.ticketId,
+    ticket_ids: [share.ticketId],
+    memo: share.label || "Revenue share",
+    lines: lines(
+      [organizerAccount(share.ownerId), share.amount],
+      [organizerAccount(share.beneficiaryId), -share.amount],
+    ),
+    occurred_at: share.occurredAt,
+    available_at: share.availableAt ?? null,
+  }
+}
+
+/**
+ * A refund is charged to the creator in full; this takes the beneficiary's
+ * cut of the refunded ticket back from them.
+ */
+export function revenueShareRefundEntry(share: Pick<LedgerEntry, "organizer_id" | "counterparty_id" | "event_id" | "source_id" | "lines">, refund: {
+  refundId: string
+  chargeback?: boolean
+  completedAt: string
+}): LedgerEntry {
+  const beneficiaryId = share.organizer_id as string
+  const ownerId = share.counterparty_id as string
+  const amount = organizerDelta(share, beneficiaryId)
+  const type = refund.chargeback ? "chargeback" : "refund"
+  return {
+    entry_type: type,
+    idempotency_key: `${type}_share:${refund.refundId}:${share.source_id}:${beneficiaryId}`,
+    organizer_id: beneficiaryId,
+    counterparty_id: ownerId,
+    event_id: share.event_id ?? null,
+    source_id: refund.refundId,
+    ticket_ids: [share.source_id],
+    memo: `${refund.chargeback ? "Chargeback" : "Refund"}: revenue share returned`,
+    lines: lines(
+      [organizerAccount(beneficiaryId), amount],
+      [organizerAccount(ownerId), -amount],
+    ),
+    occurred_at: refund.completedAt,
+  }
+}
+
+/** Manual correction; a positive amount credits the organiser */
+export function adjustmentEntry(adjustment: {
+  key: string
+  organizerId: string
+  amount: number
+  memo: string
+  occurredAt: string
+  createdBy?: string | null
+}): LedgerEntry {
+  return {
+    entry_type: "adjustment",
+    idempotency_key: `adjustment:${adjustment.key}`,
+    organizer_id: adjustment.organizerId,
+    source_id: adjustment.key,
+    memo: adjustment.memo,
+    lines: lines(
+      ["platform:adjustments", adjustment.amount],
+      [organizerAccount(adjustment.organizerId), -adjustment.amount],
+    ),
+    occurred_at: adjustment.occurredAt,
+    created_by: adjustment.createdBy ?? null,
+  }
+}
+
+/** What an entry did to the organiser's balance; credits are positive */
+export function organizerDelta(entry: Pick<LedgerEntry, "lines">, organizerId: string): number {
+  const account = organizerAccount(organizerId)
+  return money(-entry.lines.filter((l) => l.account === account).reduce((sum, l) => sum + l.amount, 0))
+}
+
+function byOccurrence(a: LedgerEntry, b: LedgerEntry): number {
+  return a.occurred_at.localeCompare(b.occurred_at) || String(a.created_at || "").localeCompare(String(b.created_at || ""))
+}
+
+export function walletBalance(entries: LedgerEntry[], organizerId: string, now: Date = new Date()): WalletBalance {
+  const wallet: WalletBalance = {
+    organizerId, availableBalance: 0, pendingBalance: 0, totalEarnings: 0, totalPayouts: 0, totalRefunds: 0, totalAdjustments: 0,
+  }
+  let balance = 0
+  for (const entry of [...entries].sort(byOccurrence)) {
+    const delta = organizerDelta(entry, organizerId)
+    if (!delta) continue
+    balance += delta
+    if (entry.entry_type === "ticket_sale" || entry.entry_type === "revenue_share") {
+      wallet.totalEarnings += delta
+      if (entry.available_at && new Date(entry.available_at) > now) wallet.pendingBalance += delta
+    } else if (entry.entry_type === "refund" || entry.entry_type === "chargeback") {
+      wallet.totalRefunds -= delta
+    } else if (entry.entry_type === "payout") {
+      wallet.totalPayouts -= delta
+      wallet.lastPayoutDate = entry.occurred_at
+    } else {
+      wallet.totalAdjustments += delta
+    }
+  }
+  wallet.pendingBalance = money(wallet.pendingBalance)
+  wallet.availableBalance = money(balance - wallet.pendingBalance)
+  wallet.totalEarnings = money(wallet.totalEarnings)
+  wallet.totalPayouts = money(wallet.totalPayouts)
+  wallet.totalRefunds = money(wallet.totalRefunds)
+  wallet.totalAdjustments = money(wallet.totalAdjustments)
+  return wallet
+}
+
+export interface Statement {
+  organizerId: string
+  openingBalance: number
+  closingBalance: number
+  lines: StatementLine[]
+}
+
+/** The organiser's entries in order with a running balance; `from`/`to` are ISO timestamps */
+export function buildStatement(entries: LedgerEntry[], organizerId: string, range: { from?: string; to?: string } = {}): Statement {
+  let balance = 0
+  let openingBalance = 0
+  const statementLines: StatementLine[] = []
+  for (const entry of [...entries].sort(byOccurrence)) {
+    if (range.to && entry.occurred_at > range.to) break
+    const delta = organizerDelta(entry, organizerId)
+    if (!delta) continue
+    balance = money(balance + delta)
+    if (range.from && entry.occurred_at < range.from) {
+      openingBalance = balance
+      continue
+    }
+    statementLines.push({
+      entryId: entry.id, occurredAt: entry.occurred_at, entryType: entry.entry_type,
+      memo: entry.memo, sourceId: entry.source_id, amount: delta, balance,
+    })
+  }
+  return { organizerId, openingBalance, closingBalance: balance, lines: statementLines }
+}
+
+export function csvField(value: string | number): string {
+  const s = String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function statementCsv(statement: Statement): string {
+  const rows: Array<Array<string | number>> = [
+    ["Date", "Type", "Description", "Reference", "Amount", "Balance"],
+    ["", "opening_balance", "Opening balance", "", "", statement.openingBalance],
+    ...statement.lines.map((l) => [l.occurredAt, l.entryType, l.memo, l.sourceId, l.amount, l.balance]),
+    ["", "closing_balance", "Closing balance", "", "", statement.closingBalance],
+  ]
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n")
+}
+
+export interface InvariantInput {
+  entries: LedgerEntry[]
+  // Paid tickets, as the tickets table has them
+  tickets: Array<{ id: string; organizerId: string; venueRevenue: number; totalAmount: number; refunded: boolean }>
+  payouts: Array<{ id: string; organizerId: string; amount: number; status: string }>
+  // Cached balances in `organizer_wallets`, if any
+  wallets?: Array<{ organizerId: string; availableBalance: number; pendingBalance: number }>
+  now?: Date
+}
+
+/** Drift between the ledger and the tables it is posted from */
+export function checkLedgerInvariants(input: InvariantInput): LedgerIssue[] {
+  const issues: LedgerIssue[] = []
+  const bySource = new Map<string, LedgerEntry>()
+  const refundedTickets = new Set<string>()
+  const organizers = new Set<string>()
+
+  for (const entry of input.entries) {
+    bySource.set(entry.idempotency_key, entry)
+    if (entry.organizer_id) organizers.add(entry.organizer_id)
+    if (entry.entry_type === "refund" || entry.entry_type === "chargeback") entry.ticket_ids?.forEach((id) => refundedTickets.add(id))
+    if (!isBalanced(entry)) {
+      const off = money(entry.lines.reduce((sum, l) => sum + l.amount, 0))
+      issues.push({ kind: "unbalanced_entry", organizerId: entry.organizer_id, sourceId: entry.source_id, actual: off, message: `${entry.idempotency_key} is off by ${off}` })
+    }
+  }
+
+  const ticketIds = new Set<string>()
+  for (const ticket of input.tickets) {
+    ticketIds.add(ticket.id)
+    if (money(ticket.totalAmount) <= 0) continue
+    const sale = bySource.get(`sale:${ticket.id}`)
+    if (!sale) {
+      issues.push({ kind: "missing_sale", organizerId: ticket.organizerId, sourceId: ticket.id, expected: money(ticket.venueRevenue), message: `Ticket ${ticket.id} has no sale entry` })
+      continue
+    }
+    const credited = organizerDelta(sale, ticket.organizerId)
+    if (Math.abs(credited - money(ticket.venueRevenue)) >= LEDGER_TOLERANCE) {
+      issues.push({ kind: "sale_amount_drift", organizerId: ticket.organizerId, sourceId: ticket.id, expected: money(ticket.venueRevenue), actual: credited, message: `Ticket ${ticket.id} credited ${credited}, venue revenue is ${money(ticket.venueRevenue)}` })
+    }
+    if (ticket.refunded && !refundedTickets.has(ticket.id)) {
+      issues.push({ kind: "missing_refund", organizerId: ticket.organizerId, sourceId: ticket.id, message: `Ticket ${ticket.id} is refunded but no refund was posted` })
+    }
+  }
+  for (const entry of input.entries) {
+    if (entry.entry_type === "ticket_sale" && !ticketIds.has(entry.source_id)) {
+      issues.push({ kind: "orphan_sale", organizerId: entry.organizer_id, sourceId: entry.source_id, message: `Sale ${entry.source_id} has no paid ticket` })
+    }
+  }
+
+  const completedPayouts = new Set<string>()
+  for (const payout of input.payouts) {
+    if (payout.status !== "completed") continue
+    completedPayouts.add(payout.id)
+    const entry = bySource.get(`payout:${payout.id}`)
+    if (!entry) {
+      issues.push({ kind: "missing_payout", organizerId: payout.organizerId, sourceId: payout.id, expected: money(payout.amount), message: `Payout ${payout.id} has no ledger entry` })
+      continue
+    }
+    const debited = -organizerDelta(entry, payout.organizerId)
+    if (Math.abs(debited - money(payout.amount)) >= LEDGER_TOLERANCE) {
+      issues.push({ kind: "payout_amount_drift", organizerId: payout.organizerId, sourceId: payout.id, expected: money(payout.amount), actual: debited, message: `Payout ${payout.id} debited ${debited}, paid ${money(payout.amount)}` })
+    }
+  }
+  for (const entry of input.entries) {
+    if (entry.entry_type === "payout" && !completedPayouts.has(entry.source_id)) {
+      issues.push({ kind: "orphan_payout", organizerId: entry.organizer_id, sourceId: entry.source_id, message: `Payout ${entry.source_id} is posted but not completed` })
+    }
+  }
+
+  const now = input.now || new Date()
+  const cached = new Map((input.wallets || []).map((w) => [w.organizerId, w]))
+  for (const organizerId of new Set([...organizers, ...cached.keys()])) {
+    const wallet = walletBalance(input.entries.filter((e) => e.organizer_id === organizerId || e.counterparty_id === organizerId), organizerId, now)
+    const balance = money(wallet.availableBalance + wallet.pendingBalance)
+    if (balance < -LEDGER_TOLERANCE) {
+      issues.push({ kind: "negative_balance", organizerId, actual: balance, message: `Organiser owes ${-balance}` })
+    }
+    const cachedWallet = cached.get(organizerId)
+    if (cachedWallet && Math.abs(money(cachedWallet.availableBalance) - wallet.availableBalance) >= LEDGER_TOLERANCE) {
+      issues.push({ kind: "wallet_drift", organizerId, expected: wallet.availableBalance, actual: money(cachedWallet.availableBalance), message: `Cached wallet shows ${money(cachedWallet.availableBalance)}, ledger ${wallet.availableBalance}` })
+    }
+  }
+  return issues
+}
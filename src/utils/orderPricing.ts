@@ -0,0 +1,59 @@
+import type { PromoCode } from "../models/PromoCode"
+import { quoteTicketPrice } from "./pricing"
+import { resolvePricePhase, type PhasedFee } from "./pricePhases"
+import { bestAutoPromo, findPromoCode, normalizePromoCode, promoDiscount, promoRejection } from "./promoCodes"
+
+// Checkout prices an order in the buyer's browser and records the total with
+// the pending fulfillment. The fulfillment worker prices it again from the
+// event before issuing tickets. Shared with the Netlify functions, so
+// type-only model imports.
+
+export interface OrderPricingInput {
+  fee: PhasedFee
+  // Attendees on the order
+  quantity: number
+  // Table fees are priced for the whole table and sold per seat
+  tableSize?: number | null
+  promoCodes?: PromoCode[]
+  // The code the order says it used, if any
+  promoCode?: string
+  // Redemptions per normalised code before the order
+  promoUsage?: Record<string, number>
+  // Tickets of this fee sold before the order, for count-based phases
+  soldCount: number
+  eventStartTime?: Date
+  lateFeePercent?: number
+  utcOffsetMinutes?: number
+  // When checkout priced the order
+  orderedAt: Date
+}
+
+/**
+ * What checkout should have charged for an order: the fee's phase price at
+ * the time, less the bigger of the order's own code and the best group deal
+ * it qualified for, plus any late fee.
+ */
+export function expectedOrderTotal(input: OrderPricingInput): number {
+  const { amount } = resolvePricePhase(input.fee, input.soldCount, input.orderedAt)
+  const unitPrice = input.tableSize && input.tableSize > 0 ? amount / input.tableSize : amount
+  const subtotal = unitPrice * input.quantity
+  const context = { ticketType: input.fee.name, quantity: input.quantity, now: input.orderedAt }
+  const usage = input.promoUsage || {}
+
+  const named = input.promoCode ? findPromoCode(input.promoCodes, input.promoCode) : undefined
+  const offers = [
+    named && !promoRejection(named, { ...context, uses: usage[normalizePromoCode(named.code)] ?? 0 }) ? named : null,
+    bestAutoPromo(input.promoCodes, context, subtotal, usage),
+  ]
+  const discount = Math.max(0, ...offers.map((promo) => (promo ? promoDiscount(promo, subtotal) : 0)))
+
+  return quoteTicketPrice({
+    unitPrice,
+    quantity: input.quantity,
+    eventStartTime: input.eventStartTime,
+    lateFeePercent: input.lateFeePercent,
+    discount,
+    now: input.orderedAt,
+    utcOffsetMinutes: input.utcOffsetMinutes,
+  }).total
+}
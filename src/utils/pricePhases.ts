@@ -0,0 +1,53 @@
+import type { PricePhase } from "../models/Event"
+
+export interface PhasedFee {
+  name: string
+  amount: string
+  pricePhases?: PricePhase[]
+}
+
+export interface ResolvedPrice {
+  amount: number
+  // Null when the fee has no phases and sells at its flat amount
+  phase: PricePhase | null
+  next: PricePhase | null
+  // Tickets left at this price before a count-based phase closes
+  remainingAtPrice: number | null
+}
+
+export function parseFeeAmount(amount?: string | number): number {
+  return Number.parseInt(String(amount ?? "0").replace(/[^0-9]/g, "") || "0")
+}
+
+function isOpen(phase: PricePhase, soldCount: number, now: Date): boolean {
+  if (phase.endsAt && now >= new Date(phase.endsAt)) return false
+  if (phase.untilSold != null && phase.untilSold > 0 && soldCount >= phase.untilSold) return false
+  return true
+}
+
+/**
+ * Price a fee at a moment in time. A whole order is priced at the phase open
+ * when it starts, even if it takes a count-based phase past its limit.
+ */
+export function resolvePricePhase(fee: PhasedFee, soldCount: number, now: Date = new Date()): ResolvedPrice {
+  const phases = fee.pricePhases || []
+  if (!phases.length) {
+    return { amount: parseFeeAmount(fee.amount), phase: null, next: null, remainingAtPrice: null }
+  }
+
+  let index = phases.findIndex((phase, i) => i === phases.length - 1 || isOpen(phase, soldCount, now))
+  if (index < 0) index = phases.length - 1
+  const phase = phases[index]
+  const isLast = index === phases.length - 1
+  return {
+    amount: parseFeeAmount(phase.amount),
+    phase,
+    next: isLast ? null : phases[index + 1],
+    remainingAtPrice: !isLast && phase.untilSold ? Math.max(0, phase.untilSold - soldCount) : null,
+  }
+}
+
+/** Phase label for sales reports; tickets sold before phases existed fall back to early/late */
+export function salesPhaseLabel(ticket: { pricePhase?: string; isLatePurchase?: boolean }): string {
+  return ticket.pricePhase || (ticket.isLatePurchase ? "Late" : "Early")
+}
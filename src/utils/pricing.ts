@@ -0,0 +1,199 @@
+// Single source of truth for ticket pricing, fees and the commission split.
+// Pure module with no runtime imports so Netlify functions can require it too.
+
+export type PricingPaymentMethod = "mobile_money" | "credit_card" | "bank_transfer"
+
+export const DEFAULT_COMMISSION_RATE = 0.15 // 15% YoVibe commission
+export const INSTALLMENT_SERVICE_FEE_RATE = 0.08 // 8% per installment
+export const DEFAULT_LATE_FEE_PERCENT = 0 // configurable per event
+// Late fees start at 7am on the day of the event, in the event's own time
+export const LATE_FEE_CUTOFF_HOUR = 7
+// Events run in East Africa Time unless told otherwise
+export const DEFAULT_EVENT_UTC_OFFSET_MINUTES = 180
+
+export const GATEWAY_FEE_RATES: Record<PricingPaymentMethod, number> = {
+  credit_card: 0.034,
+  mobile_money: 0.03,
+  bank_transfer: 0,
+}
+
+export interface RevenueSplit {
+  appCommission: number
+  venueRevenue: number
+  commissionRate: number
+}
+
+export interface PriceQuote {
+  subtotal: number
+  discount: number
+  lateFee: number
+  // What the tickets cost: subtotal - discount + lateFee
+  total: number
+  // Installment service fees, charged on top of the total
+  serviceFee: number
+  amountDue: number
+  // Paid by YoVibe out of its commission, never by the buyer
+  gatewayFee: number
+  commissionRate: number
+  commission: number
+  organiserNet: number
+  // A late fee was charged, not merely bought after the cutoff
+  isLatePurchase: boolean
+}
+
+export interface QuoteInput {
+  unitPrice: number
+  quantity: number
+  eventStartTime?: Date
+  lateFeePercent?: number
+  discount?: number
+  paymentMethod?: PricingPaymentMethod
+  // Per-organiser override; falls back to the default when unset or invalid
+  commissionRate?: number | null
+  installments?: boolean
+  now?: Date
+  // The event's UTC offset, for where the late-fee cutoff falls
+  utcOffsetMinutes?: number
+}
+
+export interface PayoutBreakdown {
+  ticketCount: number
+  gross: number
+  commission: number
+  gatewayFees: number
+  net: number
+}
+
+export function resolveCommissionRate(override?: number | null): number {
+  if (override == null || !Number.isFinite(override) || override < 0 || override > 1) {
+    return DEFAULT_COMMISSION_RATE
+  }
+  return override
+}
+
+/** Whether `now` is past the cutoff hour on the event's local calendar day */
+export function isLatePurchase(
+  eventStartTime: Date,
+  now: Date = new Date(),
+  utcOffsetMinutes = DEFAULT_EVENT_UTC_OFFSET_MINUTES,
+): boolean {
+  const offsetMs = utcOffsetMinutes * 60 * 1000
+  const local = new Date(eventStartTime.getTime() + offsetMs)
+  local.setUTCHours(LATE_FEE_CUTOFF_HOUR, 0, 0, 0)
+  return now.getTime() >= local.getTime() - offsetMs
+}
+
+export function calculateRevenueSplit(totalAmount: number, commissionRate?: number | null): RevenueSplit {
+  const rate = resolveCommissionRate(commissionRate)
+  const appCommission = Math.round(totalAmount * rate)
+  return {
+    appCommission,
+    venueRevenue: totalAmount - appCommission,
+    commissionRate: rate,
+  }
+}
+
+/** Processor fee on an amount, kept to the cent like the gateways report it */
+export function calculateGatewayFee(amount: number, method?: PricingPaymentMethod): number {
+  const rate = method ? GATEWAY_FEE_RATES[method] ?? 0 : 0
+  return Math.round(amount * rate * 100) / 100
+}
+
+export function calculateInstallmentServiceFee(amount: number): number {
+  return Math.round(amount * INSTALLMENT_SERVICE_FEE_RATE)
+}
+
+/** Fees and split for a single installment payment of `amount` principal */
+export function calculateInstallmentFees(amount: number, commissionRate?: number | null): {
+  serviceFee: number
+  totalDue: number
+  yovibeCommission: number
+  venueRevenue: number
+} {
+  const serviceFee = calculateInstallmentServiceFee(amount)
+  const { appCommission, venueRevenue } = calculateRevenueSplit(amount, commissionRate)
+  return { serviceFee, totalDue: amount + serviceFee, yovibeCommission: appCommission, venueRevenue }
+}
+
+function finishQuote(
+  base: { subtotal: number; discount: number; lateFee: number; total: number; isLatePurchase: boolean },
+  input: { paymentMethod?: PricingPaymentMethod; commissionRate?: number | null; installments?: boolean },
+): PriceQuote {
+  const serviceFee = input.installments ? calculateInstallmentServiceFee(base.total) : 0
+  const amountDue = base.total + serviceFee
+  const { appCommission, venueRevenue, commissionRate } = calculateRevenueSplit(base.total, input.commissionRate)
+  return {
+    ...base,
+    serviceFee,
+    amountDue,
+    gatewayFee: calculateGatewayFee(amountDue, input.paymentMethod),
+    commissionRate,
+    commission: appCommission,
+    organiserNet: venueRevenue,
+  }
+}
+
+/**
+ * Itemised quote for an order. The discount comes off the subtotal before the
+ * late fee is worked out, and commission is taken on what the tickets cost.
+ */
+export function quoteTicketPrice(input: QuoteInput): PriceQuote {
+  const subtotal = Math.max(input.unitPrice, 0) * Math.max(input.quantity, 0)
+  const discount = Math.min(Math.max(input.discount ?? 0, 0), subtotal)
+  const discounted = subtotal - discount
+  const late = input.eventStartTime ? isLatePurchase(input.eventStartTime, input.now, input.utcOffsetMinutes) : false
+  const pct = input.lateFeePercent ?? DEFAULT_LATE_FEE_PERCENT
+  const lateFee = late ? Math.round(discounted * pct / 100) : 0
+
+  return finishQuote(
+    { subtotal, discount, lateFee, total: discounted + lateFee, isLatePurchase: lateFee > 0 },
+    input,
+  )
+}
+
+/**
+ * Quote for one ticket out of an order whose total was already agreed at
+ * checkout. The late fee is backed out of the total rather than added on.
+ */
+export function quoteFromTotal(
+  total: number,
+  options: Omit<QuoteInput, "unitPrice" | "quantity"> = {},
+): PriceQuote {
+  const late = options.eventStartTime ? isLatePurchase(options.eventStartTime, options.now, options.utcOffsetMinutes) : false
+  const pct = options.lateFeePercent ?? DEFAULT_LATE_FEE_PERCENT
+  const lateFee = late && pct > 0 ? total - Math.round(total / (1 + pct / 100)) : 0
+  const discount = Math.max(options.discount ?? 0, 0)
+
+  return finishQuote(
+    { subtotal: total - lateFee + discount, discount, lateFee, total, isLatePurchase: lateFee > 0 },
+    options,
+  )
+}
+
+/** Refund on a single ticket: what the buyer paid, less the processor's cut */
+export function ticketRefundAmount(ticket: { totalAmount?: number | null; basePrice?: number | null; gatewayFee?: number | null }): number {
+  const paid = Number(ticket.totalAmount || ticket.basePrice || 0)
+  return Math.max(0, paid - Number(ticket.gatewayFee || 0))
+}
+
+/** Refund on a cancelled installment plan: 40% of the principal paid, service fees kept */
+export function installmentRefundAmount(paid: Array<{ amount: number }>): number {
+  const principal = paid.reduce((sum, i) => sum + Number(i.amount || 0), 0)
+  return Math.floor(principal * 2 / 5)
+}
+
+/** Totals shown on payout records and receipts for a batch of tickets */
+export function calculatePayoutBreakdown(
+  tickets: Array<{ totalAmount?: number | null; appCommission?: number | null; venueRevenue?: number | null; gatewayFee?: number | null }>,
+): PayoutBreakdown {
+  return tickets.reduce<PayoutBreakdown>(
+    (acc, t) => ({
+      ticketCount: acc.ticketCount + 1,
+      gross: acc.gross + Number(t.totalAmount || 0),
+      commission: acc.commission + Number(t.appCommission || 0),
+      gatewayFees: Math.round((acc.gatewayFees + Number(t.gatewayFee || 0)) * 100) / 100,
+      net: acc.net + Number(t.venueRevenue || 0),
+    }),
+    { ticketCount: 0, gross: 0, commission: 0, gatewayFees: 0, net: 0 },
+  )
+}
@@ -0,0 +1,109 @@
+import type { PromoCheck, PromoCode, PromoCodeReport, PromoRedemption } from "../models/PromoCode"
+
+export interface PromoContext {
+  ticketType: string
+  quantity: number
+  // Redemptions already recorded for the code
+  uses?: number
+  now?: Date
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function findPromoCode(promos: PromoCode[] | undefined, code: string): PromoCode | undefined {
+  const wanted = normalizePromoCode(code)
+  if (!wanted) return undefined
+  return (promos || []).find((p) => normalizePromoCode(p.code) === wanted)
+}
+
+/** Reason the code cannot be used for this order, or null when it applies */
+export function promoRejection(promo: PromoCode, ctx: PromoContext): string | null {
+  const now = ctx.now ?? new Date()
+  if (!promo.active) return "This promo code is no longer active"
+  if (promo.validFrom && now < new Date(promo.validFrom)) return "This promo code is not valid yet"
+  if (promo.validUntil && now > new Date(promo.validUntil)) return "This promo code has expired"
+  if (promo.maxUses != null && promo.maxUses > 0 && (ctx.uses ?? 0) >= promo.maxUses) {
+    return "This promo code has been fully redeemed"
+  }
+  if (promo.entryFees?.length && !promo.entryFees.includes(ctx.ticketType)) {
+    return `This promo code does not apply to ${ctx.ticketType} tickets`
+  }
+  if (promo.minGroupSize && ctx.quantity < promo.minGroupSize) {
+    return `Buy at least ${promo.minGroupSize} tickets to use this promo code`
+  }
+  return null
+}
+
+/** Discount in UGX on an order subtotal, never more than the subtotal itself */
+export function promoDiscount(promo: PromoCode, subtotal: number): number {
+  if (subtotal <= 0) return 0
+  const raw = promo.type === "percentage"
+    ? Math.round(subtotal * Math.min(Math.max(promo.value, 0), 100) / 100)
+    : Math.round(Math.max(promo.value, 0))
+  return Math.min(raw, subtotal)
+}
+
+/** Largest auto-applied group deal the order qualifies for */
+export function bestAutoPromo(
+  promos: PromoCode[] | undefined,
+  ctx: Omit<PromoContext, "uses">,
+  subtotal: number,
+  usage: Record<string, number> = {},
+): PromoCode | null {
+  let best: PromoCode | null = null
+  for (const promo of promos || []) {
+    if (!promo.autoApply) continue
+    if (promoRejection(promo, { ...ctx, uses: usage[normalizePromoCode(promo.code)] ?? 0 })) continue
+    if (!best || promoDiscount(promo, subtotal) > promoDiscount(best, subtotal)) best = promo
+  }
+  return best
+}
+
+/**
+ * The discount checkout shows for an order: the typed code while it applies,
+ * otherwise the best group deal. Only what the buyer may see is returned.
+ */
+export function resolveOrderPromo(
+  promos: PromoCode[] | undefined,
+  order: { ticketType: string; quantity: number; subtotal: number; code?: string; now?: Date },
+  usage: Record<string, number> = {},
+): PromoCheck {
+  const ctx = { ticketType: order.ticketType, quantity: order.quantity, now: order.now }
+  let chosen: PromoCode | null = null
+  let error: string | undefined
+  if (order.code) {
+    const named = findPromoCode(promos, order.code)
+    error = named
+      ? promoRejection(named, { ...ctx, uses: usage[normalizePromoCode(named.code)] ?? 0 }) ?? undefined
+      : "That promo code doesn't exist for this event"
+    if (named && !error) chosen = named
+  }
+  chosen = chosen ?? bestAutoPromo(promos, ctx, order.subtotal, usage)
+  return {
+    acceptsCodes: (promos || []).some((p) => p.active),
+    promo: chosen ? { code: normalizePromoCode(chosen.code), type: chosen.type, value: chosen.value, autoApply: !!chosen.autoApply } : null,
+    discount: chosen ? promoDiscount(chosen, order.subtotal) : 0,
+    ...(error ? { error } : {}),
+  }
+}
+
+/** Per-code totals for the organiser dashboard, most used first */
+export function summarizeRedemptions(promos: PromoCode[], redemptions: PromoRedemption[]): PromoCodeReport[] {
+  const reports = new Map<string, PromoCodeReport>()
+  for (const promo of promos) {
+    const code = normalizePromoCode(promo.code)
+    reports.set(code, { code, redemptions: 0, ticketsSold: 0, discountGiven: 0, revenue: 0 })
+  }
+  for (const r of redemptions) {
+    const code = normalizePromoCode(r.code)
+    const report = reports.get(code) ?? { code, redemptions: 0, ticketsSold: 0, discountGiven: 0, revenue: 0 }
+    report.redemptions += 1
+    report.ticketsSold += r.quantity || 0
+    report.discountGiven += Number(r.discount_amount) || 0
+    report.revenue += Number(r.order_total) || 0
+    reports.set(code, report)
+  }
+  return [...reports.values()].sort((a, b) => b.redemptions - a.redemptions || a.code.localeCompare(b.code))
+}
@@ -0,0 +1,226 @@
+import type { EventRecommendation, Follow, RecommendationReason, RecommendationReasonKind } from "../models/Recommendation"
+import { parseFeeAmount } from "./pricePhases"
+import { distanceMeters } from "./vibeCheckIn"
+
+// Shared with the recommendations Netlify function, so type-only model imports.
+
+// Most each signal adds to an event's score
+export const RECOMMENDATION_WEIGHTS = {
+  attendedVenue: 4,
+  purchasedVenue: 3,
+  followedVenue: 4,
+  followedArtist: 5,
+  seenArtist: 3,
+  price: 1.5,
+  nearby: 2,
+  habit: 1.5,
+  popular: 2,
+  new: 1,
+  soon: 1,
+}
+// Signed-in users' scores lean on their own history; these scale the crowd signals for them
+export const RECOMMENDATION_PERSONAL_CROWD_SCALE = 0.5
+// Past this distance a venue gets nothing for being close
+export const RECOMMENDATION_NEARBY_KM = 10
+// Tickets sold in the last fortnight that count as fully popular
+export const RECOMMENDATION_POPULAR_TICKETS = 50
+// Events announced this recently are new
+export const RECOMMENDATION_NEW_DAYS = 3
+// Events this far off get nothing for being soon
+export const RECOMMENDATION_SOON_DAYS = 14
+// An event costing more than this multiple of what the user usually pays is marked down
+export const RECOMMENDATION_PRICE_STRETCH = 2
+// Reasons shown per event
+export const RECOMMENDATION_MAX_REASONS = 2
+
+const WEEKDAYS = ["Sundays", "Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays"]
+
+/** A past ticket of the user's, for building their profile */
+export interface RecommendationHistoryItem {
+  venueSlug: string
+  venueName: string
+  artists: string[]
+  startsAt: Date
+  // Paid per ticket, before fees; null when unknown
+  pricePaid: number | null
+  // Scanned at the door
+  attended: boolean
+}
+
+export interface RecommendableEvent {
+  id: string
+  venueSlug: string
+  venueName: string
+  artists: string[]
+  startsAt: Date
+  createdAt: Date
+  // Cheapest way in; 0 for free entry, null when unknown
+  price: number | null
+  // Sold in the last fortnight
+  ticketsSold: number
+  venueLocation: { latitude: number; longitude: number } | null
+}
+
+export interface RecommendationProfile {
+  venues: Record<string, { name: string; attended: number; purchased: number }>
+  artistsSeen: Record<string, { name: string; count: number }>
+  followedVenues: Record<string, string>
+  followedArtists: Record<string, string>
+  // Median paid per ticket, null until the user has paid for one
+  typicalPrice: number | null
+  // Tickets per weekday in event local time, Sunday first
+  weekdays: number[]
+  tickets: number
+}
+
+export interface RecommendationContext {
+  now: Date
+  position?: { latitude: number; longitude: number } | null
+  utcOffsetMinutes?: number
+}
+
+/** Artists are free text on events, so follows and history match on a folded name */
+export function artistKey(name: string): string {
+  return String(name || "").trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+/** Cheapest way into an event: 0 when entry is free, null when no fee has a price */
+export function eventEntryPrice(event: {
+  isFreeEntry?: boolean
+  priceIndicator?: number | null
+  entryFees?: Array<{ amount: string; isTable?: boolean }>
+}): number | null {
+  if (event.isFreeEntry) return 0
+  if (event.priceIndicator && event.priceIndicator > 0) return event.priceIndicator
+  const amounts = (event.entryFees || []).filter((f) => !f.isTable).map((f) => parseFeeAmount(f.amount)).filter((a) => a > 0)
+  return amounts.length ? Math.min(...amounts) : null
+}
+
+function localWeekday(date: Date, utcOffsetMinutes: number): number {
+  return new Date(date.getTime() + utcOffsetMinutes * 60000).getUTCDay()
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// 1 - 0.5^n: the first visit counts for half, each later one for half what's left
+function saturate(count: number): number {
+  return 1 - 0.5 ** count
+}
+
+export function buildRecommendationProfile(
+  history: RecommendationHistoryItem[],
+  follows: Pick<Follow, "targetType" | "targetKey" | "targetName">[],
+  utcOffsetMinutes = 180,
+): RecommendationProfile {
+  const profile: RecommendationProfile = {
+    venues: {},
+    artistsSeen: {},
+    followedVenues: {},
+    followedArtists: {},
+    typicalPrice: median(history.map((h) => h.pricePaid).filter((p): p is number => p !== null && p > 0)),
+    weekdays: WEEKDAYS.map(() => 0),
+    tickets: history.length,
+  }
+  for (const item of history) {
+    const venue = (profile.venues[item.venueSlug] ||= { name: item.venueName, attended: 0, purchased: 0 })
+    if (item.attended) venue.attended++
+    else venue.purchased++
+    if (item.attended) {
+      for (const artist of item.artists) {
+        const key = artistKey(artist)
+        if (key) (profile.artistsSeen[key] ||= { name: artist, count: 0 }).count++
+      }
+    }
+    profile.weekdays[localWeekday(item.startsAt, utcOffsetMinutes)]++
+  }
+  for (const follow of follows) {
+    if (follow.targetType === "venue") profile.followedVenues[follow.targetKey] = follow.targetName
+    else profile.followedArtists[follow.targetKey] = follow.targetName
+  }
+  return profile
+}
+
+/**
+ * Score one upcoming event for a user, or for an anonymous visitor when there
+ * is no profile, with the reasons that contributed most.
+ */
+export function scoreEvent(
+  event: RecommendableEvent,
+  profile: RecommendationProfile | null,
+  context: RecommendationContext,
+): EventRecommendation {
+  const w = RECOMMENDATION_WEIGHTS
+  const contributions: Array<RecommendationReason & { score: number }> = []
+  const add = (kind: RecommendationReasonKind, score: number, text: string) => {
+    if (score !== 0) contributions.push({ kind, score, text })
+  }
+  const crowdScale = profile ? RECOMMENDATION_PERSONAL_CROWD_SCALE : 1
+
+  if (profile) {
+    const venue = profile.venues[event.venueSlug]
+    if (venue?.attended) add("attended_venue", w.attendedVenue * saturate(venue.attended), `Because you went to ${venue.name}`)
+    else if (venue?.purchased) add("purchased_venue", w.purchasedVenue * saturate(venue.purchased), `You've had tickets at ${venue.name}`)
+    if (profile.followedVenues[event.venueSlug]) add("followed_venue", w.followedVenue, `You follow ${event.venueName}`)
+
+    const keys = event.artists.map((a) => ({ name: a, key: artistKey(a) }))
+    const followed = keys.find((a) => profile.followedArtists[a.key])
+    if (followed) add("followed_artist", w.followedArtist, `${followed.name} is playing, and you follow them`)
+    const seen = keys
+      .filter((a) => a !== followed && profile.artistsSeen[a.key])
+      .sort((a, b) => profile.artistsSeen[b.key].count - profile.artistsSeen[a.key].count)[0]
+    if (seen) add("seen_artist", w.seenArtist * saturate(profile.artistsSeen[seen.key].count), `Because you saw ${seen.name}`)
+
+    if (profile.typicalPrice !== null && event.price !== null) {
+      if (event.price <= profile.typicalPrice) add("price", w.price, "In your usual price range")
+      else if (event.price > profile.typicalPrice * RECOMMENDATION_PRICE_STRETCH) add("price", -w.price, "Pricier than you usually go for")
+    }
+
+    if (profile.tickets) {
+      const weekday = localWeekday(event.startsAt, context.utcOffsetMinutes ?? 180)
+      const share = profile.weekdays[weekday] / profile.tickets
+      // Any weekday gets an even seventh by chance
+      if (share > 1 / 7) add("habit", w.habit * share, `You usually go out on ${WEEKDAYS[weekday]}`)
+    }
+  }
+
+  if (context.position && event.venueLocation) {
+    const km = distanceMeters(context.position, event.venueLocation) / 1000
+    if (km < RECOMMENDATION_NEARBY_KM) add("nearby", w.nearby * (1 - km / RECOMMENDATION_NEARBY_KM), `${km < 1 ? "Under 1" : Math.round(km)} km away`)
+  }
+
+  if (event.ticketsSold > 0) {
+    const popularity = Math.min(1, Math.log1p(event.ticketsSold) / Math.log1p(RECOMMENDATION_POPULAR_TICKETS))
+    add("popular", w.popular * crowdScale * popularity, `${event.ticketsSold} ticket${event.ticketsSold === 1 ? "" : "s"} sold lately`)
+  }
+  const ageDays = (context.now.getTime() - event.createdAt.getTime()) / 86400000
+  if (ageDays >= 0 && ageDays < RECOMMENDATION_NEW_DAYS) add("new", w.new * crowdScale * (1 - ageDays / RECOMMENDATION_NEW_DAYS), "Just announced")
+  const daysAway = (event.startsAt.getTime() - context.now.getTime()) / 86400000
+  if (daysAway < RECOMMENDATION_SOON_DAYS) {
+    add("soon", w.soon * crowdScale * (1 - Math.max(0, daysAway) / RECOMMENDATION_SOON_DAYS), daysAway < 1 ? "Happening soon" : daysAway < 7 ? "This week" : "Coming up")
+  }
+
+  const score = contributions.reduce((sum, c) => sum + c.score, 0)
+  const reasons = contributions
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RECOMMENDATION_MAX_REASONS)
+    .map(({ kind, text }) => ({ kind, text }))
+  return { eventId: event.id, score: Math.round(score * 1000) / 1000, reasons }
+}
+
+/** Events best first; ties go to the sooner event */
+export function rankEvents(
+  events: RecommendableEvent[],
+  profile: RecommendationProfile | null,
+  context: RecommendationContext,
+): EventRecommendation[] {
+  const startsAt = new Map(events.map((e) => [e.id, e.startsAt.getTime()]))
+  return events
+    .map((event) => scoreEvent(event, profile, context))
+    .sort((a, b) => b.score - a.score || startsAt.get(a.eventId)! - startsAt.get(b.eventId)!)
+}
@@ -0,0 +1,264 @@
+import type {
+  GatewayProvider,
+  GatewayTransaction,
+  LedgerRecord,
+  ReconciliationAction,
+  ReconciliationRow,
+  ReconciliationSummary,
+  SettlementStatus,
+  TransactionKind,
+} from "../models/Reconciliation"
+
+// Shared with the payment-reconciliation Netlify function, so type-only imports.
+
+// UGX rounding on tickets split out of one order total
+export const AMOUNT_TOLERANCE = 1
+
+const COMPLETED = ["completed", "complete", "success", "successful", "succeeded", "paid", "settled", "1"]
+const FAILED = ["failed", "failure", "rejected", "invalid", "reversed", "cancelled", "canceled", "declined", "2", "3"]
+
+export function normalizeSettlementStatus(value: unknown): SettlementStatus {
+  const status = String(value ?? "").trim().toLowerCase()
+  if (COMPLETED.includes(status)) return "completed"
+  if (FAILED.includes(status)) return "failed"
+  return "pending"
+}
+
+export function parseAmount(value: unknown): number {
+  if (typeof value === "number") return value
+  const n = Number(String(value ?? "").replace(/[^0-9.-]/g, ""))
+  return Number.isFinite(n) ? n : NaN
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"') quoted = true
+    else if (c === ",") { row.push(field); field = "" }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++
+      row.push(field); field = ""
+      if (row.some((f) => f.trim())) rows.push(row)
+      row = []
+    } else field += c
+  }
+  row.push(field)
+  if (row.some((f) => f.trim())) rows.push(row)
+  return rows
+}
+
+// Statement column names as PawaPay and PesaPal export them, lowercased with
+// punctuation removed
+const COLUMNS: Record<string, string[]> = {
+  reference: ["depositid", "payoutid", "refundid", "ordertrackingid", "trackingid", "transactionid", "id", "reference"],
+  aliases: ["merchantreference", "clientreferenceid", "orderid", "confirmationcode", "providertransactionid"],
+  amount: ["amount", "depositedamount", "requestedamount", "transactionamount"],
+  currency: ["currency"],
+  status: ["status", "paymentstatus", "paymentstatusdescription"],
+  kind: ["type", "transactiontype", "kind"],
+  date: ["created", "createdat", "date", "transactiondate", "paymentdate", "timestamp"],
+}
+
+function kindOf(value: string | undefined, idColumn: string | undefined): TransactionKind {
+  const v = (value || "").toLowerCase()
+  if (/payout|disburse|withdraw/.test(v)) return "payout"
+  if (/refund|reversal/.test(v)) return "refund"
+  if (v) return "deposit"
+  if (idColumn === "payoutid") return "payout"
+  if (idColumn === "refundid") return "refund"
+  return "deposit"
+}
+
+/** Read a gateway statement export into transactions, reporting lines that could not be used */
+export function parseStatementCsv(
+  text: string,
+  provider: GatewayProvider,
+): { transactions: GatewayTransaction[]; errors: string[] } {
+  const [header, ...lines] = parseCsv(text)
+  if (!header) return { transactions: [], errors: ["The file is empty"] }
+  const keys = header.map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, ""))
+  const find = (names: string[]) => names.map((n) => keys.indexOf(n)).filter((i) => i >= 0)
+  const referenceCols = find(COLUMNS.reference)
+  const amountCol = find(COLUMNS.amount)[0]
+  if (!referenceCols.length || amountCol === undefined) {
+    return { transactions: [], errors: ["The file needs a transaction id column and an amount column"] }
+  }
+  const aliasCols = find(COLUMNS.aliases)
+  const [currencyCol] = find(COLUMNS.currency)
+  const [statusCol] = find(COLUMNS.status)
+  const [kindCol] = find(COLUMNS.kind)
+  const [dateCol] = find(COLUMNS.date)
+
+  const transactions: GatewayTransaction[] = []
+  const errors: string[] = []
+  lines.forEach((cells, i) => {
+    const refCol = referenceCols.find((c) => cells[c]?.trim())
+    const reference = refCol !== undefined ? cells[refCol].trim() : ""
+    const amount = parseAmount(cells[amountCol])
+    if (!reference || Number.isNaN(amount)) {
+      errors.push(`Line ${i + 2}: missing transaction id or amount`)
+      return
+    }
+    const date = dateCol !== undefined ? new Date(cells[dateCol]) : null
+    transactions.push({
+      provider,
+      kind: kindOf(kindCol !== undefined ? cells[kindCol] : undefined, refCol !== undefined ? keys[refCol] : undefined),
+      reference,
+      aliases: aliasCols.map((c) => cells[c]?.trim()).filter((a): a is string => !!a && a !== reference),
+      amount: Math.abs(amount),
+      currency: currencyCol !== undefined ? cells[currencyCol]?.trim() || undefined : undefined,
+      status: statusCol !== undefined ? normalizeSettlementStatus(cells[statusCol]) : "completed",
+      occurredAt: date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined,
+    })
+  })
+  return { transactions, errors }
+}
+
+export interface ReconcileOptions {
+  tolerance?: number
+  // Payment ids with a pending fulfillment the worker can still turn into tickets
+  fulfillableReferences?: Iterable<string>
+}
+
+function transactionIds(t: GatewayTransaction): string[] {
+  return [t.reference, ...(t.aliases || [])]
+}
+
+function sum(values: number[]): number {
+  return Math.round(values.reduce((s, v) => s + v, 0) * 100) / 100
+}
+
+function suggestedAction(
+  status: ReconciliationRow["status"],
+  kind: TransactionKind,
+  refs: string[],
+  records: LedgerRecord[],
+  fulfillable: Set<string>,
+): ReconciliationAction | undefined {
+  if (status === "matched") return undefined
+  if (kind === "refund") return records.length ? "open_refund" : undefined
+  if (kind !== "deposit" || status !== "orphan_payment") return undefined
+  // Money with no tickets: issue them if the order is on record, otherwise give it back
+  return refs.some((r) => fulfillable.has(r)) ? "create_fulfillment" : "open_refund"
+}
+
+/**
+ * Match gateway transactions against our own records of money moving and
+ * classify each pairing:
+ *  - matched: both sides agree on the amount and that it settled
+ *  - orphan_payment: the gateway settled money nothing on our side accounts for
+ *  - missing_payment: we recorded a settled payment the gateway does not have
+ *  - amount_mismatch: both settled, for different amounts
+ *  - duplicate: the gateway settled the same reference twice, or more than
+ *    one of our records claims the same transaction
+ * Failed or pending gateway transactions nobody claims are left out.
+ */
+export function reconcile(
+  transactions: GatewayTransaction[],
+  records: LedgerRecord[],
+  options: ReconcileOptions = {},
+): ReconciliationRow[] {
+  const tolerance = options.tolerance ?? AMOUNT_TOLERANCE
+  const fulfillable = new Set(options.fulfillableReferences || [])
+
+  const byReference = new Map<string, LedgerRecord[]>()
+  for (const record of records) {
+    for (const ref of new Set(record.references.filter(Boolean))) {
+      byReference.set(`${record.kind}:${ref}`, [...(byReference.get(`${record.kind}:${ref}`) || []), record])
+    }
+  }
+
+  const groups = new Map<string, GatewayTransaction[]>()
+  for (const t of transactions) {
+    const key = `${t.kind}:${t.reference}`
+    groups.set(key, [...(groups.get(key) || []), t])
+  }
+
+  const claimed = new Set<LedgerRecord>()
+  const rows: ReconciliationRow[] = []
+
+  for (const [key, group] of groups) {
+    const kind = group[0].kind
+    const refs = [...new Set(group.flatMap(transactionIds))]
+    const matches = [...new Set(refs.flatMap((r) => byReference.get(`${kind}:${r}`) || []))]
+    matches.forEach((r) => claimed.add(r))
+
+    const settled = group.filter((t) => t.status === "completed")
+    const settledRecords = matches.filter((r) => r.status === "completed")
+    const gatewayAmount = settled.length ? sum(settled.map((t) => t.amount)) : null
+    const ledgerAmount = matches.length ? sum(matches.map((r) => r.amount)) : null
+
+    let status: ReconciliationRow["status"]
+    let note: string | undefined
+    if (settled.length > 1) {
+      status = "duplicate"
+      note = `Settled ${settled.length} times at the gateway`
+    } else if (matches.length > 1 && new Set(matches.map((r) => `${r.source}:${r.id}`)).size > 1) {
+      status = "duplicate"
+      note = `Claimed by ${matches.length} records`
+    } else if (settled.length) {
+      if (!settledRecords.length) {
+        status = "orphan_payment"
+        note = matches.length ? `Our record is ${matches[0].status}` : undefined
+      } else if (Math.abs(settled[0].amount - settledRecords[0].amount) > tolerance) {
+        status = "amount_mismatch"
+        note = `Gateway ${settled[0].amount}, ours ${settledRecords[0].amount}`
+      } else {
+        status = "matched"
+      }
+    } else if (settledRecords.length) {
+      status = "missing_payment"
+      note = `Gateway reports ${group[0].status}`
+    } else if (matches.length) {
+      status = "matched"
+    } else {
+      continue
+    }
+
+    rows.push({
+      id: key,
+      status,
+      kind,
+      transactions: group,
+      records: matches,
+      gatewayAmount,
+      ledgerAmount,
+      note,
+      action: suggestedAction(status, kind, refs, matches, fulfillable),
+    })
+  }
+
+  for (const record of records) {
+    if (claimed.has(record) || record.status !== "completed") continue
+    rows.push({
+      id: `${record.source}:${record.id}`,
+      status: "missing_payment",
+      kind: record.kind,
+      transactions: [],
+      records: [record],
+      gatewayAmount: null,
+      ledgerAmount: record.amount,
+      note: "Not on the gateway statement",
+      action: suggestedAction("missing_payment", record.kind, record.references, [record], fulfillable),
+    })
+  }
+
+  return rows
+}
+
+export function summarizeReconciliation(rows: ReconciliationRow[], unchecked: number = 0): ReconciliationSummary {
+  const summary: ReconciliationSummary = {
+    matched: 0, orphan_payment: 0, missing_payment: 0, amount_mismatch: 0, duplicate: 0, unchecked,
+  }
+  for (const row of rows) summary[row.status]++
+  return summary
+}
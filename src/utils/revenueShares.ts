@@ -0,0 +1,99 @@
+// Revenue-share arithmetic. Pure so the payout and ledger Netlify functions
+// can require it too.
+import type { BeneficiaryShare, RevenueShareRule, TicketShare } from "../models/RevenueShare"
+
+function money(value: number): number {
+  return Math.round(Number(value || 0) * 100) / 100
+}
+
+export function rulesForFee(rules: RevenueShareRule[] | null | undefined, feeName?: string | null): RevenueShareRule[] {
+  return (rules || []).filter((r) => !r.entryFees?.length || (!!feeName && r.entryFees.includes(feeName)))
+}
+
+/**
+ * Split one ticket's venue revenue: fixed amounts come off first, percentages
+ * are of the whole venue revenue, and the owner keeps the rest. Shares are
+ * capped so the parties never get more than the ticket earned.
+ */
+export function splitTicketRevenue(
+  ticket: { venueRevenue: number; entryFeeType?: string | null },
+  rules: RevenueShareRule[] | null | undefined,
+  ownerId: string,
+): TicketShare[] {
+  const revenue = money(ticket.venueRevenue)
+  const applicable = rulesForFee(rules, ticket.entryFeeType)
+  const ordered = [...applicable.filter((r) => r.type === "fixed"), ...applicable.filter((r) => r.type === "percentage")]
+  let remaining = revenue
+  const shares: TicketShare[] = []
+  for (const rule of ordered) {
+    const wanted = rule.type === "fixed" ? rule.value : (revenue * rule.value) / 100
+    const amount = Math.min(money(wanted), remaining)
+    if (amount <= 0) continue
+    remaining = money(remaining - amount)
+    const existing = shares.find((s) => s.beneficiaryId === rule.beneficiaryId)
+    if (existing) existing.amount = money(existing.amount + amount)
+    else shares.push({ beneficiaryId: rule.beneficiaryId, role: rule.role, amount })
+  }
+  if (remaining > 0) shares.unshift({ beneficiaryId: ownerId, role: "owner", amount: remaining })
+  return shares
+}
+
+/** One entry per beneficiary with their total across the tickets */
+export function splitPayouts(
+  tickets: Array<{ id: string; venueRevenue: number; entryFeeType?: string | null }>,
+  rules: RevenueShareRule[] | null | undefined,
+  ownerId: string,
+): BeneficiaryShare[] {
+  const byBeneficiary = new Map<string, BeneficiaryShare>()
+  for (const ticket of tickets) {
+    for (const share of splitTicketRevenue(ticket, rules, ownerId)) {
+      const current = byBeneficiary.get(share.beneficiaryId)
+      if (current) {
+        current.amount = money(current.amount + share.amount)
+        current.ticketIds.push(ticket.id)
+      } else {
+        byBeneficiary.set(share.beneficiaryId, { ...share, ticketIds: [ticket.id] })
+      }
+    }
+  }
+  return [...byBeneficiary.values()]
+}
+
+/** What one party earns from the tickets */
+export function shareOf(
+  tickets: Array<{ venueRevenue: number; entryFeeType?: string | null }>,
+  rules: RevenueShareRule[] | null | undefined,
+  ownerId: string,
+  beneficiaryId: string,
+): number {
+  return money(tickets.reduce(
+    (sum, t) => sum + (splitTicketRevenue(t, rules, ownerId).find((s) => s.beneficiaryId === beneficiaryId)?.amount || 0),
+    0,
+  ))
+}
+
+/** Problem with the rules, or null when they can be saved */
+export function revenueShareSetupError(
+  rules: RevenueShareRule[],
+  entryFees: Array<{ name: string; amount: string }>,
+  ownerId: string,
+): string | null {
+  const feeNames = new Set(entryFees.map((f) => f.name))
+  for (const rule of rules) {
+    if (!rule.beneficiaryId) return "Every share needs an account to pay"
+    if (rule.beneficiaryId === ownerId) return "The event creator keeps whatever is not shared; remove their own rule"
+    if (!(rule.value > 0)) return "Shares must be more than zero"
+    if (rule.type === "percentage" && rule.value > 100) return "A percentage share cannot be over 100%"
+    const unknown = (rule.entryFees || []).find((name) => !feeNames.has(name))
+    if (unknown) return `"${unknown}" is not one of this event's ticket types`
+  }
+  for (const fee of entryFees) {
+    const applicable = rulesForFee(rules, fee.name)
+    const percent = applicable.filter((r) => r.type === "percentage").reduce((sum, r) => sum + r.value, 0)
+    if (percent > 100) return `Shares on ${fee.name} add up to ${percent}%`
+    const fixed = applicable.filter((r) => r.type === "fixed").reduce((sum, r) => sum + r.value, 0)
+    const price = parseInt(String(fee.amount || "").replace(/[^0-9]/g, "") || "0", 10)
+    if (fixed > 0 && fixed >= price) return `Fixed shares on ${fee.name} are more than the ticket price`
+  }
+  return null
+}
@@ -0,0 +1,111 @@
+import type { RiskAction, RiskFactor } from "../models/Risk"
+
+// Shared with the payment Netlify functions, so type-only model imports.
+
+export const RISK_STEP_UP_SCORE = 40
+export const RISK_BLOCK_SCORE = 80
+
+// Velocity looks back this far, and ignores the first few tries (a failed PIN
+// prompt or a switched network is normal)
+export const VELOCITY_WINDOW_MINUTES = 60
+export const VELOCITY_FREE_ATTEMPTS = 3
+
+// Unpaid seated orders in this window before seat-hold abuse counts
+export const SEAT_HOLD_WINDOW_HOURS = 24
+export const SEAT_HOLD_FREE_ABANDONS = 2
+
+// A step-up has to be finished, and the payment started, within this
+export const RISK_ASSESSMENT_TTL_MINUTES = 30
+
+export interface RiskSignals {
+  // Other checkouts in the velocity window from the same phone, email and network
+  phoneAttempts: number
+  emailAttempts: number
+  deviceAttempts: number
+  // Name on the mobile money or card account, against the buyer and attendee names
+  payerName?: string
+  buyerNames: string[]
+  // Other buyers who used the same security photo
+  photoSharedWith: number
+  chargebacks: number
+  // Earlier checkouts an admin marked as fraud
+  confirmedFraud: number
+  // The buyer's recent unpaid orders that picked seats or tables
+  abandonedSeatOrders: number
+}
+
+export interface RiskResult {
+  score: number
+  action: RiskAction
+  factors: RiskFactor[]
+}
+
+export function normalizeRiskPhone(phone: string | null | undefined): string {
+  const digits = String(phone || "").replace(/\D/g, "")
+  if (digits.startsWith("0")) return "256" + digits.slice(1)
+  return digits
+}
+
+export function normalizeRiskEmail(email: string | null | undefined): string {
+  return String(email || "").trim().toLowerCase()
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().normalize("NFKD").replace(/[^a-z\s]/g, " ").split(/\s+/).filter((t) => t.length >= 2)
+}
+
+/**
+ * Loose match: one shared name is enough, since mobile money accounts often
+ * carry only part of a name or the names in a different order.
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const left = new Set(nameTokens(a))
+  return nameTokens(b).some((t) => left.has(t))
+}
+
+function velocity(signal: RiskFactor["signal"], label: string, attempts: number): RiskFactor | null {
+  const excess = attempts - VELOCITY_FREE_ATTEMPTS
+  if (excess <= 0) return null
+  return { signal, points: Math.min(30, excess * 10), detail: `${attempts} other checkouts from this ${label} in the last hour` }
+}
+
+export function riskActionFor(score: number): RiskAction {
+  if (score >= RISK_BLOCK_SCORE) return "block"
+  if (score >= RISK_STEP_UP_SCORE) return "step_up"
+  return "allow"
+}
+
+export function scoreCheckoutRisk(signals: RiskSignals): RiskResult {
+  const factors: Array<RiskFactor | null> = [
+    velocity("velocity_phone", "phone number", signals.phoneAttempts),
+    velocity("velocity_email", "email", signals.emailAttempts),
+    velocity("velocity_device", "network", signals.deviceAttempts),
+  ]
+
+  const buyerNames = signals.buyerNames.filter((n) => n.trim())
+  if (signals.payerName?.trim() && buyerNames.length && !buyerNames.some((n) => namesMatch(signals.payerName!, n))) {
+    factors.push({ signal: "name_mismatch", points: 20, detail: `Paying account "${signals.payerName.trim()}" matches none of the ticket names` })
+  }
+  if (signals.photoSharedWith > 0) {
+    factors.push({
+      signal: "photo_reuse",
+      points: Math.min(60, 40 + (signals.photoSharedWith - 1) * 10),
+      detail: `Security photo already used by ${signals.photoSharedWith} other buyer${signals.photoSharedWith !== 1 ? "s" : ""}`,
+    })
+  }
+  if (signals.chargebacks > 0) {
+    factors.push({ signal: "prior_chargeback", points: Math.min(100, signals.chargebacks * 50), detail: `${signals.chargebacks} earlier chargeback${signals.chargebacks !== 1 ? "s" : ""}` })
+  }
+  if (signals.confirmedFraud > 0) {
+    factors.push({ signal: "confirmed_fraud", points: 100, detail: "An earlier checkout was confirmed as fraud" })
+  }
+  const abandons = signals.abandonedSeatOrders - SEAT_HOLD_FREE_ABANDONS
+  if (abandons > 0) {
+    factors.push({ signal: "seat_hold_abuse", points: Math.min(45, abandons * 15), detail: `${signals.abandonedSeatOrders} unpaid seated orders in the last day` })
+  }
+
+  const kept = factors.filter((f): f is RiskFactor => f !== null)
+  const score = Math.min(100, kept.reduce((sum, f) => sum + f.points, 0))
+  return { score, action: riskActionFor(score), factors: kept }
+}
+
@@ -19,10 +19,13 @@ import MyVenuesScreen from '../screens/MyVenuesScreen';
 import ManageProgramsScreen from '../screens/ManageProgramsScreen';
 import AddVibeScreen from '../screens/AddVibeScreen';
 import TodaysVibeScreen from '../screens/TodaysVibeScreen';
+import VibeCheckInScreen from '../screens/VibeCheckInScreen';
 import TicketContactScreen from '../screens/TicketContactScreen';
 import TicketPurchaseScreen from '../screens/TicketPurchaseScreen';
 import TicketScannerScreen from '../screens/TicketScannerScreen';
 import MyTicketsScreen from '../screens/MyTicketsScreen';
+import RevenueSharesScreen from '../screens/RevenueSharesScreen';
+import TeamScreen from '../screens/TeamScreen';
 import NotificationScreen from '../screens/NotificationScreen';
 import PaymentCallbackScreen from '../screens/PaymentCallbackScreen';
 import ResendTicketScreen from '../screens/ResendTicketScreen';
@@ -36,6 +39,11 @@ import AdminEventsScreen from '../screens/admin/AdminEventsScreen';
 import AdminOwnershipRequestsScreen from '../screens/admin/AdminOwnershipRequestsScreen';
 import AdminStrandedPurchasesScreen from '../screens/admin/AdminStrandedPurchasesScreen';
 import AdminRefundsScreen from '../screens/admin/AdminRefundsScreen';
+import AdminReconciliationScreen from '../screens/admin/AdminReconciliationScreen';
+import AdminLedgerScreen from '../screens/admin/AdminLedgerScreen';
+import AdminAuditLogScreen from '../screens/admin/AdminAuditLogScreen';
+import AdminRiskReviewScreen from '../screens/admin/AdminRiskReviewScreen';
+import AdminVibeModerationScreen from '../screens/admin/AdminVibeModerationScreen';
 import AdminWithdrawalsScreen from '../screens/admin/AdminWithdrawalsScreen';
 import AdminPayoutsScreen from '../screens/admin/AdminPayoutsScreen';
 import AdminGeocodeScreen from '../screens/admin/AdminGeocodeScreen';
@@ -46,12 +54,14 @@ import TokenScannerScreen from '../screens/auth/TokenScannerScreen';
 
 // Import compatibility wrapper
 import { withCompatNavigation } from './compatNavigation';
+import { withAdminTwoFactor } from '../components/AdminTwoFactorGate';
 
 // Import router utilities
 import { RouterProvider, RouteDefinition } from '../utils/URLRouter';
 
 // Authentication and admin guards are handled by individual screens using withAuth HOC
-// No global middleware needed - screens manage their own auth requirements
+// No global middleware needed - screens manage their own auth requirements.
+// Admin screens are additionally wrapped in the two-factor gate.
 
 // Route definitions - comprehensive mapping of all existing screens
 export const routes: RouteDefinition[] = [
@@ -152,6 +162,10 @@ export const routes: RouteDefinition[] = [
     path: '/venues/:venueId/vibe',
     component: withCompatNavigation(TodaysVibeScreen)
   },
+  {
+    path: '/venues/:venueId/check-in',
+    component: withCompatNavigation(VibeCheckInScreen)
+  },
   {
     path: '/venues/events/:eventId',
     component: withCompatNavigation(EventDetailScreen)
@@ -285,52 +299,77 @@ export const routes: RouteDefinition[] = [
   },
   {
     path: '/profile/admin/dashboard',
-    component: withCompatNavigation(AdminDashboardScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminDashboardScreen)),
     exact: true
   },
   {
     path: '/profile/admin/users',
-    component: withCompatNavigation(AdminUsersScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminUsersScreen)),
     exact: true
   },
   {
     path: '/profile/admin/venues',
-    component: withCompatNavigation(AdminVenuesScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminVenuesScreen)),
     exact: true
   },
   {
     path: '/profile/admin/events',
-    component: withCompatNavigation(AdminEventsScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminEventsScreen)),
     exact: true
   },
   {
     path: '/profile/admin/ownership-requests',
-    component: withCompatNavigation(AdminOwnershipRequestsScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminOwnershipRequestsScreen)),
     exact: true
   },
   {
     path: '/profile/admin/stranded-purchases',
-    component: withCompatNavigation(AdminStrandedPurchasesScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminStrandedPurchasesScreen)),
     exact: true
   },
   {
     path: '/profile/admin/refunds',
-    component: withCompatNavigation(AdminRefundsScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminRefundsScreen)),
+    exact: true
+  },
+  {
+    path: '/profile/admin/reconciliation',
+    component: withCompatNavigation(withAdminTwoFactor(AdminReconciliationScreen)),
+    exact: true
+  },
+  {
+    path: '/profile/admin/ledger',
+    component: withCompatNavigation(withAdminTwoFactor(AdminLedgerScreen)),
+    exact: true
+  },
+  {
+    path: '/profile/admin/audit-log',
+    component: withCompatNavigation(withAdminTwoFactor(AdminAuditLogScreen)),
+    exact: true
+  },
+  {
+    path: '/profile/admin/risk-review',
+    component: withCompatNavigation(withAdminTwoFactor(AdminRiskReviewScreen)),
+    exact: true
+  },
+  {
+    path: '/profile/admin/vibe-moderation',
+    component: withCompatNavigation(withAdminTwoFactor(AdminVibeModerationScreen)),
     exact: true
   },
   {
     path: '/profile/admin/withdrawals',
-    component: withCompatNavigation(AdminWithdrawalsScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminWithdrawalsScreen)),
     exact: true
   },
   {
     path: '/profile/admin/payouts',
-    component: withCompatNavigation(AdminPayoutsScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminPayoutsScreen)),
     exact: true
   },
   {
     path: '/profile/admin/geocode',
-    component: withCompatNavigation(AdminGeocodeScreen),
+    component: withCompatNavigation(withAdminTwoFactor(AdminGeocodeScreen)),
     exact: true
   },
   {
@@ -373,6 +412,16 @@ export const routes: RouteDefinition[] = [
     component: withCompatNavigation(MyTicketsScreen),
     exact: true
   },
+  {
+    path: '/profile/revenue-shares',
+    component: withCompatNavigation(RevenueSharesScreen),
+    exact: true
+  },
+  {
+    path: '/profile/team',
+    component: withCompatNavigation(TeamScreen),
+    exact: true
+  },
   {
     path: '/profile/resend-ticket',
     component: withCompatNavigation(ResendTicketScreen),
@@ -0,0 +1,74 @@
+import type { EventAccess, TeamAction, TeamMember, TeamPermission, TeamRole } from "../models/Team"
+
+export const ROLE_PERMISSIONS: Record<TeamRole, TeamPermission[]> = {
+  owner: ["view_dashboard", "payouts", "refunds", "reentry", "door", "staff_tokens", "event_status", "promotions", "manage_team"],
+  finance: ["view_dashboard", "payouts", "refunds"],
+  door_manager: ["view_dashboard", "reentry", "door", "staff_tokens"],
+  marketing: ["view_dashboard", "promotions"],
+  read_only: ["view_dashboard"],
+}
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Owner",
+  finance: "Finance",
+  door_manager: "Door manager",
+  marketing: "Marketing",
+  read_only: "Read-only",
+}
+
+export const TEAM_ACTION_LABELS: Record<TeamAction, string> = {
+  payout_requested: "Requested a payout",
+  refund_approved: "Approved a refund",
+  refund_rejected: "Rejected a refund",
+  reentry_granted: "Granted re-entry",
+  event_status_changed: "Changed event status",
+  staff_token_created: "Created a staff link",
+  staff_token_revoked: "Revoked a staff link",
+  member_invited: "Invited a member",
+  member_role_changed: "Changed a member's role",
+  member_removed: "Removed a member",
+}
+
+export const INVITABLE_ROLES: Array<TeamMember["role"]> = ["finance", "door_manager", "marketing", "read_only"]
+
+export function hasPermission(access: Pick<EventAccess, "permissions"> | null | undefined, permission: TeamPermission): boolean {
+  return !!access?.permissions.includes(permission)
+}
+
+/**
+ * The caller's role on an event: creators own it, admins can do anything,
+ * and active members of the creator's organisation get their role. Returns
+ * null for everyone else.
+ */
+export function resolveEventAccess(
+  event: { createdBy?: string | null },
+  userId: string,
+  opts: { isAdmin?: boolean; member?: Pick<TeamMember, "role" | "status" | "organizationId"> | null } = {},
+): EventAccess | null {
+  if (opts.isAdmin) return { role: "admin", permissions: [...ROLE_PERMISSIONS.owner] }
+  if (event.createdBy && event.createdBy === userId) return { role: "owner", permissions: [...ROLE_PERMISSIONS.owner] }
+  const member = opts.member
+  if (!member || member.status !== "active" || !ROLE_PERMISSIONS[member.role]) return null
+  return { role: member.role, permissions: [...ROLE_PERMISSIONS[member.role]], organizationId: member.organizationId }
+}
+
+export function normalizeTeamEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/** Problem with an invite, or null when it can be sent */
+export function teamInviteError(
+  email: string,
+  role: string,
+  existing: Array<Pick<TeamMember, "email" | "status">>,
+  ownerEmail?: string | null,
+): string | null {
+  const normalized = normalizeTeamEmail(email)
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) return "Enter a valid email address"
+  if (!INVITABLE_ROLES.includes(role as TeamMember["role"])) return "Choose a role for the new member"
+  if (ownerEmail && normalizeTeamEmail(ownerEmail) === normalized) return "You already own this team"
+  if (existing.some((m) => m.status !== "removed" && normalizeTeamEmail(m.email) === normalized)) {
+    return `${normalized} is already on your team`
+  }
+  return null
+}
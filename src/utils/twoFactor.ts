@@ -0,0 +1,132 @@
+import type { UserType } from "../models/User"
+
+// RFC 4226/6238 one-time codes. Shared with the two-factor Netlify function,
+// which supplies the HMAC, so nothing here depends on a crypto library.
+
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+export const BACKUP_CODE_COUNT = 10
+export const BACKUP_CODE_LENGTH = 10
+export const TWO_FACTOR_ISSUER = "YoVibe"
+
+// Accounts that can move money or act as admin
+export const PRIVILEGED_USER_TYPES: UserType[] = ["admin", "club_owner"]
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+// 32 symbols without 0/O and 1/I, so a byte maps to one without bias
+const BACKUP_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ"
+
+export type HmacSha1 = (key: Uint8Array, message: Uint8Array) => Uint8Array
+
+export function isPrivilegedUserType(userType: UserType | null | undefined): boolean {
+  return !!userType && PRIVILEGED_USER_TYPES.includes(userType)
+}
+
+export function base32Encode(bytes: Uint8Array): string {
+  let out = ""
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return out
+}
+
+/** Accepts lower case, spaces and padding, as authenticator apps display them */
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "")
+  const out: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value < 0) throw new Error(`Invalid base32 character "${char}"`)
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      out.push((buffer >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(out)
+}
+
+export function hotp(hmac: HmacSha1, secret: Uint8Array, counter: number, digits = TOTP_DIGITS): string {
+  // 8-byte big-endian counter; split in two because bitwise ops are 32-bit
+  const message = new Uint8Array(8)
+  const high = Math.floor(counter / 0x100000000)
+  const low = counter >>> 0
+  for (let i = 0; i < 4; i++) {
+    message[3 - i] = (high >>> (8 * i)) & 255
+    message[7 - i] = (low >>> (8 * i)) & 255
+  }
+  const digest = hmac(secret, message)
+  const offset = digest[digest.length - 1] & 15
+  const binary = ((digest[offset] & 127) << 24) | (digest[offset + 1] << 16) | (digest[offset + 2] << 8) | digest[offset + 3]
+  return String(binary % 10 ** digits).padStart(digits, "0")
+}
+
+export function totpStep(timeMs: number, period = TOTP_PERIOD_SECONDS): number {
+  return Math.floor(timeMs / 1000 / period)
+}
+
+export function totp(hmac: HmacSha1, secret: Uint8Array, timeMs: number, digits = TOTP_DIGITS): string {
+  return hotp(hmac, secret, totpStep(timeMs), digits)
+}
+
+/**
+ * The time step a code belongs to, allowing `window` steps of clock drift
+ * either side, or null. Callers keep the last accepted step and refuse
+ * anything at or before it so a code cannot be replayed.
+ */
+export function verifyTotp(hmac: HmacSha1, secret: Uint8Array, code: string, timeMs: number, window = 1): number | null {
+  const clean = normalizeOtpInput(code)
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(clean)) return null
+  const current = totpStep(timeMs)
+  for (let step = current - window; step <= current + window; step++) {
+    if (hotp(hmac, secret, step) === clean) return step
+  }
+  return null
+}
+
+/** Provisioning URL for the enrolment QR code */
+export function totpUri(secret: string, accountName: string, issuer = TWO_FACTOR_ISSUER): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    "algorithm=SHA1",
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD_SECONDS}`,
+  ]
+  return `otpauth://totp/${label}?${params.join("&")}`
+}
+
+export function normalizeOtpInput(code: string): string {
+  return String(code || "").toUpperCase().replace(/[\s-]/g, "")
+}
+
+export function isBackupCodeInput(code: string): boolean {
+  const clean = normalizeOtpInput(code)
+  return clean.length === BACKUP_CODE_LENGTH && [...clean].every((c) => BACKUP_CODE_ALPHABET.includes(c))
+}
+
+/** One backup code from BACKUP_CODE_LENGTH random bytes */
+export function backupCodeFromBytes(bytes: Uint8Array): string {
+  if (bytes.length < BACKUP_CODE_LENGTH) throw new Error(`Need ${BACKUP_CODE_LENGTH} random bytes`)
+  let code = ""
+  for (let i = 0; i < BACKUP_CODE_LENGTH; i++) code += BACKUP_CODE_ALPHABET[bytes[i] & 31]
+  return code
+}
+
+/** "ABCDE-FGHJK": easier to copy down than ten characters in a row */
+export function formatBackupCode(code: string): string {
+  const clean = normalizeOtpInput(code)
+  return `${clean.slice(0, 5)}-${clean.slice(5)}`
+}
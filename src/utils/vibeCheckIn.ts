@@ -0,0 +1,103 @@
+import type { VibeCheckInPosition, VibeCheckInTag, VibePresenceMethod } from "../models/VibeCheckIn"
+
+// Shared with the vibe-checkins Netlify function, so type-only model imports.
+
+export const VIBE_CHECKIN_TAG_LABELS: Record<VibeCheckInTag, string> = {
+  packed: "Packed",
+  quiet: "Quiet",
+  good_dj: "Good DJ",
+  live_band: "Live band",
+  dancing: "Dancing",
+  long_queue: "Long queue",
+  easy_entry: "Easy entry",
+  pricey_drinks: "Pricey drinks",
+}
+export const VIBE_CHECKIN_MAX_TAGS = 3
+
+// A ticket scanned at the door this recently still places the attendee inside
+export const VIBE_CHECKIN_TICKET_HOURS = 8
+// Distance from the venue's pin that still counts as inside
+export const VIBE_GEOFENCE_RADIUS_METERS = 150
+// A fix vaguer than this can't place anyone in a particular venue
+export const VIBE_GEOFENCE_MAX_ACCURACY_METERS = 100
+export const VIBE_POSITION_MAX_AGE_MINUTES = 5
+
+// One check-in per venue in this window, and no more than the hourly limit overall
+export const VIBE_CHECKIN_VENUE_COOLDOWN_MINUTES = 20
+export const VIBE_CHECKIN_HOURLY_LIMIT = 4
+
+// A scanned ticket is proof; a browser location can be spoofed
+export const VIBE_PRESENCE_WEIGHTS: Record<VibePresenceMethod, number> = { ticket: 1, geofence: 0.6 }
+// A rating this close to the live index when it was given agrees with the crowd
+export const VIBE_CHECKIN_AGREEMENT_MARGIN = 1.5
+
+export interface RecentCheckIn {
+  venueId: string
+  createdAt: Date
+}
+
+export function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = rad(b.latitude - a.latitude)
+  const dLng = rad(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371000 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Why a position doesn't place the attendee at the venue, or null when it
+ * does. LocationService falls back to a fixed default with no accuracy when
+ * the browser has no fix, so a missing accuracy is never accepted.
+ */
+export function geofenceRefusal(
+  position: VibeCheckInPosition | null | undefined,
+  venue: { latitude?: number | null; longitude?: number | null },
+  now: Date,
+): string | null {
+  if (venue.latitude == null || venue.longitude == null) return "This venue has no location on the map, so only a scanned ticket can verify you're there"
+  if (!position || !Number.isFinite(position.latitude) || !Number.isFinite(position.longitude)) return "Share your location to check in"
+  if (position.accuracy == null || position.accuracy > VIBE_GEOFENCE_MAX_ACCURACY_METERS) return "Your location isn't precise enough. Try again with GPS on."
+  const age = now.getTime() - position.timestamp
+  if (!Number.isFinite(age) || age > VIBE_POSITION_MAX_AGE_MINUTES * 60000 || age < -60000) return "Your location is out of date. Try again."
+  const distance = distanceMeters(position, { latitude: venue.latitude, longitude: venue.longitude })
+  if (distance > VIBE_GEOFENCE_RADIUS_METERS + position.accuracy) return "You need to be at the venue to check in"
+  return null
+}
+
+/** When the attendee may check in again, or null if they may now */
+export function checkInRetryAt(recent: RecentCheckIn[], venueId: string, now: Date): Date | null {
+  const hourAgo = now.getTime() - 3600000
+  const times = recent.map((c) => c.createdAt.getTime()).filter((t) => t > hourAgo).sort((a, b) => a - b)
+  const venueCooldown = VIBE_CHECKIN_VENUE_COOLDOWN_MINUTES * 60000
+  const lastHere = Math.max(0, ...recent.filter((c) => c.venueId === venueId).map((c) => c.createdAt.getTime()))
+  const waits = [
+    lastHere + venueCooldown > now.getTime() ? lastHere + venueCooldown : 0,
+    times.length >= VIBE_CHECKIN_HOURLY_LIMIT ? times[times.length - VIBE_CHECKIN_HOURLY_LIMIT] + 3600000 : 0,
+  ]
+  const retry = Math.max(...waits)
+  return retry > now.getTime() ? new Date(retry) : null
+}
+
+/** 1-5 in half steps, or null */
+export function normalizeCheckInRating(value: unknown): number | null {
+  const rating = Number(value)
+  if (value === null || value === undefined || value === "" || !Number.isFinite(rating) || rating < 1 || rating > 5) return null
+  return Math.round(rating * 2) / 2
+}
+
+export function normalizeCheckInTags(tags: unknown): VibeCheckInTag[] {
+  if (!Array.isArray(tags)) return []
+  const known = tags.filter((t): t is VibeCheckInTag => typeof t === "string" && t in VIBE_CHECKIN_TAG_LABELS)
+  return Array.from(new Set(known)).slice(0, VIBE_CHECKIN_MAX_TAGS)
+}
+
+/**
+ * Rated check-ins count towards reputation by whether they agreed with the
+ * live index when given; check-ins with no index to compare against don't.
+ */
+export function checkInAgrees(rating: number, crowdIndex: number): boolean {
+  return Math.abs(rating - crowdIndex) <= VIBE_CHECKIN_AGREEMENT_MARGIN
+}
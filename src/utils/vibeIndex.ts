@@ -0,0 +1,218 @@
+import type { VibeCheckInTag } from "../models/VibeCheckIn"
+import type { VenueVibeIndex, VibeIndexConfidence, VibeIndexPoint, VibeIndexSource } from "../models/VibeIndex"
+import { VIBE_DEFAULT_UTC_OFFSET_MINUTES } from "./vibeScoring"
+
+// Shared with the vibe-index Netlify functions, so type-only model imports.
+
+// A photo counts half as much after this long
+export const VIBE_INDEX_HALF_LIFE_MINUTES = 45
+// Nights run from 06:00 to 06:00, so a 1am photo belongs to the night before
+export const VIBE_NIGHT_ROLLOVER_HOUR = 6
+// History that goes into a venue's usual vibe
+export const VIBE_BASELINE_WEEKS = 8
+// Fewer photos than this in a night/hour slot is no baseline
+export const VIBE_BASELINE_MIN_PHOTOS = 3
+// The usual vibe weighs as much as one fresh photo from a trusted uploader
+export const VIBE_BASELINE_WEIGHT = 1
+// Live weight (fresh, trusted photos) needed for each confidence level
+export const VIBE_INDEX_HIGH_WEIGHT = 2.5
+export const VIBE_INDEX_MEDIUM_WEIGHT = 1
+// Index this far from the usual vibe is worth calling out
+export const VIBE_TREND_MARGIN = 0.5
+// Check-in tags from this window show on the index once enough attendees agree
+export const VIBE_TAG_WINDOW_MINUTES = 90
+export const VIBE_TAG_MIN_REPORTS = 2
+
+export interface VibeIndexPhoto {
+  rating: number
+  uploadedAt: Date
+  // 0-1, from uploaderTrust; check-ins also carry their presence weight
+  trust: number
+  // A rated check-in rather than a scored photo
+  checkIn?: boolean
+}
+
+export interface VibeIndexTags {
+  tags: VibeCheckInTag[]
+  at: Date
+}
+
+/** Usual vibe for one venue, night of the week and local hour */
+export interface VibeBaseline {
+  venueId: string
+  weekday: number
+  hour: number
+  mean: number
+  photos: number
+}
+
+export interface UploaderHistory {
+  scored: number
+  rejected: number
+  removed: number
+}
+
+export interface VibeNightSlot {
+  // Day the night started on, 0 = Sunday
+  weekday: number
+  // Local hour, 0-23
+  hour: number
+  nightStart: Date
+}
+
+export function vibeNightSlot(at: Date, utcOffsetMinutes = VIBE_DEFAULT_UTC_OFFSET_MINUTES): VibeNightSlot {
+  const local = new Date(at.getTime() + utcOffsetMinutes * 60000)
+  const night = new Date(local.getTime() - VIBE_NIGHT_ROLLOVER_HOUR * 3600000)
+  const start = Date.UTC(night.getUTCFullYear(), night.getUTCMonth(), night.getUTCDate(), VIBE_NIGHT_ROLLOVER_HOUR)
+  return {
+    weekday: night.getUTCDay(),
+    hour: local.getUTCHours(),
+    nightStart: new Date(start - utcOffsetMinutes * 60000),
+  }
+}
+
+/**
+ * New uploaders start at 0.5. Photos the worker accepted and check-ins that
+ * agreed with the crowd raise it towards 1; rejected photos and disagreeing
+ * check-ins pull it down, and removed photos twice as hard.
+ */
+export function uploaderTrust(history: UploaderHistory): number {
+  const trust = (history.scored + 1) / (history.scored + 2 * history.rejected + 4 * history.removed + 2)
+  return Math.max(0.1, Math.min(1, trust))
+}
+
+export function vibeDecay(ageMinutes: number): number {
+  return Math.pow(0.5, Math.max(0, ageMinutes) / VIBE_INDEX_HALF_LIFE_MINUTES)
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+function blend(photos: VibeIndexPhoto[], at: Date, typical: VibeBaseline | undefined) {
+  let weight = 0
+  let sum = 0
+  for (const photo of photos) {
+    if (photo.uploadedAt > at) continue
+    const w = photo.trust * vibeDecay((at.getTime() - photo.uploadedAt.getTime()) / 60000)
+    weight += w
+    sum += w * photo.rating
+  }
+  const prior = typical && typical.photos >= VIBE_BASELINE_MIN_PHOTOS ? typical : undefined
+  const priorWeight = prior ? VIBE_BASELINE_WEIGHT : 0
+  if (weight + priorWeight === 0) return { index: null, weight, typical: null }
+  return {
+    index: round1((sum + (prior ? prior.mean * priorWeight : 0)) / (weight + priorWeight)),
+    weight,
+    typical: prior ? round1(prior.mean) : null,
+  }
+}
+
+export function vibeIndexConfidence(liveWeight: number, hasTypical: boolean): VibeIndexConfidence {
+  if (liveWeight >= VIBE_INDEX_HIGH_WEIGHT) return "high"
+  if (liveWeight >= VIBE_INDEX_MEDIUM_WEIGHT) return "medium"
+  if (liveWeight > 0.05 || hasTypical) return "low"
+  return "none"
+}
+
+function vibeIndexSource(liveWeight: number, hasTypical: boolean): VibeIndexSource {
+  if (liveWeight > 0.05) return hasTypical ? "blended" : "live"
+  return hasTypical ? "typical" : "none"
+}
+
+/** Tags enough recent check-ins reported, most reported first */
+export function recentVibeTags(checkIns: VibeIndexTags[], now: Date): VibeCheckInTag[] {
+  const since = now.getTime() - VIBE_TAG_WINDOW_MINUTES * 60000
+  const counts = new Map<VibeCheckInTag, number>()
+  for (const checkIn of checkIns) {
+    if (checkIn.at.getTime() < since || checkIn.at > now) continue
+    for (const tag of checkIn.tags) counts.set(tag, (counts.get(tag) || 0) + 1)
+  }
+  return Array.from(counts).filter(([, n]) => n >= VIBE_TAG_MIN_REPORTS).sort((a, b) => b[1] - a[1]).map(([tag]) => tag)
+}
+
+/**
+ * The venue's index now, plus one point per hour of tonight so far.
+ * `photos` are tonight's public photos and rated check-ins; `baselines` the
+ * venue's usual vibe for tonight's night of the week, any hours; `tags`
+ * tonight's check-in tags.
+ */
+export function computeVenueVibeIndex(input: {
+  venueId: string
+  photos: VibeIndexPhoto[]
+  baselines: VibeBaseline[]
+  tags?: VibeIndexTags[]
+  now: Date
+  utcOffsetMinutes?: number
+}): VenueVibeIndex {
+  const offset = input.utcOffsetMinutes ?? VIBE_DEFAULT_UTC_OFFSET_MINUTES
+  const slot = vibeNightSlot(input.now, offset)
+  const byHour = new Map(input.baselines.filter((b) => b.weekday === slot.weekday).map((b) => [b.hour, b]))
+  const photos = input.photos.filter((p) => p.uploadedAt >= slot.nightStart && p.uploadedAt <= input.now)
+
+  const current = blend(photos, input.now, byHour.get(slot.hour))
+  const tonight: VibeIndexPoint[] = []
+  for (let end = slot.nightStart.getTime() + 3600000; end - 3600000 < input.now.getTime(); end += 3600000) {
+    const at = new Date(Math.min(end, input.now.getTime()))
+    const hour = vibeNightSlot(new Date(end - 3600000), offset).hour
+    const point = blend(photos, at, byHour.get(hour))
+    tonight.push({
+      at: at.toISOString(),
+      index: point.index,
+      typical: point.typical,
+      photos: photos.filter((p) => p.uploadedAt.getTime() > end - 3600000 && p.uploadedAt.getTime() <= end).length,
+    })
+  }
+
+  const last = photos.reduce<Date | null>((latest, p) => (!latest || p.uploadedAt > latest ? p.uploadedAt : latest), null)
+  return {
+    venueId: input.venueId,
+    index: current.index ?? 0,
+    confidence: vibeIndexConfidence(current.weight, current.typical !== null),
+    source: vibeIndexSource(current.weight, current.typical !== null),
+    typical: current.typical,
+    livePhotos: photos.filter((p) => !p.checkIn).length,
+    liveCheckIns: photos.filter((p) => p.checkIn).length,
+    lastPhotoAt: last ? last.toISOString() : null,
+    tags: recentVibeTags(input.tags || [], input.now),
+    tonight,
+    computedAt: input.now.toISOString(),
+  }
+}
+
+/** Mean rating per venue, night of the week and local hour */
+export function buildVibeBaselines(
+  rows: Array<{ venueId: string; rating: number; uploadedAt: Date }>,
+  utcOffsetMinutes = VIBE_DEFAULT_UTC_OFFSET_MINUTES,
+): VibeBaseline[] {
+  const slots = new Map<string, VibeBaseline & { sum: number }>()
+  for (const row of rows) {
+    const { weekday, hour } = vibeNightSlot(row.uploadedAt, utcOffsetMinutes)
+    const key = `${row.venueId}|${weekday}|${hour}`
+    const slot = slots.get(key) || { venueId: row.venueId, weekday, hour, mean: 0, photos: 0, sum: 0 }
+    slot.sum += row.rating
+    slot.photos++
+    slots.set(key, slot)
+  }
+  return Array.from(slots.values(), ({ sum, ...slot }) => ({ ...slot, mean: Math.round((sum / slot.photos) * 100) / 100 }))
+}
+
+export type VibeTrend = "above" | "usual" | "below"
+
+export function vibeTrend(index: VenueVibeIndex): VibeTrend | null {
+  if (index.typical === null || index.source === "typical" || index.source === "none") return null
+  if (index.index - index.typical >= VIBE_TREND_MARGIN) return "above"
+  if (index.typical - index.index >= VIBE_TREND_MARGIN) return "below"
+  return "usual"
+}
+
+export const VIBE_TREND_LABELS: Record<VibeTrend, string> = {
+  above: "Livelier than usual for this hour",
+  usual: "About usual for this hour",
+  below: "Quieter than usual for this hour",
+}
+
+export const VIBE_CONFIDENCE_LABELS: Record<VibeIndexConfidence, string> = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+  none: "No vibes yet",
+}
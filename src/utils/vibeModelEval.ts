@@ -0,0 +1,147 @@
+import type { VibeAnalysis } from "../models/VibeImage"
+import type { VibeCalibrationBin, VibeModelMetrics, VibeModelVersion, VibeShadowSummary } from "../models/VibeModel"
+import { VIBE_MIN_CONFIDENCE, vibeFromPrediction, vibeRatingFor } from "./vibeScoring"
+
+// Shared with scripts/vibe-model.js and the vibe-scoring Netlify functions, so type-only model imports.
+
+export const VIBE_CALIBRATION_BINS = 10
+
+// What a version has to show on a labelled set before it can be promoted
+export const VIBE_PROMOTION_GATES = {
+  minSamples: 200,
+  // Six classes, so chance is about 0.17
+  minAccuracy: 0.5,
+  maxRatingMae: 0.75,
+  maxCalibrationError: 0.1,
+  // Against the promoted version, evaluated on the same set
+  maxAccuracyDrop: 0.02,
+  maxRatingMaeRise: 0.05,
+}
+
+export interface VibeEvalSample {
+  // Labelled class, and a person's star rating when the set has one
+  label: number
+  rating?: number | null
+  probabilities: ArrayLike<number>
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Confusion matrix, rating error and calibration of a model's predictions on
+ * a labelled set. Without a person's rating, a photo's true rating is its
+ * labelled class's rating, so rating error weighs how far off a wrong class is.
+ */
+export function evaluateVibePredictions(
+  samples: VibeEvalSample[],
+  classRatings: Required<VibeAnalysis>[],
+  dataset: { name: string; hash: string },
+  now = new Date(),
+): VibeModelMetrics {
+  const classes = classRatings.length
+  const confusion = classRatings.map(() => classRatings.map(() => 0))
+  const bins = Array.from({ length: VIBE_CALIBRATION_BINS }, () => ({ count: 0, confidence: 0, correct: 0 }))
+  let correct = 0
+  let ratingError = 0
+  let lowConfidence = 0
+
+  for (const sample of samples) {
+    if (!Number.isInteger(sample.label) || sample.label < 0 || sample.label >= classes) {
+      throw new Error(`Label ${sample.label} is not one of the model's ${classes} classes`)
+    }
+    const prediction = vibeFromPrediction(sample.probabilities, classRatings)
+    const hit = prediction.predictedClass === sample.label
+    const truth = sample.rating ?? vibeRatingFor(classRatings[sample.label])
+    confusion[sample.label][prediction.predictedClass]++
+    if (hit) correct++
+    ratingError += Math.abs(prediction.vibeRating - truth)
+    if (prediction.confidence < VIBE_MIN_CONFIDENCE) lowConfidence++
+    const bin = bins[Math.min(VIBE_CALIBRATION_BINS - 1, Math.floor(prediction.confidence * VIBE_CALIBRATION_BINS))]
+    bin.count++
+    bin.confidence += prediction.confidence
+    if (hit) bin.correct++
+  }
+
+  const n = samples.length
+  const calibration: VibeCalibrationBin[] = bins.map((bin, i) => ({
+    from: i / VIBE_CALIBRATION_BINS,
+    to: (i + 1) / VIBE_CALIBRATION_BINS,
+    count: bin.count,
+    confidence: bin.count ? round(bin.confidence / bin.count) : 0,
+    accuracy: bin.count ? round(bin.correct / bin.count) : 0,
+  }))
+  const calibrationError = n
+    ? bins.reduce((sum, bin) => sum + (bin.count ? Math.abs(bin.correct - bin.confidence) / n : 0), 0)
+    : 0
+
+  return {
+    dataset: dataset.name,
+    datasetHash: dataset.hash,
+    evaluatedAt: now.toISOString(),
+    samples: n,
+    accuracy: n ? round(correct / n) : 0,
+    confusion,
+    ratingMae: n ? round(ratingError / n) : 0,
+    calibrationError: round(calibrationError),
+    calibration,
+    lowConfidenceShare: n ? round(lowConfidence / n) : 0,
+  }
+}
+
+/** Why this version can't replace the promoted one; empty when it can */
+export function vibePromotionRefusals(
+  candidate: VibeModelVersion,
+  promoted: VibeModelVersion | null,
+  gates = VIBE_PROMOTION_GATES,
+): string[] {
+  const metrics = candidate.metrics
+  if (!metrics) return [`Evaluate ${candidate.version} on a labelled set before promoting it`]
+
+  const refusals: string[] = []
+  if (metrics.samples < gates.minSamples) refusals.push(`Only ${metrics.samples} labelled photos; at least ${gates.minSamples} are needed`)
+  if (metrics.accuracy < gates.minAccuracy) refusals.push(`Accuracy ${metrics.accuracy} is below ${gates.minAccuracy}`)
+  if (metrics.ratingMae > gates.maxRatingMae) refusals.push(`Rating MAE ${metrics.ratingMae} is above ${gates.maxRatingMae}`)
+  if (metrics.calibrationError > gates.maxCalibrationError) {
+    refusals.push(`Calibration error ${metrics.calibrationError} is above ${gates.maxCalibrationError}`)
+  }
+
+  if (promoted && promoted.version !== candidate.version) {
+    const baseline = promoted.metrics
+    if (!baseline || baseline.datasetHash !== metrics.datasetHash) {
+      refusals.push(`Evaluate ${promoted.version} on ${metrics.dataset} too, so the two can be compared`)
+    } else {
+      if (baseline.accuracy - metrics.accuracy > gates.maxAccuracyDrop) {
+        refusals.push(`Accuracy drops from ${baseline.accuracy} to ${metrics.accuracy}`)
+      }
+      if (metrics.ratingMae - baseline.ratingMae > gates.maxRatingMaeRise) {
+        refusals.push(`Rating MAE rises from ${baseline.ratingMae} to ${metrics.ratingMae}`)
+      }
+    }
+  }
+  return refusals
+}
+
+export interface VibeShadowScore {
+  rating: number
+  confidence: number
+  shadowRating: number
+  shadowConfidence: number
+}
+
+/** How the candidate's shadow scores of live photos differ from the promoted model's */
+export function summarizeShadowScores(candidate: string, scores: VibeShadowScore[]): VibeShadowSummary {
+  const n = scores.length
+  const sum = (f: (s: VibeShadowScore) => number) => scores.reduce((total, s) => total + f(s), 0)
+  return {
+    candidate,
+    count: n,
+    ratingMae: n ? round(sum((s) => Math.abs(s.shadowRating - s.rating)) / n) : 0,
+    ratingBias: n ? round(sum((s) => s.shadowRating - s.rating) / n) : 0,
+    confidenceDisagreements: scores.filter(
+      (s) => (s.confidence < VIBE_MIN_CONFIDENCE) !== (s.shadowConfidence < VIBE_MIN_CONFIDENCE),
+    ).length,
+  }
+}
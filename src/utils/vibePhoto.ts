@@ -0,0 +1,97 @@
+export interface CapturedVibePhoto {
+  // Resized JPEG, for preview and upload
+  dataUrl: string
+  blob: Blob
+}
+
+/**
+ * Resize/compress an image File to a data URL and Blob.
+ * - maxWidth: target maximum width in pixels (preserves aspect ratio)
+ * - quality: JPEG quality 0..1
+ */
+function fileToDataUrlAndBlob(file: File, maxWidth = 1600, quality = 0.85) {
+  return new Promise<{ dataUrl: string; blob: Blob }>((resolve, reject) => {
+    // Use the browser Image constructor explicitly via window to avoid the react-native Image type
+    if (typeof window === "undefined" || typeof (window as any).Image === "undefined") {
+      reject(new Error("Browser Image API not available"))
+      return
+    }
+
+    const img = new (window as any).Image() as HTMLImageElement
+    const url = URL.createObjectURL(file)
+
+    img.onload = () => {
+      try {
+        const ratio = img.naturalWidth / img.naturalHeight
+        let targetWidth = img.naturalWidth
+        let targetHeight = img.naturalHeight
+        if (img.naturalWidth > maxWidth) {
+          targetWidth = maxWidth
+          targetHeight = Math.round(maxWidth / ratio)
+        }
+
+        const canvas = document.createElement("canvas")
+        canvas.width = targetWidth
+        canvas.height = targetHeight
+        const ctx = canvas.getContext("2d")
+        if (!ctx) throw new Error("Canvas context not available")
+        ctx.drawImage(img as CanvasImageSource, 0, 0, targetWidth, targetHeight)
+
+        const dataUrl = canvas.toDataURL("image/jpeg", quality)
+
+        canvas.toBlob(
+          (b) => {
+            if (!b) {
+              reject(new Error("Failed to create blob from canvas"))
+              return
+            }
+            resolve({ dataUrl, blob: b })
+          },
+          "image/jpeg",
+          quality
+        )
+      } catch (err) {
+        reject(err)
+      } finally {
+        URL.revokeObjectURL(url)
+      }
+    }
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Failed to load image file"))
+    }
+
+    // Start loading
+    img.src = url
+  })
+}
+
+/**
+ * Open the camera through a hidden file input (capture="environment" opens
+ * the back camera on mobile browsers) and resolve the resized photo. Browsers
+ * don't report a cancelled picker, so the promise only settles on a pick.
+ */
+export function captureVibePhoto(): Promise<CapturedVibePhoto> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = "image/*"
+    input.setAttribute("capture", "environment")
+    input.style.display = "none"
+
+    input.onchange = async () => {
+      const file = input.files && input.files[0]
+      if (input.parentNode) input.parentNode.removeChild(input)
+      if (!file) return
+      try {
+        resolve(await fileToDataUrlAndBlob(file, 1600, 0.85))
+      } catch (err) {
+        reject(err)
+      }
+    }
+
+    document.body.appendChild(input)
+    input.click()
+  })
+}
@@ -0,0 +1,261 @@
+import type { VibeAnalysis, VibeReason, VibeScoringStatus } from "../models/VibeImage"
+
+// Shared with the vibe-scoring Netlify functions, so type-only model imports.
+
+// Ratings for each class the original vibe model predicts, quietest first.
+// Each registered model version carries its own mapping; see vibe_models/registry.json.
+export const VIBE_CLASS_RATINGS: Required<VibeAnalysis>[] = [
+  { crowdDensity: 0.5, lightingQuality: 0.3, energyLevel: 0.2, musicVibes: 0.3, overallAtmosphere: 0.2 },
+  { crowdDensity: 1.8, lightingQuality: 1.5, energyLevel: 1.5, musicVibes: 1.5, overallAtmosphere: 1.5 },
+  { crowdDensity: 2.5, lightingQuality: 2.5, energyLevel: 2.5, musicVibes: 2.5, overallAtmosphere: 2.5 },
+  { crowdDensity: 3.2, lightingQuality: 3.5, energyLevel: 3.5, musicVibes: 3.2, overallAtmosphere: 3.2 },
+  { crowdDensity: 4.0, lightingQuality: 4.2, energyLevel: 4.0, musicVibes: 4.0, overallAtmosphere: 4.0 },
+  { crowdDensity: 4.8, lightingQuality: 4.8, energyLevel: 4.8, musicVibes: 4.8, overallAtmosphere: 4.8 },
+]
+
+// A photo has to be taken this recently before upload to say anything about tonight
+export const VIBE_MAX_PHOTO_AGE_MINUTES = 180
+// Phone clocks drift; anything further ahead than this was edited
+export const VIBE_CLOCK_SKEW_MINUTES = 10
+// Photos without a time zone in their EXIF are assumed to be East Africa Time
+export const VIBE_DEFAULT_UTC_OFFSET_MINUTES = 180
+// Difference hashes this close are the same photo, re-saved, resized or recompressed
+export const VIBE_DUPLICATE_DISTANCE = 6
+// Below this top-class probability the model is not looking at a venue
+export const VIBE_MIN_CONFIDENCE = 0.4
+// Near-uniform frames (a pocket, a wall, a black screen)
+export const VIBE_MIN_CONTRAST = 12
+// Coarse skin-tone share that sends a photo to a moderator; it never rejects on its own
+export const VIBE_MAX_SKIN_RATIO = 0.45
+
+export function vibeRatingFor(ratings: Required<VibeAnalysis>): number {
+  return Math.min(5, Math.max(0, Math.round(
+    (ratings.crowdDensity * 0.3 + ratings.lightingQuality * 0.2 +
+     ratings.energyLevel * 0.25 + ratings.musicVibes * 0.15 +
+     ratings.overallAtmosphere * 0.1) * 10
+  ) / 10))
+}
+
+/** Rating and breakdown for the model's output probabilities */
+export function vibeFromPrediction(probabilities: ArrayLike<number>, classRatings = VIBE_CLASS_RATINGS): {
+  predictedClass: number
+  confidence: number
+  vibeRating: number
+  analysisData: Required<VibeAnalysis>
+} {
+  const probs = Array.from(probabilities)
+  const confidence = probs.length ? Math.max(...probs) : 0
+  const predictedClass = Math.max(0, Math.min(probs.indexOf(confidence), classRatings.length - 1))
+  const analysisData = { ...classRatings[predictedClass] }
+  return { predictedClass, confidence, vibeRating: vibeRatingFor(analysisData), analysisData }
+}
+
+/**
+ * Rating from colour and brightness alone, for when no model is promoted.
+ * The browser rated photos this way before the scoring worker; unlike that
+ * version it adds no noise, so re-scoring a photo gives the same answer.
+ */
+export function vibeFromPixels(rgb: ArrayLike<number>): { vibeRating: number; analysisData: Required<VibeAnalysis> } {
+  const count = Math.floor(rgb.length / 3)
+  let rSum = 0, gSum = 0, bSum = 0, bright = 0, dark = 0
+  for (let i = 0; i < count * 3; i += 3) {
+    const r = rgb[i], g = rgb[i + 1], b = rgb[i + 2]
+    rSum += r; gSum += g; bSum += b
+    const level = (r + g + b) / 3
+    if (level > 180) bright++
+    if (level < 50) dark++
+  }
+  const n = count || 1
+  const avgR = rSum / n, avgG = gSum / n, avgB = bSum / n
+  const brightRatio = bright / n
+  const darkRatio = dark / n
+  const clamp = (v: number) => Math.round(Math.min(5, Math.max(0, v)) * 10) / 10
+
+  const crowdDensity = clamp(2.5 + brightRatio * 2)
+  const lightingQuality = clamp(((avgR + avgG + avgB) / 3 / 255) * 5)
+  const energyLevel = clamp(3.5 - darkRatio * 3 + brightRatio * 1.5)
+  const musicVibes = clamp(3 + (Math.abs(avgR - avgG) + Math.abs(avgG - avgB) + Math.abs(avgB - avgR)) / 100)
+  const overallAtmosphere = clamp(crowdDensity * 0.25 + lightingQuality * 0.25 + energyLevel * 0.25 + musicVibes * 0.15 + 0.2)
+  const analysisData = { crowdDensity, lightingQuality, energyLevel, musicVibes, overallAtmosphere }
+  return { vibeRating: vibeRatingFor(analysisData), analysisData }
+}
+
+/**
+ * 64-bit difference hash of a 9x8 greyscale thumbnail, as 16 hex digits.
+ * Each bit says whether a pixel is darker than its right-hand neighbour,
+ * which survives resizing, recompression and small colour edits.
+ */
+export function differenceHash(grey: ArrayLike<number>): string {
+  if (grey.length < 72) throw new Error("Difference hash needs a 9x8 thumbnail")
+  let hex = ""
+  let nibble = 0
+  let bits = 0
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      nibble = (nibble << 1) | (grey[row * 9 + col] < grey[row * 9 + col + 1] ? 1 : 0)
+      if (++bits === 4) {
+        hex += nibble.toString(16)
+        nibble = 0
+        bits = 0
+      }
+    }
+  }
+  return hex
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (x) {
+      distance += x & 1
+      x >>= 1
+    }
+  }
+  return distance
+}
+
+function readTiffAscii(view: DataView, tiff: number, entry: number, little: boolean): string | null {
+  const count = view.getUint32(entry + 4, little)
+  const at = count <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little)
+  if (at + count > view.byteLength) return null
+  let text = ""
+  for (let i = 0; i < count; i++) {
+    const c = view.getUint8(at + i)
+    if (!c) break
+    text += String.fromCharCode(c)
+  }
+  return text
+}
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, number> {
+  const entries = new Map<number, number>()
+  const start = tiff + offset
+  if (start + 2 > view.byteLength) return entries
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    entries.set(view.getUint16(entry, little), entry)
+  }
+  return entries
+}
+
+function parseExifDate(value: string | null, offset: string | null, defaultOffsetMinutes: number): Date | null {
+  const m = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!m) return null
+  const zone = offset?.match(/^([+-])(\d{2}):(\d{2})$/)
+  const offsetMinutes = zone ? (zone[1] === "-" ? -1 : 1) * (Number(zone[2]) * 60 + Number(zone[3])) : defaultOffsetMinutes
+  const utc = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) - offsetMinutes * 60000
+  return Number.isNaN(utc) || +m[1] < 2000 ? null : new Date(utc)
+}
+
+/**
+ * When a JPEG was taken, from its EXIF DateTimeOriginal (falling back to
+ * DateTime). Null when the file has no usable EXIF, as screenshots and
+ * re-encoded images don't.
+ */
+export function exifCaptureTime(bytes: Uint8Array, defaultOffsetMinutes = VIBE_DEFAULT_UTC_OFFSET_MINUTES): Date | null {
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    if (view.getUint16(0) !== 0xffd8) return null
+    let pos = 2
+    while (pos + 4 <= view.byteLength) {
+      const marker = view.getUint16(pos)
+      const length = view.getUint16(pos + 2)
+      // Start of scan: the headers are over
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null
+      if (marker === 0xffe1 && view.getUint32(pos + 4) === 0x45786966) {
+        const tiff = pos + 10
+        const little = view.getUint16(tiff) === 0x4949
+        const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little)
+        const exifPointer = ifd0.get(0x8769)
+        const exif = exifPointer ? readIfd(view, tiff, view.getUint32(exifPointer + 8, little), little) : new Map<number, number>()
+        const ascii = (ifd: Map<number, number>, tag: number) => {
+          const entry = ifd.get(tag)
+          return entry ? readTiffAscii(view, tiff, entry, little) : null
+        }
+        return parseExifDate(ascii(exif, 0x9003), ascii(exif, 0x9011), defaultOffsetMinutes)
+          ?? parseExifDate(ascii(ifd0, 0x0132), ascii(exif, 0x9010), defaultOffsetMinutes)
+      }
+      pos += 2 + length
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+export interface VibeImageStats {
+  // Mean and standard deviation of luma, 0-255
+  brightness: number
+  contrast: number
+  // Share of pixels in a broad skin-tone range
+  skinRatio: number
+}
+
+/** Cheap pixel statistics over interleaved RGB(A) data */
+export function vibeImageStats(pixels: ArrayLike<number>, channels = 3): VibeImageStats {
+  const count = Math.floor(pixels.length / channels)
+  if (!count) return { brightness: 0, contrast: 0, skinRatio: 0 }
+  let sum = 0
+  let sumSquares = 0
+  let skin = 0
+  for (let i = 0; i < count * channels; i += channels) {
+    const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2]
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b
+    sum += luma
+    sumSquares += luma * luma
+    if (r > 95 && g > 40 && b > 20 && r > g && r > b && Math.abs(r - g) > 15 && Math.max(r, g, b) - Math.min(r, g, b) > 15) skin++
+  }
+  const brightness = sum / count
+  return {
+    brightness,
+    contrast: Math.sqrt(Math.max(0, sumSquares / count - brightness * brightness)),
+    skinRatio: skin / count,
+  }
+}
+
+export interface VibeEvidence {
+  uploadedAt: Date
+  // From the stored file's EXIF; null when it has none
+  capturedAt: Date | null
+  // Earlier photo this one is a near-copy of
+  duplicateOf: string | null
+  // The model's top-class probability; null when the photo was rated without one
+  confidence: number | null
+  stats: VibeImageStats
+}
+
+/**
+ * Duplicates and stale photos are rejected outright. Photos that may be
+ * explicit, aren't of a venue or carry no capture time are scored but held
+ * for a moderator.
+ */
+export function vibeVerdict(evidence: VibeEvidence): { status: Extract<VibeScoringStatus, "scored" | "rejected" | "flagged">; reasons: VibeReason[] } {
+  const rejected: VibeReason[] = []
+  if (evidence.duplicateOf) rejected.push("duplicate")
+  if (evidence.capturedAt) {
+    const ageMinutes = (evidence.uploadedAt.getTime() - evidence.capturedAt.getTime()) / 60000
+    if (ageMinutes > VIBE_MAX_PHOTO_AGE_MINUTES) rejected.push("stale")
+    if (ageMinutes < -VIBE_CLOCK_SKEW_MINUTES) rejected.push("future_timestamp")
+  }
+  if (rejected.length) return { status: "rejected", reasons: rejected }
+
+  const flagged: VibeReason[] = []
+  // Without a time in the file there is nothing to say the photo is from tonight
+  if (!evidence.capturedAt) flagged.push("no_capture_time")
+  if (evidence.stats.skinRatio > VIBE_MAX_SKIN_RATIO) flagged.push("nsfw")
+  if ((evidence.confidence !== null && evidence.confidence < VIBE_MIN_CONFIDENCE) || evidence.stats.contrast < VIBE_MIN_CONTRAST) flagged.push("irrelevant")
+  return flagged.length ? { status: "flagged", reasons: flagged } : { status: "scored", reasons: [] }
+}
+
+export const VIBE_REASON_LABELS: Record<VibeReason, string> = {
+  duplicate: "This photo has already been posted",
+  stale: "This photo was taken too long ago",
+  future_timestamp: "This photo's time stamp is in the future",
+  no_capture_time: "This photo has no time stamp",
+  nsfw: "May contain explicit content",
+  irrelevant: "Doesn't look like a venue",
+}
@@ -0,0 +1,201 @@
+// WebAuthn wire formats: base64url, the CBOR subset authenticators use, and
+// authenticator data. Shared with the passkeys Netlify function, which does
+// the hashing and signature checks with Node crypto.
+
+export type PasskeyPurpose = "payout" | "refund" | "ticket_transfer" | "manage_passkeys"
+
+export const PASSKEY_PURPOSES: PasskeyPurpose[] = ["payout", "refund", "ticket_transfer", "manage_passkeys"]
+
+// COSE algorithm ids we accept, in order of preference
+export const COSE_ES256 = -7
+export const COSE_RS256 = -257
+
+const B64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_"
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let out = ""
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    out += B64_ALPHABET[(n >>> 18) & 63] + B64_ALPHABET[(n >>> 12) & 63]
+    if (i + 1 < bytes.length) out += B64_ALPHABET[(n >>> 6) & 63]
+    if (i + 2 < bytes.length) out += B64_ALPHABET[n & 63]
+  }
+  return out
+}
+
+/** Also accepts standard base64 with padding */
+export function base64UrlDecode(input: string): Uint8Array {
+  const clean = input.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+  const out: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const value = B64_ALPHABET.indexOf(char)
+    if (value < 0) throw new Error("Invalid base64url input")
+    buffer = ((buffer << 6) | value) & 0xffffff
+    bits += 6
+    if (bits >= 8) {
+      out.push((buffer >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(out)
+}
+
+export type CborValue = number | string | boolean | null | undefined | Uint8Array | CborValue[] | { [key: string]: CborValue }
+
+/**
+ * Decode one CBOR item starting at `offset`. Map keys are stringified, so
+ * COSE's integer labels come back as "1", "-2" and so on. Tags and
+ * indefinite lengths are not used by authenticators and are rejected.
+ */
+export function decodeCborItem(bytes: Uint8Array, offset = 0): { value: CborValue; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let pos = offset
+
+  const need = (n: number) => {
+    if (pos + n > bytes.length) throw new Error("Truncated CBOR")
+  }
+  const readLength = (info: number): number => {
+    if (info < 24) return info
+    if (info === 24) { need(1); return bytes[pos++] }
+    if (info === 25) { need(2); const v = view.getUint16(pos); pos += 2; return v }
+    if (info === 26) { need(4); const v = view.getUint32(pos); pos += 4; return v }
+    if (info === 27) { need(8); const v = view.getUint32(pos) * 0x100000000 + view.getUint32(pos + 4); pos += 8; return v }
+    throw new Error("Unsupported CBOR length")
+  }
+
+  const readItem = (): CborValue => {
+    need(1)
+    const initial = bytes[pos++]
+    const major = initial >> 5
+    const info = initial & 31
+    if (major === 7) {
+      if (info === 20) return false
+      if (info === 21) return true
+      if (info === 22) return null
+      if (info === 23) return undefined
+      if (info === 26) { need(4); const v = view.getFloat32(pos); pos += 4; return v }
+      if (info === 27) { need(8); const v = view.getFloat64(pos); pos += 8; return v }
+      throw new Error("Unsupported CBOR simple value")
+    }
+    const length = readLength(info)
+    switch (major) {
+      case 0: return length
+      case 1: return -1 - length
+      case 2: { need(length); const v = bytes.slice(pos, pos + length); pos += length; return v }
+      case 3: { need(length); const v = utf8Decode(bytes.subarray(pos, pos + length)); pos += length; return v }
+      case 4: return Array.from({ length }, () => readItem())
+      case 5: {
+        const map: { [key: string]: CborValue } = {}
+        for (let i = 0; i < length; i++) {
+          const key = readItem()
+          map[String(key)] = readItem()
+        }
+        return map
+      }
+      default: throw new Error("Unsupported CBOR type")
+    }
+  }
+
+  const value = readItem()
+  return { value, offset: pos }
+}
+
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  return decodeCborItem(bytes).value
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes)
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array
+  userPresent: boolean
+  userVerified: boolean
+  signCount: number
+  credentialId?: Uint8Array
+  // COSE_Key map, present on registration
+  credentialPublicKey?: { [key: string]: CborValue }
+}
+
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) throw new Error("Authenticator data is too short")
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const flags = bytes[32]
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    userPresent: !!(flags & 0x01),
+    userVerified: !!(flags & 0x04),
+    signCount: view.getUint32(33),
+  }
+  // AT flag: aaguid (16), credential id length (2), credential id, COSE key
+  if (flags & 0x40) {
+    let pos = 37 + 16
+    if (bytes.length < pos + 2) throw new Error("Attested credential data is truncated")
+    const idLength = view.getUint16(pos)
+    pos += 2
+    data.credentialId = bytes.slice(pos, pos + idLength)
+    pos += idLength
+    const key = decodeCborItem(bytes, pos).value
+    if (!key || typeof key !== "object" || Array.isArray(key) || key instanceof Uint8Array) throw new Error("Credential public key is not a COSE key")
+    data.credentialPublicKey = key
+  }
+  return data
+}
+
+export type PublicKeyJwk = { kty: "EC"; crv: "P-256"; x: string; y: string } | { kty: "RSA"; n: string; e: string }
+
+/** COSE_Key to the JWK Node's crypto.createPublicKey accepts */
+export function coseKeyToJwk(cose: { [key: string]: CborValue }): { jwk: PublicKeyJwk; alg: number } {
+  const kty = cose["1"]
+  const alg = cose["3"]
+  if (kty === 2 && alg === COSE_ES256 && cose["-1"] === 1 && cose["-2"] instanceof Uint8Array && cose["-3"] instanceof Uint8Array) {
+    return { jwk: { kty: "EC", crv: "P-256", x: base64UrlEncode(cose["-2"]), y: base64UrlEncode(cose["-3"]) }, alg }
+  }
+  if (kty === 3 && alg === COSE_RS256 && cose["-1"] instanceof Uint8Array && cose["-2"] instanceof Uint8Array) {
+    return { jwk: { kty: "RSA", n: base64UrlEncode(cose["-1"]), e: base64UrlEncode(cose["-2"]) }, alg }
+  }
+  throw new Error("Unsupported passkey algorithm")
+}
+
+export interface ClientData {
+  type: string
+  challenge: string
+  origin: string
+}
+
+/** Parse clientDataJSON and check it answers our challenge from one of our origins */
+export function checkClientData(
+  clientDataJSON: Uint8Array,
+  expected: { type: "webauthn.create" | "webauthn.get"; challenge: string; origins: string[] },
+): ClientData {
+  let data: ClientData
+  try {
+    data = JSON.parse(utf8Decode(clientDataJSON))
+  } catch (e) {
+    throw new Error("Client data is not valid JSON")
+  }
+  if (data.type !== expected.type) throw new Error("Wrong passkey ceremony")
+  if (data.challenge !== expected.challenge) throw new Error("Passkey challenge does not match")
+  if (!expected.origins.includes(data.origin)) throw new Error(`Passkeys are not accepted from ${data.origin}`)
+  return data
+}
+
+export function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+/**
+ * Authenticators that keep a counter must move it forward on every use;
+ * a repeat or step back means the credential was cloned. Zero on both
+ * sides means the authenticator does not count (most synced passkeys).
+ */
+export function signCountIsValid(stored: number, received: number): boolean {
+  if (stored === 0 && received === 0) return true
+  return received > stored
+}